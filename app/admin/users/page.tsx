@@ -0,0 +1,14 @@
+import { ProtectedLayout } from '@/components/layout/ProtectedLayout';
+import UserManagement from '@/components/pages/UserManagement';
+
+export const metadata = {
+  title: 'Users & Roles - SIA',
+};
+
+export default function UserManagementPage() {
+  return (
+    <ProtectedLayout>
+      <UserManagement />
+    </ProtectedLayout>
+  );
+}
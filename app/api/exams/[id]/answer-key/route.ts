@@ -0,0 +1,132 @@
+/**
+ * Answer Key API Endpoint
+ * GET /api/exams/:id/answer-key - The exam's current answer key
+ * PUT /api/exams/:id/answer-key - Create or replace the answer key (saved as a new version)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AnswerKeyService } from '@/services/answerKeyService';
+import { getInstructorProfileByUserId } from '@/services/instructorService';
+import { PutAnswerKeyBody, validateAnswerKeyBody } from '@/lib/apiValidation';
+import { hasCustomRule } from '@/lib/scoring';
+import {
+  apiError,
+  loadExam,
+  readJsonBody,
+  toAnswerKeyDto,
+  withApiUser,
+} from '@/lib/api';
+
+/**
+ * Response:
+ * - 200: { data: AnswerKeyDto }
+ * - 404: exam or answer key not found
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id } = await params;
+
+    try {
+      const exam = await loadExam(id, user, 'view_results');
+      if (exam instanceof NextResponse) return exam;
+
+      const result = await AnswerKeyService.getAnswerKeyByExamId(id);
+      if (!result.success || !result.data) {
+        return apiError('not_found', 'Answer key not found');
+      }
+      return NextResponse.json({ data: toAnswerKeyDto(result.data) });
+    } catch (error) {
+      console.error('[API] Error fetching answer key:', error);
+      return apiError('internal', 'Failed to fetch answer key');
+    }
+  });
+}
+
+/**
+ * Request body: { answers: string[], rules?: QuestionAnswer[], sets?: ExamSet[], scoring?: ScoringPolicy }
+ * Omitted `rules`, `sets` and `scoring` keep their current values.
+ *
+ * Response:
+ * - 200: { data: AnswerKeyDto }
+ * - 400: validation error
+ * - 403: the caller may not edit this exam's answer key
+ * - 409: answer key is locked
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id } = await params;
+
+    const body = await readJsonBody<PutAnswerKeyBody>(request);
+    if (body instanceof NextResponse) return body;
+
+    try {
+      const exam = await loadExam(id, user, 'edit_answer_keys');
+      if (exam instanceof NextResponse) return exam;
+
+      const { answers, errors } = validateAnswerKeyBody(body, exam);
+      if (errors.length > 0) {
+        return apiError('bad_request', 'Invalid answer key', errors);
+      }
+
+      // Rules carry the key's correct answer; default rules aren't stored
+      const rules = Array.isArray(body.rules)
+        ? body.rules
+            .map(rule => ({ ...rule, points: rule.points ?? 1, correctAnswer: answers[rule.questionNumber - 1] }))
+            .filter(hasCustomRule)
+        : undefined;
+      const scoring = body.scoring && {
+        wrongPenalty: body.scoring.wrongPenalty,
+        blankPenalty: body.scoring.blankPenalty,
+        allowNegativeTotal: !!body.scoring.allowNegativeTotal,
+      };
+
+      const existing = await AnswerKeyService.getAnswerKeyByExamId(id);
+      if (existing.success && existing.data) {
+        if (existing.data.locked) {
+          return apiError('conflict', 'Answer key is locked and cannot be modified');
+        }
+        const update = await AnswerKeyService.updateAnswerKey(
+          existing.data.id,
+          answers,
+          user.uid,
+          rules,
+          body.sets,
+          scoring,
+          { userEmail: user.email }
+        );
+        if (!update.success) {
+          return apiError('internal', update.error || 'Failed to update answer key');
+        }
+      } else {
+        const instructor = await getInstructorProfileByUserId(user.uid);
+        const created = await AnswerKeyService.createAnswerKey(
+          id,
+          answers,
+          user.uid,
+          rules,
+          instructor?.instructorId,
+          body.sets,
+          scoring
+        );
+        if (!created.success) {
+          return apiError('internal', created.error || 'Failed to create answer key');
+        }
+      }
+
+      const saved = await AnswerKeyService.getAnswerKeyByExamId(id);
+      if (!saved.success || !saved.data) {
+        return apiError('internal', 'Answer key was saved but could not be read back');
+      }
+      return NextResponse.json({ data: toAnswerKeyDto(saved.data) });
+    } catch (error) {
+      console.error('[API] Error saving answer key:', error);
+      return apiError('internal', 'Failed to save answer key');
+    }
+  });
+}
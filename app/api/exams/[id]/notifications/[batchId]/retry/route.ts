@@ -0,0 +1,43 @@
+/**
+ * Result Email Retry API Endpoint
+ * POST /api/exams/:id/notifications/:batchId/retry - Send the failed emails of a batch again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationService } from '@/services/notificationService';
+import { apiError, loadExam, withApiUser } from '@/lib/api';
+
+/**
+ * Response:
+ * - 200: { data: EmailBatch }
+ * - 404: batch not found
+ * - 409: the batch has no failed emails
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id, batchId } = await params;
+
+    try {
+      const exam = await loadExam(id, user, 'manage_exams');
+      if (exam instanceof NextResponse) return exam;
+
+      const result = await NotificationService.retryFailed(exam, batchId, request.nextUrl.origin, {
+        id: user.uid,
+        email: user.email,
+      });
+      if (!result.success || !result.data) {
+        if (result.error === 'Email batch not found') return apiError('not_found', result.error);
+        if (result.error === 'There are no failed emails to retry') return apiError('conflict', result.error);
+        return apiError('internal', result.error || 'Failed to retry result emails');
+      }
+
+      return NextResponse.json({ data: result.data });
+    } catch (error) {
+      console.error('[API] Error retrying result emails:', error);
+      return apiError('internal', 'Failed to retry result emails');
+    }
+  });
+}
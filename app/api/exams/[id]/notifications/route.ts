@@ -0,0 +1,97 @@
+/**
+ * Result Email API Endpoint
+ * GET  /api/exams/:id/notifications - Email batches the caller sent for an exam, newest first
+ * POST /api/exams/:id/notifications - Email each student their result through the configured mail transport
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationService } from '@/services/notificationService';
+import { apiError, loadExam, readJsonBody, withApiUser } from '@/lib/api';
+
+interface PostNotificationBody {
+  recipients?: { studentId?: string; email?: string }[];
+  subject?: string;
+  note?: string;
+  includeLink?: boolean;
+}
+
+/**
+ * Response:
+ * - 200: { data: EmailBatch[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id } = await params;
+
+    try {
+      const exam = await loadExam(id, user, 'view_results');
+      if (exam instanceof NextResponse) return exam;
+
+      const result = await NotificationService.getBatchesByExamId(id, user.uid);
+      if (!result.success) {
+        return apiError('internal', result.error || 'Failed to fetch email batches');
+      }
+      return NextResponse.json({ data: result.data || [] });
+    } catch (error) {
+      console.error('[API] Error fetching email batches:', error);
+      return apiError('internal', 'Failed to fetch email batches');
+    }
+  });
+}
+
+/**
+ * Request body:
+ *   { recipients: { studentId, email }[], subject?: string, note?: string, includeLink?: boolean }
+ * `subject` may use the result email placeholders, e.g. "Your result for {{examTitle}}".
+ * With `includeLink`, students who have an active result link get it in the email.
+ *
+ * Response:
+ * - 201: { data: EmailBatch } - per-recipient status: sent, failed or skipped
+ * - 400: validation error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id } = await params;
+
+    const body = await readJsonBody<PostNotificationBody>(request);
+    if (body instanceof NextResponse) return body;
+
+    const recipients = Array.isArray(body.recipients)
+      ? body.recipients.filter(r => typeof r?.studentId === 'string' && typeof r?.email === 'string')
+      : [];
+    if (recipients.length === 0) {
+      return apiError('bad_request', '`recipients` must list at least one { studentId, email }');
+    }
+
+    try {
+      const exam = await loadExam(id, user, 'manage_exams');
+      if (exam instanceof NextResponse) return exam;
+
+      const result = await NotificationService.sendResultEmails(
+        exam,
+        recipients as { studentId: string; email: string }[],
+        {
+          subject: typeof body.subject === 'string' ? body.subject : undefined,
+          note: typeof body.note === 'string' ? body.note : undefined,
+          includeLink: body.includeLink === true,
+          origin: request.nextUrl.origin,
+        },
+        { id: user.uid, email: user.email }
+      );
+      if (!result.success || !result.data) {
+        return apiError('internal', result.error || 'Failed to send result emails');
+      }
+
+      return NextResponse.json({ data: result.data }, { status: 201 });
+    } catch (error) {
+      console.error('[API] Error sending result emails:', error);
+      return apiError('internal', 'Failed to send result emails');
+    }
+  });
+}
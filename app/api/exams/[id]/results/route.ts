@@ -0,0 +1,131 @@
+/**
+ * Scanned Results API Endpoint
+ * GET  /api/exams/:id/results - Saved results of an exam, newest first
+ * POST /api/exams/:id/results - Submit a read sheet (e.g. from a scanner app); it is scored server-side
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ScanningService } from '@/services/scanningService';
+import { AnswerKeyService } from '@/services/answerKeyService';
+import { hasExamSets } from '@/lib/examSets';
+import { paginate, PostResultBody, validateResultBody } from '@/lib/apiValidation';
+import { AnswerChoice } from '@/types/scanning';
+import {
+  apiError,
+  loadExam,
+  parsePagination,
+  readJsonBody,
+  toResultDto,
+  withApiUser,
+} from '@/lib/api';
+
+/**
+ * GET /api/exams/:id/results?page=1&pageSize=50&studentId=2024-0001
+ *
+ * Response:
+ * - 200: { data: ResultDto[], pagination: { page, pageSize, total, hasMore } }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const paging = parsePagination(request);
+    if (paging instanceof NextResponse) return paging;
+
+    const { id } = await params;
+
+    try {
+      const exam = await loadExam(id, user, 'view_results');
+      if (exam instanceof NextResponse) return exam;
+
+      const result = await ScanningService.getScannedResultsByExamId(id);
+      if (!result.success) {
+        return apiError('internal', result.error || 'Failed to fetch results');
+      }
+
+      const studentId = request.nextUrl.searchParams.get('studentId');
+      const results = (result.data || []).filter(r => !studentId || (!r.isNullId && r.studentId === studentId));
+
+      return NextResponse.json(paginate(results.map(toResultDto), paging.page, paging.pageSize));
+    } catch (error) {
+      console.error('[API] Error fetching results:', error);
+      return apiError('internal', 'Failed to fetch results');
+    }
+  });
+}
+
+/**
+ * Request body: { studentId: string | null, answers: string[], examSet?: string, onDuplicate?: string }
+ * `answers` are in the printed order of the sheet's set; "" marks a blank item.
+ * A null `studentId` saves the result under an unreadable-ID alert.
+ * `onDuplicate` says what to do when the student already has a result for the exam:
+ * "replace" it, "keep-both" as numbered attempts, or "discard" this sheet.
+ *
+ * Response:
+ * - 201: { data: ResultDto }
+ * - 200: { data: null } - the sheet was discarded as a duplicate
+ * - 400: validation error
+ * - 403: the caller may not scan for this exam
+ * - 409: the exam has no answer key yet, or the student already has a result and no
+ *   `onDuplicate` was given; `details` lists the existing result ids
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id } = await params;
+
+    const body = await readJsonBody<PostResultBody>(request);
+    if (body instanceof NextResponse) return body;
+
+    try {
+      const exam = await loadExam(id, user, 'scan_papers');
+      if (exam instanceof NextResponse) return exam;
+
+      const keyResult = await AnswerKeyService.getAnswerKeyByExamId(id);
+      if (!keyResult.success || !keyResult.data) {
+        return apiError('conflict', 'The exam has no answer key yet');
+      }
+      const answerKey = keyResult.data;
+
+      const { answers, errors } = validateResultBody(body, exam, answerKey);
+      if (errors.length > 0) {
+        return apiError('bad_request', 'Invalid result', errors);
+      }
+
+      const isNullId = !body.studentId;
+      const saved = await ScanningService.saveScannedResult(
+        id,
+        body.studentId || `NULL_${Date.now()}`,
+        answers as AnswerChoice[],
+        answerKey,
+        user.uid,
+        isNullId,
+        exam.choicePoints,
+        undefined,
+        hasExamSets(answerKey) ? body.examSet : undefined,
+        { onDuplicate: body.onDuplicate }
+      );
+      if (saved.duplicates && saved.duplicates.length > 0) {
+        return apiError(
+          'conflict',
+          saved.error || 'The student already has a result for this exam',
+          { existingResultIds: saved.duplicates.map(result => result.id) }
+        );
+      }
+      if (!saved.success) {
+        return apiError('internal', saved.error || 'Failed to save result');
+      }
+      if (!saved.data) {
+        return NextResponse.json({ data: null });
+      }
+
+      return NextResponse.json({ data: toResultDto(saved.data) }, { status: 201 });
+    } catch (error) {
+      console.error('[API] Error saving result:', error);
+      return apiError('internal', 'Failed to save result');
+    }
+  });
+}
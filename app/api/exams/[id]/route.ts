@@ -0,0 +1,30 @@
+/**
+ * Exam API Endpoint
+ * GET /api/exams/:id - A single exam the caller owns, scans for or has been shared
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, loadExam, toExamDto, withApiUser } from '@/lib/api';
+
+/**
+ * Response:
+ * - 200: { data: ExamDto }
+ * - 403 / 404: exam not accessible
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const { id } = await params;
+
+    try {
+      const exam = await loadExam(id, user);
+      if (exam instanceof NextResponse) return exam;
+      return NextResponse.json({ data: toExamDto(exam) });
+    } catch (error) {
+      console.error('[API] Error fetching exam:', error);
+      return apiError('internal', 'Failed to fetch exam');
+    }
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Exams API Endpoint
+ * GET  /api/exams  - List the exams the caller can see: their own, their instructors' and those shared with them
+ * POST /api/exams  - Create an exam
+ *
+ * All routes require `Authorization: Bearer <Firebase ID token>`.
+ * Errors use the shape { error: { code, message, details? } } (see src/lib/api.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createExam, getArchivedExams, getExams } from '@/services/examService';
+import { getInstructorProfileByUserId } from '@/services/instructorService';
+import { getVisibleOwnerIds, hasPermission } from '@/lib/roles';
+import { CreateExamBody, paginate, validateExamBody } from '@/lib/apiValidation';
+import {
+  apiError,
+  parsePagination,
+  readJsonBody,
+  toExamDto,
+  withApiUser,
+} from '@/lib/api';
+
+/**
+ * GET /api/exams?page=1&pageSize=50&archived=false
+ *
+ * Response:
+ * - 200: { data: ExamDto[], pagination: { page, pageSize, total, hasMore } }
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    const paging = parsePagination(request);
+    if (paging instanceof NextResponse) return paging;
+
+    try {
+      const archived = request.nextUrl.searchParams.get('archived') === 'true';
+      const owners = getVisibleOwnerIds({ id: user.uid, role: user.role, proctorFor: user.proctorFor });
+      const exams = archived ? await getArchivedExams(owners, user.uid) : await getExams(owners, user.uid);
+      return NextResponse.json(paginate(exams.map(toExamDto), paging.page, paging.pageSize));
+    } catch (error) {
+      console.error('[API] Error listing exams:', error);
+      return apiError('internal', 'Failed to fetch exams');
+    }
+  });
+}
+
+/**
+ * POST /api/exams
+ *
+ * Request body: { title, numItems, subject?, choicesPerItem?, date?, className?, examType? }
+ *
+ * Response:
+ * - 201: { data: ExamDto }
+ * - 400: validation error
+ * - 403: the caller's role cannot create exams
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  return withApiUser(request, async user => {
+    if (!hasPermission(user.role, 'manage_exams')) {
+      return apiError('forbidden', 'Your role cannot create exams');
+    }
+
+    const body = await readJsonBody<CreateExamBody>(request);
+    if (body instanceof NextResponse) return body;
+
+    const errors = validateExamBody(body);
+    if (errors.length > 0) {
+      return apiError('bad_request', 'Invalid exam', errors);
+    }
+
+    try {
+      const instructor = await getInstructorProfileByUserId(user.uid);
+      const exam = await createExam(
+        {
+          name: body.title!.trim(),
+          totalQuestions: body.numItems!,
+          date: body.date || new Date().toISOString(),
+          folder: body.subject || '',
+          className: body.className,
+          choicesPerItem: body.choicesPerItem,
+          examType: body.examType,
+        },
+        user.uid,
+        instructor?.instructorId
+      );
+      return NextResponse.json({ data: toExamDto(exam) }, { status: 201 });
+    } catch (error) {
+      console.error('[API] Error creating exam:', error);
+      return apiError('internal', 'Failed to create exam');
+    }
+  });
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import GradebookPage from "@/components/pages/Gradebook";
+import { ProtectedLayout } from "@/components/layout/ProtectedLayout";
+import { use } from "react";
+
+export default function Page({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+
+  return (
+    <ProtectedLayout>
+      <GradebookPage params={{ id }} />
+    </ProtectedLayout>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { useEffect, useState } from 'react';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { ProtectedLayout } from '@/components/layout/ProtectedLayout';
 
 export default function UserDebugPage() {
   const { user, firebaseUser } = useAuth();
@@ -38,126 +39,128 @@ export default function UserDebugPage() {
   }, [user]);
 
   return (
-    <div className="container mx-auto p-6 max-w-6xl">
-      <h1 className="text-3xl font-bold mb-6">User Debug Information</h1>
+    <ProtectedLayout>
+      <div className="container mx-auto p-6 max-w-6xl">
+        <h1 className="text-3xl font-bold mb-6">User Debug Information</h1>
 
-      <div className="grid gap-6">
-        {/* Auth Context User */}
-        <Card className="p-6">
-          <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
-            🔐 Auth Context User Object
-            <Button onClick={fetchFirestoreData} size="sm" variant="outline">
-              Refresh
-            </Button>
-          </h2>
+        <div className="grid gap-6">
+          {/* Auth Context User */}
+          <Card className="p-6">
+            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+              🔐 Auth Context User Object
+              <Button onClick={fetchFirestoreData} size="sm" variant="outline">
+                Refresh
+              </Button>
+            </h2>
           
-          <div className="mb-4">
-            <div className="text-sm font-mono bg-gray-100 p-4 rounded overflow-auto max-h-96">
-              {user ? (
-                <pre>{JSON.stringify(user, null, 2)}</pre>
-              ) : (
-                <p className="text-red-600">No user logged in</p>
-              )}
+            <div className="mb-4">
+              <div className="text-sm font-mono bg-gray-100 p-4 rounded overflow-auto max-h-96">
+                {user ? (
+                  <pre>{JSON.stringify(user, null, 2)}</pre>
+                ) : (
+                  <p className="text-red-600">No user logged in</p>
+                )}
+              </div>
             </div>
-          </div>
 
-          <div className="grid grid-cols-2 gap-4 mt-4">
-            <div className="p-3 bg-blue-50 rounded">
-              <div className="text-sm text-gray-600">User ID</div>
-              <div className="font-mono text-sm">{user?.id || 'N/A'}</div>
-            </div>
-            <div className="p-3 bg-blue-50 rounded">
-              <div className="text-sm text-gray-600">Email</div>
-              <div className="font-mono text-sm">{user?.email || 'N/A'}</div>
-            </div>
-            <div className="p-3 bg-blue-50 rounded">
-              <div className="text-sm text-gray-600">Display Name</div>
-              <div className="font-mono text-sm">{user?.displayName || 'N/A'}</div>
-            </div>
-            <div className={`p-3 rounded ${user?.instructorId ? 'bg-green-50' : 'bg-red-50'}`}>
-              <div className="text-sm text-gray-600">Instructor ID</div>
-              <div className="font-mono text-sm font-bold">
-                {user?.instructorId || '❌ MISSING'}
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div className="p-3 bg-blue-50 rounded">
+                <div className="text-sm text-gray-600">User ID</div>
+                <div className="font-mono text-sm">{user?.id || 'N/A'}</div>
+              </div>
+              <div className="p-3 bg-blue-50 rounded">
+                <div className="text-sm text-gray-600">Email</div>
+                <div className="font-mono text-sm">{user?.email || 'N/A'}</div>
+              </div>
+              <div className="p-3 bg-blue-50 rounded">
+                <div className="text-sm text-gray-600">Display Name</div>
+                <div className="font-mono text-sm">{user?.displayName || 'N/A'}</div>
+              </div>
+              <div className={`p-3 rounded ${user?.instructorId ? 'bg-green-50' : 'bg-red-50'}`}>
+                <div className="text-sm text-gray-600">Instructor ID</div>
+                <div className="font-mono text-sm font-bold">
+                  {user?.instructorId || '❌ MISSING'}
+                </div>
               </div>
             </div>
-          </div>
-        </Card>
+          </Card>
 
-        {/* Firestore Data */}
-        <Card className="p-6">
-          <h2 className="text-xl font-bold mb-4">🔥 Firestore User Document</h2>
+          {/* Firestore Data */}
+          <Card className="p-6">
+            <h2 className="text-xl font-bold mb-4">🔥 Firestore User Document</h2>
           
-          {loading ? (
-            <p>Loading...</p>
-          ) : firestoreData ? (
-            <>
-              <div className="text-sm font-mono bg-gray-100 p-4 rounded overflow-auto max-h-96 mb-4">
-                <pre>{JSON.stringify(firestoreData, null, 2)}</pre>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="p-3 bg-purple-50 rounded">
-                  <div className="text-sm text-gray-600">Full Name</div>
-                  <div className="font-mono text-sm">{firestoreData.fullName || 'N/A'}</div>
+            {loading ? (
+              <p>Loading...</p>
+            ) : firestoreData ? (
+              <>
+                <div className="text-sm font-mono bg-gray-100 p-4 rounded overflow-auto max-h-96 mb-4">
+                  <pre>{JSON.stringify(firestoreData, null, 2)}</pre>
                 </div>
-                <div className={`p-3 rounded ${firestoreData.instructorId ? 'bg-green-50' : 'bg-red-50'}`}>
-                  <div className="text-sm text-gray-600">Instructor ID (Firestore)</div>
-                  <div className="font-mono text-sm font-bold">
-                    {firestoreData.instructorId || '❌ MISSING IN FIRESTORE'}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="p-3 bg-purple-50 rounded">
+                    <div className="text-sm text-gray-600">Full Name</div>
+                    <div className="font-mono text-sm">{firestoreData.fullName || 'N/A'}</div>
                   </div>
-                </div>
-                <div className="p-3 bg-purple-50 rounded">
-                  <div className="text-sm text-gray-600">Role</div>
-                  <div className="font-mono text-sm">{firestoreData.role || 'N/A'}</div>
-                </div>
-                <div className="p-3 bg-purple-50 rounded">
-                  <div className="text-sm text-gray-600">Created At</div>
-                  <div className="font-mono text-sm">
-                    {firestoreData.createdAt?.toDate?.()?.toLocaleString() || 'N/A'}
+                  <div className={`p-3 rounded ${firestoreData.instructorId ? 'bg-green-50' : 'bg-red-50'}`}>
+                    <div className="text-sm text-gray-600">Instructor ID (Firestore)</div>
+                    <div className="font-mono text-sm font-bold">
+                      {firestoreData.instructorId || '❌ MISSING IN FIRESTORE'}
+                    </div>
+                  </div>
+                  <div className="p-3 bg-purple-50 rounded">
+                    <div className="text-sm text-gray-600">Role</div>
+                    <div className="font-mono text-sm">{firestoreData.role || 'N/A'}</div>
+                  </div>
+                  <div className="p-3 bg-purple-50 rounded">
+                    <div className="text-sm text-gray-600">Created At</div>
+                    <div className="font-mono text-sm">
+                      {firestoreData.createdAt?.toDate?.()?.toLocaleString() || 'N/A'}
+                    </div>
                   </div>
                 </div>
-              </div>
-            </>
-          ) : (
-            <p className="text-red-600">No Firestore data found</p>
-          )}
-        </Card>
+              </>
+            ) : (
+              <p className="text-red-600">No Firestore data found</p>
+            )}
+          </Card>
 
-        {/* Diagnosis */}
-        <Card className="p-6 border-2 border-blue-500">
-          <h2 className="text-xl font-bold mb-4">🔍 Diagnosis</h2>
+          {/* Diagnosis */}
+          <Card className="p-6 border-2 border-blue-500">
+            <h2 className="text-xl font-bold mb-4">🔍 Diagnosis</h2>
           
-          {!user ? (
-            <div className="p-4 bg-red-50 rounded">
-              <p className="text-red-800">❌ No user logged in</p>
-            </div>
-          ) : !firestoreData?.instructorId ? (
-            <div className="p-4 bg-red-50 rounded">
-              <p className="text-red-800 font-bold mb-2">❌ Instructor ID is MISSING from Firestore!</p>
-              <p className="text-sm">The user document in Firestore does not have an instructorId field.</p>
-              <p className="text-sm mt-2">Solution: Go to <a href="/diagnostics" className="underline text-blue-600">/diagnostics</a> and click "Fix Instructor ID"</p>
-            </div>
-          ) : !user.instructorId ? (
-            <div className="p-4 bg-yellow-50 rounded">
-              <p className="text-yellow-800 font-bold mb-2">⚠️ Instructor ID exists in Firestore but NOT loaded in Auth Context!</p>
-              <p className="text-sm">Firestore has: <code className="bg-white px-2 py-1 rounded">{firestoreData.instructorId}</code></p>
-              <p className="text-sm mt-2">Solution: Log out and log back in, or clear cache at <a href="/clear-cache" className="underline text-blue-600">/clear-cache</a></p>
-            </div>
-          ) : user.instructorId === firestoreData.instructorId ? (
-            <div className="p-4 bg-green-50 rounded">
-              <p className="text-green-800 font-bold mb-2">✅ Everything looks good!</p>
-              <p className="text-sm">Instructor ID: <code className="bg-white px-2 py-1 rounded font-bold">{user.instructorId}</code></p>
-              <p className="text-sm mt-2">You should be able to create classes and exams with this instructor ID.</p>
-            </div>
-          ) : (
-            <div className="p-4 bg-red-50 rounded">
-              <p className="text-red-800 font-bold">❌ Mismatch detected!</p>
-              <p className="text-sm">Auth Context: {user.instructorId}</p>
-              <p className="text-sm">Firestore: {firestoreData.instructorId}</p>
-            </div>
-          )}
-        </Card>
+            {!user ? (
+              <div className="p-4 bg-red-50 rounded">
+                <p className="text-red-800">❌ No user logged in</p>
+              </div>
+            ) : !firestoreData?.instructorId ? (
+              <div className="p-4 bg-red-50 rounded">
+                <p className="text-red-800 font-bold mb-2">❌ Instructor ID is MISSING from Firestore!</p>
+                <p className="text-sm">The user document in Firestore does not have an instructorId field.</p>
+                <p className="text-sm mt-2">Solution: Go to <a href="/diagnostics" className="underline text-blue-600">/diagnostics</a> and click "Fix Instructor ID"</p>
+              </div>
+            ) : !user.instructorId ? (
+              <div className="p-4 bg-yellow-50 rounded">
+                <p className="text-yellow-800 font-bold mb-2">⚠️ Instructor ID exists in Firestore but NOT loaded in Auth Context!</p>
+                <p className="text-sm">Firestore has: <code className="bg-white px-2 py-1 rounded">{firestoreData.instructorId}</code></p>
+                <p className="text-sm mt-2">Solution: Log out and log back in, or clear cache at <a href="/clear-cache" className="underline text-blue-600">/clear-cache</a></p>
+              </div>
+            ) : user.instructorId === firestoreData.instructorId ? (
+              <div className="p-4 bg-green-50 rounded">
+                <p className="text-green-800 font-bold mb-2">✅ Everything looks good!</p>
+                <p className="text-sm">Instructor ID: <code className="bg-white px-2 py-1 rounded font-bold">{user.instructorId}</code></p>
+                <p className="text-sm mt-2">You should be able to create classes and exams with this instructor ID.</p>
+              </div>
+            ) : (
+              <div className="p-4 bg-red-50 rounded">
+                <p className="text-red-800 font-bold">❌ Mismatch detected!</p>
+                <p className="text-sm">Auth Context: {user.instructorId}</p>
+                <p className="text-sm">Firestore: {firestoreData.instructorId}</p>
+              </div>
+            )}
+          </Card>
+        </div>
       </div>
-    </div>
+    </ProtectedLayout>
   );
 }
@@ -1,5 +1,10 @@
 import Diagnostics from '@/components/pages/Diagnostics';
+import { ProtectedLayout } from '@/components/layout/ProtectedLayout';
 
 export default function DiagnosticsPage() {
-  return <Diagnostics />;
+  return (
+    <ProtectedLayout>
+      <Diagnostics />
+    </ProtectedLayout>
+  );
 }
@@ -0,0 +1,15 @@
+'use client';
+
+import { ProtectedLayout } from '@/components/layout/ProtectedLayout';
+import BatchScanner from '@/components/scanning/BatchScanner';
+import { use } from 'react';
+
+export default function BatchScanPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+
+  return (
+    <ProtectedLayout>
+      <BatchScanner examId={id} />
+    </ProtectedLayout>
+  );
+}
@@ -1,4 +1,5 @@
 import MigrationUtility from '@/components/pages/MigrationUtility';
+import { ProtectedLayout } from '@/components/layout/ProtectedLayout';
 
 export const metadata = {
   title: 'Migration Utility - SIA',
@@ -6,8 +7,10 @@ export const metadata = {
 
 export default function MigrationUtilityPage() {
   return (
-    <div className="container mx-auto">
-      <MigrationUtility />
-    </div>
+    <ProtectedLayout>
+      <div className="container mx-auto">
+        <MigrationUtility />
+      </div>
+    </ProtectedLayout>
   );
 }
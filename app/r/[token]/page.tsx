@@ -0,0 +1,11 @@
+'use client';
+
+import StudentResultPortal from "@/components/pages/StudentResultPortal";
+import { use } from "react";
+
+// Public: students open their result link without signing in
+export default function Page({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+
+  return <StudentResultPortal token={token} />;
+}
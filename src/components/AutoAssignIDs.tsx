@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,6 +8,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, CheckCircle2, Sparkles } from 'lucide-react';
 import { StudentIDService, StudentIDConfig } from '@/services/studentIDService';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { StudentIdPolicy } from '@/types/studentId';
+import { describeIdFormat, getMaxSequence } from '@/lib/studentIdPolicy';
 import { useToast } from '@/hooks/use-toast';
 
 interface AutoAssignIDsProps {
@@ -21,13 +24,17 @@ export function AutoAssignIDs({ students, onAssign, onCancel }: AutoAssignIDsPro
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [idConfig, setIdConfig] = useState<StudentIDConfig>({
-    format: 'YEARLY_SEQUENCE',
-    length: 4,
     startFrom: 1,
   });
+  const [policy, setPolicy] = useState<StudentIdPolicy>(StudentIdPolicyService.getCachedPolicy());
   const [previewIDs, setPreviewIDs] = useState<string[]>([]);
   const { toast } = useToast();
 
+  // IDs follow the institution's format; admins change it in Settings
+  useEffect(() => {
+    StudentIdPolicyService.getPolicy().then(setPolicy);
+  }, []);
+
   // Filter students that need IDs
   const studentsNeedingIds = students.filter((s) => !s.student_id || s.student_id.trim() === '');
 
@@ -44,7 +51,7 @@ export function AutoAssignIDs({ students, onAssign, onCancel }: AutoAssignIDsPro
           first_name: s.first_name,
           last_name: s.last_name,
         })),
-        idConfig
+        { ...idConfig, policy }
       );
 
       if (!result.success) {
@@ -86,7 +93,7 @@ export function AutoAssignIDs({ students, onAssign, onCancel }: AutoAssignIDsPro
   };
 
   const handleGeneratePreview = () => {
-    const preview = StudentIDService.generateTemporaryIDs(studentsNeedingIds.length, idConfig);
+    const preview = StudentIDService.generateTemporaryIDs(studentsNeedingIds.length, { ...idConfig, policy });
     setPreviewIDs(preview);
   };
 
@@ -109,39 +116,18 @@ export function AutoAssignIDs({ students, onAssign, onCancel }: AutoAssignIDsPro
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="format">Format</Label>
-              <select
-                id="format"
-                value={idConfig.format}
-                onChange={(e) =>
-                  setIdConfig({
-                    ...idConfig,
-                    format: e.target.value as StudentIDConfig['format'],
-                  })
-                }
-                className="w-full px-3 py-2 border rounded-md bg-background text-sm"
-              >
-                <option value="YEARLY_SEQUENCE">Yearly Sequence (2026-0001)</option>
-              </select>
+              <Label>Format</Label>
+              <div className="px-3 py-2 border rounded-md bg-muted text-sm font-mono">
+                {describeIdFormat(policy)}
+              </div>
             </div>
 
             <div>
-              <Label htmlFor="length">Sequence Digits</Label>
-              <Input
-                id="length"
-                type="number"
-                value={idConfig.length}
-                onChange={(e) =>
-                  setIdConfig({
-                    ...idConfig,
-                    length: Math.max(4, parseInt(e.target.value) || 4),
-                  })
-                }
-                min="4"
-                max="4"
-                disabled
-                className="text-sm"
-              />
+              <Label>Available Sequence Numbers</Label>
+              <div className="px-3 py-2 border rounded-md bg-muted text-sm">
+                1 to {getMaxSequence(policy)}
+                {/Y/.test(policy.mask.toUpperCase()) ? ' per year' : ''}
+              </div>
             </div>
 
             <div>
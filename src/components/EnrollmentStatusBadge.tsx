@@ -0,0 +1,21 @@
+import { ENROLLMENT_STATUS_LABELS } from '@/lib/enrollment';
+import type { EnrollmentStatus } from '@/types/enrollment';
+
+export const ENROLLMENT_STATUS_STYLES: Record<EnrollmentStatus, string> = {
+  active: 'bg-green-50 text-green-700',
+  inactive: 'bg-amber-50 text-amber-700',
+  dropped: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * A student's enrollment status in a class (see src/lib/enrollment.ts)
+ */
+export function EnrollmentStatusBadge({ status }: { status: EnrollmentStatus }) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${ENROLLMENT_STATUS_STYLES[status]}`}
+    >
+      {ENROLLMENT_STATUS_LABELS[status]}
+    </span>
+  );
+}
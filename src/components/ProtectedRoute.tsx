@@ -1,14 +1,23 @@
 'use client';
 
 import { ReactNode } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2 } from 'lucide-react';
-import { useRouter } from 'next/navigation';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { usePathname, useRouter } from 'next/navigation';
 import { useEffect } from 'react';
+import { canAccessPath, hasPermission, ROLE_LABELS } from '@/lib/roles';
+import { Permission } from '@/types/roles';
 
-export default function ProtectedRoute({ children }: { children: ReactNode }) {
-  const { user, loading } = useAuth();
+/**
+ * Renders children for a signed-in user whose role may open this page.
+ * The page's permission comes from the route table in src/lib/roles.ts;
+ * `permission` adds a requirement on top of it.
+ */
+export default function ProtectedRoute({ children, permission }: { children: ReactNode; permission?: Permission }) {
+  const { user, loading, userRole, profileLoading } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
 
   useEffect(() => {
     if (!loading && !user) {
@@ -16,7 +25,9 @@ export default function ProtectedRoute({ children }: { children: ReactNode }) {
     }
   }, [loading, user, router]);
 
-  if (loading) {
+  const allowed = canAccessPath(userRole, pathname) && (!permission || hasPermission(userRole, permission));
+
+  if (loading || (user && !allowed && profileLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-accent" />
@@ -28,5 +39,23 @@ export default function ProtectedRoute({ children }: { children: ReactNode }) {
     return null;
   }
 
+  if (!allowed) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center p-4">
+        <div className="max-w-md text-center space-y-3">
+          <ShieldAlert className="w-12 h-12 mx-auto text-muted-foreground" />
+          <h2 className="text-xl font-semibold text-foreground">You don&apos;t have access to this page</h2>
+          <p className="text-sm text-muted-foreground">
+            Your role{userRole ? ` (${ROLE_LABELS[userRole]})` : ''} does not include this area. Ask an admin if you
+            need access.
+          </p>
+          <Link href="/dashboard" className="inline-block text-sm font-medium text-primary hover:underline">
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
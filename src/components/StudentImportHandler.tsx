@@ -6,13 +6,15 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, CheckCircle, Upload } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { StudentIDValidationService } from '@/services/studentIDValidationService';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { getIdExample } from '@/lib/studentIdPolicy';
 import { StudentService } from '@/services/studentService';
 import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
 import { DuplicateReviewDialog } from './modals/DuplicateReviewDialog';
@@ -35,6 +37,11 @@ export function StudentImportHandler({
   const [duplicateDetectionResult, setDuplicateDetectionResult] = useState<any>(null);
   const [showDuplicateReview, setShowDuplicateReview] = useState(false);
   const [skippedRecords, setSkippedRecords] = useState<Set<string>>(new Set());
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
+
+  useEffect(() => {
+    StudentIdPolicyService.getPolicy().then(setIdPolicy);
+  }, []);
 
   /**
    * Parse Excel/CSV file
@@ -327,8 +334,8 @@ export function StudentImportHandler({
         <ul className="text-sm space-y-1 text-gray-700">
           <li>📋 Column headers: <code className="bg-gray-100 px-2 py-1">Student ID</code>, <code className="bg-gray-100 px-2 py-1">First Name</code>, <code className="bg-gray-100 px-2 py-1">Last Name</code>, <code className="bg-gray-100 px-2 py-1">Email</code> (optional)</li>
           <li>✓ Student ID must be unique and not empty</li>
-          <li>✓ Student ID format: <code className="bg-gray-100 px-2 py-1">YYYY-XXXX</code> (example: <code className="bg-gray-100 px-2 py-1">2026-0001</code>)</li>
-          <li>✓ Sequence must be between 0001 and 9999</li>
+          <li>✓ Student ID format: <code className="bg-gray-100 px-2 py-1">{idPolicy.mask}</code> (example: <code className="bg-gray-100 px-2 py-1">{getIdExample(idPolicy)}</code>)</li>
+          <li>✓ Sequence number cannot be all zeros{idPolicy.checkDigit !== 'none' && '; the last digit is a check digit'}</li>
           <li>✓ First and Last names are required</li>
         </ul>
       </div>
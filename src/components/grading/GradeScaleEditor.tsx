@@ -0,0 +1,75 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import { GradeScaleBand } from '@/types/gradebook';
+
+interface GradeScaleEditorProps {
+  bands: GradeScaleBand[];
+  onChange: (bands: GradeScaleBand[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Grade Scale Editor
+ * Rows of "grade from → reported as", each marked passing or failing
+ */
+export default function GradeScaleEditor({ bands, onChange, disabled }: GradeScaleEditorProps) {
+  const updateBand = (index: number, changes: Partial<GradeScaleBand>) =>
+    onChange(bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_5rem_2.5rem] gap-2 text-xs text-muted-foreground">
+        <span>Grade from (%)</span>
+        <span>Reported as</span>
+        <span>Passing</span>
+        <span />
+      </div>
+      {bands.map((band, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_5rem_2.5rem] gap-2 items-center">
+          <Input
+            type="number"
+            value={band.min}
+            onChange={(e) => updateBand(i, { min: Number(e.target.value) })}
+            disabled={disabled}
+          />
+          <Input
+            value={band.label}
+            onChange={(e) => updateBand(i, { label: e.target.value })}
+            disabled={disabled}
+          />
+          <input
+            type="checkbox"
+            checked={band.passed}
+            onChange={(e) => updateBand(i, { passed: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 justify-self-center"
+            aria-label={`${band.label || 'Band'} is passing`}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(bands.filter((_, j) => j !== i))}
+            disabled={disabled}
+            title="Remove band"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {!disabled && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => onChange([...bands, { min: 0, label: '', passed: false }])}
+        >
+          <Plus className="w-3 h-3" />
+          Add Band
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,12 @@
 
 import { MainLayout } from '@/components/layout/MainLayout';
 import ProtectedRoute from '@/components/ProtectedRoute';
+import { Permission } from '@/types/roles';
 import { ReactNode } from 'react';
 
-export function ProtectedLayout({ children }: { children: ReactNode }) {
+export function ProtectedLayout({ children, permission }: { children: ReactNode; permission?: Permission }) {
   return (
-    <ProtectedRoute>
+    <ProtectedRoute permission={permission}>
       <MainLayout>{children}</MainLayout>
     </ProtectedRoute>
   );
@@ -16,11 +16,14 @@ import {
   Menu,
   X,
   AlertTriangle,
-  Sparkles
+  Sparkles,
+  ShieldCheck,
+  ScrollText
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSidebarContext } from '@/contexts/SidebarContext';
 import { cn } from '@/lib/utils';
+import { canAccessPath, ROLE_LABELS } from '@/lib/roles';
 import { Button } from '@/components/ui/button';
 import {
   AlertDialog,
@@ -39,15 +42,20 @@ const navItems = [
   { path: '/results', label: 'Results', icon: BarChart3 },
   { path: '/templates', label: 'Templates', icon: FileText },
   { path: '/archive', label: 'Archive', icon: Archive },
+  { path: '/audit-logs', label: 'Audit Logs', icon: ScrollText },
+  { path: '/admin/users', label: 'Users & Roles', icon: ShieldCheck },
 ];
 
 export function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
-  const { signOut, user } = useAuth();
+  const { signOut, user, userRole } = useAuth();
   const { collapsed, setCollapsed, mobileOpen, setMobileOpen } = useSidebarContext();
   const [showSignOutModal, setShowSignOutModal] = useState(false);
 
+  // Only the pages this user's role may open
+  const visibleNavItems = navItems.filter(item => canAccessPath(userRole, item.path));
+
   const handleSignOut = () => {
     signOut();
     setMobileOpen(false);
@@ -106,7 +114,7 @@ export function Sidebar() {
         </div>
 
         <nav className="flex-1 p-2 space-y-0.5">
-          {navItems.map((item) => {
+          {visibleNavItems.map((item) => {
             const Icon = item.icon;
             const isActive = pathname === item.path || 
                             pathname.startsWith(item.path + '/');
@@ -133,9 +141,12 @@ export function Sidebar() {
               <div className="w-8 h-8 bg-[#B38B00] rounded-md flex items-center justify-center text-white font-bold text-sm">
                 {getEmailInitial()}
               </div>
-              <p className="text-sm font-medium text-white/80 truncate">
-                {user.email}
-              </p>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-white/80 truncate">
+                  {user.email}
+                </p>
+                {userRole && <p className="text-xs text-white/60">{ROLE_LABELS[userRole]}</p>}
+              </div>
             </div>
           )}
           <div className="flex justify-center">
@@ -176,7 +187,7 @@ export function Sidebar() {
       >
 
         <nav className="flex-1 p-3 space-y-1">
-          {navItems.map((item) => {
+          {visibleNavItems.map((item) => {
             const Icon = item.icon;
             const isActive = pathname === item.path || 
                             pathname.startsWith(item.path + '/');
@@ -204,9 +215,12 @@ export function Sidebar() {
               <div className="w-8 h-8 bg-[#B38B00] rounded-md flex items-center justify-center text-white font-bold text-sm">
                 {getEmailInitial()}
               </div>
-              <p className="text-base font-medium text-white/80 truncate">
-                {user.email}
-              </p>
+              <div className="min-w-0">
+                <p className="text-base font-medium text-white/80 truncate">
+                  {user.email}
+                </p>
+                {userRole && <p className="text-xs text-white/60">{ROLE_LABELS[userRole]}</p>}
+              </div>
             </div>
           )}
           <div className="flex justify-center">
@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, PencilLine } from 'lucide-react';
+import { ScanningService } from '@/services/scanningService';
+import { Exam } from '@/services/examService';
+import { AnswerKey, CorrectionReason, ScannedResult } from '@/types/scanning';
+import { CORRECTION_REASONS, diffCorrections } from '@/lib/resultCorrections';
+import { SHEET_CHOICE_LABELS } from '@/lib/sheetTemplates';
+import { scoreAnswers } from '@/lib/scoring';
+import { checkStudentId, fromGridDigits } from '@/lib/studentIdPolicy';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface CorrectResultDialogProps {
+  open: boolean;
+  result: ScannedResult | null;
+  exam: Exam;
+  answerKey: AnswerKey | null;
+  onClose: () => void;
+  onCorrected?: (result: ScannedResult) => void;
+}
+
+export function CorrectResultDialog({
+  open,
+  result,
+  exam,
+  answerKey,
+  onClose,
+  onCorrected,
+}: CorrectResultDialogProps) {
+  const { user } = useAuth();
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [studentId, setStudentId] = useState('');
+  const [reason, setReason] = useState<CorrectionReason | ''>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
+
+  useEffect(() => {
+    if (open) StudentIdPolicyService.getPolicy().then(setIdPolicy);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !result) return;
+    setAnswers(Array.from({ length: result.totalQuestions }, (_, i) => result.answers[i] || ''));
+    // A sheet whose ID could not be read has a placeholder ID; its field starts empty
+    setStudentId(result.isNullId ? '' : result.studentId);
+    setReason('');
+    setNote('');
+    setError(null);
+  }, [open, result]);
+
+  const choices = SHEET_CHOICE_LABELS.slice(0, exam.choices_per_item);
+  // The saved ID until the field is edited; an ID typed as grid digits is written out in
+  // the institution's format
+  const enteredId = studentId.trim();
+  const correctedId = !result || enteredId === (result.isNullId ? '' : result.studentId)
+    ? result?.studentId ?? ''
+    : fromGridDigits(enteredId.toUpperCase(), idPolicy);
+  const changeCount = result
+    ? diffCorrections(result, { answers, studentId: correctedId }, 'misread', '').length
+    : 0;
+  const newScore = useMemo(
+    () => (answerKey && result ? scoreAnswers(answers, answerKey, result.examSet, exam.choicePoints) : null),
+    [answers, answerKey, result, exam.choicePoints]
+  );
+
+  const handleSave = async () => {
+    if (!result || !answerKey || !user?.id) return;
+    if (!reason) {
+      setError('Choose a reason for the correction.');
+      return;
+    }
+    // Only a changed ID is checked; an unchanged one is kept as saved, even under an earlier policy
+    const formatError = correctedId !== result.studentId ? checkStudentId(correctedId, idPolicy) : null;
+    if (formatError) {
+      setError(formatError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const response = await ScanningService.correctResult(
+      result,
+      { answers, studentId: correctedId },
+      reason,
+      answerKey,
+      { id: user.id, email: user.email },
+      { note, choicePoints: exam.choicePoints, examTitle: exam.title }
+    );
+    setSaving(false);
+
+    if (response.success && response.data) {
+      toast.success('Result corrected');
+      onCorrected?.(response.data);
+      onClose();
+    } else {
+      setError(response.error || 'Failed to correct result');
+      toast.error(response.error || 'Failed to correct result');
+    }
+  };
+
+  if (!result) return null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !saving && onClose()}>
+      <AlertDialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Correct Scanned Result</AlertDialogTitle>
+          <AlertDialogDescription>
+            Fix a misread bubble or Student ID. The score is recomputed, the machine-read values are kept,
+            and the change is recorded in the audit log.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="correct-student-id">Student ID</Label>
+              <Input
+                id="correct-student-id"
+                value={studentId}
+                placeholder={result.isNullId ? 'Not read from the sheet' : undefined}
+                onChange={(e) => /^[0-9A-Za-z\-./]*$/.test(e.target.value) && setStudentId(e.target.value)}
+                className="font-mono"
+                disabled={saving}
+              />
+              {result.originalStudentId && (
+                <p className="text-xs text-muted-foreground">Read from sheet: {result.originalStudentId}</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as CorrectionReason)} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CORRECTION_REASONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Answers{result.examSet ? ` (Set ${result.examSet})` : ''}</Label>
+              {newScore && (
+                <span className="text-sm text-muted-foreground">
+                  Score {result.score} → <span className="font-semibold text-foreground">{newScore.score}</span>/{newScore.maxScore}
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-5 sm:grid-cols-10 gap-2">
+              {answers.map((answer, i) => {
+                const changed = answer !== (result.answers[i] || '');
+                const machineRead = result.originalAnswers?.[i] ?? result.answers[i] ?? '';
+                return (
+                  <div key={i} className="flex flex-col items-center">
+                    <span className="text-[10px] text-muted-foreground mb-1">{i + 1}</span>
+                    <select
+                      value={answer}
+                      onChange={(e) => setAnswers(prev => prev.map((a, j) => (j === i ? e.target.value : a)))}
+                      disabled={saving}
+                      className={`w-12 px-1 py-1 border rounded text-sm font-bold text-center bg-background ${
+                        changed ? 'border-primary ring-1 ring-primary' : 'border-input'
+                      }`}
+                      aria-label={`Answer ${i + 1}`}
+                    >
+                      <option value="">-</option>
+                      {choices.map(choice => (
+                        <option key={choice} value={choice}>{choice}</option>
+                      ))}
+                    </select>
+                    {machineRead !== answer && (
+                      <span className="text-[10px] text-muted-foreground mt-0.5">was {machineRead || '-'}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="correct-note">Note (optional)</Label>
+            <Textarea
+              id="correct-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Appeal approved by the department chair"
+              rows={2}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+          <Button onClick={handleSave} disabled={saving || changeCount === 0 || !answerKey} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <PencilLine className="w-4 h-4" />}
+            {saving ? 'Saving...' : `Save ${changeCount} change${changeCount !== 1 ? 's' : ''}`}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -28,6 +28,7 @@ import {
   ChevronUp,
 } from 'lucide-react';
 import { DuplicateMatch } from '@/services/duplicateDetectionService';
+import { MATCH_REASON_LABELS } from '@/lib/studentMatching';
 
 interface DuplicateReviewDialogProps {
   open: boolean;
@@ -304,6 +305,10 @@ export function DuplicateReviewDialog({
                           'This record has the same email as an existing student.'}
                         {duplicate.matchType === 'name_combination' &&
                           'This record has a very similar name to an existing student.'}
+                        {duplicate.matchType === 'similar_record' &&
+                          `This record looks like an existing student: ${(duplicate.reasons || [])
+                            .map(reason => MATCH_REASON_LABELS[reason].toLowerCase())
+                            .join(', ')}.`}
                       </AlertDescription>
                     </Alert>
                   </CardContent>
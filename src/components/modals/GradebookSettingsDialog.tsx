@@ -0,0 +1,356 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { GradebookService } from '@/services/gradebookService';
+import { Exam } from '@/services/examService';
+import { GradebookConfig, GradeCategory, GradeScale, GradingScale, TransmutationTable } from '@/types/gradebook';
+import { TRANSMUTATION_PRESETS, validateGradebookConfig } from '@/lib/gradebook';
+import GradeScaleEditor from '@/components/grading/GradeScaleEditor';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface GradebookSettingsDialogProps {
+  open: boolean;
+  config: GradebookConfig;
+  exams: Exam[];
+  scales: GradingScale[];
+  className?: string;
+  onClose: () => void;
+  onSaved?: (config: GradebookConfig) => void;
+}
+
+const NOT_COUNTED = 'none';
+const CUSTOM = 'custom';
+
+export function GradebookSettingsDialog({
+  open,
+  config,
+  exams,
+  scales,
+  className,
+  onClose,
+  onSaved,
+}: GradebookSettingsDialogProps) {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<GradeCategory[]>([]);
+  const [transmutation, setTransmutation] = useState<TransmutationTable | null>(null);
+  const [scale, setScale] = useState<GradeScale>(config.scale);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCategories(config.categories.map(category => ({ ...category, examIds: [...category.examIds] })));
+    setTransmutation(config.transmutation);
+    setScale(config.scale);
+    setError(null);
+  }, [open, config]);
+
+  const totalWeight = categories.reduce((sum, c) => sum + (c.weight || 0), 0);
+  const transmutationChoice = !transmutation
+    ? NOT_COUNTED
+    : TRANSMUTATION_PRESETS.some(preset => preset.name === transmutation.name) ? transmutation.name : CUSTOM;
+  const scaleChoice = scales.find(option => option.id === scale.id)?.id || CUSTOM;
+
+  const updateCategory = (id: string, changes: Partial<GradeCategory>) =>
+    setCategories(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+
+  const assignExam = (examId: string, categoryId: string) =>
+    setCategories(prev => prev.map(c => ({
+      ...c,
+      examIds: c.id === categoryId
+        ? [...c.examIds.filter(id => id !== examId), examId]
+        : c.examIds.filter(id => id !== examId),
+    })));
+
+  const chooseTransmutation = (value: string) => {
+    if (value === NOT_COUNTED) {
+      setTransmutation(null);
+    } else if (value === CUSTOM) {
+      const base = transmutation || TRANSMUTATION_PRESETS[0];
+      setTransmutation({ name: 'Custom', rows: base.rows.map(row => ({ ...row })) });
+    } else {
+      setTransmutation(TRANSMUTATION_PRESETS.find(preset => preset.name === value) || null);
+    }
+  };
+
+  const chooseScale = (value: string) => {
+    const option = scales.find(s => s.id === value);
+    if (option) {
+      setScale({ id: option.id, name: option.name, bands: option.bands.map(band => ({ ...band })) });
+    } else {
+      setScale({ name: 'Custom', bands: scale.bands.map(band => ({ ...band })) });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const draft: GradebookConfig = { classId: config.classId, categories, transmutation, scale };
+    const errors = validateGradebookConfig(draft);
+    if (errors.length > 0) {
+      setError(errors.join(' '));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const result = await GradebookService.saveGradebook(draft, { id: user.id, email: user.email }, className);
+    setSaving(false);
+
+    if (result.success && result.data) {
+      toast.success('Gradebook rules saved');
+      onSaved?.(result.data);
+      onClose();
+    } else {
+      setError(result.error || 'Failed to save gradebook rules');
+      toast.error(result.error || 'Failed to save gradebook rules');
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !saving && onClose()}>
+      <AlertDialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Gradebook Rules</AlertDialogTitle>
+          <AlertDialogDescription>
+            Group the class&apos;s exams into weighted categories, then choose how the weighted average is
+            transmuted and reported. Term grades are recomputed from these rules.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-6">
+          {/* Categories */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Categories</Label>
+              <span className={`text-sm ${Math.abs(totalWeight - 100) > 0.01 ? 'text-destructive font-semibold' : 'text-muted-foreground'}`}>
+                Total {Math.round(totalWeight * 100) / 100}%
+              </span>
+            </div>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_6rem_6rem_2.5rem] gap-2 text-xs text-muted-foreground">
+                <span>Name</span>
+                <span>Weight (%)</span>
+                <span>Drop lowest</span>
+                <span />
+              </div>
+              {categories.map(category => (
+                <div key={category.id} className="grid grid-cols-[1fr_6rem_6rem_2.5rem] gap-2">
+                  <Input
+                    value={category.name}
+                    onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                    disabled={saving}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={category.weight}
+                    onChange={(e) => updateCategory(category.id, { weight: Number(e.target.value) })}
+                    disabled={saving}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={category.dropLowest}
+                    onChange={(e) => updateCategory(category.id, { dropLowest: Number(e.target.value) })}
+                    disabled={saving}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setCategories(prev => prev.filter(c => c.id !== category.id))}
+                    disabled={saving}
+                    title="Remove category"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => setCategories(prev => [
+                  ...prev,
+                  { id: `category-${Date.now()}`, name: '', weight: 0, dropLowest: 0, examIds: [] },
+                ])}
+                disabled={saving}
+              >
+                <Plus className="w-3 h-3" />
+                Add Category
+              </Button>
+            </div>
+          </div>
+
+          {/* Exam assignment */}
+          <div>
+            <Label>Exams</Label>
+            {exams.length === 0 ? (
+              <p className="text-sm text-muted-foreground mt-2">No exams are linked to this class yet.</p>
+            ) : (
+              <div className="mt-2 border rounded-md divide-y">
+                {exams.map(exam => {
+                  const categoryId = categories.find(c => c.examIds.includes(exam.id))?.id || NOT_COUNTED;
+                  return (
+                    <div key={exam.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{exam.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {exam.num_items} items{exam.examType ? ` · ${exam.examType}` : ''}
+                        </p>
+                      </div>
+                      <Select value={categoryId} onValueChange={(value) => assignExam(exam.id, value)} disabled={saving}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_COUNTED}>Not counted</SelectItem>
+                          {categories.map(category => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.name || 'Untitled category'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Transmutation */}
+          <div>
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <Label>Transmutation</Label>
+              <Select value={transmutationChoice} onValueChange={chooseTransmutation} disabled={saving}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_COUNTED}>None (report the average)</SelectItem>
+                  {TRANSMUTATION_PRESETS.map(preset => (
+                    <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM}>Custom table</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {transmutation && transmutationChoice === CUSTOM && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_2.5rem] gap-2 text-xs text-muted-foreground">
+                  <span>Initial grade from</span>
+                  <span>Transmuted grade</span>
+                  <span />
+                </div>
+                <div className="max-h-56 overflow-y-auto space-y-2 pr-1">
+                  {transmutation.rows.map((row, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_1fr_2.5rem] gap-2">
+                      <Input
+                        type="number"
+                        value={row.min}
+                        onChange={(e) => setTransmutation({
+                          ...transmutation,
+                          rows: transmutation.rows.map((r, j) => (j === i ? { ...r, min: Number(e.target.value) } : r)),
+                        })}
+                        disabled={saving}
+                      />
+                      <Input
+                        type="number"
+                        value={row.grade}
+                        onChange={(e) => setTransmutation({
+                          ...transmutation,
+                          rows: transmutation.rows.map((r, j) => (j === i ? { ...r, grade: Number(e.target.value) } : r)),
+                        })}
+                        disabled={saving}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setTransmutation({ ...transmutation, rows: transmutation.rows.filter((_, j) => j !== i) })}
+                        disabled={saving}
+                        title="Remove row"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setTransmutation({ ...transmutation, rows: [...transmutation.rows, { min: 0, grade: 0 }] })}
+                  disabled={saving}
+                >
+                  <Plus className="w-3 h-3" />
+                  Add Row
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Grade scale */}
+          <div>
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <Label>Grade Scale</Label>
+              <Select value={scaleChoice} onValueChange={chooseScale} disabled={saving}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scales.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM}>Custom scale</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <GradeScaleEditor
+              bands={scale.bands}
+              onChange={(bands) => setScale({ name: 'Custom', bands })}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {saving ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
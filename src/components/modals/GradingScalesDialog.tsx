@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Copy, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { GradeScaleBand, GradingScale } from '@/types/gradebook';
+import { getPassingThreshold, validateGradeScale } from '@/lib/gradingScales';
+import GradeScaleEditor from '@/components/grading/GradeScaleEditor';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface GradingScalesDialogProps {
+  open: boolean;
+  scales: GradingScale[];
+  onClose: () => void;
+  onChanged?: (scales: GradingScale[]) => void;
+}
+
+interface ScaleDraft {
+  id?: string;
+  name: string;
+  bands: GradeScaleBand[];
+  createdBy?: string;
+  createdAt?: string;
+}
+
+// An editable copy of a scale
+const toDraft = (scale: GradingScale): ScaleDraft => ({ ...scale, bands: scale.bands.map(band => ({ ...band })) });
+
+/**
+ * Grading Scales
+ * Create and edit the named scales that classes and exams are graded on.
+ * Built-in scales are read-only but can be copied.
+ */
+export function GradingScalesDialog({ open, scales, onClose, onChanged }: GradingScalesDialogProps) {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScaleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = scales.find(scale => scale.id === selectedId) || null;
+  const readOnly = !!selected?.builtIn && draft?.id === selected.id;
+
+  // Read when the dialog opens; saving or deleting changes `scales` but keeps the selection
+  const scalesRef = useRef(scales);
+  scalesRef.current = scales;
+
+  const select = (scale: GradingScale) => {
+    setSelectedId(scale.id);
+    setDraft(toDraft(scale));
+    setError(null);
+  };
+
+  useEffect(() => {
+    const first = scalesRef.current[0];
+    if (!open || !first) return;
+    setSelectedId(first.id);
+    setDraft(toDraft(first));
+    setError(null);
+  }, [open]);
+
+  const startNew = (from?: GradingScale) => {
+    setSelectedId(null);
+    setDraft({
+      name: from ? `${from.name} (copy)` : '',
+      bands: from
+        ? from.bands.map(band => ({ ...band }))
+        : [
+            { min: 75, label: 'Passed', passed: true },
+            { min: 0, label: 'Failed', passed: false },
+          ],
+    });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || !draft) return;
+    const errors = validateGradeScale(draft);
+    if (errors.length > 0) {
+      setError(errors.join(' '));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const result = await GradingScaleService.saveGradingScale(draft, { id: user.id, email: user.email });
+    setSaving(false);
+
+    if (result.success && result.data) {
+      const saved = result.data;
+      toast.success(`Saved ${saved.name}`);
+      const exists = scales.some(scale => scale.id === saved.id);
+      onChanged?.(exists ? scales.map(scale => (scale.id === saved.id ? saved : scale)) : [...scales, saved]);
+      setSelectedId(saved.id);
+      setDraft({ ...saved });
+    } else {
+      setError(result.error || 'Failed to save grading scale');
+      toast.error(result.error || 'Failed to save grading scale');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.builtIn) return;
+    if (!confirm(`Delete ${selected.name}? Classes and exams using it go back to the default scale.`)) return;
+
+    setSaving(true);
+    const result = await GradingScaleService.deleteGradingScale(selected.id);
+    setSaving(false);
+
+    if (result.success) {
+      toast.success(`Deleted ${selected.name}`);
+      const remaining = scales.filter(scale => scale.id !== selected.id);
+      onChanged?.(remaining);
+      if (remaining.length > 0) select(remaining[0]);
+    } else {
+      toast.error(result.error || 'Failed to delete grading scale');
+    }
+  };
+
+  const passingThreshold = draft ? getPassingThreshold(draft) : null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !saving && onClose()}>
+      <AlertDialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Grading Scales</AlertDialogTitle>
+          <AlertDialogDescription>
+            A grading scale decides the reported grade and who passes. Assign one to a class, or to a single exam
+            to override its class. Reports, statistics and letter grades all follow it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid sm:grid-cols-[14rem_1fr] gap-4">
+          <div className="space-y-1">
+            {scales.map(scale => (
+              <button
+                key={scale.id}
+                onClick={() => select(scale)}
+                disabled={saving}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                  scale.id === selectedId ? 'bg-primary/10 text-primary font-semibold' : 'hover:bg-muted'
+                }`}
+              >
+                {scale.name}
+                {scale.builtIn && <Badge variant="outline" className="ml-2 text-[10px]">Built-in</Badge>}
+              </button>
+            ))}
+            <Button variant="outline" size="sm" className="w-full gap-1 mt-2" onClick={() => startNew()} disabled={saving}>
+              <Plus className="w-3 h-3" />
+              New Scale
+            </Button>
+          </div>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="grading-scale-name">Name</Label>
+                <Input
+                  id="grading-scale-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. College 1.00–5.00, 75% passing"
+                  disabled={saving || readOnly}
+                />
+              </div>
+              <GradeScaleEditor
+                bands={draft.bands}
+                onChange={(bands) => setDraft({ ...draft, bands })}
+                disabled={saving || readOnly}
+              />
+              <p className="text-xs text-muted-foreground">
+                {passingThreshold === null
+                  ? 'No band is marked passing, so every score fails.'
+                  : `Scores of ${passingThreshold}% and above pass.`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={saving}>Close</AlertDialogCancel>
+          {selected && !selected.builtIn && (
+            <Button variant="outline" onClick={handleDelete} disabled={saving} className="gap-2 text-destructive">
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </Button>
+          )}
+          {selected && (
+            <Button variant="outline" onClick={() => startNew(selected)} disabled={saving} className="gap-2">
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+          )}
+          {!readOnly && (
+            <Button onClick={handleSave} disabled={saving || !draft} className="gap-2">
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {saving ? 'Saving...' : 'Save Scale'}
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
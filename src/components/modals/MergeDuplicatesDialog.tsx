@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Loader2, Merge } from 'lucide-react';
+import { ScanningService } from '@/services/scanningService';
+import { DuplicateGroup } from '@/lib/duplicateResults';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface MergeDuplicatesDialogProps {
+  open: boolean;
+  examId: string;
+  examTitle?: string;
+  groups: DuplicateGroup[];
+  studentNames: Record<string, string>;
+  onClose: () => void;
+  onMerged?: (removed: number) => void;
+}
+
+const formatScannedAt = (scannedAt: string) =>
+  scannedAt
+    ? new Date(scannedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : '-';
+
+export function MergeDuplicatesDialog({
+  open,
+  examId,
+  examTitle,
+  groups,
+  studentNames,
+  onClose,
+  onMerged,
+}: MergeDuplicatesDialogProps) {
+  const { user } = useAuth();
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the most recent result of each student unless the instructor picks another
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setKeepIds(Object.fromEntries(groups.map(group => [group.studentId, group.results[0].id])));
+  }, [open, groups]);
+
+  const handleMerge = async () => {
+    if (!user?.id) return;
+    setMerging(true);
+    const merges = groups.map(group => ({
+      studentId: group.studentId,
+      keep: group.results.find(result => result.id === keepIds[group.studentId]) || group.results[0],
+      remove: group.results.filter(result => result.id !== (keepIds[group.studentId] || group.results[0].id)),
+    }));
+    const result = await ScanningService.mergeDuplicateResults(examId, merges, { id: user.id, email: user.email }, examTitle);
+    setMerging(false);
+
+    if (result.success) {
+      toast.success(`Removed ${result.removed} duplicate result${result.removed !== 1 ? 's' : ''}`);
+      onMerged?.(result.removed);
+      onClose();
+    } else {
+      setError(result.error || 'Failed to merge duplicates');
+      toast.error(result.error || 'Failed to merge duplicates');
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !merging && onClose()}>
+      <AlertDialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Merge Duplicate Results</AlertDialogTitle>
+          <AlertDialogDescription>
+            {groups.length} student{groups.length !== 1 ? 's have' : ' has'} more than one result for this exam.
+            Choose the result to keep for each student; the others are deleted and recorded in the audit log.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.studentId} className="border rounded-md">
+              <div className="px-3 py-2 bg-muted/50 text-sm font-medium flex items-center gap-2">
+                <span className="font-mono">{group.studentId}</span>
+                {studentNames[group.studentId] && (
+                  <span className="text-muted-foreground truncate">{studentNames[group.studentId]}</span>
+                )}
+              </div>
+              <div className="divide-y">
+                {group.results.map(result => (
+                  <label
+                    key={result.id}
+                    className="flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/30"
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name={`keep-${group.studentId}`}
+                        checked={keepIds[group.studentId] === result.id}
+                        onChange={() => setKeepIds(prev => ({ ...prev, [group.studentId]: result.id }))}
+                        disabled={merging}
+                      />
+                      <span className="text-muted-foreground">{formatScannedAt(result.scannedAt)}</span>
+                      {result.attempt && <Badge variant="outline">Attempt {result.attempt}</Badge>}
+                      {result.examSet && <Badge variant="outline">Set {result.examSet}</Badge>}
+                    </div>
+                    <span className="font-semibold">{result.score}/{result.maxScore ?? result.totalQuestions}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={merging}>Cancel</AlertDialogCancel>
+          <Button onClick={handleMerge} disabled={groups.length === 0 || merging} className="gap-2">
+            {merging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+            {merging ? 'Merging...' : 'Merge Duplicates'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
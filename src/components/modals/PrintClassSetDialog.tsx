@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, Printer } from 'lucide-react';
+import { Class, getClassById } from '@/services/classService';
+import { Exam } from '@/services/examService';
+import { TemplateService, resolveTemplateDefinition } from '@/services/templateService';
+import { generateTemplatePDF, getPrefilledIdDigits, PrefilledStudent } from '@/lib/templatePdfGenerator';
+import { getBuiltInTemplate } from '@/lib/sheetTemplates';
+import { SheetTemplateDefinition } from '@/types/templates';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { toast } from 'sonner';
+
+interface PrintClassSetDialogProps {
+  open: boolean;
+  exam: Exam;
+  examSets: string[]; // set labels for multi-set exams
+  onClose: () => void;
+}
+
+type SetAssignment = 'student' | 'rotate';
+
+export function PrintClassSetDialog({ open, exam, examSets, onClose }: PrintClassSetDialogProps) {
+  const [classData, setClassData] = useState<Class | null>(null);
+  const [definition, setDefinition] = useState<SheetTemplateDefinition | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [setAssignment, setSetAssignment] = useState<SetAssignment>('rotate');
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
+
+  useEffect(() => {
+    if (!open) return;
+    loadRoster();
+  }, [open, exam.id]);
+
+  const loadRoster = async () => {
+    setLoading(true);
+    setError(null);
+    setClassData(null);
+
+    if (!exam.classId) {
+      setError('No class is linked to this exam. Assign a class in the exam settings first.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [cls, templateResult, policy] = await Promise.all([
+        getClassById(exam.classId),
+        TemplateService.getTemplateForExam(exam.id),
+        StudentIdPolicyService.getPolicy(),
+      ]);
+      setIdPolicy(policy);
+      if (!cls) {
+        setError('The class linked to this exam could not be found.');
+      } else if (cls.students.length === 0) {
+        setError(`"${cls.class_name}" has no students yet.`);
+      }
+      setClassData(cls);
+      // Print on the exam's own sheet so scans are read with the same layout
+      setDefinition(
+        templateResult.data
+          ? resolveTemplateDefinition(templateResult.data)
+          : getBuiltInTemplate(exam.num_items, exam.choices_per_item)
+      );
+    } catch (err) {
+      console.error('Error loading class roster:', err);
+      setError('Failed to load the class roster');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!classData || !definition) return;
+    setPrinting(true);
+
+    const students: PrefilledStudent[] = [...classData.students]
+      .sort((a, b) => `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`))
+      .map((student, i) => ({
+        studentId: student.student_id,
+        name: `${student.last_name}, ${student.first_name}`,
+        examSet: examSets.length > 1 && setAssignment === 'rotate' ? examSets[i % examSets.length] : undefined,
+      }));
+
+    try {
+      await generateTemplatePDF({
+        name: `${exam.title} ${classData.class_name}`,
+        description: exam.subject || 'Answer Sheet Template',
+        numQuestions: exam.num_items,
+        choicesPerQuestion: exam.choices_per_item,
+        examName: exam.title,
+        className: classData.class_name,
+        examSets,
+        definition,
+        examId: exam.id,
+        students,
+        idPolicy,
+      });
+      toast.success(`✅ Downloaded ${students.length} pre-filled sheets`);
+      onClose();
+    } catch (err) {
+      console.error('Error generating class set:', err);
+      toast.error('Failed to generate the class set');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const idTooLong = classData && definition
+    ? classData.students.filter(s => {
+        const digits = getPrefilledIdDigits(s.student_id, idPolicy);
+        return !digits || digits.length > definition.studentId.digits;
+      })
+    : [];
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !printing && onClose()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Print Pre-filled Class Set</AlertDialogTitle>
+          <AlertDialogDescription>
+            One sheet per student with their name, shaded Student ID and a QR code the scanner reads
+            before the ID bubbles.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading class roster...
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {classData && classData.students.length > 0 && (
+          <div className="space-y-4">
+            <div className="p-3 border rounded-md text-sm">
+              <p className="font-semibold">{classData.class_name} - {classData.section_block}</p>
+              <p className="text-muted-foreground">{classData.students.length} students, sorted by last name</p>
+            </div>
+
+            {examSets.length > 1 && (
+              <div className="space-y-2">
+                <Label>Exam Set</Label>
+                <Select value={setAssignment} onValueChange={(value: SetAssignment) => setSetAssignment(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rotate">Assign sets in turn ({examSets.join(', ')})</SelectItem>
+                    <SelectItem value="student">Students shade their own set</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {idTooLong.length > 0 && (
+              <p className="text-xs text-amber-700">
+                {idTooLong.length} student ID{idTooLong.length !== 1 ? 's do' : ' does'} not fit the
+                {' '}{definition?.studentId.digits}-digit ID grid and will only be printed in the QR code.
+              </p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={printing}>Cancel</AlertDialogCancel>
+          <Button
+            onClick={handlePrint}
+            disabled={!classData || classData.students.length === 0 || printing}
+            className="gap-2"
+          >
+            {printing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+            {printing ? 'Generating...' : 'Download PDF'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { UserAccount } from '@/types/roles';
+
+interface ProctorAssignmentDialogProps {
+  open: boolean;
+  proctor: UserAccount | null;
+  instructors: UserAccount[];
+  onClose: () => void;
+  onSave: (instructorIds: string[]) => void;
+}
+
+/**
+ * Proctor Assignment
+ * Choose the instructors a proctor scans for; the proctor sees only their exams
+ */
+export function ProctorAssignmentDialog({ open, proctor, instructors, onClose, onSave }: ProctorAssignmentDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) setSelected(proctor?.proctorFor || []);
+  }, [open, proctor]);
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]));
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Assign Instructors</AlertDialogTitle>
+          <AlertDialogDescription>
+            {proctor?.fullName || proctor?.email} can open and scan the exams of the instructors selected here.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+          {instructors.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">There are no instructors yet.</p>
+          ) : (
+            instructors.map(instructor => (
+              <label key={instructor.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/50">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(instructor.id)}
+                  onChange={() => toggle(instructor.id)}
+                  className="w-4 h-4"
+                />
+                <span className="min-w-0">
+                  <span className="block font-medium truncate">{instructor.fullName || instructor.email}</span>
+                  {instructor.fullName && (
+                    <span className="block text-xs text-muted-foreground truncate">{instructor.email}</span>
+                  )}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onSave(selected)}>
+            Save ({selected.length})
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, ArrowRight, Loader2, RefreshCw } from 'lucide-react';
+import { RegradePreview, RegradeService } from '@/services/regradeService';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface RegradeDialogProps {
+  open: boolean;
+  examId: string;
+  examTitle?: string;
+  choicePoints?: { [choice: string]: number };
+  onClose: () => void;
+  onApplied?: (updated: number) => void;
+}
+
+const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta * 100) / 100;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+export function RegradeDialog({
+  open,
+  examId,
+  examTitle,
+  choicePoints,
+  onClose,
+  onApplied,
+}: RegradeDialogProps) {
+  const { user } = useAuth();
+  const [preview, setPreview] = useState<RegradePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    loadPreview();
+  }, [open, examId]);
+
+  const loadPreview = async () => {
+    setLoading(true);
+    setError(null);
+    setPreview(null);
+    const result = await RegradeService.previewRegrade(examId, choicePoints);
+    if (result.success && result.data) {
+      setPreview(result.data);
+    } else {
+      setError(result.error || 'Failed to compare results with the answer key');
+    }
+    setLoading(false);
+  };
+
+  const handleApply = async () => {
+    if (!preview || !user?.id) return;
+    setApplying(true);
+    const result = await RegradeService.applyRegrade(preview, { id: user.id, email: user.email }, examTitle);
+    setApplying(false);
+
+    if (result.success) {
+      toast.success(`Regraded ${result.updated} result${result.updated !== 1 ? 's' : ''}`);
+      onApplied?.(result.updated);
+      onClose();
+    } else {
+      setError(result.error || 'Failed to apply regrade');
+      toast.error(result.error || 'Failed to apply regrade');
+    }
+  };
+
+  const changed = preview?.entries.filter(entry => entry.changed) || [];
+  const nothingToWrite = !!preview && preview.staleCount === 0 && preview.changedCount === 0;
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !applying && onClose()}>
+      <AlertDialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Regrade Saved Results</AlertDialogTitle>
+          <AlertDialogDescription>
+            {preview
+              ? `Every saved result recomputed against answer key version ${preview.keyVersion}. Nothing is changed until you apply.`
+              : 'Comparing saved results with the current answer key…'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading results...
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 border rounded-md">
+                <p className="text-xs text-muted-foreground">Results</p>
+                <p className="text-xl font-bold">{preview.entries.length}</p>
+              </div>
+              <div className="p-3 border rounded-md">
+                <p className="text-xs text-muted-foreground">Scores changing</p>
+                <p className="text-xl font-bold text-primary">{preview.changedCount}</p>
+              </div>
+              <div className="p-3 border rounded-md">
+                <p className="text-xs text-muted-foreground">On an older key</p>
+                <p className="text-xl font-bold">{preview.staleCount}</p>
+              </div>
+            </div>
+
+            {nothingToWrite ? (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                All results are already graded against the current answer key.
+              </p>
+            ) : changed.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                No scores change. Applying only records the current key version on each result.
+              </p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-72 overflow-y-auto">
+                {changed.map(entry => (
+                  <div key={entry.resultId} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-mono truncate">{entry.isNullId ? 'Unknown ID' : entry.studentId}</span>
+                      {entry.examSet && <Badge variant="outline">Set {entry.examSet}</Badge>}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className="text-muted-foreground">
+                        {entry.previousScore}/{entry.previousMaxScore}
+                      </span>
+                      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                      <span className="font-semibold">
+                        {entry.newScore}/{entry.newMaxScore}
+                      </span>
+                      <span
+                        className={`w-12 text-right text-xs font-semibold ${
+                          entry.newScore >= entry.previousScore ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {formatDelta(entry.newScore - entry.previousScore)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={applying}>Cancel</AlertDialogCancel>
+          <Button onClick={handleApply} disabled={!preview || nothingToWrite || applying} className="gap-2">
+            {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {applying ? 'Applying...' : 'Apply Regrade'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
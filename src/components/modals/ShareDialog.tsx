@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { SharedItem, SharingService } from '@/services/sharingService';
+import { listCollaborators, SHARE_ACCESS_DESCRIPTIONS, SHARE_ACCESS_LABELS, SHARE_ACCESS_LEVELS } from '@/lib/sharing';
+import { Collaborator, SharedItemType, ShareAccess } from '@/types/sharing';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface ShareDialogProps {
+  open: boolean;
+  itemType: SharedItemType;
+  item: SharedItem | null;
+  onClose: () => void;
+  onChange: (collaborators: Record<string, Collaborator>) => void;
+}
+
+/**
+ * Share Dialog
+ * Invite co-teachers to a class or exam by email or instructor ID, and change or remove their access
+ */
+export function ShareDialog({ open, itemType, item, onClose, onChange }: ShareDialogProps) {
+  const { user } = useAuth();
+  const [identifier, setIdentifier] = useState('');
+  const [access, setAccess] = useState<ShareAccess>('viewer');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setIdentifier('');
+      setAccess('viewer');
+    }
+  }, [open]);
+
+  const collaborators = item ? listCollaborators(item) : [];
+
+  const share = async (target: string, level: ShareAccess, busyKey: string) => {
+    if (!item || !user?.id) return;
+    setBusyId(busyKey);
+    const result = await SharingService.shareItem(itemType, item, target, level, { id: user.id, email: user.email });
+    setBusyId(null);
+
+    if (result.success && result.data) {
+      onChange({ ...(item.collaborators || {}), [result.data.userId]: result.data });
+      toast.success(`${result.data.email} is now a ${SHARE_ACCESS_LABELS[level].toLowerCase()} of this ${itemType}`);
+      return true;
+    }
+    toast.error(result.error || 'Failed to share');
+    return false;
+  };
+
+  const handleInvite = async () => {
+    if (await share(identifier, access, 'new')) setIdentifier('');
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    if (!item || !user?.id) return;
+    setBusyId(collaborator.userId);
+    const result = await SharingService.removeCollaborator(itemType, item, collaborator.userId, {
+      id: user.id,
+      email: user.email,
+    });
+    setBusyId(null);
+
+    if (result.success) {
+      const remaining = { ...(item.collaborators || {}) };
+      delete remaining[collaborator.userId];
+      onChange(remaining);
+      toast.success(`Stopped sharing with ${collaborator.email}`);
+    } else {
+      toast.error(result.error || 'Failed to remove collaborator');
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !busyId && onClose()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Share {item?.name}</AlertDialogTitle>
+          <AlertDialogDescription>
+            Invite co-teachers and proctors by email or instructor ID. The {itemType} appears in their lists
+            {itemType === 'exam' ? ', and they can view its class roster' : ''}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share_identifier">Email or instructor ID</Label>
+            <div className="flex gap-2">
+              <Input
+                id="share_identifier"
+                value={identifier}
+                onChange={(e) => setIdentifier(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && identifier.trim() && !busyId && handleInvite()}
+                placeholder="name@school.edu or INSTRUCTOR-001"
+                disabled={!!busyId}
+              />
+              <Select value={access} onValueChange={(value) => setAccess(value as ShareAccess)} disabled={!!busyId}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_ACCESS_LEVELS.map(level => (
+                    <SelectItem key={level} value={level}>
+                      {SHARE_ACCESS_LABELS[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">{SHARE_ACCESS_DESCRIPTIONS[access]}</p>
+          </div>
+
+          <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+            {collaborators.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">Not shared with anyone yet.</p>
+            ) : (
+              collaborators.map(collaborator => (
+                <div key={collaborator.userId} className="flex items-center gap-2 px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">{collaborator.fullName || collaborator.email}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {collaborator.fullName ? collaborator.email : ''}
+                      {collaborator.instructorId ? `${collaborator.fullName ? ' · ' : ''}${collaborator.instructorId}` : ''}
+                    </p>
+                  </div>
+                  {busyId === collaborator.userId ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  ) : (
+                    <>
+                      <Select
+                        value={collaborator.access}
+                        onValueChange={(value) =>
+                          share(collaborator.instructorId || collaborator.email, value as ShareAccess, collaborator.userId)
+                        }
+                        disabled={!!busyId}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SHARE_ACCESS_LEVELS.map(level => (
+                            <SelectItem key={level} value={level}>
+                              {SHARE_ACCESS_LABELS[level]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => handleRemove(collaborator)}
+                        disabled={!!busyId}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={!!busyId}>Done</AlertDialogCancel>
+          <Button onClick={handleInvite} disabled={!identifier.trim() || !!busyId} className="gap-2">
+            {busyId === 'new' ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            Invite
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Ban, Copy, Download, Link2, Loader2 } from 'lucide-react';
+import { Exam } from '@/services/examService';
+import { ShareableLinkService } from '@/services/shareableLinkService';
+import { ShareableLink, ShareableLinkStatus } from '@/types/scanning';
+import { getLinkStatus } from '@/lib/resultPortal';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+
+interface ShareResultLinksDialogProps {
+  open: boolean;
+  exam: Exam;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: 'never', label: 'Until revoked' },
+];
+
+const STATUS_STYLES: Record<ShareableLinkStatus, string> = {
+  active: 'bg-green-50 text-green-700',
+  expired: 'bg-gray-50 text-gray-600',
+  revoked: 'bg-red-50 text-red-700',
+};
+
+const getLinkUrl = (token: string) =>
+  typeof window === 'undefined' ? `/r/${token}` : `${window.location.origin}/r/${token}`;
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '—';
+
+/**
+ * Share Result Links
+ * One read-only link per student for an exam. Students open it without an account
+ * to see their score, per-tag performance and, if allowed, every item.
+ */
+export function ShareResultLinksDialog({ open, exam, onClose }: ShareResultLinksDialogProps) {
+  const { user } = useAuth();
+  const [links, setLinks] = useState<ShareableLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expiry, setExpiry] = useState('30');
+  const [showItems, setShowItems] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    loadLinks();
+  }, [open, exam.id, user?.id]);
+
+  const loadLinks = async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    setError(null);
+    const result = await ShareableLinkService.getLinksByExamId(exam.id, user.id);
+    if (result.success) {
+      setLinks(result.data || []);
+    } else {
+      setError(result.error || 'Failed to load links');
+    }
+    setLoading(false);
+  };
+
+  const handleGenerate = async () => {
+    if (!user?.id) return;
+    setGenerating(true);
+    setError(null);
+
+    const result = await ShareableLinkService.generateLinksForExam(
+      exam.id,
+      { showItems, expiresInDays: expiry === 'never' ? null : Number(expiry) },
+      { id: user.id, email: user.email }
+    );
+    setGenerating(false);
+
+    if (result.success) {
+      setLinks(result.data || []);
+      toast.success(
+        `${result.created} new link(s)` + (result.refreshed ? `, ${result.refreshed} updated with the latest results` : '')
+      );
+    } else {
+      setError(result.error || 'Failed to create links');
+    }
+  };
+
+  const handleCopy = async (link: ShareableLink) => {
+    try {
+      await navigator.clipboard.writeText(getLinkUrl(link.token));
+      toast.success(`Copied the link for ${link.studentId}`);
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRevoke = async (link: ShareableLink) => {
+    if (!user?.id) return;
+    if (!confirm(`Revoke the link for ${link.studentId}? The student will no longer be able to open it.`)) return;
+
+    const result = await ShareableLinkService.revokeLink(link, { id: user.id, email: user.email });
+    if (result.success) {
+      setLinks(prev => prev.map(l => (l.token === link.token ? { ...l, revokedAt: new Date().toISOString() } : l)));
+      toast.success('Link revoked');
+    } else {
+      toast.error(result.error || 'Failed to revoke link');
+    }
+  };
+
+  const handleExport = () => {
+    const rows = links
+      .filter(link => getLinkStatus(link) === 'active')
+      .map(link => ({
+        'Student ID': link.studentId,
+        'Student Name': link.result.studentName || '',
+        Link: getLinkUrl(link.token),
+        Expires: link.expiresAt ? formatDate(link.expiresAt) : 'Until revoked',
+      }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Result Links');
+    XLSX.writeFile(workbook, `${exam.title.replace(/[^a-z0-9]+/gi, '_')}_result_links.xlsx`);
+  };
+
+  const activeCount = links.filter(link => getLinkStatus(link) === 'active').length;
+  const totalViews = links.reduce((sum, link) => sum + link.viewCount, 0);
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !generating && onClose()}>
+      <AlertDialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Student Result Links</AlertDialogTitle>
+          <AlertDialogDescription>
+            Each student gets a private link to their own result for {exam.title}, viewable without signing in.
+            Creating links again updates every active link with the latest scores.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid sm:grid-cols-[12rem_1fr_auto] gap-4 items-end">
+          <div className="space-y-1">
+            <Label>Links expire after</Label>
+            <Select value={expiry} onValueChange={setExpiry} disabled={generating}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input
+              type="checkbox"
+              checked={showItems}
+              onChange={(e) => setShowItems(e.target.checked)}
+              disabled={generating}
+              className="w-4 h-4"
+            />
+            Show the item-by-item breakdown with correct answers
+          </label>
+          <Button onClick={handleGenerate} disabled={generating || loading} className="gap-2">
+            {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            {links.length > 0 ? 'Create / Update Links' : 'Create Links'}
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mx-auto mb-2" />
+            Loading links...
+          </div>
+        ) : links.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No links have been created for this exam yet.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {activeCount} active link(s) · {totalViews} view(s)
+              </span>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={activeCount === 0} className="gap-1">
+                <Download className="w-3 h-3" />
+                Download list
+              </Button>
+            </div>
+            <div className="border rounded-md overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Student</th>
+                    <th className="px-3 py-2 text-left font-semibold">Status</th>
+                    <th className="px-3 py-2 text-left font-semibold">Expires</th>
+                    <th className="px-3 py-2 text-right font-semibold">Views</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {links.map(link => {
+                    const status = getLinkStatus(link);
+                    return (
+                      <tr key={link.token} className="border-t">
+                        <td className="px-3 py-2">
+                          <p className="font-medium">{link.result.studentName || link.studentId}</p>
+                          {link.result.studentName && <p className="text-xs text-muted-foreground">{link.studentId}</p>}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Badge variant="outline" className={STATUS_STYLES[status]}>
+                            {status}
+                          </Badge>
+                        </td>
+                        <td className="px-3 py-2">{link.expiresAt ? formatDate(link.expiresAt) : 'Until revoked'}</td>
+                        <td className="px-3 py-2 text-right" title={link.lastViewedAt ? `Last viewed ${formatDate(link.lastViewedAt)}` : undefined}>
+                          {link.viewCount}
+                        </td>
+                        <td className="px-3 py-2">
+                          {status === 'active' && (
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="icon" onClick={() => handleCopy(link)} title="Copy link">
+                                <Copy className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRevoke(link)}
+                                title="Revoke link"
+                                className="text-destructive"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={generating}>Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
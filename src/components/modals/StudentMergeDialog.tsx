@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Loader2, Merge } from 'lucide-react';
+import { DuplicateDetectionService, ExistingStudent } from '@/services/duplicateDetectionService';
+import { MergeCounts, StudentMergeService } from '@/services/studentMergeService';
+import { MATCH_REASON_LABELS, StudentMatch } from '@/lib/studentMatching';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface StudentMergeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onMerged?: () => void;
+}
+
+const pairKey = (match: StudentMatch<ExistingStudent>) => `${match.first.student_id}|${match.second.student_id}`;
+
+// The record created first survives unless the admin picks the other one
+const olderRecord = (match: StudentMatch<ExistingStudent>) =>
+  (match.second.created_at || '') < (match.first.created_at || '') ? match.second : match.first;
+
+const formatCounts = (counts: MergeCounts) =>
+  [
+    `${counts.grades} grade(s)`,
+    `${counts.attendance} attendance record(s)`,
+    `${counts.scannedResults} scanned result(s)`,
+    `${counts.examResults} exam result(s)`,
+    `${counts.enrollments} enrollment(s)`,
+  ].join(', ');
+
+export function StudentMergeDialog({ open, onClose, onMerged }: StudentMergeDialogProps) {
+  const { user } = useAuth();
+  const [matches, setMatches] = useState<StudentMatch<ExistingStudent>[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<StudentMatch<ExistingStudent> | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [preview, setPreview] = useState<MergeCounts | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setSelected(null);
+    setLoading(true);
+    DuplicateDetectionService.findSimilarStudents()
+      .then(setMatches)
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const duplicateId = selected
+    ? selected.first.student_id === survivorId
+      ? selected.second.student_id
+      : selected.first.student_id
+    : '';
+
+  // Count what would move off the record that goes away
+  useEffect(() => {
+    if (!duplicateId) return;
+    setPreview(null);
+    setPreviewing(true);
+    StudentMergeService.previewMerge(duplicateId).then(result => {
+      setPreviewing(false);
+      if (result.success) setPreview(result.data || null);
+      else setError(result.error || 'Failed to count the records to move');
+    });
+  }, [duplicateId]);
+
+  const selectMatch = (match: StudentMatch<ExistingStudent>) => {
+    setError(null);
+    setSelected(match);
+    setSurvivorId(olderRecord(match).student_id);
+  };
+
+  const handleMerge = async () => {
+    if (!user?.id || !selected) return;
+    setMerging(true);
+    const result = await StudentMergeService.mergeStudents(survivorId, duplicateId, { id: user.id, email: user.email });
+    setMerging(false);
+
+    if (result.success) {
+      toast.success(`Merged student ${duplicateId} into ${survivorId}`);
+      setMatches(prev =>
+        prev.filter(match => match.first.student_id !== duplicateId && match.second.student_id !== duplicateId)
+      );
+      setSelected(null);
+      onMerged?.();
+    } else {
+      setError(result.error || 'Failed to merge students');
+      toast.error(result.error || 'Failed to merge students');
+    }
+  };
+
+  const renderRecord = (student: ExistingStudent) => (
+    <label
+      key={student.student_id}
+      className="flex items-start gap-2 flex-1 border rounded-md p-3 text-sm cursor-pointer hover:bg-muted/30"
+    >
+      <input
+        type="radio"
+        name="survivor"
+        className="mt-1"
+        checked={survivorId === student.student_id}
+        onChange={() => setSurvivorId(student.student_id)}
+        disabled={merging}
+      />
+      <div className="min-w-0">
+        <div className="font-mono">{student.student_id}</div>
+        <div className="font-medium">{student.last_name}, {student.first_name}</div>
+        {student.email && <div className="text-muted-foreground break-all">{student.email}</div>}
+        <div className="text-xs text-muted-foreground mt-1">
+          {survivorId === student.student_id ? 'Keep this record' : 'Merge into the other record'}
+        </div>
+      </div>
+    </label>
+  );
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !merging && onClose()}>
+      <AlertDialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Merge Duplicate Students</AlertDialogTitle>
+          <AlertDialogDescription>
+            Student records that are probably the same person under two IDs. Merging moves grades,
+            attendance, scanned results and enrollments to the record you keep and archives the other;
+            the change is recorded in the audit log.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Looking for similar students...
+          </div>
+        ) : selected ? (
+          <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row gap-3">
+              {renderRecord(selected.first)}
+              {renderRecord(selected.second)}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {previewing ? (
+                <span className="flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Counting records to move...
+                </span>
+              ) : (
+                preview && <>Moves {formatCounts(preview)} from {duplicateId} to {survivorId}.</>
+              )}
+            </div>
+          </div>
+        ) : matches.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No likely duplicates found</p>
+        ) : (
+          <div className="border rounded-md divide-y">
+            {matches.map(match => (
+              <button
+                key={pairKey(match)}
+                type="button"
+                onClick={() => selectMatch(match)}
+                className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-muted/30"
+              >
+                <div className="min-w-0">
+                  <div>
+                    <span className="font-mono">{match.first.student_id}</span> {match.first.first_name}{' '}
+                    {match.first.last_name}
+                    <span className="text-muted-foreground"> · </span>
+                    <span className="font-mono">{match.second.student_id}</span> {match.second.first_name}{' '}
+                    {match.second.last_name}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {match.reasons.map(reason => (
+                      <Badge key={reason} variant="outline">{MATCH_REASON_LABELS[reason]}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <span className="font-semibold shrink-0">{Math.round(match.score * 100)}%</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          {selected ? (
+            <>
+              <Button variant="outline" onClick={() => setSelected(null)} disabled={merging}>
+                Back
+              </Button>
+              <Button onClick={handleMerge} disabled={merging || previewing || !survivorId} className="gap-2">
+                {merging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+                {merging ? 'Merging...' : 'Merge Students'}
+              </Button>
+            </>
+          ) : (
+            <AlertDialogCancel>Close</AlertDialogCancel>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
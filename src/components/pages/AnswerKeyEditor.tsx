@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -12,9 +12,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { ArrowLeft, Save, Check, Lock, Upload, Download, FileDown } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowLeft, Save, Check, Lock, Upload, Download, FileDown, Shuffle, Plus, X, SlidersHorizontal, History, RotateCcw } from 'lucide-react';
 import { AnswerKeyService } from '@/services/answerKeyService';
-import { AnswerChoice } from '@/types/scanning';
+import { ScanningService } from '@/services/scanningService';
+import { RegradeDialog } from '@/components/modals/RegradeDialog';
+import { AnswerChoice, AnswerKeyVersion, ExamSet, QuestionAnswer, ScoringPolicy } from '@/types/scanning';
+import { DEFAULT_SCORING_POLICY, hasCustomRule } from '@/lib/scoring';
+import { diffAnswerKeys } from '@/lib/answerKeyHistory';
+import { SHEET_CHOICE_LABELS } from '@/lib/sheetTemplates';
+import {
+  EXAM_SET_LABELS,
+  MAX_EXAM_SETS,
+  createMasterOrder,
+  createShuffledOrder,
+  validateQuestionOrder,
+} from '@/lib/examSets';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { getExamById, Exam } from '@/services/examService';
@@ -26,6 +41,44 @@ interface AnswerKeyEditorProps {
   params: { id: string };
 }
 
+// Question order as typed by the teacher, e.g. "3, 1, 4, 2"
+interface ExamSetDraft {
+  label: string;
+  orderText: string;
+}
+
+// A question's scoring rule while it's being edited (the correct answer comes from the grid)
+interface ItemRuleDraft {
+  points: number;
+  acceptedAnswers: AnswerChoice[];
+  partialCredit: Record<string, number>;
+  dropped: boolean;
+  bonus: boolean;
+}
+
+const DEFAULT_ITEM_RULE: ItemRuleDraft = {
+  points: 1,
+  acceptedAnswers: [],
+  partialCredit: {},
+  dropped: false,
+  bonus: false,
+};
+
+// Badges shown on a question cell so custom rules are visible at a glance
+const describeItemRule = (rule: ItemRuleDraft): string[] => {
+  const labels: string[] = [];
+  if (rule.dropped) labels.push('Dropped');
+  if (rule.bonus) labels.push('Bonus');
+  if (rule.points !== 1) labels.push(`${rule.points} pts`);
+  if (rule.acceptedAnswers.length > 0) labels.push(`+${rule.acceptedAnswers.join('')}`);
+  if (Object.keys(rule.partialCredit).length > 0) labels.push('Partial');
+  return labels;
+};
+
+const formatOrder = (order: number[]) => order.join(', ');
+const parseOrder = (text: string) =>
+  text.split(/[\s,]+/).filter(Boolean).map(Number);
+
 export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
   const { user } = useAuth();
   const [exam, setExam] = useState<Exam | null>(null);
@@ -39,6 +92,17 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [errorModalTitle, setErrorModalTitle] = useState('Error');
   const [errorModalMessage, setErrorModalMessage] = useState('');
+  const [examSets, setExamSets] = useState<ExamSetDraft[]>([]);
+  const [itemRules, setItemRules] = useState<{ [questionNumber: number]: ItemRuleDraft }>({});
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>(DEFAULT_SCORING_POLICY);
+  const [editingQuestion, setEditingQuestion] = useState<number | null>(null);
+  const [ruleDraft, setRuleDraft] = useState<ItemRuleDraft>(DEFAULT_ITEM_RULE);
+  const [showRegrade, setShowRegrade] = useState(false);
+  const [versions, setVersions] = useState<AnswerKeyVersion[]>([]);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [confirmRestoreVersion, setConfirmRestoreVersion] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
 
   // Load exam and answer key on mount
   useEffect(() => {
@@ -80,8 +144,25 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
           loadedAnswers[index + 1] = answer;
         });
         setAnswers(loadedAnswers);
+        setExamSets((result.data.sets || []).map(set => ({
+          label: set.label,
+          orderText: formatOrder(set.questionOrder),
+        })));
+        const loadedRules: { [questionNumber: number]: ItemRuleDraft } = {};
+        (result.data.questionSettings || []).forEach(setting => {
+          loadedRules[setting.questionNumber] = {
+            points: setting.points ?? 1,
+            acceptedAnswers: setting.acceptedAnswers || [],
+            partialCredit: setting.partialCredit || {},
+            dropped: !!setting.dropped,
+            bonus: !!setting.bonus,
+          };
+        });
+        setItemRules(loadedRules);
+        setScoringPolicy({ ...DEFAULT_SCORING_POLICY, ...(result.data.scoring || {}) });
         setAnswerKeyId(result.data.id);
         setIsLocked(result.data.locked || false);
+        await loadHistory(result.data.id);
       }
     } catch (err) {
       console.error('Error loading answer key:', err);
@@ -90,6 +171,48 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
     }
   };
 
+  const loadHistory = async (keyId: string) => {
+    const result = await AnswerKeyService.getVersionHistory(keyId);
+    if (result.success && result.data) {
+      setVersions(result.data);
+      // Default to comparing the latest version with the one before it
+      setCompareTo(result.data[0]?.version ?? null);
+      setCompareFrom(result.data[1]?.version ?? result.data[0]?.version ?? null);
+    }
+  };
+
+  // Editing a key that already graded papers: offer to bring those scores up to date
+  const offerRegrade = async () => {
+    const scanned = await ScanningService.getScannedResultsByExamId(params.id);
+    if (scanned.success && scanned.data && scanned.data.length > 0) {
+      setShowRegrade(true);
+    }
+  };
+
+  const handleRestoreVersion = async () => {
+    if (isLocked || !answerKeyId || !user?.id || confirmRestoreVersion === null) return;
+    setRestoring(true);
+    const result = await AnswerKeyService.restoreVersion(answerKeyId, confirmRestoreVersion, user.id, user.email);
+    setRestoring(false);
+
+    if (result.success) {
+      toast.success(`Restored version ${confirmRestoreVersion} as version ${result.version}`);
+      setConfirmRestoreVersion(null);
+      await loadAnswerKey();
+      await offerRegrade();
+    } else {
+      showErrorDialog('Restore Failed', result.error || 'Failed to restore this version.');
+      setConfirmRestoreVersion(null);
+    }
+  };
+
+  const versionDiff = useMemo(() => {
+    const from = versions.find(v => v.version === compareFrom);
+    const to = versions.find(v => v.version === compareTo);
+    if (!from || !to || from.version === to.version) return null;
+    return diffAnswerKeys(from, to);
+  }, [versions, compareFrom, compareTo]);
+
   const handleAnswerChange = (questionNumber: number, answer: string) => {
     if (isLocked) return;
     setAnswers(prev => ({
@@ -98,6 +221,78 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
     }));
   };
 
+  const handleAddExamSet = () => {
+    if (isLocked || !exam || examSets.length >= MAX_EXAM_SETS) return;
+    setExamSets(prev => {
+      // The first added set turns the exam into Set A (master order) + Set B (shuffled)
+      const base = prev.length > 0
+        ? prev
+        : [{ label: EXAM_SET_LABELS[0], orderText: formatOrder(createMasterOrder(exam.num_items)) }];
+      return [
+        ...base,
+        { label: EXAM_SET_LABELS[base.length], orderText: formatOrder(createShuffledOrder(exam.num_items)) },
+      ];
+    });
+  };
+
+  const handleRemoveExamSet = (label: string) => {
+    if (isLocked) return;
+    setExamSets(prev => {
+      const remaining = prev.filter(set => set.label !== label);
+      // Relabel so sets stay A, B, C … with no gaps; one set left means a plain single-set exam
+      return remaining.length > 1
+        ? remaining.map((set, i) => ({ ...set, label: EXAM_SET_LABELS[i] }))
+        : [];
+    });
+  };
+
+  const handleExamSetOrderChange = (label: string, orderText: string) => {
+    if (isLocked) return;
+    setExamSets(prev => prev.map(set => set.label === label ? { ...set, orderText } : set));
+  };
+
+  const handleShuffleExamSet = (label: string) => {
+    if (!exam) return;
+    handleExamSetOrderChange(label, formatOrder(createShuffledOrder(exam.num_items)));
+  };
+
+  const handleOpenItemRule = (questionNumber: number) => {
+    setRuleDraft(itemRules[questionNumber] || DEFAULT_ITEM_RULE);
+    setEditingQuestion(questionNumber);
+  };
+
+  const handleApplyItemRule = () => {
+    if (isLocked || editingQuestion === null) return;
+    const correctAnswer = answers[editingQuestion];
+    // The correct answer already earns credit, so it never needs a partial or extra entry
+    const rule: ItemRuleDraft = {
+      ...ruleDraft,
+      points: Math.max(0, ruleDraft.points || 0),
+      acceptedAnswers: ruleDraft.acceptedAnswers.filter(choice => choice !== correctAnswer),
+      partialCredit: Object.fromEntries(
+        Object.entries(ruleDraft.partialCredit).filter(
+          ([choice, fraction]) => choice !== correctAnswer && !ruleDraft.acceptedAnswers.includes(choice as AnswerChoice) && fraction > 0
+        )
+      ),
+    };
+    setItemRules(prev => ({ ...prev, [editingQuestion]: rule }));
+    setEditingQuestion(null);
+  };
+
+  const toggleAcceptedAnswer = (choice: AnswerChoice) => {
+    setRuleDraft(prev => ({
+      ...prev,
+      acceptedAnswers: prev.acceptedAnswers.includes(choice)
+        ? prev.acceptedAnswers.filter(c => c !== choice)
+        : [...prev.acceptedAnswers, choice],
+    }));
+  };
+
+  const setPartialCredit = (choice: string, percent: string) => {
+    const fraction = Math.min(100, Math.max(0, Number(percent) || 0)) / 100;
+    setRuleDraft(prev => ({ ...prev, partialCredit: { ...prev.partialCredit, [choice]: fraction } }));
+  };
+
   const handleSaveAnswerKey = async () => {
     if (isLocked) {
       setError('Answer key is locked and cannot be modified');
@@ -129,7 +324,7 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
     }
 
     // Validate all answers are valid choices
-    const validChoices = ['A', 'B', 'C', 'D', 'E'].slice(0, exam.choices_per_item);
+    const validChoices = SHEET_CHOICE_LABELS.slice(0, exam.choices_per_item);
     const invalidAnswers = Object.entries(answers).filter(([_, choice]) => !validChoices.includes(choice));
     
     if (invalidAnswers.length > 0) {
@@ -140,6 +335,20 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
       return;
     }
 
+    // Validate every set's question order
+    const sets: ExamSet[] = examSets.map(set => ({ label: set.label, questionOrder: parseOrder(set.orderText) }));
+    const setErrors = sets.flatMap(set =>
+      validateQuestionOrder(set.questionOrder, exam.num_items).map(msg => `Set ${set.label}: ${msg}`)
+    );
+
+    if (setErrors.length > 0) {
+      const errorMsg = setErrors.slice(0, 10).join('\n');
+      setError('Fix the question order of your exam sets before saving.');
+      showErrorDialog('Invalid Exam Sets', errorMsg);
+      toast.error('Invalid exam set question order');
+      return;
+    }
+
     setSaving(true);
     setError(null);
     
@@ -150,6 +359,25 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
         return answer ? answer.toUpperCase() as AnswerChoice : 'A';
       });
 
+      // Only items that differ from "one answer, one point" are stored
+      const questionSettings: QuestionAnswer[] = Object.entries(itemRules)
+        .map(([q, rule]) => ({
+          questionNumber: Number(q),
+          correctAnswer: answerArray[Number(q) - 1],
+          points: rule.points,
+          ...(rule.acceptedAnswers.length > 0 && { acceptedAnswers: rule.acceptedAnswers }),
+          ...(Object.keys(rule.partialCredit).length > 0 && { partialCredit: rule.partialCredit }),
+          ...(rule.dropped && { dropped: true }),
+          ...(rule.bonus && { bonus: true }),
+        }))
+        .filter(setting => setting.questionNumber <= exam.num_items && hasCustomRule(setting));
+
+      const scoring: ScoringPolicy = {
+        wrongPenalty: Math.max(0, scoringPolicy.wrongPenalty || 0),
+        blankPenalty: Math.max(0, scoringPolicy.blankPenalty || 0),
+        allowNegativeTotal: scoringPolicy.allowNegativeTotal,
+      };
+
       console.log('🔑 Saving answer key...');
       console.log('  - User:', user);
       console.log('  - InstructorId:', user?.instructorId);
@@ -162,14 +390,24 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
 
       let result;
       if (answerKeyId) {
-        result = await AnswerKeyService.updateAnswerKey(answerKeyId, answerArray, user.id);
+        result = await AnswerKeyService.updateAnswerKey(
+          answerKeyId,
+          answerArray,
+          user.id,
+          questionSettings,
+          sets,
+          scoring,
+          { userEmail: user.email }
+        );
       } else {
         const createResult = await AnswerKeyService.createAnswerKey(
           params.id, 
           answerArray, 
           user.id, 
-          undefined, // questionSettings
-          user.instructorId // Pass instructorId
+          questionSettings,
+          user.instructorId, // Pass instructorId
+          sets,
+          scoring
         );
         if (createResult.success && createResult.data) {
           setAnswerKeyId(createResult.data.id);
@@ -181,6 +419,13 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
         setSaved(true);
         toast.success('Answer key saved successfully');
         setTimeout(() => setSaved(false), 2000);
+
+        if (answerKeyId) {
+          await loadHistory(answerKeyId);
+          await offerRegrade();
+        } else if ('data' in result && result.data) {
+          await loadHistory(result.data.id);
+        }
       } else {
         setError(result.error || 'Failed to save answer key');
         showErrorDialog('Save Failed', result.error || 'Failed to save answer key. Please try again.');
@@ -258,7 +503,7 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
 
         // Skip header row
         const answerData: { [key: number]: AnswerChoice } = {};
-        const validChoices = ['A', 'B', 'C', 'D', 'E'].slice(0, exam.choices_per_item);
+        const validChoices = SHEET_CHOICE_LABELS.slice(0, exam.choices_per_item);
         const errors: string[] = [];
 
         for (let i = 1; i < jsonData.length; i++) {
@@ -340,7 +585,7 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
   }
 
   // Get available choices based on exam configuration
-  const availableChoices = ['A', 'B', 'C', 'D', 'E'].slice(0, exam.choices_per_item);
+  const availableChoices = SHEET_CHOICE_LABELS.slice(0, exam.choices_per_item);
 
   return (
     <div className="space-y-6">
@@ -480,11 +725,136 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
               {answers[questionNum] && (
                 <span className="text-xs font-bold text-primary mt-1">✓</span>
               )}
+              <div className="flex flex-wrap justify-center items-center gap-1 mt-1">
+                {itemRules[questionNum] && describeItemRule(itemRules[questionNum]).map(label => (
+                  <Badge key={label} variant="outline" className="text-[10px] px-1 py-0">{label}</Badge>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => handleOpenItemRule(questionNum)}
+                  disabled={isLocked}
+                  className="p-0.5 text-muted-foreground hover:text-primary disabled:opacity-50"
+                  title="Scoring rules for this question"
+                >
+                  <SlidersHorizontal className="w-3 h-3" />
+                </button>
+              </div>
             </div>
           </div>
         ))}
       </div>
 
+      {/* Scoring Rules */}
+      <Card className="p-4 border">
+        <p className="font-semibold text-foreground">Scoring Rules</p>
+        <p className="text-xs sm:text-sm text-muted-foreground mb-3">
+          Applied to every question. Use the <SlidersHorizontal className="inline w-3 h-3" /> button on a question for its weight, extra accepted answers, partial credit, or to drop it or make it a bonus.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="wrong-penalty" className="text-xs">Points deducted per wrong answer</Label>
+            <Input
+              id="wrong-penalty"
+              type="number"
+              min={0}
+              step={0.25}
+              value={scoringPolicy.wrongPenalty}
+              onChange={(e) => setScoringPolicy(prev => ({ ...prev, wrongPenalty: Number(e.target.value) || 0 }))}
+              disabled={isLocked}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="blank-penalty" className="text-xs">Points deducted per blank answer</Label>
+            <Input
+              id="blank-penalty"
+              type="number"
+              min={0}
+              step={0.25}
+              value={scoringPolicy.blankPenalty}
+              onChange={(e) => setScoringPolicy(prev => ({ ...prev, blankPenalty: Number(e.target.value) || 0 }))}
+              disabled={isLocked}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox
+              id="allow-negative"
+              checked={scoringPolicy.allowNegativeTotal}
+              onCheckedChange={(checked) => setScoringPolicy(prev => ({ ...prev, allowNegativeTotal: checked === true }))}
+              disabled={isLocked}
+            />
+            <Label htmlFor="allow-negative" className="text-xs">Allow total score below zero</Label>
+          </div>
+        </div>
+      </Card>
+
+      {/* Exam Sets */}
+      <Card className="p-4 border">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3">
+          <div>
+            <p className="font-semibold text-foreground">Exam Sets</p>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              {examSets.length > 0
+                ? 'Answers above are the master key. For each set, list the master question printed as item 1, 2, 3 …'
+                : 'Printing shuffled versions? Add sets and each sheet is graded against the key of the set shaded on it.'}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAddExamSet}
+            disabled={isLocked || examSets.length >= MAX_EXAM_SETS}
+            className="gap-1 flex-shrink-0"
+          >
+            <Plus className="w-4 h-4" />
+            {examSets.length === 0 ? 'Add Sets' : 'Add Set'}
+          </Button>
+        </div>
+
+        {examSets.length > 0 && (
+          <div className="space-y-3">
+            {examSets.map(set => {
+              const orderErrors = validateQuestionOrder(parseOrder(set.orderText), totalQuestions);
+              return (
+                <div key={set.label} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="w-14 justify-center">Set {set.label}</Badge>
+                    <input
+                      type="text"
+                      value={set.orderText}
+                      onChange={(e) => handleExamSetOrderChange(set.label, e.target.value)}
+                      disabled={isLocked}
+                      className="flex-1 min-w-0 px-2 py-1 border rounded-md text-xs font-mono bg-background"
+                      aria-label={`Set ${set.label} question order`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleShuffleExamSet(set.label)}
+                      disabled={isLocked}
+                      title="Shuffle question order"
+                    >
+                      <Shuffle className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveExamSet(set.label)}
+                      disabled={isLocked}
+                      title="Remove set"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {orderErrors.length > 0 && (
+                    <p className="text-xs text-destructive pl-16">{orderErrors[0]}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+
       {/* Action Bar */}
       <div className="flex flex-col sm:flex-row gap-3">
         <Link
@@ -502,6 +872,233 @@ export default function AnswerKeyEditor({ params }: AnswerKeyEditorProps) {
         </button>
       </div>
 
+      {/* Question Scoring Rule */}
+      <Dialog open={editingQuestion !== null} onOpenChange={(open) => !open && setEditingQuestion(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Question {editingQuestion} Scoring</DialogTitle>
+            <DialogDescription>
+              Correct answer: {editingQuestion !== null && answers[editingQuestion] ? answers[editingQuestion] : 'not set'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="item-points" className="text-xs">Points</Label>
+              <Input
+                id="item-points"
+                type="number"
+                min={0}
+                step={0.5}
+                value={ruleDraft.points}
+                onChange={(e) => setRuleDraft(prev => ({ ...prev, points: Number(e.target.value) }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium">Also accept as correct</p>
+              <div className="flex gap-1">
+                {availableChoices
+                  .filter(choice => editingQuestion === null || choice !== answers[editingQuestion])
+                  .map(choice => (
+                    <Button
+                      key={choice}
+                      type="button"
+                      size="sm"
+                      variant={ruleDraft.acceptedAnswers.includes(choice as AnswerChoice) ? 'default' : 'outline'}
+                      onClick={() => toggleAcceptedAnswer(choice as AnswerChoice)}
+                      disabled={ruleDraft.dropped}
+                    >
+                      {choice}
+                    </Button>
+                  ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium">Partial credit (% of points)</p>
+              <div className="grid grid-cols-5 gap-2">
+                {availableChoices
+                  .filter(choice =>
+                    (editingQuestion === null || choice !== answers[editingQuestion]) &&
+                    !ruleDraft.acceptedAnswers.includes(choice as AnswerChoice)
+                  )
+                  .map(choice => (
+                    <div key={choice} className="space-y-1 text-center">
+                      <Label htmlFor={`partial-${choice}`} className="text-xs">{choice}</Label>
+                      <Input
+                        id={`partial-${choice}`}
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={Math.round((ruleDraft.partialCredit[choice] || 0) * 100)}
+                        onChange={(e) => setPartialCredit(choice, e.target.value)}
+                        disabled={ruleDraft.dropped}
+                        className="h-8 px-1 text-center"
+                      />
+                    </div>
+                  ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="item-dropped"
+                checked={ruleDraft.dropped}
+                onCheckedChange={(checked) => setRuleDraft(prev => ({ ...prev, dropped: checked === true }))}
+              />
+              <Label htmlFor="item-dropped" className="text-xs">Drop question (any shaded answer earns full points)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="item-bonus"
+                checked={ruleDraft.bonus}
+                onCheckedChange={(checked) => setRuleDraft(prev => ({ ...prev, bonus: checked === true }))}
+              />
+              <Label htmlFor="item-bonus" className="text-xs">Bonus question (not counted in the maximum score)</Label>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setRuleDraft(DEFAULT_ITEM_RULE)}>
+              Reset
+            </Button>
+            <Button onClick={handleApplyItemRule} disabled={isLocked}>
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version History */}
+      {versions.length > 0 && (
+        <Card className="p-4 border">
+          <div className="flex items-center gap-2 mb-1">
+            <History className="w-4 h-4 text-muted-foreground" />
+            <p className="font-semibold text-foreground">Version History</p>
+          </div>
+          <p className="text-xs sm:text-sm text-muted-foreground mb-3">
+            Every save is kept. Compare any two versions or restore an older one — restoring saves it as a new version.
+          </p>
+
+          {versions.length > 1 && (
+            <div className="space-y-2 mb-4">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Compare</span>
+                <select
+                  value={compareFrom ?? ''}
+                  onChange={(e) => setCompareFrom(Number(e.target.value))}
+                  className="px-2 py-1 border border-input rounded-md bg-background text-sm"
+                  aria-label="Compare from version"
+                >
+                  {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+                </select>
+                <span className="text-muted-foreground">with</span>
+                <select
+                  value={compareTo ?? ''}
+                  onChange={(e) => setCompareTo(Number(e.target.value))}
+                  className="px-2 py-1 border border-input rounded-md bg-background text-sm"
+                  aria-label="Compare to version"
+                >
+                  {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+                </select>
+              </div>
+
+              {versionDiff && (
+                versionDiff.questions.length === 0 && !versionDiff.setsChanged && !versionDiff.scoringChanged ? (
+                  <p className="text-xs text-muted-foreground">These versions are identical.</p>
+                ) : (
+                  <div className="border rounded-md p-2 text-xs space-y-1 max-h-48 overflow-y-auto">
+                    {versionDiff.questions.map(change => (
+                      <div key={change.questionNumber} className="flex items-center gap-2">
+                        <span className="font-semibold w-10">Q{change.questionNumber}</span>
+                        {change.answerChanged && (
+                          <span>
+                            <span className="text-red-600 line-through">{change.before || '—'}</span>
+                            {' → '}
+                            <span className="text-green-600 font-semibold">{change.after || '—'}</span>
+                          </span>
+                        )}
+                        {change.ruleChanged && <Badge variant="outline" className="text-[10px] px-1 py-0">Scoring rule changed</Badge>}
+                      </div>
+                    ))}
+                    {versionDiff.setsChanged && <p className="font-semibold">Exam sets changed</p>}
+                    {versionDiff.scoringChanged && <p className="font-semibold">Negative marking / blank rules changed</p>}
+                  </div>
+                )
+              )}
+            </div>
+          )}
+
+          <div className="divide-y border rounded-md">
+            {versions.map((v, index) => (
+              <div key={v.version} className="flex items-center justify-between gap-2 px-3 py-2 text-xs sm:text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant={index === 0 ? 'default' : 'secondary'}>v{v.version}</Badge>
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      {v.savedAt ? new Date(v.savedAt).toLocaleString() : 'Unknown date'} · {v.savedByEmail || v.savedBy}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {v.restoredFrom
+                        ? `Restored from v${v.restoredFrom}`
+                        : v.version === 1
+                          ? 'First version'
+                          : v.changedQuestions.length > 0
+                            ? `Changed Q${v.changedQuestions.slice(0, 8).join(', Q')}${v.changedQuestions.length > 8 ? ` and ${v.changedQuestions.length - 8} more` : ''}`
+                            : 'No item changes'}
+                    </p>
+                  </div>
+                </div>
+                {index === 0 ? (
+                  <span className="text-xs text-muted-foreground flex-shrink-0">Current</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmRestoreVersion(v.version)}
+                    disabled={isLocked}
+                    className="gap-1 flex-shrink-0"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Restore Confirmation */}
+      <Dialog open={confirmRestoreVersion !== null} onOpenChange={(open) => !open && !restoring && setConfirmRestoreVersion(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Restore version {confirmRestoreVersion}?</DialogTitle>
+            <DialogDescription>
+              The answers, scoring rules and exam sets of version {confirmRestoreVersion} will be saved as a new version.
+              Unsaved edits on this page will be lost.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setConfirmRestoreVersion(null)} disabled={restoring}>
+              Cancel
+            </Button>
+            <Button onClick={handleRestoreVersion} disabled={restoring || isLocked}>
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RegradeDialog
+        open={showRegrade}
+        examId={params.id}
+        examTitle={exam.title}
+        choicePoints={exam.choicePoints}
+        onClose={() => setShowRegrade(false)}
+      />
+
       {/* Error Modal */}
       <Dialog open={showErrorModal} onOpenChange={setShowErrorModal}>
         <DialogContent className="max-w-lg">
@@ -7,6 +7,7 @@ import { Archive as ArchiveIcon, Search, GraduationCap, Trash2, RotateCcw } from
 import { useAuth } from '@/contexts/AuthContext';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getClassRosters } from '@/services/enrollmentService';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import {
@@ -57,8 +58,11 @@ export default function ArchivedClasses() {
         }
 
         const classesRef = collection(db, 'classes');
-        const q = query(classesRef, where('isArchived', '==', true));
+        const q = query(classesRef, where('createdBy', '==', user.id), where('isArchived', '==', true));
         const snapshot = await getDocs(q);
+        const rosters = await getClassRosters(
+          snapshot.docs.filter((doc) => !Array.isArray(doc.data().students)).map((doc) => doc.id)
+        );
 
         const classes = snapshot.docs.map((doc) => {
           const data = doc.data();
@@ -68,7 +72,9 @@ export default function ArchivedClasses() {
             course_subject: data.course_subject || '',
             section_block: data.section_block || '',
             room: data.room || '',
-            students_count: Array.isArray(data.students) ? data.students.length : 0,
+            students_count: Array.isArray(data.students)
+              ? data.students.length
+              : (rosters.get(doc.id) || []).filter((entry) => entry.status === 'active').length,
             created_at: data.created_at || '',
             isArchived: data.isArchived || true,
           } as ArchivedClass;
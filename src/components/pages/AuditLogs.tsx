@@ -44,6 +44,13 @@ const ACTIVITY_TYPES: ActivityType[] = [
   'file_download',
   'student_import',
   'answer_key_upload',
+  'results_regraded',
+  'results_merged',
+  'result_corrected',
+  'results_shared',
+  'results_emailed',
+  'role_changed',
+  'sharing_changed',
   'exam_created',
   'exam_deleted',
   'admin_action',
@@ -134,6 +141,13 @@ export default function AuditLogsViewer() {
       file_download: 'bg-purple-50 text-purple-700',
       student_import: 'bg-indigo-50 text-indigo-700',
       answer_key_upload: 'bg-teal-50 text-teal-700',
+      results_regraded: 'bg-cyan-50 text-cyan-700',
+      results_merged: 'bg-amber-50 text-amber-700',
+      result_corrected: 'bg-pink-50 text-pink-700',
+      results_shared: 'bg-lime-50 text-lime-700',
+      results_emailed: 'bg-sky-50 text-sky-700',
+      role_changed: 'bg-violet-50 text-violet-700',
+      sharing_changed: 'bg-teal-50 text-teal-700',
       exam_created: 'bg-green-50 text-green-700',
       exam_deleted: 'bg-red-50 text-red-700',
       admin_action: 'bg-orange-50 text-orange-700',
@@ -146,6 +160,13 @@ export default function AuditLogsViewer() {
       file_download: 'File Download',
       student_import: 'Student Import',
       answer_key_upload: 'Answer Key',
+      results_regraded: 'Regrade',
+      results_merged: 'Duplicates Merged',
+      result_corrected: 'Result Corrected',
+      results_shared: 'Results Shared',
+      results_emailed: 'Results Emailed',
+      role_changed: 'Role Changed',
+      sharing_changed: 'Sharing Changed',
       exam_created: 'Exam Created',
       exam_deleted: 'Exam Deleted',
       admin_action: 'Admin Action',
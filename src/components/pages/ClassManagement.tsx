@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
+import Link from "next/link";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -44,36 +45,57 @@ import {
   AlertCircle,
   X,
   Archive,
+  BookOpen,
+  Scale,
+  Share2,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import * as XLSX from "xlsx"; // Added import here
 import {
   createClass,
   getClasses,
+  getClassById,
   updateClass,
   deleteClass,
+  setStudentEnrollmentStatus,
   type Class,
   type Student,
 } from "@/services/classService";
+import { GradingScaleService } from "@/services/gradingScaleService";
+import { GradingScalesDialog } from "@/components/modals/GradingScalesDialog";
+import { ShareDialog } from "@/components/modals/ShareDialog";
+import { ENROLLMENT_STATUS_STYLES, EnrollmentStatusBadge } from "@/components/EnrollmentStatusBadge";
+import { BUILT_IN_GRADING_SCALES, DEFAULT_GRADING_SCALE } from "@/lib/gradingScales";
+import { getVisibleOwnerIds } from "@/lib/roles";
+import { canOnItem, getItemAccess, isSharedWith } from "@/lib/sharing";
+import { ENROLLMENT_STATUSES, ENROLLMENT_STATUS_LABELS, formatIdentityConflicts } from "@/lib/enrollment";
+import { findStudentIdConflicts } from "@/services/enrollmentService";
+import type { GradingScale } from "@/types/gradebook";
+import type { EnrollmentStatus } from "@/types/enrollment";
 
 export default function ClassManagement() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [classes, setClasses] = useState<Class[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [archiveId, setArchiveId] = useState<string | null>(null);
+  const [sharingClass, setSharingClass] = useState<Class | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
+  const [updatingStudentId, setUpdatingStudentId] = useState<string | null>(null);
   const [editingClass, setEditingClass] = useState<Class | null>(null);
   const [currentTab, setCurrentTab] = useState("basic");
   const [importing] = useState(false);
   const [importPreview, setImportPreview] = useState<Student[]>([]);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>(BUILT_IN_GRADING_SCALES);
+  const [showScalesDialog, setShowScalesDialog] = useState(false);
+  const [editGradingScaleId, setEditGradingScaleId] = useState("");
 
   const [newClass, setNewClass] = useState({
     class_name: "",
@@ -92,13 +114,19 @@ export default function ClassManagement() {
 
   useEffect(() => {
     fetchClasses();
-  }, []);
+  }, [user?.id, user?.role]);
+
+  useEffect(() => {
+    GradingScaleService.getGradingScales(user?.id).then((result) => {
+      if (result.data) setGradingScales(result.data);
+    });
+  }, [user?.id]);
 
   const fetchClasses = async () => {
     try {
       setLoading(true);
-      const userId = user?.id;
-      const fetchedClasses = await getClasses(userId);
+      if (!user?.id) return;
+      const fetchedClasses = await getClasses(getVisibleOwnerIds(user), user.id);
       setClasses(fetchedClasses);
     } catch (error) {
       console.error("Error fetching classes:", error);
@@ -127,6 +155,23 @@ export default function ClassManagement() {
     setCurrentTab("basic");
   };
 
+  // Students are shared records: an ID already on record under another name
+  // belongs to a different student
+  const checkStudentIdentities = async (added: Student[]) => {
+    try {
+      const conflicts = await findStudentIdConflicts(added);
+      if (conflicts.length > 0) {
+        toast.error(`Student ID(s) already belong to other students: ${formatIdentityConflicts(conflicts)}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error("Error checking student IDs:", error);
+      toast.error("Failed to check student IDs");
+      return false;
+    }
+  };
+
   const handleAddClass = async () => {
     if (
       !newClass.class_name ||
@@ -142,6 +187,8 @@ export default function ClassManagement() {
       return;
     }
 
+    if (!(await checkStudentIdentities(students))) return;
+
     // Save the class data before resetting
     const classToAdd: Omit<Class, "id"> = {
       ...newClass,
@@ -192,11 +239,7 @@ export default function ClassManagement() {
     if (!archiveId) return;
 
     try {
-      const classToArchive = classes.find(c => c.id === archiveId);
-      if (!classToArchive) return;
-
-      const updatedClass = { ...classToArchive, isArchived: true };
-      await updateClass(archiveId, updatedClass);
+      await updateClass(archiveId, { isArchived: true });
       setClasses(classes.filter((c) => c.id !== archiveId));
       setArchiveId(null);
       toast.success("Class archived successfully");
@@ -206,6 +249,27 @@ export default function ClassManagement() {
     }
   };
 
+  const handleEnrollmentStatusChange = async (studentId: string, status: EnrollmentStatus) => {
+    if (!selectedClass || !user?.id) return;
+
+    try {
+      setUpdatingStudentId(studentId);
+      await setStudentEnrollmentStatus(selectedClass.id, studentId, status, user.id);
+      const refreshed = await getClassById(selectedClass.id);
+      if (refreshed) {
+        const updated = { ...selectedClass, ...refreshed };
+        setSelectedClass(updated);
+        setClasses((prevClasses) => prevClasses.map((c) => (c.id === updated.id ? updated : c)));
+      }
+      toast.success(`Student marked ${ENROLLMENT_STATUS_LABELS[status].toLowerCase()}`);
+    } catch (error) {
+      console.error("Error updating enrollment status:", error);
+      toast.error("Failed to update enrollment status");
+    } finally {
+      setUpdatingStudentId(null);
+    }
+  };
+
   const handleEditClass = (classItem: Class) => {
     setEditingClass(classItem);
     setNewClass({
@@ -214,6 +278,7 @@ export default function ClassManagement() {
       section_block: classItem.section_block,
       room: classItem.room,
     });
+    setEditGradingScaleId(classItem.gradingScaleId || "");
     setStudents(classItem.students);
     setCurrentTab("basic");
     setShowEditDialog(true);
@@ -231,6 +296,9 @@ export default function ClassManagement() {
       return;
     }
 
+    const previousIds = new Set(editingClass.students.map((s) => s.student_id));
+    if (!(await checkStudentIdentities(students.filter((s) => !previousIds.has(s.student_id))))) return;
+
     try {
       setSaving(true);
 
@@ -239,6 +307,7 @@ export default function ClassManagement() {
         course_subject: newClass.course_subject,
         section_block: newClass.section_block,
         room: newClass.room || "",
+        gradingScaleId: editGradingScaleId,
         students: students || [],
       };
 
@@ -247,13 +316,16 @@ export default function ClassManagement() {
         JSON.stringify(updatedData, null, 2),
       );
 
-      await updateClass(editingClass.id, updatedData);
+      await updateClass(editingClass.id, updatedData, user?.id);
 
-      // Update local state
+      // Update local state, re-reading the roster the enrollments now hold
+      const refreshed = await getClassById(editingClass.id);
       setClasses(
         classes.map((c) =>
           c.id === editingClass.id
-            ? { ...c, ...updatedData, updatedAt: new Date().toISOString() }
+            ? refreshed
+              ? { ...c, ...refreshed }
+              : { ...c, ...updatedData, updatedAt: new Date().toISOString() }
             : c,
         ),
       );
@@ -420,30 +492,40 @@ export default function ClassManagement() {
             Manage student roster and information
           </p>
         </div>
-        <div className="flex gap-2">
-          <Button
-            onClick={() => fileInputRef.current?.click()}
-            variant="outline"
-            className="gap-2"
-          >
-            <Upload className="w-4 h-4" />
-            Import Excel
-          </Button>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".xlsx,.xls,.csv"
-            onChange={handleFileUpload}
-            className="hidden"
-          />
-          <Button
-            onClick={() => setShowAddDialog(true)}
-            className="gradient-primary gap-2"
-          >
-            <Plus className="w-4 h-4" />
-            Add Class
-          </Button>
-        </div>
+        {can('manage_exams') && (
+          <div className="flex gap-2">
+            <Button
+              onClick={() => setShowScalesDialog(true)}
+              variant="outline"
+              className="gap-2"
+            >
+              <Scale className="w-4 h-4" />
+              Grading Scales
+            </Button>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="outline"
+              className="gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              Import Excel
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            <Button
+              onClick={() => setShowAddDialog(true)}
+              className="gradient-primary gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Class
+            </Button>
+          </div>
+        )}
       </div>
 
       <Card className="card-elevated mb-6">
@@ -493,6 +575,11 @@ export default function ClassManagement() {
                     <div>
                       <h3 className="font-semibold text-lg text-foreground">
                         {classItem.class_name}
+                        {isSharedWith(classItem, user?.id) && (
+                          <span className="ml-2 align-middle inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-50 text-teal-700">
+                            Shared
+                          </span>
+                        )}
                       </h3>
                       <p className="text-sm text-muted-foreground">
                         {classItem.course_subject} • {classItem.section_block}
@@ -504,37 +591,69 @@ export default function ClassManagement() {
                       variant="ghost"
                       size="icon"
                       className="text-primary hover:text-primary"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleEditClass(classItem);
-                      }}
+                      title="Gradebook"
+                      asChild
                     >
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        width="16"
-                        height="16"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="2"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
+                      <Link
+                        href={`/classes/${classItem.id}/gradebook`}
+                        onClick={(e) => e.stopPropagation()}
                       >
-                        <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
-                        <path d="m15 5 4 4" />
-                      </svg>
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setArchiveId(classItem.id);
-                      }}
-                    >
-                      <Archive className="w-4 h-4" />
+                        <BookOpen className="w-4 h-4" />
+                      </Link>
                     </Button>
+                    {can("manage_exams") && classItem.createdBy === user?.id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-primary hover:text-primary"
+                        title="Share"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSharingClass(classItem);
+                        }}
+                      >
+                        <Share2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {can("manage_exams") && canOnItem(getItemAccess(classItem, user), "manage_exams") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-primary hover:text-primary"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleEditClass(classItem);
+                        }}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          width="16"
+                          height="16"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
+                          <path d="m15 5 4 4" />
+                        </svg>
+                      </Button>
+                    )}
+                    {can("manage_exams") && classItem.createdBy === user?.id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setArchiveId(classItem.id);
+                        }}
+                      >
+                        <Archive className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
 
@@ -1076,6 +1195,25 @@ export default function ClassManagement() {
                     placeholder="e.g., Room 301"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit_grading_scale">Grading Scale</Label>
+                  <select
+                    id="edit_grading_scale"
+                    value={editGradingScaleId}
+                    onChange={(e) => setEditGradingScaleId(e.target.value)}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    <option value="">Default ({DEFAULT_GRADING_SCALE.name})</option>
+                    {gradingScales.map((scale) => (
+                      <option key={scale.id} value={scale.id}>
+                        {scale.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Used for letter grades, pass rates and reports on this class&apos;s exams
+                  </p>
+                </div>
               </div>
             </TabsContent>
 
@@ -1501,9 +1639,12 @@ export default function ClassManagement() {
 
               <div>
                 <h4 className="font-medium mb-3">
-                  Students ({selectedClass.students.length})
+                  Students ({selectedClass.students.length} active
+                  {(selectedClass.roster?.length || 0) > selectedClass.students.length &&
+                    `, ${(selectedClass.roster?.length || 0) - selectedClass.students.length} inactive or dropped`}
+                  )
                 </h4>
-                {selectedClass.students.length > 0 ? (
+                {(selectedClass.roster?.length || 0) > 0 ? (
                   <div className="border rounded-lg overflow-hidden">
                     <Table>
                       <TableHeader>
@@ -1511,14 +1652,35 @@ export default function ClassManagement() {
                           <TableHead>Student ID</TableHead>
                           <TableHead>Name</TableHead>
                           <TableHead>Email</TableHead>
+                          <TableHead>Status</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {selectedClass.students.map((student, idx) => (
-                          <TableRow key={`${selectedClass.id}-view-${idx}`}>
+                        {selectedClass.roster?.map((student) => (
+                          <TableRow key={`${selectedClass.id}-view-${student.student_id}`}>
                             <TableCell>{student.student_id}</TableCell>
                             <TableCell>{`${student.first_name} ${student.last_name}`}</TableCell>
                             <TableCell>{student.email || "—"}</TableCell>
+                            <TableCell>
+                              {can("manage_exams") && canOnItem(getItemAccess(selectedClass, user), "manage_exams") ? (
+                                <select
+                                  value={student.status}
+                                  onChange={(e) =>
+                                    handleEnrollmentStatusChange(student.student_id, e.target.value as EnrollmentStatus)
+                                  }
+                                  disabled={!!updatingStudentId}
+                                  className={`rounded-md border px-2 py-1 text-xs font-medium ${ENROLLMENT_STATUS_STYLES[student.status]}`}
+                                >
+                                  {ENROLLMENT_STATUSES.map((status) => (
+                                    <option key={status} value={status}>
+                                      {ENROLLMENT_STATUS_LABELS[status]}
+                                    </option>
+                                  ))}
+                                </select>
+                              ) : (
+                                <EnrollmentStatusBadge status={student.status} />
+                              )}
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
@@ -1558,6 +1720,26 @@ export default function ClassManagement() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <GradingScalesDialog
+        open={showScalesDialog}
+        scales={gradingScales}
+        onClose={() => setShowScalesDialog(false)}
+        onChanged={setGradingScales}
+      />
+
+      <ShareDialog
+        open={sharingClass !== null}
+        itemType="class"
+        item={sharingClass && { ...sharingClass, name: sharingClass.class_name }}
+        onClose={() => setSharingClass(null)}
+        onChange={(collaborators) => {
+          if (!sharingClass) return;
+          const updated = { ...sharingClass, collaborators, collaboratorIds: Object.keys(collaborators) };
+          setSharingClass(updated);
+          setClasses(classes.map((c) => (c.id === updated.id ? updated : c)));
+        }}
+      />
     </div>
   );
 }
@@ -7,21 +7,37 @@ import {
   ArrowLeft,
   Edit2,
   Smartphone,
+  Layers,
   FileText,
   BarChart3,
   Tag,
   FilePlus,
   CheckCircle,
   Loader2,
+  RefreshCw,
+  Printer,
+  Share2,
 } from "lucide-react";
-import { getExamById, Exam } from "@/services/examService";
+import { Button } from "@/components/ui/button";
+import { getExamById, updateExam, Exam } from "@/services/examService";
 import { AnswerKeyService } from "@/services/answerKeyService";
 import { ScanningService } from "@/services/scanningService";
 import { useAuth } from "@/contexts/AuthContext";
 import { db, auth } from "@/lib/firebase";
-import { collection, addDoc, serverTimestamp, query, where, getDocs } from "firebase/firestore";
+import { collection, query, where, getDocs } from "firebase/firestore";
 import { toast } from "sonner";
 import { generateTemplatePDF } from "@/lib/templatePdfGenerator";
+import { getBuiltInTemplate } from "@/lib/sheetTemplates";
+import { TemplateService } from "@/services/templateService";
+import { hasExamSets } from "@/lib/examSets";
+import { getCountedResults } from "@/lib/duplicateResults";
+import { GradingScaleService } from "@/services/gradingScaleService";
+import { BUILT_IN_GRADING_SCALES } from "@/lib/gradingScales";
+import type { GradingScale } from "@/types/gradebook";
+import { RegradeDialog } from "@/components/modals/RegradeDialog";
+import { PrintClassSetDialog } from "@/components/modals/PrintClassSetDialog";
+import { ShareDialog } from "@/components/modals/ShareDialog";
+import { canOnItem, getItemAccess, SHARE_ACCESS_LABELS } from "@/lib/sharing";
 
 interface ExamDetailsProps {
   params: { id: string };
@@ -31,10 +47,12 @@ interface AnswerKeyStatus {
   total: number;
   completed: number;
   hasAnswerKey: boolean;
+  examSets: string[]; // set labels for multi-set exams
+  keyVersion: number;
 }
 
 export default function ExamDetails({ params }: ExamDetailsProps) {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [exam, setExam] = useState<Exam | null>(null);
   const [loading, setLoading] = useState(true);
   const [scannedPaperCount, setScannedPaperCount] = useState(0);
@@ -42,9 +60,18 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
     total: 0,
     completed: 0,
     hasAnswerKey: false,
+    examSets: [],
+    keyVersion: 0,
   });
+  const [staleResultCount, setStaleResultCount] = useState(0);
+  const [showRegrade, setShowRegrade] = useState(false);
+  const [showClassSet, setShowClassSet] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   const [hasTemplate, setHasTemplate] = useState(false);
   const [creatingTemplate, setCreatingTemplate] = useState(false);
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>(BUILT_IN_GRADING_SCALES);
+  const [classScale, setClassScale] = useState<GradingScale | null>(null);
+  const [savingScale, setSavingScale] = useState(false);
 
   useEffect(() => {
     async function fetchExam() {
@@ -54,22 +81,30 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
         setExam(examData);
 
         if (examData) {
+          let keyVersion = 0;
           try {
             const result = await AnswerKeyService.getAnswerKeyByExamId(
               params.id,
             );
             if (result.success && result.data) {
               const answersCount = result.data.answers.length;
+              keyVersion = result.data.version || 1;
               setAnswerKeyStatus({
                 total: examData.num_items,
                 completed: answersCount,
                 hasAnswerKey: true,
+                examSets: hasExamSets(result.data)
+                  ? (result.data.sets || []).map(set => set.label)
+                  : [],
+                keyVersion,
               });
             } else {
               setAnswerKeyStatus({
                 total: examData.num_items,
                 completed: 0,
                 hasAnswerKey: false,
+                examSets: [],
+                keyVersion: 0,
               });
             }
           } catch (error) {
@@ -80,7 +115,13 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
           try {
             const scannedResult = await ScanningService.getScannedResultsByExamId(params.id);
             if (scannedResult.success && scannedResult.data) {
-              setScannedPaperCount(scannedResult.data.filter(r => !r.isNullId).length);
+              setScannedPaperCount(getCountedResults(scannedResult.data).filter(r => !r.isNullId).length);
+              // Results scored before the latest key edit still carry the old score
+              setStaleResultCount(
+                keyVersion > 0
+                  ? scannedResult.data.filter(r => r.keyVersion !== keyVersion).length
+                  : 0
+              );
             }
           } catch (error) {
             console.error("Error fetching scanned results:", error);
@@ -110,6 +151,32 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
     }
   }, [params.id]);
 
+  useEffect(() => {
+    GradingScaleService.getGradingScales(user?.id).then((result) => {
+      if (result.data) setGradingScales(result.data);
+    });
+  }, [user?.id]);
+
+  const examClassId = exam?.classId;
+  useEffect(() => {
+    GradingScaleService.getScaleForClass(examClassId).then(setClassScale);
+  }, [examClassId]);
+
+  const handleGradingScaleChange = async (gradingScaleId: string) => {
+    if (!exam) return;
+    try {
+      setSavingScale(true);
+      await updateExam(exam.id, { gradingScaleId });
+      setExam({ ...exam, gradingScaleId: gradingScaleId || undefined });
+      toast.success("Grading scale updated");
+    } catch (error) {
+      console.error("Error updating grading scale:", error);
+      toast.error("Failed to update grading scale");
+    } finally {
+      setSavingScale(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -173,22 +240,26 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
         uid: currentUser?.uid,
       });
 
-      const templateData = {
-        name: exam.title,
-        description: exam.subject || 'Answer Sheet Template',
-        numQuestions: exam.num_items,
-        choicesPerQuestion: exam.choices_per_item,
-        layout: 'single',
-        includeStudentId: true,
-        studentIdLength: 10,
-        createdBy: user.id,
-        instructorId: user.instructorId,
-        examId: params.id,
-        examName: exam.title,
-        createdAt: serverTimestamp(),
-      };
-
-      await addDoc(collection(db, 'templates'), templateData);
+      // Pin the printed sheet so later scans are read with the same layout
+      const definition = getBuiltInTemplate(exam.num_items, exam.choices_per_item);
+      const templateResult = await TemplateService.createTemplate(
+        {
+          name: exam.title,
+          description: exam.subject || 'Answer Sheet Template',
+          numQuestions: exam.num_items,
+          choicesPerQuestion: exam.choices_per_item,
+          layout: 'single',
+          studentIdLength: definition.studentId.digits,
+          definition,
+          instructorId: user.instructorId,
+          examId: params.id,
+          examName: exam.title,
+        },
+        user.id
+      );
+      if (!templateResult.success) {
+        throw new Error(templateResult.error || 'Failed to save template');
+      }
       
       // Generate exam code
       const classPrefix = exam.className 
@@ -207,6 +278,8 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
         choicesPerQuestion: exam.choices_per_item,
         examName: exam.title,
         examCode: examCode,
+        examSets: answerKeyStatus.examSets,
+        definition,
       });
       
       setHasTemplate(true);
@@ -224,10 +297,14 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
     }
   };
 
+  // Only the actions this user's role and their access to the exam allow
+  const access = getItemAccess(exam, user);
+  const sharedAccess = user && access !== "owner" ? exam.collaborators?.[user.id]?.access : undefined;
   const actionButtons = [
     {
       icon: Edit2,
       label: "Edit Answer Key",
+      permission: "edit_answer_keys" as const,
       description: "Set correct answers for each question",
       href: `/exams/${params.id}/edit-key`,
       color: "bg-blue-50 text-primary",
@@ -235,6 +312,7 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
     {
       icon: hasTemplate ? CheckCircle : creatingTemplate ? Loader2 : FilePlus,
       label: hasTemplate ? "Template Created" : creatingTemplate ? "Generating..." : "Create Template",
+      permission: "manage_exams" as const,
       description: hasTemplate
         ? "Answer sheet template already generated"
         : "Auto-generate and download answer sheet PDF",
@@ -242,16 +320,37 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
       onClick: hasTemplate || creatingTemplate ? undefined : () => handleCreateTemplate(),
       disabled: hasTemplate || creatingTemplate,
     },
+    {
+      icon: Printer,
+      label: "Print Class Set",
+      permission: "scan_papers" as const,
+      description: exam.classId
+        ? "Pre-filled sheets with each student's name, ID and QR code"
+        : "Link a class to this exam to print pre-filled sheets",
+      color: "bg-green-50 text-green-600",
+      onClick: exam.classId ? () => setShowClassSet(true) : undefined,
+      disabled: !exam.classId,
+    },
     {
       icon: Smartphone,
       label: "Scan Papers",
+      permission: "scan_papers" as const,
       description: "Scan and capture answer sheets",
       href: `/exams/${params.id}/scan-papers`,
       color: "bg-blue-50 text-primary",
     },
+    {
+      icon: Layers,
+      label: "Batch Import",
+      permission: "scan_papers" as const,
+      description: "Read a PDF or folder of scanned sheets",
+      href: `/exams/${params.id}/scan-papers/batch`,
+      color: "bg-blue-50 text-primary",
+    },
     {
       icon: FileText,
       label: "Review Papers",
+      permission: "scan_papers" as const,
       description: "Review scanned documents",
       href: `/exams/${params.id}/review-papers`,
       color: "bg-blue-50 text-primary",
@@ -259,18 +358,31 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
     {
       icon: BarChart3,
       label: "Item Analysis",
+      permission: "view_results" as const,
       description: "Analyze question performance",
       href: `/exams/${params.id}/item-analysis`,
       color: "bg-blue-50 text-primary",
     },
+    {
+      icon: RefreshCw,
+      label: "Regrade Results",
+      permission: "edit_answer_keys" as const,
+      description: staleResultCount > 0
+        ? `${staleResultCount} result${staleResultCount !== 1 ? "s" : ""} graded with an older answer key`
+        : "Recompute saved scores against the current answer key",
+      color: staleResultCount > 0 ? "bg-amber-50 text-amber-600" : "bg-blue-50 text-primary",
+      onClick: answerKeyStatus.hasAnswerKey ? () => setShowRegrade(true) : undefined,
+      disabled: !answerKeyStatus.hasAnswerKey,
+    },
     {
       icon: Tag,
       label: "Tag Reports",
+      permission: "view_results" as const,
       description: "Generate tagged reports",
       href: `/exams/${params.id}/tag-reports`,
       color: "bg-blue-50 text-primary",
     },
-  ];
+  ].filter((btn) => can(btn.permission) && canOnItem(access, btn.permission));
 
   return (
     <div className="space-y-6">
@@ -282,14 +394,23 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
         >
           <ArrowLeft className="w-5 h-5" />
         </Link>
-        <div className="min-w-0">
+        <div className="min-w-0 flex-1">
           <h1 className="text-xl sm:text-3xl font-bold text-foreground truncate">
             {exam.title}
           </h1>
           <p className="text-xs sm:text-sm text-muted-foreground truncate">
             ID: {exam.id}
+            {sharedAccess && ` · Shared with you (${SHARE_ACCESS_LABELS[sharedAccess]})`}
           </p>
         </div>
+        {access === "owner" && (
+          <Button variant="outline" className="gap-2 flex-shrink-0" onClick={() => setShowShare(true)}>
+            <Share2 className="w-4 h-4" />
+            <span className="hidden sm:inline">
+              Share{exam.collaboratorIds?.length ? ` (${exam.collaboratorIds.length})` : ""}
+            </span>
+          </Button>
+        )}
       </div>
 
       {/* Exam Information */}
@@ -357,6 +478,8 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
                 }`}
               >
                 {answerKeyStatus.completed}/{answerKeyStatus.total} answers
+                {answerKeyStatus.examSets.length > 0 &&
+                  ` · Sets ${answerKeyStatus.examSets.join(", ")}`}
               </p>
             ) : (
               <p className="font-semibold text-muted-foreground">Not started</p>
@@ -369,6 +492,35 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
             <p className="text-foreground">
               {scannedPaperCount} papers
             </p>
+            {staleResultCount > 0 && (
+              <p className="text-xs text-warning">
+                {staleResultCount} need regrading (key v{answerKeyStatus.keyVersion})
+              </p>
+            )}
+          </div>
+          <div>
+            <label
+              htmlFor="exam_grading_scale"
+              className="block text-muted-foreground font-semibold mb-1"
+            >
+              Grading Scale
+            </label>
+            <select
+              id="exam_grading_scale"
+              value={exam.gradingScaleId || ""}
+              onChange={(e) => handleGradingScaleChange(e.target.value)}
+              disabled={savingScale || !can("manage_exams") || !canOnItem(access, "manage_exams")}
+              className="w-full px-2 py-1 border border-input rounded-md bg-background text-foreground"
+            >
+              <option value="">
+                Class default{classScale ? ` (${classScale.name})` : ""}
+              </option>
+              {gradingScales.map((scale) => (
+                <option key={scale.id} value={scale.id}>
+                  {scale.name}
+                </option>
+              ))}
+            </select>
           </div>
         </div>
       </Card>
@@ -423,6 +575,32 @@ export default function ExamDetails({ params }: ExamDetailsProps) {
           })}
         </div>
       </div>
+
+      <RegradeDialog
+        open={showRegrade}
+        examId={params.id}
+        examTitle={exam.title}
+        choicePoints={exam.choicePoints}
+        onClose={() => setShowRegrade(false)}
+        onApplied={() => setStaleResultCount(0)}
+      />
+
+      <PrintClassSetDialog
+        open={showClassSet}
+        exam={exam}
+        examSets={answerKeyStatus.examSets}
+        onClose={() => setShowClassSet(false)}
+      />
+
+      <ShareDialog
+        open={showShare}
+        itemType="exam"
+        item={{ ...exam, name: exam.title }}
+        onClose={() => setShowShare(false)}
+        onChange={(collaborators) =>
+          setExam({ ...exam, collaborators, collaboratorIds: Object.keys(collaborators) })
+        }
+      />
     </div>
   );
 }
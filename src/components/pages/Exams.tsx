@@ -38,6 +38,8 @@ import {
 import { AnswerKeyService } from "@/services/answerKeyService";
 import { collection, query, where, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { getVisibleOwnerIds } from "@/lib/roles";
+import { isSharedWith } from "@/lib/sharing";
 
 interface ExamWithStatus extends Exam {
   answerKeyStatus?: {
@@ -49,7 +51,7 @@ interface ExamWithStatus extends Exam {
 }
 
 export default function Exams() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const searchParams = useSearchParams();
   const [exams, setExams] = useState<ExamWithStatus[]>([]);
   const [loading, setLoading] = useState(true);
@@ -100,7 +102,7 @@ export default function Exams() {
         return;
       }
 
-      const fetchedExams = await getExams(user.id);
+      const fetchedExams = await getExams(getVisibleOwnerIds(user), user.id);
       // Filter out archived exams
       const activeExams = fetchedExams.filter((exam) => !exam.isArchived);
 
@@ -255,13 +257,15 @@ export default function Exams() {
             Manage your exams and answer keys
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold hover:bg-primary/90 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          Create New Exam
-        </button>
+        {can('manage_exams') && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Create New Exam
+          </button>
+        )}
       </div>
 
       {/* Search */}
@@ -319,7 +323,7 @@ export default function Exams() {
                       ? "No exams found matching your search"
                       : "No exams created yet"}
                   </p>
-                  {!search && (
+                  {!search && can('manage_exams') && (
                     <Button
                       variant="link"
                       className="mt-2"
@@ -333,7 +337,14 @@ export default function Exams() {
             ) : (
               filteredExams.map((exam) => (
                 <TableRow key={exam.id} className="hover:bg-table-row-hover">
-                  <TableCell className="font-medium">{exam.title}</TableCell>
+                  <TableCell className="font-medium">
+                    {exam.title}
+                    {isSharedWith(exam, user?.id) && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-50 text-teal-700">
+                        Shared
+                      </span>
+                    )}
+                  </TableCell>
                   <TableCell className="text-muted-foreground hidden sm:table-cell">
                     {exam.subject}
                   </TableCell>
@@ -383,14 +394,16 @@ export default function Exams() {
                           <Eye className="w-4 h-4" />
                         </Button>
                       </Link>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-muted-foreground hover:text-primary"
-                        onClick={() => setArchiveId(exam.id)}
-                      >
-                        <Archive className="w-4 h-4" />
-                      </Button>
+                      {can('manage_exams') && exam.createdBy === user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-primary"
+                          onClick={() => setArchiveId(exam.id)}
+                        >
+                          <Archive className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -0,0 +1,425 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { ArrowLeft, BookOpen, Download, Settings2, AlertCircle } from 'lucide-react';
+import { getClassById, Class } from '@/services/classService';
+import { getExamsByClassId, Exam } from '@/services/examService';
+import { ScanningService } from '@/services/scanningService';
+import { GradebookService } from '@/services/gradebookService';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { GradebookConfig, ExamScore, GradingScale, TermGrade } from '@/types/gradebook';
+import { computeTermGrade, createDefaultGradebook, getExamPercent } from '@/lib/gradebook';
+import { getCountedResults } from '@/lib/duplicateResults';
+import { GradebookSettingsDialog } from '@/components/modals/GradebookSettingsDialog';
+import { resolveGradingScale } from '@/lib/gradingScales';
+import { getOwnerScope } from '@/lib/sharing';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+
+interface GradebookProps {
+  params: { id: string };
+}
+
+interface GradebookRow {
+  studentId: string;
+  studentName: string;
+  scores: Record<string, ExamScore>; // keyed by exam id
+  grade: TermGrade;
+}
+
+const percentColor = (percent: number) => {
+  if (percent >= 75) return 'text-green-600';
+  if (percent >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+/**
+ * Gradebook
+ * Every student in a class against every exam given to it, with the term grade
+ * computed from the class's weighted categories, transmutation table and grade scale.
+ */
+export default function GradebookPage({ params }: GradebookProps) {
+  const { user } = useAuth();
+  const [classData, setClassData] = useState<Class | null>(null);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [config, setConfig] = useState<GradebookConfig | null>(null);
+  const [scales, setScales] = useState<GradingScale[]>([]);
+  const [scores, setScores] = useState<Record<string, Record<string, ExamScore>>>({});
+  const [loading, setLoading] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
+  const classId = params.id;
+
+  useEffect(() => {
+    const fetchGradebook = async () => {
+      try {
+        const cls = await getClassById(classId);
+        if (!cls) {
+          toast.error('Class not found');
+          return;
+        }
+        setClassData(cls);
+
+        const classExams = await getExamsByClassId(
+          classId,
+          user ? getOwnerScope(user, cls.createdBy) : cls.createdBy,
+          user?.id
+        );
+        setExams(classExams);
+
+        const scaleResult = await GradingScaleService.getGradingScales(user?.id);
+        const availableScales = scaleResult.data || [];
+        setScales(availableScales);
+
+        // A new gradebook reports on the class's grading scale
+        const gradebook = await GradebookService.getGradebook(classId);
+        if (!gradebook.success) {
+          toast.error(gradebook.error || 'Failed to load gradebook rules');
+        }
+        const classScale = resolveGradingScale(availableScales, undefined, cls.gradingScaleId);
+        setConfig(gradebook.data || createDefaultGradebook(classId, classExams, {
+          id: classScale.id,
+          name: classScale.name,
+          bands: classScale.bands,
+        }));
+
+        const byStudent: Record<string, Record<string, ExamScore>> = {};
+        for (const exam of classExams) {
+          const scanned = await ScanningService.getScannedResultsByExamId(exam.id);
+          if (!scanned.success || !scanned.data) continue;
+          for (const result of getCountedResults(scanned.data)) {
+            if (result.isNullId) continue;
+            byStudent[result.studentId] = {
+              ...byStudent[result.studentId],
+              [exam.id]: { score: result.score, maxScore: result.maxScore ?? result.totalQuestions },
+            };
+          }
+        }
+        setScores(byStudent);
+      } catch (error) {
+        console.error('Error fetching gradebook:', error);
+        toast.error('Failed to load gradebook');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchGradebook();
+  }, [classId, user?.id]);
+
+  // An exam is recorded once anyone in the class has a result for it
+  const recordedExamIds = useMemo(
+    () => exams.filter(exam => Object.values(scores).some(s => s[exam.id])).map(exam => exam.id),
+    [exams, scores]
+  );
+
+  const rows = useMemo<GradebookRow[]>(() => {
+    if (!classData || !config) return [];
+    return classData.students
+      .map(student => {
+        const studentScores = scores[student.student_id] || {};
+        return {
+          studentId: student.student_id,
+          studentName: `${student.last_name}, ${student.first_name}`,
+          scores: studentScores,
+          grade: computeTermGrade(config, studentScores, recordedExamIds),
+        };
+      })
+      .sort((a, b) => a.studentName.localeCompare(b.studentName));
+  }, [classData, config, scores, recordedExamIds]);
+
+  // Exams grouped under their category, uncounted exams last
+  const columns = useMemo(() => {
+    if (!config) return [];
+    const groups = config.categories.map(category => ({
+      category,
+      exams: exams.filter(exam => category.examIds.includes(exam.id)),
+    }));
+    const assigned = new Set(config.categories.flatMap(c => c.examIds));
+    const uncounted = exams.filter(exam => !assigned.has(exam.id));
+    return [...groups, ...(uncounted.length > 0 ? [{ category: null, exams: uncounted }] : [])];
+  }, [config, exams]);
+
+  const graded = rows.filter(row => row.grade.termGrade !== null);
+  const classAverage = graded.length > 0
+    ? Math.round((graded.reduce((sum, row) => sum + (row.grade.termGrade || 0), 0) / graded.length) * 100) / 100
+    : null;
+  const passingCount = graded.filter(row => row.grade.passed).length;
+  const unassignedCount = columns.find(group => !group.category)?.exams.length || 0;
+
+  const handleExport = () => {
+    if (!classData || !config) return;
+
+    const orderedExams = columns.flatMap(group => group.exams);
+    const header = [
+      'Student ID',
+      'Student Name',
+      ...orderedExams.map(exam => `${exam.title} (%)`),
+      ...config.categories.map(c => `${c.name} ${c.weight}% (%)`),
+      'Initial Grade',
+      'Term Grade',
+      'Grade',
+      'Remarks',
+    ];
+    const data = rows.map(row => [
+      row.studentId,
+      row.studentName,
+      ...orderedExams.map(exam => {
+        if (row.scores[exam.id]) return getExamPercent(row.scores[exam.id]);
+        return recordedExamIds.includes(exam.id) ? 0 : '';
+      }),
+      ...config.categories.map(c => row.grade.categories[c.id]?.percent ?? ''),
+      row.grade.initialGrade ?? '',
+      row.grade.termGrade ?? '',
+      row.grade.label,
+      row.grade.passed === null ? '' : row.grade.passed ? 'Passed' : 'Failed',
+    ]);
+    const rulesRow = [
+      'Rules',
+      `Transmutation: ${config.transmutation?.name || 'None'}; Scale: ${config.scale.name}`,
+    ];
+
+    const worksheet = XLSX.utils.aoa_to_sheet([header, ...data, [], rulesRow]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Term Grades');
+    XLSX.writeFile(workbook, `${classData.class_name}_term_grades.xlsx`);
+    toast.success('Term grades downloaded');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          <p className="text-muted-foreground">Loading gradebook...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!classData || !config) {
+    return (
+      <div className="space-y-6">
+        <Link href="/classes" className="p-2 hover:bg-muted rounded-md transition-colors inline-block">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <p className="text-foreground">Class not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3 sm:gap-4">
+          <Link href="/classes" className="p-2 hover:bg-muted rounded-md transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div className="min-w-0">
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground flex items-center gap-2">
+              <BookOpen className="w-6 h-6 flex-shrink-0" />
+              Gradebook
+            </h1>
+            <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+              {classData.class_name} · {classData.course_subject} · {classData.section_block}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="flex items-center justify-center gap-2 px-4 py-2 border rounded-md font-semibold hover:bg-muted transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold hover:bg-primary/90 transition-colors whitespace-nowrap"
+          >
+            <Settings2 className="w-4 h-4" />
+            Rules
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card className="p-4 border">
+          <p className="text-xs text-muted-foreground">Students</p>
+          <p className="text-2xl font-bold">{rows.length}</p>
+        </Card>
+        <Card className="p-4 border">
+          <p className="text-xs text-muted-foreground">Exams recorded</p>
+          <p className="text-2xl font-bold">{recordedExamIds.length}/{exams.length}</p>
+        </Card>
+        <Card className="p-4 border">
+          <p className="text-xs text-muted-foreground">Class average</p>
+          <p className="text-2xl font-bold">{classAverage ?? '—'}</p>
+        </Card>
+        <Card className="p-4 border">
+          <p className="text-xs text-muted-foreground">Passing</p>
+          <p className="text-2xl font-bold">{graded.length > 0 ? `${passingCount}/${graded.length}` : '—'}</p>
+        </Card>
+      </div>
+
+      {/* Rules summary */}
+      <Card className="p-4 border text-sm flex flex-wrap gap-x-6 gap-y-1">
+        {config.categories.map(category => (
+          <span key={category.id}>
+            <span className="font-semibold">{category.name}</span> {category.weight}%
+            {category.dropLowest > 0 && (
+              <span className="text-muted-foreground"> · drop lowest {category.dropLowest}</span>
+            )}
+          </span>
+        ))}
+        <span className="text-muted-foreground">Transmutation: {config.transmutation?.name || 'None'}</span>
+        <span className="text-muted-foreground">Scale: {config.scale.name}</span>
+      </Card>
+
+      {unassignedCount > 0 && (
+        <Card className="p-4 border border-amber-200 bg-amber-50 text-sm text-amber-800 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {unassignedCount} exam{unassignedCount !== 1 ? 's are' : ' is'} not in a category and {unassignedCount !== 1 ? "don't" : "doesn't"} count
+          toward term grades. Open Rules to assign {unassignedCount !== 1 ? 'them' : 'it'}.
+        </Card>
+      )}
+
+      {/* Grid */}
+      {rows.length === 0 ? (
+        <Card className="p-8 border text-center">
+          <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">This class has no students yet.</p>
+        </Card>
+      ) : (
+        <Card className="border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50 text-xs text-muted-foreground">
+                <th className="sticky left-0 bg-muted px-3 py-2 text-left" rowSpan={2}>Student</th>
+                {columns.map(group => group.exams.length > 0 && (
+                  <th
+                    key={group.category?.id || 'uncounted'}
+                    colSpan={group.exams.length}
+                    className="px-3 py-2 text-center border-l"
+                  >
+                    {group.category ? `${group.category.name} (${group.category.weight}%)` : 'Not counted'}
+                  </th>
+                ))}
+                <th colSpan={config.categories.length} className="px-3 py-2 text-center border-l">Category %</th>
+                <th rowSpan={2} className="px-3 py-2 text-right border-l">Initial</th>
+                <th rowSpan={2} className="px-3 py-2 text-right">Term</th>
+                <th rowSpan={2} className="px-3 py-2 text-center">Grade</th>
+              </tr>
+              <tr className="border-b bg-muted/50 text-xs text-muted-foreground">
+                {columns.flatMap(group => group.exams.map((exam, i) => (
+                  <th
+                    key={exam.id}
+                    className={`px-3 py-2 text-right font-medium whitespace-nowrap ${i === 0 ? 'border-l' : ''} ${group.category ? '' : 'opacity-60'}`}
+                    title={exam.title}
+                  >
+                    <Link href={`/exams/${exam.id}`} className="hover:underline">
+                      {exam.title.length > 16 ? `${exam.title.slice(0, 15)}…` : exam.title}
+                    </Link>
+                  </th>
+                )))}
+                {config.categories.map((category, i) => (
+                  <th key={category.id} className={`px-3 py-2 text-right font-medium whitespace-nowrap ${i === 0 ? 'border-l' : ''}`}>
+                    {category.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.studentId} className="border-b last:border-0 hover:bg-muted/30">
+                  <td className="sticky left-0 bg-background px-3 py-2 whitespace-nowrap">
+                    <span className="font-medium">{row.studentName}</span>
+                    <span className="text-xs text-muted-foreground ml-2 font-mono">{row.studentId}</span>
+                  </td>
+                  {columns.flatMap(group => group.exams.map((exam, i) => {
+                    const score = row.scores[exam.id];
+                    const dropped = group.category && row.grade.categories[group.category.id]?.dropped.includes(exam.id);
+                    const border = i === 0 ? 'border-l' : '';
+                    if (!score) {
+                      const missing = recordedExamIds.includes(exam.id) && group.category;
+                      return (
+                        <td
+                          key={exam.id}
+                          className={`px-3 py-2 text-right ${border} ${missing ? 'text-red-600' : 'text-muted-foreground'} ${dropped ? 'line-through opacity-60' : ''}`}
+                          title={missing ? 'No result; counted as 0' : 'Not given yet'}
+                        >
+                          {missing ? '0' : '—'}
+                        </td>
+                      );
+                    }
+                    const percent = getExamPercent(score);
+                    return (
+                      <td
+                        key={exam.id}
+                        className={`px-3 py-2 text-right ${border} ${group.category ? percentColor(percent) : 'text-muted-foreground'} ${dropped ? 'line-through opacity-60' : ''}`}
+                        title={`${score.score}/${score.maxScore}${dropped ? ' · dropped' : ''}`}
+                      >
+                        {Math.round(percent)}
+                      </td>
+                    );
+                  }))}
+                  {config.categories.map((category, i) => {
+                    const categoryGrade = row.grade.categories[category.id];
+                    return (
+                      <td key={category.id} className={`px-3 py-2 text-right ${i === 0 ? 'border-l' : ''}`}>
+                        {categoryGrade ? categoryGrade.percent : '—'}
+                      </td>
+                    );
+                  })}
+                  <td className="px-3 py-2 text-right border-l">{row.grade.initialGrade ?? '—'}</td>
+                  <td className="px-3 py-2 text-right font-semibold">{row.grade.termGrade ?? '—'}</td>
+                  <td className="px-3 py-2 text-center">
+                    {row.grade.label ? (
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-bold ${
+                          row.grade.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        }`}
+                      >
+                        {row.grade.label}
+                      </span>
+                    ) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      {/* Information Card */}
+      <Card className="p-4 sm:p-6 border bg-blue-50 border-blue-200">
+        <h3 className="font-semibold text-foreground mb-2 flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-blue-600" />
+          How Term Grades Are Computed
+        </h3>
+        <ul className="text-sm text-foreground space-y-2 ml-7">
+          <li>• Each category averages its exam percentages, after dropping the lowest scores it is set to drop</li>
+          <li>• Exams nobody in the class has a result for yet are left out; a missing result on a given exam counts as 0</li>
+          <li>• The initial grade is the weighted average of the categories, then transmuted and reported on the grade scale</li>
+          <li>• Only the latest attempt of a rescanned student counts</li>
+          <li>• Export downloads the full grid with initial grades, term grades and remarks for the registrar</li>
+        </ul>
+      </Card>
+
+      <GradebookSettingsDialog
+        open={showSettings}
+        config={config}
+        exams={exams}
+        scales={scales}
+        className={classData.class_name}
+        onClose={() => setShowSettings(false)}
+        onSaved={setConfig}
+      />
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import { Card } from '@/components/ui/card';
 import { ArrowLeft, BarChart3, TrendingUp, AlertCircle } from 'lucide-react';
 import { getExamById, Exam } from '@/services/examService';
 import { AnswerKeyService } from '@/services/answerKeyService';
+import { toMasterOrder } from '@/lib/examSets';
+import { scoreAnswers, getItemRules, isCreditedAnswer } from '@/lib/scoring';
+import { getCountedResults } from '@/lib/duplicateResults';
 import { ScanningService } from '@/services/scanningService';
 import { AnswerChoice } from '@/types/scanning';
 import { toast } from 'sonner';
@@ -45,14 +48,17 @@ export default function ItemAnalysisPage({ params }: ItemAnalysisProps) {
         // Fetch answer key
         const akResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
         let answerKey: AnswerChoice[] = [];
-        if (akResult.success && akResult.data) {
-          answerKey = akResult.data.answers;
+        const masterAnswerKey = akResult.success ? akResult.data : undefined;
+        if (masterAnswerKey) {
+          answerKey = masterAnswerKey.answers;
         }
 
-        // Fetch real scanned results
+        // Fetch real scanned results, with shuffled sets mapped back to master question order
         const scannedResult = await ScanningService.getScannedResultsByExamId(examId);
         const validResults = (scannedResult.success && scannedResult.data)
-          ? scannedResult.data.filter(r => !r.isNullId)
+          ? getCountedResults(scannedResult.data)
+              .filter(r => !r.isNullId)
+              .map(r => ({ ...r, answers: toMasterOrder(r.answers, masterAnswerKey, r.examSet, '') }))
           : [];
         setTotalPapers(validResults.length);
 
@@ -64,15 +70,12 @@ export default function ItemAnalysisPage({ params }: ItemAnalysisProps) {
         }
 
         // Sort students by total score for discrimination calculation
-        const studentScores = validResults.map(r => {
-          let score = 0;
-          r.answers.forEach((ans, idx) => {
-            if (answerKey[idx] && ans && ans.toUpperCase() === answerKey[idx].toUpperCase()) {
-              score++;
-            }
-          });
-          return { ...r, calculatedScore: score };
-        }).sort((a, b) => b.calculatedScore - a.calculatedScore);
+        // (answers are already in master order, so score against the master key)
+        const itemRules = getItemRules(masterAnswerKey, undefined, examData.choicePoints);
+        const studentScores = validResults.map(r => ({
+          ...r,
+          calculatedScore: scoreAnswers(r.answers, masterAnswerKey, undefined, examData.choicePoints).score,
+        })).sort((a, b) => b.calculatedScore - a.calculatedScore);
 
         // Upper 27% and lower 27% groups for discrimination
         const groupSize = Math.max(1, Math.ceil(studentScores.length * 0.27));
@@ -103,7 +106,7 @@ export default function ItemAnalysisPage({ params }: ItemAnalysisProps) {
                 distribution[upperAns]++;
               }
               totalResponded++;
-              if (correctAnswer && upperAns === correctAnswer.toUpperCase()) {
+              if (isCreditedAnswer(upperAns, itemRules[i])) {
                 correctCount++;
               }
             }
@@ -121,14 +124,14 @@ export default function ItemAnalysisPage({ params }: ItemAnalysisProps) {
           let upperCorrect = 0;
           upperGroup.forEach(r => {
             const ans = r.answers[i];
-            if (ans && correctAnswer && ans.toUpperCase() === correctAnswer.toUpperCase()) {
+            if (isCreditedAnswer(ans, itemRules[i])) {
               upperCorrect++;
             }
           });
           let lowerCorrect = 0;
           lowerGroup.forEach(r => {
             const ans = r.answers[i];
-            if (ans && correctAnswer && ans.toUpperCase() === correctAnswer.toUpperCase()) {
+            if (isCreditedAnswer(ans, itemRules[i])) {
               lowerCorrect++;
             }
           });
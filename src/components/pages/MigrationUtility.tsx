@@ -7,9 +7,10 @@ import {
   runAllMigrations,
   migrateExistingUsers,
   migrateExamsToInstructorId,
-  migrateClassesToInstructorId 
+  migrateClassesToInstructorId,
+  migrateEmbeddedRosters
 } from '@/services/migrationService';
-import { Database, Users, FileText, BookOpen, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Database, Users, FileText, BookOpen, GraduationCap, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 
 interface MigrationLog {
   type: 'info' | 'success' | 'error';
@@ -100,9 +101,34 @@ export default function MigrationUtility() {
     setIsRunning(false);
   };
 
+  const handleMigrateRosters = async () => {
+    setIsRunning(true);
+    addLog('info', 'Starting class roster migration...');
+    
+    try {
+      const result = await migrateEmbeddedRosters();
+      
+      if (result.success) {
+        addLog('success', `✓ Roster migration complete! Migrated: ${result.migratedCount}, Skipped: ${result.skippedCount}`);
+      } else {
+        addLog('error', `✗ Roster migration had errors. Check console for details.`);
+      }
+      
+      if (result.errors.length > 0) {
+        result.errors.forEach(err => {
+          addLog('error', `Error for class ${err.userId}: ${err.error}`);
+        });
+      }
+    } catch (error: any) {
+      addLog('error', `Fatal error: ${error.message}`);
+    }
+    
+    setIsRunning(false);
+  };
+
   const handleRunAll = async () => {
     setIsRunning(true);
-    addLog('info', 'Starting full migration (users, exams, and classes)...');
+    addLog('info', 'Starting full migration (users, exams, classes, and rosters)...');
     
     try {
       await runAllMigrations();
@@ -225,6 +251,32 @@ export default function MigrationUtility() {
           </Button>
         </Card>
 
+        <Card className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-teal-50 flex items-center justify-center">
+              <GraduationCap className="w-5 h-5 text-teal-600" />
+            </div>
+            <h2 className="text-lg font-bold text-foreground">Migrate Class Rosters</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Move students stored inside class documents to student records and enrollments.
+          </p>
+          <Button
+            onClick={handleMigrateRosters}
+            disabled={isRunning}
+            className="w-full"
+          >
+            {isRunning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Running...
+              </>
+            ) : (
+              'Migrate Class Rosters'
+            )}
+          </Button>
+        </Card>
+
         <Card className="p-6">
           <div className="flex items-center gap-3 mb-4">
             <div className="w-10 h-10 rounded-lg bg-orange-50 flex items-center justify-center">
@@ -233,7 +285,7 @@ export default function MigrationUtility() {
             <h2 className="text-lg font-bold text-foreground">Run All Migrations</h2>
           </div>
           <p className="text-sm text-muted-foreground mb-4">
-            Run all migrations in sequence (users, exams, and classes).
+            Run all migrations in sequence (users, exams, classes, and rosters).
           </p>
           <Button
             onClick={handleRunAll}
@@ -26,6 +26,9 @@ import { ArrowLeft, Loader2, FileText } from "lucide-react";
 import { z } from "zod";
 import { createExam } from "@/services/examService";
 import { getClasses, type Class } from "@/services/classService";
+import { StudentIdPolicyService } from "@/services/studentIdPolicyService";
+import { countIdDigits, getIdExample } from "@/lib/studentIdPolicy";
+import { MIN_ID_DIGITS } from "@/lib/sheetTemplates";
 
 const examSchema = z.object({
   title: z
@@ -75,6 +78,16 @@ export default function NewExam() {
     date: new Date().toISOString().split("T")[0],
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
+  const policyDigits = Math.max(MIN_ID_DIGITS, countIdDigits(idPolicy));
+
+  // Size the ID grid for the institution's Student IDs
+  useEffect(() => {
+    StudentIdPolicyService.getPolicy().then((policy) => {
+      setIdPolicy(policy);
+      setFormData((prev) => ({ ...prev, student_id_length: Math.max(MIN_ID_DIGITS, countIdDigits(policy)) }));
+    });
+  }, []);
 
   useEffect(() => {
     const fetchClassesData = async () => {
@@ -363,7 +376,9 @@ export default function NewExam() {
                 }
                 className={errors.student_id_length ? "border-destructive" : ""}
               />
-              <p className="text-xs text-muted-foreground">Default: 9 digits</p>
+              <p className="text-xs text-muted-foreground">
+                Default: {policyDigits} digits, for Student IDs like {getIdExample(idPolicy)}
+              </p>
               {errors.student_id_length && (
                 <p className="text-sm text-destructive">
                   {errors.student_id_length}
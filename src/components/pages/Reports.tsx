@@ -1,103 +1,447 @@
 'use client';
 
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
 import { Card } from '@/components/ui/card';
-import { BarChart3, TrendingUp, PieChart } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { BarChart3, TrendingUp, PieChart, Download, FileText, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReportingService, DashboardFilters } from '@/services/reportingService';
+import { DashboardReport } from '@/lib/dashboardReport';
+import { getClasses, Class } from '@/services/classService';
+import { getArchivedExams, getExams } from '@/services/examService';
+import { getGradeColor } from '@/lib/gradingScales';
+import { getVisibleOwnerIds } from '@/lib/roles';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+
+const ALL = 'all';
+
+const examsPerMonthConfig = {
+  exams: { label: 'Exams', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const classAverageConfig = {
+  average_score: { label: 'Average (%)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const histogramConfig = {
+  count: { label: 'Students', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+const trendConfig = {
+  average_score: { label: 'Average (%)', color: 'hsl(var(--primary))' },
+  pass_rate: { label: 'Pass Rate (%)', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
 
 export default function Reports() {
+  const { user } = useAuth();
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [subjects, setSubjects] = useState<string[]>([]);
+  const [filters, setFilters] = useState<DashboardFilters>({});
+  const [report, setReport] = useState<DashboardReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Filter options
+  useEffect(() => {
+    if (!user?.id) return;
+    const loadOptions = async () => {
+      try {
+        const [classList, active, archived] = await Promise.all([
+          getClasses(getVisibleOwnerIds(user), user.id),
+          getExams(getVisibleOwnerIds(user), user.id),
+          getArchivedExams(getVisibleOwnerIds(user), user.id),
+        ]);
+        setClasses(classList);
+        setSubjects(
+          Array.from(new Set([...active, ...archived].map(e => e.subject).filter(Boolean))).sort()
+        );
+      } catch (error) {
+        console.error('Error loading report filters:', error);
+      }
+    };
+    loadOptions();
+  }, [user?.id, user?.role]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const loadReport = async () => {
+      setLoading(true);
+      const result = await ReportingService.generateDashboardReport(getVisibleOwnerIds(user), filters, user.id);
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load reports');
+      }
+      setLoading(false);
+    };
+    loadReport();
+  }, [user?.id, user?.role, filters]);
+
+  const updateFilter = <K extends keyof DashboardFilters>(key: K, value: DashboardFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const examsThisMonth = useMemo(() => {
+    const month = new Date().toISOString().slice(0, 7);
+    return report?.exams_per_month.find(m => m.month === month)?.exams || 0;
+  }, [report]);
+
+  const trendData = useMemo(
+    () => (report?.score_trend || []).map(t => ({ ...t, label: t.exam_title })),
+    [report]
+  );
+
+  const handleExport = () => {
+    if (!report) return;
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['Metric', 'Value'],
+      ['Exams', report.summary.total_exams],
+      ['Results', report.summary.total_results],
+      ['Average Score (%)', report.summary.average_score],
+      ['Pass Rate (%)', report.summary.pass_rate],
+    ]), 'Summary');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+      report.score_trend.map(t => ({
+        Exam: t.exam_title,
+        Date: t.date,
+        Results: t.results,
+        'Average (%)': t.average_score,
+        'Pass Rate (%)': t.pass_rate,
+      }))
+    ), 'Exams');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+      report.class_averages.map(c => ({ Class: c.class_name, Results: c.results, 'Average (%)': c.average_score }))
+    ), 'Classes');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+      report.score_histogram.map(h => ({ 'Score Range (%)': h.range, Students: h.count }))
+    ), 'Distribution');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+      report.grade_distribution.map(b => ({ Grade: b.label, 'From (%)': b.min, Passing: b.passed ? 'Yes' : 'No', Results: b.count }))
+    ), 'Grades');
+    XLSX.writeFile(workbook, `reports_${new Date().toISOString().split('T')[0]}.xlsx`);
+    toast.success('Report exported');
+  };
+
+  const hasResults = !!report && report.summary.total_results > 0;
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Reports</h1>
-        <p className="text-muted-foreground mt-1">Analytics and insights about exam performance.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Reports</h1>
+          <p className="text-muted-foreground mt-1">Analytics and insights about exam performance.</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={!report || report.summary.total_exams === 0}
+          className="flex items-center gap-2 px-4 py-2 border rounded-md font-semibold text-sm hover:bg-muted/30 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Download Excel
+        </button>
       </div>
 
-      {/* Analytics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <Card className="p-6 border">
-          <div className="flex items-start justify-between">
-            <div>
-              <p className="text-sm font-medium text-muted-foreground">Exams This Month</p>
-              <p className="text-3xl font-bold text-foreground mt-2">0</p>
-              <p className="text-xs text-muted-foreground mt-2">No data yet</p>
-            </div>
-            <div className="w-12 h-12 rounded-lg bg-blue-50 flex items-center justify-center flex-shrink-0">
-              <BarChart3 className="w-6 h-6 text-blue-600" />
-            </div>
+      {/* Filters */}
+      <Card className="p-4 border">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="class">Class</Label>
+            <Select
+              value={filters.classId || ALL}
+              onValueChange={(value) => updateFilter('classId', value === ALL ? undefined : value)}
+            >
+              <SelectTrigger id="class">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Classes</SelectItem>
+                {classes.map(cls => (
+                  <SelectItem key={cls.id} value={cls.id}>
+                    {cls.class_name} - {cls.section_block}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-        </Card>
-
-        <Card className="p-6 border">
-          <div className="flex items-start justify-between">
-            <div>
-              <p className="text-sm font-medium text-muted-foreground">Class Average</p>
-              <p className="text-3xl font-bold text-foreground mt-2">0%</p>
-              <p className="text-xs text-muted-foreground mt-2">No results yet</p>
-            </div>
-            <div className="w-12 h-12 rounded-lg bg-green-50 flex items-center justify-center flex-shrink-0">
-              <TrendingUp className="w-6 h-6 text-green-600" />
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="subject">Subject</Label>
+            <Select
+              value={filters.subject || ALL}
+              onValueChange={(value) => updateFilter('subject', value === ALL ? undefined : value)}
+            >
+              <SelectTrigger id="subject">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Subjects</SelectItem>
+                {subjects.map(subject => (
+                  <SelectItem key={subject} value={subject}>{subject}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-        </Card>
-
-        <Card className="p-6 border">
-          <div className="flex items-start justify-between">
-            <div>
-              <p className="text-sm font-medium text-muted-foreground">Pass Rate</p>
-              <p className="text-3xl font-bold text-foreground mt-2">0%</p>
-              <p className="text-xs text-muted-foreground mt-2">No data yet</p>
-            </div>
-            <div className="w-12 h-12 rounded-lg bg-purple-50 flex items-center justify-center flex-shrink-0">
-              <PieChart className="w-6 h-6 text-purple-600" />
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="examType">Exam Type</Label>
+            <Select
+              value={filters.examType || ALL}
+              onValueChange={(value) =>
+                updateFilter('examType', value === ALL ? undefined : (value as 'board' | 'diagnostic'))
+              }
+            >
+              <SelectTrigger id="examType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Types</SelectItem>
+                <SelectItem value="board">Board</SelectItem>
+                <SelectItem value="diagnostic">Diagnostic</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
-        </Card>
-      </div>
-
-      {/* Chart Placeholders */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card className="p-6 border">
-          <h3 className="font-semibold text-foreground mb-4">Grade Distribution</h3>
-          <div className="h-64 bg-muted/30 rounded-lg flex items-center justify-center">
-            <div className="text-center">
-              <BarChart3 className="w-12 h-12 mx-auto mb-2 text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">Bar Chart Placeholder</p>
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="startDate">From</Label>
+            <Input
+              id="startDate"
+              type="date"
+              value={filters.startDate || ''}
+              max={filters.endDate}
+              onChange={(e) => updateFilter('startDate', e.target.value)}
+            />
           </div>
-        </Card>
-
-        <Card className="p-6 border">
-          <h3 className="font-semibold text-foreground mb-4">Score Trend</h3>
-          <div className="h-64 bg-muted/30 rounded-lg flex items-center justify-center">
-            <div className="text-center">
-              <TrendingUp className="w-12 h-12 mx-auto mb-2 text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">Line Chart Placeholder</p>
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="endDate">To</Label>
+            <Input
+              id="endDate"
+              type="date"
+              value={filters.endDate || ''}
+              min={filters.startDate}
+              onChange={(e) => updateFilter('endDate', e.target.value)}
+            />
           </div>
-        </Card>
-      </div>
-
-      {/* Performance by Question */}
-      <Card className="p-6 border">
-        <h3 className="font-semibold text-foreground mb-4">Performance by Question</h3>
-        <div className="text-center py-8 text-muted-foreground">
-          <p className="text-sm">No data available yet. Create exams and grade answers to see performance analysis.</p>
         </div>
       </Card>
 
-      {/* Export Options */}
-      <Card className="p-6 border bg-blue-50 border-blue-200">
-        <h3 className="font-semibold text-foreground mb-3">Generate Report</h3>
-        <p className="text-sm text-muted-foreground mb-4">Export reports in various formats for institutional records.</p>
-        <div className="flex gap-2">
-          <button className="px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold text-sm hover:bg-primary/90">
-            Download PDF
-          </button>
-          <button className="px-4 py-2 border rounded-md font-semibold text-sm hover:bg-muted/30">
-            Download Excel
-          </button>
+      {loading && !report ? (
+        <div className="flex items-center justify-center py-16 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin mr-2" />
+          Loading reports...
         </div>
-      </Card>
+      ) : (
+        <>
+          {/* Analytics Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <Card className="p-6 border">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Exams This Month</p>
+                  <p className="text-3xl font-bold text-foreground mt-2">{examsThisMonth}</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {report?.summary.total_exams || 0} exams in the selected range
+                  </p>
+                </div>
+                <div className="w-12 h-12 rounded-lg bg-blue-50 flex items-center justify-center flex-shrink-0">
+                  <BarChart3 className="w-6 h-6 text-blue-600" />
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-6 border">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Class Average</p>
+                  <p className="text-3xl font-bold text-foreground mt-2">{report?.summary.average_score || 0}%</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {hasResults ? `Across ${report!.summary.total_results} results` : 'No results yet'}
+                  </p>
+                </div>
+                <div className="w-12 h-12 rounded-lg bg-green-50 flex items-center justify-center flex-shrink-0">
+                  <TrendingUp className="w-6 h-6 text-green-600" />
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-6 border">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Pass Rate</p>
+                  <p className="text-3xl font-bold text-foreground mt-2">{report?.summary.pass_rate || 0}%</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {hasResults ? 'Scores of 60% and above' : 'No data yet'}
+                  </p>
+                </div>
+                <div className="w-12 h-12 rounded-lg bg-purple-50 flex items-center justify-center flex-shrink-0">
+                  <PieChart className="w-6 h-6 text-purple-600" />
+                </div>
+              </div>
+            </Card>
+          </div>
+
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="p-6 border">
+              <h3 className="font-semibold text-foreground mb-4">Exams per Month</h3>
+              {report && report.exams_per_month.length > 0 ? (
+                <ChartContainer config={examsPerMonthConfig} className="h-64 w-full">
+                  <BarChart data={report.exams_per_month}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickFormatter={formatMonth} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatMonth(String(value))} />} />
+                    <Bar dataKey="exams" fill="var(--color-exams)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <EmptyChart message="No exams in the selected range." />
+              )}
+            </Card>
+
+            <Card className="p-6 border">
+              <h3 className="font-semibold text-foreground mb-4">Class Averages</h3>
+              {report && report.class_averages.length > 0 ? (
+                <ChartContainer config={classAverageConfig} className="h-64 w-full">
+                  <BarChart data={report.class_averages}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="class_name" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="average_score" fill="var(--color-average_score)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <EmptyChart message="No graded results yet." />
+              )}
+            </Card>
+
+            <Card className="p-6 border">
+              <h3 className="font-semibold text-foreground mb-4">Grade Distribution</h3>
+              {hasResults ? (
+                <>
+                  <ChartContainer config={histogramConfig} className="h-64 w-full">
+                    <BarChart data={report!.score_histogram}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="range" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => `${value}%`} />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                  <div className="flex flex-wrap gap-2 mt-4 text-center text-xs">
+                    {report!.grade_distribution.map(band => (
+                      <div
+                        key={band.label}
+                        className={`flex-1 min-w-[4.5rem] rounded-md p-2 ${getGradeColor(band.label, {
+                          name: report!.grade_scale,
+                          bands: report!.grade_distribution,
+                        })}`}
+                      >
+                        <p className="text-lg font-bold">{band.count}</p>
+                        <p className="opacity-80">{band.label} · {band.min}%+</p>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">Grades on the {report!.grade_scale} scale</p>
+                </>
+              ) : (
+                <EmptyChart message="No graded results yet." />
+              )}
+            </Card>
+
+            <Card className="p-6 border">
+              <h3 className="font-semibold text-foreground mb-4">Score Trend</h3>
+              {trendData.length > 0 ? (
+                <ChartContainer config={trendConfig} className="h-64 w-full">
+                  <LineChart data={trendData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => payload?.[0]?.payload?.label || ''}
+                        />
+                      }
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line type="monotone" dataKey="average_score" stroke="var(--color-average_score)" strokeWidth={2} />
+                    <Line type="monotone" dataKey="pass_rate" stroke="var(--color-pass_rate)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              ) : (
+                <EmptyChart message="No graded results yet." />
+              )}
+            </Card>
+          </div>
+
+          {/* Performance by Exam */}
+          <Card className="p-6 border">
+            <h3 className="font-semibold text-foreground mb-4">Performance by Exam</h3>
+            {trendData.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Exam</th>
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium text-right">Results</th>
+                      <th className="py-2 pr-4 font-medium text-right">Average</th>
+                      <th className="py-2 font-medium text-right">Pass Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...trendData].reverse().map(t => (
+                      <tr key={t.exam_id} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium text-foreground">{t.exam_title}</td>
+                        <td className="py-2 pr-4 text-muted-foreground">{t.date}</td>
+                        <td className="py-2 pr-4 text-right">{t.results}</td>
+                        <td className="py-2 pr-4 text-right">{t.average_score}%</td>
+                        <td className="py-2 text-right">{t.pass_rate}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <p className="text-sm">No data available yet. Create exams and grade answers to see performance analysis.</p>
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+function EmptyChart({ message }: { message: string }) {
+  return (
+    <div className="h-64 bg-muted/30 rounded-lg flex items-center justify-center">
+      <div className="text-center">
+        <FileText className="w-12 h-12 mx-auto mb-2 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{message}</p>
+      </div>
     </div>
   );
 }
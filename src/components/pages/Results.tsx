@@ -15,7 +15,8 @@ import {
   Check,
   FileSpreadsheet,
   Table2,
-  Info
+  Info,
+  Link2
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { getClasses, Class } from '@/services/classService';
@@ -25,9 +26,20 @@ import {
   query, 
   where, 
   getDocs, 
-  Timestamp 
+  Timestamp,
+  QuerySnapshot,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { auth, db } from '@/lib/firebase';
+import { getCountedResults } from '@/lib/duplicateResults';
+import { getVisibleOwnerIds } from '@/lib/roles';
+import { DEFAULT_GRADING_SCALE, getGradeColor, getLetterGrade } from '@/lib/gradingScales';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { GradingScale } from '@/types/gradebook';
+import { ShareResultLinksDialog } from '@/components/modals/ShareResultLinksDialog';
+import { ScannedResult } from '@/types/scanning';
+import { DeliveryStatus, EmailBatch } from '@/types/notifications';
+import { DEFAULT_RESULT_EMAIL_SUBJECT, isValidEmail } from '@/lib/resultEmail';
+import { toast } from 'sonner';
 import jsPDF from 'jspdf';
 
 // Types for our component
@@ -57,35 +69,23 @@ interface StudentResult {
   email?: string;
 }
 
-// Calculate letter grade from percentage
-function calculateLetterGrade(percentage: number): string {
-  if (percentage >= 90) return 'A';
-  if (percentage >= 85) return 'A';
-  if (percentage >= 80) return 'B+';
-  if (percentage >= 75) return 'B';
-  if (percentage >= 70) return 'C';
-  if (percentage >= 65) return 'D';
-  return 'F';
+// One result per student (the latest attempt), so rescanned papers are not counted twice
+function toCountedResults(snapshot: QuerySnapshot): ScannedResult[] {
+  return getCountedResults(snapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      ...data,
+      scannedAt: (data.scannedAt as Timestamp)?.toDate?.()?.toISOString() || data.scannedAt || '',
+    } as ScannedResult;
+  }));
 }
 
-// Get grade color class
-function getGradeColorClass(grade: string): string {
-  switch (grade) {
-    case 'A':
-      return 'bg-green-100 text-green-700';
-    case 'B+':
-    case 'B':
-      return 'bg-lime-100 text-lime-700';
-    case 'C':
-      return 'bg-yellow-100 text-yellow-700';
-    case 'D':
-      return 'bg-orange-100 text-orange-700';
-    case 'F':
-      return 'bg-red-100 text-red-700';
-    default:
-      return 'bg-gray-100 text-gray-700';
-  }
-}
+const DELIVERY_STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-yellow-100 text-yellow-700',
+};
 
 // Confirmation Modal Component
 function ConfirmationModal({ 
@@ -165,38 +165,92 @@ function SendResultsPanel({
   isOpen,
   onClose,
   className,
+  examId,
   students,
-  onSend
+  gradingScale
 }: {
   isOpen: boolean;
   onClose: () => void;
   className: string;
+  examId: string;
   students: StudentResult[];
-  onSend: () => void;
+  gradingScale: GradingScale;
 }) {
   const [emails, setEmails] = useState<{ [studentId: string]: string }>({});
+  const [subject, setSubject] = useState(DEFAULT_RESULT_EMAIL_SUBJECT);
+  const [note, setNote] = useState('');
+  const [includeLink, setIncludeLink] = useState(true);
   const [isSending, setIsSending] = useState(false);
-  const [isSent, setIsSent] = useState(false);
+  const [batch, setBatch] = useState<EmailBatch | null>(null);
 
   useEffect(() => {
-    // Pre-populate with default emails format
-    const defaultEmails: { [studentId: string]: string } = {};
+    // Pre-populate with the email addresses on the class roster
+    const rosterEmails: { [studentId: string]: string } = {};
     students.forEach(student => {
-      defaultEmails[student.studentId] = student.email || `${student.studentId}@gordoncollege.edu.ph`;
+      rosterEmails[student.studentId] = student.email || '';
     });
-    setEmails(defaultEmails);
+    setEmails(rosterEmails);
+    setBatch(null);
   }, [students]);
 
+  const recipients = students
+    .filter(student => (emails[student.studentId] || '').trim() !== '')
+    .map(student => ({ studentId: student.studentId, email: emails[student.studentId].trim() }));
+  const invalidCount = recipients.filter(r => !isValidEmail(r.email)).length;
+
+  // Calls the notifications API, which sends through the server's mail transport
+  const callApi = async (path: string, body?: object): Promise<EmailBatch | null> => {
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      const response = await fetch(`/api/exams/${examId}/notifications${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body || {}),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        toast.error(json.error?.message || 'Failed to send emails');
+        return null;
+      }
+      return json.data as EmailBatch;
+    } catch (error) {
+      console.error('Error sending result emails:', error);
+      toast.error('Failed to send emails');
+      return null;
+    }
+  };
+
+  const reportBatch = (sent: EmailBatch) => {
+    if (sent.failedCount > 0) {
+      toast.warning(`${sent.sentCount} sent, ${sent.failedCount} failed`);
+    } else {
+      toast.success(`Results sent to ${sent.sentCount} student(s)`);
+    }
+  };
+
   const handleSend = async () => {
+    if (recipients.length === 0) {
+      toast.error('Enter at least one email address');
+      return;
+    }
+    setIsSending(true);
+    const sent = await callApi('', { recipients, subject, note, includeLink });
+    setIsSending(false);
+    if (sent) {
+      setBatch(sent);
+      reportBatch(sent);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!batch) return;
     setIsSending(true);
-    // Simulate sending emails
-    await new Promise(resolve => setTimeout(resolve, 1500));
+    const retried = await callApi(`/${batch.id}/retry`);
     setIsSending(false);
-    setIsSent(true);
-    setTimeout(() => {
-      onSend();
-      setIsSent(false);
-    }, 2000);
+    if (retried) {
+      setBatch(retried);
+      reportBatch(retried);
+    }
   };
 
   if (!isOpen) return null;
@@ -219,86 +273,172 @@ function SendResultsPanel({
 
       {/* Content */} 
       <div className="flex-1 overflow-y-auto p-4">
-        {isSent ? (
-          <div className="flex flex-col items-center justify-center h-full">
-            <div className="w-16 h-16 rounded-full bg-green-100 flex items-center justify-center mb-4">
-              <Check className="w-8 h-8 text-green-600" />
+        {batch ? (
+          <>
+            <div className="flex items-center gap-3 mb-4 text-white">
+              <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center">
+                <Check className="w-5 h-5 text-green-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold">{batch.sentCount} of {batch.deliveries.length} sent</h3>
+                <p className="text-sm text-green-200">
+                  {batch.failedCount} failed · {batch.deliveries.filter(d => d.status === 'skipped').length} skipped · via {batch.transport}
+                </p>
+              </div>
             </div>
-            <h3 className="text-xl font-semibold text-white">Emails Sent!</h3>
-            <p className="text-green-200 mt-2">Results sent to {students.length} students</p>
-          </div>
+
+            <div className="space-y-2">
+              {batch.deliveries.map(delivery => (
+                <div key={delivery.studentId} className="bg-white rounded-lg p-3 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{delivery.studentName || delivery.studentId}</p>
+                    <p className="text-xs text-gray-500 truncate">{delivery.email}</p>
+                    {delivery.error && delivery.status !== 'sent' && (
+                      <p className="text-xs text-red-600 mt-1">{delivery.error}</p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 rounded text-xs font-semibold flex-shrink-0 ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
         ) : (
           <>
             <div className="bg-blue-900/30 rounded-lg p-3 mb-4 flex items-start gap-2">
               <Info className="w-4 h-4 text-blue-300 mt-0.5 flex-shrink-0" />
               <p className="text-sm text-blue-100">
-                Enter Gmail addresses for each student. Scores will be sent automatically to their inboxes.
+                Each student receives their own score and grade. Addresses come from the class roster; students
+                without one are not emailed.
               </p>
             </div>
 
+            <div className="space-y-3 mb-4">
+              <div>
+                <label className="text-sm text-green-100">Subject</label>
+                <input
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md bg-gray-50"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-green-100">Message (optional)</label>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  placeholder="Added to every email"
+                  className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md bg-gray-50"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-green-100">
+                <input
+                  type="checkbox"
+                  checked={includeLink}
+                  onChange={(e) => setIncludeLink(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                Include each student&apos;s result link (if one is active)
+              </label>
+            </div>
+
             <div className="space-y-3">
-              {students.map(student => (
-                <div 
-                  key={student.studentId} 
-                  className="bg-white rounded-lg p-3"
-                >
-                  <div className="flex items-center justify-between mb-2">
-                    <div>
-                      <p className="font-medium text-gray-900">{student.studentName}</p>
-                      <p className="text-xs text-gray-500">{student.studentId}</p>
+              {students.map(student => {
+                const email = (emails[student.studentId] || '').trim();
+                return (
+                  <div 
+                    key={student.studentId} 
+                    className="bg-white rounded-lg p-3"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <div>
+                        <p className="font-medium text-gray-900">{student.studentName}</p>
+                        <p className="text-xs text-gray-500">{student.studentId}</p>
+                      </div>
+                      <span className={`px-2 py-1 rounded text-sm font-semibold ${getGradeColor(student.grade, gradingScale)}`}>
+                        {student.score}/{student.totalQuestions}
+                      </span>
                     </div>
-                    <span className={`px-2 py-1 rounded text-sm font-semibold ${getGradeColorClass(student.grade)}`}>
-                      {student.score}/{student.totalQuestions}
-                    </span>
+                    <input
+                      type="email"
+                      value={emails[student.studentId] || ''}
+                      onChange={(e) => setEmails(prev => ({ ...prev, [student.studentId]: e.target.value }))}
+                      placeholder="No email on the roster"
+                      className={`w-full px-3 py-2 text-sm border rounded-md bg-gray-50 ${
+                        email && !isValidEmail(email) ? 'border-red-400' : 'border-gray-200'
+                      }`}
+                    />
                   </div>
-                  <input
-                    type="email"
-                    value={emails[student.studentId] || ''}
-                    onChange={(e) => setEmails(prev => ({ ...prev, [student.studentId]: e.target.value }))}
-                    placeholder="Enter email address"
-                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md bg-gray-50"
-                  />
-                </div>
-              ))}
+                );
+              })}
             </div>
           </>
         )}
       </div>
 
       {/* Footer */}
-      {!isSent && (
-        <div className="p-4 border-t border-green-800">
-          <Button
-            onClick={handleSend}
-            disabled={isSending}
-            className="w-full bg-white text-green-800 hover:bg-gray-100 font-semibold py-3"
-          >
-            {isSending ? (
-              <span className="flex items-center gap-2">
-                <div className="w-4 h-4 border-2 border-green-800 border-t-transparent rounded-full animate-spin" />
-                Sending...
-              </span>
-            ) : (
-              <span className="flex items-center gap-2">
-                <Mail className="w-4 h-4" />
-                Send to {students.length} Students
-              </span>
+      <div className="p-4 border-t border-green-800 space-y-2">
+        {batch ? (
+          <>
+            {batch.failedCount > 0 && (
+              <Button
+                onClick={handleRetry}
+                disabled={isSending}
+                className="w-full bg-white text-green-800 hover:bg-gray-100 font-semibold py-3"
+              >
+                {isSending ? 'Retrying...' : `Retry ${batch.failedCount} Failed`}
+              </Button>
             )}
-          </Button>
-        </div>
-      )}
+            <Button
+              variant="outline"
+              onClick={() => setBatch(null)}
+              disabled={isSending}
+              className="w-full"
+            >
+              Back to Recipients
+            </Button>
+          </>
+        ) : (
+          <>
+            {invalidCount > 0 && (
+              <p className="text-xs text-red-200">{invalidCount} address(es) look invalid and will be skipped.</p>
+            )}
+            <Button
+              onClick={handleSend}
+              disabled={isSending || recipients.length === 0}
+              className="w-full bg-white text-green-800 hover:bg-gray-100 font-semibold py-3"
+            >
+              {isSending ? (
+                <span className="flex items-center gap-2">
+                  <div className="w-4 h-4 border-2 border-green-800 border-t-transparent rounded-full animate-spin" />
+                  Sending...
+                </span>
+              ) : (
+                <span className="flex items-center gap-2">
+                  <Mail className="w-4 h-4" />
+                  Send to {recipients.length} Student(s)
+                </span>
+              )}
+            </Button>
+          </>
+        )}
+      </div>
     </div>
   );
 }
 
 export default function Results() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [loading, setLoading] = useState(true);
   const [classes, setClasses] = useState<Class[]>([]);
   const [exams, setExams] = useState<Exam[]>([]);
   const [classResults, setClassResults] = useState<ClassResult[]>([]);
   const [selectedClass, setSelectedClass] = useState<ClassResult | null>(null);
   const [selectedExam, setSelectedExam] = useState<Exam | null>(null);
+  const [gradingScale, setGradingScale] = useState<GradingScale>(DEFAULT_GRADING_SCALE); // selected exam's scale
   const [classExamsList, setClassExamsList] = useState<Exam[]>([]);
   const [examStats, setExamStats] = useState<Record<string, ExamStats>>({});
   const [, setSelectedClassData] = useState<Class | null>(null);
@@ -308,6 +448,7 @@ export default function Results() {
   // Modal states
   const [exportModalType, setExportModalType] = useState<'PDF' | 'Excel' | 'CSV' | null>(null);
   const [showSendPanel, setShowSendPanel] = useState(false);
+  const [showLinksDialog, setShowLinksDialog] = useState(false);
 
   // Fetch classes and exams
   const fetchData = useCallback(async () => {
@@ -316,11 +457,11 @@ export default function Results() {
     setLoading(true);
     try {
       // Fetch classes for this user
-      const userClasses = await getClasses(user.id);
+      const userClasses = await getClasses(getVisibleOwnerIds(user), user.id);
       setClasses(userClasses);
 
       // Fetch exams for this user
-      const userExams = await getExams(user.id);
+      const userExams = await getExams(getVisibleOwnerIds(user), user.id);
       setExams(userExams);
 
       // Calculate results for each class
@@ -337,18 +478,16 @@ export default function Results() {
           // Query scanned results for these exams
           if (examIds.length > 0) {
             try {
-              const scannedResultsQuery = query(
-                collection(db, 'scannedResults'),
-                where('examId', 'in', examIds.slice(0, 10)) // Firestore limit
+              // One query per exam: the rules read each exam to allow its results
+              const scannedSnapshots = await Promise.all(
+                examIds.map(examId => getDocs(query(collection(db, 'scannedResults'), where('examId', '==', examId))))
               );
-              const scannedSnapshot = await getDocs(scannedResultsQuery);
               
-              scannedSnapshot.forEach(doc => {
-                const data = doc.data();
+              scannedSnapshots.flatMap(toCountedResults).forEach(data => {
                 if (!data.isNullId) {
                   scannedCount++;
                   totalScore += data.score || 0;
-                  totalMaxScore += data.totalQuestions || 0;
+                  totalMaxScore += (data.maxScore ?? data.totalQuestions) || 0;
                 }
               });
             } catch (err) {
@@ -393,7 +532,7 @@ export default function Results() {
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, user?.role]);
 
   useEffect(() => {
     fetchData();
@@ -425,12 +564,11 @@ export default function Results() {
           where('examId', '==', exam.id)
         );
         const scannedSnapshot = await getDocs(scannedResultsQuery);
-        scannedSnapshot.forEach(doc => {
-          const data = doc.data();
+        toCountedResults(scannedSnapshot).forEach(data => {
           if (!data.isNullId) {
             scannedCount++;
             totalScore += data.score || 0;
-            totalMaxScore += data.totalQuestions || 0;
+            totalMaxScore += (data.maxScore ?? data.totalQuestions) || 0;
           }
         });
       } catch (err) {
@@ -455,6 +593,8 @@ export default function Results() {
     try {
       const students = fullClass?.students || [];
       const examIds = [exam.id];
+      const scale = await GradingScaleService.getScaleForExam(exam);
+      setGradingScale(scale);
 
       // Build student results
       const results: StudentResult[] = [];
@@ -469,19 +609,18 @@ export default function Results() {
           );
           const scannedSnapshot = await getDocs(scannedResultsQuery);
           
-          scannedSnapshot.forEach(doc => {
-            const data = doc.data();
+          toCountedResults(scannedSnapshot).forEach(data => {
             if (!data.isNullId && !processedStudentIds.has(data.studentId)) {
               processedStudentIds.add(data.studentId);
               const student = students.find(s => s.student_id === data.studentId);
-              const percentage = data.totalQuestions > 0 
-                ? Math.round((data.score / data.totalQuestions) * 100) 
+              const maxScore = data.maxScore ?? data.totalQuestions;
+              const percentage = maxScore > 0 
+                ? Math.round((data.score / maxScore) * 100) 
                 : 0;
               
               let scannedDate = '';
               if (data.scannedAt) {
-                const timestamp = data.scannedAt as Timestamp;
-                const date = timestamp?.toDate?.() || new Date(data.scannedAt);
+                const date = new Date(data.scannedAt);
                 scannedDate = date.toLocaleDateString('en-US', { 
                   year: 'numeric', 
                   month: 'short', 
@@ -495,9 +634,9 @@ export default function Results() {
                   ? `${student.last_name}, ${student.first_name}`
                   : data.studentId,
                 score: data.score || 0,
-                totalQuestions: data.totalQuestions || 0,
+                totalQuestions: maxScore || 0,
                 percentage,
-                grade: calculateLetterGrade(percentage),
+                grade: getLetterGrade(percentage, scale),
                 date: scannedDate || 'N/A',
                 email: student?.email
               });
@@ -544,7 +683,7 @@ export default function Results() {
               score: data.score || 0,
               totalQuestions: data.max_score || 0,
               percentage,
-              grade: data.letter_grade || calculateLetterGrade(percentage),
+              grade: data.letter_grade || getLetterGrade(percentage, scale),
               date: gradedDate || 'N/A',
               email: student?.email
             });
@@ -871,13 +1010,25 @@ export default function Results() {
               </p>
             </div>
           </div>
-          <Button
-            onClick={() => setShowSendPanel(true)}
-            className="bg-[#1a472a] hover:bg-[#2d6b47] text-white"
-          >
-            <Mail className="w-4 h-4 mr-2" />
-            Send Results
-          </Button>
+          {can('manage_exams') && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowLinksDialog(true)}
+                className="border-[#1a472a] text-[#1a472a]"
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Student Links
+              </Button>
+              <Button
+                onClick={() => setShowSendPanel(true)}
+                className="bg-[#1a472a] hover:bg-[#2d6b47] text-white"
+              >
+                <Mail className="w-4 h-4 mr-2" />
+                Send Results
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Results Table */}
@@ -924,7 +1075,7 @@ export default function Results() {
                         {result.score} / {result.totalQuestions}
                       </td>
                       <td className="px-4 py-4">
-                        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getGradeColorClass(result.grade)}`}>
+                        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getGradeColor(result.grade, gradingScale)}`}>
                           {result.grade}
                         </span>
                       </td>
@@ -957,8 +1108,16 @@ export default function Results() {
           isOpen={showSendPanel}
           onClose={() => setShowSendPanel(false)}
           className={selectedClass.className}
+          examId={selectedExam.id}
           students={studentResults}
-          onSend={() => setShowSendPanel(false)}
+          gradingScale={gradingScale}
+        />
+
+        {/* Student Result Links */}
+        <ShareResultLinksDialog
+          open={showLinksDialog}
+          exam={selectedExam}
+          onClose={() => setShowLinksDialog(false)}
         />
       </div>
     );
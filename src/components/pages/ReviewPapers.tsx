@@ -16,13 +16,29 @@ import {
   CheckCircle,
   AlertTriangle,
   XCircle,
-  Users
+  Users,
+  Copy,
+  PencilLine
 } from 'lucide-react';
 import { getExamById, Exam } from '@/services/examService';
 import { AnswerKeyService } from '@/services/answerKeyService';
 import { ScanningService } from '@/services/scanningService';
 import { getClassById, Class } from '@/services/classService';
-import { AnswerChoice, ScannedResult } from '@/types/scanning';
+import { TagService } from '@/services/tagService';
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+import { QuestionTag } from '@/types/tags';
+import { getSetAnswerKey } from '@/lib/examSets';
+import { getItemRules, isCreditedAnswer } from '@/lib/scoring';
+import { computeStudentTagScores } from '@/lib/tagReport';
+import { findDuplicateResults, getCountedResults } from '@/lib/duplicateResults';
+import ScanEvidenceViewer from '@/components/scanning/ScanEvidenceViewer';
+import ReviewQueue from '@/components/scanning/ReviewQueue';
+import { MergeDuplicatesDialog } from '@/components/modals/MergeDuplicatesDialog';
+import { CorrectResultDialog } from '@/components/modals/CorrectResultDialog';
+import { getCorrectionReasonLabel } from '@/lib/resultCorrections';
+import { DEFAULT_GRADING_SCALE, getGradeColor, getLetterGrade, getPassingThreshold, isPassing } from '@/lib/gradingScales';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { GradingScale } from '@/types/gradebook';
 import { toast } from 'sonner';
 
 interface ReviewPapersProps {
@@ -43,8 +59,14 @@ const ITEMS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
 export default function ReviewPapersPage({ params }: ReviewPapersProps) {
   const [exam, setExam] = useState<Exam | null>(null);
   const [papers, setPapers] = useState<PaperWithDetails[]>([]);
-  const [answerKey, setAnswerKey] = useState<AnswerChoice[]>([]);
+  const [masterAnswerKey, setMasterAnswerKey] = useState<AnswerKey | null>(null);
+  const [tags, setTags] = useState<QuestionTag[]>([]);
   const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [classData, setClassData] = useState<Class | null>(null);
+  const [gradingScale, setGradingScale] = useState<GradingScale>(DEFAULT_GRADING_SCALE);
+  const [correctingPaper, setCorrectingPaper] = useState<PaperWithDetails | null>(null);
   const examId = params.id;
 
   // Search, Sort, Pagination state
@@ -57,29 +79,12 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
   // Expanded row for answer comparison
   const [expandedPaperId, setExpandedPaperId] = useState<string | null>(null);
 
-  const calculateLetterGrade = (percentage: number): string => {
-    if (percentage >= 90) return 'A';
-    if (percentage >= 85) return 'A-';
-    if (percentage >= 80) return 'B+';
-    if (percentage >= 75) return 'B';
-    if (percentage >= 70) return 'C+';
-    if (percentage >= 65) return 'C';
-    if (percentage >= 60) return 'D';
-    return 'F';
-  };
-
-  const getGradeColor = (grade: string): string => {
-    if (grade.startsWith('A')) return 'text-green-700 bg-green-100';
-    if (grade.startsWith('B')) return 'text-lime-700 bg-lime-100';
-    if (grade.startsWith('C')) return 'text-yellow-700 bg-yellow-100';
-    if (grade.startsWith('D')) return 'text-orange-700 bg-orange-100';
-    return 'text-red-700 bg-red-100';
-  };
-
+  // Failing scores within 15 points of the scale's passing mark need improvement
   const getStatusIndicator = (percentage: number) => {
-    if (percentage >= 75) {
+    const passingThreshold = getPassingThreshold(gradingScale);
+    if (isPassing(percentage, gradingScale)) {
       return { icon: CheckCircle, color: 'text-green-500', label: 'Passed' };
-    } else if (percentage >= 60) {
+    } else if (passingThreshold !== null && percentage >= passingThreshold - 15) {
       return { icon: AlertTriangle, color: 'text-yellow-500', label: 'Needs Improvement' };
     } else {
       return { icon: XCircle, color: 'text-red-500', label: 'Failed' };
@@ -99,13 +104,22 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
 
         const akResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
         if (akResult.success && akResult.data) {
-          setAnswerKey(akResult.data.answers);
+          setMasterAnswerKey(akResult.data);
+        }
+
+        const tagResult = await TagService.getTagsByExamId(examId);
+        if (tagResult.success && tagResult.data) {
+          setTags(tagResult.data.filter(tag => tag.questions.length > 0));
         }
 
         let cls: Class | null = null;
         if ((examData as any).classId) {
           cls = await getClassById((examData as any).classId);
         }
+        setClassData(cls);
+
+        const scale = await GradingScaleService.getScaleForExam(examData);
+        setGradingScale(scale);
 
         const scannedResult = await ScanningService.getScannedResultsByExamId(examId);
         if (scannedResult.success && scannedResult.data) {
@@ -119,14 +133,15 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
                   studentName = `${student.last_name}, ${student.first_name}`;
                 }
               }
-              const percentage = result.totalQuestions > 0
-                ? Math.round((result.score / result.totalQuestions) * 100)
+              const maxScore = result.maxScore ?? result.totalQuestions;
+              const percentage = maxScore > 0
+                ? Math.round((result.score / maxScore) * 100)
                 : 0;
               return {
                 ...result,
                 studentName,
                 percentage,
-                letterGrade: calculateLetterGrade(percentage),
+                letterGrade: getLetterGrade(percentage, scale),
               };
             });
           setPapers(papersWithDetails);
@@ -139,7 +154,19 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
       }
     };
     fetchData();
-  }, [examId]);
+  }, [examId, reloadKey]);
+
+  // Students with more than one result; reports count only the latest
+  const duplicateGroups = useMemo(() => findDuplicateResults(papers), [papers]);
+  const duplicateIds = useMemo(
+    () => new Set(duplicateGroups.flatMap(group => group.results.map(result => result.id))),
+    [duplicateGroups]
+  );
+  const countedPapers = useMemo(() => getCountedResults(papers), [papers]);
+  const studentNames = useMemo(
+    () => Object.fromEntries(papers.map(paper => [paper.studentId, paper.studentName])),
+    [papers]
+  );
 
   // Filtered and sorted papers
   const filteredAndSortedPapers = useMemo(() => {
@@ -221,6 +248,22 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
     });
   };
 
+  // Put a corrected result back into the list with its new name, score and grade
+  const handleCorrected = (result: ScannedResult) => {
+    const student = classData?.students.find(s => s.student_id === result.studentId);
+    const maxScore = result.maxScore ?? result.totalQuestions;
+    const percentage = maxScore > 0 ? Math.round((result.score / maxScore) * 100) : 0;
+    setPapers(prev => prev.map(paper => paper.id === result.id
+      ? {
+          ...result,
+          studentName: student ? `${student.last_name}, ${student.first_name}` : result.studentId,
+          percentage,
+          letterGrade: getLetterGrade(percentage, gradingScale),
+        }
+      : paper
+    ));
+  };
+
   const toggleExpanded = (paperId: string) => {
     setExpandedPaperId(prev => prev === paperId ? null : paperId);
   };
@@ -229,6 +272,12 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
   const AnswerComparisonGrid = ({ paper }: { paper: PaperWithDetails }) => {
     const totalQuestions = paper.totalQuestions;
     const studentAnswers = paper.answers || [];
+    // Answers are stored in the printed order of the paper's exam set
+    const answerKey = getSetAnswerKey(masterAnswerKey, paper.examSet);
+    const itemRules = getItemRules(masterAnswerKey, paper.examSet, exam?.choicePoints);
+    const tagScores = masterAnswerKey && tags.length > 0
+      ? computeStudentTagScores(paper, tags, masterAnswerKey, exam?.choicePoints)
+      : null;
 
     // Split into groups of 50 for 100-item exams
     const hasMultipleSections = totalQuestions > 50;
@@ -238,8 +287,10 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
     const renderQuestionBox = (questionIndex: number, displayNum: number) => {
       const studentAnswer = studentAnswers[questionIndex] || null;
       const correctAnswer = answerKey[questionIndex] || null;
-      const isCorrect = studentAnswer && correctAnswer && studentAnswer === correctAnswer;
+      const isCorrect = isCreditedAnswer(studentAnswer || undefined, itemRules[questionIndex]);
       const isUnanswered = !studentAnswer;
+      const machineRead = paper.originalAnswers ? paper.originalAnswers[questionIndex] || '' : null;
+      const isOverridden = machineRead !== null && machineRead !== (studentAnswer || '');
 
       let borderColor = 'border-red-500';
       let bgColor = 'bg-red-50';
@@ -259,7 +310,10 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
         <div key={questionIndex} className="flex flex-col items-center">
           <div className="text-[10px] text-muted-foreground mb-1">{displayNum}</div>
           <div
-            className={`w-9 h-9 rounded-md border-2 ${borderColor} ${bgColor} flex items-center justify-center`}
+            className={`w-9 h-9 rounded-md border-2 ${borderColor} ${bgColor} flex items-center justify-center ${
+              isOverridden ? 'ring-2 ring-blue-400 ring-offset-1' : ''
+            }`}
+            title={isOverridden ? `Corrected by hand; read from sheet as ${machineRead || 'blank'}` : undefined}
           >
             <span className={`text-base font-bold ${textColor}`}>
               {studentAnswer || '-'}
@@ -297,6 +351,24 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
             <div className="w-4 h-4 rounded border-2 border-gray-300 bg-gray-100" />
             <span>Unanswered</span>
           </div>
+          {paper.originalAnswers && (
+            <div className="flex items-center gap-1">
+              <div className="w-4 h-4 rounded border-2 border-gray-300 ring-2 ring-blue-400 ring-offset-1" />
+              <span>Corrected</span>
+            </div>
+          )}
+          {paper.examSet && (
+            <span className="font-semibold text-muted-foreground">Set {paper.examSet}</span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-7 gap-1"
+            onClick={() => setCorrectingPaper(paper)}
+            disabled={!masterAnswerKey}
+          >
+            <PencilLine className="w-3 h-3" /> Correct
+          </Button>
         </div>
 
         {/* Questions 1-50 */}
@@ -321,12 +393,14 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
         <div className="mt-4 flex flex-wrap gap-4 text-sm">
           <div>
             <span className="text-muted-foreground">Correct: </span>
-            <span className="font-semibold text-green-600">{paper.score}</span>
+            <span className="font-semibold text-green-600">
+              {studentAnswers.filter((a, i) => isCreditedAnswer(a, itemRules[i])).length}
+            </span>
           </div>
           <div>
             <span className="text-muted-foreground">Incorrect: </span>
             <span className="font-semibold text-red-600">
-              {studentAnswers.filter((a, i) => a && answerKey[i] && a !== answerKey[i]).length}
+              {studentAnswers.filter((a, i) => a && !isCreditedAnswer(a, itemRules[i])).length}
             </span>
           </div>
           <div>
@@ -336,6 +410,55 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
             </span>
           </div>
         </div>
+
+        {/* Correction history */}
+        {paper.corrections && paper.corrections.length > 0 && (
+          <div className="mt-4 pt-4 border-t">
+            <h5 className="text-xs font-semibold text-muted-foreground mb-2">Corrections</h5>
+            {paper.originalStudentId && (
+              <p className="text-xs text-muted-foreground mb-2">
+                Student ID read from sheet: <span className="font-mono">{paper.originalStudentId}</span>
+              </p>
+            )}
+            <div className="space-y-1 text-xs">
+              {paper.corrections.map((correction, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-2">
+                  <span className="text-muted-foreground">{formatDate(correction.correctedAt)}</span>
+                  <span className="font-medium">
+                    {correction.field === 'studentId' ? 'Student ID' : `Q${(correction.questionIndex ?? 0) + 1}`}:
+                    {' '}{correction.from || '-'} → {correction.to || '-'}
+                  </span>
+                  <span className="px-1.5 py-0.5 rounded bg-muted">{getCorrectionReasonLabel(correction.reason)}</span>
+                  {correction.note && <span className="text-muted-foreground">{correction.note}</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Competency by Tag */}
+        {tagScores && (
+          <div className="mt-4 pt-4 border-t">
+            <h5 className="text-xs font-semibold text-muted-foreground mb-2">Competency by Tag</h5>
+            <div className="flex flex-wrap gap-2">
+              {tags.map(tag => (
+                <div key={tag.id} className="flex items-center gap-2 px-2 py-1 border rounded-md text-xs bg-background">
+                  <div className={`w-3 h-3 rounded ${tag.color}`} />
+                  <span>{tag.name}</span>
+                  <span className="font-semibold">{tagScores[tag.id].percent}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Scanned Sheet Evidence */}
+        {paper.evidence && (
+          <div className="mt-4 pt-4 border-t">
+            <h5 className="text-xs font-semibold text-muted-foreground mb-2">Scanned Sheet</h5>
+            <ScanEvidenceViewer evidence={paper.evidence} answers={studentAnswers} answerKey={answerKey} />
+          </div>
+        )}
       </div>
     );
   };
@@ -362,12 +485,12 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
     );
   }
 
-  const avgScore = papers.length > 0
-    ? Math.round(papers.reduce((sum, p) => sum + p.percentage, 0) / papers.length)
+  const avgScore = countedPapers.length > 0
+    ? Math.round(countedPapers.reduce((sum, p) => sum + p.percentage, 0) / countedPapers.length)
     : 0;
-  const highestScore = papers.length > 0 ? Math.max(...papers.map(p => p.percentage)) : 0;
-  const lowestScore = papers.length > 0 ? Math.min(...papers.map(p => p.percentage)) : 0;
-  const passedCount = papers.filter(p => p.percentage >= 75).length;
+  const highestScore = countedPapers.length > 0 ? Math.max(...countedPapers.map(p => p.percentage)) : 0;
+  const lowestScore = countedPapers.length > 0 ? Math.min(...countedPapers.map(p => p.percentage)) : 0;
+  const passedCount = countedPapers.filter(p => isPassing(p.percentage, gradingScale)).length;
 
   return (
     <div className="space-y-6">
@@ -389,7 +512,7 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
       <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
         <Card className="p-3 sm:p-4 border">
           <p className="text-xs font-semibold text-muted-foreground mb-1">Total Scanned</p>
-          <p className="text-xl sm:text-2xl font-bold text-primary">{papers.length}</p>
+          <p className="text-xl sm:text-2xl font-bold text-primary">{countedPapers.length}</p>
         </Card>
         <Card className="p-3 sm:p-4 border">
           <p className="text-xs font-semibold text-muted-foreground mb-1">Passed (≥75%)</p>
@@ -409,6 +532,48 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
         </Card>
       </div>
 
+      {/* Duplicate results */}
+      {duplicateGroups.length > 0 && (
+        <Card className="p-4 border border-amber-300 bg-amber-50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="font-medium text-amber-900">
+                {duplicateGroups.length} student{duplicateGroups.length !== 1 ? 's have' : ' has'} duplicate results
+              </p>
+              <p className="text-sm text-amber-800">
+                The same paper may have been scanned more than once. Only the latest result is counted in reports.
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => setShowMergeDialog(true)} className="flex-shrink-0">
+            Merge duplicates
+          </Button>
+        </Card>
+      )}
+
+      {/* Low-confidence readings */}
+      <ReviewQueue papers={papers} exam={exam} answerKey={masterAnswerKey} onUpdated={handleCorrected} />
+
+      <CorrectResultDialog
+        open={!!correctingPaper}
+        result={correctingPaper}
+        exam={exam}
+        answerKey={masterAnswerKey}
+        onClose={() => setCorrectingPaper(null)}
+        onCorrected={handleCorrected}
+      />
+
+      <MergeDuplicatesDialog
+        open={showMergeDialog}
+        examId={examId}
+        examTitle={exam.title}
+        groups={duplicateGroups}
+        studentNames={studentNames}
+        onClose={() => setShowMergeDialog(false)}
+        onMerged={() => setReloadKey(key => key + 1)}
+      />
+
       {/* Results List */}
       <Card className="border">
         {/* Search and Controls */}
@@ -501,13 +666,30 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
                     {/* Desktop View */}
                     <div className="hidden md:grid md:grid-cols-12 gap-2 items-center">
                       <div className="col-span-2 font-mono text-sm">{paper.studentId}</div>
-                      <div className="col-span-3 font-medium truncate">{paper.studentName}</div>
+                      <div className="col-span-3 font-medium truncate flex items-center gap-2">
+                        <span className="truncate">{paper.studentName}</span>
+                        {duplicateIds.has(paper.id) && (
+                          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 flex-shrink-0">
+                            <Copy className="w-3 h-3" /> Duplicate
+                          </span>
+                        )}
+                        {!duplicateIds.has(paper.id) && paper.attempt && (
+                          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground flex-shrink-0">
+                            Attempt {paper.attempt}
+                          </span>
+                        )}
+                        {!!paper.reviewItems?.length && (
+                          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 flex-shrink-0">
+                            Review {paper.reviewItems.length}
+                          </span>
+                        )}
+                      </div>
                       <div className="col-span-2">
                         <span className="font-semibold">{paper.score}</span>
-                        <span className="text-muted-foreground">/{paper.totalQuestions}</span>
+                        <span className="text-muted-foreground">/{paper.maxScore ?? paper.totalQuestions}</span>
                       </div>
                       <div className="col-span-2 flex items-center gap-2">
-                        <span className={`px-2 py-0.5 rounded text-sm font-bold ${getGradeColor(paper.letterGrade)}`}>
+                        <span className={`px-2 py-0.5 rounded text-sm font-bold ${getGradeColor(paper.letterGrade, gradingScale)}`}>
                           {paper.letterGrade}
                         </span>
                         <span className="text-muted-foreground">{paper.percentage}%</span>
@@ -530,12 +712,22 @@ export default function ReviewPapersPage({ params }: ReviewPapersProps) {
                           <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
                         </div>
                       </div>
-                      <div className="font-medium">{paper.studentName}</div>
+                      <div className="font-medium flex items-center gap-2">
+                        {paper.studentName}
+                        {duplicateIds.has(paper.id) && (
+                          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">Duplicate</span>
+                        )}
+                        {!duplicateIds.has(paper.id) && paper.attempt && (
+                          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground">
+                            Attempt {paper.attempt}
+                          </span>
+                        )}
+                      </div>
                       <div className="flex items-center justify-between text-sm">
                         <div>
                           <span className="font-semibold">{paper.score}</span>
-                          <span className="text-muted-foreground">/{paper.totalQuestions}</span>
-                          <span className={`ml-2 px-2 py-0.5 rounded text-xs font-bold ${getGradeColor(paper.letterGrade)}`}>
+                          <span className="text-muted-foreground">/{paper.maxScore ?? paper.totalQuestions}</span>
+                          <span className={`ml-2 px-2 py-0.5 rounded text-xs font-bold ${getGradeColor(paper.letterGrade, gradingScale)}`}>
                             {paper.letterGrade}
                           </span>
                         </div>
@@ -1,11 +1,43 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
-import { Settings as SettingsIcon, Bell, Lock, Database, User } from 'lucide-react';
+import { Settings as SettingsIcon, Bell, Lock, Database, User, IdCard } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { CheckDigitScheme, StudentIdPolicy } from '@/types/studentId';
+import {
+  CHECK_DIGIT_LABELS,
+  countIdDigits,
+  getIdExample,
+  validateIdPolicy,
+} from '@/lib/studentIdPolicy';
 
 export default function Settings() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canEditIdPolicy = can('manage_system');
+  const [idPolicy, setIdPolicy] = useState<StudentIdPolicy>(StudentIdPolicyService.getCachedPolicy());
+  const [savingIdPolicy, setSavingIdPolicy] = useState(false);
+  const idPolicyErrors = validateIdPolicy(idPolicy);
+
+  useEffect(() => {
+    StudentIdPolicyService.getPolicy().then(setIdPolicy);
+  }, []);
+
+  const handleSaveIdPolicy = async () => {
+    if (!user?.id) return;
+    setSavingIdPolicy(true);
+    const result = await StudentIdPolicyService.savePolicy(idPolicy, { id: user.id, email: user.email });
+    setSavingIdPolicy(false);
+
+    if (result.success && result.data) {
+      setIdPolicy(result.data);
+      toast.success('Student ID format saved');
+    } else {
+      toast.error(result.error || 'Failed to save the Student ID format');
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -112,6 +144,78 @@ export default function Settings() {
         </div>
       </Card>
 
+      {/* Student ID Format */}
+      <Card className="p-6 border">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-indigo-50 flex items-center justify-center">
+            <IdCard className="w-5 h-5 text-indigo-600" />
+          </div>
+          <h2 className="text-xl font-bold text-foreground">Student ID Format</h2>
+        </div>
+
+        <div className="space-y-5">
+          <p className="text-sm text-muted-foreground">
+            Used to validate Student IDs, auto-assign new ones, size answer sheet ID grids and read them back
+            when scanning. Existing Student IDs are not changed.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">ID Mask</label>
+            <input
+              type="text"
+              value={idPolicy.mask}
+              onChange={(e) => setIdPolicy({ ...idPolicy, mask: e.target.value.toUpperCase() })}
+              disabled={!canEditIdPolicy || savingIdPolicy}
+              className="w-full px-4 py-2 border rounded-md bg-background font-mono"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              # is a digit, Y is a digit of the year the ID was issued, anything else is printed as-is.
+              e.g. YYYY-#### for 2026-0001, or YYYY##### for 9-digit IDs like 202600001.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Check Digit</label>
+            <select
+              value={idPolicy.checkDigit}
+              onChange={(e) => setIdPolicy({ ...idPolicy, checkDigit: e.target.value as CheckDigitScheme })}
+              disabled={!canEditIdPolicy || savingIdPolicy}
+              className="w-full px-4 py-2 border rounded-md bg-background"
+            >
+              {(Object.keys(CHECK_DIGIT_LABELS) as CheckDigitScheme[]).map((scheme) => (
+                <option key={scheme} value={scheme}>{CHECK_DIGIT_LABELS[scheme]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground mt-1">
+              With a check digit, the last # is computed from the other digits so mistyped IDs are caught.
+            </p>
+          </div>
+
+          {idPolicyErrors.length > 0 ? (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+              {idPolicyErrors.map((error) => <p key={error}>{error}</p>)}
+            </div>
+          ) : (
+            <div className="p-4 border rounded-lg text-sm text-foreground">
+              Example: <span className="font-mono">{getIdExample(idPolicy)}</span> · answer sheets need
+              {' '}{countIdDigits(idPolicy)} ID grid columns
+            </div>
+          )}
+
+          {canEditIdPolicy ? (
+            <button
+              onClick={handleSaveIdPolicy}
+              disabled={savingIdPolicy || idPolicyErrors.length > 0}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold hover:bg-primary/90 disabled:opacity-50"
+            >
+              {savingIdPolicy ? 'Saving...' : 'Save Student ID Format'}
+            </button>
+          ) : (
+            <p className="text-xs text-muted-foreground">Only administrators can change the Student ID format.</p>
+          )}
+        </div>
+      </Card>
+
       {/* Notification Settings */}
       <Card className="p-6 border">
         <div className="flex items-center gap-3 mb-6">
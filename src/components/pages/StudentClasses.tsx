@@ -40,14 +40,26 @@ import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import * as XLSX from 'xlsx';
 import { StudentIDService } from '@/services/studentIDService';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { checkStudentId, describeIdFormat } from '@/lib/studentIdPolicy';
 import { useAuth } from '@/contexts/AuthContext';
-import { createClass, deleteClass, updateClass } from '@/services/classService';
+import {
+  createClass,
+  deleteClass,
+  getClassById,
+  getClasses,
+  updateClass,
+  type Class as ClassRecord,
+  type Student,
+} from '@/services/classService';
+import { findStudentIdConflicts } from '@/services/enrollmentService';
 import { OfficialRecordService } from '@/services/officialRecordService';
 import { IDChangeLogger } from '@/services/idChangeLogger';
 import { StudentFieldValidationService } from '@/services/studentFieldValidationService';
 import { DataQualityService } from '@/services/dataQualityService';
-import { collection, getDocs, doc, setDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { formatIdentityConflicts } from '@/lib/enrollment';
+import { getVisibleOwnerIds } from '@/lib/roles';
+import { EnrollmentStatusBadge } from '@/components/EnrollmentStatusBadge';
 import { 
   Search, 
   Plus, 
@@ -60,26 +72,11 @@ import {
   Archive
 } from 'lucide-react';
 
-interface Student {
-  student_id: string;
-  first_name: string;
-  last_name: string;
-  email?: string;
-}
-
-interface Class {
-  id: string;
-  class_name: string;
-  course_subject: string;
-  section_block: string;
-  room: string;
-  students: Student[];
-  created_at: string;
+interface Class extends ClassRecord {
   schedule_day?: string;
   schedule_time?: string;
   semester?: string;
   school_year?: string;
-  isArchived?: boolean;
 }
 
 export default function StudentClasses() {
@@ -117,6 +114,7 @@ export default function StudentClasses() {
   });
 
   const [students, setStudents] = useState<Student[]>([]);
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
   const [newStudent, setNewStudent] = useState({
     student_id: '',
     first_name: '',
@@ -128,6 +126,13 @@ export default function StudentClasses() {
     fetchClasses();
   }, [user?.id]);
 
+  useEffect(() => {
+    StudentIdPolicyService.getPolicy().then(setIdPolicy);
+  }, []);
+
+  // Student IDs must follow the institution's format
+  const isValidStudentIdFormat = (studentId?: string) => !!studentId && !checkStudentId(studentId, idPolicy);
+
   const fetchClasses = async () => {
     if (!user?.id) {
       setLoading(false);
@@ -135,31 +140,8 @@ export default function StudentClasses() {
     }
 
     try {
-      const snapshot = await getDocs(collection(db, 'classes'));
-      const fetchedClasses: Class[] = snapshot.docs.map((docSnap) => {
-        const data = docSnap.data() as Record<string, any>;
-        const createdAtValue = data.created_at ?? data.createdAt;
-
-        return {
-          id: docSnap.id,
-          class_name: data.class_name ?? '',
-          course_subject: data.course_subject ?? '',
-          section_block: data.section_block ?? '',
-          room: data.room ?? '',
-          students: Array.isArray(data.students) ? data.students : [],
-          created_at:
-            typeof createdAtValue?.toDate === 'function'
-              ? createdAtValue.toDate().toISOString()
-              : typeof createdAtValue === 'string'
-                ? createdAtValue
-                : new Date().toISOString(),
-          schedule_day: data.schedule_day,
-          schedule_time: data.schedule_time,
-          semester: data.semester,
-          school_year: data.school_year,
-          isArchived: data.isArchived || false,
-        };
-      }).filter(classItem => !classItem.isArchived); // Filter out archived classes
+      const fetchedClasses: Class[] = (await getClasses(getVisibleOwnerIds(user), user.id))
+        .filter(classItem => !classItem.isArchived); // Filter out archived classes
 
       setClasses(fetchedClasses);
     } catch (error) {
@@ -211,7 +193,7 @@ export default function StudentClasses() {
 
     // Validate all students have proper IDs
     const invalidStudents = students.filter(student => {
-      return !student.student_id || !/^\d{9}$/.test(student.student_id) || !student.student_id.startsWith('20');
+      return !isValidStudentIdFormat(student.student_id);
     });
     
     if (invalidStudents.length > 0) {
@@ -224,42 +206,23 @@ export default function StudentClasses() {
       return;
     }
 
+    // Students already on the roster were checked when they were added
+    const previousIds = new Set(classes.find(c => c.id === editingClassId)?.students.map(s => s.student_id) || []);
+    if (!(await checkStudentIdentities(students.filter(s => !previousIds.has(s.student_id))))) return;
+
     try {
       if (editingClassId) {
-        // UPDATE existing class
-        const { updateClass } = await import('@/services/classService');
-        
+        // UPDATE existing class; its roster is saved as enrollments
         await updateClass(editingClassId, {
           ...newClass,
           students: students,
-        });
-
-        // Update individual student records in the students collection
-        if (students.length > 0) {
-          try {
-            for (const student of students) {
-              const studentDocRef = doc(db, 'students', student.student_id);
-              await setDoc(studentDocRef, {
-                student_id: student.student_id,
-                first_name: student.first_name,
-                last_name: student.last_name,
-                email: student.email || null,
-                created_by: user.id,
-                class_id: editingClassId,
-                created_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
-              }, { merge: true });
-            }
-          } catch (error) {
-            console.error('Error updating students in Firestore:', error);
-            toast.error('Failed to save student records: ' + (error instanceof Error ? error.message : String(error)));
-          }
-        }
+        }, user.id);
+        const refreshed = await getClassById(editingClassId);
 
         // Update the classes list in state
         setClasses(classes.map(c => 
           c.id === editingClassId 
-            ? { ...c, ...newClass, students }
+            ? { ...c, ...newClass, ...(refreshed || { students }) }
             : c
         ));
 
@@ -286,28 +249,6 @@ export default function StudentClasses() {
         const savedClass = await createClass(classToAdd, user.id, user.instructorId);
         console.log('Class saved:', savedClass);
         
-        // CRITICAL: Also save individual student records to the students collection
-        if (students.length > 0) {
-          try {
-            for (const student of students) {
-              const studentDocRef = doc(db, 'students', student.student_id);
-              await setDoc(studentDocRef, {
-                student_id: student.student_id,
-                first_name: student.first_name,
-                last_name: student.last_name,
-                email: student.email || null,
-                created_by: user.id,
-                class_id: savedClass.id,
-                created_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
-              }, { merge: true });
-            }
-          } catch (error) {
-            console.error('Error saving students to Firestore:', error);
-            toast.error('Failed to save student records: ' + (error instanceof Error ? error.message : String(error)));
-          }
-        }
-        
         setClasses([...classes, savedClass]);
         toast.success('Class added and saved successfully');
       }
@@ -329,6 +270,23 @@ export default function StudentClasses() {
     }
   };
 
+  // Students are shared records: an ID already on record under another name
+  // belongs to a different student, while the same student is enrolled here too
+  const checkStudentIdentities = async (added: Student[]) => {
+    try {
+      const conflicts = await findStudentIdConflicts(added);
+      if (conflicts.length > 0) {
+        toast.error(`Student ID(s) already belong to other students: ${formatIdentityConflicts(conflicts)}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Error checking student IDs:', error);
+      toast.error('Failed to check student IDs');
+      return false;
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteId) return;
 
@@ -398,14 +356,11 @@ export default function StudentClasses() {
     let studentId = newStudent.student_id.trim();
     const wasAutoGenerated = !studentId;
 
-    // Validation for Student ID - 9 digits and must start with 20
+    // Validation for Student ID - the institution's format
     if (studentId) {
-      if (!/^\d{9}$/.test(studentId)) {
-        toast.warning('Student ID must be exactly 9 digits');
-        return;
-      }
-      if (!studentId.startsWith('20')) {
-        toast.warning('Student ID must start with 20');
+      const formatError = checkStudentId(studentId, idPolicy);
+      if (formatError) {
+        toast.warning(formatError);
         return;
       }
     }
@@ -435,10 +390,12 @@ export default function StudentClasses() {
       return;
     }
 
-    // Check for duplicate student ID in database
-    const dbConflicts = await StudentIDService.checkForConflicts([studentId]);
-    if (dbConflicts.length > 0) {
-      toast.error(`Student ID "${studentId}" already exists in the database`);
+    // An ID already in the database must be the same student
+    if (
+      !(await checkStudentIdentities([
+        { student_id: studentId, first_name: newStudent.first_name.trim(), last_name: newStudent.last_name.trim() },
+      ]))
+    ) {
       return;
     }
 
@@ -461,22 +418,13 @@ export default function StudentClasses() {
       email: newStudent.email.trim() || undefined,
     };
 
-    setStudents([...students, student]);
+    const updatedStudents = [...students, student];
+    setStudents(updatedStudents);
     
-    // CRITICAL: Save individual student record to the students collection if we have a selected class
-    if (user && selectedClass) {
+    // When editing a class, enroll the student right away
+    if (user && editingClassId) {
       try {
-        const studentDocRef = doc(db, 'students', student.student_id);
-        await setDoc(studentDocRef, {
-          student_id: student.student_id,
-          first_name: student.first_name,
-          last_name: student.last_name,
-          email: student.email || null,
-          created_by: user.id,
-          class_id: selectedClass.id,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }, { merge: true });
+        await updateClass(editingClassId, { students: updatedStudents }, user.id);
       } catch (error) {
         console.error('Error saving student to Firestore:', error);
         toast.error('Failed to save student to database: ' + (error instanceof Error ? error.message : String(error)));
@@ -521,13 +469,12 @@ export default function StudentClasses() {
     const updatedStudents = students.filter(s => s.student_id !== studentId);
     setStudents(updatedStudents);
     
-    // CRITICAL: Update the class in Firestore with the removed student
-    if (user && selectedClass) {
+    // When editing a class, the student is dropped from it right away
+    if (user && editingClassId) {
       try {
-        const { updateClass } = await import('@/services/classService');
-        await updateClass(selectedClass.id, {
+        await updateClass(editingClassId, {
           students: updatedStudents,
-        });
+        }, user.id);
       } catch (error) {
         console.error('Error updating class after removing student:', error);
         toast.warning('Student removed from roster but failed to save changes');
@@ -662,11 +609,7 @@ export default function StudentClasses() {
             return;
           }
 
-          const dbConflicts = await StudentIDService.checkForConflicts(
-            studentsWithIds.map((s) => s.student_id)
-          );
-          if (dbConflicts.length > 0) {
-            toast.error(`IDs already exist in database: ${Array.from(new Set(dbConflicts)).join(', ')}`);
+          if (!(await checkStudentIdentities(studentsWithIds))) {
             return;
           }
 
@@ -710,40 +653,19 @@ export default function StudentClasses() {
       return;
     }
 
-    const dbConflicts = await StudentIDService.checkForConflicts(importPreview.map((s) => s.student_id));
-    if (dbConflicts.length > 0) {
-      toast.error(`Import blocked. IDs already exist in database: ${Array.from(new Set(dbConflicts)).join(', ')}`);
+    if (!(await checkStudentIdentities(importPreview))) {
       return;
     }
 
     const updatedStudents = [...students, ...importPreview];
     setStudents(updatedStudents);
     
-    // CRITICAL: Save the updated class with new students to Firestore
-    if (user && selectedClass) {
+    // When editing a class, enroll the imported students right away
+    if (user && editingClassId) {
       try {
-        // Import updateClass from classService
-        const { updateClass } = await import('@/services/classService');
-        
-        // Update the class with the new students array
-        await updateClass(selectedClass.id, {
+        await updateClass(editingClassId, {
           students: updatedStudents,
-        });
-
-        // Also create individual student records in the students collection
-        for (const student of importPreview) {
-          const studentDocRef = doc(db, 'students', student.student_id);
-          await setDoc(studentDocRef, {
-            student_id: student.student_id,
-            first_name: student.first_name,
-            last_name: student.last_name,
-            email: student.email || null,
-            created_by: user.id,
-            class_id: selectedClass.id,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          }, { merge: true });
-        }
+        }, user.id);
       } catch (error) {
         console.error('Error saving students to Firestore:', error);
         toast.error('Failed to save students to database: ' + (error instanceof Error ? error.message : String(error)));
@@ -1066,9 +988,9 @@ export default function StudentClasses() {
                         placeholder="Auto-generated if empty"
                         value={newStudent.student_id}
                         onChange={(e) => setNewStudent({ ...newStudent, student_id: e.target.value })}
-                        className={newStudent.student_id && (!/^\d{9}$/.test(newStudent.student_id) || !newStudent.student_id.startsWith('20')) ? 'border-red-300 focus:border-red-500' : ''}
+                        className={newStudent.student_id && !isValidStudentIdFormat(newStudent.student_id) ? 'border-red-300 focus:border-red-500' : ''}
                       />
-                      <p className="text-xs text-gray-600">9 digits, start with 20 (e.g., 202312345)</p>
+                      <p className="text-xs text-gray-600">{describeIdFormat(idPolicy)}</p>
                     </div>
                     <div className="space-y-2">
                       <Label className="text-sm font-medium text-gray-700">First Name *</Label>
@@ -1125,7 +1047,7 @@ export default function StudentClasses() {
                     </TableHeader>
                     <TableBody>
                       {students.map((student, idx) => {
-                        const isValidStudentId = student.student_id && /^\d{9}$/.test(student.student_id) && student.student_id.startsWith('20');
+                        const isValidStudentId = isValidStudentIdFormat(student.student_id);
                         const isValidFirstName = student.first_name && /^[a-zA-Z\s]+$/.test(student.first_name) && student.first_name.length >= 4;
                         const isValidLastName = student.last_name && /^[a-zA-Z\s]+$/.test(student.last_name) && student.last_name.length >= 4;
                         const isValidEmail = !student.email || student.email.includes('@gmail.com');
@@ -1175,7 +1097,7 @@ export default function StudentClasses() {
                     <span className="text-xs text-muted-foreground">
                       {(() => {
                         const invalidStudents = students.filter(student => {
-                          const isValidStudentId = student.student_id && /^\d{9}$/.test(student.student_id) && student.student_id.startsWith('20');
+                          const isValidStudentId = isValidStudentIdFormat(student.student_id);
                           const isValidFirstName = student.first_name && /^[a-zA-Z\s]+$/.test(student.first_name) && student.first_name.length >= 4;
                           const isValidLastName = student.last_name && /^[a-zA-Z\s]+$/.test(student.last_name) && student.last_name.length >= 4;
                           const isValidEmail = !student.email || student.email.includes('@gmail.com');
@@ -1188,7 +1110,7 @@ export default function StudentClasses() {
                     </span>
                   </div>
                   {students.some(student => {
-                    const isValidStudentId = student.student_id && /^\d{9}$/.test(student.student_id) && student.student_id.startsWith('20');
+                    const isValidStudentId = isValidStudentIdFormat(student.student_id);
                     const isValidFirstName = student.first_name && /^[a-zA-Z\s]+$/.test(student.first_name) && student.first_name.length >= 4;
                     const isValidLastName = student.last_name && /^[a-zA-Z\s]+$/.test(student.last_name) && student.last_name.length >= 4;
                     const isValidEmail = !student.email || student.email.includes('@gmail.com');
@@ -1223,7 +1145,7 @@ export default function StudentClasses() {
                 
                 // Disable if any student has validation errors
                 const hasInvalidStudents = students.some(student => {
-                  const isValidStudentId = student.student_id && /^\d{9}$/.test(student.student_id) && student.student_id.startsWith('20');
+                  const isValidStudentId = isValidStudentIdFormat(student.student_id);
                   const isValidFirstName = student.first_name && /^[a-zA-Z\s]+$/.test(student.first_name) && student.first_name.length >= 4;
                   const isValidLastName = student.last_name && /^[a-zA-Z\s]+$/.test(student.last_name) && student.last_name.length >= 4;
                   const isValidEmail = !student.email || student.email.includes('@gmail.com');
@@ -1486,8 +1408,8 @@ export default function StudentClasses() {
               </div>
 
               <div>
-                <h4 className="font-medium mb-3">Students ({selectedClass.students.length})</h4>
-                {selectedClass.students.length > 0 ? (
+                <h4 className="font-medium mb-3">Students ({selectedClass.students.length} active)</h4>
+                {(selectedClass.roster?.length || 0) > 0 ? (
                   <div className="border rounded-lg overflow-hidden">
                     <Table>
                       <TableHeader>
@@ -1495,14 +1417,18 @@ export default function StudentClasses() {
                           <TableHead>Student ID</TableHead>
                           <TableHead>Name</TableHead>
                           <TableHead>Email</TableHead>
+                          <TableHead>Status</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {selectedClass.students.map((student, idx) => (
-                          <TableRow key={`${selectedClass.id}-student-${idx}`}>
+                        {selectedClass.roster?.map((student) => (
+                          <TableRow key={`${selectedClass.id}-student-${student.student_id}`}>
                             <TableCell>{student.student_id}</TableCell>
                             <TableCell>{`${student.first_name} ${student.last_name}`}</TableCell>
                             <TableCell>{student.email || '—'}</TableCell>
+                            <TableCell>
+                              <EnrollmentStatusBadge status={student.status} />
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
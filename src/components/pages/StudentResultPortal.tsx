@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { ShareableLinkService } from '@/services/shareableLinkService';
+import { PortalItem, ShareableLink } from '@/types/scanning';
+
+interface StudentResultPortalProps {
+  token: string;
+}
+
+const OUTCOME_STYLES: Record<PortalItem['outcome'], string> = {
+  correct: 'bg-green-50 text-green-700',
+  partial: 'bg-yellow-50 text-yellow-700',
+  wrong: 'bg-red-50 text-red-700',
+  blank: 'bg-gray-50 text-gray-500',
+};
+
+const barColor = (percent: number) => {
+  if (percent >= 75) return 'bg-green-500';
+  if (percent >= 50) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+/**
+ * Student Result Portal
+ * Read-only view of one student's exam result, opened from a shared link without signing in
+ */
+export default function StudentResultPortal({ token }: StudentResultPortalProps) {
+  const [link, setLink] = useState<ShareableLink | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const openLink = async () => {
+      setLoading(true);
+      const response = await ShareableLinkService.openLink(token);
+      if (response.success && response.data) {
+        setLink(response.data);
+      } else if (response.status === 'expired') {
+        setMessage('This result link has expired. Ask your instructor for a new one.');
+      } else if (response.status === 'revoked') {
+        setMessage('This result link is no longer available. Ask your instructor for a new one.');
+      } else if (response.status === 'not_found' || response.status === 'unavailable') {
+        setMessage('This result link is invalid, has expired, or was revoked. Check the link or ask your instructor.');
+      } else {
+        setMessage('Your result could not be loaded right now. Please try again later.');
+      }
+      setLoading(false);
+    };
+    openLink();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!link) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-3">
+            <AlertCircle className="w-10 h-10 mx-auto text-muted-foreground" />
+            <p className="text-foreground">{message}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const result = link.result;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <p className="text-sm text-muted-foreground">
+            {[result.subject, result.className].filter(Boolean).join(' · ')}
+          </p>
+          <h1 className="text-2xl md:text-3xl font-bold text-foreground">{result.examTitle}</h1>
+          <p className="text-muted-foreground mt-1">
+            {result.studentName ? `${result.studentName} · ` : ''}
+            {result.studentId}
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="p-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-sm text-muted-foreground">Score</p>
+              <p className="text-2xl font-bold text-foreground">
+                {result.score} / {result.maxScore}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Percentage</p>
+              <p className="text-2xl font-bold text-foreground">{result.percentage}%</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Grade</p>
+              <p className="text-2xl font-bold text-foreground">{result.grade}</p>
+              <p className="text-xs text-muted-foreground">{result.gradingScale}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Status</p>
+              {result.passed ? (
+                <p className="text-2xl font-bold text-green-600 flex items-center justify-center gap-1">
+                  <CheckCircle className="w-5 h-5" /> Passed
+                </p>
+              ) : (
+                <p className="text-2xl font-bold text-red-600 flex items-center justify-center gap-1">
+                  <XCircle className="w-5 h-5" /> Failed
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {result.tags.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Performance by Topic</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {result.tags.map(tag => (
+                <div key={tag.name} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <span className={`w-3 h-3 rounded-full ${tag.color}`} />
+                      {tag.name}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {tag.earned} / {tag.possible} · {tag.percent}%
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div className={`h-full ${barColor(tag.percent)}`} style={{ width: `${tag.percent}%` }} />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {result.items && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Item Breakdown</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 gap-2">
+                {result.items.map(item => (
+                  <div key={item.question} className={`rounded-md p-2 text-sm ${OUTCOME_STYLES[item.outcome]}`}>
+                    <p className="font-semibold">
+                      Q{item.question}
+                      {item.bonus && <Badge variant="outline" className="ml-1 text-[10px]">Bonus</Badge>}
+                    </p>
+                    <p>
+                      Your answer: <span className="font-medium">{item.answer || '—'}</span>
+                    </p>
+                    {item.outcome !== 'correct' && (
+                      <p>
+                        Correct: <span className="font-medium">{item.correctAnswer}</span>
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-xs text-center text-muted-foreground">
+          Scored {result.scannedAt ? new Date(result.scannedAt).toLocaleDateString() : ''}
+          {link.expiresAt && ` · This link works until ${new Date(link.expiresAt).toLocaleDateString()}`}
+          {' · '}Questions about your result? Contact your instructor.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -49,9 +49,17 @@ import {
   Loader2,
   Download,
   AlertCircle,
+  Merge,
 } from "lucide-react";
 import * as XLSX from "xlsx";
 import { StudentService } from "@/services/studentService";
+import { getClasses } from "@/services/classService";
+import { getVisibleOwnerIds } from "@/lib/roles";
+import { EnrollmentStatusBadge } from "@/components/EnrollmentStatusBadge";
+import { StudentMergeDialog } from "@/components/modals/StudentMergeDialog";
+import { StudentIdPolicyService } from "@/services/studentIdPolicyService";
+import { getIdExample } from "@/lib/studentIdPolicy";
+import type { EnrollmentStatus } from "@/types/enrollment";
 
 interface Student {
   id: string;
@@ -62,10 +70,17 @@ interface Student {
   email: string | null;
   section: string | null;
   created_at: string;
+  enrollments: StudentEnrollmentSummary[];
+}
+
+interface StudentEnrollmentSummary {
+  classId: string;
+  className: string;
+  status: EnrollmentStatus;
 }
 
 export default function Students() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [students, setStudents] = useState<Student[]>([]);
@@ -78,6 +93,8 @@ export default function Students() {
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null); // New state to hold file upload
   const [exporting, setExporting] = useState(false);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
 
   const [newStudent, setNewStudent] = useState({
     student_id: "",
@@ -88,6 +105,10 @@ export default function Students() {
     section: "",
   });
 
+  useEffect(() => {
+    StudentIdPolicyService.getPolicy().then(setIdPolicy);
+  }, []);
+
   const fetchStudents = async () => {
     try {
       if (!user?.id) {
@@ -95,7 +116,42 @@ export default function Students() {
         return;
       }
 
-      const records = await StudentService.getAllStudents(user.id);
+      const [records, classes] = await Promise.all([
+        StudentService.getAllStudents(user.id),
+        getClasses(getVisibleOwnerIds(user), user.id),
+      ]);
+
+      // Each student's classes come from their enrollments, so students
+      // another instructor added are listed once they join one of these classes
+      const enrollmentsById = new Map<string, StudentEnrollmentSummary[]>();
+      const rosterOnly = new Map<string, Student>();
+      classes
+        .filter((classItem) => !classItem.isArchived)
+        .forEach((classItem) => {
+          (classItem.roster || []).forEach((entry) => {
+            const summaries = enrollmentsById.get(entry.student_id) || [];
+            summaries.push({
+              classId: classItem.id,
+              className: `${classItem.class_name} - ${classItem.section_block}`,
+              status: entry.status,
+            });
+            enrollmentsById.set(entry.student_id, summaries);
+            if (!rosterOnly.has(entry.student_id)) {
+              rosterOnly.set(entry.student_id, {
+                id: entry.student_id,
+                student_id: entry.student_id,
+                first_name: entry.first_name,
+                last_name: entry.last_name,
+                grade: null,
+                email: entry.email || null,
+                section: null,
+                created_at: entry.enrolled_date,
+                enrollments: [],
+              });
+            }
+          });
+        });
+
       const mappedStudents: Student[] = records.map((record) => ({
         id: record.student_id,
         student_id: record.student_id,
@@ -105,9 +161,19 @@ export default function Students() {
         email: record.email || null,
         section: record.section || null,
         created_at: record.created_at,
+        enrollments: [],
       }));
+      const listedIds = new Set(mappedStudents.map((student) => student.student_id));
+      rosterOnly.forEach((student, studentId) => {
+        if (!listedIds.has(studentId)) mappedStudents.push(student);
+      });
 
-      setStudents(mappedStudents);
+      setStudents(
+        mappedStudents.map((student) => ({
+          ...student,
+          enrollments: enrollmentsById.get(student.student_id) || [],
+        })),
+      );
     } catch (error) {
       console.error("Error fetching students:", error);
       toast.error("Failed to load students");
@@ -458,6 +524,12 @@ export default function Students() {
             )}
             Import
           </Button>
+          {can("manage_system") && (
+            <Button variant="outline" onClick={() => setShowMergeDialog(true)}>
+              <Merge className="w-4 h-4 mr-2" />
+              Find Duplicates
+            </Button>
+          )}
           <Button
             className="gradient-primary gap-2"
             onClick={() => setShowAddDialog(true)}
@@ -515,13 +587,14 @@ export default function Students() {
               <TableHead>Grade</TableHead>
               <TableHead>Email</TableHead>
               <TableHead>Block</TableHead>
+              <TableHead>Classes</TableHead>
               <TableHead className="text-center">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-12">
+                <TableCell colSpan={7} className="text-center py-12">
                   <div className="flex items-center justify-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin text-accent" />
                     Loading students...
@@ -530,7 +603,7 @@ export default function Students() {
               </TableRow>
             ) : filteredStudents.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-12">
+                <TableCell colSpan={7} className="text-center py-12">
                   <Users className="w-10 h-10 mx-auto mb-2 text-muted-foreground/50" />
                   <p className="text-muted-foreground">
                     {search
@@ -562,6 +635,22 @@ export default function Students() {
                     {student.email || "—"}
                   </TableCell>
                   <TableCell>{student.section || "—"}</TableCell>
+                  <TableCell>
+                    {student.enrollments.length === 0 ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : (
+                      <div className="flex flex-col gap-1">
+                        {student.enrollments.map((enrollment) => (
+                          <div key={enrollment.classId} className="flex items-center gap-2 text-sm">
+                            <span>{enrollment.className}</span>
+                            {enrollment.status !== "active" && (
+                              <EnrollmentStatusBadge status={enrollment.status} />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center justify-center">
                       <Button
@@ -599,7 +688,7 @@ export default function Students() {
                 onChange={(e) =>
                   setNewStudent({ ...newStudent, student_id: e.target.value })
                 }
-                placeholder="e.g., 2026-0001"
+                placeholder={`e.g., ${getIdExample(idPolicy)}`}
               />
             </div>
             <div className="grid grid-cols-2 gap-4">
@@ -781,6 +870,12 @@ export default function Students() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <StudentMergeDialog
+        open={showMergeDialog}
+        onClose={() => setShowMergeDialog(false)}
+        onMerged={fetchStudents}
+      />
     </div>
   );
 }
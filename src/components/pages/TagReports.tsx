@@ -1,31 +1,54 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft, Plus, Trash2, Tag, FileText, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Tag, FileText, AlertCircle, Download, Pencil, Check, X } from 'lucide-react';
 import { getExamById, Exam } from '@/services/examService';
+import { TagService } from '@/services/tagService';
+import { AnswerKeyService } from '@/services/answerKeyService';
+import { ScanningService } from '@/services/scanningService';
+import { getClassById } from '@/services/classService';
+import { useAuth } from '@/contexts/AuthContext';
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+import { QuestionTag } from '@/types/tags';
+import { computeTagReport, formatQuestionRanges, parseQuestionRanges } from '@/lib/tagReport';
+import { getCountedResults } from '@/lib/duplicateResults';
 import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
 
 interface TagReportsProps {
   params: { id: string };
 }
 
-interface TagItem {
-  id: string;
+// Tags saved in the browser before they moved to Firestore
+interface LegacyTagItem {
   name: string;
   color: string;
   questions: number[];
-  createdAt: string;
 }
 
+const percentColor = (percent: number) => {
+  if (percent >= 75) return 'text-green-600';
+  if (percent >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
 export default function TagReportsPage({ params }: TagReportsProps) {
+  const { user } = useAuth();
   const [exam, setExam] = useState<Exam | null>(null);
-  const [tags, setTags] = useState<TagItem[]>([]);
+  const [tags, setTags] = useState<QuestionTag[]>([]);
+  const [answerKey, setAnswerKey] = useState<AnswerKey | null>(null);
+  const [results, setResults] = useState<ScannedResult[]>([]);
+  const [studentNames, setStudentNames] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [showNewTagForm, setShowNewTagForm] = useState(false);
   const [newTagName, setNewTagName] = useState('');
+  const [newTagQuestions, setNewTagQuestions] = useState('');
   const [selectedColor, setSelectedColor] = useState('bg-blue-500');
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editingQuestions, setEditingQuestions] = useState('');
+  const [reportTagId, setReportTagId] = useState<string | null>(null);
   const examId = params.id;
 
   const colors = [
@@ -49,10 +72,43 @@ export default function TagReportsPage({ params }: TagReportsProps) {
         }
         setExam(examData);
 
-        // Load tags from localStorage (since we don't have a backend service yet)
-        const savedTags = localStorage.getItem(`exam_tags_${examId}`);
-        if (savedTags) {
-          setTags(JSON.parse(savedTags));
+        const tagResult = await TagService.getTagsByExamId(examId);
+        let loadedTags = tagResult.success && tagResult.data ? tagResult.data : [];
+
+        // One-time move of tags that were only kept in this browser
+        const legacyKey = `exam_tags_${examId}`;
+        const savedTags = localStorage.getItem(legacyKey);
+        if (savedTags && loadedTags.length === 0 && user?.id) {
+          const legacy = JSON.parse(savedTags) as LegacyTagItem[];
+          const migrated: QuestionTag[] = [];
+          for (const item of legacy) {
+            const created = await TagService.createTag(examId, item.name, item.color, user.id, item.questions || []);
+            if (created.success && created.data) migrated.push(created.data);
+          }
+          if (migrated.length === legacy.length) {
+            localStorage.removeItem(legacyKey);
+          }
+          loadedTags = migrated;
+        }
+        setTags(loadedTags);
+
+        const akResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
+        if (akResult.success && akResult.data) {
+          setAnswerKey(akResult.data);
+        }
+
+        const scannedResult = await ScanningService.getScannedResultsByExamId(examId);
+        if (scannedResult.success && scannedResult.data) {
+          setResults(getCountedResults(scannedResult.data).filter(r => !r.isNullId));
+        }
+
+        if (examData.classId) {
+          const cls = await getClassById(examData.classId);
+          if (cls) {
+            setStudentNames(Object.fromEntries(
+              cls.students.map(s => [s.student_id, `${s.last_name}, ${s.first_name}`])
+            ));
+          }
         }
       } catch (error) {
         console.error('Error fetching exam data:', error);
@@ -63,43 +119,98 @@ export default function TagReportsPage({ params }: TagReportsProps) {
     };
 
     fetchTagData();
-  }, [examId, params]);
+  }, [examId, params, user?.id]);
+
+  const report = useMemo(() => {
+    if (!answerKey || tags.length === 0) return null;
+    return computeTagReport(results, tags, answerKey, exam?.choicePoints);
+  }, [results, tags, answerKey, exam?.choicePoints]);
 
-  const handleCreateTag = () => {
+  const handleCreateTag = async () => {
     if (!newTagName.trim()) {
       toast.error('Please enter a tag name');
       return;
     }
+    if (!user?.id || !exam) return;
 
-    const newTag: TagItem = {
-      id: `tag_${Date.now()}`,
-      name: newTagName,
-      color: selectedColor,
-      questions: [],
-      createdAt: new Date().toISOString()
-    };
+    const questions = parseQuestionRanges(newTagQuestions, exam.num_items);
+    if (!questions) {
+      toast.error(`Questions must be numbers or ranges between 1 and ${exam.num_items}, e.g. 1-5, 8`);
+      return;
+    }
+
+    const result = await TagService.createTag(examId, newTagName, selectedColor, user.id, questions);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to create tag');
+      return;
+    }
 
-    const updatedTags = [...tags, newTag];
-    setTags(updatedTags);
-    localStorage.setItem(`exam_tags_${examId}`, JSON.stringify(updatedTags));
+    setTags(prev => [...prev, result.data!]);
     setNewTagName('');
+    setNewTagQuestions('');
     setSelectedColor('bg-blue-500');
     setShowNewTagForm(false);
     toast.success('Tag created successfully');
   };
 
-  const handleDeleteTag = (tagId: string) => {
-    const updatedTags = tags.filter(t => t.id !== tagId);
-    setTags(updatedTags);
-    localStorage.setItem(`exam_tags_${examId}`, JSON.stringify(updatedTags));
+  const handleDeleteTag = async (tagId: string) => {
+    const result = await TagService.deleteTag(tagId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete tag');
+      return;
+    }
+    setTags(prev => prev.filter(t => t.id !== tagId));
+    if (reportTagId === tagId) setReportTagId(null);
     toast.success('Tag deleted');
   };
 
-  const getTagReport = (tag: TagItem) => {
+  const handleStartEditQuestions = (tag: QuestionTag) => {
+    setEditingTagId(tag.id);
+    setEditingQuestions(formatQuestionRanges(tag.questions));
+  };
+
+  const handleSaveQuestions = async (tagId: string) => {
+    if (!exam) return;
+    const questions = parseQuestionRanges(editingQuestions, exam.num_items);
+    if (!questions) {
+      toast.error(`Questions must be numbers or ranges between 1 and ${exam.num_items}, e.g. 1-5, 8`);
+      return;
+    }
+
+    const result = await TagService.updateTagQuestions(tagId, questions);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update tag');
+      return;
+    }
+    setTags(prev => prev.map(t => t.id === tagId ? { ...t, questions } : t));
+    setEditingTagId(null);
+    toast.success('Tag questions updated');
+  };
+
+  const handleExportReport = () => {
+    if (!exam || !report) return;
+
+    const header = ['Student ID', 'Student Name', ...tags.map(t => `${t.name} (%)`)];
+    const rows = report.students.map(s => [
+      s.studentId,
+      studentNames[s.studentId] || '',
+      ...tags.map(t => s.tags[t.id].percent),
+    ]);
+    const questionsRow = ['Questions', '', ...tags.map(t => formatQuestionRanges(t.questions))];
+    const classRow = ['Class', '', ...tags.map(t => report.classScores[t.id].percent)];
+
+    const worksheet = XLSX.utils.aoa_to_sheet([header, questionsRow, classRow, ...rows]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Tag Report');
+    XLSX.writeFile(workbook, `${exam.title}_tag_report.xlsx`);
+    toast.success('Tag report downloaded');
+  };
+
+  const getTagReport = (tag: QuestionTag) => {
     if (tag.questions.length === 0) {
       return 'No questions tagged yet';
     }
-    return `${tag.questions.length} question${tag.questions.length !== 1 ? 's' : ''}`;
+    return `${tag.questions.length} question${tag.questions.length !== 1 ? 's' : ''}: ${formatQuestionRanges(tag.questions)}`;
   };
 
   if (loading) {
@@ -124,6 +235,8 @@ export default function TagReportsPage({ params }: TagReportsProps) {
     );
   }
 
+  const reportTag = tags.find(t => t.id === reportTagId);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -143,13 +256,23 @@ export default function TagReportsPage({ params }: TagReportsProps) {
             <p className="text-xs sm:text-sm text-muted-foreground mt-1">Exam: {exam.title}</p>
           </div>
         </div>
-        <button
-          onClick={() => setShowNewTagForm(!showNewTagForm)}
-          className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold hover:bg-primary/90 transition-colors whitespace-nowrap"
-        >
-          <Plus className="w-4 h-4" />
-          New Tag
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportReport}
+            disabled={!report || results.length === 0}
+            className="flex items-center justify-center gap-2 px-4 py-2 border rounded-md font-semibold hover:bg-muted transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <button
+            onClick={() => setShowNewTagForm(!showNewTagForm)}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md font-semibold hover:bg-primary/90 transition-colors whitespace-nowrap"
+          >
+            <Plus className="w-4 h-4" />
+            New Tag
+          </button>
+        </div>
       </div>
 
       {/* New Tag Form */}
@@ -163,11 +286,21 @@ export default function TagReportsPage({ params }: TagReportsProps) {
                 type="text"
                 value={newTagName}
                 onChange={(e) => setNewTagName(e.target.value)}
-                placeholder="e.g., Chapter 1, Difficult Questions, Review"
+                placeholder="e.g., Chapter 1, Fractions, Learning Outcome 2"
                 className="w-full px-4 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                 onKeyPress={(e) => e.key === 'Enter' && handleCreateTag()}
               />
             </div>
+            <div>
+              <label className="text-sm font-semibold text-foreground block mb-2">Questions</label>
+              <input
+                type="text"
+                value={newTagQuestions}
+                onChange={(e) => setNewTagQuestions(e.target.value)}
+                placeholder={`e.g., 1-5, 8 (1 to ${exam.num_items})`}
+                className="w-full px-4 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
             <div>
               <label className="text-sm font-semibold text-foreground block mb-2">Color</label>
               <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
@@ -215,32 +348,128 @@ export default function TagReportsPage({ params }: TagReportsProps) {
         </Card>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {tags.map(tag => (
-            <Card key={tag.id} className="p-4 sm:p-6 border hover:shadow-md transition-shadow">
-              <div className="flex items-start justify-between mb-4">
-                <div className={`w-6 h-6 rounded-lg ${tag.color} flex-shrink-0`} />
+          {tags.map(tag => {
+            const classScore = report?.classScores[tag.id];
+            return (
+              <Card key={tag.id} className="p-4 sm:p-6 border hover:shadow-md transition-shadow">
+                <div className="flex items-start justify-between mb-4">
+                  <div className={`w-6 h-6 rounded-lg ${tag.color} flex-shrink-0`} />
+                  <button
+                    onClick={() => {
+                      if (confirm('Are you sure you want to delete this tag?')) {
+                        handleDeleteTag(tag.id);
+                      }
+                    }}
+                    className="text-muted-foreground hover:text-destructive transition-colors p-1 hover:bg-muted rounded"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <h3 className="font-bold text-foreground mb-1">{tag.name}</h3>
+                {editingTagId === tag.id ? (
+                  <div className="flex items-center gap-1 mb-4">
+                    <input
+                      type="text"
+                      value={editingQuestions}
+                      onChange={(e) => setEditingQuestions(e.target.value)}
+                      onKeyPress={(e) => e.key === 'Enter' && handleSaveQuestions(tag.id)}
+                      placeholder="e.g., 1-5, 8"
+                      className="flex-1 min-w-0 px-2 py-1 border rounded-md text-sm bg-background"
+                      autoFocus
+                    />
+                    <button onClick={() => handleSaveQuestions(tag.id)} className="p-1 text-green-600 hover:bg-muted rounded" title="Save">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingTagId(null)} className="p-1 text-muted-foreground hover:bg-muted rounded" title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-1 mb-4">
+                    <p className="text-sm text-muted-foreground flex-1">{getTagReport(tag)}</p>
+                    <button
+                      onClick={() => handleStartEditQuestions(tag)}
+                      className="p-1 text-muted-foreground hover:text-primary hover:bg-muted rounded"
+                      title="Edit questions"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+                {classScore && results.length > 0 && tag.questions.length > 0 && (
+                  <div className="mb-4">
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="text-muted-foreground">Class mastery</span>
+                      <span className={`font-semibold ${percentColor(classScore.percent)}`}>{classScore.percent}%</span>
+                    </div>
+                    <div className="h-2 bg-muted rounded-full overflow-hidden">
+                      <div className={`h-full ${tag.color}`} style={{ width: `${classScore.percent}%` }} />
+                    </div>
+                  </div>
+                )}
                 <button
-                  onClick={() => {
-                    if (confirm('Are you sure you want to delete this tag?')) {
-                      handleDeleteTag(tag.id);
-                    }
-                  }}
-                  className="text-muted-foreground hover:text-destructive transition-colors p-1 hover:bg-muted rounded"
+                  onClick={() => setReportTagId(reportTagId === tag.id ? null : tag.id)}
+                  disabled={tag.questions.length === 0 || results.length === 0}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded-md text-sm font-semibold hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <Trash2 className="w-4 h-4" />
+                  <FileText className="w-4 h-4" />
+                  {reportTagId === tag.id ? 'Hide Report' : 'View Report'}
                 </button>
-              </div>
-              <h3 className="font-bold text-foreground mb-1">{tag.name}</h3>
-              <p className="text-sm text-muted-foreground mb-4">{getTagReport(tag)}</p>
-              <button className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded-md text-sm font-semibold hover:bg-muted transition-colors">
-                <FileText className="w-4 h-4" />
-                View Report
-              </button>
-            </Card>
-          ))}
+              </Card>
+            );
+          })}
         </div>
       )}
 
+      {!answerKey && tags.length > 0 && (
+        <Card className="p-4 border text-sm text-muted-foreground">
+          Save an answer key for this exam to see competency scores.
+        </Card>
+      )}
+
+      {/* Per-student report for one tag */}
+      {reportTag && report && (
+        <Card className="p-4 sm:p-6 border">
+          <h2 className="font-bold text-foreground mb-1 flex items-center gap-2">
+            <div className={`w-4 h-4 rounded ${reportTag.color}`} />
+            {reportTag.name}
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Questions {formatQuestionRanges(reportTag.questions)} · Class {report.classScores[reportTag.id].percent}%
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4">Student</th>
+                  <th className="py-2 pr-4 text-right">Points</th>
+                  <th className="py-2 text-right">Correct</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...report.students]
+                  .sort((a, b) => a.tags[reportTag.id].percent - b.tags[reportTag.id].percent)
+                  .map(student => {
+                    const score = student.tags[reportTag.id];
+                    return (
+                      <tr key={student.resultId} className="border-b last:border-0">
+                        <td className="py-2 pr-4">
+                          <span className="font-medium">{studentNames[student.studentId] || student.studentId}</span>
+                          {studentNames[student.studentId] && (
+                            <span className="text-xs text-muted-foreground ml-2 font-mono">{student.studentId}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{score.earned}/{score.possible}</td>
+                        <td className={`py-2 text-right font-semibold ${percentColor(score.percent)}`}>{score.percent}%</td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
       {/* Information Card */}
       <Card className="p-4 sm:p-6 border bg-blue-50 border-blue-200">
         <h3 className="font-semibold text-foreground mb-2 flex items-center gap-2">
@@ -248,11 +477,11 @@ export default function TagReportsPage({ params }: TagReportsProps) {
           How to Use Tags
         </h3>
         <ul className="text-sm text-foreground space-y-2 ml-7">
-          <li>• Create tags to organize questions by topic, difficulty, or type</li>
-          <li>• Each tag can contain multiple questions from this exam</li>
-          <li>• Use different colors to visually distinguish between tags</li>
-          <li>• View detailed reports for each tag to analyze question patterns</li>
-          <li>• Tags help identify areas where students struggle</li>
+          <li>• Create tags for competencies, learning outcomes or topics</li>
+          <li>• Attach questions by number or range, e.g. 1-5, 8 (master question numbers for multi-set exams)</li>
+          <li>• Each tag shows the share of its points the class earned on saved results</li>
+          <li>• View a tag&apos;s report to see every student&apos;s score, weakest first</li>
+          <li>• Export downloads every student&apos;s score per tag; each student&apos;s scores also appear in Review Papers</li>
         </ul>
       </Card>
     </div>
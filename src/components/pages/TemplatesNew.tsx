@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,30 +20,26 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { FileText, Download, Plus, Eye, Trash2 } from 'lucide-react';
+import { FileText, Download, Plus, Eye, Trash2, Pencil, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import { collection, getDocs, addDoc, deleteDoc, doc, serverTimestamp, query, where } from 'firebase/firestore';
+import { collection, getDocs, query, where } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { generateTemplatePDF } from '@/lib/templatePdfGenerator';
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  numQuestions: number;
-  choicesPerQuestion: number;
-  layout: 'single' | 'double' | 'quad';
-  includeStudentId: boolean;
-  studentIdLength: number;
-  createdBy: string;
-  instructorId?: string;
-  classId?: string;
-  className?: string;
-  examId?: string;
-  examName?: string;
-  createdAt: string;
-}
+import {
+  MAX_ID_DIGITS,
+  MAX_SHEET_CHOICES,
+  MIN_ID_DIGITS,
+  SHEET_CHOICE_LABELS,
+  SHEET_LAYOUT_LABELS,
+  createSheetTemplate,
+  validateSheetTemplate,
+} from '@/lib/sheetTemplates';
+import { TemplateService, TemplateInput, resolveTemplateDefinition } from '@/services/templateService';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { countIdDigits, describeIdFormat } from '@/lib/studentIdPolicy';
+import { SheetPreview } from '@/components/templates/SheetPreview';
+import { AnswerSheetTemplate, SheetLayout, SheetTemplateDefinition } from '@/types/templates';
 
 interface Class {
   id: string;
@@ -55,42 +51,82 @@ interface Exam {
   title: string;
 }
 
+interface TemplateForm {
+  name: string;
+  description: string;
+  layout: SheetLayout;
+  numQuestions: number;
+  choicesPerQuestion: number;
+  studentIdLength: number;
+  rowsPerBlock: number;
+  // Optional overrides in mm; 0 keeps the layout's default
+  bubbleSize: number;
+  bubbleSpacing: number;
+  rowSpacing: number;
+  classId: string;
+  examId: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  description: '',
+  layout: 'single',
+  numQuestions: 50,
+  choicesPerQuestion: 4,
+  studentIdLength: 9,
+  rowsPerBlock: 10,
+  bubbleSize: 0,
+  bubbleSpacing: 0,
+  rowSpacing: 0,
+  classId: '',
+  examId: '',
+};
+
+const buildDefinition = (form: TemplateForm): SheetTemplateDefinition =>
+  createSheetTemplate({
+    layout: form.layout,
+    numQuestions: form.numQuestions,
+    choices: form.choicesPerQuestion,
+    idDigits: form.studentIdLength,
+    rowsPerBlock: form.rowsPerBlock,
+    bubbleSize: form.bubbleSize || undefined,
+    bubbleSpacing: form.bubbleSpacing || undefined,
+    rowSpacing: form.rowSpacing || undefined,
+  });
+
 export default function Templates() {
   const { user } = useAuth();
-  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showDesigner, setShowDesigner] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<AnswerSheetTemplate | null>(null);
   const [showPreview, setShowPreview] = useState(false);
-  const [previewTemplate, setPreviewTemplate] = useState<Template | null>(null);
+  const [previewTemplate, setPreviewTemplate] = useState<AnswerSheetTemplate | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [templateToDelete, setTemplateToDelete] = useState<Template | null>(null);
-  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templateToDelete, setTemplateToDelete] = useState<AnswerSheetTemplate | null>(null);
+  const [templates, setTemplates] = useState<AnswerSheetTemplate[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
   const [exams, setExams] = useState<Exam[]>([]);
   const [loading, setLoading] = useState(true);
-  
-  const [newTemplate, setNewTemplate] = useState({
-    name: '',
-    description: '',
-    numQuestions: 50,
-    choicesPerQuestion: 4,
-    layout: 'single' as 'single' | 'double' | 'quad',
-    includeStudentId: true,
-    studentIdLength: 10,
-    classId: '',
-    examId: '',
-  });
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
+  const policyDigits = countIdDigits(idPolicy);
+
+  const definition = useMemo(() => buildDefinition(form), [form]);
+  const validationErrors = useMemo(() => validateSheetTemplate(definition), [definition]);
 
   // Fetch classes and exams on mount
   useEffect(() => {
     if (user?.id) {
       fetchClassesAndExams();
       fetchTemplates();
+      StudentIdPolicyService.getPolicy().then(setIdPolicy);
     }
   }, [user?.id]);
 
   const fetchClassesAndExams = async () => {
     try {
       // Fetch classes
-      const classesSnapshot = await getDocs(collection(db, 'classes'));
+      const classesSnapshot = await getDocs(query(collection(db, 'classes'), where('createdBy', '==', user?.id)));
       const fetchedClasses = classesSnapshot.docs.map(doc => ({
         id: doc.id,
         class_name: doc.data().class_name || 'Unnamed Class',
@@ -98,7 +134,7 @@ export default function Templates() {
       setClasses(fetchedClasses);
 
       // Fetch exams
-      const examsSnapshot = await getDocs(collection(db, 'exams'));
+      const examsSnapshot = await getDocs(query(collection(db, 'exams'), where('createdBy', '==', user?.id)));
       const fetchedExams = examsSnapshot.docs.map(doc => ({
         id: doc.id,
         title: doc.data().title || 'Unnamed Exam',
@@ -116,101 +152,98 @@ export default function Templates() {
       return;
     }
 
-    try {
-      setLoading(true);
-      // Query templates filtered by current user's instructorId
-      const templatesQuery = query(
-        collection(db, 'templates'),
-        where('instructorId', '==', user.instructorId)
-      );
-      const templatesSnapshot = await getDocs(templatesQuery);
-      const fetchedTemplates = templatesSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-      } as Template));
-      setTemplates(fetchedTemplates);
-    } catch (error) {
-      console.error('Error fetching templates:', error);
-    } finally {
-      setLoading(false);
+    setLoading(true);
+    const result = await TemplateService.getTemplates(user.instructorId);
+    if (result.success && result.data) {
+      setTemplates(result.data);
     }
+    setLoading(false);
   };
 
-  const handleCreateTemplate = async () => {
+  const openDesigner = (template?: AnswerSheetTemplate) => {
+    setEditingTemplate(template || null);
+    if (template) {
+      const source = resolveTemplateDefinition(template);
+      setForm({
+        name: template.name,
+        description: template.description || '',
+        layout: template.layout,
+        numQuestions: template.numQuestions,
+        choicesPerQuestion: template.choicesPerQuestion,
+        studentIdLength: template.studentIdLength,
+        rowsPerBlock: template.rowsPerBlock || 10,
+        bubbleSize: source.answers.bubbleSize,
+        bubbleSpacing: source.answers.bubbleSpacing,
+        rowSpacing: source.answers.rowSpacing,
+        classId: template.classId || '',
+        examId: template.examId || '',
+      });
+    } else {
+      // New sheets get one ID column per digit of the institution's Student ID
+      setForm({ ...EMPTY_FORM, studentIdLength: Math.max(MIN_ID_DIGITS, policyDigits) });
+    }
+    setShowDesigner(true);
+  };
+
+  const updateForm = (changes: Partial<TemplateForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSaveTemplate = async () => {
     if (!user?.instructorId) {
       toast.error('⚠️ Instructor ID not found. Please log out and log back in.');
       return;
     }
 
-    if (!newTemplate.name.trim()) {
+    if (!form.name.trim()) {
       toast.error('Please enter a template name');
       return;
     }
 
-    console.log('📝 Creating template...');
-    console.log('  - Template data:', newTemplate);
-    console.log('  - InstructorId:', user.instructorId);
+    if (validationErrors.length > 0) {
+      toast.error(validationErrors[0]);
+      return;
+    }
 
-    try {
-      // Get class and exam names if IDs are provided
-      const selectedClass = classes.find(c => c.id === newTemplate.classId);
-      const selectedExam = exams.find(e => e.id === newTemplate.examId);
-
-      const templateData = {
-        name: newTemplate.name,
-        description: newTemplate.description,
-        numQuestions: newTemplate.numQuestions,
-        choicesPerQuestion: newTemplate.choicesPerQuestion,
-        layout: newTemplate.layout,
-        includeStudentId: newTemplate.includeStudentId,
-        studentIdLength: newTemplate.studentIdLength,
-        createdBy: user.id,
-        instructorId: user.instructorId,
-        ...(newTemplate.classId && newTemplate.classId !== 'none' && {
-          classId: newTemplate.classId,
-          className: selectedClass?.class_name,
-        }),
-        ...(newTemplate.examId && newTemplate.examId !== 'none' && {
-          examId: newTemplate.examId,
-          examName: selectedExam?.title,
-        }),
-        createdAt: serverTimestamp(),
-      };
-
-      // Save to Firestore
-      const docRef = await addDoc(collection(db, 'templates'), templateData);
-      console.log('✅ Template created with ID:', docRef.id);
-
-      // Refresh templates list
-      await fetchTemplates();
-      
-      setShowCreateDialog(false);
-      toast.success('Template created successfully!');
-      
-      // Reset form
-      setNewTemplate({
-        name: '',
-        description: '',
-        numQuestions: 50,
-        choicesPerQuestion: 4,
-        layout: 'single',
-        includeStudentId: true,
-        studentIdLength: 10,
-        classId: '',
-        examId: '',
-      });
-    } catch (error) {
-      console.error('❌ Error creating template:', error);
-      toast.error('Failed to create template');
+    // Get class and exam names if IDs are provided
+    const classId = form.classId && form.classId !== 'none' ? form.classId : undefined;
+    const examId = form.examId && form.examId !== 'none' ? form.examId : undefined;
+    const templateData: TemplateInput = {
+      name: form.name.trim(),
+      description: form.description,
+      numQuestions: form.numQuestions,
+      choicesPerQuestion: form.choicesPerQuestion,
+      layout: form.layout,
+      studentIdLength: form.studentIdLength,
+      rowsPerBlock: form.rowsPerBlock,
+      definition,
+      instructorId: user.instructorId,
+      classId,
+      className: classId ? classes.find(c => c.id === classId)?.class_name : undefined,
+      examId,
+      examName: examId ? exams.find(e => e.id === examId)?.title : undefined,
+    };
+
+    setSaving(true);
+    const result = editingTemplate
+      ? await TemplateService.updateTemplate(editingTemplate.id, templateData)
+      : await TemplateService.createTemplate(templateData, user.id);
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(`Failed to save template: ${result.error || 'Unknown error'}`);
+      return;
     }
+
+    await fetchTemplates();
+    setShowDesigner(false);
+    toast.success(editingTemplate ? 'Template updated' : 'Template created successfully!');
   };
 
-  const handlePreview = (template: Template) => {
+  const handlePreview = (template: AnswerSheetTemplate) => {
     setPreviewTemplate(template);
     setShowPreview(true);
   };
 
-  const handleDownload = async (template: Template) => {
+  const handleDownload = async (template: AnswerSheetTemplate) => {
     try {
       toast.info('📄 Generating PDF...');
       await generateTemplatePDF({
@@ -220,6 +253,7 @@ export default function Templates() {
         choicesPerQuestion: template.choicesPerQuestion,
         examName: template.examName,
         className: template.className,
+        definition: resolveTemplateDefinition(template),
       });
       toast.success(`✅ Downloaded ${template.name}`);
     } catch (error) {
@@ -228,7 +262,7 @@ export default function Templates() {
     }
   };
 
-  const confirmDelete = (template: Template) => {
+  const confirmDelete = (template: AnswerSheetTemplate) => {
     setTemplateToDelete(template);
     setShowDeleteDialog(true);
   };
@@ -236,25 +270,31 @@ export default function Templates() {
   const handleDelete = async () => {
     if (!templateToDelete) return;
 
-    try {
-      await deleteDoc(doc(db, 'templates', templateToDelete.id));
+    const result = await TemplateService.deleteTemplate(templateToDelete.id);
+    if (result.success) {
       setTemplates((prev) => prev.filter((t) => t.id !== templateToDelete.id));
       toast.success(`"${templateToDelete.name}" deleted successfully`);
-    } catch (error) {
-      console.error('Error deleting template:', error);
+    } else {
       toast.error('Failed to delete template');
-    } finally {
-      setShowDeleteDialog(false);
-      setTemplateToDelete(null);
     }
+    setShowDeleteDialog(false);
+    setTemplateToDelete(null);
   };
 
   return (
     <div className="space-y-6 p-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Answer Sheet Templates</h1>
-        <p className="text-muted-foreground mt-1">Create ZipGrade-inspired answer sheet templates for optical scanning.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Answer Sheet Templates</h1>
+          <p className="text-muted-foreground mt-1">Design answer sheets for optical scanning. Scans are read with the same layout that was printed.</p>
+        </div>
+        {templates.length > 0 && (
+          <Button onClick={() => openDesigner()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Template
+          </Button>
+        )}
       </div>
 
       {/* Loading State */}
@@ -272,7 +312,7 @@ export default function Templates() {
             <p className="text-muted-foreground mb-4">
               Create your first answer sheet template with customizable questions, choices, and layout options.
             </p>
-            <Button onClick={() => setShowCreateDialog(true)}>
+            <Button onClick={() => openDesigner()}>
               <Plus className="w-4 h-4 mr-2" />
               Create Template
             </Button>
@@ -305,6 +345,14 @@ export default function Templates() {
                   <span className="font-medium">Items:</span>
                   <span>{template.numQuestions}</span>
                 </div>
+                <div className="flex items-center gap-1">
+                  <span className="font-medium">Sheet:</span>
+                  <span>{SHEET_LAYOUT_LABELS[template.layout].split(' (')[0]}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="font-medium">ID:</span>
+                  <span>{template.studentIdLength} digits</span>
+                </div>
               </div>
 
               {/* Show linked class/exam */}
@@ -344,182 +392,255 @@ export default function Templates() {
                   <Download className="w-4 h-4 mr-1" />
                   Download
                 </Button>
+                <Button variant="ghost" size="sm" onClick={() => openDesigner(template)} title="Edit template">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => confirmDelete(template)}
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
               </div>
             </Card>
           ))}
         </div>
       )}
 
-      {/* Create Template Dialog */}
-      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      {/* Template Designer Dialog */}
+      <Dialog open={showDesigner} onOpenChange={setShowDesigner}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Create Answer Sheet Template</DialogTitle>
+            <DialogTitle>{editingTemplate ? 'Edit Answer Sheet Template' : 'Design Answer Sheet Template'}</DialogTitle>
             <DialogDescription>
-              Create a ZipGrade-inspired answer sheet template with customizable options.
+              Choose the sheet size, items and choices. The preview shows exactly what will be printed and scanned.
             </DialogDescription>
           </DialogHeader>
 
-          <div className="space-y-4 py-4">
-            {/* Template Name */}
-            <div className="space-y-2">
-              <Label htmlFor="name">Template Name *</Label>
-              <Input
-                id="name"
-                placeholder="e.g., 50-Question Multiple Choice"
-                value={newTemplate.name}
-                onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
-              />
-            </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
+            <div className="space-y-4">
+              {/* Template Name */}
+              <div className="space-y-2">
+                <Label htmlFor="name">Template Name *</Label>
+                <Input
+                  id="name"
+                  placeholder="e.g., 30-Item Quiz"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
 
-            {/* Description */}
-            <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
-              <Input
-                id="description"
-                placeholder="Brief description of the template"
-                value={newTemplate.description}
-                onChange={(e) => setNewTemplate({ ...newTemplate, description: e.target.value })}
-              />
-            </div>
+              {/* Description */}
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  placeholder="Brief description of the template"
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                />
+              </div>
 
-            {/* Number of Questions */}
-            <div className="space-y-2">
-              <Label htmlFor="numQuestions">Number of Questions *</Label>
-              <Select
-                value={newTemplate.numQuestions.toString()}
-                onValueChange={(value) => setNewTemplate({ ...newTemplate, numQuestions: parseInt(value) })}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="20">20 Questions</SelectItem>
-                  <SelectItem value="50">50 Questions</SelectItem>
-                  <SelectItem value="100">100 Questions</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+              {/* Sheet Size */}
+              <div className="space-y-2">
+                <Label htmlFor="layout">Sheet Size *</Label>
+                <Select
+                  value={form.layout}
+                  onValueChange={(value: SheetLayout) =>
+                    // Bubble overrides are per sheet size
+                    updateForm({ layout: value, bubbleSize: 0, bubbleSpacing: 0, rowSpacing: 0 })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SHEET_LAYOUT_LABELS) as SheetLayout[]).map((layout) => (
+                      <SelectItem key={layout} value={layout}>
+                        {SHEET_LAYOUT_LABELS[layout]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-            {/* Link to Class */}
-            <div className="space-y-2">
-              <Label htmlFor="classId">Link to Class (Optional)</Label>
-              <Select
-                value={newTemplate.classId}
-                onValueChange={(value) => setNewTemplate({ ...newTemplate, classId: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a class" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">None</SelectItem>
-                  {classes.map((cls) => (
-                    <SelectItem key={cls.id} value={cls.id}>
-                      {cls.class_name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+              <div className="grid grid-cols-2 gap-4">
+                {/* Number of Questions */}
+                <div className="space-y-2">
+                  <Label htmlFor="numQuestions">Number of Questions *</Label>
+                  <Input
+                    id="numQuestions"
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={form.numQuestions}
+                    onChange={(e) => updateForm({ numQuestions: Math.max(1, Math.min(200, parseInt(e.target.value) || 1)) })}
+                  />
+                </div>
 
-            {/* Link to Exam */}
-            <div className="space-y-2">
-              <Label htmlFor="examId">Link to Exam (Optional)</Label>
-              <Select
-                value={newTemplate.examId}
-                onValueChange={(value) => setNewTemplate({ ...newTemplate, examId: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select an exam" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">None</SelectItem>
-                  {exams.map((exam) => (
-                    <SelectItem key={exam.id} value={exam.id}>
-                      {exam.title}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+                {/* Questions per block */}
+                <div className="space-y-2">
+                  <Label htmlFor="rowsPerBlock">Questions per Block</Label>
+                  <Input
+                    id="rowsPerBlock"
+                    type="number"
+                    min={5}
+                    max={25}
+                    value={form.rowsPerBlock}
+                    onChange={(e) => updateForm({ rowsPerBlock: Math.max(5, Math.min(25, parseInt(e.target.value) || 10)) })}
+                  />
+                </div>
+              </div>
 
-            {/* Choices Per Question */}
-            <div className="space-y-2">
-              <Label htmlFor="choices">Choices Per Question *</Label>
-              <Select
-                value={newTemplate.choicesPerQuestion.toString()}
-                onValueChange={(value) => setNewTemplate({ ...newTemplate, choicesPerQuestion: parseInt(value) })}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="3">3 Choices (A, B, C)</SelectItem>
-                  <SelectItem value="4">4 Choices (A, B, C, D)</SelectItem>
-                  <SelectItem value="5">5 Choices (A, B, C, D, E)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+              <div className="grid grid-cols-2 gap-4">
+                {/* Choices Per Question */}
+                <div className="space-y-2">
+                  <Label htmlFor="choices">Choices Per Question *</Label>
+                  <Select
+                    value={form.choicesPerQuestion.toString()}
+                    onValueChange={(value) => updateForm({ choicesPerQuestion: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: MAX_SHEET_CHOICES - 1 }, (_, i) => i + 2).map((count) => (
+                        <SelectItem key={count} value={count.toString()}>
+                          {count} Choices ({SHEET_CHOICE_LABELS.slice(0, count).join(', ')})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-            {/* Layout */}
-            <div className="space-y-2">
-              <Label htmlFor="layout">Page Layout *</Label>
-              <Select
-                value={newTemplate.layout}
-                onValueChange={(value: 'single' | 'double' | 'quad') => setNewTemplate({ ...newTemplate, layout: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="single">Single Column (1-100)</SelectItem>
-                  <SelectItem value="double">Double Column (1-50, 51-100)</SelectItem>
-                  <SelectItem value="quad">Quad Layout (ZipGrade style)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+                {/* Student ID Length */}
+                <div className="space-y-2">
+                  <Label htmlFor="studentIdLength">Student ID Length</Label>
+                  <Select
+                    value={form.studentIdLength.toString()}
+                    onValueChange={(value) => updateForm({ studentIdLength: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: MAX_ID_DIGITS - MIN_ID_DIGITS + 1 }, (_, i) => i + MIN_ID_DIGITS).map((digits) => (
+                        <SelectItem key={digits} value={digits.toString()}>
+                          {digits} digits
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {form.studentIdLength < policyDigits && (
+                    <p className="text-xs text-amber-700">
+                      Student IDs ({describeIdFormat(idPolicy)}) have {policyDigits} digits and will not fit
+                      this grid.
+                    </p>
+                  )}
+                </div>
+              </div>
 
-            {/* Student ID Options */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="includeStudentId">Include Student ID Section</Label>
-                <input
-                  type="checkbox"
-                  id="includeStudentId"
-                  className="h-4 w-4"
-                  checked={newTemplate.includeStudentId}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, includeStudentId: e.target.checked })}
-                />
+              {/* Bubble sizing (mm) */}
+              <div className="space-y-2">
+                <Label>Bubbles (mm)</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    ['bubbleSize', 'Diameter', definition.answers.bubbleSize],
+                    ['bubbleSpacing', 'Choice spacing', definition.answers.bubbleSpacing],
+                    ['rowSpacing', 'Row spacing', definition.answers.rowSpacing],
+                  ] as const).map(([field, label, value]) => (
+                    <div key={field} className="space-y-1">
+                      <span className="text-xs text-muted-foreground">{label}</span>
+                      <Input
+                        type="number"
+                        step={0.1}
+                        min={2}
+                        max={8}
+                        value={value}
+                        onChange={(e) => updateForm({ [field]: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
 
-            {newTemplate.includeStudentId && (
-              <div className="space-y-2 pl-4 border-l-2">
-                <Label htmlFor="studentIdLength">Student ID Length</Label>
+              {/* Link to Class */}
+              <div className="space-y-2">
+                <Label htmlFor="classId">Link to Class (Optional)</Label>
                 <Select
-                  value={newTemplate.studentIdLength.toString()}
-                  onValueChange={(value) => setNewTemplate({ ...newTemplate, studentIdLength: parseInt(value) })}
+                  value={form.classId}
+                  onValueChange={(value) => updateForm({ classId: value })}
                 >
                   <SelectTrigger>
-                    <SelectValue />
+                    <SelectValue placeholder="Select a class" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="6">6 digits</SelectItem>
-                    <SelectItem value="8">8 digits</SelectItem>
-                    <SelectItem value="10">10 digits</SelectItem>
-                    <SelectItem value="12">12 digits</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
+                    {classes.map((cls) => (
+                      <SelectItem key={cls.id} value={cls.id}>
+                        {cls.class_name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
-            )}
+
+              {/* Link to Exam */}
+              <div className="space-y-2">
+                <Label htmlFor="examId">Link to Exam (Optional)</Label>
+                <Select
+                  value={form.examId}
+                  onValueChange={(value) => updateForm({ examId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an exam" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {exams.map((exam) => (
+                      <SelectItem key={exam.id} value={exam.id}>
+                        {exam.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Scans for the linked exam are read with this layout.
+                </p>
+              </div>
+            </div>
+
+            {/* Live Preview */}
+            <div className="space-y-3">
+              <div className="border rounded-lg p-4 bg-gray-200">
+                <SheetPreview definition={definition} className="w-full mx-auto" />
+              </div>
+              {validationErrors.length > 0 ? (
+                <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700 space-y-1">
+                  {validationErrors.map((error) => (
+                    <div key={error} className="flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{error}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground text-center">
+                  {form.numQuestions} items in {definition.answers.blocks.length} blocks
+                </p>
+              )}
+            </div>
           </div>
 
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+            <Button variant="outline" onClick={() => setShowDesigner(false)}>
               Cancel
             </Button>
-            <Button onClick={handleCreateTemplate}>
-              Create Template
+            <Button onClick={handleSaveTemplate} disabled={saving || validationErrors.length > 0}>
+              {saving ? 'Saving...' : editingTemplate ? 'Save Changes' : 'Create Template'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -536,196 +657,12 @@ export default function Templates() {
           </DialogHeader>
 
           <div className="border rounded-lg p-4 bg-gray-200 overflow-auto" style={{ maxHeight: '65vh' }}>
-            {previewTemplate && (() => {
-              const numQ = previewTemplate.numQuestions;
-              const numC = previewTemplate.choicesPerQuestion;
-              const choiceLetters = ['A', 'B', 'C', 'D', 'E'].slice(0, numC);
-
-              // Reusable: question block component
-              const QBlock = ({ startQ, endQ }: { startQ: number; endQ: number }) => (
-                <div>
-                  {/* Header: ■ A B C D */}
-                  <div className="flex items-center gap-[2px] mb-[2px]">
-                    <div className="w-[6px] h-[6px] bg-black flex-shrink-0"></div>
-                    <div className="w-[14px]"></div>
-                    {choiceLetters.map(c => (
-                      <div key={c} className="w-[10px] text-center text-[6px] font-bold leading-none">{c}</div>
-                    ))}
-                  </div>
-                  {/* Rows */}
-                  {Array.from({ length: endQ - startQ + 1 }).map((_, i) => (
-                    <div key={i} className="flex items-center gap-[2px] mb-[1px]">
-                      <div className="w-[6px]"></div>
-                      <div className="w-[14px] text-right text-[6px] font-bold leading-none pr-[2px]">{startQ + i}</div>
-                      {choiceLetters.map((_, j) => (
-                        <div key={j} className="w-[10px] h-[10px] rounded-full border border-gray-800 bg-white flex-shrink-0"></div>
-                      ))}
-                    </div>
-                  ))}
-                </div>
-              );
-
-              // Reusable: ID section
-              const IdSection = ({ small }: { small?: boolean }) => (
-                <div className={`border border-black ${small ? 'p-1' : 'p-1.5'}`}>
-                  <div className={`${small ? 'text-[6px]' : 'text-[7px]'} font-bold mb-0.5`}>Student ZipGrade ID</div>
-                  {/* Input boxes */}
-                  <div className="flex gap-[2px] mb-[2px]">
-                    {Array.from({ length: 10 }).map((_, i) => (
-                      <div key={i} className={`${small ? 'w-[8px] h-[7px]' : 'w-[10px] h-[8px]'} border border-black`}></div>
-                    ))}
-                  </div>
-                  {/* Bubble grid */}
-                  <div className="flex gap-[1px] items-start">
-                    <div className="flex flex-col">
-                      {[0,1,2,3,4,5,6,7,8,9].map(n => (
-                        <div key={n} className={`${small ? 'h-[8px] text-[5px]' : 'h-[10px] text-[6px]'} flex items-center font-bold w-[8px] justify-end pr-[1px]`}>{n}</div>
-                      ))}
-                    </div>
-                    {Array.from({ length: 10 }).map((_, col) => (
-                      <div key={col} className="flex flex-col">
-                        {[0,1,2,3,4,5,6,7,8,9].map(row => (
-                          <div key={row} className={`${small ? 'w-[7px] h-[7px] m-[0.5px]' : 'w-[9px] h-[9px] m-[0.5px]'} rounded-full border border-gray-800 bg-white`}></div>
-                        ))}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              );
-
-              // Reusable: mini sheet (for 20Q and 50Q)
-              const MiniSheet = ({ questions, sheetW, sheetH }: { questions: number; sheetW: string; sheetH: string }) => (
-                <div className="bg-white border border-black relative" style={{ width: sheetW, height: sheetH, padding: '6px' }}>
-                  {/* Corner markers */}
-                  <div className="absolute top-[4px] left-[4px] w-[5px] h-[5px] bg-black"></div>
-                  <div className="absolute top-[4px] right-[4px] w-[5px] h-[5px] bg-black"></div>
-                  <div className="absolute bottom-[4px] left-[4px] w-[5px] h-[5px] bg-black"></div>
-                  <div className="absolute bottom-[4px] right-[4px] w-[5px] h-[5px] bg-black"></div>
-
-                  {/* Header */}
-                  <div className="flex items-center justify-center gap-1 mb-1">
-                    <div className="w-[10px] h-[10px] bg-green-700 rounded-full flex items-center justify-center text-white text-[5px] font-bold">G</div>
-                    <span className="text-[7px] font-bold">Gordon College</span>
-                  </div>
-
-                  {/* Name/Date */}
-                  <div className="flex gap-1 mb-1 text-[5px]">
-                    <div className="flex-1">
-                      <span className="font-semibold">Name:</span>
-                      <div className="border-b border-black mt-[1px]"></div>
-                    </div>
-                    <div className="flex-1">
-                      <span className="font-semibold">Date:</span>
-                      <div className="border-b border-black mt-[1px]"></div>
-                    </div>
-                  </div>
-
-                  {/* ID Section */}
-                  <div className="mb-1">
-                    <IdSection small />
-                  </div>
-
-                  {/* Answer blocks */}
-                  {questions === 20 ? (
-                    <div className="flex gap-2 mt-1">
-                      <QBlock startQ={1} endQ={10} />
-                      <QBlock startQ={11} endQ={20} />
-                    </div>
-                  ) : (
-                    <div className="flex gap-1 mt-1">
-                      <div className="space-y-1">
-                        <QBlock startQ={1} endQ={10} />
-                        <QBlock startQ={11} endQ={20} />
-                        <QBlock startQ={21} endQ={30} />
-                      </div>
-                      <div className="space-y-1">
-                        <QBlock startQ={31} endQ={40} />
-                        <QBlock startQ={41} endQ={50} />
-                      </div>
-                    </div>
-                  )}
-                </div>
-              );
-
-              if (numQ === 20) {
-                // 20Q: 4 mini sheets in 2x2 grid
-                return (
-                  <div className="mx-auto bg-white border border-gray-400 shadow-lg" style={{ width: '420px', aspectRatio: '210/297', display: 'grid', gridTemplateColumns: '1fr 1fr', gridTemplateRows: '1fr 1fr' }}>
-                    <MiniSheet questions={20} sheetW="100%" sheetH="100%" />
-                    <MiniSheet questions={20} sheetW="100%" sheetH="100%" />
-                    <MiniSheet questions={20} sheetW="100%" sheetH="100%" />
-                    <MiniSheet questions={20} sheetW="100%" sheetH="100%" />
-                  </div>
-                );
-              } else if (numQ === 50) {
-                // 50Q: 2 side by side
-                return (
-                  <div className="mx-auto bg-white border border-gray-400 shadow-lg" style={{ width: '420px', aspectRatio: '210/297', display: 'grid', gridTemplateColumns: '1fr 1fr' }}>
-                    <MiniSheet questions={50} sheetW="100%" sheetH="100%" />
-                    <MiniSheet questions={50} sheetW="100%" sheetH="100%" />
-                  </div>
-                );
-              } else {
-                // 100Q: Full page
-                return (
-                  <div className="mx-auto bg-white border border-gray-400 shadow-lg relative" style={{ width: '420px', aspectRatio: '210/297', padding: '10px' }}>
-                    {/* Corner markers */}
-                    <div className="absolute top-[4px] left-[4px] w-[8px] h-[8px] bg-black"></div>
-                    <div className="absolute top-[4px] right-[4px] w-[8px] h-[8px] bg-black"></div>
-                    <div className="absolute bottom-[4px] left-[4px] w-[8px] h-[8px] bg-black"></div>
-                    <div className="absolute bottom-[4px] right-[4px] w-[8px] h-[8px] bg-black"></div>
-
-                    {/* Header */}
-                    <div className="flex items-center justify-center gap-1.5 mb-1.5">
-                      <div className="w-[14px] h-[14px] bg-green-700 rounded-full flex items-center justify-center text-white text-[7px] font-bold">G</div>
-                      <span className="text-[11px] font-bold">Gordon College</span>
-                    </div>
-
-                    {/* Name/Date */}
-                    <div className="flex gap-3 mb-2 text-[7px]">
-                      <div className="flex-[3]">
-                        <span className="font-bold">Name:</span>
-                        <div className="border-b border-black mt-[1px] ml-1"></div>
-                      </div>
-                      <div className="flex-[2]">
-                        <span className="font-bold">Date:</span>
-                        <div className="border-b border-black mt-[1px] ml-1"></div>
-                      </div>
-                    </div>
-
-                    {/* Top section: ID + Q41-50 + Q71-80 */}
-                    <div className="flex gap-2 mb-2 items-start">
-                      <div className="flex-shrink-0">
-                        <IdSection />
-                      </div>
-                      <div className="flex gap-2 mt-3">
-                        <QBlock startQ={41} endQ={50} />
-                        <QBlock startQ={71} endQ={80} />
-                      </div>
-                    </div>
-
-                    {/* Bottom: 4 cols x 2 rows */}
-                    <div className="flex gap-2 mb-1">
-                      <QBlock startQ={1} endQ={10} />
-                      <QBlock startQ={21} endQ={30} />
-                      <QBlock startQ={51} endQ={60} />
-                      <QBlock startQ={81} endQ={90} />
-                    </div>
-                    <div className="flex gap-2">
-                      <QBlock startQ={11} endQ={20} />
-                      <QBlock startQ={31} endQ={40} />
-                      <QBlock startQ={61} endQ={70} />
-                      <QBlock startQ={91} endQ={100} />
-                    </div>
-
-                    {/* Footer */}
-                    <div className="absolute bottom-[6px] left-0 right-0 text-center text-[5px] text-gray-500 italic">
-                      Do not fold, staple, or tear this answer sheet.
-                    </div>
-                  </div>
-                );
-              }
-            })()}
+            {previewTemplate && (
+              <SheetPreview
+                definition={resolveTemplateDefinition(previewTemplate)}
+                className="w-[420px] mx-auto"
+              />
+            )}
           </div>
 
           <DialogFooter>
@@ -782,7 +719,7 @@ export default function Templates() {
           </li>
           <li className="flex gap-3">
             <span className="text-blue-600 font-bold">•</span>
-            <span>Print on standard Letter (8.5" x 11") white paper for best results</span>
+            <span>Print on A4 white paper at 100% scale (no "fit to page") for best results</span>
           </li>
           <li className="flex gap-3">
             <span className="text-blue-600 font-bold">•</span>
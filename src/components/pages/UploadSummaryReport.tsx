@@ -40,7 +40,7 @@ const DATE_RANGES = [
 ];
 
 export default function UploadSummaryReport() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [summary, setSummary] = useState<UploadSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedDateRange, setSelectedDateRange] = useState('30');
@@ -61,7 +61,9 @@ export default function UploadSummaryReport() {
         : undefined;
       const endDateObj = new Date();
 
+      // Only admins and department heads may read everyone's activity
       const logs = await AuditLogger.getLogs({
+        ...(!can('view_audit_logs') && { adminId: user?.id }),
         startDate: startDateObj?.toISOString(),
         endDate: endDateObj.toISOString(),
         limit: 1000,
@@ -0,0 +1,256 @@
+/**
+ * User Management Component
+ * Lets admins assign roles, and the instructors each proctor scans for
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Database, Loader2, Search, UserCog } from 'lucide-react';
+import { ProctorAssignmentDialog } from '@/components/modals/ProctorAssignmentDialog';
+import { UserRoleService } from '@/services/userRoleService';
+import { APP_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/lib/roles';
+import { AppRole, UserAccount } from '@/types/roles';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+const ROLE_STYLES: Record<AppRole, string> = {
+  admin: 'bg-red-50 text-red-700',
+  department_head: 'bg-purple-50 text-purple-700',
+  instructor: 'bg-green-50 text-green-700',
+  proctor: 'bg-blue-50 text-blue-700',
+};
+
+export default function UserManagement() {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [assigning, setAssigning] = useState<UserAccount | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await UserRoleService.getUsers();
+    if (result.success) {
+      setUsers(result.data || []);
+    } else {
+      setError(result.error || 'Failed to load users');
+    }
+    setLoading(false);
+  };
+
+  const saveRole = async (account: UserAccount, role: AppRole, proctorFor: string[]) => {
+    if (!user?.id) return;
+    setSavingId(account.id);
+    const result = await UserRoleService.updateUserRole(account, role, proctorFor, { id: user.id, email: user.email });
+    setSavingId(null);
+
+    if (result.success) {
+      setUsers(prev =>
+        prev.map(u => (u.id === account.id ? { ...u, role, proctorFor: role === 'proctor' ? proctorFor : [] } : u))
+      );
+      toast.success(
+        account.role === role ? `Saved the instructors for ${account.email}` : `${account.email} is now ${ROLE_LABELS[role]}`
+      );
+      // A new proctor needs instructors before they can see any exam
+      if (role === 'proctor' && account.role !== 'proctor') {
+        setAssigning({ ...account, role, proctorFor });
+      }
+    } else {
+      toast.error(result.error || 'Failed to update role');
+    }
+  };
+
+  const instructors = users.filter(u => u.role === 'instructor');
+  const nameOf = (id: string) => {
+    const account = users.find(u => u.id === id);
+    return account ? account.fullName || account.email : id;
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredUsers = users.filter(
+    u => !query || u.email.toLowerCase().includes(query) || u.fullName.toLowerCase().includes(query)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Users &amp; Roles</h1>
+          <p className="text-muted-foreground mt-1">Choose what each person can see and do</p>
+        </div>
+        <Link href="/migration">
+          <Button variant="outline" className="gap-2">
+            <Database className="w-4 h-4" />
+            Migration Utility
+          </Button>
+        </Link>
+      </div>
+
+      {/* Role reference */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {APP_ROLES.map(role => (
+          <Card key={role}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium flex items-center justify-between">
+                <Badge variant="outline" className={ROLE_STYLES[role]}>
+                  {ROLE_LABELS[role]}
+                </Badge>
+                <span className="text-2xl font-bold">{users.filter(u => u.role === role).length}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>
+            New accounts start as instructors. Role changes apply the next time the person signs in or reloads.
+          </CardDescription>
+          <div className="relative max-w-sm pt-2">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 mt-1 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or email"
+              className="pl-9"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="py-8 text-center text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin mx-auto mb-2" />
+              Loading users...
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Instructor ID</TableHead>
+                  <TableHead className="w-48">Role</TableHead>
+                  <TableHead>Scans for</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredUsers.map(account => {
+                  const isSelf = account.id === user?.id;
+                  return (
+                    <TableRow key={account.id}>
+                      <TableCell>
+                        <p className="font-medium">
+                          {account.fullName || account.email}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </p>
+                        {account.fullName && <p className="text-xs text-muted-foreground">{account.email}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{account.instructorId || '—'}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={account.role}
+                          onValueChange={(value) => saveRole(account, value as AppRole, account.proctorFor || [])}
+                          disabled={isSelf || savingId === account.id}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {APP_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {account.role === 'proctor' ? (
+                          <div className="flex items-center gap-2 flex-wrap">
+                            {(account.proctorFor || []).length === 0 ? (
+                              <span className="text-sm text-amber-600">No instructors yet</span>
+                            ) : (
+                              (account.proctorFor || []).map(id => (
+                                <Badge key={id} variant="outline">
+                                  {nameOf(id)}
+                                </Badge>
+                              ))
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1"
+                              onClick={() => setAssigning(account)}
+                              disabled={savingId === account.id}
+                            >
+                              <UserCog className="w-4 h-4" />
+                              Assign
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ProctorAssignmentDialog
+        open={assigning !== null}
+        proctor={assigning}
+        instructors={instructors}
+        onClose={() => setAssigning(null)}
+        onSave={(instructorIds) => {
+          if (assigning) saveRole(assigning, 'proctor', instructorIds);
+          setAssigning(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,604 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  ArrowLeft,
+  Upload,
+  Loader2,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Layers,
+  Save,
+  Trash2,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getExamById, Exam } from '@/services/examService';
+import { AnswerKeyService } from '@/services/answerKeyService';
+import { ScanningService } from '@/services/scanningService';
+import { getClassById, getClasses, Class } from '@/services/classService';
+import { resolveTemplateDefinition, TemplateService } from '@/services/templateService';
+import { readAnswerSheet, hasAlignmentIssue } from '@/lib/omrEngine';
+import { loadSheetPages, isSupportedSheetFile } from '@/lib/sheetImageLoader';
+import { createScanEvidence } from '@/lib/scanEvidence';
+import { hasExamSets } from '@/lib/examSets';
+import { scoreAnswers } from '@/lib/scoring';
+import { getOwnerScope } from '@/lib/sharing';
+import { AnswerChoice, AnswerKey, DuplicateResolution, ScanEvidenceInput } from '@/types/scanning';
+import { SheetTemplateDefinition } from '@/types/templates';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { isNullStudentId } from '@/lib/studentIdPolicy';
+import { toast } from 'sonner';
+
+interface BatchScannerProps {
+  examId: string;
+}
+
+type BatchItemStatus = 'pending' | 'saving' | 'saved' | 'failed';
+
+interface BatchItem {
+  id: string;
+  source: string;
+  thumbnail: string;
+  studentId: string;
+  detectedStudentId: string;
+  idDoubleShadeColumns: number[];
+  examSet: string;
+  examSetDoubleShade: boolean;
+  answers: string[];
+  multipleAnswers: number[];
+  alignmentIssue: boolean;
+  confidence: number;
+  answerConfidence: number[];
+  evidence: ScanEvidenceInput;
+  include: boolean;
+  status: BatchItemStatus;
+  error?: string;
+  hasDuplicate?: boolean; // the student already has a result for this exam
+  duplicateResolution?: DuplicateResolution;
+}
+
+interface BatchWarning {
+  message: string;
+  blocking: boolean; // blocking warnings prevent the sheet from being saved
+}
+
+export default function BatchScanner({ examId }: BatchScannerProps) {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cancelRef = useRef(false);
+
+  const [exam, setExam] = useState<Exam | null>(null);
+  const [answerKey, setAnswerKey] = useState<AnswerKey | null>(null);
+  const [classData, setClassData] = useState<Class | null>(null);
+  const [sheetTemplate, setSheetTemplate] = useState<SheetTemplateDefinition | undefined>(undefined);
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy());
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [reading, setReading] = useState(false);
+  const [pagesRead, setPagesRead] = useState(0);
+  const [committing, setCommitting] = useState(false);
+
+  // Load exam, answer key and linked class (same lookup as the live scanner)
+  useEffect(() => {
+    async function loadExamData() {
+      try {
+        setLoading(true);
+        const examData = await getExamById(examId);
+        if (!examData) {
+          toast.error('Exam not found');
+          return;
+        }
+        setExam(examData);
+
+        const akResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
+        if (akResult.success && akResult.data) {
+          setAnswerKey(akResult.data);
+        }
+
+        const templateResult = await TemplateService.getTemplateForExam(examId);
+        if (templateResult.success && templateResult.data) {
+          setSheetTemplate(resolveTemplateDefinition(templateResult.data));
+        }
+        setIdPolicy(await StudentIdPolicyService.getPolicy());
+
+        if (examData.classId) {
+          const cls = await getClassById(examData.classId);
+          if (cls) setClassData(cls);
+        } else if (examData.className && user) {
+          const allClasses = await getClasses(getOwnerScope(user, examData.createdBy || user.id), user.id);
+          const matchedClass = allClasses.find(c =>
+            c.class_name === examData.className ||
+            `${c.class_name} - ${c.section_block}` === examData.className
+          );
+          if (matchedClass) setClassData(matchedClass);
+        }
+      } catch (error) {
+        console.error('Error loading exam:', error);
+        toast.error('Failed to load exam data');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadExamData();
+  }, [examId, user]);
+
+  const examSetLabels = hasExamSets(answerKey) ? (answerKey?.sets || []).map(set => set.label) : [];
+
+  const studentsById = useMemo(() => {
+    const map = new Map<string, Class['students'][number]>();
+    classData?.students.forEach(s => map.set(s.student_id, s));
+    return map;
+  }, [classData]);
+
+  // How many queued sheets claim each student ID — a repeat means two papers share an ID
+  const idCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    items
+      .filter(item => item.include && item.status !== 'saved')
+      .forEach(item => counts.set(item.studentId, (counts.get(item.studentId) || 0) + 1));
+    return counts;
+  }, [items]);
+
+  const getWarnings = (item: BatchItem): BatchWarning[] => {
+    const warnings: BatchWarning[] = [];
+
+    if (item.alignmentIssue) {
+      warnings.push({
+        message: `Corner markers unclear (confidence ${Math.round(item.confidence * 100)}%) — check the answers below`,
+        blocking: false,
+      });
+    }
+    if (item.idDoubleShadeColumns.length > 0 && item.studentId === item.detectedStudentId) {
+      warnings.push({
+        message: `Multiple bubbles shaded in ID column(s) ${item.idDoubleShadeColumns.join(', ')}`,
+        blocking: true,
+      });
+    }
+    if (isNullStudentId(item.studentId)) {
+      warnings.push({ message: 'No Student ID detected', blocking: true });
+    } else if (!classData) {
+      warnings.push({ message: 'No class is linked to this exam', blocking: true });
+    } else if (!studentsById.has(item.studentId)) {
+      warnings.push({
+        message: `Student ID "${item.studentId}" is not registered in ${classData.class_name} - ${classData.section_block}`,
+        blocking: true,
+      });
+    }
+    if ((idCounts.get(item.studentId) || 0) > 1) {
+      warnings.push({ message: `Student ID "${item.studentId}" appears on more than one sheet`, blocking: true });
+    }
+    if (examSetLabels.length > 0 && !item.examSet) {
+      warnings.push({
+        message: item.examSetDoubleShade
+          ? 'More than one Set bubble shaded — pick the exam set'
+          : 'No exam set detected — pick the exam set',
+        blocking: true,
+      });
+    }
+    if (item.multipleAnswers.length > 0) {
+      warnings.push({
+        message: `Multiple answers shaded on question(s) ${item.multipleAnswers.join(', ')}`,
+        blocking: false,
+      });
+    }
+
+    return warnings;
+  };
+
+  const isReady = (item: BatchItem) =>
+    item.include && item.status !== 'saved' && !getWarnings(item).some(w => w.blocking);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || !exam) return;
+
+    const files = Array.from(fileList);
+    const unsupported = files.filter(f => !isSupportedSheetFile(f));
+    if (unsupported.length > 0) {
+      toast.warning(`Skipped ${unsupported.length} unsupported file(s). Use PDF, ZIP, JPEG or PNG.`);
+    }
+    const supported = files.filter(isSupportedSheetFile);
+    if (supported.length === 0) return;
+
+    cancelRef.current = false;
+    setReading(true);
+    setPagesRead(0);
+
+    try {
+      for await (const page of loadSheetPages(supported)) {
+        if (cancelRef.current) break;
+
+        const omr = readAnswerSheet(page.image, {
+          numQuestions: exam.num_items,
+          choicesPerQuestion: exam.choices_per_item,
+          examSets: examSetLabels.length || undefined,
+          template: sheetTemplate,
+          examId: exam.id,
+          idPolicy,
+        });
+
+        // Keep only the thumbnail, the read-out and the compressed evidence JPEG — full-size
+        // pages are dropped here so a 300-page batch doesn't hold hundreds of megabytes of pixels.
+        const item: BatchItem = {
+          id: page.id,
+          source: page.source,
+          thumbnail: page.thumbnail,
+          studentId: omr.studentId,
+          detectedStudentId: omr.studentId,
+          idDoubleShadeColumns: omr.idDoubleShadeColumns,
+          examSet: omr.examSet,
+          examSetDoubleShade: omr.examSetDoubleShade,
+          answers: omr.answers,
+          multipleAnswers: omr.multipleAnswers,
+          alignmentIssue: hasAlignmentIssue(omr),
+          confidence: omr.confidence,
+          answerConfidence: omr.answerConfidence,
+          evidence: createScanEvidence(omr, exam.num_items, sheetTemplate),
+          include: true,
+          status: 'pending',
+        };
+
+        setItems(prev => [...prev, item]);
+        setPagesRead(count => count + 1);
+
+        // Yield to the browser so the queue renders while the rest of the batch is read
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    } catch (error) {
+      console.error('Error reading batch:', error);
+      toast.error('Failed to read some of the uploaded files. Check that they are valid PDFs or images.');
+    } finally {
+      setReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const editStudentId = (id: string, value: string) => {
+    if (!/^[0-9]*$/.test(value)) return;
+    // A duplicate decision was made for the previous student
+    updateItem(id, { studentId: value, hasDuplicate: false, duplicateResolution: undefined });
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const clearSaved = () => {
+    setItems(prev => prev.filter(item => item.status !== 'saved'));
+  };
+
+  const commitResults = async () => {
+    if (!user || !exam || !answerKey) return;
+
+    const toSave = items.filter(isReady);
+    if (toSave.length === 0) {
+      toast.error('No sheets are ready to save. Resolve the flagged Student IDs first.');
+      return;
+    }
+
+    setCommitting(true);
+    let saved = 0;
+    let failed = 0;
+
+    // Save sequentially so a flaky connection fails one sheet, not the whole batch
+    for (const item of toSave) {
+      updateItem(item.id, { status: 'saving', error: undefined });
+      try {
+        const result = await ScanningService.saveScannedResult(
+          examId,
+          item.studentId,
+          item.answers as AnswerChoice[],
+          answerKey,
+          user.id,
+          false,
+          exam.choicePoints,
+          item.evidence,
+          item.examSet || undefined,
+          { onDuplicate: item.duplicateResolution, itemConfidence: item.answerConfidence }
+        );
+        if (result.success) {
+          updateItem(item.id, { status: 'saved', hasDuplicate: false });
+          saved++;
+        } else if (result.duplicates) {
+          updateItem(item.id, {
+            status: 'failed',
+            hasDuplicate: true,
+            error: `Student ${item.studentId} already has a result for this exam. Replace it, keep both, or remove this sheet.`,
+          });
+          failed++;
+        } else {
+          updateItem(item.id, { status: 'failed', error: result.error || 'Failed to save' });
+          failed++;
+        }
+      } catch (error) {
+        console.error('Error saving batch result:', error);
+        updateItem(item.id, { status: 'failed', error: (error as Error).message });
+        failed++;
+      }
+    }
+
+    setCommitting(false);
+    if (failed > 0) {
+      toast.error(`Saved ${saved} sheet(s); ${failed} failed. Retry the failed sheets.`);
+    } else {
+      toast.success(`Saved ${saved} sheet(s)`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="flex flex-col items-center gap-3">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading exam...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!exam) {
+    return (
+      <div className="space-y-6">
+        <Link href="/exams" className="p-2 hover:bg-muted rounded-md transition-colors inline-block">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <p className="text-foreground">Exam not found</p>
+      </div>
+    );
+  }
+
+  const readyCount = items.filter(isReady).length;
+  const flaggedCount = items.filter(item => item.status !== 'saved' && getWarnings(item).length > 0).length;
+  const savedCount = items.filter(item => item.status === 'saved').length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 sm:gap-4">
+        <Link href={`/exams/${examId}`} className="p-2 hover:bg-muted rounded-md transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <div className="min-w-0">
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground flex items-center gap-2">
+            <Layers className="w-6 h-6 flex-shrink-0" />
+            Batch Import
+          </h1>
+          <p className="text-xs sm:text-sm text-muted-foreground mt-1">Exam: {exam.title}</p>
+        </div>
+      </div>
+
+      {(!answerKey || answerKey.answers.length === 0) && (
+        <Card className="p-4 border-yellow-300 bg-yellow-50">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-700 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              This exam has no answer key yet. Sheets can be read, but every score will be 0 until a key is set.
+            </p>
+          </div>
+        </Card>
+      )}
+
+      {/* Upload */}
+      <Card className="p-6 border-2 border-dashed">
+        <div className="flex flex-col items-center text-center gap-3">
+          <Upload className="w-10 h-10 text-muted-foreground" />
+          <div>
+            <p className="font-semibold text-foreground">Upload scanned answer sheets</p>
+            <p className="text-sm text-muted-foreground">
+              A multi-page PDF from the copier, a ZIP of images, or several JPEG/PNG files
+            </p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,.zip,.jpg,.jpeg,.png"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <div className="flex gap-2">
+            <Button onClick={() => fileInputRef.current?.click()} disabled={reading || committing}>
+              {reading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              {reading ? 'Reading sheets...' : 'Choose Files'}
+            </Button>
+            {reading && (
+              <Button variant="outline" onClick={() => { cancelRef.current = true; }}>
+                Stop
+              </Button>
+            )}
+          </div>
+          {reading && (
+            <p className="text-sm text-muted-foreground">Read {pagesRead} page(s)...</p>
+          )}
+        </div>
+      </Card>
+
+      {/* Stats */}
+      {items.length > 0 && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <Card className="p-3 sm:p-4 border">
+            <p className="text-xs font-semibold text-muted-foreground mb-1">Sheets Read</p>
+            <p className="text-xl sm:text-2xl font-bold text-primary">{items.length}</p>
+          </Card>
+          <Card className="p-3 sm:p-4 border">
+            <p className="text-xs font-semibold text-muted-foreground mb-1">Ready to Save</p>
+            <p className="text-xl sm:text-2xl font-bold text-green-600">{readyCount}</p>
+          </Card>
+          <Card className="p-3 sm:p-4 border">
+            <p className="text-xs font-semibold text-muted-foreground mb-1">With Warnings</p>
+            <p className="text-xl sm:text-2xl font-bold text-yellow-600">{flaggedCount}</p>
+          </Card>
+          <Card className="p-3 sm:p-4 border">
+            <p className="text-xs font-semibold text-muted-foreground mb-1">Saved</p>
+            <p className="text-xl sm:text-2xl font-bold text-primary">{savedCount}</p>
+          </Card>
+        </div>
+      )}
+
+      {/* Review Queue */}
+      {items.length > 0 && (
+        <Card className="border">
+          <div className="p-4 border-b flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+            <div>
+              <h2 className="font-semibold text-foreground">Review Queue</h2>
+              <p className="text-xs text-muted-foreground">
+                Correct any flagged Student IDs, untick sheets you don&apos;t want saved, then save.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {savedCount > 0 && (
+                <Button variant="outline" onClick={clearSaved} disabled={committing}>
+                  Clear Saved
+                </Button>
+              )}
+              <Button onClick={commitResults} disabled={committing || reading || readyCount === 0}>
+                {committing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save {readyCount} Result{readyCount === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </div>
+
+          {committing && (
+            <Progress value={(savedCount / Math.max(1, savedCount + readyCount)) * 100} className="rounded-none h-1" />
+          )}
+
+          <div className="divide-y">
+            {items.map(item => {
+              const warnings = item.status === 'saved' ? [] : getWarnings(item);
+              const student = studentsById.get(item.studentId);
+              const { score, maxScore } = scoreAnswers(item.answers, answerKey, item.examSet, exam.choicePoints);
+              const answered = item.answers.filter(a => a).length;
+
+              return (
+                <div key={item.id} className="p-4 flex gap-4">
+                  <div className="flex items-start pt-1">
+                    <Checkbox
+                      checked={item.include}
+                      disabled={item.status === 'saved' || committing}
+                      onCheckedChange={(checked) => updateItem(item.id, { include: checked === true })}
+                    />
+                  </div>
+                  <a href={item.thumbnail} target="_blank" rel="noreferrer" className="flex-shrink-0">
+                    <img
+                      src={item.thumbnail}
+                      alt={item.source}
+                      className="w-20 sm:w-28 border rounded bg-gray-100"
+                    />
+                  </a>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-xs text-muted-foreground truncate">{item.source}</p>
+                      {item.status === 'saved' && (
+                        <Badge variant="default" className="gap-1">
+                          <CheckCircle className="w-3 h-3" /> Saved
+                        </Badge>
+                      )}
+                      {item.status === 'saving' && <Badge variant="secondary">Saving...</Badge>}
+                      {item.status === 'failed' && (
+                        <Badge variant="destructive" className="gap-1">
+                          <XCircle className="w-3 h-3" /> Failed
+                        </Badge>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Input
+                        value={item.studentId}
+                        onChange={(e) => editStudentId(item.id, e.target.value)}
+                        disabled={item.status === 'saved' || committing}
+                        placeholder="Student ID"
+                        className="w-40 font-mono"
+                      />
+                      {examSetLabels.length > 0 && (
+                        <select
+                          value={item.examSet}
+                          onChange={(e) => updateItem(item.id, { examSet: e.target.value })}
+                          disabled={item.status === 'saved' || committing}
+                          className="px-2 py-2 border border-input rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                          aria-label="Exam set"
+                        >
+                          <option value="">Set ?</option>
+                          {examSetLabels.map(label => (
+                            <option key={label} value={label}>Set {label}</option>
+                          ))}
+                        </select>
+                      )}
+                      <span className="text-sm font-medium truncate">
+                        {student ? `${student.last_name}, ${student.first_name}` : '—'}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        Score <span className="font-semibold text-foreground">{score}</span>/{maxScore || exam.num_items}
+                        {' · '}{answered}/{exam.num_items} answered
+                      </span>
+                    </div>
+
+                    {warnings.length > 0 && (
+                      <ul className="space-y-1">
+                        {warnings.map(w => (
+                          <li
+                            key={w.message}
+                            className={`text-xs flex items-start gap-1 ${w.blocking ? 'text-red-600' : 'text-yellow-700'}`}
+                          >
+                            <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                            {w.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                    {item.hasDuplicate && item.status === 'failed' && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                          size="sm"
+                          variant={item.duplicateResolution === 'replace' ? 'default' : 'outline'}
+                          onClick={() => updateItem(item.id, { duplicateResolution: 'replace' })}
+                          disabled={committing}
+                        >
+                          Replace existing
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={item.duplicateResolution === 'keep-both' ? 'default' : 'outline'}
+                          onClick={() => updateItem(item.id, { duplicateResolution: 'keep-both' })}
+                          disabled={committing}
+                        >
+                          Keep both as attempts
+                        </Button>
+                        {item.duplicateResolution && (
+                          <span className="text-xs text-muted-foreground">Save again to apply</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-start">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeItem(item.id)}
+                      disabled={item.status === 'saving' || committing}
+                      title="Remove from queue"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { getTemplateLayout, mapToPixel } from '@/lib/omrEngine';
+import { SHEET_CHOICE_LABELS, toTemplateLayout } from '@/lib/sheetTemplates';
+import { ScanEvidence } from '@/types/scanning';
+
+interface BubbleRowCropProps {
+  evidence: ScanEvidence;
+  questionIndex: number; // 0-based
+  answer: string; // answer currently recorded for the question
+}
+
+/**
+ * Bubble Row Crop
+ * One question's row of bubbles cut from the stored sheet image, with each bubble's
+ * darkness underneath, so a borderline reading can be checked without the full sheet.
+ */
+export default function BubbleRowCrop({ evidence, questionIndex, answer }: BubbleRowCropProps) {
+  const layout = evidence.template
+    ? toTemplateLayout(evidence.template)
+    : getTemplateLayout(evidence.numQuestions);
+  const q = questionIndex + 1;
+  const block = layout.answerBlocks.find(b => q >= b.startQ && q <= b.endQ);
+  const darkness = evidence.bubbleDarkness[questionIndex] || [];
+  if (!block || darkness.length === 0) return null;
+
+  const { markers } = evidence;
+  const frameW = markers.topRight.x - markers.topLeft.x;
+  const frameH = markers.bottomLeft.y - markers.topLeft.y;
+  const rx = (layout.bubbleDiameterNX * frameW) / 2;
+  const ry = (layout.bubbleDiameterNY * frameH) / 2;
+  const row = q - block.startQ;
+
+  const bubbles = darkness.map((value, c) => ({
+    choice: SHEET_CHOICE_LABELS[c],
+    value,
+    ...mapToPixel(markers, block.firstBubbleNX + c * block.bubbleSpacingNX, block.firstBubbleNY + row * block.rowSpacingNY),
+  }));
+
+  const padX = rx * 2;
+  const padY = ry * 1.6;
+  const x = Math.min(...bubbles.map(b => b.px)) - padX;
+  const y = Math.min(...bubbles.map(b => b.py)) - padY;
+  const width = Math.max(...bubbles.map(b => b.px)) + padX - x;
+  const height = Math.max(...bubbles.map(b => b.py)) + padY - y;
+
+  return (
+    <div className="inline-block">
+      {evidence.imageUrl ? (
+        <svg
+          viewBox={`${x} ${y} ${width} ${height}`}
+          className="h-10 w-auto border rounded bg-white"
+          style={{ aspectRatio: `${width} / ${height}` }}
+        >
+          <image href={evidence.imageUrl} width={evidence.imageWidth} height={evidence.imageHeight} />
+          {bubbles.map(b => (
+            <ellipse
+              key={b.choice}
+              cx={b.px}
+              cy={b.py}
+              rx={rx * 1.25}
+              ry={ry * 1.25}
+              fill="none"
+              stroke={answer === b.choice ? '#2563eb' : 'rgba(148, 163, 184, 0.7)'}
+              strokeWidth={answer === b.choice ? 2 : 1}
+            />
+          ))}
+        </svg>
+      ) : (
+        <p className="text-xs text-muted-foreground">Sheet image was not uploaded</p>
+      )}
+      <div className="flex gap-2 mt-1 text-[10px] text-muted-foreground">
+        {bubbles.map(b => (
+          <span key={b.choice} className={answer === b.choice ? 'font-semibold text-blue-700' : ''}>
+            {b.choice} {(b.value * 100).toFixed(0)}%
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { DuplicateResolution, ScannedResult } from '@/types/scanning';
+
+interface DuplicateScanDialogProps {
+  open: boolean;
+  studentLabel: string;
+  existing: ScannedResult[];
+  newScore?: { score: number; maxScore: number };
+  onResolve: (resolution: DuplicateResolution) => void;
+  onCancel: () => void;
+}
+
+const formatScannedAt = (scannedAt: string) =>
+  scannedAt
+    ? new Date(scannedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : 'Unknown time';
+
+export default function DuplicateScanDialog({
+  open,
+  studentLabel,
+  existing,
+  newScore,
+  onResolve,
+  onCancel,
+}: DuplicateScanDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Already scanned</AlertDialogTitle>
+          <AlertDialogDescription>
+            {studentLabel} already has {existing.length === 1 ? 'a result' : `${existing.length} results`} for this exam.
+            Choose what to do with this scan.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2 text-sm">
+          {existing.map(result => (
+            <div key={result.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+              <span className="text-gray-600">
+                {result.attempt ? `Attempt ${result.attempt} • ` : ''}{formatScannedAt(result.scannedAt)}
+              </span>
+              <span className="font-semibold">{result.score}/{result.maxScore ?? result.totalQuestions}</span>
+            </div>
+          ))}
+          {newScore && (
+            <div className="flex items-center justify-between p-2 bg-green-50 rounded">
+              <span className="text-gray-600">This scan</span>
+              <span className="font-semibold">{newScore.score}/{newScore.maxScore}</span>
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          <AlertDialogCancel>Back to review</AlertDialogCancel>
+          <Button variant="outline" className="text-red-600" onClick={() => onResolve('discard')}>
+            Discard scan
+          </Button>
+          <Button variant="outline" onClick={() => onResolve('keep-both')}>
+            Keep both as attempts
+          </Button>
+          <Button onClick={() => onResolve('replace')}>
+            Replace
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
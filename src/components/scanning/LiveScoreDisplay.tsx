@@ -108,6 +108,7 @@ export default function LiveScoreDisplay({ examId, totalQuestions }: LiveScoreDi
               </div>
               <p className="text-xs text-muted-foreground">
                 {((statistics.averageScore / totalQuestions) * 100).toFixed(1)}% average
+                {statistics.passingRate !== undefined && ` · ${statistics.passingRate}% passing`}
               </p>
             </CardContent>
           </Card>
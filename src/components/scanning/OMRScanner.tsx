@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { 
@@ -12,6 +12,7 @@ import {
   CheckCircle,
   Save,
   User,
+  CloudOff,
 } from 'lucide-react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
@@ -19,14 +20,41 @@ import { useAuth } from '@/contexts/AuthContext';
 import { getExamById, Exam } from '@/services/examService';
 import { AnswerKeyService } from '@/services/answerKeyService';
 import { ScanningService } from '@/services/scanningService';
+import { ScanQueueService } from '@/services/scanQueueService';
+import { useScanQueue } from '@/hooks/useScanQueue';
+import ScanQueuePanel from './ScanQueuePanel';
+import DuplicateScanDialog from './DuplicateScanDialog';
 import { getClassById, getClasses, Class, Student } from '@/services/classService';
+import { getEnrollmentIssue } from '@/lib/enrollment';
 import { toast } from 'sonner';
-import { AnswerChoice } from '@/types/scanning';
+import { AnswerChoice, AnswerKey, DuplicateResolution, ScanEvidenceInput, ScannedResult } from '@/types/scanning';
+import {
+  readAnswerSheet,
+  hasAlignmentIssue,
+  mapToPixel,
+  MIN_MARKER_CONFIDENCE,
+} from '@/lib/omrEngine';
+import { pixelBufferToCanvas } from '@/lib/sheetImageLoader';
+import { createScanEvidence } from '@/lib/scanEvidence';
+import { getSetAnswerKey, hasExamSets } from '@/lib/examSets';
+import { getSheetType } from '@/lib/sheetTemplates';
+import { resolveTemplateDefinition, TemplateService } from '@/services/templateService';
+import { SheetTemplateDefinition } from '@/types/templates';
+import { scoreAnswers, getItemRules, isCreditedAnswer } from '@/lib/scoring';
+import { getLowConfidenceItems } from '@/lib/answerConfidence';
+import { getOwnerScope } from '@/lib/sharing';
+import { DEFAULT_GRADING_SCALE, getGradeColor, getLetterGrade } from '@/lib/gradingScales';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { GradingScale } from '@/types/gradebook';
+import { StudentIdPolicyService } from '@/services/studentIdPolicyService';
+import { fromGridDigits, isNullStudentId } from '@/lib/studentIdPolicy';
 
 interface OMRScannerProps {
   examId: string;
 }
 
+const DUPLICATE_CHECK_TIMEOUT_MS = 5000;
+
 interface ScanResult {
   studentId: string;
   answers: string[];
@@ -37,9 +65,22 @@ interface ScanResult {
   timestamp: string;
 }
 
+// Score with the answer key's rules, against the key of the sheet's exam set
+const gradeSheet = (
+  answers: string[],
+  answerKey: AnswerKey | null,
+  examSet: string,
+  choicePoints?: { [choice: string]: number }
+) => {
+  const { score, maxScore } = scoreAnswers(answers, answerKey, examSet, choicePoints);
+  const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+  return { score, totalQuestions: maxScore, percentage };
+};
+
 export default function OMRScanner({ examId }: OMRScannerProps) {
   const { user } = useAuth();
   const router = useRouter();
+  const scanQueue = useScanQueue(examId);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const processingCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -50,8 +91,13 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
   
   // State
   const [exam, setExam] = useState<Exam | null>(null);
-  const [answerKey, setAnswerKey] = useState<AnswerChoice[]>([]);
+  const [masterAnswerKey, setMasterAnswerKey] = useState<AnswerKey | null>(null);
+  const [examSet, setExamSet] = useState(''); // Set shaded on the sheet (multi-set exams)
+  const [examSetError, setExamSetError] = useState<string | null>(null);
   const [classData, setClassData] = useState<Class | null>(null);
+  const [gradingScale, setGradingScale] = useState<GradingScale>(DEFAULT_GRADING_SCALE); // exam's scale, else its class's
+  const [sheetTemplate, setSheetTemplate] = useState<SheetTemplateDefinition | undefined>(undefined); // designed sheet linked to the exam
+  const [idPolicy, setIdPolicy] = useState(StudentIdPolicyService.getCachedPolicy()); // institution's Student ID format
   const [loading, setLoading] = useState(true);
   const [mode, setMode] = useState<'camera' | 'processing' | 'results'>('camera');
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -62,16 +108,27 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
   const [detectedStudentId, setDetectedStudentId] = useState<string>('');
   const [matchedStudent, setMatchedStudent] = useState<Student | null>(null);
   const [saving, setSaving] = useState(false);
+  const [duplicateResults, setDuplicateResults] = useState<ScannedResult[]>([]); // existing results awaiting a decision
   const [recentScans, setRecentScans] = useState<ScanResult[]>([]);
   const [studentIdError, setStudentIdError] = useState<string | null>(null);
   const [multipleAnswerQuestions, setMultipleAnswerQuestions] = useState<number[]>([]);
+  const [answerConfidence, setAnswerConfidence] = useState<number[]>([]); // per question; edited answers count as certain
   const [idDoubleShadeColumns, setIdDoubleShadeColumns] = useState<number[]>([]);
   const [rawIdDigits, setRawIdDigits] = useState<number[]>([]); // Raw digit array (-1 = unshaded)
+  const [idFromCode, setIdFromCode] = useState(false); // ID taken from a pre-filled sheet's QR code
   const [debugInfo, setDebugInfo] = useState<string>('');
   const [markersDetected, setMarkersDetected] = useState(false);
   const [stabilizationProgress, setStabilizationProgress] = useState(0); // 0-100%
   const [alignmentError, setAlignmentError] = useState<string | null>(null);
   const liveOverlayRef = useRef<HTMLCanvasElement>(null);
+  const scanEvidenceRef = useRef<ScanEvidenceInput | null>(null); // Sheet image + bubble darkness saved with the result
+
+  // Key for the sheet on screen, in its set's printed order
+  const answerKey = useMemo(() => getSetAnswerKey(masterAnswerKey, examSet), [masterAnswerKey, examSet]);
+  const itemRules = useMemo(() => getItemRules(masterAnswerKey, examSet, exam?.choicePoints), [masterAnswerKey, examSet, exam]);
+  const examSetLabels = hasExamSets(masterAnswerKey) ? (masterAnswerKey?.sets || []).map(set => set.label) : [];
+  // 1-based, like multipleAnswerQuestions
+  const lowConfidenceQuestions = getLowConfidenceItems(answerConfidence).map(index => index + 1);
 
   // Keep streamRef in sync with stream state
   useEffect(() => {
@@ -90,7 +147,16 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
           // Load answer key
           const akResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
           if (akResult.success && akResult.data) {
-            setAnswerKey(akResult.data.answers);
+            setMasterAnswerKey(akResult.data);
+          }
+
+          setGradingScale(await GradingScaleService.getScaleForExam(examData));
+          setIdPolicy(await StudentIdPolicyService.getPolicy());
+
+          // Read with the exam's designed sheet when one is linked
+          const templateResult = await TemplateService.getTemplateForExam(examId);
+          if (templateResult.success && templateResult.data) {
+            setSheetTemplate(resolveTemplateDefinition(templateResult.data));
           }
           
           // Load class data if exam has classId
@@ -104,7 +170,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
           // Fallback: if no classId but has className, try to find class by name
           if (!(examData as any).classId && examData.className && user) {
             try {
-              const allClasses = await getClasses(user.id);
+              const allClasses = await getClasses(getOwnerScope(user, examData.createdBy || user.id), user.id);
               const matchedClass = allClasses.find(c => 
                 c.class_name === examData.className || 
                 `${c.class_name} - ${c.section_block}` === examData.className
@@ -159,8 +225,9 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     }
   }, [stream]);
 
-  // Get the template type from question count
+  // Get the template type from the linked sheet, or from the question count
   const getTemplateType = (): 20 | 50 | 100 => {
+    if (sheetTemplate) return getSheetType(sheetTemplate);
     const numQ = exam?.num_items || 20;
     return numQ <= 20 ? 20 : numQ <= 50 ? 50 : 100;
   };
@@ -289,7 +356,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     
     // Go directly to processing (skip review)
     setMode('processing');
-  }, [exam]); // removed stream dependency — use ref instead
+  }, [exam, sheetTemplate]); // removed stream dependency — use ref instead
 
   // ── Lightweight marker detection for live video frames ──
   // Runs on a downscaled version of the guide-frame crop.
@@ -482,7 +549,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       };
     }
     return { found: false, markers: null };
-  }, [exam]);
+  }, [exam, sheetTemplate]);
 
   // ── Draw guide box overlay onto the canvas ──
   // Called every scan frame so it always reflects the current video layout.
@@ -565,7 +632,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       ctx.strokeStyle = 'rgba(20,20,20,0.95)';
       ctx.strokeRect(bx, by, boxSz, boxSz);
     }
-  }, [exam]);
+  }, [exam, sheetTemplate]);
 
   // ── Auto-scan loop: continuously check for markers in the video feed ──
   // For 100-item templates, we only detect markers but don't auto-capture (manual button instead)
@@ -631,262 +698,6 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     };
   }, [mode, stream, exam, detectMarkersInFrame, captureAndProcess, drawOverlay]);
 
-  // Detects rotation angle up to ±30° using a weighted Sobel-edge histogram (Hough-inspired).
-  // Uses 0.25° bins (241 bins total) for sub-degree accuracy.
-  // Only edges with high magnitude vote, and votes are weighted by magnitude so strong
-  // long edges (paper boundary, column separators) dominate over noise.
-  const detectSkewAngle = (grayscale: Uint8Array, width: number, height: number): number => {
-    const BINS = 241;              // –30° to +30° in 0.25° steps
-    const CENTER = 120;            // bin index for 0°
-    const SCALE = 4;               // bins per degree (1 / 0.25)
-    const angleHist = new Float32Array(BINS);
-    
-    // Sample a grid of points; denser sampling = more accurate but slower.
-    // Use ~200 sample rows (capped for large images).
-    const step = Math.max(3, Math.floor(Math.min(width, height) / 200));
-    // Edge magnitude threshold — only vote for genuinely strong edges (reduces noise)
-    const EDGE_THRESH = 40;
-    
-    for (let y = step; y < height - step; y += step) {
-      for (let x = step; x < width - step; x += step) {
-        // 3×3 Sobel
-        const gx = 
-          -grayscale[(y - 1) * width + (x - 1)] - 2 * grayscale[y * width + (x - 1)] - grayscale[(y + 1) * width + (x - 1)] +
-           grayscale[(y - 1) * width + (x + 1)] + 2 * grayscale[y * width + (x + 1)] + grayscale[(y + 1) * width + (x + 1)];
-        
-        const gy = 
-          -grayscale[(y - 1) * width + (x - 1)] - 2 * grayscale[(y - 1) * width + x] - grayscale[(y - 1) * width + (x + 1)] +
-           grayscale[(y + 1) * width + (x - 1)] + 2 * grayscale[(y + 1) * width + x] + grayscale[(y + 1) * width + (x + 1)];
-        
-        const magnitude = Math.sqrt(gx * gx + gy * gy);
-        if (magnitude < EDGE_THRESH) continue;
-        
-        // Derive rotation angle from edge direction
-        // Horizontal edges (gy dominant): edge angle ≈ ±90° → paper rotated by (angle − 90°)
-        // Vertical edges (gx dominant):  edge angle ≈ 0°/180° → paper rotated by edge angle
-        let angle = Math.atan2(gy, gx) * 180 / Math.PI; // –180..+180
-        let rotation: number;
-        if (Math.abs(gx) >= Math.abs(gy)) {
-          // Vertical edge
-          rotation = angle;
-          if (rotation > 90) rotation -= 180;
-          if (rotation < -90) rotation += 180;
-        } else {
-          // Horizontal edge
-          rotation = angle > 0 ? angle - 90 : angle + 90;
-        }
-        
-        if (rotation < -30 || rotation > 30) continue;
-        
-        const binIdx = Math.round((rotation + 30) * SCALE);
-        if (binIdx >= 0 && binIdx < BINS) {
-          angleHist[binIdx] += magnitude; // weight by edge strength
-        }
-      }
-    }
-    
-    // Gaussian-smooth the histogram (σ ≈ 2 bins = 0.5°) then find peak
-    const smoothed = new Float32Array(BINS);
-    const kernel = [0.06, 0.12, 0.22, 0.40, 0.22, 0.12, 0.06]; // σ≈1.5 bins, sum≈1.2→renorm below
-    const kCenter = 3;
-    for (let i = 0; i < BINS; i++) {
-      let acc = 0;
-      for (let k = 0; k < kernel.length; k++) {
-        const j = i + k - kCenter;
-        if (j >= 0 && j < BINS) acc += angleHist[j] * kernel[k];
-      }
-      smoothed[i] = acc;
-    }
-
-    let maxVal = 0, maxIdx = CENTER;
-    for (let i = 0; i < BINS; i++) {
-      if (smoothed[i] > maxVal) { maxVal = smoothed[i]; maxIdx = i; }
-    }
-
-    // Sub-bin parabolic interpolation for extra precision
-    let subBin = maxIdx;
-    if (maxIdx > 0 && maxIdx < BINS - 1) {
-      const left = smoothed[maxIdx - 1], right = smoothed[maxIdx + 1];
-      const denom = left - 2 * maxVal + right;
-      if (Math.abs(denom) > 1e-6) subBin = maxIdx - (right - left) / (2 * denom);
-    }
-
-    const detectedAngle = (subBin - CENTER) / SCALE;
-    
-    const totalVotes = angleHist.reduce((a, b) => a + b, 0);
-    const peakStrength = maxVal / (totalVotes || 1);
-    
-    console.log(`[Skew] Detected angle: ${detectedAngle.toFixed(2)}° (peak strength: ${(peakStrength * 100).toFixed(1)}%)`);
-    
-    // Require a meaningful peak to avoid spurious corrections
-    if (peakStrength < 0.04) return 0;
-    // Skip imperceptible sub-0.5° rotations (saves a canvas copy operation)
-    if (Math.abs(detectedAngle) < 0.5) return 0;
-    
-    return detectedAngle;
-  };
-
-  // Rotate canvas by the given angle (in degrees)
-  const rotateCanvas = (srcCanvas: HTMLCanvasElement, angle: number): HTMLCanvasElement => {
-    if (Math.abs(angle) < 0.5) return srcCanvas;
-    
-    const ctx = srcCanvas.getContext('2d');
-    if (!ctx) return srcCanvas;
-    
-    const w = srcCanvas.width;
-    const h = srcCanvas.height;
-    const rad = angle * Math.PI / 180;
-    
-    // Calculate new canvas size to fit rotated image
-    const cos = Math.abs(Math.cos(rad));
-    const sin = Math.abs(Math.sin(rad));
-    const newW = Math.ceil(w * cos + h * sin);
-    const newH = Math.ceil(w * sin + h * cos);
-    
-    const outCanvas = document.createElement('canvas');
-    outCanvas.width = newW;
-    outCanvas.height = newH;
-    const outCtx = outCanvas.getContext('2d');
-    if (!outCtx) return srcCanvas;
-    
-    // Fill with white (paper color) to avoid black edges
-    outCtx.fillStyle = '#FFFFFF';
-    outCtx.fillRect(0, 0, newW, newH);
-    
-    // Translate to center, rotate, then draw
-    outCtx.translate(newW / 2, newH / 2);
-    outCtx.rotate(-rad); // Negative to correct the skew
-    outCtx.drawImage(srcCanvas, -w / 2, -h / 2);
-    
-    console.log(`[Skew] Rotated image by ${(-angle).toFixed(1)}° (${w}x${h} → ${newW}x${newH})`);
-    
-    return outCanvas;
-  };
-
-  // Apply skew correction to an image
-  const correctSkew = (srcCanvas: HTMLCanvasElement): HTMLCanvasElement => {
-    const ctx = srcCanvas.getContext('2d');
-    if (!ctx) return srcCanvas;
-    
-    const w = srcCanvas.width;
-    const h = srcCanvas.height;
-    
-    // Convert to grayscale for skew detection
-    const imgData = ctx.getImageData(0, 0, w, h);
-    const grayscale = new Uint8Array(w * h);
-    for (let i = 0; i < imgData.data.length; i += 4) {
-      grayscale[i / 4] = Math.round(
-        0.299 * imgData.data[i] + 0.587 * imgData.data[i + 1] + 0.114 * imgData.data[i + 2]
-      );
-    }
-    
-    const angle = detectSkewAngle(grayscale, w, h);
-    
-    if (Math.abs(angle) < 0.5) {
-      console.log('[Skew] No significant skew detected (< 0.5°)');
-      return srcCanvas;
-    }
-    
-    console.log(`[Skew] Correcting by ${angle.toFixed(2)}°`);
-    return rotateCanvas(srcCanvas, angle);
-  };
-
-  // ─── IMAGE ENHANCEMENT: Adaptive brightness (white-level normalisation only) ───
-  // Scales each pixel so the local paper-white maps to 245.
-  //
-  // KEY DESIGN DECISIONS to avoid the "blue inversion" artefact:
-  //  1. Grid size is 96px — large enough that a tile containing mostly desk
-  //     background still borrows the paper-white level from adjacent tiles via
-  //     bilinear interpolation, instead of computing a tiny ~40 local white.
-  //  2. safeWhite floor is 130 — we never divide by anything < 130, so even a
-  //     tile that is 100% dark desk gets at most a 245/130 ≈ 1.88× boost,
-  //     which is a gentle brightening rather than a wild 6× amplification.
-  //  3. We use GRAYSCALE luminance (not max-channel) for the percentile sample
-  //     so that a blue desk doesn't inflate only the blue reference level.
-  const enhanceImage = (srcCanvas: HTMLCanvasElement): HTMLCanvasElement => {
-    const ctx = srcCanvas.getContext('2d');
-    if (!ctx) return srcCanvas;
-
-    const w = srcCanvas.width;
-    const h = srcCanvas.height;
-
-    const outCanvas = document.createElement('canvas');
-    outCanvas.width = w;
-    outCanvas.height = h;
-    const outCtx = outCanvas.getContext('2d');
-    if (!outCtx) return srcCanvas;
-    outCtx.drawImage(srcCanvas, 0, 0);
-
-    const imgData = outCtx.getImageData(0, 0, w, h);
-    const d = imgData.data;
-
-    // Build a luminance (grayscale) plane for percentile sampling only.
-    // This ensures a blue/coloured background doesn't skew a single channel.
-    const lum = new Uint8Array(w * h);
-    for (let i = 0; i < w * h; i++) {
-      lum[i] = Math.round(0.299 * d[i * 4] + 0.587 * d[i * 4 + 1] + 0.114 * d[i * 4 + 2]);
-    }
-
-    // Large grid so dark-background tiles get a sensible white level from neighbours
-    const gridSize = 96;
-    const gW = Math.ceil(w / gridSize);
-    const gH = Math.ceil(h / gridSize);
-    const gridWhite = new Float32Array(gW * gH);
-
-    for (let gy = 0; gy < gH; gy++) {
-      for (let gx = 0; gx < gW; gx++) {
-        const samples: number[] = [];
-        const y1 = gy * gridSize, y2 = Math.min(h, (gy + 1) * gridSize);
-        const x1 = gx * gridSize, x2 = Math.min(w, (gx + 1) * gridSize);
-        for (let py = y1; py < y2; py += 3) {
-          for (let px = x1; px < x2; px += 3) {
-            samples.push(lum[py * w + px]);
-          }
-        }
-        samples.sort((a, b) => a - b);
-        // 90th percentile of luminance → local paper-white estimate
-        gridWhite[gy * gW + gx] = samples.length > 0
-          ? samples[Math.floor(samples.length * 0.90)]
-          : 200;
-      }
-    }
-
-    // Bilinear interpolation across grid cells
-    for (let py = 0; py < h; py++) {
-      for (let px = 0; px < w; px++) {
-        const gxf = px / gridSize - 0.5;
-        const gyf = py / gridSize - 0.5;
-        const gx0 = Math.max(0, Math.floor(gxf));
-        const gy0 = Math.max(0, Math.floor(gyf));
-        const gx1 = Math.min(gW - 1, gx0 + 1);
-        const gy1 = Math.min(gH - 1, gy0 + 1);
-        const fx = Math.max(0, Math.min(1, gxf - gx0));
-        const fy = Math.max(0, Math.min(1, gyf - gy0));
-
-        const w00 = gridWhite[gy0 * gW + gx0];
-        const w10 = gridWhite[gy0 * gW + gx1];
-        const w01 = gridWhite[gy1 * gW + gx0];
-        const w11 = gridWhite[gy1 * gW + gx1];
-        const localWhite = w00 * (1 - fx) * (1 - fy) + w10 * fx * (1 - fy)
-                         + w01 * (1 - fx) * fy        + w11 * fx * fy;
-
-        // Floor at 130: caps boost at ~1.88× even for fully-dark tiles.
-        // This prevents the blue-inversion artefact on dark desk backgrounds.
-        const safeWhite = Math.max(130, localWhite);
-        const scale = 245 / safeWhite;
-
-        const i = (py * w + px) * 4;
-        d[i]     = Math.min(255, Math.round(d[i]     * scale));
-        d[i + 1] = Math.min(255, Math.round(d[i + 1] * scale));
-        d[i + 2] = Math.min(255, Math.round(d[i + 2] * scale));
-      }
-    }
-
-    outCtx.putImageData(imgData, 0, 0);
-    console.log(`[Enhance] Adaptive brightness done: ${w}x${h}, grid=${gridSize}px, safeWhiteFloor=130`);
-    return outCanvas;
-  };
-
   // Process the captured image using OMR
   const processImage = useCallback(async () => {
     if (!capturedImage || !exam) return;
@@ -915,32 +726,42 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       canvas.height = img.height;
       ctx.drawImage(img, 0, 0);
       
-      // Step 1: Apply skew correction (handles rotated sheets up to ±30°)
-      console.log('[Preprocess] Starting skew correction...');
-      const deskewedCanvas = correctSkew(canvas);
-      
-      // Step 2: Apply adaptive brightness enhancement (handles shadows / uneven lighting)
-      console.log('[Enhance] Starting image enhancement...');
-      const enhancedCanvas = enhanceImage(deskewedCanvas);
+      // Run the headless OMR pipeline (skew correction → enhancement → bubble detection)
+      const omr = readAnswerSheet(ctx.getImageData(0, 0, canvas.width, canvas.height), {
+        numQuestions: exam.num_items,
+        choicesPerQuestion: exam.choices_per_item,
+        examSets: hasExamSets(masterAnswerKey) ? masterAnswerKey?.sets?.length : undefined,
+        template: sheetTemplate,
+        examId: exam.id,
+        idPolicy,
+      });
+      const {
+        studentId,
+        answers,
+        multipleAnswers,
+        idDoubleShadeColumns: idDoubleShades,
+        rawIdDigits: detectedRawIdDigits,
+        markers: debugMarkers,
+        markersFound,
+        confidence: markerConfidence,
+        bubbleHits,
+      } = omr;
+
+      // Grade against the key of the set shaded on the sheet
+      const sheetRules = getItemRules(masterAnswerKey, omr.examSet, exam.choicePoints);
+
+      // Keep what the reader saw so the saved result can be audited later
+      scanEvidenceRef.current = createScanEvidence(omr, exam.num_items, sheetTemplate);
       
       // Update the displayed image with the enhanced version
+      const enhancedCanvas = pixelBufferToCanvas(omr.image);
       setCapturedImage(enhancedCanvas.toDataURL('image/png'));
       
-      // Get image data from the enhanced canvas
-      const enhCtx = enhancedCanvas.getContext('2d');
-      if (!enhCtx) throw new Error('Enhanced canvas context not available');
-      const imageData = enhCtx.getImageData(0, 0, enhancedCanvas.width, enhancedCanvas.height);
-      
-      console.log(`[OMR] Processing enhanced image: ${imageData.width}x${imageData.height}`);
-      
-      // Process the image to detect filled bubbles
-      const { studentId, answers, multipleAnswers, idDoubleShades, rawIdDigits: detectedRawIdDigits, debugMarkers, markersFound, markerConfidence, bubbleHits } = await detectBubbles(imageData, exam.num_items, exam.choices_per_item);
-      
       // Check for alignment issues based on marker detection quality
-      if (!markersFound || markerConfidence < 0.5) {
+      if (hasAlignmentIssue(omr)) {
         // Marker detection failed or is unreliable
         const missingMarkers = !markersFound;
-        const lowConfidence = markerConfidence < 0.5;
+        const lowConfidence = markerConfidence < MIN_MARKER_CONFIDENCE;
         
         let alignmentMsg = 'Sheet alignment error. ';
         if (missingMarkers) {
@@ -956,7 +777,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       
       // Build debug info string for UI display
       const dbgLines: string[] = [];
-      dbgLines.push(`Image: ${imageData.width}×${imageData.height}`);
+      dbgLines.push(`Image: ${omr.image.width}×${omr.image.height}`);
       if (debugMarkers) {
         dbgLines.push(`TL=(${Math.round(debugMarkers.topLeft.x)},${Math.round(debugMarkers.topLeft.y)})`);
         dbgLines.push(`TR=(${Math.round(debugMarkers.topRight.x)},${Math.round(debugMarkers.topRight.y)})`);
@@ -969,8 +790,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
           dbgLines.push(`Conf: ${(markerConfidence * 100).toFixed(0)}%`);
         }
         // Show first ID bubble pixel position for verification
-        const layout = getTemplateLayout(exam.num_items);
-        const firstIdPx = mapToPixel(debugMarkers, layout.id.firstColNX, layout.id.firstRowNY);
+        const firstIdPx = mapToPixel(debugMarkers, omr.layout.id.firstColNX, omr.layout.id.firstRowNY);
         dbgLines.push(`ID0px=(${Math.round(firstIdPx.px)},${Math.round(firstIdPx.py)})`);
       }
       dbgLines.push(`ID=${studentId}`);
@@ -1018,7 +838,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
           for (const hit of bubbleHits) {
             const qIdx = hit.qIndex;
             const isMultiple = multipleAnswers.includes(qIdx + 1);
-            const isCorrect = answerKey[qIdx] && hit.choice.toUpperCase() === answerKey[qIdx].toUpperCase();
+            const isCorrect = isCreditedAnswer(hit.choice, sheetRules[qIdx]);
 
             if (isMultiple) {
               oCtx.strokeStyle = '#facc15'; // yellow-400
@@ -1040,8 +860,23 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       setDetectedStudentId(studentId);
       setDetectedAnswers(answers);
       setMultipleAnswerQuestions(multipleAnswers);
+      setAnswerConfidence(omr.answerConfidence);
       setIdDoubleShadeColumns(idDoubleShades);
-      setRawIdDigits(detectedRawIdDigits || []); // Store raw digit array for UI display
+      // A QR-coded ID needs no per-column correction
+      setRawIdDigits(omr.idSource === 'code' ? [] : detectedRawIdDigits || []); // Store raw digit array for UI display
+      setIdFromCode(omr.idSource === 'code');
+      if (omr.sheetCode && omr.idSource === 'bubbles') {
+        toast.warning('This sheet was printed for a different exam. The shaded Student ID was read instead.');
+      }
+      setExamSet(omr.examSet);
+
+      if (hasExamSets(masterAnswerKey) && !omr.examSet) {
+        setExamSetError(omr.examSetDoubleShade
+          ? 'More than one Set bubble is shaded. Select the set printed on this student\'s test paper below.'
+          : 'No exam set was detected. Select the set printed on this student\'s test paper below.');
+      } else {
+        setExamSetError(null);
+      }
 
       // Validate student ID against class roster
       // Consider alignment errors when classifying ID detection issues
@@ -1049,18 +884,18 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       let matched: Student | null = null;
 
       // If there's an alignment error and ID detection issues, prioritize the alignment message
-      const hasAlignmentIssue = !markersFound || markerConfidence < 0.5;
+      const alignmentIssue = hasAlignmentIssue(omr);
       
       if (idDoubleShades.length > 0) {
         // Check if this might be caused by alignment issues
-        if (hasAlignmentIssue) {
+        if (alignmentIssue) {
           // Don't set idError - let alignment error take precedence
           // The alignment error message is more helpful
         } else {
           idError = `Student ID has multiple bubbles shaded in column(s): ${idDoubleShades.join(', ')}. Each column must have only one bubble shaded. Please ask the student to correct their answer sheet or manually edit the ID below.`;
         }
-      } else if (!studentId || /^0+$/.test(studentId)) {
-        if (hasAlignmentIssue) {
+      } else if (isNullStudentId(studentId)) {
+        if (alignmentIssue) {
           // Alignment issue is likely the cause - don't duplicate the message
         } else {
           idError = 'No Student ID was detected. Please check if the student properly shaded their ID bubbles.';
@@ -1068,12 +903,15 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       } else if (!classData) {
         idError = 'No class is linked to this exam. Please go to exam settings and assign a class before scanning.';
       } else {
-        const student = classData.students.find(s => s.student_id === studentId);
-        if (student) {
-          matched = student;
+        const entry = classData.roster?.find(s => s.student_id === studentId);
+        const enrollmentIssue = entry && getEnrollmentIssue(entry, `${classData.class_name} - ${classData.section_block}`);
+        if (entry && !enrollmentIssue) {
+          matched = entry;
+        } else if (enrollmentIssue) {
+          idError = enrollmentIssue;
         } else {
           // If alignment is poor but ID was detected, warn that the ID might be misread
-          if (hasAlignmentIssue) {
+          if (alignmentIssue) {
             idError = `Student ID "${studentId}" may have been misread due to alignment issues. The ID is not registered in class "${classData.class_name} - ${classData.section_block}". Try retaking the photo with better alignment.`;
           } else {
             idError = `Student ID "${studentId}" is not registered in class "${classData.class_name} - ${classData.section_block}". Please verify the student is enrolled in this class or check if the ID was shaded correctly.`;
@@ -1085,17 +923,8 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       setStudentIdError(idError);
       
       // Calculate score
-      let score = 0;
-      const totalQuestions = Math.min(answers.length, answerKey.length);
-      
-      for (let i = 0; i < totalQuestions; i++) {
-        if (answers[i] && answerKey[i] && answers[i].toUpperCase() === answerKey[i].toUpperCase()) {
-          score++;
-        }
-      }
-      
-      const percentage = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
-      const letterGrade = calculateLetterGrade(percentage);
+      const { score, totalQuestions, percentage } = gradeSheet(answers, masterAnswerKey, omr.examSet, exam.choicePoints);
+      const letterGrade = getLetterGrade(percentage, gradingScale);
       
       const result: ScanResult = {
         studentId,
@@ -1119,7 +948,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     } finally {
       setProcessing(false);
     }
-  }, [capturedImage, exam, answerKey, classData]);
+  }, [capturedImage, exam, masterAnswerKey, classData, sheetTemplate, gradingScale, idPolicy]);
 
   // Auto-trigger processImage when mode is 'processing' and capturedImage is ready
   useEffect(() => {
@@ -1128,1094 +957,39 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     }
   }, [mode, capturedImage, exam, processImage]);
 
-  // ─── CORNER MARKER DETECTION ───
-  // Finds the 4 black alignment squares printed at the corners of every answer sheet.
-  //
-  // CHALLENGE: The paper may not fill the entire image — there can be dark desk/background
-  // around the paper edges. The detector must find markers ON THE PAPER, not at image edges.
-  //
-  // IMPORTANT FOR 100-ITEM: The bottom markers are at ~75% of page height (Y=222 on 297mm page),
-  // NOT at the page bottom. The marker frame aspect ratio is 197/215.5 ≈ 0.91 (wider than tall).
-  //
-  // STRATEGY:
-  //   1. Scan the ENTIRE image for dark, uniform, square-shaped regions
-  //   2. Require bright PAPER background around each candidate (rejects desk edges/shadows)
-  //   3. Collect ALL good candidates across the whole image
-  //   4. Pick the 4 candidates that form the best axis-aligned rectangle
-  //      (top-left-most, top-right-most, bottom-left-most, bottom-right-most)
-  //   5. For 100-item templates, prefer rectangles where bottom markers are at ~75% of image height
-  const findCornerMarkers = (
-    _binary: Uint8Array,
-    width: number,
-    height: number,
-    grayscale?: Uint8Array,
-    templateType?: 20 | 50 | 100
-  ): {
-    found: boolean;
-    confidence: number;
-    topLeft: { x: number; y: number };
-    topRight: { x: number; y: number };
-    bottomLeft: { x: number; y: number };
-    bottomRight: { x: number; y: number };
-  } => {
-    if (!grayscale) {
-      return {
-        found: false,
-        confidence: 0,
-        topLeft: { x: width * 0.05, y: height * 0.05 },
-        topRight: { x: width * 0.95, y: height * 0.05 },
-        bottomLeft: { x: width * 0.05, y: height * 0.95 },
-        bottomRight: { x: width * 0.95, y: height * 0.95 },
-      };
-    }
-
-    // Build integral image for fast region-sum queries
-    const integral = new Float64Array((width + 1) * (height + 1));
-    for (let y = 0; y < height; y++) {
-      let rowSum = 0;
-      for (let x = 0; x < width; x++) {
-        rowSum += grayscale[y * width + x];
-        integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum;
-      }
-    }
-
-    // Fast average brightness of a rectangle using integral image
-    const rectAvg = (x1: number, y1: number, x2: number, y2: number): number => {
-      x1 = Math.max(0, Math.floor(x1));
-      y1 = Math.max(0, Math.floor(y1));
-      x2 = Math.min(width, Math.floor(x2));
-      y2 = Math.min(height, Math.floor(y2));
-      const area = (x2 - x1) * (y2 - y1);
-      if (area <= 0) return 255;
-      const sum = integral[y2 * (width + 1) + x2] - integral[y1 * (width + 1) + x2]
-                 - integral[y2 * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
-      return sum / area;
-    };
-
-    // Estimate marker size based on image width.
-    // Paper may not fill the entire image, so use a conservative estimate.
-    // Real marker is 7mm on a 210mm page → 3.3% of page width.
-    // If the paper fills 50-90% of the image, marker is 1.7-3% of image width.
-    // Try sizes from ~1.5% to ~4% of image width.
-    const baseSize = Math.round(width * 0.025); // ~2.5% of image width
-    const sizes = [
-      Math.max(8, Math.round(baseSize * 0.5)),
-      Math.max(10, Math.round(baseSize * 0.7)),
-      Math.max(12, baseSize),
-      Math.round(baseSize * 1.3),
-      Math.round(baseSize * 1.6),
-      Math.round(baseSize * 2.0),
-    ];
-
-    console.log(`[OMR] Marker search: image=${width}x${height}, baseSize=${baseSize}px, sizes=[${sizes.join(',')}]`);
-
-    // ── PHASE 1: Collect ALL dark square candidates across the ENTIRE image ──
-    interface MarkerCandidate {
-      x: number;
-      y: number;
-      score: number;
-      size: number;
-    }
-
-    const candidates: MarkerCandidate[] = [];
-
-    for (const size of sizes) {
-      const half = Math.floor(size / 2);
-      // Use 1/3 of marker size as step — finer than before (was 1/2) so we don't
-      // accidentally stride over a marker that sits between two step positions.
-      const step = Math.max(2, Math.floor(size / 3));
-
-      for (let cy = half + 2; cy < height - half - 2; cy += step) {
-        for (let cx = half + 2; cx < width - half - 2; cx += step) {
-          // Interior brightness (the marker itself — must be dark)
-          const innerAvg = rectAvg(cx - half, cy - half, cx + half, cy + half);
-          if (innerAvg > 80) continue;
-
-          // Uniformity: all 4 quadrants must be consistently dark
-          const q1 = rectAvg(cx - half, cy - half, cx, cy);
-          const q2 = rectAvg(cx, cy - half, cx + half, cy);
-          const q3 = rectAvg(cx - half, cy, cx, cy + half);
-          const q4 = rectAvg(cx, cy, cx + half, cy + half);
-          const qMax = Math.max(q1, q2, q3, q4);
-          const qMin = Math.min(q1, q2, q3, q4);
-          if (qMax - qMin > 50) continue; // Not uniform → not a solid square
-
-          // CRITICAL: The surrounding area must be BRIGHT (paper, not desk)
-          // Sample a ring 1.5-3× the marker size around it
-          const ringInner = Math.floor(half * 1.5);
-          const ringOuter = Math.floor(half * 3);
-          
-          // Check all 4 sides for brightness
-          // Corner markers sit near the paper edge, so 1-2 sides may extend into
-          // dark desk/background. We require at least 2 of 4 sides to be bright paper.
-          // This still rejects desk-edge shadows (0 bright sides) while allowing
-          // real markers that are near paper edges.
-          const topRing = rectAvg(cx - ringOuter, cy - ringOuter, cx + ringOuter, cy - ringInner);
-          const botRing = rectAvg(cx - ringOuter, cy + ringInner, cx + ringOuter, cy + ringOuter);
-          const leftRing = rectAvg(cx - ringOuter, cy - ringInner, cx - ringInner, cy + ringInner);
-          const rightRing = rectAvg(cx + ringInner, cy - ringInner, cx + ringOuter, cy + ringInner);
-          
-          const brightThreshold = 150; // Paper should be bright
-          const brightSides = (topRing > brightThreshold ? 1 : 0) +
-                              (botRing > brightThreshold ? 1 : 0) +
-                              (leftRing > brightThreshold ? 1 : 0) +
-                              (rightRing > brightThreshold ? 1 : 0);
-          
-          // At least 2 of 4 sides must have bright paper background
-          // (corner markers near paper edges may have desk on 2 sides)
-          if (brightSides < 2) continue;
-
-          // Border brightness: average of the ring
-          const borderAvg = (topRing + botRing + leftRing + rightRing) / 4;
-          const contrast = borderAvg - innerAvg;
-          if (contrast < 60) continue;
-
-          // Score: contrast × size bonus (larger markers score higher)
-          const sizeBonus = size / baseSize;
-          const score = contrast * sizeBonus;
-
-          candidates.push({ x: cx, y: cy, score, size });
-        }
-      }
-    }
-
-    console.log(`[OMR] Found ${candidates.length} marker candidates`);
-
-    // Remove overlapping candidates (keep highest score within each cluster)
-    candidates.sort((a, b) => b.score - a.score);
-    const merged: MarkerCandidate[] = [];
-    const mergeRadius = baseSize * 2;
-    
-    for (const c of candidates) {
-      const tooClose = merged.some(m => 
-        Math.abs(m.x - c.x) < mergeRadius && Math.abs(m.y - c.y) < mergeRadius
-      );
-      if (!tooClose) {
-        merged.push(c);
-      }
-    }
-
-    console.log(`[OMR] After merge: ${merged.length} unique candidates`);
-    for (const m of merged.slice(0, 8)) {
-      console.log(`[OMR]   candidate: (${Math.round(m.x)},${Math.round(m.y)}) score=${m.score.toFixed(0)} size=${m.size}`);
-    }
-
-    // ── PHASE 2: Select the 4 candidates that form the best rectangle ──
-    // For each candidate, compute which corner it would best serve based on position
-    if (merged.length < 4) {
-      console.log('[OMR] Not enough candidates, using fallback positions');
-      return {
-        found: false,
-        confidence: merged.length / 4, // 0-0.75 if some markers found
-        topLeft: { x: width * 0.1, y: height * 0.05 },
-        topRight: { x: width * 0.9, y: height * 0.05 },
-        bottomLeft: { x: width * 0.1, y: height * 0.85 },
-        bottomRight: { x: width * 0.9, y: height * 0.85 },
-      };
-    }
-
-    // ── Edge-proximity filter for ALL template types ──
-    // Corner alignment markers must be near the edges of the captured image.
-    // This is the single most effective way to reject interior section markers (■)
-    // that also happen to look like dark squares surrounded by bright paper.
-    //
-    // How tight to make the margin depends on how much of the image the paper fills:
-    //   20-item  guide = 75% frame width  → paper corners in outer ~12% of image
-    //   50-item  guide = 55% frame width  → paper corners in outer ~22% of image
-    //   100-item guide = 90% frame width  → paper corners in outer ~10% of image
-    //
-    // We use generous margins (2-2.5×) to accommodate rotation and alignment error:
-    //   20-item  → 28% margin  (2.3× the expected 12%)
-    //   50-item  → 32% margin  (1.5× the expected 22%)
-    //   100-item → 28% margin  (2.8× the expected 10%)
-    //
-    // A "corner candidate" must be near at least one LEFT/RIGHT edge AND at
-    // least one TOP/BOTTOM edge — so it occupies a corner quadrant of the image.
-    let filteredCandidates = merged;
-    {
-      const edgeMarginX = templateType === 50 ? width * 0.32 : width * 0.28;
-      const edgeMarginY = templateType === 50 ? height * 0.32 : height * 0.28;
-
-      const edgeFiltered = merged.filter(c => {
-        const nearH = c.x < edgeMarginX || c.x > width  - edgeMarginX;
-        const nearV = c.y < edgeMarginY || c.y > height - edgeMarginY;
-        return nearH && nearV;
-      });
-
-      console.log(`[OMR] Edge filter (${templateType}-item): ${merged.length} → ${edgeFiltered.length} candidates`);
-
-      // Only apply if we still have at least 4 candidates
-      if (edgeFiltered.length >= 4) {
-        filteredCandidates = edgeFiltered;
-      } else {
-        console.log('[OMR] Edge filter too aggressive, keeping all candidates');
-      }
-    }
-
-    // Try all combinations of 4 candidates (limit to top 12 to keep it fast)
-    const topN = filteredCandidates.slice(0, 12);
-    let bestCombo: { tl: MarkerCandidate; tr: MarkerCandidate; bl: MarkerCandidate; br: MarkerCandidate } | null = null;
-    let bestRectScore = 0;
-
-    for (let i = 0; i < topN.length; i++) {
-      for (let j = i + 1; j < topN.length; j++) {
-        for (let k = j + 1; k < topN.length; k++) {
-          for (let l = k + 1; l < topN.length; l++) {
-            const pts = [topN[i], topN[j], topN[k], topN[l]];
-            
-            // Sort into corners: TL has smallest x+y, TR has largest x-y, etc.
-            const sorted = [...pts];
-            const tl = sorted.reduce((a, b) => (a.x + a.y < b.x + b.y ? a : b));
-            const br = sorted.reduce((a, b) => (a.x + a.y > b.x + b.y ? a : b));
-            const tr = sorted.reduce((a, b) => (a.x - a.y > b.x - b.y ? a : b));
-            const bl = sorted.reduce((a, b) => (a.y - a.x > b.y - b.x ? a : b));
-            
-            // All 4 must be different candidates
-            const ids = new Set([tl, tr, bl, br]);
-            if (ids.size < 4) continue;
-            
-            // Check that it forms a reasonable rectangle
-            const topW = tr.x - tl.x;
-            const botW = br.x - bl.x;
-            const leftH = bl.y - tl.y;
-            const rightH = br.y - tr.y;
-            
-            // All dimensions must be positive and significant
-            if (topW < width * 0.2 || botW < width * 0.2) continue;
-            if (leftH < height * 0.2 || rightH < height * 0.2) continue;
-            
-            // Width ratio and height ratio should be close to 1
-            const wRatio = Math.min(topW, botW) / Math.max(topW, botW);
-            const hRatio = Math.min(leftH, rightH) / Math.max(leftH, rightH);
-            if (wRatio < 0.85 || hRatio < 0.85) continue;
-            
-            // Aspect ratio check - varies by template type
-            // 100-item: marker frame is 197mm wide x 215.5mm tall → aspect ≈ 0.91
-            // 20/50-item: marker frame is more square-ish
-            const avgW = (topW + botW) / 2;
-            const avgH = (leftH + rightH) / 2;
-            const aspect = avgW / avgH;
-            
-            // For 100-item, the marker frame aspect ratio is ~0.91 (fw/fh = 197/215.5)
-            // Enforce stricter aspect ratio for 100-item templates
-            if (templateType === 100) {
-              // 100-item should have aspect ratio 0.7-1.1 (allowing for rotation/perspective)
-              if (aspect < 0.7 || aspect > 1.1) continue;
-            } else {
-              // Other templates: allow wider range
-              if (aspect < 0.4 || aspect > 2.0) continue;
-            }
-            
-            // Left edges should be roughly aligned (TL.x ≈ BL.x)
-            const leftXDiff = Math.abs(tl.x - bl.x) / avgW;
-            const rightXDiff = Math.abs(tr.x - br.x) / avgW;
-            const topYDiff = Math.abs(tl.y - tr.y) / avgH;
-            const botYDiff = Math.abs(bl.y - br.y) / avgH;
-            // Allow more skew tolerance (up to 15% instead of 8%)
-            if (leftXDiff > 0.15 || rightXDiff > 0.15 || topYDiff > 0.15 || botYDiff > 0.15) continue;
-            
-            // ── Scoring ──
-            // Primary driver: area of the rectangle (larger = more likely to be
-            // the true outer corner markers, not inner section squares).
-            // Multiply by individual marker quality and rectangle regularity.
-            const rectQuality = wRatio * hRatio;
-            const areaFraction = (avgW * avgH) / (width * height); // 0–1
-
-            // For 100-item templates, add aspect ratio bonus
-            let aspectBonus = 1.0;
-            if (templateType === 100) {
-              const expectedAspect = 0.91;
-              const aspectDiff = Math.abs(aspect - expectedAspect);
-              aspectBonus = Math.max(0.5, 1.0 - aspectDiff);
-            }
-
-            // Position bonus for 100-item (bottom markers not at very bottom)
-            let positionBonus = 1.0;
-            if (templateType === 100) {
-              const bottomY = (bl.y + br.y) / 2;
-              const topY2   = (tl.y + tr.y) / 2;
-              const frameHeightRatio = (bottomY - topY2) / height;
-              const bottomYRatio     = bottomY / height;
-              if (bottomYRatio > 0.95)      positionBonus = 0.3;
-              else if (bottomYRatio < 0.50) positionBonus = 0.5;
-              else if (frameHeightRatio < 0.35) positionBonus = 0.4;
-              else positionBonus = 1.0 + frameHeightRatio * 0.5;
-            }
-
-            // Area is raised to the power of 2 so that a rectangle that is 10%
-            // larger in each dimension (21% more area) scores ~44% better,
-            // strongly preferring the outermost (correct) corner markers.
-            const totalScore = (tl.score + tr.score + bl.score + br.score)
-              * rectQuality
-              * Math.pow(areaFraction, 2)
-              * positionBonus
-              * aspectBonus;
-            
-            if (totalScore > bestRectScore) {
-              bestRectScore = totalScore;
-              bestCombo = { tl, tr, bl, br };
-            }
-          }
-        }
-      }
-    }
-
-    if (bestCombo) {
-      // Pixel-level refinement for each marker
-      const refineMarker = (c: MarkerCandidate): { x: number; y: number } => {
-        const half = Math.floor(c.size / 2);
-        const refineR = Math.max(4, Math.floor(c.size / 3));
-        let bestX = c.x, bestY = c.y, bestScore = 0;
-
-        for (let cy = c.y - refineR; cy <= c.y + refineR; cy++) {
-          for (let cx = c.x - refineR; cx <= c.x + refineR; cx++) {
-            if (cx - half < 0 || cx + half >= width || cy - half < 0 || cy + half >= height) continue;
-            const innerAvg = rectAvg(cx - half, cy - half, cx + half, cy + half);
-            if (innerAvg > 80) continue;
-            
-            const ringInner = Math.floor(half * 1.5);
-            const ringOuter = Math.floor(half * 3);
-            const topRing = rectAvg(cx - ringOuter, cy - ringOuter, cx + ringOuter, cy - ringInner);
-            const botRing = rectAvg(cx - ringOuter, cy + ringInner, cx + ringOuter, cy + ringOuter);
-            const leftRing = rectAvg(cx - ringOuter, cy - ringInner, cx - ringInner, cy + ringInner);
-            const rightRing = rectAvg(cx + ringInner, cy - ringInner, cx + ringOuter, cy + ringInner);
-            const borderAvg = (topRing + botRing + leftRing + rightRing) / 4;
-            
-            const score = borderAvg - innerAvg;
-            if (score > bestScore) {
-              bestScore = score;
-              bestX = cx;
-              bestY = cy;
-            }
-          }
-        }
-        return { x: bestX, y: bestY };
-      };
-
-      const tl = refineMarker(bestCombo.tl);
-      const tr = refineMarker(bestCombo.tr);
-      const bl = refineMarker(bestCombo.bl);
-      const br = refineMarker(bestCombo.br);
-
-      console.log(`[OMR] Selected rectangle: TL=(${Math.round(tl.x)},${Math.round(tl.y)}) TR=(${Math.round(tr.x)},${Math.round(tr.y)}) BL=(${Math.round(bl.x)},${Math.round(bl.y)}) BR=(${Math.round(br.x)},${Math.round(br.y)}) rectScore=${bestRectScore.toFixed(0)}`);
-
-      // Calculate confidence based on rectangle quality and individual marker scores
-      // Normalize score: typical good score is 5000-20000, max out at ~1.0
-      const avgMarkerScore = (bestCombo.tl.score + bestCombo.tr.score + bestCombo.bl.score + bestCombo.br.score) / 4;
-      const normalizedMarkerScore = Math.min(1, avgMarkerScore / 200);
-      
-      // Check rectangle quality metrics
-      const topW = tr.x - tl.x;
-      const botW = br.x - bl.x;
-      const leftH = bl.y - tl.y;
-      const rightH = br.y - tr.y;
-      const wRatio = Math.min(topW, botW) / Math.max(topW, botW);
-      const hRatio = Math.min(leftH, rightH) / Math.max(leftH, rightH);
-      const rectQuality = wRatio * hRatio;
-      
-      const confidence = Math.min(1, normalizedMarkerScore * rectQuality * 1.2);
-      console.log(`[OMR] Marker confidence: ${(confidence * 100).toFixed(1)}% (markerScore=${avgMarkerScore.toFixed(0)}, rectQuality=${rectQuality.toFixed(2)})`);
-
-      return {
-        found: true,
-        confidence,
-        topLeft: tl,
-        topRight: tr,
-        bottomLeft: bl,
-        bottomRight: br,
-      };
-    }
-
-    // Fallback: pick the 4 candidates closest to each corner
-    console.log('[OMR] No valid rectangle found, using corner-closest fallback');
-    const pickClosest = (targetX: number, targetY: number) => {
-      let best = merged[0];
-      let bestDist = Infinity;
-      for (const c of merged) {
-        const dist = Math.sqrt(Math.pow(c.x - targetX, 2) + Math.pow(c.y - targetY, 2));
-        if (dist < bestDist) {
-          bestDist = dist;
-          best = c;
-        }
-      }
-      return { x: best.x, y: best.y };
-    };
-
-    return {
-      found: false,
-      confidence: 0.3, // Low confidence for fallback
-      topLeft: pickClosest(0, 0),
-      topRight: pickClosest(width, 0),
-      bottomLeft: pickClosest(0, height),
-      bottomRight: pickClosest(width, height),
-    };
-  };
-
-  // ─── COORDINATE MAPPING ───
-  const mapToPixel = (
-    markers: {
-      topLeft: { x: number; y: number };
-      topRight: { x: number; y: number };
-      bottomLeft: { x: number; y: number };
-      bottomRight: { x: number; y: number };
-    },
-    nx: number,
-    ny: number
-  ): { px: number; py: number } => {
-    const topX = markers.topLeft.x + nx * (markers.topRight.x - markers.topLeft.x);
-    const topY = markers.topLeft.y + nx * (markers.topRight.y - markers.topLeft.y);
-    const botX = markers.bottomLeft.x + nx * (markers.bottomRight.x - markers.bottomLeft.x);
-    const botY = markers.bottomLeft.y + nx * (markers.bottomRight.y - markers.bottomLeft.y);
-    return {
-      px: topX + ny * (botX - topX),
-      py: topY + ny * (botY - topY),
-    };
-  };
-
-  // ─── TEMPLATE LAYOUT DEFINITIONS ───
-  interface AnswerBlock {
-    startQ: number;
-    endQ: number;
-    firstBubbleNX: number;
-    firstBubbleNY: number;
-    bubbleSpacingNX: number;
-    rowSpacingNY: number;
-  }
-
-  interface TemplateLayout {
-    id: {
-      firstColNX: number;
-      firstRowNY: number;
-      colSpacingNX: number;
-      rowSpacingNY: number;
-    };
-    answerBlocks: AnswerBlock[];
-    bubbleDiameterNX: number;
-    bubbleDiameterNY: number;
-  }
-
-  const getTemplateLayout = (numQuestions: number): TemplateLayout => {
-    const templateType = numQuestions <= 20 ? 20 : numQuestions <= 50 ? 50 : 100;
-
-    if (templateType === 20) {
-      // Mini sheet 105 × 148.5 mm
-      // Marker centers: TL (7, 19)  BR (98, 126)  →  frame 91 × 107 mm
-      const fw = 91, fh = 107;
-      return {
-        id: {
-          firstColNX: 11 / fw,
-          firstRowNY: 15 / fh,
-          colSpacingNX: 4.5 / fw,
-          rowSpacingNY: 3.5 / fh,
-        },
-        answerBlocks: [
-          {
-            startQ: 1, endQ: 10,
-            firstBubbleNX: 13 / fw, firstBubbleNY: 58 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-          {
-            startQ: 11, endQ: 20,
-            firstBubbleNX: 55.5 / fw, firstBubbleNY: 58 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-        ],
-        bubbleDiameterNX: 3.2 / fw,
-        bubbleDiameterNY: 3.2 / fh,
-      };
-    }
-
-    if (templateType === 50) {
-      // Half-page sheet 105 × 297 mm
-      // Marker centers: TL (7, 19)  BR (98, 230)  →  frame 91 × 211 mm
-      const fw = 91, fh = 211;
-      return {
-        id: {
-          firstColNX: 11 / fw,
-          firstRowNY: 15 / fh,
-          colSpacingNX: 4.5 / fw,
-          rowSpacingNY: 3.5 / fh,
-        },
-        answerBlocks: [
-          // Left column: Q1–10, Q11–20, Q21–30
-          {
-            startQ: 1, endQ: 10,
-            firstBubbleNX: 13 / fw, firstBubbleNY: 58 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-          {
-            startQ: 11, endQ: 20,
-            firstBubbleNX: 13 / fw, firstBubbleNY: 110 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-          {
-            startQ: 21, endQ: 30,
-            firstBubbleNX: 13 / fw, firstBubbleNY: 162 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-          // Right column: Q31–40, Q41–50
-          {
-            startQ: 31, endQ: 40,
-            firstBubbleNX: 55.5 / fw, firstBubbleNY: 58 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-          {
-            startQ: 41, endQ: 50,
-            firstBubbleNX: 55.5 / fw, firstBubbleNY: 110 / fh,
-            bubbleSpacingNX: 4.8 / fw, rowSpacingNY: 4.5 / fh,
-          },
-        ],
-        bubbleDiameterNX: 3.2 / fw,
-        bubbleDiameterNY: 3.2 / fh,
-      };
-    }
-
-    // 100‑question full page  210 × 297 mm
-    //
-    // PDF LAYOUT TRACE (with logo + exam code):
-    //   Top markers: rect(3,3,7,7) & rect(200,3,7,7) → centers at (6.5, 6.5) & (203.5, 6.5)
-    //   currentY = 12 → +logoSize(12)+4 = 28 → +examCode(5) = 33 → +Name/Date(5) = 38
-    //   idTopY = 38, +7 → 45 (ID boxes), +idBoxH(5)+3 = 53 → idBubbleY = 53
-    //   ID first bubble column: idStartX = 10(margin)+3(pad)+8(label) = 21
-    //   ID bottom = 53 + 10*4.8 + 2 = 103, +4 → gridStartY = 107
-    //   Grid row 0: by=107, header+4.5 → first bubble at 111.5
-    //   Grid row 1: by=107+56=163, header+4.5 → first bubble at 167.5
-    //   Row 1 last qY = 163 + 4.5 + 10*4.8 = 215.5
-    //   bmY = 215.5 + 3 = 218.5 → bottom marker centers at (6.5, 222) & (203.5, 222)
-    //
-    //   fw = 203.5 - 6.5 = 197  ✓
-    //   fh = 222 - 6.5 = 215.5
-    //
-    // All NY values are (pageY - 6.5) / fh
-    // All NX values are (pageX - 6.5) / fw
-    //
-    // EXACT COORDINATE DERIVATION from drawFullSheet():
-    //   margin=10, inset=3, markerSize=7, lx=10, rx=200, usableW=190
-    //   bubbleGap=5.0, rowH=4.8, numW=12 (space for question numbers)
-    //   qBlockW = 12 + (5-1)*5.0 + 3.8 = 35.8mm
-    //   colGap = (190 - 4*35.8) / 5 = 9.36mm
-    //
-    // Top section (Q41-50, Q71-80):
-    //   idBorderW = (8 + 10*4.5) + 2*3 = 59mm, afterIdX = 10+59 = 69mm
-    //   remainW = 200-69 = 131mm, topGap = (131 - 2*35.8)/2 = 29.7mm
-    //   b41x = 69 + 29.7/2 = 83.85mm → first bubble at 83.85+12 = 95.85mm page
-    //   b71x = 83.85 + 35.8 + 29.7 = 149.35mm → first bubble at 161.35mm page
-    //
-    // Bottom grid (4 cols × 2 rows):
-    //   col0: bx = 10 + 9.36 = 19.36mm → first bubble at 31.36mm page
-    //   col1: bx = 10 + 9.36 + 45.16 = 64.52mm → first bubble at 76.52mm page
-    //   col2: bx = 10 + 9.36 + 90.32 = 109.68mm → first bubble at 121.68mm page
-    //   col3: bx = 10 + 9.36 + 135.48 = 154.84mm → first bubble at 166.84mm page
-    //
-    // NX = (pageX - 6.5) / fw, NY = (pageY - 6.5) / fh
-    const fw = 197, fh = 215.5;
-    return {
-      id: {
-        // idStartX=21 page mm → (21 - 6.5) = 14.5 mm from TL marker center
-        firstColNX: 14.5 / fw,
-        // idBubbleY=53 page mm → (53 - 6.5) = 46.5 mm from TL marker center
-        firstRowNY: 46.5 / fh,
-        colSpacingNX: 4.5 / fw,
-        rowSpacingNY: 4.8 / fh,
-      },
-      answerBlocks: [
-        // Top row (beside ID section) — aligned to idBubbleY
-        // drawQBlock header at Y=53, +4.5 → first bubble Y = 57.5 → NY = 51/fh
-        {
-          startQ: 41, endQ: 50,
-          // b41x=83.85, first bubble = 83.85+12 = 95.85 → NX = (95.85-6.5)/fw = 89.35/fw
-          firstBubbleNX: 89.35 / fw,
-          firstBubbleNY: 51 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 71, endQ: 80,
-          // b71x=149.35, first bubble = 149.35+12 = 161.35 → NX = (161.35-6.5)/fw = 154.85/fw
-          firstBubbleNX: 154.85 / fw,
-          firstBubbleNY: 51 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        // Bottom grid – row 0: by=107, header+4.5 → first bubble at Y=111.5 → NY = 105/fh
-        {
-          startQ: 1, endQ: 10,
-          // col0: bx=19.36, first bubble = 31.36 → NX = 24.86/fw
-          firstBubbleNX: 24.86 / fw,
-          firstBubbleNY: 105 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 21, endQ: 30,
-          // col1: bx=64.52, first bubble = 76.52 → NX = 70.02/fw
-          firstBubbleNX: 70.02 / fw,
-          firstBubbleNY: 105 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 51, endQ: 60,
-          // col2: bx=109.68, first bubble = 121.68 → NX = 115.18/fw
-          firstBubbleNX: 115.18 / fw,
-          firstBubbleNY: 105 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 81, endQ: 90,
-          // col3: bx=154.84, first bubble = 166.84 → NX = 160.34/fw
-          firstBubbleNX: 160.34 / fw,
-          firstBubbleNY: 105 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        // Bottom grid – row 1: by=163, header+4.5 → first bubble at Y=167.5 → NY = 161/fh
-        {
-          startQ: 11, endQ: 20,
-          firstBubbleNX: 24.86 / fw,
-          firstBubbleNY: 161 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 31, endQ: 40,
-          firstBubbleNX: 70.02 / fw,
-          firstBubbleNY: 161 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 61, endQ: 70,
-          firstBubbleNX: 115.18 / fw,
-          firstBubbleNY: 161 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-        {
-          startQ: 91, endQ: 100,
-          firstBubbleNX: 160.34 / fw,
-          firstBubbleNY: 161 / fh,
-          bubbleSpacingNX: 5.0 / fw,
-          rowSpacingNY: 4.8 / fh,
-        },
-      ],
-      bubbleDiameterNX: 3.8 / fw,
-      bubbleDiameterNY: 3.8 / fh,
-    };
-  };
-
-  // ─── MAIN DETECTION PIPELINE ───
-  const detectBubbles = async (
-    imageData: ImageData,
-    numQuestions: number,
-    choicesPerQuestion: number
-  ): Promise<{
-    studentId: string;
-    answers: string[];
-    multipleAnswers: number[];
-    idDoubleShades: number[];
-    rawIdDigits: number[]; // Array of detected digits per column (-1 = unshaded)
-    markersFound: boolean;
-    markerConfidence: number;
-    debugMarkers?: {
-      topLeft: { x: number; y: number };
-      topRight: { x: number; y: number };
-      bottomLeft: { x: number; y: number };
-      bottomRight: { x: number; y: number };
-    };
-    // Pixel coords of each detected answer bubble for overlay drawing
-    bubbleHits: Array<{ px: number; py: number; rx: number; ry: number; choice: string; qIndex: number }>;
-  }> => {
-    const { data, width, height } = imageData;
-
-    // 1. Convert to grayscale
-    const rawGrayscale = new Uint8Array(width * height);
-    for (let i = 0; i < data.length; i += 4) {
-      rawGrayscale[i / 4] = Math.round(
-        0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
-      );
-    }
-
-    // 1b. Global contrast stretch (2nd–98th percentile) for bubble sampling.
-    // Simple and predictable — keeps paper white and ink black without the
-    // per-tile inversion artefact that per-tile CLAHE caused on dark backgrounds.
-    const sortSample: number[] = [];
-    const sampleStep = Math.max(1, Math.floor(rawGrayscale.length / 10000));
-    for (let i = 0; i < rawGrayscale.length; i += sampleStep) {
-      sortSample.push(rawGrayscale[i]);
-    }
-    sortSample.sort((a, b) => a - b);
-    const gMin = sortSample[Math.floor(sortSample.length * 0.02)];
-    const gMax = sortSample[Math.floor(sortSample.length * 0.98)];
-    const gRange = Math.max(1, gMax - gMin);
-
-    const grayscale = new Uint8Array(width * height);
-    for (let i = 0; i < rawGrayscale.length; i++) {
-      grayscale[i] = Math.max(0, Math.min(255,
-        Math.round(((rawGrayscale[i] - gMin) / gRange) * 255)
-      ));
-    }
-    console.log(`[OMR] Contrast stretch: min=${gMin} max=${gMax} range=${gRange}`);
-
-    // 2. Find corner alignment markers using RAW grayscale (before contrast normalization)
-    // This avoids shadows/noise being amplified into false marker candidates
-    const dummyBinary = new Uint8Array(0); // not used by new marker detector
-    
-    // Determine template type BEFORE finding markers (needed for position heuristics)
-    const templateType = numQuestions <= 20 ? 20 : numQuestions <= 50 ? 50 : 100;
-    
-    const markers = findCornerMarkers(dummyBinary, width, height, rawGrayscale, templateType);
-    console.log('[OMR] Corner markers found:', markers.found,
-      'TL:', Math.round(markers.topLeft.x), Math.round(markers.topLeft.y),
-      'BR:', Math.round(markers.bottomRight.x), Math.round(markers.bottomRight.y),
-      'Template:', templateType);
-
-    // 3. Use found markers (even if geometry check failed, the positions are better than raw margins)
-    // Only fall back to image-edge margins if NO markers were found at all (all scores = 0)
-    const fallbackMargin = templateType === 100 ? 0.04 : 0.02;
-    const noMarkersAtAll = markers.topLeft.x === 0 && markers.topLeft.y === 0;
-    const effectiveMarkers = noMarkersAtAll
-      ? {
-          topLeft: { x: width * fallbackMargin, y: height * fallbackMargin },
-          topRight: { x: width * (1 - fallbackMargin), y: height * fallbackMargin },
-          bottomLeft: { x: width * fallbackMargin, y: height * (1 - fallbackMargin) },
-          bottomRight: { x: width * (1 - fallbackMargin), y: height * (1 - fallbackMargin) },
-        }
-      : {
-          topLeft: markers.topLeft,
-          topRight: markers.topRight,
-          bottomLeft: markers.bottomLeft,
-          bottomRight: markers.bottomRight,
-        };
-
-    // 4. Get template layout for this exam's question count
-    const layout = getTemplateLayout(numQuestions);
-
-    // 5. Detect student ID and answers using GRAYSCALE for bubble sampling
-    const { studentId, doubleShadeColumns, rawIdDigits } = detectStudentIdFromImage(grayscale, width, height, effectiveMarkers, layout);
-    const { answers, multipleAnswers, bubbleHits } = detectAnswersFromImage(
-      grayscale, width, height, effectiveMarkers, layout, numQuestions, choicesPerQuestion
-    );
-
-    return { 
-      studentId, 
-      answers, 
-      multipleAnswers, 
-      idDoubleShades: doubleShadeColumns,
-      rawIdDigits, // Include raw digit array for UI display
-      markersFound: markers.found,
-      markerConfidence: noMarkersAtAll ? 0 : markers.confidence,
-      debugMarkers: effectiveMarkers,
-      bubbleHits,
-    };
-  };
-
-  // ─── BUBBLE SAMPLING (grayscale-based) ───
-  // Returns a WEIGHTED MEAN BRIGHTNESS of the bubble interior (0-255).
-  // LOWER value = DARKER = MORE LIKELY FILLED.
-  //
-  // Strategy:
-  //  • Sample the inner 65% of the bubble radius (avoids the printed circle outline).
-  //  • Weight pixels with a 2D Gaussian centred on the bubble centre so that
-  //    a pencil mark anywhere inside — even if only at the centre — is detected,
-  //    while edge noise from the printed circle is down-weighted.
-  //  • Minimum-pool: return the min of the weighted mean and the darkest 10th-
-  //    percentile brightness so that a small but very dark mark is not averaged away.
-  const sampleBubbleAt = (
-    grayscale: Uint8Array,
-    imgW: number,
-    imgH: number,
-    cx: number,
-    cy: number,
-    radiusX: number,
-    radiusY: number
-  ): number => {
-    const innerRX = radiusX * 0.65;
-    const innerRY = radiusY * 0.65;
-    // Gaussian σ = half the inner radius; weight falls to ~14% at the edge
-    const sigX = innerRX * 0.5;
-    const sigY = innerRY * 0.5;
-    const step = Math.max(1, Math.floor(Math.min(innerRX, innerRY) / 5));
-
-    let wSum = 0, sum = 0;
-    const samples: number[] = [];
-
-    for (let dy = -Math.ceil(innerRY); dy <= Math.ceil(innerRY); dy += step) {
-      for (let dx = -Math.ceil(innerRX); dx <= Math.ceil(innerRX); dx += step) {
-        if (innerRX > 0 && innerRY > 0 &&
-            (dx * dx) / (innerRX * innerRX) + (dy * dy) / (innerRY * innerRY) > 1) continue;
-        const px = Math.round(cx + dx);
-        const py = Math.round(cy + dy);
-        if (px < 0 || px >= imgW || py < 0 || py >= imgH) continue;
-        const val = grayscale[py * imgW + px];
-        // Gaussian weight (higher at centre, tapering to edges)
-        const w = Math.exp(-0.5 * ((dx * dx) / (sigX * sigX + 1) + (dy * dy) / (sigY * sigY + 1)));
-        sum += val * w;
-        wSum += w;
-        samples.push(val);
-      }
-    }
-
-    if (wSum === 0) return 255;
-
-    const weightedMean = sum / wSum;
-
-    // Also compute the 10th-percentile brightness (darkest 10% of sampled pixels)
-    // so that a small but solidly-filled centre patch is not diluted.
-    samples.sort((a, b) => a - b);
-    const p10 = samples.length > 0 ? samples[Math.floor(samples.length * 0.10)] : 255;
-
-    // Return the lower (darker) of the two — catches both large-area fills and
-    // concentrated centre-only fills (e.g. short pencil strokes).
-    return Math.min(weightedMean, p10 * 0.85 + weightedMean * 0.15);
-  };
-
-  // ─── DETECT STUDENT ID ───
-  // sampleBubbleAt returns RAW BRIGHTNESS (0-255): lower = darker = filled.
-  // For each ID column (9 columns, digits 0-9), we find the DARKEST bubble.
-  // Detection uses a robust approach:
-  //   1. The darkest must be significantly darker than the MEDIAN of all 10 bubbles
-  //   2. We use the gap between darkest and 2nd-darkest as additional confidence
-  const detectStudentIdFromImage = (
-    grayscale: Uint8Array,
-    width: number,
-    height: number,
-    markers: {
-      topLeft: { x: number; y: number };
-      topRight: { x: number; y: number };
-      bottomLeft: { x: number; y: number };
-      bottomRight: { x: number; y: number };
-    },
-    layout: TemplateLayout
-  ): { studentId: string; doubleShadeColumns: number[]; rawIdDigits: number[] } => {
-    const { id } = layout;
-    const idDigits: number[] = [];
-    const doubleShadeColumns: number[] = [];
-
-    const frameW = markers.topRight.x - markers.topLeft.x;
-    const frameH = markers.bottomLeft.y - markers.topLeft.y;
-    const bubbleRX = (layout.bubbleDiameterNX * frameW) / 2;
-    const bubbleRY = (layout.bubbleDiameterNY * frameH) / 2;
-
-    // ID bubbles are slightly smaller than answer bubbles
-    const idBubbleRX = bubbleRX * (3.5 / 3.8);
-    const idBubbleRY = bubbleRY * (3.5 / 3.8);
-
-    console.log('[ID] BubbleR:', idBubbleRX.toFixed(1), 'x', idBubbleRY.toFixed(1));
-
-    // Log the pixel position of the first and last ID bubbles for visual verification
-    const firstIdPx = mapToPixel(markers, id.firstColNX, id.firstRowNY);
-    const lastIdPx = mapToPixel(markers, id.firstColNX + 8 * id.colSpacingNX, id.firstRowNY + 9 * id.rowSpacingNY);
-    console.log(`[ID] First bubble px=(${Math.round(firstIdPx.px)},${Math.round(firstIdPx.py)}), Last bubble px=(${Math.round(lastIdPx.px)},${Math.round(lastIdPx.py)})`);
-    console.log(`[ID] Frame: TL=(${Math.round(markers.topLeft.x)},${Math.round(markers.topLeft.y)}) BR=(${Math.round(markers.bottomRight.x)},${Math.round(markers.bottomRight.y)}) size=${Math.round(frameW)}x${Math.round(frameH)}`);
-
-    // Process 9 columns for 9-digit student IDs
-    for (let col = 0; col < 9; col++) {
-      const fills: number[] = []; // raw brightness values (lower = darker)
-
-      for (let row = 0; row < 10; row++) {
-        const nx = id.firstColNX + col * id.colSpacingNX;
-        const ny = id.firstRowNY + row * id.rowSpacingNY;
-        const { px, py } = mapToPixel(markers, nx, ny);
-        const brightness = sampleBubbleAt(grayscale, width, height, px, py, idBubbleRX, idBubbleRY);
-        fills.push(brightness);
-      }
-
-      // Sort ascending — lowest brightness = darkest = most filled
-      const sorted = [...fills].sort((a, b) => a - b);
-      const darkest = sorted[0];     // most filled
-      const secondDark = sorted[1];  // second most filled
-      // Use the upper quartile (index 7) as the "unfilled" reference
-      // This is more robust than median — unfilled bubbles should be bright
-      const upperQ = sorted[7];
-
-      let detectedDigit: number | null = null; // null means no detection (unshaded column)
-      let hasDetection = false;
-
-      // ── Detection thresholds (calibrated for Gaussian-weighted sampler) ──
-      //
-      // sampleBubbleAt now returns a Gaussian-weighted mean blended with the p10
-      // darkest sample, so filled bubbles appear darker than before.
-      //
-      // Tier 1 – Strong fill (clear dark mark):
-      //   darkest < 68% of upper-quartile reference  → definite fill
-      // Tier 2 – Light fill (light pencil / faded ink):
-      //   darkest < 82% of upper-quartile  AND  gap to 2nd > 12% of reference
-      //   → probably intentional (stands out from neighbours)
-      const darkRatio = upperQ > 20 ? darkest / upperQ : 1;
-      const gapFromSecond = secondDark - darkest;
-      const gapRatio = upperQ > 20 ? gapFromSecond / upperQ : 0;
-
-      if (darkRatio < 0.68) {
-        detectedDigit = fills.indexOf(darkest);
-        hasDetection = true;
-      } else if (darkRatio < 0.82 && gapRatio > 0.12) {
-        detectedDigit = fills.indexOf(darkest);
-        hasDetection = true;
-      }
-
-      if (hasDetection && detectedDigit !== null) {
-        // Double-shade: 2nd-darkest is also quite dark AND close to darkest
-        const secondRatio = upperQ > 20 ? secondDark / upperQ : 1;
-        const gapBetweenTopTwo = upperQ > 20 ? gapFromSecond / upperQ : 1;
-        if (secondRatio < 0.76 && gapBetweenTopTwo < 0.09) {
-          doubleShadeColumns.push(col + 1);
-          console.log(`[ID] ⚠️ Col ${col} DOUBLE SHADE: darkest=${darkest.toFixed(0)} 2nd=${secondDark.toFixed(0)} upperQ=${upperQ.toFixed(0)}`);
-          idDigits.push(-2);
-          continue;
-        }
-      }
-
-      // NULL LOGIC: If no bubble is shaded, use -1 placeholder (not '0')
-      // This prevents unshaded columns from corrupting the ID (e.g., 9 digits → 10)
-      // The digit '0' should ONLY appear if the '0' bubble is actually shaded
-      const digitChar = hasDetection && detectedDigit !== null ? String(detectedDigit) : '_';
-      
-      console.log(`[ID] Col ${col}: brightness=[${fills.map(f => f.toFixed(0)).join(',')}] → ${digitChar} (darkest=${darkest.toFixed(0)} upperQ=${upperQ.toFixed(0)} ratio=${darkRatio.toFixed(2)} gap=${gapRatio.toFixed(2)})`);
-      idDigits.push(hasDetection && detectedDigit !== null ? detectedDigit : -1); // -1 = unshaded, -2 = double-shade
-    }
-
-    // Convert digits to string, using '_' for unshaded (-1) and '?' for double-shade (-2)
-    // Then strip placeholders and return only the cleanly detected digits
-    const rawWithPlaceholders = idDigits.map(d => d === -1 ? '_' : d === -2 ? '?' : String(d)).join('');
-    
-    // For the final ID, exclude both unshaded (-1) and double-shaded (-2) columns
-    const cleanId = idDigits.filter(d => d >= 0).map(d => String(d)).join('');
-    
-    console.log('[ID] Raw with placeholders:', rawWithPlaceholders);
-    console.log('[ID] Clean ID:', cleanId, cleanId.length, 'digits', doubleShadeColumns.length > 0 ? `(double-shade: cols ${doubleShadeColumns.join(',')})` : '');
-    
-    // Return both the clean ID and the raw digit array for UI display
-    return { studentId: cleanId, doubleShadeColumns, rawIdDigits: idDigits };
-  };
-
-  // ─── DETECT ANSWERS ───
-  // sampleBubbleAt returns RAW BRIGHTNESS (0-255): lower = darker = filled.
-  // For each question, the darkest choice wins if it's sufficiently darker than the rest.
-  // Uses the BRIGHTEST bubble in the row as the "unfilled" reference — this is more
-  // robust than using a median when there are only 4-5 choices.
-  const detectAnswersFromImage = (
-    grayscale: Uint8Array,
-    width: number,
-    height: number,
-    markers: {
-      topLeft: { x: number; y: number };
-      topRight: { x: number; y: number };
-      bottomLeft: { x: number; y: number };
-      bottomRight: { x: number; y: number };
-    },
-    layout: TemplateLayout,
-    numQuestions: number,
-    choicesPerQuestion: number
-  ): { answers: string[]; multipleAnswers: number[]; bubbleHits: Array<{ px: number; py: number; rx: number; ry: number; choice: string; qIndex: number }> } => {
-    const answers = new Array<string>(numQuestions).fill('');
-    const multipleAnswers: number[] = [];
-    const bubbleHits: Array<{ px: number; py: number; rx: number; ry: number; choice: string; qIndex: number }> = [];
-    const choiceLabels = 'ABCDEFGH'.slice(0, choicesPerQuestion).split('');
-
-    const frameW = markers.topRight.x - markers.topLeft.x;
-    const frameH = markers.bottomLeft.y - markers.topLeft.y;
-    const bubbleRX = (layout.bubbleDiameterNX * frameW) / 2;
-    const bubbleRY = (layout.bubbleDiameterNY * frameH) / 2;
-
-    console.log(`[ANS] Frame: ${Math.round(frameW)}x${Math.round(frameH)}px, BubbleR: ${bubbleRX.toFixed(1)}x${bubbleRY.toFixed(1)}px`);
-
-    for (const block of layout.answerBlocks) {
-      const firstPx = mapToPixel(markers, block.firstBubbleNX, block.firstBubbleNY);
-      console.log(`[ANS] Block Q${block.startQ}-${block.endQ}: firstBubble px=(${Math.round(firstPx.px)},${Math.round(firstPx.py)})`);
-
-      for (let q = block.startQ; q <= block.endQ && q <= numQuestions; q++) {
-        const qIndex = q - 1;
-        const rowInBlock = q - block.startQ;
-
-        const fills: { choice: string; brightness: number; px: number; py: number }[] = [];
-
-        for (let c = 0; c < choicesPerQuestion; c++) {
-          const nx = block.firstBubbleNX + c * block.bubbleSpacingNX;
-          const ny = block.firstBubbleNY + rowInBlock * block.rowSpacingNY;
-          const { px, py } = mapToPixel(markers, nx, ny);
-          const brightness = sampleBubbleAt(grayscale, width, height, px, py, bubbleRX, bubbleRY);
-          fills.push({ choice: choiceLabels[c], brightness, px, py });
-        }
-
-        // Sort ASCENDING by brightness — darkest (most filled) first
-        const sorted = [...fills].sort((a, b) => a.brightness - b.brightness);
-        const darkest = sorted[0].brightness;
-        const secondDark = sorted.length >= 2 ? sorted[1].brightness : 255;
-        const brightest = sorted[sorted.length - 1].brightness;
-
-        let selectedChoice = '';
-
-        // Use the brightest bubble as the "unfilled" reference.
-        // For a row of N choices, at most 1 is filled — the brightest N-1 are unfilled.
-        const ref = brightest;
-        const darkRatio = ref > 20 ? darkest / ref : 1;
-        const gapFromSecond = secondDark - darkest;
-        const gapRatio = ref > 20 ? gapFromSecond / ref : 0;
-
-        // ── Detection tiers (Gaussian-weighted sampler) ──
-        // Tier 1 – Strong fill:   darkest < 68% of brightest  → definite mark
-        // Tier 2 – Light fill:    darkest < 82% of brightest  AND gap to 2nd > 12%
-        //          → intentional light mark (pen nearly dry, hard-pressure pencil, etc.)
-        if (darkRatio < 0.68) {
-          selectedChoice = sorted[0].choice;
-        } else if (darkRatio < 0.82 && gapRatio > 0.12) {
-          selectedChoice = sorted[0].choice;
-        }
-
-        // Check for multiple answers (flag but still use darkest)
-        if (selectedChoice) {
-          const secondRatio = ref > 20 ? secondDark / ref : 1;
-          const gapBetweenTopTwo = ref > 20 ? gapFromSecond / ref : 1;
-          // Multiple answers: 2nd darkest is also quite dark (<76%) AND close to darkest (<9% gap)
-          if (secondRatio < 0.76 && gapBetweenTopTwo < 0.09) {
-            multipleAnswers.push(q);
-            console.log(`[MULTI] Q${q}: ${sorted.slice(0, 3).map(f => `${f.choice}=${f.brightness.toFixed(0)}`).join(', ')} ref=${ref.toFixed(0)}`);
-          }
-        }
-
-        // Log first few questions per block + last for debugging
-        if (q <= block.startQ + 2 || q === block.endQ) {
-          console.log(`[ANS] Q${q}: ${fills.map(f => `${f.choice}=${f.brightness.toFixed(0)}`).join(', ')} → ${selectedChoice || '?'} (darkRatio=${darkRatio.toFixed(2)} gapRatio=${gapRatio.toFixed(2)} ref=${ref.toFixed(0)})`);
-        }
-
-        answers[qIndex] = selectedChoice;
-
-        // Record bubble hit for overlay drawing
-        if (selectedChoice) {
-          const hit = fills.find(f => f.choice === selectedChoice);
-          if (hit) bubbleHits.push({ px: hit.px, py: hit.py, rx: bubbleRX, ry: bubbleRY, choice: selectedChoice, qIndex });
-        }
-      }
-    }
-    return { answers, multipleAnswers, bubbleHits };
-  };
-
-  // Calculate letter grade
-  const calculateLetterGrade = (percentage: number): string => {
-    if (percentage >= 90) return 'A';
-    if (percentage >= 85) return 'A-';
-    if (percentage >= 80) return 'B+';
-    if (percentage >= 75) return 'B';
-    if (percentage >= 70) return 'C+';
-    if (percentage >= 65) return 'C';
-    if (percentage >= 60) return 'D';
-    return 'F';
+  const resetForNextScan = () => {
+    setScanResult(null);
+    setDetectedAnswers([]);
+    setDetectedStudentId('');
+    setMatchedStudent(null);
+    setStudentIdError(null);
+    setMultipleAnswerQuestions([]);
+    setAnswerConfidence([]);
+    setIdDoubleShadeColumns([]);
+    setAlignmentError(null);
+    setCapturedImage(null);
+    setExamSet('');
+    setExamSetError(null);
+    scanEvidenceRef.current = null;
+    isAutoCapturingRef.current = false;
+    setMode('camera');
+    startCamera();
   };
 
-  // Get grade color
-  const getGradeColor = (grade: string): string => {
-    if (grade.startsWith('A')) return 'text-green-600 bg-green-100';
-    if (grade.startsWith('B')) return 'text-lime-600 bg-lime-100';
-    if (grade.startsWith('C')) return 'text-yellow-600 bg-yellow-100';
-    if (grade.startsWith('D')) return 'text-orange-600 bg-orange-100';
-    return 'text-red-600 bg-red-100';
+  // Results this student already has, or none when the server can't be reached in time;
+  // the queue then holds the scan as a conflict if it turns out to be a duplicate
+  const findExistingResults = async (studentId: string): Promise<ScannedResult[]> => {
+    if (!navigator.onLine) return [];
+    const lookup = await Promise.race([
+      ScanningService.findStudentResults(examId, studentId),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), DUPLICATE_CHECK_TIMEOUT_MS)),
+    ]);
+    return lookup?.success ? lookup.data || [] : [];
   };
 
   // Save scan result
-  const saveScanResult = async () => {
-    if (!scanResult || !user || !exam) return;
+  const saveScanResult = async (resolution?: DuplicateResolution) => {
+    if (!scanResult || !user || !exam || !masterAnswerKey) return;
 
     // Block saving if student ID has errors
     if (studentIdError) {
@@ -2226,6 +1000,10 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       toast.error('Cannot save: Student ID has columns with multiple bubbles shaded. Please correct the Student ID first.');
       return;
     }
+    if (examSetLabels.length > 0 && !examSet) {
+      toast.error('Cannot save: Select the exam set of this answer sheet first.');
+      return;
+    }
 
     // Block saving if no class is linked or student is not in the class
     if (!classData) {
@@ -2234,7 +1012,13 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
       return;
     }
 
-    const student = classData.students.find(s => s.student_id === detectedStudentId);
+    const student = classData.roster?.find(s => s.student_id === detectedStudentId);
+    const enrollmentIssue = student && getEnrollmentIssue(student, `${classData.class_name} - ${classData.section_block}`);
+    if (enrollmentIssue) {
+      toast.error(`Cannot save: ${enrollmentIssue}`);
+      setStudentIdError(enrollmentIssue);
+      return;
+    }
     if (!student) {
       toast.error(`Cannot save: Student ID "${detectedStudentId}" is not registered in class "${classData.class_name} - ${classData.section_block}".`);
       setStudentIdError(`Student ID "${detectedStudentId}" is not registered in class "${classData.class_name} - ${classData.section_block}". Please verify the student is enrolled in this class.`);
@@ -2243,38 +1027,49 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     
     setSaving(true);
     try {
-      const isNullId = !detectedStudentId || detectedStudentId === '0000000000';
-      
-      const result = await ScanningService.saveScannedResult(
+      const isNullId = isNullStudentId(detectedStudentId);
+
+      if (!resolution && !isNullId) {
+        const existing = await findExistingResults(detectedStudentId);
+        if (existing.length > 0) {
+          setDuplicateResults(existing);
+          return;
+        }
+      }
+      if (resolution === 'discard') {
+        toast.info('Scan discarded. The existing result was kept.');
+        resetForNextScan();
+        return;
+      }
+
+      // Queue on the device first so the paper is not lost without Wi-Fi
+      const queued = await ScanQueueService.enqueue({
         examId,
-        detectedStudentId || `NULL_${Date.now()}`,
-        detectedAnswers as AnswerChoice[],
-        answerKey,
-        user.id,
+        studentId: detectedStudentId || `NULL_${Date.now()}`,
+        studentName: `${student.last_name}, ${student.first_name}`,
+        answers: detectedAnswers as AnswerChoice[],
+        examSet: examSet || undefined,
         isNullId,
-        exam.choicePoints
-      );
-      
-      if (result.success) {
+        evidence: scanEvidenceRef.current || undefined,
+        scannedBy: user.id,
+        duplicateResolution: resolution,
+        itemConfidence: answerConfidence.length > 0 ? answerConfidence : undefined,
+      });
+      if (!queued.success) {
+        toast.error(queued.error || 'Failed to save scan');
+        return;
+      }
+
+      const synced = await ScanQueueService.syncScan(queued.data.id);
+      if (synced?.status === 'conflict') {
+        toast.warning('This student already has a saved result. Review it under Waiting to Sync.');
+      } else if (synced?.status === 'synced') {
         toast.success('Scan saved successfully!');
-        setRecentScans(prev => [scanResult, ...prev.slice(0, 9)]);
-        
-        // Reset for next scan
-        setScanResult(null);
-        setDetectedAnswers([]);
-        setDetectedStudentId('');
-        setMatchedStudent(null);
-        setStudentIdError(null);
-        setMultipleAnswerQuestions([]);
-        setIdDoubleShadeColumns([]);
-        setAlignmentError(null);
-        setCapturedImage(null);
-        isAutoCapturingRef.current = false;
-        setMode('camera');
-        startCamera();
       } else {
-        toast.error(result.error || 'Failed to save scan');
+        toast.success('Scan saved on this device. It will sync when the connection returns.');
       }
+      setRecentScans(prev => [scanResult, ...prev.slice(0, 9)]);
+      resetForNextScan();
     } catch (error) {
       console.error('Error saving scan:', error);
       toast.error('Failed to save scan result');
@@ -2292,21 +1087,25 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     setRawIdDigits(newDigits);
     // Clear double-shade flag for this column
     setIdDoubleShadeColumns(prev => prev.filter(c => c !== colIndex + 1));
-    // Rebuild the detectedStudentId from the updated digits
-    const newId = newDigits.filter(d => d >= 0).map(d => String(d)).join('');
+    // Rebuild the detectedStudentId from the updated digits, in the institution's format
+    const newId = fromGridDigits(newDigits.filter(d => d >= 0).map(d => String(d)).join(''), idPolicy);
     setDetectedStudentId(newId);
     // Re-validate
-    if (!newId || /^0+$/.test(newId)) {
+    if (isNullStudentId(newId)) {
       setStudentIdError('No Student ID provided. Please enter a valid Student ID.');
       setMatchedStudent(null);
     } else if (!classData) {
       setStudentIdError('No class is linked to this exam.');
       setMatchedStudent(null);
     } else {
-      const student = classData.students.find(s => s.student_id === newId);
-      if (student) {
-        setMatchedStudent(student);
+      const entry = classData.roster?.find(s => s.student_id === newId);
+      const enrollmentIssue = entry && getEnrollmentIssue(entry, `${classData.class_name} - ${classData.section_block}`);
+      if (entry && !enrollmentIssue) {
+        setMatchedStudent(entry);
         setStudentIdError(null);
+      } else if (enrollmentIssue) {
+        setMatchedStudent(null);
+        setStudentIdError(enrollmentIssue);
       } else {
         setMatchedStudent(null);
         setStudentIdError(`Student ID "${newId}" is not registered in class "${classData.class_name} - ${classData.section_block}". Please verify the student is enrolled in this class or check if the ID was shaded correctly.`);
@@ -2314,6 +1113,21 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
     }
   };
 
+  // Manually pick the exam set when the Set bubble was missing or misread
+  const selectExamSet = (label: string) => {
+    setExamSet(label);
+    setExamSetError(null);
+
+    const { score, totalQuestions, percentage } = gradeSheet(detectedAnswers, masterAnswerKey, label, exam?.choicePoints);
+    setScanResult(prev => prev ? {
+      ...prev,
+      score,
+      totalQuestions,
+      percentage,
+      letterGrade: getLetterGrade(percentage, gradingScale)
+    } : null);
+  };
+
   // Edit detected answer
   const editAnswer = (index: number, newValue: string) => {
     const upper = newValue.toUpperCase();
@@ -2323,23 +1137,17 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
         const newAnswers = [...detectedAnswers];
         newAnswers[index] = upper;
         setDetectedAnswers(newAnswers);
+        setAnswerConfidence(prev => prev.map((value, i) => (i === index ? 1 : value)));
         
         // Recalculate score
-        let score = 0;
-        const totalQuestions = Math.min(newAnswers.length, answerKey.length);
-        for (let i = 0; i < totalQuestions; i++) {
-          if (newAnswers[i] && answerKey[i] && newAnswers[i].toUpperCase() === answerKey[i].toUpperCase()) {
-            score++;
-          }
-        }
-        const percentage = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
+        const { score, percentage } = gradeSheet(newAnswers, masterAnswerKey, examSet, exam?.choicePoints);
         
         setScanResult(prev => prev ? {
           ...prev,
           answers: newAnswers,
           score,
           percentage,
-          letterGrade: calculateLetterGrade(percentage)
+          letterGrade: getLetterGrade(percentage, gradingScale)
         } : null);
       }
     }
@@ -2409,12 +1217,23 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
             <p className="text-gray-600">{exam.title} • {exam.num_items} questions</p>
           </div>
         </div>
-        {recentScans.length > 0 && (
-          <div className="text-sm text-gray-600">
-            <CheckCircle className="w-4 h-4 inline mr-1 text-green-600" />
-            {recentScans.length} scanned this session
-          </div>
-        )}
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          {!scanQueue.online && (
+            <span className="text-orange-600">
+              <CloudOff className="w-4 h-4 inline mr-1" />
+              Offline
+            </span>
+          )}
+          {scanQueue.pendingCount + scanQueue.conflictCount > 0 && (
+            <span>{scanQueue.pendingCount + scanQueue.conflictCount} waiting to sync</span>
+          )}
+          {recentScans.length > 0 && (
+            <span>
+              <CheckCircle className="w-4 h-4 inline mr-1 text-green-600" />
+              {recentScans.length} scanned this session
+            </span>
+          )}
+        </div>
       </div>
 
       {/* Mode: Camera */}
@@ -2530,6 +1349,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                         setMatchedStudent(null);
                         setStudentIdError(null);
                         setMultipleAnswerQuestions([]);
+                        setAnswerConfidence([]);
                         setIdDoubleShadeColumns([]);
                         setCapturedImage(null);
                         setAlignmentError(null);
@@ -2583,6 +1403,34 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
             </Card>
           )}
 
+          {/* Exam Set */}
+          {examSetLabels.length > 0 && (
+            <Card className={`p-4 ${examSetError ? 'border-red-300 bg-red-50' : ''}`}>
+              <div className="flex items-start gap-3">
+                {examSetError && <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />}
+                <div className="flex-1">
+                  <h4 className={`font-semibold ${examSetError ? 'text-red-800' : 'text-gray-900'}`}>
+                    {examSetError ? 'Exam Set Not Detected' : `Exam Set ${examSet}`}
+                  </h4>
+                  {examSetError && <p className="text-sm text-red-700 mt-1">{examSetError}</p>}
+                  <div className="flex gap-2 mt-2">
+                    {examSetLabels.map(label => (
+                      <Button
+                        key={label}
+                        size="sm"
+                        variant={examSet === label ? 'default' : 'outline'}
+                        onClick={() => selectExamSet(label)}
+                        className={examSet === label ? 'bg-[#1a472a] hover:bg-[#2d6b47]' : ''}
+                      >
+                        Set {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </Card>
+          )}
+
           {/* Multiple Answers Warning */}
           {multipleAnswerQuestions.length > 0 && (
             <Card className="p-4 border-yellow-300 bg-yellow-50">
@@ -2603,6 +1451,26 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
             </Card>
           )}
 
+          {/* Low-confidence readings */}
+          {lowConfidenceQuestions.length > 0 && (
+            <Card className="p-4 border-blue-300 bg-blue-50">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <h4 className="font-semibold text-blue-800">Unclear Marks</h4>
+                  <p className="text-sm text-blue-700 mt-1">
+                    These question(s) have light marks, erasures or near-ties: <strong>
+                    {lowConfidenceQuestions.map(q => `#${q}`).join(', ')}
+                    </strong>
+                  </p>
+                  <p className="text-xs text-blue-600 mt-2">
+                    Check them against the sheet now, or save and they will wait in the review queue on the Review Papers page.
+                  </p>
+                </div>
+              </div>
+            </Card>
+          )}
+
           {/* Score Summary */}
           <Card className="p-4 sm:p-6">
             <div className="flex flex-col gap-4">
@@ -2626,17 +1494,22 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                         setDetectedStudentId(newId);
                         setIdDoubleShadeColumns([]);
                         setRawIdDigits([]);
-                        if (!newId || /^0+$/.test(newId)) {
+                        setIdFromCode(false);
+                        if (isNullStudentId(newId)) {
                           setStudentIdError('No Student ID provided. Please enter a valid Student ID.');
                           setMatchedStudent(null);
                         } else if (!classData) {
                           setStudentIdError('No class is linked to this exam. Please go to exam settings and assign a class before scanning.');
                           setMatchedStudent(null);
                         } else {
-                          const student = classData.students.find(s => s.student_id === newId);
-                          if (student) {
-                            setMatchedStudent(student);
+                          const entry = classData.roster?.find(s => s.student_id === newId);
+                          const enrollmentIssue = entry && getEnrollmentIssue(entry, `${classData.class_name} - ${classData.section_block}`);
+                          if (entry && !enrollmentIssue) {
+                            setMatchedStudent(entry);
                             setStudentIdError(null);
+                          } else if (enrollmentIssue) {
+                            setMatchedStudent(null);
+                            setStudentIdError(enrollmentIssue);
                           } else {
                             setMatchedStudent(null);
                             setStudentIdError(`Student ID "${newId}" is not registered in class "${classData.class_name} - ${classData.section_block}". Please verify the student is enrolled in this class or check if the ID was shaded correctly.`);
@@ -2655,10 +1528,13 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                         {matchedStudent.first_name} {matchedStudent.last_name}
                       </p>
                     )}
+                    {idFromCode && (
+                      <p className="text-[10px] text-gray-500 mt-0.5">Read from the sheet&apos;s QR code</p>
+                    )}
                   </div>
                 </div>
                 <div className="text-right flex-shrink-0">
-                  <div className={`inline-block px-3 py-1.5 rounded-lg text-2xl font-bold ${getGradeColor(scanResult.letterGrade)}`}>
+                  <div className={`inline-block px-3 py-1.5 rounded-lg text-2xl font-bold ${getGradeColor(scanResult.letterGrade, gradingScale)}`}>
                     {scanResult.letterGrade}
                   </div>
                   <p className="text-gray-600 text-sm mt-1">
@@ -2744,7 +1620,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                     <p className="text-sm font-medium text-gray-500 mb-2">Questions 1-{halfPoint}</p>
                     <div className="grid grid-cols-5 sm:grid-cols-10 gap-3">
                       {firstRow.map((answer, i) => {
-                        const isCorrect = answerKey[i] && answer.toUpperCase() === answerKey[i].toUpperCase();
+                        const isCorrect = isCreditedAnswer(answer, itemRules[i]);
                         const hasMultiple = multipleAnswerQuestions.includes(i + 1);
                         return (
                           <div key={i} className="text-center">
@@ -2786,7 +1662,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                       <div className="grid grid-cols-5 sm:grid-cols-10 gap-3">
                         {secondRow.map((answer, i) => {
                           const actualIndex = halfPoint + i;
-                          const isCorrect = answerKey[actualIndex] && answer.toUpperCase() === answerKey[actualIndex].toUpperCase();
+                          const isCorrect = isCreditedAnswer(answer, itemRules[actualIndex]);
                           const hasMultiple = multipleAnswerQuestions.includes(actualIndex + 1);
                           return (
                             <div key={actualIndex} className="text-center">
@@ -2857,6 +1733,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
               setMatchedStudent(null);
               setStudentIdError(null);
               setMultipleAnswerQuestions([]);
+              setAnswerConfidence([]);
               setIdDoubleShadeColumns([]);
               setRawIdDigits([]); // Clear raw ID digit display
               setAlignmentError(null);
@@ -2880,8 +1757,8 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                 }
                 saveScanResult();
               }}
-              disabled={saving || !!studentIdError || idDoubleShadeColumns.length > 0}
-              className={`${(studentIdError || idDoubleShadeColumns.length > 0) ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#1a472a] hover:bg-[#2d6b47]'}`}
+              disabled={saving || !!studentIdError || idDoubleShadeColumns.length > 0 || !!examSetError}
+              className={`${(studentIdError || idDoubleShadeColumns.length > 0 || examSetError) ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#1a472a] hover:bg-[#2d6b47]'}`}
             >
               {saving ? (
                 <>
@@ -2899,6 +1776,9 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
         </div>
       )}
 
+      {/* Offline queue */}
+      {mode === 'camera' && <ScanQueuePanel scans={scanQueue.scans} online={scanQueue.online} />}
+
       {/* Recent Scans */}
       {recentScans.length > 0 && mode === 'camera' && (
         <Card className="p-6">
@@ -2912,7 +1792,7 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
                 </div>
                 <div className="flex items-center gap-4">
                   <span className="text-gray-600">{scan.score}/{scan.totalQuestions}</span>
-                  <span className={`px-2 py-1 rounded text-sm font-bold ${getGradeColor(scan.letterGrade)}`}>
+                  <span className={`px-2 py-1 rounded text-sm font-bold ${getGradeColor(scan.letterGrade, gradingScale)}`}>
                     {scan.letterGrade}
                   </span>
                 </div>
@@ -2922,6 +1802,18 @@ export default function OMRScanner({ examId }: OMRScannerProps) {
         </Card>
       )}
 
+      <DuplicateScanDialog
+        open={duplicateResults.length > 0}
+        studentLabel={matchedStudent ? `${matchedStudent.last_name}, ${matchedStudent.first_name}` : `Student ${detectedStudentId}`}
+        existing={duplicateResults}
+        newScore={scanResult ? { score: scanResult.score, maxScore: scanResult.totalQuestions } : undefined}
+        onResolve={(resolution) => {
+          setDuplicateResults([]);
+          saveScanResult(resolution);
+        }}
+        onCancel={() => setDuplicateResults([])}
+      />
+
       {/* Hidden canvases for processing */}
       <canvas ref={canvasRef} className="hidden" />
       <canvas ref={processingCanvasRef} className="hidden" />
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Check, Eye, Loader2 } from 'lucide-react';
+import { ScanningService } from '@/services/scanningService';
+import { Exam } from '@/services/examService';
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+import { SHEET_CHOICE_LABELS } from '@/lib/sheetTemplates';
+import { useAuth } from '@/contexts/AuthContext';
+import BubbleRowCrop from './BubbleRowCrop';
+import { toast } from 'sonner';
+
+interface ReviewQueueProps {
+  papers: (ScannedResult & { studentName: string })[];
+  exam: Exam;
+  answerKey: AnswerKey | null;
+  onUpdated: (result: ScannedResult) => void;
+}
+
+const INITIAL_VISIBLE = 20;
+
+/**
+ * Review Queue
+ * Answers the scanner read with low confidence (light marks, erasures, near-ties),
+ * one bubble row at a time, for the instructor to confirm or fix.
+ */
+export default function ReviewQueue({ papers, exam, answerKey, onUpdated }: ReviewQueueProps) {
+  const { user } = useAuth();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const items = papers.flatMap(paper =>
+    (paper.reviewItems || []).map(questionIndex => ({ paper, questionIndex, key: `${paper.id}-${questionIndex}` }))
+  );
+  if (items.length === 0) return null;
+
+  const visible = showAll ? items : items.slice(0, INITIAL_VISIBLE);
+  const choices = SHEET_CHOICE_LABELS.slice(0, exam.choices_per_item);
+
+  const confirm = async (paper: ScannedResult, questionIndex: number, key: string) => {
+    if (!user?.id) return;
+    setBusyKey(key);
+    const result = await ScanningService.confirmReviewItems(paper, [questionIndex], { id: user.id, email: user.email });
+    setBusyKey(null);
+    if (result.success && result.data) {
+      onUpdated(result.data);
+    } else {
+      toast.error(result.error || 'Failed to confirm answer');
+    }
+  };
+
+  const fix = async (paper: ScannedResult, questionIndex: number, key: string, choice: string) => {
+    if (!user?.id || !answerKey) return;
+    setBusyKey(key);
+    const answers = Array.from({ length: paper.totalQuestions }, (_, i) => paper.answers[i] || '');
+    answers[questionIndex] = choice;
+    const result = await ScanningService.correctResult(
+      paper,
+      { answers },
+      'misread',
+      answerKey,
+      { id: user.id, email: user.email },
+      { note: 'Fixed from the review queue', choicePoints: exam.choicePoints, examTitle: exam.title }
+    );
+    setBusyKey(null);
+    if (result.success && result.data) {
+      toast.success(`Q${questionIndex + 1} changed to ${choice || 'blank'}`);
+      onUpdated(result.data);
+    } else {
+      toast.error(result.error || 'Failed to fix answer');
+    }
+  };
+
+  return (
+    <Card className="border border-blue-200">
+      <div className="p-4 border-b bg-blue-50/60">
+        <h2 className="font-semibold text-foreground flex items-center gap-2">
+          <Eye className="w-4 h-4 text-blue-600" />
+          Needs Review
+          <span className="text-sm font-normal text-muted-foreground">
+            {items.length} answer{items.length !== 1 ? 's' : ''} on {papers.filter(p => p.reviewItems?.length).length} paper(s)
+          </span>
+        </h2>
+        <p className="text-xs text-muted-foreground mt-1">
+          These bubbles were light, erased or nearly tied with another choice. Confirm the reading or pick the right answer.
+        </p>
+      </div>
+
+      <div className="divide-y">
+        {visible.map(({ paper, questionIndex, key }) => {
+          const read = paper.answers[questionIndex] || '';
+          const confidence = paper.itemConfidence?.[questionIndex];
+          const busy = busyKey === key;
+          return (
+            <div key={key} className="px-4 py-3 flex flex-col lg:flex-row lg:items-center gap-3">
+              <div className="lg:w-56 min-w-0">
+                <p className="font-medium truncate">{paper.studentName}</p>
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-mono">{paper.studentId}</span> · Q{questionIndex + 1}
+                  {paper.examSet && ` · Set ${paper.examSet}`}
+                </p>
+              </div>
+
+              <div className="flex-1 min-w-0">
+                {paper.evidence ? (
+                  <BubbleRowCrop evidence={paper.evidence} questionIndex={questionIndex} answer={read} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">No scan evidence saved</p>
+                )}
+              </div>
+
+              <div className="text-sm lg:w-32">
+                Read as <span className="font-bold">{read || 'blank'}</span>
+                {confidence !== undefined && (
+                  <p className="text-xs text-muted-foreground">{Math.round(confidence * 100)}% confident</p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-1">
+                <Button size="sm" variant="outline" className="gap-1" onClick={() => confirm(paper, questionIndex, key)} disabled={busy}>
+                  {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                  Confirm
+                </Button>
+                {[...choices, ''].filter(choice => choice !== read).map(choice => (
+                  <Button
+                    key={choice || 'blank'}
+                    size="sm"
+                    variant="ghost"
+                    className="px-2"
+                    onClick={() => fix(paper, questionIndex, key, choice)}
+                    disabled={busy || !answerKey}
+                    title={`Change to ${choice || 'blank'}`}
+                  >
+                    {choice || 'Blank'}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {items.length > INITIAL_VISIBLE && (
+        <div className="p-3 border-t text-center">
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(prev => !prev)}>
+            {showAll ? 'Show fewer' : `Show all ${items.length}`}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { getTemplateLayout, mapToPixel } from '@/lib/omrEngine';
+import { SHEET_CHOICE_LABELS, toTemplateLayout } from '@/lib/sheetTemplates';
+import { ScanEvidence } from '@/types/scanning';
+
+interface ScanEvidenceViewerProps {
+  evidence: ScanEvidence;
+  answers: string[];
+  answerKey: string[];
+}
+
+// Unread bubbles at least this dark are worth pointing out (erasures, stray pencil)
+const FAINT_MARK_DARKNESS = 0.3;
+
+/**
+ * Scan Evidence Viewer
+ * Shows the stored sheet image with the bubble grid the reader used drawn on top,
+ * so a teacher can see exactly which bubble was read and how dark it was.
+ */
+export default function ScanEvidenceViewer({ evidence, answers, answerKey }: ScanEvidenceViewerProps) {
+  const layout = evidence.template
+    ? toTemplateLayout(evidence.template)
+    : getTemplateLayout(evidence.numQuestions);
+  const { markers, imageWidth, imageHeight } = evidence;
+
+  const frameW = markers.topRight.x - markers.topLeft.x;
+  const frameH = markers.bottomLeft.y - markers.topLeft.y;
+  const rx = (layout.bubbleDiameterNX * frameW) / 2;
+  const ry = (layout.bubbleDiameterNY * frameH) / 2;
+
+  const bubbles = layout.answerBlocks.flatMap(block =>
+    Array.from({ length: block.endQ - block.startQ + 1 }, (_, row) => {
+      const q = block.startQ + row;
+      const darkness = evidence.bubbleDarkness[q - 1] || [];
+      return darkness.map((value, c) => {
+        const { px, py } = mapToPixel(
+          markers,
+          block.firstBubbleNX + c * block.bubbleSpacingNX,
+          block.firstBubbleNY + row * block.rowSpacingNY
+        );
+        const choice = SHEET_CHOICE_LABELS[c];
+        const isRead = answers[q - 1] === choice;
+        const isKey = answerKey[q - 1] === choice;
+
+        let stroke = 'rgba(148, 163, 184, 0.6)';
+        if (isRead) stroke = isKey ? '#16a34a' : '#dc2626';
+        else if (isKey) stroke = '#2563eb';
+
+        return { key: `${q}-${c}`, q, choice, px, py, value, stroke, emphasised: isRead || isKey };
+      });
+    })
+  ).flat();
+
+  const faintMarks = bubbles.filter(b => !b.emphasised && b.value >= FAINT_MARK_DARKNESS);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-4 text-xs">
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded-full border-2 border-green-600" />
+          <span>Read, correct</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded-full border-2 border-red-600" />
+          <span>Read, incorrect</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded-full border-2 border-blue-600" />
+          <span>Answer key</span>
+        </div>
+        <span className="text-muted-foreground">
+          Marker confidence {(evidence.markerConfidence * 100).toFixed(0)}%
+        </span>
+      </div>
+
+      <div className="relative w-full max-w-xl border rounded-md overflow-hidden bg-white">
+        {evidence.imageUrl ? (
+          <img src={evidence.imageUrl} alt="Scanned answer sheet" className="block w-full h-auto" />
+        ) : (
+          <div
+            className="w-full bg-muted flex items-center justify-center text-xs text-muted-foreground"
+            style={{ aspectRatio: `${imageWidth} / ${imageHeight}` }}
+          >
+            Sheet image was not uploaded — showing bubble readings only
+          </div>
+        )}
+        <svg
+          className="absolute inset-0 w-full h-full"
+          viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+          preserveAspectRatio="none"
+        >
+          {bubbles.map(b => (
+            <ellipse
+              key={b.key}
+              cx={b.px}
+              cy={b.py}
+              rx={rx * 1.2}
+              ry={ry * 1.2}
+              fill="none"
+              stroke={b.stroke}
+              strokeWidth={b.emphasised ? 2.5 : 1}
+            >
+              <title>{`Q${b.q} ${b.choice}: ${(b.value * 100).toFixed(0)}% dark`}</title>
+            </ellipse>
+          ))}
+        </svg>
+      </div>
+
+      {faintMarks.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Faint marks not counted:{' '}
+          {faintMarks.map(b => `Q${b.q}${b.choice} (${(b.value * 100).toFixed(0)}%)`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CloudOff, Clock, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { DuplicateResolution, QueuedScan } from '@/types/scanning';
+import { ScanQueueService } from '@/services/scanQueueService';
+
+interface ScanQueuePanelProps {
+  scans: QueuedScan[];
+  online: boolean;
+}
+
+export default function ScanQueuePanel({ scans, online }: ScanQueuePanelProps) {
+  const [retrying, setRetrying] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const unsynced = scans.filter(scan => scan.status !== 'synced');
+  if (unsynced.length === 0) return null;
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const summary = await ScanQueueService.retryNow();
+      if (summary.synced > 0) toast.success(`${summary.synced} scan${summary.synced === 1 ? '' : 's'} synced`);
+      if (summary.failed > 0) toast.error(`${summary.failed} scan${summary.failed === 1 ? '' : 's'} could not be synced yet`);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleResolve = async (scan: QueuedScan, resolution: DuplicateResolution) => {
+    setResolvingId(scan.id);
+    const result = await ScanQueueService.resolveConflict(scan.id, resolution);
+    setResolvingId(null);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to resolve conflict');
+      return;
+    }
+    toast.success(
+      resolution === 'discard' ? 'Scan discarded'
+        : resolution === 'replace' ? 'The existing result will be replaced'
+          : 'Both results will be kept as attempts'
+    );
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Waiting to Sync</h3>
+          <p className="text-sm text-gray-600">
+            {online
+              ? 'These scans are saved on this device and will be uploaded automatically.'
+              : 'You are offline. Scans are saved on this device and will sync when the connection returns.'}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRetry} disabled={retrying || !online}>
+          {retrying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          Retry now
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {unsynced.map(scan => (
+          <div key={scan.id} className="p-3 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                {scan.status === 'conflict'
+                  ? <AlertTriangle className="w-5 h-5 text-orange-500 shrink-0" />
+                  : online
+                    ? <Clock className="w-5 h-5 text-gray-500 shrink-0" />
+                    : <CloudOff className="w-5 h-5 text-gray-500 shrink-0" />}
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {scan.isNullId ? 'No Student ID' : scan.studentId}
+                    {scan.studentName && <span className="text-gray-600 font-normal"> • {scan.studentName}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Scanned {formatDistanceToNow(new Date(scan.capturedAt), { addSuffix: true })}
+                    {scan.attempts > 0 && ` • ${scan.attempts} failed attempt${scan.attempts === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+              </div>
+              <Badge variant={scan.status === 'conflict' ? 'destructive' : 'secondary'}>
+                {scan.status === 'conflict' ? 'Conflict' : 'Pending'}
+              </Badge>
+            </div>
+
+            {scan.status === 'pending' && scan.lastError && (
+              <p className="text-xs text-red-600 mt-2">{scan.lastError}</p>
+            )}
+
+            {scan.status === 'conflict' && (
+              <div className="mt-3 space-y-2">
+                <p className="text-sm text-orange-700">
+                  This student already has a result for this exam, possibly scanned on another device.
+                  Replace it, keep both as attempts, or discard this scan.
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolvingId === scan.id}
+                    onClick={() => handleResolve(scan, 'replace')}
+                  >
+                    Replace
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolvingId === scan.id}
+                    onClick={() => handleResolve(scan, 'keep-both')}
+                  >
+                    Keep both
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={resolvingId === scan.id}
+                    onClick={() => handleResolve(scan, 'discard')}
+                  >
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import {
+  SHEET_CHOICE_LABELS,
+  getIdBox,
+  getSheetMetrics,
+  getSheetsPerPage,
+  isCompactSheet,
+} from '@/lib/sheetTemplates';
+import { SheetTemplateDefinition } from '@/types/templates';
+
+interface SheetPreviewProps {
+  definition: SheetTemplateDefinition;
+  examSets?: string[];
+  className?: string;
+}
+
+/**
+ * Live preview of an answer sheet drawn straight from its definition (SVG in mm),
+ * tiled on an A4 page the way the PDF generator prints it.
+ */
+export function SheetPreview({ definition, examSets = [], className }: SheetPreviewProps) {
+  const { cols, rows } = getSheetsPerPage(definition);
+  const { width, height } = definition.page;
+
+  return (
+    <svg
+      viewBox={`0 0 ${cols * width} ${rows * height}`}
+      className={`bg-white border border-gray-400 shadow-lg ${className || ''}`}
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      {Array.from({ length: rows }).flatMap((_, row) =>
+        Array.from({ length: cols }).map((_, col) => (
+          <g key={`${row}-${col}`} transform={`translate(${col * width} ${row * height})`}>
+            <Sheet definition={definition} examSets={examSets} />
+            {cols * rows > 1 && (
+              <rect x={0} y={0} width={width} height={height} fill="none" stroke="#9ca3af" strokeWidth={0.2} />
+            )}
+          </g>
+        ))
+      )}
+    </svg>
+  );
+}
+
+function Sheet({ definition, examSets }: { definition: SheetTemplateDefinition; examSets: string[] }) {
+  const { page, markers, studentId, examSet, answers } = definition;
+  const compact = isCompactSheet(definition);
+  const metrics = getSheetMetrics(compact);
+  const idBox = getIdBox(studentId, compact);
+  const choices = SHEET_CHOICE_LABELS.slice(0, answers.choices);
+  const squareSize = compact ? 2 : 2.5;
+  const boxW = studentId.bubbleSize + 1;
+
+  const nameY = idBox.top - 2;
+  const titleY = nameY - (compact ? 4.5 : 9);
+  const contentRight = markers.right - markers.size / 2 - 2;
+
+  const bubble = (key: string, x: number, y: number, size: number) => (
+    <circle key={key} cx={x} cy={y} r={size / 2} fill="white" stroke="black" strokeWidth={0.2} />
+  );
+
+  return (
+    <g fontFamily="Helvetica, Arial, sans-serif">
+      {/* Corner markers */}
+      {[
+        [markers.left, markers.top],
+        [markers.right, markers.top],
+        [markers.left, markers.bottom],
+        [markers.right, markers.bottom],
+      ].map(([mx, my]) => (
+        <rect
+          key={`${mx}-${my}`}
+          x={mx - markers.size / 2}
+          y={my - markers.size / 2}
+          width={markers.size}
+          height={markers.size}
+        />
+      ))}
+
+      {/* Header */}
+      <text x={page.width / 2} y={titleY} fontSize={compact ? 3 : 5} fontWeight="bold" textAnchor="middle">
+        Gordon College
+      </text>
+      <text x={idBox.left + 1} y={nameY} fontSize={compact ? 2.2 : 3.2}>
+        Name:
+      </text>
+      <line
+        x1={idBox.left + (compact ? 9 : 14)}
+        y1={nameY}
+        x2={contentRight}
+        y2={nameY}
+        stroke="black"
+        strokeWidth={0.2}
+      />
+
+      {/* Student ID */}
+      <text
+        x={idBox.left + metrics.idPadding + 1}
+        y={idBox.writeInTop - 1.5}
+        fontSize={compact ? 2.2 : 2.8}
+        fontWeight="bold"
+      >
+        Student ZipGrade ID
+      </text>
+      {Array.from({ length: studentId.digits }).map((_, col) => (
+        <rect
+          key={`box-${col}`}
+          x={studentId.x + col * studentId.colSpacing - boxW / 2}
+          y={idBox.writeInTop}
+          width={boxW}
+          height={idBox.writeInHeight}
+          fill="none"
+          stroke="black"
+          strokeWidth={0.2}
+        />
+      ))}
+      {Array.from({ length: 10 }).map((_, digit) => {
+        const y = studentId.y + digit * studentId.rowSpacing;
+        return (
+          <g key={`digit-${digit}`}>
+            <text x={idBox.left + metrics.idPadding + 1} y={y + 1} fontSize={2.4} fontWeight="bold">
+              {digit}
+            </text>
+            {Array.from({ length: studentId.digits }).map((_, col) =>
+              bubble(`id-${digit}-${col}`, studentId.x + col * studentId.colSpacing, y, studentId.bubbleSize)
+            )}
+          </g>
+        );
+      })}
+      <rect
+        x={idBox.left}
+        y={idBox.top}
+        width={idBox.right - idBox.left}
+        height={idBox.bottom - idBox.top}
+        fill="none"
+        stroke="black"
+        strokeWidth={0.4}
+      />
+
+      {/* Set row */}
+      {examSets.length > 1 && (
+        <g>
+          <text x={examSet.x - metrics.setLabelWidth} y={examSet.y + 1} fontSize={2.4} fontWeight="bold">
+            Set
+          </text>
+          {examSets.map((label, i) => (
+            <g key={label}>
+              <text
+                x={examSet.x + i * examSet.spacing}
+                y={examSet.y - studentId.bubbleSize * 0.75}
+                fontSize={2.2}
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                {label}
+              </text>
+              {bubble(`set-${label}`, examSet.x + i * examSet.spacing, examSet.y, studentId.bubbleSize)}
+            </g>
+          ))}
+        </g>
+      )}
+
+      {/* Answer blocks */}
+      {answers.blocks.map(block => {
+        const headerY = block.y - metrics.headerGap;
+        return (
+          <g key={`block-${block.startQ}`} fontSize={metrics.fontSize * 0.35}>
+            <rect
+              x={block.x - metrics.numberWidth + 1.5}
+              y={headerY - squareSize / 2}
+              width={squareSize}
+              height={squareSize}
+            />
+            {choices.map((label, i) => (
+              <text
+                key={label}
+                x={block.x + i * answers.bubbleSpacing}
+                y={headerY + 1}
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                {label}
+              </text>
+            ))}
+            {Array.from({ length: block.endQ - block.startQ + 1 }).map((_, i) => {
+              const y = block.y + i * answers.rowSpacing;
+              return (
+                <g key={`q-${block.startQ + i}`}>
+                  <text x={block.x - (compact ? 3 : 4)} y={y + 1} fontWeight="bold" textAnchor="end">
+                    {block.startQ + i}
+                  </text>
+                  {choices.map((_, j) =>
+                    bubble(`q-${block.startQ + i}-${j}`, block.x + j * answers.bubbleSpacing, y, answers.bubbleSize)
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+
+      {!compact && (
+        <text x={page.width / 2} y={page.height - 5} fontSize={2.1} fontStyle="italic" textAnchor="middle">
+          Do not fold, staple, or tear this answer sheet.
+        </text>
+      )}
+    </g>
+  );
+}
@@ -12,8 +12,8 @@ import {
 import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
 import { createInstructorProfile } from '@/services/instructorService';
-
-type AppRole = 'instructor';
+import { hasPermission, toAppRole } from '@/lib/roles';
+import { AppRole, Permission } from '@/types/roles';
 
 interface AppUser {
   id: string;
@@ -24,6 +24,7 @@ interface AppUser {
   displayName?: string;
   role: AppRole;
   instructorId?: string; // New field for instructor ID
+  proctorFor?: string[]; // Instructors a proctor scans for, see src/lib/roles.ts
 }
 
 interface AppSession {
@@ -38,6 +39,8 @@ interface AuthContextType {
   session: AppSession | null;
   loading: boolean;
   userRole: AppRole | null;
+  profileLoading: boolean;
+  can: (permission: Permission) => boolean;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -55,6 +58,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<AppSession | null>(null);
   const [loading, setLoading] = useState(true); // Start as true to prevent premature access
   const [userRole, setUserRole] = useState<AppRole | null>(null);
+  const [profileLoading, setProfileLoading] = useState(true); // role not yet read from Firestore
   
   // OPTIMIZATION 2: Use ref for timeout management
   const tokenTimeoutRef = useRef<NodeJS.Timeout>();
@@ -75,7 +79,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const session = JSON.parse(savedSession);
           setUser(session.user);
           setSession(session);
-          setUserRole(session.user.role);
+          setUserRole(toAppRole(session.user.role));
           // Don't set loading to false yet - wait for Firebase verification
         }
       } catch (error) {
@@ -103,6 +107,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             console.log('✅ Using cached user data with instructorId:', cachedUser.instructorId);
             setUser(cachedUser);
             setUserRole(cachedUser.role);
+            setProfileLoading(false);
             
             const newSession = {
               access_token: 'authenticated',
@@ -210,15 +215,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                       full_name: userData.fullName || firebaseUser.displayName || '',
                     },
                     displayName: userData.fullName || firebaseUser.displayName || '',
-                    role: userData.role || 'instructor',
+                    role: toAppRole(userData.role),
                     instructorId: userData.instructorId, // Read directly from users collection
+                    proctorFor: userData.proctorFor || [],
                   };
                   
                   console.log('✅ Full user data constructed:', fullUserData);
                   console.log('🎯 InstructorId in fullUserData:', fullUserData.instructorId);
                   
                   setUser(fullUserData);
-                  setUserRole(userData.role || 'instructor');
+                  setUserRole(fullUserData.role);
                   userCache.set(firebaseUser.uid, fullUserData);
                   
                   // Update session with full user data
@@ -239,7 +245,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             };
             
             // Load immediately in background (non-blocking)
-            loadUserData();
+            loadUserData().finally(() => setProfileLoading(false));
           }
         } else {
           // User is signed out
@@ -247,6 +253,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setUser(null);
           setSession(null);
           setUserRole(null);
+          setProfileLoading(false);
           // OPTIMIZATION 11: Clear session from localStorage
           localStorage.removeItem('auth_session');
           clearTimeouts();
@@ -454,6 +461,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [firebaseUser?.uid]);
 
+  const can = useCallback((permission: Permission) => hasPermission(userRole, permission), [userRole]);
+
   return (
     <AuthContext.Provider 
       value={{ 
@@ -461,6 +470,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         session, 
         loading, 
         userRole, 
+        profileLoading,
+        can,
         signUp, 
         signIn, 
         signOut,
@@ -0,0 +1,60 @@
+/**
+ * useScanQueue Hook
+ * Live view of the device's offline scan queue for one exam. Syncs when the
+ * browser comes back online and again whenever the next retry is due.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { QueuedScan } from '@/types/scanning';
+import { getNextAttemptAt } from '@/lib/scanQueue';
+import { ScanQueueService } from '@/services/scanQueueService';
+
+export function useScanQueue(examId: string) {
+  const [scans, setScans] = useState<QueuedScan[]>([]);
+  const [online, setOnline] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const result = await ScanQueueService.getQueue(examId);
+    if (result.success && result.data) {
+      setScans(result.data);
+    }
+  }, [examId]);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = ScanQueueService.subscribe(refresh);
+
+    const handleOnline = () => {
+      setOnline(true);
+      ScanQueueService.retryNow();
+    };
+    const handleOffline = () => setOnline(false);
+    setOnline(navigator.onLine);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Scans left over from an earlier session
+    ScanQueueService.syncPending();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refresh]);
+
+  // Wake up for the next backoff attempt
+  useEffect(() => {
+    const nextAttemptAt = getNextAttemptAt(scans);
+    if (nextAttemptAt === null || !online) return;
+    const timer = setTimeout(() => ScanQueueService.syncPending(), Math.max(0, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [scans, online]);
+
+  return {
+    scans,
+    online,
+    pendingCount: scans.filter(scan => scan.status === 'pending').length,
+    conflictCount: scans.filter(scan => scan.status === 'conflict').length,
+  };
+}
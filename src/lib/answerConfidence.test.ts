@@ -0,0 +1,29 @@
+/**
+ * Answer Confidence Tests
+ * Tests: clear marks and blanks, light marks, erasures, near-ties, review items
+ */
+
+import { getAnswerConfidence, getLowConfidenceItems } from '@/lib/answerConfidence';
+
+describe('Answer Confidence', () => {
+  test('should be confident about solid marks and clean blanks', () => {
+    expect(getAnswerConfidence([40, 230, 228, 232])).toBe(1);
+    expect(getAnswerConfidence([226, 230, 228, 232])).toBe(1);
+  });
+
+  test('should doubt marks and erasures close to the thresholds', () => {
+    // Light mark just under the light-fill cut (ratio ~0.80)
+    expect(getAnswerConfidence([184, 230, 228, 230])).toBeLessThan(0.5);
+    // Erasure just above the strong-fill cut, too close to its neighbours to count
+    expect(getAnswerConfidence([160, 185, 228, 230])).toBeLessThan(0.5);
+  });
+
+  test('should give no confidence to two marks or a uniformly dark row', () => {
+    expect(getAnswerConfidence([40, 50, 228, 230])).toBe(0);
+    expect(getAnswerConfidence([10, 12, 15, 18])).toBe(0);
+  });
+
+  test('should list low-confidence questions', () => {
+    expect(getLowConfidenceItems([1, 0.2, 0.5, 0.49, 0])).toEqual([1, 3, 4]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Answer Confidence
+ * Decision thresholds for reading one question's bubbles, and how close a row came
+ * to being read differently. Ratios are bubble brightness over the row's brightest
+ * (unfilled) bubble, so 1 is blank paper and lower is darker.
+ */
+
+// A definite mark: darkest bubble below 68% of the brightest
+export const STRONG_FILL_RATIO = 0.68;
+// A light mark: darkest below 82% of the brightest and at least 12% darker than the runner-up
+export const LIGHT_FILL_RATIO = 0.82;
+export const LIGHT_FILL_GAP = 0.12;
+// Two answers: runner-up also below 76% and within 9% of the darkest
+export const MULTI_FILL_RATIO = 0.76;
+export const MULTI_FILL_GAP = 0.09;
+
+// A row this far (in ratio) from every threshold is read with full confidence
+const CONFIDENCE_BAND = 0.1;
+// Items below this confidence are queued for a person to check
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+const MIN_REFERENCE_BRIGHTNESS = 20;
+
+/**
+ * Confidence (0–1) of the reading of one question row, from each choice's raw brightness.
+ * It measures the distance to the nearest threshold that would change the outcome, so light
+ * marks, erasures and near-ties score low. Rows read as multiple answers score 0.
+ */
+export const getAnswerConfidence = (brightness: number[]): number => {
+  if (brightness.length === 0) return 1;
+  const sorted = [...brightness].sort((a, b) => a - b);
+  const ref = sorted[sorted.length - 1];
+  // A uniformly dark row (shadow, fold) says nothing reliable
+  if (ref <= MIN_REFERENCE_BRIGHTNESS) return 0;
+
+  const darkRatio = sorted[0] / ref;
+  const secondRatio = sorted.length >= 2 ? sorted[1] / ref : 255 / ref;
+  const gapRatio = (sorted.length >= 2 ? sorted[1] - sorted[0] : 255 - sorted[0]) / ref;
+
+  // Positive when the row is read as marked, negative when blank
+  const markMargin = Math.max(
+    STRONG_FILL_RATIO - darkRatio,
+    Math.min(LIGHT_FILL_RATIO - darkRatio, gapRatio - LIGHT_FILL_GAP)
+  );
+
+  let margin = Math.abs(markMargin);
+  if (markMargin > 0) {
+    const singleMargin = Math.max(secondRatio - MULTI_FILL_RATIO, gapRatio - MULTI_FILL_GAP);
+    if (singleMargin <= 0) return 0;
+    margin = Math.min(margin, singleMargin);
+  }
+
+  return Math.round(Math.min(1, margin / CONFIDENCE_BAND) * 100) / 100;
+};
+
+/**
+ * Questions (0-based) whose reading should be checked by a person
+ */
+export const getLowConfidenceItems = (confidence: number[]): number[] =>
+  confidence.flatMap((value, index) => (value < LOW_CONFIDENCE_THRESHOLD ? [index] : []));
@@ -0,0 +1,44 @@
+/**
+ * Answer Key History Tests
+ * Tests: item-level diffs between key versions (answers, rules, sets, scoring)
+ */
+
+import { diffAnswerKeys, changedQuestionNumbers } from '@/lib/answerKeyHistory';
+
+describe('Answer Key History', () => {
+  test('should list only the questions whose answer changed', () => {
+    const diff = diffAnswerKeys({ answers: ['A', 'B', 'C'] }, { answers: ['A', 'D', 'C'] });
+    expect(diff.questions).toEqual([
+      { questionNumber: 2, before: 'B', after: 'D', answerChanged: true, ruleChanged: false },
+    ]);
+    expect(diff.setsChanged).toBe(false);
+    expect(diff.scoringChanged).toBe(false);
+  });
+
+  test('should treat a default-valued rule the same as no rule', () => {
+    const before = { answers: ['A', 'B'] };
+    const after = {
+      answers: ['A', 'B'],
+      questionSettings: [{ questionNumber: 1, correctAnswer: 'A', points: 1 }],
+    };
+    expect(changedQuestionNumbers(before, after)).toEqual([]);
+  });
+
+  test('should flag rule, set and scoring changes', () => {
+    const diff = diffAnswerKeys(
+      { answers: ['A', 'B'] },
+      {
+        answers: ['A', 'B'],
+        questionSettings: [{ questionNumber: 2, correctAnswer: 'B', points: 1, dropped: true }],
+        sets: [
+          { label: 'A', questionOrder: [1, 2] },
+          { label: 'B', questionOrder: [2, 1] },
+        ],
+        scoring: { wrongPenalty: 0.25, blankPenalty: 0, allowNegativeTotal: false },
+      }
+    );
+    expect(diff.questions.map(q => [q.questionNumber, q.answerChanged, q.ruleChanged])).toEqual([[2, false, true]]);
+    expect(diff.setsChanged).toBe(true);
+    expect(diff.scoringChanged).toBe(true);
+  });
+});
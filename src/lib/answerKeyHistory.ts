@@ -0,0 +1,65 @@
+/**
+ * Answer Key History
+ * Compares two answer key versions item by item so an instructor can see exactly
+ * what changed between the key a student was graded with and the current one.
+ */
+
+import { AnswerChoice, AnswerKey, QuestionAnswer } from '@/types/scanning';
+import { DEFAULT_SCORING_POLICY } from '@/lib/scoring';
+
+type KeyContent = Pick<AnswerKey, 'answers'> & Partial<Pick<AnswerKey, 'sets' | 'questionSettings' | 'scoring'>>;
+
+export interface QuestionChange {
+  questionNumber: number;
+  before?: AnswerChoice;
+  after?: AnswerChoice;
+  answerChanged: boolean;
+  ruleChanged: boolean; // weight, accepted answers, partial credit, dropped or bonus
+}
+
+export interface AnswerKeyDiff {
+  questions: QuestionChange[];
+  setsChanged: boolean;
+  scoringChanged: boolean;
+}
+
+// A comparable summary of an item's rule; a missing setting is the default rule
+const ruleSignature = (setting?: QuestionAnswer): string =>
+  JSON.stringify({
+    points: setting?.points ?? 1,
+    acceptedAnswers: [...(setting?.acceptedAnswers || [])].sort(),
+    partialCredit: Object.entries(setting?.partialCredit || {}).sort(([a], [b]) => a.localeCompare(b)),
+    dropped: !!setting?.dropped,
+    bonus: !!setting?.bonus,
+  });
+
+const settingsByQuestion = (key: KeyContent) =>
+  new Map((key.questionSettings || []).map(setting => [setting.questionNumber, setting]));
+
+export const diffAnswerKeys = (before: KeyContent, after: KeyContent): AnswerKeyDiff => {
+  const beforeSettings = settingsByQuestion(before);
+  const afterSettings = settingsByQuestion(after);
+  const count = Math.max(before.answers.length, after.answers.length);
+
+  const questions: QuestionChange[] = [];
+  for (let q = 1; q <= count; q++) {
+    const previous = before.answers[q - 1];
+    const next = after.answers[q - 1];
+    const answerChanged = (previous || '') !== (next || '');
+    const ruleChanged = ruleSignature(beforeSettings.get(q)) !== ruleSignature(afterSettings.get(q));
+    if (answerChanged || ruleChanged) {
+      questions.push({ questionNumber: q, before: previous, after: next, answerChanged, ruleChanged });
+    }
+  }
+
+  const scoring = (key: KeyContent) => JSON.stringify({ ...DEFAULT_SCORING_POLICY, ...(key.scoring || {}) });
+
+  return {
+    questions,
+    setsChanged: JSON.stringify(before.sets || []) !== JSON.stringify(after.sets || []),
+    scoringChanged: scoring(before) !== scoring(after),
+  };
+};
+
+export const changedQuestionNumbers = (before: KeyContent, after: KeyContent): number[] =>
+  diffAnswerKeys(before, after).questions.map(change => change.questionNumber);
@@ -0,0 +1,232 @@
+/**
+ * REST API helpers
+ * Shared by the route handlers under app/api/exams: bearer-token authentication,
+ * a single JSON error shape, page-based pagination, and the DTOs that make up the
+ * public contract. DTOs are deliberately decoupled from Firestore document layouts
+ * so integrations keep working when storage fields change. Pagination bounds and
+ * body checks live in src/lib/apiValidation.ts.
+ *
+ * Error responses always look like:
+ *   { "error": { "code": "not_found", "message": "Exam not found" } }
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeServerApp, deleteApp } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
+import { Firestore, getFirestore } from 'firebase/firestore';
+import { app, setRequestDbResolver } from '@/lib/firebase';
+import { Exam, getExamById } from '@/services/examService';
+import { UserRoleService } from '@/services/userRoleService';
+import { hasPermission } from '@/lib/roles';
+import { readPageParams } from '@/lib/apiValidation';
+import { accessIncludes, canOnItem, getItemAccess, ItemAccess } from '@/lib/sharing';
+import { AppRole, Permission } from '@/types/roles';
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'internal';
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  internal: 500,
+};
+
+// The signed-in caller's Firestore for the request being handled; services reach it through getDb()
+const callerDb = new AsyncLocalStorage<Firestore>();
+setRequestDbResolver(() => callerDb.getStore());
+
+export interface ApiUser {
+  uid: string;
+  email: string;
+  role: AppRole;
+  proctorFor: string[];
+}
+
+export function apiError(code: ApiErrorCode, message: string, details?: unknown): NextResponse {
+  return NextResponse.json(
+    { error: { code, message, ...(details !== undefined && { details }) } },
+    { status: STATUS_BY_CODE[code] }
+  );
+}
+
+/**
+ * Verify the caller's Firebase ID token (`Authorization: Bearer <token>`) and run the
+ * handler as that user: services read and write through a Firestore signed in with the
+ * token, so the security rules apply to the caller. Answers 401 without a valid token.
+ */
+export async function withApiUser(
+  request: NextRequest,
+  handler: (user: ApiUser) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return apiError('unauthorized', 'Missing bearer token');
+  }
+
+  // A server app signs in as the token's user, which also validates the token.
+  // It stays alive until the handler is done with its Firestore.
+  const serverApp = initializeServerApp(app, { authIdToken: match[1] });
+  try {
+    let uid: string;
+    let email: string;
+    try {
+      const auth = getAuth(serverApp);
+      await auth.authStateReady();
+      if (!auth.currentUser) {
+        return apiError('unauthorized', 'Invalid or expired token');
+      }
+      uid = auth.currentUser.uid;
+      email = auth.currentUser.email || '';
+    } catch (error) {
+      console.error('[API] Token verification failed:', error);
+      return apiError('unauthorized', 'Invalid or expired token');
+    }
+
+    return await callerDb.run(getFirestore(serverApp), async () => {
+      // The caller's role decides what they may do with exams shared with them
+      const account = await UserRoleService.getUser(uid, email);
+      if (!account.success || !account.data) {
+        return apiError('internal', 'Failed to load the caller\'s account');
+      }
+      return handler({ uid, email, role: account.data.role, proctorFor: account.data.proctorFor || [] });
+    });
+  } finally {
+    await deleteApp(serverApp).catch(() => undefined);
+  }
+}
+
+// The caller's access to an exam as firestore.rules grants it: on top of the app's
+// sharing, canScanExam lets admins scan papers for any exam
+const getApiExamAccess = (exam: Exam, user: ApiUser): ItemAccess | null => {
+  const access = getItemAccess(exam, { id: user.uid, role: user.role, proctorFor: user.proctorFor });
+  return user.role === 'admin' && !accessIncludes(access, 'scanner') ? 'scanner' : access;
+};
+
+/**
+ * Load an exam the caller may act on, or the 404/403 response to send back.
+ * With a permission, both the caller's role and their access to the exam (owner,
+ * share or proctor assignment) must allow it; without one any access will do.
+ */
+export async function loadExam(examId: string, user: ApiUser, permission?: Permission): Promise<Exam | NextResponse> {
+  const exam = await getExamById(examId);
+  if (!exam) {
+    return apiError('not_found', 'Exam not found');
+  }
+  const access = getApiExamAccess(exam, user);
+  if (!access) {
+    return apiError('forbidden', 'You do not have access to this exam');
+  }
+  if (permission && !(hasPermission(user.role, permission) && canOnItem(access, permission))) {
+    return apiError('forbidden', 'You are not allowed to do this on this exam');
+  }
+  return exam;
+}
+
+/**
+ * Read `page` (1-based) and `pageSize` from the query string
+ */
+export function parsePagination(request: NextRequest): { page: number; pageSize: number } | NextResponse {
+  const paging = readPageParams(request.nextUrl.searchParams);
+  return typeof paging === 'string' ? apiError('bad_request', paging) : paging;
+}
+
+/** Parse a JSON object request body, or the 400 response to send back */
+export async function readJsonBody<T>(request: NextRequest): Promise<T | NextResponse> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError('bad_request', 'Request body must be valid JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return apiError('bad_request', 'Request body must be a JSON object');
+  }
+  return body as T;
+}
+
+// ---- Public contract ----
+
+export interface ExamDto {
+  id: string;
+  title: string;
+  subject: string;
+  numItems: number;
+  choicesPerItem: number;
+  className?: string;
+  examType?: 'board' | 'diagnostic';
+  createdAt: string;
+  updatedAt?: string;
+  archived: boolean;
+}
+
+export interface AnswerKeyDto {
+  id: string;
+  examId: string;
+  version: number;
+  locked: boolean;
+  answers: string[];
+  sets: { label: string; questionOrder: number[] }[];
+  rules: NonNullable<AnswerKey['questionSettings']>;
+  scoring?: AnswerKey['scoring'];
+  updatedAt: string;
+}
+
+export interface ResultDto {
+  id: string;
+  examId: string;
+  studentId: string | null; // null when the sheet's ID could not be read
+  examSet?: string;
+  answers: string[];
+  score: number;
+  maxScore: number;
+  keyVersion?: number;
+  scannedAt: string;
+}
+
+export const toExamDto = (exam: Exam): ExamDto => ({
+  id: exam.id,
+  title: exam.title,
+  subject: exam.subject,
+  numItems: exam.num_items,
+  choicesPerItem: exam.choices_per_item,
+  ...(exam.className && { className: exam.className }),
+  ...(exam.examType && { examType: exam.examType }),
+  createdAt: exam.created_at,
+  ...(exam.updatedAt && { updatedAt: exam.updatedAt }),
+  archived: !!exam.isArchived,
+});
+
+export const toAnswerKeyDto = (key: AnswerKey): AnswerKeyDto => ({
+  id: key.id,
+  examId: key.examId,
+  version: key.version || 1,
+  locked: !!key.locked,
+  answers: key.answers,
+  sets: key.sets || [],
+  rules: key.questionSettings || [],
+  ...(key.scoring && { scoring: key.scoring }),
+  updatedAt: key.updatedAt,
+});
+
+export const toResultDto = (result: ScannedResult): ResultDto => ({
+  id: result.id,
+  examId: result.examId,
+  studentId: result.isNullId ? null : result.studentId,
+  ...(result.examSet && { examSet: result.examSet }),
+  answers: result.answers || [],
+  score: result.score,
+  maxScore: result.maxScore ?? result.totalQuestions,
+  ...(result.keyVersion !== undefined && { keyVersion: result.keyVersion }),
+  scannedAt: result.scannedAt,
+});
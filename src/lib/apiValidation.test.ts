@@ -0,0 +1,207 @@
+/**
+ * API Validation Tests
+ * Tests: pagination bounds and page slicing, rejecting malformed exam,
+ * answer key and result bodies
+ */
+
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginate,
+  readPageParams,
+  validateAnswerKeyBody,
+  validateExamBody,
+  validateResultBody,
+} from '@/lib/apiValidation';
+
+const exam = { num_items: 4, choices_per_item: 4 };
+const params = (query: string) => new URLSearchParams(query);
+
+describe('API Validation', () => {
+  describe('pagination', () => {
+    test('should default to the first page of the default size', () => {
+      expect(readPageParams(params(''))).toEqual({ page: 1, pageSize: DEFAULT_PAGE_SIZE });
+    });
+
+    test('should accept page sizes from 1 up to the maximum', () => {
+      expect(readPageParams(params('page=3&pageSize=1'))).toEqual({ page: 3, pageSize: 1 });
+      expect(readPageParams(params(`pageSize=${MAX_PAGE_SIZE}`))).toEqual({ page: 1, pageSize: MAX_PAGE_SIZE });
+    });
+
+    test('should reject pages that are not positive integers', () => {
+      ['page=0', 'page=-1', 'page=1.5', 'page=abc'].forEach(query => {
+        expect(readPageParams(params(query))).toBe('`page` must be a positive integer');
+      });
+    });
+
+    test('should reject page sizes outside 1 to the maximum', () => {
+      ['pageSize=0', `pageSize=${MAX_PAGE_SIZE + 1}`, 'pageSize=2.5', 'pageSize=all'].forEach(query => {
+        expect(typeof readPageParams(params(query))).toBe('string');
+      });
+    });
+
+    test('should slice the requested page and say whether more follow', () => {
+      const items = [1, 2, 3, 4, 5];
+
+      expect(paginate(items, 1, 2)).toEqual({
+        data: [1, 2],
+        pagination: { page: 1, pageSize: 2, total: 5, hasMore: true },
+      });
+      expect(paginate(items, 3, 2).data).toEqual([5]);
+      expect(paginate(items, 3, 2).pagination.hasMore).toBe(false);
+      expect(paginate(items, 4, 2)).toEqual({
+        data: [],
+        pagination: { page: 4, pageSize: 2, total: 5, hasMore: false },
+      });
+    });
+  });
+
+  describe('exam bodies', () => {
+    test('should accept a minimal exam', () => {
+      expect(validateExamBody({ title: 'Midterm', numItems: 50 })).toEqual([]);
+    });
+
+    test('should reject a missing title and out-of-range item counts', () => {
+      expect(validateExamBody({ title: '  ', numItems: 0 })).toEqual([
+        '`title` is required',
+        '`numItems` must be an integer between 1 and 200',
+      ]);
+      expect(validateExamBody({ title: 'Midterm', numItems: 201 })).toHaveLength(1);
+      expect(validateExamBody({ title: 'Midterm', numItems: '50' as unknown as number })).toHaveLength(1);
+    });
+
+    test('should reject a title that is not a string', () => {
+      expect(validateExamBody({ title: 42 as unknown as string, numItems: 10 })).toEqual(['`title` is required']);
+    });
+
+    test('should reject bad choice counts and exam types', () => {
+      expect(
+        validateExamBody({
+          title: 'Midterm',
+          numItems: 10,
+          choicesPerItem: 6,
+          examType: 'quiz' as 'board',
+        })
+      ).toEqual([
+        '`choicesPerItem` must be an integer between 2 and 5',
+        '`examType` must be "board" or "diagnostic"',
+      ]);
+    });
+  });
+
+  describe('answer key bodies', () => {
+    test('should upper-case valid answers', () => {
+      expect(validateAnswerKeyBody({ answers: ['a', 'b', 'c', 'd'] }, exam)).toEqual({
+        answers: ['A', 'B', 'C', 'D'],
+        errors: [],
+      });
+    });
+
+    test('should reject the wrong number of answers and choices beyond the exam', () => {
+      expect(validateAnswerKeyBody({ answers: ['A'] }, exam).errors).toEqual(['`answers` must contain 4 items']);
+      expect(validateAnswerKeyBody({}, exam).errors).toEqual(['`answers` must contain 4 items']);
+      expect(validateAnswerKeyBody({ answers: ['A', 'B', 'C', 'E'] }, exam).errors).toEqual([
+        'Question 4: Invalid answer "E". Valid choices are: A, B, C, D',
+      ]);
+    });
+
+    test('should reject mislabelled sets and bad question orders', () => {
+      const { errors } = validateAnswerKeyBody(
+        {
+          answers: ['A', 'B', 'C', 'D'],
+          sets: [
+            { label: 'A', questionOrder: [1, 2, 3, 4] },
+            { label: 'C', questionOrder: [1, 1, 2, 3] },
+          ],
+        },
+        exam
+      );
+
+      expect(errors[0]).toBe('Set 2 must be labelled "B"');
+      expect(errors.slice(1).every(msg => msg.startsWith('Set C: '))).toBe(true);
+      expect(errors.length).toBeGreaterThan(1);
+    });
+
+    test('should reject sets, rules and scoring of the wrong shape', () => {
+      const { errors } = validateAnswerKeyBody(
+        {
+          answers: ['A', 'B', 'C', 'D'],
+          sets: 'A' as never,
+          rules: {} as never,
+          scoring: { wrongPenalty: -1, blankPenalty: 0, allowNegativeTotal: false },
+        },
+        exam
+      );
+
+      expect(errors).toEqual([
+        '`sets` must be an array of at most 5 sets',
+        '`rules` must be an array',
+        '`scoring.wrongPenalty` and `scoring.blankPenalty` must be zero or more',
+      ]);
+    });
+
+    test('should reject rules for questions the exam does not have', () => {
+      const { errors } = validateAnswerKeyBody(
+        { answers: ['A', 'B', 'C', 'D'], rules: [{ questionNumber: 5, correctAnswer: 'A', points: 2 }] },
+        exam
+      );
+
+      expect(errors).toEqual(['Rule for question "5" is out of range']);
+    });
+
+    test('should report null sets, rules and scoring instead of throwing', () => {
+      const { errors } = validateAnswerKeyBody(
+        { answers: ['A', 'B', 'C', 'D'], sets: [null], rules: [null], scoring: null } as never,
+        exam
+      );
+
+      expect(errors).toContain('Set 1 must be labelled "A"');
+      expect(errors).toContain('Rule for question "undefined" is out of range');
+      expect(errors).toContain('`scoring.wrongPenalty` and `scoring.blankPenalty` must be zero or more');
+    });
+  });
+
+  describe('result bodies', () => {
+    const singleSetKey = { sets: [] };
+    const twoSetKey = {
+      sets: [
+        { label: 'A', questionOrder: [1, 2, 3, 4] },
+        { label: 'B', questionOrder: [4, 3, 2, 1] },
+      ],
+    };
+
+    test('should upper-case answers and keep blanks', () => {
+      const body = { studentId: '2026-0001', answers: ['a', '', 'c', null] };
+
+      expect(validateResultBody(body, exam, singleSetKey)).toEqual({ answers: ['A', '', 'C', ''], errors: [] });
+    });
+
+    test('should accept a null Student ID for unreadable sheets', () => {
+      const body = { studentId: null, answers: ['A', 'B', 'C', 'D'] };
+
+      expect(validateResultBody(body, exam, singleSetKey).errors).toEqual([]);
+    });
+
+    test('should reject missing answers, a non-string ID and an unknown duplicate resolution', () => {
+      const { errors } = validateResultBody(
+        { studentId: 2026 as unknown as string, onDuplicate: 'merge' as 'replace' },
+        exam,
+        singleSetKey
+      );
+
+      expect(errors).toEqual([
+        '`answers` must contain 4 items',
+        '`studentId` must be a string or null',
+        '`onDuplicate` must be one of replace, keep-both, discard',
+      ]);
+    });
+
+    test('should require a known set on exams with several sets', () => {
+      const answers = ['A', 'B', 'C', 'D'];
+
+      expect(validateResultBody({ answers }, exam, twoSetKey).errors).toEqual(['`examSet` must be one of A, B']);
+      expect(validateResultBody({ answers, examSet: 'C' }, exam, twoSetKey).errors).toHaveLength(1);
+      expect(validateResultBody({ answers, examSet: 'B' }, exam, twoSetKey).errors).toEqual([]);
+    });
+  });
+});
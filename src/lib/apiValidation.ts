@@ -0,0 +1,181 @@
+/**
+ * REST API validation
+ * The checks behind the 400 responses of the route handlers under app/api/exams:
+ * pagination parameters and request bodies. Each body check returns every problem
+ * it finds, sent back as the error's `details`.
+ */
+
+import { getExamSet, hasExamSets, EXAM_SET_LABELS, MAX_EXAM_SETS, validateQuestionOrder } from '@/lib/examSets';
+import { AnswerKey, DuplicateResolution, ExamSet, QuestionAnswer, ScoringPolicy } from '@/types/scanning';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+export const MAX_EXAM_ITEMS = 200;
+
+export const DUPLICATE_RESOLUTIONS: DuplicateResolution[] = ['replace', 'keep-both', 'discard'];
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface CreateExamBody {
+  title?: string;
+  subject?: string;
+  numItems?: number;
+  choicesPerItem?: number;
+  date?: string;
+  className?: string;
+  examType?: 'board' | 'diagnostic';
+}
+
+export interface PutAnswerKeyBody {
+  answers?: string[];
+  rules?: QuestionAnswer[];
+  sets?: ExamSet[];
+  scoring?: ScoringPolicy;
+}
+
+export interface PostResultBody {
+  studentId?: string | null;
+  answers?: string[];
+  examSet?: string;
+  onDuplicate?: DuplicateResolution;
+}
+
+// The exam fields a body is checked against
+interface ExamShape {
+  num_items: number;
+  choices_per_item: number;
+}
+
+/**
+ * `page` (1-based) and `pageSize` from a query string, or why they are invalid
+ */
+export const readPageParams = (params: URLSearchParams): { page: number; pageSize: number } | string => {
+  const page = Number(params.get('page') || 1);
+  const pageSize = Number(params.get('pageSize') || DEFAULT_PAGE_SIZE);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return '`page` must be a positive integer';
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return `\`pageSize\` must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  return { page, pageSize };
+};
+
+export function paginate<T>(items: T[], page: number, pageSize: number): { data: T[]; pagination: Pagination } {
+  const start = (page - 1) * pageSize;
+  return {
+    data: items.slice(start, start + pageSize),
+    pagination: {
+      page,
+      pageSize,
+      total: items.length,
+      hasMore: start + pageSize < items.length,
+    },
+  };
+}
+
+/** Problems with a POST /api/exams body */
+export const validateExamBody = (body: CreateExamBody): string[] => {
+  const errors: string[] = [];
+  if (typeof body.title !== 'string' || !body.title.trim()) errors.push('`title` is required');
+  if (!Number.isInteger(body.numItems) || body.numItems < 1 || body.numItems > MAX_EXAM_ITEMS) {
+    errors.push(`\`numItems\` must be an integer between 1 and ${MAX_EXAM_ITEMS}`);
+  }
+  if (
+    body.choicesPerItem !== undefined &&
+    (!Number.isInteger(body.choicesPerItem) || body.choicesPerItem < 2 || body.choicesPerItem > 5)
+  ) {
+    errors.push('`choicesPerItem` must be an integer between 2 and 5');
+  }
+  if (body.examType !== undefined && body.examType !== 'board' && body.examType !== 'diagnostic') {
+    errors.push('`examType` must be "board" or "diagnostic"');
+  }
+  return errors;
+};
+
+/**
+ * The upper-cased answers of a PUT /api/exams/:id/answer-key body and its problems
+ */
+export const validateAnswerKeyBody = (
+  body: PutAnswerKeyBody,
+  exam: ExamShape
+): { answers: string[]; errors: string[] } => {
+  const errors: string[] = [];
+  const answers = Array.isArray(body.answers) ? body.answers.map(a => String(a).toUpperCase()) : [];
+  const validChoices = EXAM_SET_LABELS.slice(0, exam.choices_per_item);
+
+  if (answers.length !== exam.num_items) {
+    errors.push(`\`answers\` must contain ${exam.num_items} items`);
+  } else {
+    answers.forEach((answer, index) => {
+      if (!validChoices.includes(answer)) {
+        errors.push(`Question ${index + 1}: Invalid answer "${answer}". Valid choices are: ${validChoices.join(', ')}`);
+      }
+    });
+  }
+
+  if (body.sets !== undefined) {
+    if (!Array.isArray(body.sets) || body.sets.length > MAX_EXAM_SETS) {
+      errors.push(`\`sets\` must be an array of at most ${MAX_EXAM_SETS} sets`);
+    } else {
+      body.sets.forEach((set, i) => {
+        if (set?.label !== EXAM_SET_LABELS[i]) {
+          errors.push(`Set ${i + 1} must be labelled "${EXAM_SET_LABELS[i]}"`);
+        }
+        validateQuestionOrder(set?.questionOrder || [], exam.num_items)
+          .forEach(msg => errors.push(`Set ${set?.label}: ${msg}`));
+      });
+    }
+  }
+
+  if (body.rules !== undefined && !Array.isArray(body.rules)) {
+    errors.push('`rules` must be an array');
+  }
+  (Array.isArray(body.rules) ? body.rules : []).forEach(rule => {
+    if (!Number.isInteger(rule?.questionNumber) || rule.questionNumber < 1 || rule.questionNumber > exam.num_items) {
+      errors.push(`Rule for question "${rule?.questionNumber}" is out of range`);
+    }
+  });
+
+  if (body.scoring !== undefined) {
+    const { wrongPenalty, blankPenalty } = body.scoring || ({} as ScoringPolicy);
+    if (!(wrongPenalty >= 0) || !(blankPenalty >= 0)) {
+      errors.push('`scoring.wrongPenalty` and `scoring.blankPenalty` must be zero or more');
+    }
+  }
+
+  return { answers, errors };
+};
+
+/**
+ * The upper-cased answers of a POST /api/exams/:id/results body and its problems
+ */
+export const validateResultBody = (
+  body: PostResultBody,
+  exam: Pick<ExamShape, 'num_items'>,
+  answerKey: Pick<AnswerKey, 'sets'>
+): { answers: string[]; errors: string[] } => {
+  const errors: string[] = [];
+  const answers = Array.isArray(body.answers) ? body.answers.map(a => String(a || '').toUpperCase()) : [];
+  if (answers.length !== exam.num_items) {
+    errors.push(`\`answers\` must contain ${exam.num_items} items`);
+  }
+  if (body.studentId !== null && body.studentId !== undefined && typeof body.studentId !== 'string') {
+    errors.push('`studentId` must be a string or null');
+  }
+  if (body.onDuplicate !== undefined && !DUPLICATE_RESOLUTIONS.includes(body.onDuplicate)) {
+    errors.push(`\`onDuplicate\` must be one of ${DUPLICATE_RESOLUTIONS.join(', ')}`);
+  }
+  if (hasExamSets(answerKey)) {
+    if (!body.examSet || !getExamSet(answerKey, body.examSet)) {
+      errors.push(`\`examSet\` must be one of ${(answerKey.sets || []).map(s => s.label).join(', ')}`);
+    }
+  }
+  return { answers, errors };
+};
@@ -0,0 +1,132 @@
+/**
+ * Dashboard Report Tests
+ * Tests: result percentages, exams per month, class averages, score histogram,
+ * score trend, summary pass rate and the shared grading scale
+ */
+
+import {
+  buildDashboardReport,
+  countExamsPerMonth,
+  DashboardExam,
+  DashboardExamScores,
+  getClassAverages,
+  getResultPercentages,
+  getScoreHistogram,
+  getScoreTrend,
+} from '@/lib/dashboardReport';
+import { COLLEGE_SCALE, DEFAULT_GRADING_SCALE } from '@/lib/gradingScales';
+import { ScannedResult } from '@/types/scanning';
+
+const makeExam = (id: string, created_at: string, overrides: Partial<DashboardExam> = {}): DashboardExam => ({
+  id,
+  title: `Exam ${id}`,
+  created_at,
+  ...overrides,
+});
+
+const makeResult = (overrides: Partial<ScannedResult>): ScannedResult => ({
+  id: 'r1',
+  examId: 'e1',
+  studentId: '2026-0001',
+  answers: [],
+  score: 8,
+  maxScore: 10,
+  totalQuestions: 10,
+  scannedAt: '2026-03-01T08:00:00.000Z',
+  scannedBy: 'teacher',
+  ...overrides,
+});
+
+describe('Dashboard Report', () => {
+  test('should turn counted results into whole percentages and leave out unreadable IDs', () => {
+    const percentages = getResultPercentages([
+      makeResult({ id: 'first', score: 5, scannedAt: '2026-03-01T08:00:00.000Z' }),
+      makeResult({ id: 'rescan', score: 9, scannedAt: '2026-03-02T08:00:00.000Z' }),
+      makeResult({ id: 'older', studentId: '2026-0002', score: 2, maxScore: undefined, totalQuestions: 3 }),
+      makeResult({ id: 'empty', studentId: '2026-0003', score: 0, maxScore: 0 }),
+      makeResult({ id: 'null', studentId: 'NULL_1', isNullId: true }),
+    ]);
+
+    expect(percentages).toEqual([90, 67, 0]);
+  });
+
+  test('should count exams per month, oldest first, skipping exams without a date', () => {
+    const exams = [
+      makeExam('e1', '2026-03-15T00:00:00.000Z'),
+      makeExam('e2', '2026-01-02T00:00:00.000Z'),
+      makeExam('e3', '2026-03-01T00:00:00.000Z'),
+      makeExam('e4', ''),
+    ];
+
+    expect(countExamsPerMonth(exams)).toEqual([
+      { month: '2026-01', exams: 1 },
+      { month: '2026-03', exams: 2 },
+    ]);
+  });
+
+  test('should average classes over all their results and group exams without a class', () => {
+    const grade7 = { classId: 'c1', className: 'Grade 7' };
+    const scores: DashboardExamScores[] = [
+      { exam: makeExam('e1', '2026-01-01', grade7), percentages: [80, 90], scale: DEFAULT_GRADING_SCALE },
+      { exam: makeExam('e2', '2026-02-01', grade7), percentages: [70], scale: DEFAULT_GRADING_SCALE },
+      { exam: makeExam('e3', '2026-02-01'), percentages: [55], scale: DEFAULT_GRADING_SCALE },
+      {
+        exam: makeExam('e4', '2026-02-01', { classId: 'c2', className: 'Algebra' }),
+        percentages: [],
+        scale: DEFAULT_GRADING_SCALE,
+      },
+    ];
+
+    expect(getClassAverages(scores)).toEqual([
+      { class_id: 'c1', class_name: 'Grade 7', average_score: 80, results: 3 },
+      { class_id: 'unassigned', class_name: 'Unassigned', average_score: 55, results: 1 },
+    ]);
+  });
+
+  test('should put scores in 10-point buckets with 100% in the last one', () => {
+    const histogram = getScoreHistogram([0, 9, 10, 59, 90, 99, 100, 105, -5]);
+
+    expect(histogram).toHaveLength(10);
+    expect(histogram[0]).toEqual({ range: '0-9', count: 3 });
+    expect(histogram[1]).toEqual({ range: '10-19', count: 1 });
+    expect(histogram[5]).toEqual({ range: '50-59', count: 1 });
+    expect(histogram[9]).toEqual({ range: '90-100', count: 4 });
+  });
+
+  test('should trend exams with results by date, each on its own scale', () => {
+    const trend = getScoreTrend([
+      { exam: makeExam('late', '2026-03-01'), percentages: [70, 80], scale: COLLEGE_SCALE },
+      { exam: makeExam('early', '2026-01-01'), percentages: [60, 90], scale: DEFAULT_GRADING_SCALE },
+      { exam: makeExam('none', '2026-02-01'), percentages: [], scale: DEFAULT_GRADING_SCALE },
+    ]);
+
+    expect(trend.map(point => point.exam_id)).toEqual(['early', 'late']);
+    expect(trend[0]).toMatchObject({ average_score: 75, pass_rate: 100, results: 2 });
+    expect(trend[1]).toMatchObject({ average_score: 75, pass_rate: 50, results: 2 });
+  });
+
+  test('should summarise pass rates on each exam\'s scale and show bands only for a shared scale', () => {
+    const mixed = buildDashboardReport([
+      { exam: makeExam('e1', '2026-01-01'), percentages: [60, 40], scale: DEFAULT_GRADING_SCALE },
+      { exam: makeExam('e2', '2026-02-01'), percentages: [70, 80], scale: COLLEGE_SCALE },
+    ]);
+
+    expect(mixed.summary).toEqual({ total_exams: 2, total_results: 4, average_score: 63, pass_rate: 50 });
+    expect(mixed.grade_scale).toBe(DEFAULT_GRADING_SCALE.name);
+
+    const shared = buildDashboardReport([
+      { exam: makeExam('e1', '2026-01-01'), percentages: [80], scale: COLLEGE_SCALE },
+    ]);
+    expect(shared.grade_scale).toBe(COLLEGE_SCALE.name);
+    expect(shared.grade_distribution.reduce((sum, band) => sum + band.count, 0)).toBe(1);
+  });
+
+  test('should report zeros when there are no exams', () => {
+    const report = buildDashboardReport([]);
+
+    expect(report.summary).toEqual({ total_exams: 0, total_results: 0, average_score: 0, pass_rate: 0 });
+    expect(report.class_averages).toEqual([]);
+    expect(report.score_trend).toEqual([]);
+    expect(report.grade_scale).toBe(DEFAULT_GRADING_SCALE.name);
+  });
+});
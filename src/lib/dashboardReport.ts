@@ -0,0 +1,156 @@
+/**
+ * Dashboard Report
+ * Analytics across an instructor's exams, built from saved scan results: exams per
+ * month, class averages, a score histogram and the score trend across exams.
+ * ReportingService loads the exams, results and scales; everything here is pure.
+ */
+
+import { getCountedResults } from '@/lib/duplicateResults';
+import { DEFAULT_GRADING_SCALE, getGradeDistribution, getPassRate, isPassing } from '@/lib/gradingScales';
+import { GradeBandCount, GradingScale } from '@/types/gradebook';
+import { ScannedResult } from '@/types/scanning';
+
+export interface DashboardReport {
+  summary: {
+    total_exams: number;
+    total_results: number;
+    average_score: number;
+    pass_rate: number; // Percentage of results that passed, each on its exam's grading scale
+  };
+  exams_per_month: Array<{ month: string; exams: number }>;
+  class_averages: Array<{ class_id: string; class_name: string; average_score: number; results: number }>;
+  grade_scale: string; // the scale shared by every exam shown, or the default when they differ
+  grade_distribution: GradeBandCount[];
+  score_histogram: Array<{ range: string; count: number }>;
+  score_trend: Array<{
+    exam_id: string;
+    exam_title: string;
+    date: string;
+    average_score: number;
+    pass_rate: number;
+    results: number;
+  }>;
+}
+
+// The exam fields the report uses
+export interface DashboardExam {
+  id: string;
+  title: string;
+  created_at: string;
+  classId?: string;
+  className?: string;
+}
+
+export interface DashboardExamScores {
+  exam: DashboardExam;
+  percentages: number[]; // one per counted student result
+  scale: GradingScale;
+}
+
+const HISTOGRAM_BUCKETS = 10;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+
+/**
+ * Whole percentages of an exam's counted results; sheets without a readable ID are left out
+ */
+export const getResultPercentages = (results: ScannedResult[]): number[] =>
+  getCountedResults(results)
+    .filter(result => !result.isNullId)
+    .map(result => {
+      const maxScore = result.maxScore ?? result.totalQuestions;
+      return maxScore > 0 ? Math.round((result.score / maxScore) * 100) : 0;
+    });
+
+/** Exams created in each month (YYYY-MM), oldest month first */
+export const countExamsPerMonth = (exams: DashboardExam[]): DashboardReport['exams_per_month'] => {
+  const monthCounts = new Map<string, number>();
+  exams.forEach(exam => {
+    const month = (exam.created_at || '').slice(0, 7);
+    if (month) monthCounts.set(month, (monthCounts.get(month) || 0) + 1);
+  });
+  return Array.from(monthCounts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, count]) => ({ month, exams: count }));
+};
+
+/**
+ * Class averages over every result of the class's exams, by class name.
+ * Exams without a class are grouped as Unassigned; classes without results are left out.
+ */
+export const getClassAverages = (examScores: DashboardExamScores[]): DashboardReport['class_averages'] => {
+  const byClass = new Map<string, { name: string; percentages: number[] }>();
+  examScores.forEach(({ exam, percentages }) => {
+    const key = exam.classId || exam.className || 'unassigned';
+    const entry = byClass.get(key) || { name: exam.className || 'Unassigned', percentages: [] };
+    entry.percentages.push(...percentages);
+    byClass.set(key, entry);
+  });
+
+  return Array.from(byClass.entries())
+    .filter(([, entry]) => entry.percentages.length > 0)
+    .map(([classId, entry]) => ({
+      class_id: classId,
+      class_name: entry.name,
+      average_score: average(entry.percentages),
+      results: entry.percentages.length,
+    }))
+    .sort((a, b) => a.class_name.localeCompare(b.class_name));
+};
+
+/** 10-point buckets; 100% falls in the last one */
+export const getScoreHistogram = (percentages: number[]): DashboardReport['score_histogram'] => {
+  const last = HISTOGRAM_BUCKETS - 1;
+  const histogram = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+    range: i === last ? '90-100' : `${i * 10}-${i * 10 + 9}`,
+    count: 0,
+  }));
+  percentages.forEach(p => {
+    histogram[Math.min(last, Math.max(0, Math.floor(p / 10)))].count++;
+  });
+  return histogram;
+};
+
+/** Average and pass rate of each exam with results, oldest exam first */
+export const getScoreTrend = (examScores: DashboardExamScores[]): DashboardReport['score_trend'] =>
+  examScores
+    .filter(({ percentages }) => percentages.length > 0)
+    .map(({ exam, percentages, scale }) => ({
+      exam_id: exam.id,
+      exam_title: exam.title,
+      date: exam.created_at,
+      average_score: average(percentages),
+      pass_rate: getPassRate(percentages, scale),
+      results: percentages.length,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * The dashboard report for the given exams and their result percentages
+ */
+export const buildDashboardReport = (examScores: DashboardExamScores[]): DashboardReport => {
+  const allPercentages = examScores.flatMap(({ percentages }) => percentages);
+  const allPassed = examScores.reduce(
+    (sum, { percentages, scale }) => sum + percentages.filter(p => isPassing(p, scale)).length,
+    0
+  );
+  // Exams can be on different scales, so bands are only shown on a scale they all share
+  const scaleIds = new Set(examScores.map(({ scale }) => scale.id));
+  const sharedScale = scaleIds.size === 1 ? examScores[0].scale : DEFAULT_GRADING_SCALE;
+
+  return {
+    summary: {
+      total_exams: examScores.length,
+      total_results: allPercentages.length,
+      average_score: average(allPercentages),
+      pass_rate: allPercentages.length > 0 ? Math.round((allPassed / allPercentages.length) * 100) : 0,
+    },
+    exams_per_month: countExamsPerMonth(examScores.map(({ exam }) => exam)),
+    class_averages: getClassAverages(examScores),
+    grade_scale: sharedScale.name,
+    grade_distribution: getGradeDistribution(allPercentages, sharedScale),
+    score_histogram: getScoreHistogram(allPercentages),
+    score_trend: getScoreTrend(examScores),
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * Duplicate Results Tests
+ * Tests: counting one result per student, flagging unresolved duplicates, numbering attempts
+ */
+
+import { findDuplicateResults, getCountedResults, numberAttempts } from '@/lib/duplicateResults';
+import { ScannedResult } from '@/types/scanning';
+
+const result = (id: string, studentId: string, scannedAt: string, overrides: Partial<ScannedResult> = {}): ScannedResult => ({
+  id,
+  examId: 'exam1',
+  studentId,
+  answers: ['A'],
+  score: 1,
+  totalQuestions: 1,
+  scannedAt,
+  scannedBy: 'user1',
+  ...overrides,
+});
+
+describe('Duplicate Results', () => {
+  test('should count only the latest result per student', () => {
+    const results = [
+      result('r1', '2021001', '2026-03-02T08:00:00.000Z'),
+      result('r2', '2021002', '2026-03-02T08:05:00.000Z'),
+      result('r3', '2021001', '2026-03-02T09:00:00.000Z'),
+      result('n1', 'NULL_1', '2026-03-02T09:10:00.000Z', { isNullId: true }),
+      result('n2', 'NULL_1', '2026-03-02T09:20:00.000Z', { isNullId: true }),
+    ];
+    expect(getCountedResults(results).map(r => r.id)).toEqual(['r2', 'r3', 'n1', 'n2']);
+  });
+
+  test('should count the highest attempt even if an older copy was scanned later', () => {
+    const results = [
+      result('r1', '2021001', '2026-03-02T10:00:00.000Z', { attempt: 1 }),
+      result('r2', '2021001', '2026-03-02T09:00:00.000Z', { attempt: 2 }),
+    ];
+    expect(getCountedResults(results).map(r => r.id)).toEqual(['r2']);
+  });
+
+  test('should flag students with unresolved duplicates, newest first', () => {
+    const groups = findDuplicateResults([
+      result('r1', '2021001', '2026-03-02T08:00:00.000Z'),
+      result('r2', '2021001', '2026-03-02T09:00:00.000Z'),
+      result('r3', '2021002', '2026-03-02T08:00:00.000Z', { attempt: 1 }),
+      result('r4', '2021002', '2026-03-02T09:00:00.000Z', { attempt: 2 }),
+      result('r5', '2021003', '2026-03-02T09:00:00.000Z'),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].studentId).toBe('2021001');
+    expect(groups[0].results.map(r => r.id)).toEqual(['r2', 'r1']);
+  });
+
+  test('should number existing results from oldest before adding an attempt', () => {
+    expect(numberAttempts([
+      result('r2', '2021001', '2026-03-02T09:00:00.000Z'),
+      result('r1', '2021001', '2026-03-02T08:00:00.000Z'),
+    ])).toEqual({ nextAttempt: 3, renumbered: [{ id: 'r1', attempt: 1 }, { id: 'r2', attempt: 2 }] });
+
+    expect(numberAttempts([
+      result('r1', '2021001', '2026-03-02T08:00:00.000Z', { attempt: 1 }),
+      result('r2', '2021001', '2026-03-02T09:00:00.000Z', { attempt: 2 }),
+    ])).toEqual({ nextAttempt: 3, renumbered: [] });
+  });
+});
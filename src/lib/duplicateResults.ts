@@ -0,0 +1,69 @@
+/**
+ * Duplicate Results
+ * One student can end up with several results for an exam (the same paper scanned
+ * twice, or a rescan kept as a new attempt). Reports count one result per student:
+ * the latest attempt.
+ */
+
+import { ScannedResult } from '@/types/scanning';
+
+export interface DuplicateGroup {
+  studentId: string;
+  results: ScannedResult[]; // newest first
+}
+
+const scannedTime = (result: ScannedResult) => new Date(result.scannedAt || 0).getTime() || 0;
+
+// Newest first: a higher attempt wins, then the later scan
+const compareNewestFirst = (a: ScannedResult, b: ScannedResult) =>
+  (b.attempt || 1) - (a.attempt || 1) || scannedTime(b) - scannedTime(a);
+
+const groupByStudent = (results: ScannedResult[]): Map<string, ScannedResult[]> => {
+  const groups = new Map<string, ScannedResult[]>();
+  results.forEach(result => {
+    if (result.isNullId) return;
+    const key = `${result.examId}|${result.studentId}`;
+    groups.set(key, [...(groups.get(key) || []), result]);
+  });
+  return groups;
+};
+
+/**
+ * The result that counts for each student, in the original order.
+ * Null-ID results are kept as they are; they are not tied to a student yet.
+ */
+export const getCountedResults = <T extends ScannedResult>(results: T[]): T[] => {
+  const counted = new Set<ScannedResult>();
+  groupByStudent(results).forEach(group => counted.add([...group].sort(compareNewestFirst)[0]));
+  return results.filter(result => result.isNullId || counted.has(result));
+};
+
+/**
+ * Students with more than one result that were not deliberately kept as attempts,
+ * i.e. at least two of their results carry no attempt number
+ */
+export const findDuplicateResults = (results: ScannedResult[]): DuplicateGroup[] => {
+  const duplicates: DuplicateGroup[] = [];
+  groupByStudent(results).forEach(group => {
+    if (group.filter(result => !result.attempt).length < 2) return;
+    duplicates.push({ studentId: group[0].studentId, results: [...group].sort(compareNewestFirst) });
+  });
+  return duplicates.sort((a, b) => a.studentId.localeCompare(b.studentId));
+};
+
+/**
+ * Attempt number for a rescan kept next to `existing`, plus the numbers the existing
+ * results should carry if they were saved before attempts were tracked (oldest is 1)
+ */
+export const numberAttempts = (
+  existing: ScannedResult[]
+): { nextAttempt: number; renumbered: { id: string; attempt: number }[] } => {
+  const oldestFirst = [...existing].sort((a, b) => -compareNewestFirst(a, b));
+  let attempt = 0;
+  const renumbered: { id: string; attempt: number }[] = [];
+  oldestFirst.forEach(result => {
+    attempt = Math.max(attempt + 1, result.attempt || 0);
+    if (result.attempt !== attempt) renumbered.push({ id: result.id, attempt });
+  });
+  return { nextAttempt: attempt + 1, renumbered };
+};
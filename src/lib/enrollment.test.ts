@@ -0,0 +1,182 @@
+/**
+ * Enrollment Tests
+ * Tests: roster sync plans (enroll, reactivate, drop), joining enrollments with student records,
+ * converting embedded rosters, student ID identity conflicts, messages for students who are not active,
+ * folding a merged duplicate's enrollments into the surviving record
+ */
+
+import { Enrollment, RosterEntry } from '@/types/enrollment';
+import {
+  buildRoster,
+  findIdentityConflicts,
+  formatIdentityConflicts,
+  getEnrollmentIssue,
+  mergeEnrollments,
+  planRosterSync,
+  rosterFromEmbedded,
+} from '@/lib/enrollment';
+
+const enrollment = (student_id: string, status: Enrollment['status']): Enrollment => ({
+  student_id,
+  class_id: 'class-1',
+  status,
+  enrolled_date: '2026-01-10T00:00:00.000Z',
+});
+
+const record = (student_id: string, first_name: string, last_name: string, email?: string) => ({
+  student_id,
+  first_name,
+  last_name,
+  ...(email && { email }),
+});
+
+describe('planRosterSync', () => {
+  it('enrolls students without an enrollment', () => {
+    expect(planRosterSync([], ['2024000001', '2024000002'])).toEqual({
+      enroll: ['2024000001', '2024000002'],
+      reactivate: [],
+      drop: [],
+    });
+  });
+
+  it('reactivates dropped and inactive students on the list', () => {
+    const plan = planRosterSync(
+      [enrollment('a', 'dropped'), enrollment('b', 'inactive'), enrollment('c', 'active')],
+      ['a', 'b', 'c']
+    );
+    expect(plan).toEqual({ enroll: [], reactivate: ['a', 'b'], drop: [] });
+  });
+
+  it('drops active students missing from the list but leaves inactive ones', () => {
+    const plan = planRosterSync(
+      [enrollment('a', 'active'), enrollment('b', 'inactive'), enrollment('c', 'dropped')],
+      []
+    );
+    expect(plan).toEqual({ enroll: [], reactivate: [], drop: ['a'] });
+  });
+
+  it('ignores blank and repeated IDs', () => {
+    expect(planRosterSync([], [' ', 'a', 'a ', ''])).toEqual({ enroll: ['a'], reactivate: [], drop: [] });
+  });
+});
+
+describe('buildRoster', () => {
+  it('joins enrollments with records, sorted by last then first name', () => {
+    const records = new Map([
+      ['a', record('a', 'Zoe', 'Cruz', 'zoe@gmail.com')],
+      ['b', record('b', 'Ana', 'Bautista')],
+      ['c', record('c', 'Ben', 'Bautista')],
+    ]);
+    const roster = buildRoster(
+      [enrollment('a', 'active'), enrollment('c', 'dropped'), enrollment('b', 'active')],
+      records
+    );
+
+    expect(roster.map(entry => entry.student_id)).toEqual(['b', 'c', 'a']);
+    expect(roster[1]).toEqual({
+      student_id: 'c',
+      first_name: 'Ben',
+      last_name: 'Bautista',
+      status: 'dropped',
+      enrolled_date: '2026-01-10T00:00:00.000Z',
+    });
+    expect(roster[2].email).toBe('zoe@gmail.com');
+  });
+
+  it('lists a student whose record is missing by ID', () => {
+    const [entry] = buildRoster([enrollment('x', 'active')], new Map());
+    expect(entry).toMatchObject({ student_id: 'x', first_name: '', last_name: '', status: 'active' });
+  });
+});
+
+describe('rosterFromEmbedded', () => {
+  it('converts an embedded roster to active entries, skipping blank and repeated IDs', () => {
+    const roster = rosterFromEmbedded(
+      [
+        { student_id: ' a ', first_name: 'Ana', last_name: 'Reyes', email: 'ana@gmail.com' },
+        { student_id: 'a', first_name: 'Ana', last_name: 'Reyes' },
+        { student_id: '', first_name: 'No', last_name: 'Id' },
+        { student_id: 'b', first_name: 'Ben', last_name: 'Santos' },
+      ],
+      '2025-06-01T00:00:00.000Z'
+    );
+
+    expect(roster).toEqual([
+      {
+        student_id: 'a',
+        first_name: 'Ana',
+        last_name: 'Reyes',
+        email: 'ana@gmail.com',
+        status: 'active',
+        enrolled_date: '2025-06-01T00:00:00.000Z',
+      },
+      {
+        student_id: 'b',
+        first_name: 'Ben',
+        last_name: 'Santos',
+        status: 'active',
+        enrolled_date: '2025-06-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('returns nothing when there is no embedded roster', () => {
+    expect(rosterFromEmbedded(undefined, '')).toEqual([]);
+  });
+});
+
+describe('findIdentityConflicts', () => {
+  const records = new Map([['a', record('a', 'Ana', 'Reyes')]]);
+
+  it('accepts the same student, ignoring case and spaces', () => {
+    expect(findIdentityConflicts([record('a', ' ana', 'REYES ')], records)).toEqual([]);
+  });
+
+  it('flags an ID on record for someone else', () => {
+    const conflicts = findIdentityConflicts([record('a', 'Ben', 'Santos'), record('b', 'New', 'Student')], records);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].existing).toEqual(record('a', 'Ana', 'Reyes'));
+    expect(formatIdentityConflicts(conflicts)).toBe('a (Ana Reyes)');
+  });
+});
+
+describe('getEnrollmentIssue', () => {
+  const entry = (status: RosterEntry['status']): RosterEntry => ({
+    student_id: '2024000001',
+    first_name: 'Ana',
+    last_name: 'Reyes',
+    status,
+    enrolled_date: '2026-01-10T00:00:00.000Z',
+  });
+
+  it('has no issue for an active student', () => {
+    expect(getEnrollmentIssue(entry('active'), 'Math - A')).toBeNull();
+  });
+
+  it('explains dropped and inactive students', () => {
+    expect(getEnrollmentIssue(entry('dropped'), 'Math - A')).toContain('Ana Reyes (2024000001) has dropped class "Math - A"');
+    expect(getEnrollmentIssue(entry('inactive'), 'Math - A')).toContain('is inactive in class "Math - A"');
+  });
+});
+
+describe('mergeEnrollments', () => {
+  const inClass = (student_id: string, class_id: string, status: Enrollment['status'], enrolled_date: string) => ({
+    student_id,
+    class_id,
+    status,
+    enrolled_date,
+  });
+
+  it("moves the duplicate's classes to the survivor", () => {
+    expect(mergeEnrollments('keep', [], [inClass('dup', 'math', 'active', '2026-01-10')])).toEqual([
+      inClass('keep', 'math', 'active', '2026-01-10'),
+    ]);
+  });
+
+  it('keeps the more active status and earlier date in a shared class, and skips unchanged ones', () => {
+    const survivor = [inClass('keep', 'math', 'dropped', '2026-02-01'), inClass('keep', 'art', 'active', '2026-01-05')];
+    const duplicate = [inClass('dup', 'math', 'active', '2026-01-10'), inClass('dup', 'art', 'inactive', '2026-01-20')];
+
+    expect(mergeEnrollments('keep', survivor, duplicate)).toEqual([inClass('keep', 'math', 'active', '2026-01-10')]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Enrollment
+ * A class roster is the set of studentEnrollments documents for that class, each
+ * joined with the student's record in students/{student_id}. Nothing else holds a
+ * copy of the roster: Class.roster and Class.students, its active part
+ * (src/services/classService.ts), are derived when the class is read.
+ *
+ * Rosters saved before enrollments existed were embedded in the class document;
+ * migrateEmbeddedRosters (src/services/migrationService.ts) converts them.
+ */
+
+import { Enrollment, EnrollmentStatus, RosterEntry } from '@/types/enrollment';
+
+export const ENROLLMENT_STATUSES: EnrollmentStatus[] = ['active', 'inactive', 'dropped'];
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  dropped: 'Dropped',
+};
+
+interface StudentIdentity {
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
+}
+
+export const getEnrollmentId = (studentId: string, classId: string): string => `${studentId}_${classId}`;
+
+/**
+ * The enrollment writes that make `activeIds` the class's active roster. Students
+ * without an enrollment are enrolled, inactive or dropped ones are reactivated, and
+ * active ones missing from the list are dropped. Inactive students not in the list
+ * stay inactive, since rosters being edited only show active students.
+ */
+export const planRosterSync = (
+  enrollments: Pick<Enrollment, 'student_id' | 'status'>[],
+  activeIds: string[]
+): { enroll: string[]; reactivate: string[]; drop: string[] } => {
+  const current = new Map(enrollments.map(enrollment => [enrollment.student_id, enrollment.status]));
+  const wanted = new Set(activeIds.map(id => id.trim()).filter(Boolean));
+
+  const enroll: string[] = [];
+  const reactivate: string[] = [];
+  wanted.forEach(id => {
+    const status = current.get(id);
+    if (!status) enroll.push(id);
+    else if (status !== 'active') reactivate.push(id);
+  });
+
+  const drop = enrollments
+    .filter(enrollment => enrollment.status === 'active' && !wanted.has(enrollment.student_id))
+    .map(enrollment => enrollment.student_id);
+
+  return { enroll, reactivate, drop };
+};
+
+const STATUS_RANK: Record<EnrollmentStatus, number> = { active: 2, inactive: 1, dropped: 0 };
+
+/**
+ * The survivor's enrollments to write when a duplicate student record is merged into
+ * it: the duplicate's classes move over, and in a class both were enrolled in the more
+ * active status and the earlier enrollment date win. Unchanged enrollments are left out.
+ */
+export const mergeEnrollments = (
+  survivorId: string,
+  survivor: Enrollment[],
+  duplicate: Enrollment[]
+): Enrollment[] => {
+  const current = new Map(survivor.map(enrollment => [enrollment.class_id, enrollment]));
+  const writes: Enrollment[] = [];
+
+  duplicate.forEach(enrollment => {
+    const existing = current.get(enrollment.class_id);
+    if (!existing) {
+      writes.push({ ...enrollment, student_id: survivorId });
+      return;
+    }
+
+    const status =
+      STATUS_RANK[enrollment.status] > STATUS_RANK[existing.status] ? enrollment.status : existing.status;
+    const enrolled_date =
+      enrollment.enrolled_date < existing.enrolled_date ? enrollment.enrolled_date : existing.enrolled_date;
+    if (status !== existing.status || enrolled_date !== existing.enrolled_date) {
+      writes.push({ ...existing, status, enrolled_date });
+    }
+  });
+  return writes;
+};
+
+/**
+ * Join enrollments with student records, sorted by last then first name.
+ * A student whose record is missing is still listed, by ID.
+ */
+export const buildRoster = (
+  enrollments: Enrollment[],
+  records: Map<string, StudentIdentity>
+): RosterEntry[] =>
+  enrollments
+    .map(enrollment => {
+      const record = records.get(enrollment.student_id);
+      return {
+        student_id: enrollment.student_id,
+        first_name: record?.first_name || '',
+        last_name: record?.last_name || '',
+        ...(record?.email && { email: record.email }),
+        status: enrollment.status,
+        enrolled_date: enrollment.enrolled_date,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.last_name.localeCompare(b.last_name) ||
+        a.first_name.localeCompare(b.first_name) ||
+        a.student_id.localeCompare(b.student_id)
+    );
+
+/**
+ * An embedded roster as active roster entries, dropping blank and repeated IDs
+ */
+export const rosterFromEmbedded = (students: unknown, enrolledDate: string): RosterEntry[] => {
+  if (!Array.isArray(students)) return [];
+
+  const seen = new Set<string>();
+  const roster: RosterEntry[] = [];
+  students.forEach(student => {
+    const studentId = typeof student?.student_id === 'string' ? student.student_id.trim() : '';
+    if (!studentId || seen.has(studentId)) return;
+    seen.add(studentId);
+    roster.push({
+      student_id: studentId,
+      first_name: student.first_name || '',
+      last_name: student.last_name || '',
+      ...(student.email && { email: student.email }),
+      status: 'active',
+      enrolled_date: enrolledDate,
+    });
+  });
+  return roster;
+};
+
+/**
+ * Students whose ID already belongs to a student record under a different name.
+ * Reusing an existing record (same ID and name) enrolls that student; it is not a conflict.
+ */
+export const findIdentityConflicts = <T extends StudentIdentity>(
+  students: T[],
+  records: Map<string, StudentIdentity>
+): Array<{ student: T; existing: StudentIdentity }> => {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const conflicts: Array<{ student: T; existing: StudentIdentity }> = [];
+
+  students.forEach(student => {
+    const existing = records.get(student.student_id);
+    if (
+      existing &&
+      (normalize(existing.first_name) !== normalize(student.first_name) ||
+        normalize(existing.last_name) !== normalize(student.last_name))
+    ) {
+      conflicts.push({ student, existing });
+    }
+  });
+  return conflicts;
+};
+
+export const formatIdentityConflicts = (conflicts: Array<{ existing: StudentIdentity }>): string =>
+  conflicts
+    .map(({ existing }) => `${existing.student_id} (${existing.first_name} ${existing.last_name})`.trim())
+    .join(', ');
+
+/**
+ * Why a sheet cannot be recorded for a student on the roster who is not active,
+ * or null when they are
+ */
+export const getEnrollmentIssue = (entry: RosterEntry, className: string): string | null => {
+  const name = `${entry.first_name} ${entry.last_name}`.trim() || entry.student_id;
+  if (entry.status === 'dropped') {
+    return `${name} (${entry.student_id}) has dropped class "${className}". Re-enroll them to record this sheet.`;
+  }
+  if (entry.status === 'inactive') {
+    return `${name} (${entry.student_id}) is inactive in class "${className}". Set them active to record this sheet.`;
+  }
+  return null;
+};
@@ -0,0 +1,49 @@
+/**
+ * Exam Sets Tests
+ * Tests: per-set answer keys, mapping set results back to master order, order validation
+ */
+
+import {
+  getSetAnswerKey,
+  toMasterOrder,
+  validateQuestionOrder,
+  createShuffledOrder,
+  hasExamSets,
+} from '@/lib/examSets';
+
+const answerKey = {
+  answers: ['A', 'B', 'C', 'D'],
+  sets: [
+    { label: 'A', questionOrder: [1, 2, 3, 4] },
+    { label: 'B', questionOrder: [3, 1, 4, 2] },
+  ],
+};
+
+describe('Exam Sets', () => {
+  test('should build each set key in its printed order', () => {
+    expect(getSetAnswerKey(answerKey, 'A')).toEqual(['A', 'B', 'C', 'D']);
+    expect(getSetAnswerKey(answerKey, 'B')).toEqual(['C', 'A', 'D', 'B']);
+  });
+
+  test('should fall back to the master key for single-set exams and unknown sets', () => {
+    expect(getSetAnswerKey({ answers: ['A', 'B'] }, 'B')).toEqual(['A', 'B']);
+    expect(getSetAnswerKey(answerKey, 'E')).toEqual(['A', 'B', 'C', 'D']);
+    expect(getSetAnswerKey(answerKey, undefined)).toEqual(['A', 'B', 'C', 'D']);
+    expect(hasExamSets({ sets: [{ label: 'A', questionOrder: [1] }] })).toBe(false);
+    expect(hasExamSets(answerKey)).toBe(true);
+  });
+
+  test('should map set answers back to master question order', () => {
+    // Set B printed master Q3 first, so the first answer belongs to master Q3
+    expect(toMasterOrder(['C', 'A', '', 'B'], answerKey, 'B', '')).toEqual(['A', 'B', 'C', '']);
+    expect(toMasterOrder(['C', 'A'], answerKey, undefined, '')).toEqual(['C', 'A']);
+  });
+
+  test('should validate question orders as permutations', () => {
+    expect(validateQuestionOrder([2, 1, 3], 3)).toEqual([]);
+    expect(validateQuestionOrder([1, 1, 3], 3)).toHaveLength(1);
+    expect(validateQuestionOrder([1, 2], 3)).toHaveLength(1);
+    expect(validateQuestionOrder([1, 2, 7], 3)).toHaveLength(1);
+    expect(validateQuestionOrder(createShuffledOrder(50), 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Exam Sets
+ * Helpers for exams printed in several shuffled sets (Set A, B, C …).
+ * The answer key's `answers` array is the master key in master question order;
+ * each set only records the order its items were printed in, so editing the
+ * master key keeps every set's key in step.
+ */
+
+import { AnswerChoice, AnswerKey, ExamSet } from '@/types/scanning';
+
+// One bubble per label is printed on the sheet's Set row
+export const EXAM_SET_LABELS = ['A', 'B', 'C', 'D', 'E'];
+export const MAX_EXAM_SETS = EXAM_SET_LABELS.length;
+
+/** True when the key carries more than one set, i.e. sheets must have their Set bubble shaded */
+export const hasExamSets = (answerKey?: Pick<AnswerKey, 'sets'> | null): boolean =>
+  !!answerKey?.sets && answerKey.sets.length > 1;
+
+export const getExamSet = (
+  answerKey: Pick<AnswerKey, 'sets'> | null | undefined,
+  label?: string
+): ExamSet | undefined => {
+  if (!label || !answerKey?.sets) return undefined;
+  return answerKey.sets.find(set => set.label === label);
+};
+
+/** The identity order (item i is master question i) */
+export const createMasterOrder = (numQuestions: number): number[] =>
+  Array.from({ length: numQuestions }, (_, i) => i + 1);
+
+/** A random question order for a new set (Fisher–Yates) */
+export const createShuffledOrder = (numQuestions: number): number[] => {
+  const order = createMasterOrder(numQuestions);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+/**
+ * Check that a set's question order is a permutation of 1..numQuestions.
+ * Returns human-readable problems; an empty array means the order is usable.
+ */
+export const validateQuestionOrder = (order: number[], numQuestions: number): string[] => {
+  const errors: string[] = [];
+
+  if (order.length !== numQuestions) {
+    errors.push(`Expected ${numQuestions} items, but got ${order.length}`);
+  }
+
+  const seen = new Set<number>();
+  order.forEach((masterQ, i) => {
+    if (!Number.isInteger(masterQ) || masterQ < 1 || masterQ > numQuestions) {
+      errors.push(`Item ${i + 1}: "${masterQ}" is not a question between 1 and ${numQuestions}`);
+    } else if (seen.has(masterQ)) {
+      errors.push(`Item ${i + 1}: question ${masterQ} appears more than once`);
+    }
+    seen.add(masterQ);
+  });
+
+  return errors;
+};
+
+/**
+ * The key a sheet of the given set is graded against, in that set's printed order.
+ * Falls back to the master key for single-set exams or an unknown set.
+ */
+export const getSetAnswerKey = (
+  answerKey: Pick<AnswerKey, 'answers' | 'sets'> | null | undefined,
+  label?: string
+): AnswerChoice[] => {
+  if (!answerKey) return [];
+  const set = getExamSet(answerKey, label);
+  if (!set) return answerKey.answers;
+  return set.questionOrder.map(masterQ => answerKey.answers[masterQ - 1] || '');
+};
+
+/**
+ * Re-order a set's printed-order values (answers, darkness rows …) into master
+ * question order so results from different sets can be compared item by item.
+ */
+export const toMasterOrder = <T>(
+  values: T[],
+  answerKey: Pick<AnswerKey, 'answers' | 'sets'> | null | undefined,
+  label: string | undefined,
+  empty: T
+): T[] => {
+  const set = getExamSet(answerKey, label);
+  if (!set) return values;
+
+  const master: T[] = Array.from({ length: set.questionOrder.length }, () => empty);
+  set.questionOrder.forEach((masterQ, i) => {
+    if (i < values.length) master[masterQ - 1] = values[i];
+  });
+  return master;
+};
@@ -35,4 +35,16 @@ if (!getApps().length) {
   storage = getStorage(app);
 }
 
+// Route handlers under app/api run as the caller, with a Firestore of their own (see src/lib/api.ts)
+let resolveRequestDb: () => Firestore | undefined = () => undefined;
+
+export const setRequestDbResolver = (resolver: () => Firestore | undefined) => {
+  resolveRequestDb = resolver;
+};
+
+/**
+ * The Firestore to query: the API caller's while a route handler runs, otherwise `db`
+ */
+export const getDb = (): Firestore => resolveRequestDb() ?? db;
+
 export { app, db, auth, storage };
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * Gradebook Tests
+ * Tests: weighted term grades, drop-lowest, missing and unrecorded exams, transmutation, validation
+ */
+
+import {
+  DEPED_TRANSMUTATION,
+  computeTermGrade,
+  transmute,
+  validateGradebookConfig,
+} from '@/lib/gradebook';
+import { COLLEGE_SCALE, LETTER_SCALE } from '@/lib/gradingScales';
+import { GradebookConfig } from '@/types/gradebook';
+
+const config: GradebookConfig = {
+  classId: 'class1',
+  categories: [
+    { id: 'quizzes', name: 'Quizzes', weight: 40, dropLowest: 1, examIds: ['q1', 'q2', 'q3'] },
+    { id: 'long', name: 'Long Exams', weight: 60, dropLowest: 0, examIds: ['le1', 'le2'] },
+  ],
+  transmutation: null,
+  scale: LETTER_SCALE,
+};
+
+describe('computeTermGrade', () => {
+  it('averages each category after dropping the lowest and combines them by weight', () => {
+    const grade = computeTermGrade(
+      config,
+      {
+        q1: { score: 5, maxScore: 10 },
+        q2: { score: 8, maxScore: 10 },
+        q3: { score: 10, maxScore: 10 },
+        le1: { score: 40, maxScore: 50 },
+        le2: { score: 45, maxScore: 50 },
+      },
+      ['q1', 'q2', 'q3', 'le1', 'le2']
+    );
+
+    expect(grade.categories.quizzes).toEqual({ percent: 90, counted: ['q2', 'q3'], dropped: ['q1'] });
+    expect(grade.categories.long?.percent).toBe(85);
+    expect(grade.initialGrade).toBe(87);
+    expect(grade.termGrade).toBe(87);
+    expect(grade.label).toBe('A-');
+    expect(grade.passed).toBe(true);
+  });
+
+  it('counts a missing result as 0 and leaves out exams nobody has taken yet', () => {
+    const grade = computeTermGrade(
+      config,
+      {
+        q1: { score: 10, maxScore: 10 },
+        q2: { score: 6, maxScore: 10 },
+        le1: { score: 30, maxScore: 50 },
+      },
+      // q3 was given but this student has no result; the long exams haven't been given
+      ['q1', 'q2', 'q3']
+    );
+
+    expect(grade.missingExamIds).toEqual(['q3']);
+    expect(grade.categories.quizzes?.dropped).toEqual(['q3']);
+    expect(grade.categories.long).toBeNull();
+    // Only quizzes are recorded, so they carry the whole grade
+    expect(grade.initialGrade).toBe(80);
+  });
+
+  it('never drops every exam in a category and has no grade without recorded exams', () => {
+    const single = computeTermGrade(config, { q1: { score: 7, maxScore: 10 } }, ['q1']);
+    expect(single.categories.quizzes).toEqual({ percent: 70, counted: ['q1'], dropped: [] });
+
+    const none = computeTermGrade(config, {}, []);
+    expect(none.initialGrade).toBeNull();
+    expect(none.label).toBe('');
+  });
+
+  it('transmutes the initial grade before applying the scale', () => {
+    const grade = computeTermGrade(
+      { ...config, transmutation: DEPED_TRANSMUTATION, scale: COLLEGE_SCALE },
+      { le1: { score: 35, maxScore: 50 } },
+      ['le1']
+    );
+    expect(grade.initialGrade).toBe(70);
+    expect(grade.termGrade).toBe(81);
+    expect(grade.label).toBe('2.50');
+  });
+});
+
+describe('transmute', () => {
+  it('follows the DepEd table at its edges', () => {
+    expect(transmute(100, DEPED_TRANSMUTATION)).toBe(100);
+    expect(transmute(99.99, DEPED_TRANSMUTATION)).toBe(99);
+    expect(transmute(60, DEPED_TRANSMUTATION)).toBe(75);
+    expect(transmute(59.99, DEPED_TRANSMUTATION)).toBe(74);
+    expect(transmute(0, DEPED_TRANSMUTATION)).toBe(60);
+  });
+});
+
+describe('validateGradebookConfig', () => {
+  it('accepts a sound config and reports weights, shared exams and blank labels', () => {
+    expect(validateGradebookConfig(config)).toEqual([]);
+
+    const errors = validateGradebookConfig({
+      ...config,
+      categories: [
+        { ...config.categories[0], weight: 50 },
+        { ...config.categories[1], weight: 30, examIds: ['le1', 'q1'] },
+      ],
+      scale: { name: 'Custom', bands: [{ min: 0, label: ' ', passed: false }] },
+    });
+    expect(errors).toEqual([
+      'Category weights add up to 80%, not 100%.',
+      'An exam can only belong to one category.',
+      'Every grade scale band needs a label.',
+    ]);
+  });
+});
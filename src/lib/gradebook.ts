@@ -0,0 +1,181 @@
+/**
+ * Gradebook
+ * Term grades from exam scores: each category averages its exams (after dropping the
+ * lowest), categories are combined by weight into an initial grade, which is then
+ * transmuted and reported on the class's grade scale.
+ *
+ * Only recorded exams (ones with at least one result in the class) count, so exams
+ * that haven't been given yet don't pull anyone down. A student with no result on a
+ * recorded exam gets 0% for it, which drop-lowest can then drop.
+ */
+
+import {
+  CategoryGrade,
+  ExamScore,
+  GradebookConfig,
+  GradeCategory,
+  GradeScale,
+  TermGrade,
+  TransmutationTable,
+} from '@/types/gradebook';
+import { DEFAULT_GRADING_SCALE, getScaleBand, validateGradeScale } from '@/lib/gradingScales';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// DepEd Order 8, s. 2015: 60–100 maps onto 75–100 in steps of 1.6, 0–59.99 onto 60–74 in steps of 4
+export const DEPED_TRANSMUTATION: TransmutationTable = {
+  name: 'DepEd (DO 8, s. 2015)',
+  rows: [
+    ...Array.from({ length: 15 }, (_, i) => ({ min: i * 4, grade: 60 + i })),
+    ...Array.from({ length: 25 }, (_, i) => ({ min: round2(60 + i * 1.6), grade: 75 + i })),
+    { min: 100, grade: 100 },
+  ],
+};
+
+export const TRANSMUTATION_PRESETS: TransmutationTable[] = [DEPED_TRANSMUTATION];
+
+export const transmute = (initialGrade: number, table: TransmutationTable): number => {
+  const rows = [...table.rows].sort((a, b) => b.min - a.min);
+  const row = rows.find(r => initialGrade >= r.min) || rows[rows.length - 1];
+  return row ? row.grade : initialGrade;
+};
+
+export const getExamPercent = (score: ExamScore): number =>
+  score.maxScore > 0 ? round2((score.score / score.maxScore) * 100) : 0;
+
+const computeCategoryGrade = (
+  category: GradeCategory,
+  scores: Record<string, ExamScore>,
+  recorded: Set<string>
+): CategoryGrade | null => {
+  const exams = category.examIds
+    .filter(examId => recorded.has(examId))
+    .map(examId => ({ examId, percent: scores[examId] ? getExamPercent(scores[examId]) : 0 }))
+    .sort((a, b) => a.percent - b.percent);
+  if (exams.length === 0) return null;
+
+  // Always keep at least one exam
+  const dropCount = Math.min(Math.max(0, Math.floor(category.dropLowest)), exams.length - 1);
+  const counted = exams.slice(dropCount);
+
+  return {
+    percent: round2(counted.reduce((sum, e) => sum + e.percent, 0) / counted.length),
+    counted: counted.map(e => e.examId),
+    dropped: exams.slice(0, dropCount).map(e => e.examId),
+  };
+};
+
+/**
+ * One student's term grade from their exam scores (keyed by exam id).
+ * Categories with no recorded exams are left out and the remaining weights rescaled.
+ */
+export const computeTermGrade = (
+  config: Pick<GradebookConfig, 'categories' | 'transmutation' | 'scale'>,
+  scores: Record<string, ExamScore>,
+  recordedExamIds: string[]
+): TermGrade => {
+  const recorded = new Set(recordedExamIds);
+  const categories: Record<string, CategoryGrade | null> = {};
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const category of config.categories) {
+    const grade = computeCategoryGrade(category, scores, recorded);
+    categories[category.id] = grade;
+    if (grade && category.weight > 0) {
+      weighted += grade.percent * category.weight;
+      totalWeight += category.weight;
+    }
+  }
+
+  const missingExamIds = config.categories
+    .flatMap(category => category.examIds)
+    .filter(examId => recorded.has(examId) && !scores[examId]);
+
+  if (totalWeight === 0) {
+    return { categories, initialGrade: null, termGrade: null, label: '', passed: null, missingExamIds };
+  }
+
+  const initialGrade = round2(weighted / totalWeight);
+  const termGrade = config.transmutation ? transmute(initialGrade, config.transmutation) : initialGrade;
+  const band = getScaleBand(termGrade, config.scale);
+
+  return {
+    categories,
+    initialGrade,
+    termGrade,
+    label: band?.label || '',
+    passed: band ? band.passed : null,
+    missingExamIds,
+  };
+};
+
+/**
+ * Starting categories for a class: board exams go to "Board Exams", everything
+ * else waits to be assigned. Grades are reported on the class's grading scale.
+ */
+export const createDefaultGradebook = (
+  classId: string,
+  exams: { id: string; examType?: string }[],
+  scale: GradeScale = DEFAULT_GRADING_SCALE
+): GradebookConfig => ({
+  classId,
+  categories: [
+    { id: 'quizzes', name: 'Quizzes', weight: 30, dropLowest: 0, examIds: [] },
+    { id: 'long-exams', name: 'Long Exams', weight: 40, dropLowest: 0, examIds: [] },
+    {
+      id: 'board-exams',
+      name: 'Board Exams',
+      weight: 30,
+      dropLowest: 0,
+      examIds: exams.filter(e => e.examType === 'board').map(e => e.id),
+    },
+  ],
+  transmutation: null,
+  scale,
+});
+
+/**
+ * Problems that would make the term grades wrong, in plain words; empty when the config is usable
+ */
+export const validateGradebookConfig = (
+  config: Pick<GradebookConfig, 'categories' | 'transmutation' | 'scale'>
+): string[] => {
+  const errors: string[] = [];
+
+  if (config.categories.length === 0) {
+    errors.push('Add at least one category.');
+  }
+  config.categories.forEach((category, i) => {
+    const name = category.name.trim() || `Category ${i + 1}`;
+    if (!category.name.trim()) errors.push(`Category ${i + 1} needs a name.`);
+    if (!(category.weight > 0)) errors.push(`${name} needs a weight above 0%.`);
+    if (!Number.isInteger(category.dropLowest) || category.dropLowest < 0) {
+      errors.push(`${name}: the number of scores to drop must be a whole number.`);
+    }
+  });
+
+  const totalWeight = config.categories.reduce((sum, c) => sum + (c.weight || 0), 0);
+  if (config.categories.length > 0 && Math.abs(totalWeight - 100) > 0.01) {
+    errors.push(`Category weights add up to ${round2(totalWeight)}%, not 100%.`);
+  }
+
+  const assigned = config.categories.flatMap(c => c.examIds);
+  if (new Set(assigned).size !== assigned.length) {
+    errors.push('An exam can only belong to one category.');
+  }
+
+  errors.push(...validateGradeScale(config.scale));
+
+  if (config.transmutation) {
+    const { rows } = config.transmutation;
+    if (rows.length === 0) {
+      errors.push('The transmutation table needs at least one row.');
+    }
+    if (new Set(rows.map(r => r.min)).size !== rows.length) {
+      errors.push('Two transmutation rows start at the same initial grade.');
+    }
+  }
+
+  return errors;
+};
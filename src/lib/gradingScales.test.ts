@@ -0,0 +1,70 @@
+/**
+ * Grading Scale Tests
+ * Tests: reported grades, pass rates, band distribution, badge colors, exam/class scale resolution
+ */
+
+import {
+  COLLEGE_SCALE,
+  DEFAULT_GRADING_SCALE,
+  LETTER_SCALE,
+  getGradeColor,
+  getGradeDistribution,
+  getLetterGrade,
+  getPassingThreshold,
+  getPassRate,
+  isPassing,
+  resolveGradingScale,
+} from '@/lib/gradingScales';
+import { GradingScale } from '@/types/gradebook';
+
+const seventyPassing: GradingScale = {
+  id: 'custom1',
+  name: '70% passing',
+  bands: [
+    { min: 70, label: 'Passed', passed: true },
+    { min: 0, label: 'Failed', passed: false },
+  ],
+};
+
+describe('grading scales', () => {
+  it('reports grades on the letter scale by default and on the college scale when given', () => {
+    expect(getLetterGrade(92)).toBe('A');
+    expect(getLetterGrade(72)).toBe('C+');
+    expect(getLetterGrade(59)).toBe('F');
+    expect(getLetterGrade(88, COLLEGE_SCALE)).toBe('1.75');
+    expect(getLetterGrade(74.99, COLLEGE_SCALE)).toBe('5.00');
+  });
+
+  it('passes and fails by the scale', () => {
+    expect(isPassing(60)).toBe(true);
+    expect(isPassing(60, COLLEGE_SCALE)).toBe(false);
+    expect(isPassing(75, COLLEGE_SCALE)).toBe(true);
+    expect(getPassingThreshold(LETTER_SCALE)).toBe(60);
+    expect(getPassingThreshold(COLLEGE_SCALE)).toBe(75);
+    expect(getPassRate([50, 65, 75, 90], COLLEGE_SCALE)).toBe(50);
+    expect(getPassRate([])).toBe(0);
+  });
+
+  it('counts scores per band, highest band first', () => {
+    const distribution = getGradeDistribution([95, 71, 70, 10], seventyPassing);
+    expect(distribution).toEqual([
+      { min: 70, label: 'Passed', passed: true, count: 3 },
+      { min: 0, label: 'Failed', passed: false, count: 1 },
+    ]);
+  });
+
+  it('colors passing bands by rank and failing bands red', () => {
+    expect(getGradeColor('A')).toContain('green');
+    expect(getGradeColor('D')).toContain('orange');
+    expect(getGradeColor('F')).toContain('red');
+    expect(getGradeColor('5.00', COLLEGE_SCALE)).toContain('red');
+    expect(getGradeColor('?')).toContain('gray');
+  });
+
+  it("uses the exam's scale, then the class's, then the default", () => {
+    const scales = [LETTER_SCALE, COLLEGE_SCALE, seventyPassing];
+    expect(resolveGradingScale(scales, 'custom1', 'college')).toBe(seventyPassing);
+    expect(resolveGradingScale(scales, undefined, 'college')).toBe(COLLEGE_SCALE);
+    expect(resolveGradingScale(scales, 'deleted', undefined)).toBe(DEFAULT_GRADING_SCALE);
+  });
+});
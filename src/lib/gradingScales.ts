@@ -0,0 +1,163 @@
+/**
+ * Grading Scales
+ * Named scales that turn a percentage into a reported grade and a pass/fail call.
+ * Every letter grade, pass rate and grade distribution goes through a scale, so a
+ * class on the 1.00–5.00 college scale is reported the same way everywhere.
+ *
+ * An exam uses its own scale if one is assigned, otherwise its class's, otherwise
+ * DEFAULT_GRADING_SCALE.
+ */
+
+import { GradeBandCount, GradeScale, GradeScaleBand, GradingScale } from '@/types/gradebook';
+
+export const LETTER_SCALE: GradingScale = {
+  id: 'letter',
+  name: 'Letter (A–F)',
+  builtIn: true,
+  bands: [
+    { min: 90, label: 'A', passed: true },
+    { min: 85, label: 'A-', passed: true },
+    { min: 80, label: 'B+', passed: true },
+    { min: 75, label: 'B', passed: true },
+    { min: 70, label: 'C+', passed: true },
+    { min: 65, label: 'C', passed: true },
+    { min: 60, label: 'D', passed: true },
+    { min: 0, label: 'F', passed: false },
+  ],
+};
+
+export const COLLEGE_SCALE: GradingScale = {
+  id: 'college',
+  name: 'College (1.00–5.00)',
+  builtIn: true,
+  bands: [
+    { min: 97, label: '1.00', passed: true },
+    { min: 94, label: '1.25', passed: true },
+    { min: 91, label: '1.50', passed: true },
+    { min: 88, label: '1.75', passed: true },
+    { min: 85, label: '2.00', passed: true },
+    { min: 82, label: '2.25', passed: true },
+    { min: 79, label: '2.50', passed: true },
+    { min: 76, label: '2.75', passed: true },
+    { min: 75, label: '3.00', passed: true },
+    { min: 0, label: '5.00', passed: false },
+  ],
+};
+
+export const DEPED_DESCRIPTOR_SCALE: GradingScale = {
+  id: 'deped',
+  name: 'DepEd descriptors',
+  builtIn: true,
+  bands: [
+    { min: 90, label: 'Outstanding', passed: true },
+    { min: 85, label: 'Very Satisfactory', passed: true },
+    { min: 80, label: 'Satisfactory', passed: true },
+    { min: 75, label: 'Fairly Satisfactory', passed: true },
+    { min: 0, label: 'Did Not Meet Expectations', passed: false },
+  ],
+};
+
+export const BUILT_IN_GRADING_SCALES: GradingScale[] = [LETTER_SCALE, COLLEGE_SCALE, DEPED_DESCRIPTOR_SCALE];
+
+export const DEFAULT_GRADING_SCALE: GradingScale = LETTER_SCALE;
+
+const sortedBands = (scale: GradeScale): GradeScaleBand[] => [...scale.bands].sort((a, b) => b.min - a.min);
+
+/**
+ * The band a grade falls in: the highest band whose minimum it reaches
+ */
+export const getScaleBand = (grade: number, scale: GradeScale): GradeScaleBand | null => {
+  const bands = sortedBands(scale);
+  return bands.find(band => grade >= band.min) || bands[bands.length - 1] || null;
+};
+
+/**
+ * Reported grade of a percentage, e.g. "B+" or "2.25"
+ */
+export const getLetterGrade = (percentage: number, scale: GradeScale = DEFAULT_GRADING_SCALE): string =>
+  getScaleBand(percentage, scale)?.label || '';
+
+export const isPassing = (percentage: number, scale: GradeScale = DEFAULT_GRADING_SCALE): boolean =>
+  getScaleBand(percentage, scale)?.passed ?? false;
+
+/**
+ * Lowest percentage that passes, or null when no band passes
+ */
+export const getPassingThreshold = (scale: GradeScale): number | null => {
+  const passing = scale.bands.filter(band => band.passed).map(band => band.min);
+  return passing.length > 0 ? Math.min(...passing) : null;
+};
+
+/**
+ * Share (0-100, rounded) of percentages that pass
+ */
+export const getPassRate = (percentages: number[], scale: GradeScale = DEFAULT_GRADING_SCALE): number =>
+  percentages.length > 0
+    ? Math.round((percentages.filter(p => isPassing(p, scale)).length / percentages.length) * 100)
+    : 0;
+
+/**
+ * Count of percentages in each band, highest band first
+ */
+export const getGradeDistribution = (
+  percentages: number[],
+  scale: GradeScale = DEFAULT_GRADING_SCALE
+): GradeBandCount[] => {
+  const counts = sortedBands(scale).map(band => ({ ...band, count: 0 }));
+  percentages.forEach(p => {
+    const band = getScaleBand(p, scale);
+    const entry = counts.find(c => c.label === band?.label && c.min === band?.min);
+    if (entry) entry.count++;
+  });
+  return counts;
+};
+
+/**
+ * Badge colors for a reported grade: passing bands shade from green to orange
+ * by rank, failing bands are red
+ */
+export const getGradeColor = (label: string, scale: GradeScale = DEFAULT_GRADING_SCALE): string => {
+  const passing = sortedBands(scale).filter(band => band.passed);
+  const index = passing.findIndex(band => band.label === label);
+  if (index === -1) {
+    return scale.bands.some(band => band.label === label) ? 'text-red-700 bg-red-100' : 'text-gray-700 bg-gray-100';
+  }
+  const rank = passing.length > 1 ? index / (passing.length - 1) : 0;
+  if (rank < 0.25) return 'text-green-700 bg-green-100';
+  if (rank < 0.5) return 'text-lime-700 bg-lime-100';
+  if (rank < 0.75) return 'text-yellow-700 bg-yellow-100';
+  return 'text-orange-700 bg-orange-100';
+};
+
+/**
+ * The scale that applies to an exam: its own, then its class's, then the default.
+ * Ids that no longer match a scale fall through to the next.
+ */
+export const resolveGradingScale = (
+  scales: GradingScale[],
+  examScaleId?: string,
+  classScaleId?: string
+): GradingScale =>
+  scales.find(scale => scale.id === examScaleId) ||
+  scales.find(scale => scale.id === classScaleId) ||
+  DEFAULT_GRADING_SCALE;
+
+/**
+ * Problems with a scale in plain words; empty when it is usable
+ */
+export const validateGradeScale = (scale: GradeScale): string[] => {
+  const errors: string[] = [];
+  if (!scale.name.trim()) {
+    errors.push('The grade scale needs a name.');
+  }
+  if (scale.bands.length === 0) {
+    errors.push('The grade scale needs at least one band.');
+  }
+  if (scale.bands.some(band => !band.label.trim())) {
+    errors.push('Every grade scale band needs a label.');
+  }
+  if (new Set(scale.bands.map(b => b.min)).size !== scale.bands.length) {
+    errors.push('Two grade scale bands start at the same grade.');
+  }
+  return errors;
+};
@@ -0,0 +1,298 @@
+/**
+ * Mail Transport
+ * Server-only. Sends MailMessages through a pluggable transport chosen by environment:
+ *
+ *   MAIL_TRANSPORT=smtp     SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit TLS,
+ *                           usually port 465; otherwise STARTTLS is used when offered),
+ *                           SMTP_USER, SMTP_PASS (only sent over TLS)
+ *   MAIL_TRANSPORT=file     writes each message as an .eml file to MAIL_FILE_DIR (./.mail)
+ *   MAIL_TRANSPORT=console  logs each message (the default, for local development)
+ *
+ *   MAIL_FROM               sender address for every transport
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { MailMessage } from '@/types/notifications';
+
+export interface MailTransport {
+  name: 'smtp' | 'file' | 'console';
+  /** Send every message; one promise per message so a failure only affects that recipient */
+  sendBatch(messages: MailMessage[]): Promise<PromiseSettledResult<void>[]>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+// ---- MIME ----
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const toBase64Lines = (value: string) =>
+  (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+/**
+ * An RFC 5322 message: plain text, plus an HTML alternative when given
+ */
+export const buildMimeMessage = (message: MailMessage, date: Date = new Date()): string => {
+  const domain = message.from.split('@')[1]?.replace(/>.*$/, '') || 'localhost';
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${date.getTime()}.${Math.random().toString(36).slice(2)}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const textPart = ['Content-Type: text/plain; charset=UTF-8', 'Content-Transfer-Encoding: base64', '', toBase64Lines(message.text)];
+  if (!message.html) {
+    return [...headers, ...textPart].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${date.getTime()}_${Math.random().toString(36).slice(2)}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+const addressOf = (value: string) => value.match(/<([^>]+)>/)?.[1] || value.trim();
+
+// ---- SMTP ----
+
+/**
+ * A minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN, then one
+ * MAIL/RCPT/DATA round per message over the same connection.
+ */
+class SmtpSession {
+  private socket: net.Socket | tls.TLSSocket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  private failure: Error | null = null;
+  private detach: (() => void) | null = null;
+
+  constructor(private config: SmtpConfig) {}
+
+  async open(): Promise<void> {
+    const { host, port, secure } = this.config;
+    this.attach(secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port }));
+    await this.expect(220);
+
+    let capabilities = await this.ehlo();
+    let encrypted = secure;
+    if (!secure && /STARTTLS/i.test(capabilities)) {
+      await this.command('STARTTLS', 220);
+      this.attach(tls.connect({ socket: this.socket as net.Socket, servername: host }));
+      capabilities = await this.ehlo();
+      encrypted = true;
+    }
+
+    if (this.config.user) {
+      // AUTH PLAIN sends the password as is
+      if (!encrypted) {
+        throw new Error('The SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+      }
+      if (!/AUTH/i.test(capabilities)) {
+        throw new Error('The SMTP server does not accept authentication');
+      }
+      const credentials = Buffer.from(`\0${this.config.user}\0${this.config.pass || ''}`, 'utf8').toString('base64');
+      await this.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.command(`MAIL FROM:<${addressOf(message.from)}>`, 250);
+    await this.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+    await this.command('DATA', 354);
+    // Dot-stuffing: a line starting with "." gets a second one
+    const body = buildMimeMessage(message).replace(/\r\n\./g, '\r\n..');
+    await this.command(`${body}\r\n.`, 250);
+  }
+
+  /** Clear the envelope after a failed message so the next one starts clean */
+  async reset(): Promise<void> {
+    await this.command('RSET', 250).catch(() => undefined);
+  }
+
+  async close(): Promise<void> {
+    if (!this.socket) return;
+    await this.command('QUIT', 221).catch(() => undefined);
+    this.socket.destroy();
+    this.socket = null;
+  }
+
+  private attach(socket: net.Socket | tls.TLSSocket) {
+    this.detach?.();
+    this.socket = socket;
+    this.buffer = '';
+
+    const onData = (chunk: Buffer) => this.onData(chunk.toString('utf8'));
+    const onTimeout = () => this.fail(new Error('SMTP connection timed out'));
+    const onError = (error: Error) => this.fail(error);
+    socket.setTimeout(this.config.timeoutMs ?? 30000);
+    socket.on('data', onData);
+    socket.on('timeout', onTimeout);
+    socket.on('error', onError);
+
+    // STARTTLS wraps the plain socket; from then on only the TLS socket reports to the session
+    this.detach = () => {
+      socket.setTimeout(0);
+      socket.off('data', onData);
+      socket.off('timeout', onTimeout);
+      socket.off('error', onError);
+    };
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: this.lines.join('\n') };
+        this.lines = [];
+        const resolve = this.waiting;
+        this.waiting = null;
+        resolve?.(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = error;
+    const resolve = this.waiting;
+    this.waiting = null;
+    resolve?.({ code: 0, text: error.message });
+  }
+
+  private read(): Promise<{ code: number; text: string }> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+
+  private async expect(expected: number | number[]): Promise<string> {
+    const reply = await this.read();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(reply.code)) {
+      throw new Error(reply.code ? `SMTP ${reply.code}: ${reply.text}` : reply.text);
+    }
+    return reply.text;
+  }
+
+  private async command(line: string, expected: number | number[]): Promise<string> {
+    if (!this.socket) throw new Error('SMTP connection is closed');
+    const reply = this.expect(expected);
+    this.socket.write(`${line}\r\n`);
+    return reply;
+  }
+
+  private ehlo(): Promise<string> {
+    return this.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+  }
+}
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => ({
+  name: 'smtp',
+  async sendBatch(messages) {
+    const session = new SmtpSession(config);
+    try {
+      await session.open();
+    } catch (error) {
+      await session.close().catch(() => undefined);
+      return messages.map(() => ({ status: 'rejected' as const, reason: error }));
+    }
+
+    const results: PromiseSettledResult<void>[] = [];
+    for (const message of messages) {
+      try {
+        await session.send(message);
+        results.push({ status: 'fulfilled', value: undefined });
+      } catch (error) {
+        results.push({ status: 'rejected', reason: error });
+        await session.reset();
+      }
+    }
+    await session.close();
+    return results;
+  },
+});
+
+// ---- Local sinks ----
+
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: 'file',
+  async sendBatch(messages) {
+    await fs.mkdir(directory, { recursive: true });
+    return Promise.allSettled(
+      messages.map((message, i) => {
+        const safeTo = addressOf(message.to).replace(/[^a-z0-9@._-]+/gi, '_');
+        return fs.writeFile(path.join(directory, `${Date.now()}_${i}_${safeTo}.eml`), buildMimeMessage(message));
+      })
+    );
+  },
+});
+
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  async sendBatch(messages) {
+    messages.forEach(message => {
+      console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}\n`);
+    });
+    return messages.map(() => ({ status: 'fulfilled' as const, value: undefined }));
+  },
+});
+
+/**
+ * The transport configured for this server
+ */
+export const getMailTransport = (env: NodeJS.ProcessEnv = process.env): MailTransport => {
+  switch ((env.MAIL_TRANSPORT || 'console').toLowerCase()) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT is "smtp" but SMTP_HOST is not set');
+      }
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT || 587),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'file':
+      return createFileTransport(env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'));
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${env.MAIL_TRANSPORT}". Use smtp, file or console.`);
+  }
+};
+
+export const getMailFrom = (env: NodeJS.ProcessEnv = process.env): string =>
+  env.MAIL_FROM || 'SIA Results <no-reply@localhost>';
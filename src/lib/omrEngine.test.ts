@@ -0,0 +1,339 @@
+/**
+ * OMR Engine Tests
+ * Fixture tests for the headless bubble reader using synthetic answer sheets
+ * Tests: template layouts, marker detection, student ID reading, answer reading, darkness evidence,
+ * answer confidence
+ */
+
+import {
+  PixelBuffer,
+  getTemplateType,
+  getTemplateLayout,
+  mapToPixel,
+  rotateImage,
+  rectifySheet,
+  readAnswerSheet,
+  hasAlignmentIssue,
+} from '@/lib/omrEngine';
+import QRCode from 'qrcode';
+import { encodeSheetCode } from '@/lib/sheetCode';
+import { getBuiltInTemplate, getCodeBox } from '@/lib/sheetTemplates';
+
+// ─── SYNTHETIC 20-ITEM SHEET FIXTURE ───
+// Mini sheet 105 × 148.5 mm, marker centers TL (7, 19) → BR (98, 126), laid on a dark desk.
+const PX_PER_MM = 4;
+const DESK_MM = 12;
+const PAGE_W_MM = 105;
+const PAGE_H_MM = 148.5;
+const FRAME = { x: 7, y: 19, w: 91, h: 107 };
+
+const PAPER = 235;
+const DESK = 60;
+const INK = 30;
+
+interface SheetFixture {
+  studentId?: string;
+  answers?: string[];
+  extraIdMarks?: Array<{ col: number; digit: number }>;
+  extraAnswerMarks?: Array<{ q: number; choice: string }>;
+  examSets?: string[]; // Set bubbles to shade
+  sheetCode?: string; // QR payload printed in the header, as on pre-filled sheets
+  withMarkers?: boolean;
+}
+
+const mmToPx = (mm: number) => (mm + DESK_MM) * PX_PER_MM;
+
+function createSheet(fixture: SheetFixture): PixelBuffer {
+  const width = Math.round((PAGE_W_MM + DESK_MM * 2) * PX_PER_MM);
+  const height = Math.round((PAGE_H_MM + DESK_MM * 2) * PX_PER_MM);
+  const gray = new Uint8Array(width * height).fill(DESK);
+
+  const fillRect = (x1: number, y1: number, x2: number, y2: number, value: number) => {
+    for (let y = Math.round(y1); y < Math.round(y2); y++) {
+      for (let x = Math.round(x1); x < Math.round(x2); x++) {
+        gray[y * width + x] = value;
+      }
+    }
+  };
+  const fillCircle = (cx: number, cy: number, r: number, value: number) => {
+    for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+      for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 <= r * r) gray[y * width + x] = value;
+      }
+    }
+  };
+
+  fillRect(mmToPx(0), mmToPx(0), mmToPx(PAGE_W_MM), mmToPx(PAGE_H_MM), PAPER);
+
+  if (fixture.withMarkers !== false) {
+    for (const [mx, my] of [[7, 19], [98, 19], [7, 126], [98, 126]]) {
+      fillRect(mmToPx(mx - 3.5), mmToPx(my - 3.5), mmToPx(mx + 3.5), mmToPx(my + 3.5), 0);
+    }
+  }
+
+  const layout = getTemplateLayout(20);
+  const bubbleR = 1.5 * PX_PER_MM;
+  const bubbleAt = (nx: number, ny: number) => ({
+    x: mmToPx(FRAME.x + nx * FRAME.w),
+    y: mmToPx(FRAME.y + ny * FRAME.h),
+  });
+  const shadeId = (col: number, digit: number) => {
+    const { x, y } = bubbleAt(
+      layout.id.firstColNX + col * layout.id.colSpacingNX,
+      layout.id.firstRowNY + digit * layout.id.rowSpacingNY
+    );
+    fillCircle(x, y, bubbleR, INK);
+  };
+  const shadeAnswer = (q: number, choice: string) => {
+    const block = layout.answerBlocks.find(b => q >= b.startQ && q <= b.endQ)!;
+    const c = choice.charCodeAt(0) - 65;
+    const { x, y } = bubbleAt(
+      block.firstBubbleNX + c * block.bubbleSpacingNX,
+      block.firstBubbleNY + (q - block.startQ) * block.rowSpacingNY
+    );
+    fillCircle(x, y, bubbleR, INK);
+  };
+
+  const shadeSet = (label: string) => {
+    const { x, y } = bubbleAt(
+      layout.examSet.firstNX + (label.charCodeAt(0) - 65) * layout.examSet.spacingNX,
+      layout.examSet.firstNY
+    );
+    fillCircle(x, y, bubbleR, INK);
+  };
+
+  (fixture.studentId || '').split('').forEach((d, col) => shadeId(col, Number(d)));
+  (fixture.answers || []).forEach((choice, i) => { if (choice) shadeAnswer(i + 1, choice); });
+  (fixture.extraIdMarks || []).forEach(m => shadeId(m.col, m.digit));
+  (fixture.extraAnswerMarks || []).forEach(m => shadeAnswer(m.q, m.choice));
+  (fixture.examSets || []).forEach(shadeSet);
+
+  if (fixture.sheetCode) {
+    const box = getCodeBox(getBuiltInTemplate(20));
+    const { modules } = QRCode.create(fixture.sheetCode, { errorCorrectionLevel: 'M' });
+    const m = box.size / modules.size;
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (!modules.get(row, col)) continue;
+        const x = box.x + col * m;
+        const y = box.y + row * m;
+        fillRect(mmToPx(x), mmToPx(y), mmToPx(x + m), mmToPx(y + m), 0);
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < gray.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray[i];
+    data[i * 4 + 3] = 255;
+  }
+  return { width, height, data };
+}
+
+const ANSWERS = ['A', 'B', 'C', 'D', 'A', 'B', 'C', 'D', 'A', 'B', 'C', 'D', 'A', 'B', 'C', 'D', 'A', 'B', 'C', 'D'];
+
+describe('OMR Engine', () => {
+  beforeAll(() => {
+    // The engine logs every detection step; keep test output readable
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Template Layouts', () => {
+    test('should map question counts onto the three sheet types', () => {
+      expect(getTemplateType(10)).toBe(20);
+      expect(getTemplateType(20)).toBe(20);
+      expect(getTemplateType(21)).toBe(50);
+      expect(getTemplateType(50)).toBe(50);
+      expect(getTemplateType(100)).toBe(100);
+    });
+
+    test('should cover every question exactly once', () => {
+      for (const numQuestions of [20, 50, 100]) {
+        const covered = getTemplateLayout(numQuestions).answerBlocks
+          .flatMap(b => Array.from({ length: b.endQ - b.startQ + 1 }, (_, i) => b.startQ + i))
+          .sort((a, b) => a - b);
+        expect(covered).toEqual(Array.from({ length: numQuestions }, (_, i) => i + 1));
+      }
+    });
+
+    test('should map normalised coordinates onto the marker frame', () => {
+      const markers = {
+        topLeft: { x: 100, y: 100 },
+        topRight: { x: 300, y: 100 },
+        bottomLeft: { x: 100, y: 500 },
+        bottomRight: { x: 300, y: 500 },
+      };
+
+      expect(mapToPixel(markers, 0, 0)).toEqual({ px: 100, py: 100 });
+      expect(mapToPixel(markers, 0.5, 0.5)).toEqual({ px: 200, py: 300 });
+      expect(mapToPixel(markers, 1, 1)).toEqual({ px: 300, py: 500 });
+    });
+  });
+
+  describe('Corner Marker Detection', () => {
+    test('should find the four corner markers on the sheet', () => {
+      const sheet = createSheet({});
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.markersFound).toBe(true);
+      expect(result.confidence).toBeGreaterThan(0.5);
+      expect(Math.abs(result.markers.topLeft.x - mmToPx(7))).toBeLessThan(PX_PER_MM * 2);
+      expect(Math.abs(result.markers.topLeft.y - mmToPx(19))).toBeLessThan(PX_PER_MM * 2);
+      expect(Math.abs(result.markers.bottomRight.x - mmToPx(98))).toBeLessThan(PX_PER_MM * 2);
+      expect(Math.abs(result.markers.bottomRight.y - mmToPx(126))).toBeLessThan(PX_PER_MM * 2);
+    });
+
+    test('should report an alignment issue when markers are missing', () => {
+      const sheet = createSheet({ withMarkers: false, studentId: '202312345', answers: ANSWERS });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.markersFound).toBe(false);
+      expect(hasAlignmentIssue(result)).toBe(true);
+    });
+  });
+
+  describe('Sheet Reading', () => {
+    test('should read student ID and answers from a filled sheet', () => {
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.markersFound).toBe(true);
+      expect(hasAlignmentIssue(result)).toBe(false);
+      expect(result.studentId).toBe('202312345');
+      expect(result.rawIdDigits).toEqual([2, 0, 2, 3, 1, 2, 3, 4, 5]);
+      expect(result.answers).toEqual(ANSWERS);
+      expect(result.multipleAnswers).toEqual([]);
+      expect(result.bubbleHits.length).toBe(20);
+    });
+
+    test('should leave blank questions and unshaded ID columns empty', () => {
+      const answers = [...ANSWERS];
+      answers[4] = '';
+      answers[15] = '';
+      const sheet = createSheet({ studentId: '1234567', answers });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.answers[4]).toBe('');
+      expect(result.answers[15]).toBe('');
+      expect(result.studentId).toBe('1234567');
+      expect(result.rawIdDigits.slice(7)).toEqual([-1, -1]);
+    });
+
+    test('should flag double-shaded answers and ID columns', () => {
+      const sheet = createSheet({
+        studentId: '202312345',
+        answers: ANSWERS,
+        extraIdMarks: [{ col: 3, digit: 7 }],
+        extraAnswerMarks: [{ q: 6, choice: 'D' }],
+      });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.multipleAnswers).toEqual([6]);
+      expect(result.idDoubleShadeColumns).toEqual([4]);
+      expect(result.rawIdDigits[3]).toBe(-2);
+    });
+
+    test('should expose per-bubble darkness for every question and ID column', () => {
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.bubbleDarkness.length).toBe(20);
+      expect(result.idBubbleDarkness.length).toBe(9);
+      result.bubbleDarkness.forEach((row, q) => {
+        expect(row.length).toBe(4);
+        const chosen = ANSWERS[q].charCodeAt(0) - 65;
+        row.forEach((darkness, c) => {
+          if (c === chosen) expect(darkness).toBeGreaterThan(0.5);
+          else expect(darkness).toBeLessThan(0.2);
+        });
+      });
+    });
+
+    test('should read clean marks with full confidence and double marks with none', () => {
+      const sheet = createSheet({
+        studentId: '202312345',
+        answers: ANSWERS,
+        extraAnswerMarks: [{ q: 6, choice: ANSWERS[5] === 'D' ? 'A' : 'D' }],
+      });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+
+      expect(result.answerConfidence.length).toBe(20);
+      result.answerConfidence.forEach((confidence, q) => {
+        if (q === 5) expect(confidence).toBe(0);
+        else expect(confidence).toBe(1);
+      });
+    });
+
+    test('should read the shaded exam set only when the exam has sets', () => {
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS, examSets: ['C'] });
+
+      const withSets = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4, examSets: 3 });
+      expect(withSets.examSet).toBe('C');
+      expect(withSets.examSetDoubleShade).toBe(false);
+      expect(withSets.examSetDarkness.length).toBe(3);
+      expect(withSets.answers).toEqual(ANSWERS);
+
+      const singleSet = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+      expect(singleSet.examSet).toBe('');
+      expect(singleSet.examSetDarkness).toEqual([]);
+    });
+
+    test('should reject a double-shaded exam set', () => {
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS, examSets: ['A', 'B'] });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4, examSets: 4 });
+
+      expect(result.examSet).toBe('');
+      expect(result.examSetDoubleShade).toBe(true);
+    });
+
+    test('should take the student and set from a pre-filled sheet code over the bubbles', () => {
+      const sheetCode = encodeSheetCode({ examId: 'exam1', studentId: '202100451', examSet: 'B' });
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS, sheetCode });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4, examSets: 2, examId: 'exam1' });
+
+      expect(result.markersFound).toBe(true);
+      expect(result.idSource).toBe('code');
+      expect(result.studentId).toBe('202100451');
+      expect(result.examSet).toBe('B');
+      expect(result.answers).toEqual(ANSWERS);
+    });
+
+    test('should ignore a sheet code printed for another exam', () => {
+      const sheetCode = encodeSheetCode({ examId: 'other', studentId: '202100451', examSet: '' });
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS, sheetCode });
+      const result = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4, examId: 'exam1' });
+
+      expect(result.sheetCode?.examId).toBe('other');
+      expect(result.idSource).toBe('bubbles');
+      expect(result.studentId).toBe('202312345');
+    });
+
+    test('should rotate without cropping and fill uncovered corners white', () => {
+      const sheet = createSheet({});
+      const rotated = rotateImage(sheet, 10);
+
+      expect(rotated.width).toBeGreaterThan(sheet.width);
+      expect(rotated.height).toBeGreaterThan(sheet.height);
+      expect(Array.from(rotated.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+      expect(rotateImage(sheet, 0.2)).toBe(sheet);
+    });
+
+    test('should rectify the sheet so it reads the same from the stored evidence image', () => {
+      const sheet = createSheet({ studentId: '202312345', answers: ANSWERS });
+      const original = readAnswerSheet(sheet, { numQuestions: 20, choicesPerQuestion: 4 });
+      const rectified = rectifySheet(original.image, original.markers, 600);
+
+      expect(rectified.image.width).toBe(600);
+      expect(rectified.markers.topLeft.x).toBeCloseTo(rectified.image.width - rectified.markers.topRight.x, 5);
+      expect(rectified.markers.bottomLeft.y).toBeGreaterThan(rectified.markers.topLeft.y);
+
+      const reread = readAnswerSheet(rectified.image, { numQuestions: 20, choicesPerQuestion: 4 });
+      expect(reread.answers).toEqual(ANSWERS);
+      expect(reread.studentId).toBe('202312345');
+    });
+  });
+});
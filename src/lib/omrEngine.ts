@@ -0,0 +1,1392 @@
+/**
+ * OMR Engine
+ * Headless bubble-reading pipeline for answer sheets.
+ *
+ * Everything here works on plain RGBA pixel buffers ({ width, height, data }) so the
+ * same reader can run in the live camera scanner, batch imports, server routes and
+ * Jest fixture tests — no React, DOM or canvas required.
+ */
+
+import { SheetTemplateDefinition } from '@/types/templates';
+import { StudentIdPolicy } from '@/types/studentId';
+import { getBuiltInTemplate, getSheetType, toTemplateLayout } from '@/lib/sheetTemplates';
+import { SheetCode, readSheetCode } from '@/lib/sheetCode';
+import { fromGridDigits } from '@/lib/studentIdPolicy';
+import {
+  getAnswerConfidence,
+  LIGHT_FILL_GAP,
+  LIGHT_FILL_RATIO,
+  MULTI_FILL_GAP,
+  MULTI_FILL_RATIO,
+  STRONG_FILL_RATIO,
+} from '@/lib/answerConfidence';
+
+// ─── TYPES ───
+
+/** RGBA pixel buffer — structurally compatible with the DOM ImageData. */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CornerMarkers {
+  topLeft: Point;
+  topRight: Point;
+  bottomLeft: Point;
+  bottomRight: Point;
+}
+
+export interface MarkerDetection extends CornerMarkers {
+  found: boolean;
+  confidence: number;
+}
+
+export type TemplateType = 20 | 50 | 100;
+
+/** Pixel coords of a detected answer bubble, used for overlay drawing */
+export interface BubbleHit {
+  px: number;
+  py: number;
+  rx: number;
+  ry: number;
+  choice: string;
+  qIndex: number;
+}
+
+export interface StudentIdDetection {
+  studentId: string;
+  doubleShadeColumns: number[];
+  rawIdDigits: number[]; // -1 = unshaded, -2 = double-shade
+  darkness: number[][]; // [column][digit] → 0 (blank) .. 1 (solid)
+}
+
+export interface ExamSetDetection {
+  examSet: string; // '' when no set bubble is shaded
+  doubleShade: boolean;
+  darkness: number[]; // [set] → 0 (blank) .. 1 (solid)
+}
+
+export interface AnswerDetection {
+  answers: string[];
+  multipleAnswers: number[];
+  bubbleHits: BubbleHit[];
+  darkness: number[][]; // [question][choice] → 0 (blank) .. 1 (solid)
+  confidence: number[]; // [question] → 0 (coin toss) .. 1 (clear-cut), see lib/answerConfidence
+}
+
+export interface OMRReadOptions {
+  numQuestions: number;
+  choicesPerQuestion: number;
+  /** Number of bubbles printed on the sheet's Set row; omit for single-set exams */
+  examSets?: number;
+  /** Printed sheet to read; defaults to the built-in sheet for numQuestions */
+  template?: SheetTemplateDefinition;
+  /** Run skew correction and brightness enhancement first (default: true) */
+  preprocess?: boolean;
+  /** Exam being scanned; when set, a pre-filled sheet's QR code is read and used if it matches */
+  examId?: string;
+  /** Institution's Student ID format; shaded digits that fill it are written out in it (20260001 → 2026-0001) */
+  idPolicy?: StudentIdPolicy;
+}
+
+export interface OMRReadResult {
+  studentId: string;
+  rawIdDigits: number[];
+  idDoubleShadeColumns: number[];
+  idBubbleDarkness: number[][];
+  examSet: string;
+  examSetDoubleShade: boolean;
+  examSetDarkness: number[];
+  answers: string[];
+  multipleAnswers: number[];
+  bubbleDarkness: number[][];
+  /** How clear-cut each question's reading was (0–1) */
+  answerConfidence: number[];
+  bubbleHits: BubbleHit[];
+  markers: CornerMarkers;
+  markersFound: boolean;
+  confidence: number;
+  /** Bubble positions the sheet was read with */
+  layout: TemplateLayout;
+  /** QR code of a pre-filled sheet, whichever exam it was printed for */
+  sheetCode: SheetCode | null;
+  /** Where studentId (and a printed set) came from */
+  idSource: 'code' | 'bubbles';
+  skewAngle: number;
+  /** The (possibly deskewed and enhanced) image the bubbles were read from */
+  image: PixelBuffer;
+}
+
+// Below this marker confidence the sheet is considered misaligned
+export const MIN_MARKER_CONFIDENCE = 0.5;
+
+export const getTemplateType = (numQuestions: number): TemplateType => {
+  return numQuestions <= 20 ? 20 : numQuestions <= 50 ? 50 : 100;
+};
+
+// Converts a raw sampled brightness (0-255, lower = darker) into a darkness fraction
+const toDarkness = (brightness: number): number => {
+  return Math.round((1 - Math.max(0, Math.min(255, brightness)) / 255) * 1000) / 1000;
+};
+
+// ─── PIXEL HELPERS ───
+
+export const toGrayscale = (image: PixelBuffer): Uint8Array => {
+  const { data, width, height } = image;
+  const grayscale = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    grayscale[i] = Math.round(
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    );
+  }
+  return grayscale;
+};
+
+const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+// ─── SKEW CORRECTION ───
+
+// Detects rotation angle up to ±30° using a weighted Sobel-edge histogram (Hough-inspired).
+// Uses 0.25° bins (241 bins total) for sub-degree accuracy.
+// Only edges with high magnitude vote, and votes are weighted by magnitude so strong
+// long edges (paper boundary, column separators) dominate over noise.
+export const detectSkewAngle = (grayscale: Uint8Array, width: number, height: number): number => {
+  const BINS = 241;              // –30° to +30° in 0.25° steps
+  const CENTER = 120;            // bin index for 0°
+  const SCALE = 4;               // bins per degree (1 / 0.25)
+  const angleHist = new Float32Array(BINS);
+  
+  // Sample a grid of points; denser sampling = more accurate but slower.
+  // Use ~200 sample rows (capped for large images).
+  const step = Math.max(3, Math.floor(Math.min(width, height) / 200));
+  // Edge magnitude threshold — only vote for genuinely strong edges (reduces noise)
+  const EDGE_THRESH = 40;
+  
+  for (let y = step; y < height - step; y += step) {
+    for (let x = step; x < width - step; x += step) {
+      // 3×3 Sobel
+      const gx = 
+        -grayscale[(y - 1) * width + (x - 1)] - 2 * grayscale[y * width + (x - 1)] - grayscale[(y + 1) * width + (x - 1)] +
+         grayscale[(y - 1) * width + (x + 1)] + 2 * grayscale[y * width + (x + 1)] + grayscale[(y + 1) * width + (x + 1)];
+      
+      const gy = 
+        -grayscale[(y - 1) * width + (x - 1)] - 2 * grayscale[(y - 1) * width + x] - grayscale[(y - 1) * width + (x + 1)] +
+         grayscale[(y + 1) * width + (x - 1)] + 2 * grayscale[(y + 1) * width + x] + grayscale[(y + 1) * width + (x + 1)];
+      
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      if (magnitude < EDGE_THRESH) continue;
+      
+      // Derive rotation angle from edge direction
+      // Horizontal edges (gy dominant): edge angle ≈ ±90° → paper rotated by (angle − 90°)
+      // Vertical edges (gx dominant):  edge angle ≈ 0°/180° → paper rotated by edge angle
+      const angle = Math.atan2(gy, gx) * 180 / Math.PI; // –180..+180
+      let rotation: number;
+      if (Math.abs(gx) >= Math.abs(gy)) {
+        // Vertical edge
+        rotation = angle;
+        if (rotation > 90) rotation -= 180;
+        if (rotation < -90) rotation += 180;
+      } else {
+        // Horizontal edge
+        rotation = angle > 0 ? angle - 90 : angle + 90;
+      }
+      
+      if (rotation < -30 || rotation > 30) continue;
+      
+      const binIdx = Math.round((rotation + 30) * SCALE);
+      if (binIdx >= 0 && binIdx < BINS) {
+        angleHist[binIdx] += magnitude; // weight by edge strength
+      }
+    }
+  }
+  
+  // Gaussian-smooth the histogram (σ ≈ 2 bins = 0.5°) then find peak
+  const smoothed = new Float32Array(BINS);
+  const kernel = [0.06, 0.12, 0.22, 0.40, 0.22, 0.12, 0.06]; // σ≈1.5 bins, sum≈1.2→renorm below
+  const kCenter = 3;
+  for (let i = 0; i < BINS; i++) {
+    let acc = 0;
+    for (let k = 0; k < kernel.length; k++) {
+      const j = i + k - kCenter;
+      if (j >= 0 && j < BINS) acc += angleHist[j] * kernel[k];
+    }
+    smoothed[i] = acc;
+  }
+
+  let maxVal = 0, maxIdx = CENTER;
+  for (let i = 0; i < BINS; i++) {
+    if (smoothed[i] > maxVal) { maxVal = smoothed[i]; maxIdx = i; }
+  }
+
+  // Sub-bin parabolic interpolation for extra precision
+  let subBin = maxIdx;
+  if (maxIdx > 0 && maxIdx < BINS - 1) {
+    const left = smoothed[maxIdx - 1], right = smoothed[maxIdx + 1];
+    const denom = left - 2 * maxVal + right;
+    if (Math.abs(denom) > 1e-6) subBin = maxIdx - (right - left) / (2 * denom);
+  }
+
+  const detectedAngle = (subBin - CENTER) / SCALE;
+  
+  const totalVotes = angleHist.reduce((a, b) => a + b, 0);
+  const peakStrength = maxVal / (totalVotes || 1);
+  
+  console.log(`[Skew] Detected angle: ${detectedAngle.toFixed(2)}° (peak strength: ${(peakStrength * 100).toFixed(1)}%)`);
+  
+  // Require a meaningful peak to avoid spurious corrections
+  if (peakStrength < 0.04) return 0;
+  // Skip imperceptible sub-0.5° rotations (saves a canvas copy operation)
+  if (Math.abs(detectedAngle) < 0.5) return 0;
+  
+  return detectedAngle;
+};
+
+// Rotate an image by the given angle (in degrees), expanding the output so nothing is cropped.
+// Uses inverse mapping with bilinear sampling; uncovered areas are filled white (paper colour)
+// to avoid black edges.
+export const rotateImage = (image: PixelBuffer, angle: number): PixelBuffer => {
+  if (Math.abs(angle) < 0.5) return image;
+
+  const { width: w, height: h, data: src } = image;
+  const rad = angle * Math.PI / 180;
+
+  // Calculate new size to fit rotated image
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const newW = Math.ceil(w * Math.abs(cos) + h * Math.abs(sin));
+  const newH = Math.ceil(w * Math.abs(sin) + h * Math.abs(cos));
+
+  const out = createPixelBuffer(newW, newH);
+  const dst = out.data;
+
+  for (let oy = 0; oy < newH; oy++) {
+    for (let ox = 0; ox < newW; ox++) {
+      // Rotating by −angle (to correct the skew) means sampling the source at +angle
+      const dx = ox + 0.5 - newW / 2;
+      const dy = oy + 0.5 - newH / 2;
+      const sx = dx * cos - dy * sin + w / 2 - 0.5;
+      const sy = dx * sin + dy * cos + h / 2 - 0.5;
+      const o = (oy * newW + ox) * 4;
+
+      if (sx < 0 || sy < 0 || sx > w - 1 || sy > h - 1) {
+        dst[o] = dst[o + 1] = dst[o + 2] = dst[o + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(w - 1, x0 + 1), y1 = Math.min(h - 1, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * w + x0) * 4, i10 = (y0 * w + x1) * 4;
+      const i01 = (y1 * w + x0) * 4, i11 = (y1 * w + x1) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        dst[o + ch] = Math.round(
+          src[i00 + ch] * (1 - fx) * (1 - fy) + src[i10 + ch] * fx * (1 - fy)
+          + src[i01 + ch] * (1 - fx) * fy + src[i11 + ch] * fx * fy
+        );
+      }
+    }
+  }
+
+  console.log(`[Skew] Rotated image by ${(-angle).toFixed(1)}° (${w}x${h} → ${newW}x${newH})`);
+
+  return out;
+};
+
+// Apply skew correction to an image. Returns the corrected image and the angle removed.
+export const correctSkew = (image: PixelBuffer): { image: PixelBuffer; angle: number } => {
+  const angle = detectSkewAngle(toGrayscale(image), image.width, image.height);
+
+  if (Math.abs(angle) < 0.5) {
+    console.log('[Skew] No significant skew detected (< 0.5°)');
+    return { image, angle: 0 };
+  }
+
+  console.log(`[Skew] Correcting by ${angle.toFixed(2)}°`);
+  return { image: rotateImage(image, angle), angle };
+};
+
+// ─── IMAGE ENHANCEMENT: Adaptive brightness (white-level normalisation only) ───
+// Scales each pixel so the local paper-white maps to 245.
+//
+// KEY DESIGN DECISIONS to avoid the "blue inversion" artefact:
+//  1. Grid size is 96px — large enough that a tile containing mostly desk
+//     background still borrows the paper-white level from adjacent tiles via
+//     bilinear interpolation, instead of computing a tiny ~40 local white.
+//  2. safeWhite floor is 130 — we never divide by anything < 130, so even a
+//     tile that is 100% dark desk gets at most a 245/130 ≈ 1.88× boost,
+//     which is a gentle brightening rather than a wild 6× amplification.
+//  3. We use GRAYSCALE luminance (not max-channel) for the percentile sample
+//     so that a blue desk doesn't inflate only the blue reference level.
+export const enhanceImage = (image: PixelBuffer): PixelBuffer => {
+  const w = image.width;
+  const h = image.height;
+
+  const out = createPixelBuffer(w, h);
+  out.data.set(image.data);
+  const d = out.data;
+
+  // Build a luminance (grayscale) plane for percentile sampling only.
+  // This ensures a blue/coloured background doesn't skew a single channel.
+  const lum = toGrayscale(image);
+
+  // Large grid so dark-background tiles get a sensible white level from neighbours
+  const gridSize = 96;
+  const gW = Math.ceil(w / gridSize);
+  const gH = Math.ceil(h / gridSize);
+  const gridWhite = new Float32Array(gW * gH);
+
+  for (let gy = 0; gy < gH; gy++) {
+    for (let gx = 0; gx < gW; gx++) {
+      const samples: number[] = [];
+      const y1 = gy * gridSize, y2 = Math.min(h, (gy + 1) * gridSize);
+      const x1 = gx * gridSize, x2 = Math.min(w, (gx + 1) * gridSize);
+      for (let py = y1; py < y2; py += 3) {
+        for (let px = x1; px < x2; px += 3) {
+          samples.push(lum[py * w + px]);
+        }
+      }
+      samples.sort((a, b) => a - b);
+      // 90th percentile of luminance → local paper-white estimate
+      gridWhite[gy * gW + gx] = samples.length > 0
+        ? samples[Math.floor(samples.length * 0.90)]
+        : 200;
+    }
+  }
+
+  // Bilinear interpolation across grid cells
+  for (let py = 0; py < h; py++) {
+    for (let px = 0; px < w; px++) {
+      const gxf = px / gridSize - 0.5;
+      const gyf = py / gridSize - 0.5;
+      const gx0 = Math.max(0, Math.floor(gxf));
+      const gy0 = Math.max(0, Math.floor(gyf));
+      const gx1 = Math.min(gW - 1, gx0 + 1);
+      const gy1 = Math.min(gH - 1, gy0 + 1);
+      const fx = Math.max(0, Math.min(1, gxf - gx0));
+      const fy = Math.max(0, Math.min(1, gyf - gy0));
+
+      const w00 = gridWhite[gy0 * gW + gx0];
+      const w10 = gridWhite[gy0 * gW + gx1];
+      const w01 = gridWhite[gy1 * gW + gx0];
+      const w11 = gridWhite[gy1 * gW + gx1];
+      const localWhite = w00 * (1 - fx) * (1 - fy) + w10 * fx * (1 - fy)
+                       + w01 * (1 - fx) * fy        + w11 * fx * fy;
+
+      // Floor at 130: caps boost at ~1.88× even for fully-dark tiles.
+      // This prevents the blue-inversion artefact on dark desk backgrounds.
+      const safeWhite = Math.max(130, localWhite);
+      const scale = 245 / safeWhite;
+
+      const i = (py * w + px) * 4;
+      d[i]     = Math.min(255, Math.round(d[i]     * scale));
+      d[i + 1] = Math.min(255, Math.round(d[i + 1] * scale));
+      d[i + 2] = Math.min(255, Math.round(d[i + 2] * scale));
+    }
+  }
+
+  console.log(`[Enhance] Adaptive brightness done: ${w}x${h}, grid=${gridSize}px, safeWhiteFloor=130`);
+  return out;
+};
+
+// ─── CORNER MARKER DETECTION ───
+// Finds the 4 black alignment squares printed at the corners of every answer sheet.
+//
+// CHALLENGE: The paper may not fill the entire image — there can be dark desk/background
+// around the paper edges. The detector must find markers ON THE PAPER, not at image edges.
+//
+// IMPORTANT FOR 100-ITEM: The bottom markers are at ~75% of page height (Y=222 on 297mm page),
+// NOT at the page bottom. The marker frame aspect ratio is 197/215.5 ≈ 0.91 (wider than tall).
+//
+// STRATEGY:
+//   1. Scan the ENTIRE image for dark, uniform, square-shaped regions
+//   2. Require bright PAPER background around each candidate (rejects desk edges/shadows)
+//   3. Collect ALL good candidates across the whole image
+//   4. Pick the 4 candidates that form the best axis-aligned rectangle
+//      (top-left-most, top-right-most, bottom-left-most, bottom-right-most)
+//   5. For 100-item templates, prefer rectangles where bottom markers are at ~75% of image height
+export const findCornerMarkers = (
+  grayscale: Uint8Array,
+  width: number,
+  height: number,
+  templateType?: TemplateType
+): MarkerDetection => {
+  // Build integral image for fast region-sum queries
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += grayscale[y * width + x];
+      integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum;
+    }
+  }
+
+  // Fast average brightness of a rectangle using integral image
+  const rectAvg = (x1: number, y1: number, x2: number, y2: number): number => {
+    x1 = Math.max(0, Math.floor(x1));
+    y1 = Math.max(0, Math.floor(y1));
+    x2 = Math.min(width, Math.floor(x2));
+    y2 = Math.min(height, Math.floor(y2));
+    const area = (x2 - x1) * (y2 - y1);
+    if (area <= 0) return 255;
+    const sum = integral[y2 * (width + 1) + x2] - integral[y1 * (width + 1) + x2]
+               - integral[y2 * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
+    return sum / area;
+  };
+
+  // Estimate marker size based on image width.
+  // Paper may not fill the entire image, so use a conservative estimate.
+  // Real marker is 7mm on a 210mm page → 3.3% of page width.
+  // If the paper fills 50-90% of the image, marker is 1.7-3% of image width.
+  // Try sizes from ~1.5% to ~4% of image width.
+  const baseSize = Math.round(width * 0.025); // ~2.5% of image width
+  const sizes = [
+    Math.max(8, Math.round(baseSize * 0.5)),
+    Math.max(10, Math.round(baseSize * 0.7)),
+    Math.max(12, baseSize),
+    Math.round(baseSize * 1.3),
+    Math.round(baseSize * 1.6),
+    Math.round(baseSize * 2.0),
+  ];
+
+  console.log(`[OMR] Marker search: image=${width}x${height}, baseSize=${baseSize}px, sizes=[${sizes.join(',')}]`);
+
+  // ── PHASE 1: Collect ALL dark square candidates across the ENTIRE image ──
+  interface MarkerCandidate {
+    x: number;
+    y: number;
+    score: number;
+    size: number;
+  }
+
+  const candidates: MarkerCandidate[] = [];
+
+  for (const size of sizes) {
+    const half = Math.floor(size / 2);
+    // Use 1/3 of marker size as step — finer than before (was 1/2) so we don't
+    // accidentally stride over a marker that sits between two step positions.
+    const step = Math.max(2, Math.floor(size / 3));
+
+    for (let cy = half + 2; cy < height - half - 2; cy += step) {
+      for (let cx = half + 2; cx < width - half - 2; cx += step) {
+        // Interior brightness (the marker itself — must be dark)
+        const innerAvg = rectAvg(cx - half, cy - half, cx + half, cy + half);
+        if (innerAvg > 80) continue;
+
+        // Uniformity: all 4 quadrants must be consistently dark
+        const q1 = rectAvg(cx - half, cy - half, cx, cy);
+        const q2 = rectAvg(cx, cy - half, cx + half, cy);
+        const q3 = rectAvg(cx - half, cy, cx, cy + half);
+        const q4 = rectAvg(cx, cy, cx + half, cy + half);
+        const qMax = Math.max(q1, q2, q3, q4);
+        const qMin = Math.min(q1, q2, q3, q4);
+        if (qMax - qMin > 50) continue; // Not uniform → not a solid square
+
+        // CRITICAL: The surrounding area must be BRIGHT (paper, not desk)
+        // Sample a ring 1.5-3× the marker size around it
+        const ringInner = Math.floor(half * 1.5);
+        const ringOuter = Math.floor(half * 3);
+        
+        // Check all 4 sides for brightness
+        // Corner markers sit near the paper edge, so 1-2 sides may extend into
+        // dark desk/background. We require at least 2 of 4 sides to be bright paper.
+        // This still rejects desk-edge shadows (0 bright sides) while allowing
+        // real markers that are near paper edges.
+        const topRing = rectAvg(cx - ringOuter, cy - ringOuter, cx + ringOuter, cy - ringInner);
+        const botRing = rectAvg(cx - ringOuter, cy + ringInner, cx + ringOuter, cy + ringOuter);
+        const leftRing = rectAvg(cx - ringOuter, cy - ringInner, cx - ringInner, cy + ringInner);
+        const rightRing = rectAvg(cx + ringInner, cy - ringInner, cx + ringOuter, cy + ringInner);
+        
+        const brightThreshold = 150; // Paper should be bright
+        const brightSides = (topRing > brightThreshold ? 1 : 0) +
+                            (botRing > brightThreshold ? 1 : 0) +
+                            (leftRing > brightThreshold ? 1 : 0) +
+                            (rightRing > brightThreshold ? 1 : 0);
+        
+        // At least 2 of 4 sides must have bright paper background
+        // (corner markers near paper edges may have desk on 2 sides)
+        if (brightSides < 2) continue;
+
+        // Border brightness: average of the ring
+        const borderAvg = (topRing + botRing + leftRing + rightRing) / 4;
+        const contrast = borderAvg - innerAvg;
+        if (contrast < 60) continue;
+
+        // Score: contrast × size bonus (larger markers score higher)
+        const sizeBonus = size / baseSize;
+        const score = contrast * sizeBonus;
+
+        candidates.push({ x: cx, y: cy, score, size });
+      }
+    }
+  }
+
+  console.log(`[OMR] Found ${candidates.length} marker candidates`);
+
+  // Remove overlapping candidates (keep highest score within each cluster)
+  candidates.sort((a, b) => b.score - a.score);
+  const merged: MarkerCandidate[] = [];
+  const mergeRadius = baseSize * 2;
+  
+  for (const c of candidates) {
+    const tooClose = merged.some(m => 
+      Math.abs(m.x - c.x) < mergeRadius && Math.abs(m.y - c.y) < mergeRadius
+    );
+    if (!tooClose) {
+      merged.push(c);
+    }
+  }
+
+  console.log(`[OMR] After merge: ${merged.length} unique candidates`);
+  for (const m of merged.slice(0, 8)) {
+    console.log(`[OMR]   candidate: (${Math.round(m.x)},${Math.round(m.y)}) score=${m.score.toFixed(0)} size=${m.size}`);
+  }
+
+  // ── PHASE 2: Select the 4 candidates that form the best rectangle ──
+  // For each candidate, compute which corner it would best serve based on position
+  if (merged.length < 4) {
+    console.log('[OMR] Not enough candidates, using fallback positions');
+    return {
+      found: false,
+      confidence: merged.length / 4, // 0-0.75 if some markers found
+      topLeft: { x: width * 0.1, y: height * 0.05 },
+      topRight: { x: width * 0.9, y: height * 0.05 },
+      bottomLeft: { x: width * 0.1, y: height * 0.85 },
+      bottomRight: { x: width * 0.9, y: height * 0.85 },
+    };
+  }
+
+  // ── Edge-proximity filter for ALL template types ──
+  // Corner alignment markers must be near the edges of the captured image.
+  // This is the single most effective way to reject interior section markers (■)
+  // that also happen to look like dark squares surrounded by bright paper.
+  //
+  // How tight to make the margin depends on how much of the image the paper fills:
+  //   20-item  guide = 75% frame width  → paper corners in outer ~12% of image
+  //   50-item  guide = 55% frame width  → paper corners in outer ~22% of image
+  //   100-item guide = 90% frame width  → paper corners in outer ~10% of image
+  //
+  // We use generous margins (2-2.5×) to accommodate rotation and alignment error:
+  //   20-item  → 28% margin  (2.3× the expected 12%)
+  //   50-item  → 32% margin  (1.5× the expected 22%)
+  //   100-item → 28% margin  (2.8× the expected 10%)
+  //
+  // A "corner candidate" must be near at least one LEFT/RIGHT edge AND at
+  // least one TOP/BOTTOM edge — so it occupies a corner quadrant of the image.
+  let filteredCandidates = merged;
+  {
+    const edgeMarginX = templateType === 50 ? width * 0.32 : width * 0.28;
+    const edgeMarginY = templateType === 50 ? height * 0.32 : height * 0.28;
+
+    const edgeFiltered = merged.filter(c => {
+      const nearH = c.x < edgeMarginX || c.x > width  - edgeMarginX;
+      const nearV = c.y < edgeMarginY || c.y > height - edgeMarginY;
+      return nearH && nearV;
+    });
+
+    console.log(`[OMR] Edge filter (${templateType}-item): ${merged.length} → ${edgeFiltered.length} candidates`);
+
+    // Only apply if we still have at least 4 candidates
+    if (edgeFiltered.length >= 4) {
+      filteredCandidates = edgeFiltered;
+    } else {
+      console.log('[OMR] Edge filter too aggressive, keeping all candidates');
+    }
+  }
+
+  // Try all combinations of 4 candidates (limit to top 12 to keep it fast)
+  const topN = filteredCandidates.slice(0, 12);
+  let bestCombo: { tl: MarkerCandidate; tr: MarkerCandidate; bl: MarkerCandidate; br: MarkerCandidate } | null = null;
+  let bestRectScore = 0;
+
+  for (let i = 0; i < topN.length; i++) {
+    for (let j = i + 1; j < topN.length; j++) {
+      for (let k = j + 1; k < topN.length; k++) {
+        for (let l = k + 1; l < topN.length; l++) {
+          const pts = [topN[i], topN[j], topN[k], topN[l]];
+          
+          // Sort into corners: TL has smallest x+y, TR has largest x-y, etc.
+          const sorted = [...pts];
+          const tl = sorted.reduce((a, b) => (a.x + a.y < b.x + b.y ? a : b));
+          const br = sorted.reduce((a, b) => (a.x + a.y > b.x + b.y ? a : b));
+          const tr = sorted.reduce((a, b) => (a.x - a.y > b.x - b.y ? a : b));
+          const bl = sorted.reduce((a, b) => (a.y - a.x > b.y - b.x ? a : b));
+          
+          // All 4 must be different candidates
+          const ids = new Set([tl, tr, bl, br]);
+          if (ids.size < 4) continue;
+          
+          // Check that it forms a reasonable rectangle
+          const topW = tr.x - tl.x;
+          const botW = br.x - bl.x;
+          const leftH = bl.y - tl.y;
+          const rightH = br.y - tr.y;
+          
+          // All dimensions must be positive and significant
+          if (topW < width * 0.2 || botW < width * 0.2) continue;
+          if (leftH < height * 0.2 || rightH < height * 0.2) continue;
+          
+          // Width ratio and height ratio should be close to 1
+          const wRatio = Math.min(topW, botW) / Math.max(topW, botW);
+          const hRatio = Math.min(leftH, rightH) / Math.max(leftH, rightH);
+          if (wRatio < 0.85 || hRatio < 0.85) continue;
+          
+          // Aspect ratio check - varies by template type
+          // 100-item: marker frame is 197mm wide x 215.5mm tall → aspect ≈ 0.91
+          // 20/50-item: marker frame is more square-ish
+          const avgW = (topW + botW) / 2;
+          const avgH = (leftH + rightH) / 2;
+          const aspect = avgW / avgH;
+          
+          // For 100-item, the marker frame aspect ratio is ~0.91 (fw/fh = 197/215.5)
+          // Enforce stricter aspect ratio for 100-item templates
+          if (templateType === 100) {
+            // 100-item should have aspect ratio 0.7-1.1 (allowing for rotation/perspective)
+            if (aspect < 0.7 || aspect > 1.1) continue;
+          } else {
+            // Other templates: allow wider range
+            if (aspect < 0.4 || aspect > 2.0) continue;
+          }
+          
+          // Left edges should be roughly aligned (TL.x ≈ BL.x)
+          const leftXDiff = Math.abs(tl.x - bl.x) / avgW;
+          const rightXDiff = Math.abs(tr.x - br.x) / avgW;
+          const topYDiff = Math.abs(tl.y - tr.y) / avgH;
+          const botYDiff = Math.abs(bl.y - br.y) / avgH;
+          // Allow more skew tolerance (up to 15% instead of 8%)
+          if (leftXDiff > 0.15 || rightXDiff > 0.15 || topYDiff > 0.15 || botYDiff > 0.15) continue;
+          
+          // ── Scoring ──
+          // Primary driver: area of the rectangle (larger = more likely to be
+          // the true outer corner markers, not inner section squares).
+          // Multiply by individual marker quality and rectangle regularity.
+          const rectQuality = wRatio * hRatio;
+          const areaFraction = (avgW * avgH) / (width * height); // 0–1
+
+          // For 100-item templates, add aspect ratio bonus
+          let aspectBonus = 1.0;
+          if (templateType === 100) {
+            const expectedAspect = 0.91;
+            const aspectDiff = Math.abs(aspect - expectedAspect);
+            aspectBonus = Math.max(0.5, 1.0 - aspectDiff);
+          }
+
+          // Position bonus for 100-item (bottom markers not at very bottom)
+          let positionBonus = 1.0;
+          if (templateType === 100) {
+            const bottomY = (bl.y + br.y) / 2;
+            const topY2   = (tl.y + tr.y) / 2;
+            const frameHeightRatio = (bottomY - topY2) / height;
+            const bottomYRatio     = bottomY / height;
+            if (bottomYRatio > 0.95)      positionBonus = 0.3;
+            else if (bottomYRatio < 0.50) positionBonus = 0.5;
+            else if (frameHeightRatio < 0.35) positionBonus = 0.4;
+            else positionBonus = 1.0 + frameHeightRatio * 0.5;
+          }
+
+          // Area is raised to the power of 2 so that a rectangle that is 10%
+          // larger in each dimension (21% more area) scores ~44% better,
+          // strongly preferring the outermost (correct) corner markers.
+          const totalScore = (tl.score + tr.score + bl.score + br.score)
+            * rectQuality
+            * Math.pow(areaFraction, 2)
+            * positionBonus
+            * aspectBonus;
+          
+          if (totalScore > bestRectScore) {
+            bestRectScore = totalScore;
+            bestCombo = { tl, tr, bl, br };
+          }
+        }
+      }
+    }
+  }
+
+  if (bestCombo) {
+    // Pixel-level refinement for each marker
+    const refineMarker = (c: MarkerCandidate): { x: number; y: number } => {
+      const half = Math.floor(c.size / 2);
+      const refineR = Math.max(4, Math.floor(c.size / 3));
+      let bestX = c.x, bestY = c.y, bestScore = 0;
+
+      for (let cy = c.y - refineR; cy <= c.y + refineR; cy++) {
+        for (let cx = c.x - refineR; cx <= c.x + refineR; cx++) {
+          if (cx - half < 0 || cx + half >= width || cy - half < 0 || cy + half >= height) continue;
+          const innerAvg = rectAvg(cx - half, cy - half, cx + half, cy + half);
+          if (innerAvg > 80) continue;
+          
+          const ringInner = Math.floor(half * 1.5);
+          const ringOuter = Math.floor(half * 3);
+          const topRing = rectAvg(cx - ringOuter, cy - ringOuter, cx + ringOuter, cy - ringInner);
+          const botRing = rectAvg(cx - ringOuter, cy + ringInner, cx + ringOuter, cy + ringOuter);
+          const leftRing = rectAvg(cx - ringOuter, cy - ringInner, cx - ringInner, cy + ringInner);
+          const rightRing = rectAvg(cx + ringInner, cy - ringInner, cx + ringOuter, cy + ringInner);
+          const borderAvg = (topRing + botRing + leftRing + rightRing) / 4;
+          
+          const score = borderAvg - innerAvg;
+          if (score > bestScore) {
+            bestScore = score;
+            bestX = cx;
+            bestY = cy;
+          }
+        }
+      }
+      return { x: bestX, y: bestY };
+    };
+
+    const tl = refineMarker(bestCombo.tl);
+    const tr = refineMarker(bestCombo.tr);
+    const bl = refineMarker(bestCombo.bl);
+    const br = refineMarker(bestCombo.br);
+
+    console.log(`[OMR] Selected rectangle: TL=(${Math.round(tl.x)},${Math.round(tl.y)}) TR=(${Math.round(tr.x)},${Math.round(tr.y)}) BL=(${Math.round(bl.x)},${Math.round(bl.y)}) BR=(${Math.round(br.x)},${Math.round(br.y)}) rectScore=${bestRectScore.toFixed(0)}`);
+
+    // Calculate confidence based on rectangle quality and individual marker scores
+    // Normalize score: typical good score is 5000-20000, max out at ~1.0
+    const avgMarkerScore = (bestCombo.tl.score + bestCombo.tr.score + bestCombo.bl.score + bestCombo.br.score) / 4;
+    const normalizedMarkerScore = Math.min(1, avgMarkerScore / 200);
+    
+    // Check rectangle quality metrics
+    const topW = tr.x - tl.x;
+    const botW = br.x - bl.x;
+    const leftH = bl.y - tl.y;
+    const rightH = br.y - tr.y;
+    const wRatio = Math.min(topW, botW) / Math.max(topW, botW);
+    const hRatio = Math.min(leftH, rightH) / Math.max(leftH, rightH);
+    const rectQuality = wRatio * hRatio;
+    
+    const confidence = Math.min(1, normalizedMarkerScore * rectQuality * 1.2);
+    console.log(`[OMR] Marker confidence: ${(confidence * 100).toFixed(1)}% (markerScore=${avgMarkerScore.toFixed(0)}, rectQuality=${rectQuality.toFixed(2)})`);
+
+    return {
+      found: true,
+      confidence,
+      topLeft: tl,
+      topRight: tr,
+      bottomLeft: bl,
+      bottomRight: br,
+    };
+  }
+
+  // Fallback: pick the 4 candidates closest to each corner
+  console.log('[OMR] No valid rectangle found, using corner-closest fallback');
+  const pickClosest = (targetX: number, targetY: number) => {
+    let best = merged[0];
+    let bestDist = Infinity;
+    for (const c of merged) {
+      const dist = Math.sqrt(Math.pow(c.x - targetX, 2) + Math.pow(c.y - targetY, 2));
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = c;
+      }
+    }
+    return { x: best.x, y: best.y };
+  };
+
+  return {
+    found: false,
+    confidence: 0.3, // Low confidence for fallback
+    topLeft: pickClosest(0, 0),
+    topRight: pickClosest(width, 0),
+    bottomLeft: pickClosest(0, height),
+    bottomRight: pickClosest(width, height),
+  };
+};
+
+// ─── COORDINATE MAPPING ───
+export const mapToPixel = (
+  markers: CornerMarkers,
+  nx: number,
+  ny: number
+): { px: number; py: number } => {
+  const topX = markers.topLeft.x + nx * (markers.topRight.x - markers.topLeft.x);
+  const topY = markers.topLeft.y + nx * (markers.topRight.y - markers.topLeft.y);
+  const botX = markers.bottomLeft.x + nx * (markers.bottomRight.x - markers.bottomLeft.x);
+  const botY = markers.bottomLeft.y + nx * (markers.bottomRight.y - markers.bottomLeft.y);
+  return {
+    px: topX + ny * (botX - topX),
+    py: topY + ny * (botY - topY),
+  };
+};
+
+// ─── TEMPLATE LAYOUT ───
+// Marker-relative coordinates derived from a SheetTemplateDefinition (see
+// lib/sheetTemplates.ts): (0, 0) is the top-left marker centre, (1, 1) the bottom-right.
+export interface AnswerBlock {
+  startQ: number;
+  endQ: number;
+  firstBubbleNX: number;
+  firstBubbleNY: number;
+  bubbleSpacingNX: number;
+  rowSpacingNY: number;
+}
+
+export interface TemplateLayout {
+  id: {
+    digits: number;
+    firstColNX: number;
+    firstRowNY: number;
+    colSpacingNX: number;
+    rowSpacingNY: number;
+    bubbleDiameterNX: number;
+    bubbleDiameterNY: number;
+  };
+  answerBlocks: AnswerBlock[];
+  // Horizontal "Set" row (A, B, C …), printed only for multi-set exams
+  examSet: {
+    firstNX: number;
+    firstNY: number;
+    spacingNX: number;
+  };
+  bubbleDiameterNX: number;
+  bubbleDiameterNY: number;
+}
+
+/** Layout of the built-in 20/50/100-item sheet used when an exam has no template */
+export const getTemplateLayout = (numQuestions: number): TemplateLayout => {
+  return toTemplateLayout(getBuiltInTemplate(numQuestions));
+};
+
+// ─── BUBBLE SAMPLING (grayscale-based) ───
+// Returns a WEIGHTED MEAN BRIGHTNESS of the bubble interior (0-255).
+// LOWER value = DARKER = MORE LIKELY FILLED.
+//
+// Strategy:
+//  • Sample the inner 65% of the bubble radius (avoids the printed circle outline).
+//  • Weight pixels with a 2D Gaussian centred on the bubble centre so that
+//    a pencil mark anywhere inside — even if only at the centre — is detected,
+//    while edge noise from the printed circle is down-weighted.
+//  • Minimum-pool: return the min of the weighted mean and the darkest 10th-
+//    percentile brightness so that a small but very dark mark is not averaged away.
+export const sampleBubbleAt = (
+  grayscale: Uint8Array,
+  imgW: number,
+  imgH: number,
+  cx: number,
+  cy: number,
+  radiusX: number,
+  radiusY: number
+): number => {
+  const innerRX = radiusX * 0.65;
+  const innerRY = radiusY * 0.65;
+  // Gaussian σ = half the inner radius; weight falls to ~14% at the edge
+  const sigX = innerRX * 0.5;
+  const sigY = innerRY * 0.5;
+  const step = Math.max(1, Math.floor(Math.min(innerRX, innerRY) / 5));
+
+  let wSum = 0, sum = 0;
+  const samples: number[] = [];
+
+  for (let dy = -Math.ceil(innerRY); dy <= Math.ceil(innerRY); dy += step) {
+    for (let dx = -Math.ceil(innerRX); dx <= Math.ceil(innerRX); dx += step) {
+      if (innerRX > 0 && innerRY > 0 &&
+          (dx * dx) / (innerRX * innerRX) + (dy * dy) / (innerRY * innerRY) > 1) continue;
+      const px = Math.round(cx + dx);
+      const py = Math.round(cy + dy);
+      if (px < 0 || px >= imgW || py < 0 || py >= imgH) continue;
+      const val = grayscale[py * imgW + px];
+      // Gaussian weight (higher at centre, tapering to edges)
+      const w = Math.exp(-0.5 * ((dx * dx) / (sigX * sigX + 1) + (dy * dy) / (sigY * sigY + 1)));
+      sum += val * w;
+      wSum += w;
+      samples.push(val);
+    }
+  }
+
+  if (wSum === 0) return 255;
+
+  const weightedMean = sum / wSum;
+
+  // Also compute the 10th-percentile brightness (darkest 10% of sampled pixels)
+  // so that a small but solidly-filled centre patch is not diluted.
+  samples.sort((a, b) => a - b);
+  const p10 = samples.length > 0 ? samples[Math.floor(samples.length * 0.10)] : 255;
+
+  // Return the lower (darker) of the two — catches both large-area fills and
+  // concentrated centre-only fills (e.g. short pencil strokes).
+  return Math.min(weightedMean, p10 * 0.85 + weightedMean * 0.15);
+};
+
+// ─── DETECT STUDENT ID ───
+// sampleBubbleAt returns RAW BRIGHTNESS (0-255): lower = darker = filled.
+// For each ID column (one per printed digit, rows 0-9), we find the DARKEST bubble.
+// Detection uses a robust approach:
+//   1. The darkest must be significantly darker than the MEDIAN of all 10 bubbles
+//   2. We use the gap between darkest and 2nd-darkest as additional confidence
+export const detectStudentIdFromImage = (
+  grayscale: Uint8Array,
+  width: number,
+  height: number,
+  markers: CornerMarkers,
+  layout: TemplateLayout
+): StudentIdDetection => {
+  const { id } = layout;
+  const idDigits: number[] = [];
+  const doubleShadeColumns: number[] = [];
+  const darkness: number[][] = [];
+
+  const frameW = markers.topRight.x - markers.topLeft.x;
+  const frameH = markers.bottomLeft.y - markers.topLeft.y;
+
+  // ID bubbles are printed slightly smaller than answer bubbles
+  const idBubbleRX = (id.bubbleDiameterNX * frameW) / 2;
+  const idBubbleRY = (id.bubbleDiameterNY * frameH) / 2;
+
+  console.log('[ID] BubbleR:', idBubbleRX.toFixed(1), 'x', idBubbleRY.toFixed(1));
+
+  // Log the pixel position of the first and last ID bubbles for visual verification
+  const firstIdPx = mapToPixel(markers, id.firstColNX, id.firstRowNY);
+  const lastIdPx = mapToPixel(markers, id.firstColNX + (id.digits - 1) * id.colSpacingNX, id.firstRowNY + 9 * id.rowSpacingNY);
+  console.log(`[ID] First bubble px=(${Math.round(firstIdPx.px)},${Math.round(firstIdPx.py)}), Last bubble px=(${Math.round(lastIdPx.px)},${Math.round(lastIdPx.py)})`);
+  console.log(`[ID] Frame: TL=(${Math.round(markers.topLeft.x)},${Math.round(markers.topLeft.y)}) BR=(${Math.round(markers.bottomRight.x)},${Math.round(markers.bottomRight.y)}) size=${Math.round(frameW)}x${Math.round(frameH)}`);
+
+  // One column per printed ID digit
+  for (let col = 0; col < id.digits; col++) {
+    const fills: number[] = []; // raw brightness values (lower = darker)
+
+    for (let row = 0; row < 10; row++) {
+      const nx = id.firstColNX + col * id.colSpacingNX;
+      const ny = id.firstRowNY + row * id.rowSpacingNY;
+      const { px, py } = mapToPixel(markers, nx, ny);
+      const brightness = sampleBubbleAt(grayscale, width, height, px, py, idBubbleRX, idBubbleRY);
+      fills.push(brightness);
+    }
+    darkness.push(fills.map(toDarkness));
+
+    // Sort ascending — lowest brightness = darkest = most filled
+    const sorted = [...fills].sort((a, b) => a - b);
+    const darkest = sorted[0];     // most filled
+    const secondDark = sorted[1];  // second most filled
+    // Use the upper quartile (index 7) as the "unfilled" reference
+    // This is more robust than median — unfilled bubbles should be bright
+    const upperQ = sorted[7];
+
+    let detectedDigit: number | null = null; // null means no detection (unshaded column)
+    let hasDetection = false;
+
+    // ── Detection thresholds (calibrated for Gaussian-weighted sampler) ──
+    //
+    // sampleBubbleAt now returns a Gaussian-weighted mean blended with the p10
+    // darkest sample, so filled bubbles appear darker than before.
+    //
+    // Tier 1 – Strong fill (clear dark mark):
+    //   darkest < 68% of upper-quartile reference  → definite fill
+    // Tier 2 – Light fill (light pencil / faded ink):
+    //   darkest < 82% of upper-quartile  AND  gap to 2nd > 12% of reference
+    //   → probably intentional (stands out from neighbours)
+    const darkRatio = upperQ > 20 ? darkest / upperQ : 1;
+    const gapFromSecond = secondDark - darkest;
+    const gapRatio = upperQ > 20 ? gapFromSecond / upperQ : 0;
+
+    if (darkRatio < 0.68) {
+      detectedDigit = fills.indexOf(darkest);
+      hasDetection = true;
+    } else if (darkRatio < 0.82 && gapRatio > 0.12) {
+      detectedDigit = fills.indexOf(darkest);
+      hasDetection = true;
+    }
+
+    if (hasDetection && detectedDigit !== null) {
+      // Double-shade: 2nd-darkest is also quite dark AND close to darkest
+      const secondRatio = upperQ > 20 ? secondDark / upperQ : 1;
+      const gapBetweenTopTwo = upperQ > 20 ? gapFromSecond / upperQ : 1;
+      if (secondRatio < 0.76 && gapBetweenTopTwo < 0.09) {
+        doubleShadeColumns.push(col + 1);
+        console.log(`[ID] ⚠️ Col ${col} DOUBLE SHADE: darkest=${darkest.toFixed(0)} 2nd=${secondDark.toFixed(0)} upperQ=${upperQ.toFixed(0)}`);
+        idDigits.push(-2);
+        continue;
+      }
+    }
+
+    // NULL LOGIC: If no bubble is shaded, use -1 placeholder (not '0')
+    // This prevents unshaded columns from corrupting the ID (e.g., 9 digits → 10)
+    // The digit '0' should ONLY appear if the '0' bubble is actually shaded
+    const digitChar = hasDetection && detectedDigit !== null ? String(detectedDigit) : '_';
+    
+    console.log(`[ID] Col ${col}: brightness=[${fills.map(f => f.toFixed(0)).join(',')}] → ${digitChar} (darkest=${darkest.toFixed(0)} upperQ=${upperQ.toFixed(0)} ratio=${darkRatio.toFixed(2)} gap=${gapRatio.toFixed(2)})`);
+    idDigits.push(hasDetection && detectedDigit !== null ? detectedDigit : -1); // -1 = unshaded, -2 = double-shade
+  }
+
+  // Convert digits to string, using '_' for unshaded (-1) and '?' for double-shade (-2)
+  // Then strip placeholders and return only the cleanly detected digits
+  const rawWithPlaceholders = idDigits.map(d => d === -1 ? '_' : d === -2 ? '?' : String(d)).join('');
+  
+  // For the final ID, exclude both unshaded (-1) and double-shaded (-2) columns
+  const cleanId = idDigits.filter(d => d >= 0).map(d => String(d)).join('');
+  
+  console.log('[ID] Raw with placeholders:', rawWithPlaceholders);
+  console.log('[ID] Clean ID:', cleanId, cleanId.length, 'digits', doubleShadeColumns.length > 0 ? `(double-shade: cols ${doubleShadeColumns.join(',')})` : '');
+  
+  // Return both the clean ID and the raw digit array for UI display
+  return { studentId: cleanId, doubleShadeColumns, rawIdDigits: idDigits, darkness };
+};
+
+// ─── DETECT EXAM SET ───
+// Same relative test as an answer row: the darkest Set bubble wins when it stands
+// out from the brightest one. With only two sets both shaded reads as blank, which
+// the scanner treats the same as a missing set.
+export const detectExamSetFromImage = (
+  grayscale: Uint8Array,
+  width: number,
+  height: number,
+  markers: CornerMarkers,
+  layout: TemplateLayout,
+  numSets: number
+): ExamSetDetection => {
+  if (numSets < 2) return { examSet: '', doubleShade: false, darkness: [] };
+
+  const labels = 'ABCDE'.slice(0, numSets).split('');
+  const frameW = markers.topRight.x - markers.topLeft.x;
+  const frameH = markers.bottomLeft.y - markers.topLeft.y;
+  const bubbleRX = (layout.bubbleDiameterNX * frameW) / 2;
+  const bubbleRY = (layout.bubbleDiameterNY * frameH) / 2;
+
+  const fills = labels.map((label, i) => {
+    const { px, py } = mapToPixel(
+      markers,
+      layout.examSet.firstNX + i * layout.examSet.spacingNX,
+      layout.examSet.firstNY
+    );
+    return { label, brightness: sampleBubbleAt(grayscale, width, height, px, py, bubbleRX, bubbleRY) };
+  });
+
+  const sorted = [...fills].sort((a, b) => a.brightness - b.brightness);
+  const darkest = sorted[0].brightness;
+  const secondDark = sorted[1].brightness;
+  const ref = sorted[sorted.length - 1].brightness;
+  const darkRatio = ref > 20 ? darkest / ref : 1;
+  const gapRatio = ref > 20 ? (secondDark - darkest) / ref : 0;
+
+  let examSet = '';
+  if (darkRatio < 0.68 || (darkRatio < 0.82 && gapRatio > 0.12)) {
+    examSet = sorted[0].label;
+  }
+
+  const secondRatio = ref > 20 ? secondDark / ref : 1;
+  const doubleShade = !!examSet && secondRatio < 0.76 && gapRatio < 0.09;
+
+  console.log(`[SET] ${fills.map(f => `${f.label}=${f.brightness.toFixed(0)}`).join(', ')} → ${examSet || '?'}${doubleShade ? ' (double-shade)' : ''}`);
+
+  return {
+    examSet: doubleShade ? '' : examSet,
+    doubleShade,
+    darkness: fills.map(f => toDarkness(f.brightness)),
+  };
+};
+
+// ─── DETECT ANSWERS ───
+// sampleBubbleAt returns RAW BRIGHTNESS (0-255): lower = darker = filled.
+// For each question, the darkest choice wins if it's sufficiently darker than the rest.
+// Uses the BRIGHTEST bubble in the row as the "unfilled" reference — this is more
+// robust than using a median when there are only 4-5 choices.
+export const detectAnswersFromImage = (
+  grayscale: Uint8Array,
+  width: number,
+  height: number,
+  markers: CornerMarkers,
+  layout: TemplateLayout,
+  numQuestions: number,
+  choicesPerQuestion: number
+): AnswerDetection => {
+  const answers = new Array<string>(numQuestions).fill('');
+  const multipleAnswers: number[] = [];
+  const bubbleHits: BubbleHit[] = [];
+  const darkness: number[][] = Array.from({ length: numQuestions }, () => []);
+  const confidence = new Array<number>(numQuestions).fill(1);
+  const choiceLabels = 'ABCDEFGH'.slice(0, choicesPerQuestion).split('');
+
+  const frameW = markers.topRight.x - markers.topLeft.x;
+  const frameH = markers.bottomLeft.y - markers.topLeft.y;
+  const bubbleRX = (layout.bubbleDiameterNX * frameW) / 2;
+  const bubbleRY = (layout.bubbleDiameterNY * frameH) / 2;
+
+  console.log(`[ANS] Frame: ${Math.round(frameW)}x${Math.round(frameH)}px, BubbleR: ${bubbleRX.toFixed(1)}x${bubbleRY.toFixed(1)}px`);
+
+  for (const block of layout.answerBlocks) {
+    const firstPx = mapToPixel(markers, block.firstBubbleNX, block.firstBubbleNY);
+    console.log(`[ANS] Block Q${block.startQ}-${block.endQ}: firstBubble px=(${Math.round(firstPx.px)},${Math.round(firstPx.py)})`);
+
+    for (let q = block.startQ; q <= block.endQ && q <= numQuestions; q++) {
+      const qIndex = q - 1;
+      const rowInBlock = q - block.startQ;
+
+      const fills: { choice: string; brightness: number; px: number; py: number }[] = [];
+
+      for (let c = 0; c < choicesPerQuestion; c++) {
+        const nx = block.firstBubbleNX + c * block.bubbleSpacingNX;
+        const ny = block.firstBubbleNY + rowInBlock * block.rowSpacingNY;
+        const { px, py } = mapToPixel(markers, nx, ny);
+        const brightness = sampleBubbleAt(grayscale, width, height, px, py, bubbleRX, bubbleRY);
+        fills.push({ choice: choiceLabels[c], brightness, px, py });
+      }
+      darkness[qIndex] = fills.map(f => toDarkness(f.brightness));
+      confidence[qIndex] = getAnswerConfidence(fills.map(f => f.brightness));
+
+      // Sort ASCENDING by brightness — darkest (most filled) first
+      const sorted = [...fills].sort((a, b) => a.brightness - b.brightness);
+      const darkest = sorted[0].brightness;
+      const secondDark = sorted.length >= 2 ? sorted[1].brightness : 255;
+      const brightest = sorted[sorted.length - 1].brightness;
+
+      let selectedChoice = '';
+
+      // Use the brightest bubble as the "unfilled" reference.
+      // For a row of N choices, at most 1 is filled — the brightest N-1 are unfilled.
+      const ref = brightest;
+      const darkRatio = ref > 20 ? darkest / ref : 1;
+      const gapFromSecond = secondDark - darkest;
+      const gapRatio = ref > 20 ? gapFromSecond / ref : 0;
+
+      // ── Detection tiers (Gaussian-weighted sampler) ──
+      // Tier 1 – Strong fill:   darkest < 68% of brightest  → definite mark
+      // Tier 2 – Light fill:    darkest < 82% of brightest  AND gap to 2nd > 12%
+      //          → intentional light mark (pen nearly dry, hard-pressure pencil, etc.)
+      if (darkRatio < STRONG_FILL_RATIO) {
+        selectedChoice = sorted[0].choice;
+      } else if (darkRatio < LIGHT_FILL_RATIO && gapRatio > LIGHT_FILL_GAP) {
+        selectedChoice = sorted[0].choice;
+      }
+
+      // Check for multiple answers (flag but still use darkest)
+      if (selectedChoice) {
+        const secondRatio = ref > 20 ? secondDark / ref : 1;
+        const gapBetweenTopTwo = ref > 20 ? gapFromSecond / ref : 1;
+        // Multiple answers: 2nd darkest is also quite dark (<76%) AND close to darkest (<9% gap)
+        if (secondRatio < MULTI_FILL_RATIO && gapBetweenTopTwo < MULTI_FILL_GAP) {
+          multipleAnswers.push(q);
+          console.log(`[MULTI] Q${q}: ${sorted.slice(0, 3).map(f => `${f.choice}=${f.brightness.toFixed(0)}`).join(', ')} ref=${ref.toFixed(0)}`);
+        }
+      }
+
+      // Log first few questions per block + last for debugging
+      if (q <= block.startQ + 2 || q === block.endQ) {
+        console.log(`[ANS] Q${q}: ${fills.map(f => `${f.choice}=${f.brightness.toFixed(0)}`).join(', ')} → ${selectedChoice || '?'} (darkRatio=${darkRatio.toFixed(2)} gapRatio=${gapRatio.toFixed(2)} ref=${ref.toFixed(0)})`);
+      }
+
+      answers[qIndex] = selectedChoice;
+
+      // Record bubble hit for overlay drawing
+      if (selectedChoice) {
+        const hit = fills.find(f => f.choice === selectedChoice);
+        if (hit) bubbleHits.push({ px: hit.px, py: hit.py, rx: bubbleRX, ry: bubbleRY, choice: selectedChoice, qIndex });
+      }
+    }
+  }
+  return { answers, multipleAnswers, bubbleHits, darkness, confidence };
+};
+
+// ─── MAIN DETECTION PIPELINE ───
+// Reads student ID and answers from an already-preprocessed image.
+export const detectBubbles = (
+  image: PixelBuffer,
+  numQuestions: number,
+  choicesPerQuestion: number,
+  examSets: number = 0,
+  template: SheetTemplateDefinition = getBuiltInTemplate(numQuestions)
+): Omit<OMRReadResult, 'skewAngle' | 'image' | 'sheetCode' | 'idSource'> => {
+  const { width, height } = image;
+
+  // 1. Convert to grayscale
+  const rawGrayscale = toGrayscale(image);
+
+  // 1b. Global contrast stretch (2nd–98th percentile) for bubble sampling.
+  // Simple and predictable — keeps paper white and ink black without the
+  // per-tile inversion artefact that per-tile CLAHE caused on dark backgrounds.
+  const sortSample: number[] = [];
+  const sampleStep = Math.max(1, Math.floor(rawGrayscale.length / 10000));
+  for (let i = 0; i < rawGrayscale.length; i += sampleStep) {
+    sortSample.push(rawGrayscale[i]);
+  }
+  sortSample.sort((a, b) => a - b);
+  const gMin = sortSample[Math.floor(sortSample.length * 0.02)];
+  const gMax = sortSample[Math.floor(sortSample.length * 0.98)];
+  const gRange = Math.max(1, gMax - gMin);
+
+  const grayscale = new Uint8Array(width * height);
+  for (let i = 0; i < rawGrayscale.length; i++) {
+    grayscale[i] = Math.max(0, Math.min(255,
+      Math.round(((rawGrayscale[i] - gMin) / gRange) * 255)
+    ));
+  }
+  console.log(`[OMR] Contrast stretch: min=${gMin} max=${gMax} range=${gRange}`);
+
+  // 2. Find corner alignment markers using RAW grayscale (before contrast normalization)
+  // This avoids shadows/noise being amplified into false marker candidates.
+  // Template type is needed up front for the position heuristics.
+  const templateType = getSheetType(template);
+
+  const markers = findCornerMarkers(rawGrayscale, width, height, templateType);
+  console.log('[OMR] Corner markers found:', markers.found,
+    'TL:', Math.round(markers.topLeft.x), Math.round(markers.topLeft.y),
+    'BR:', Math.round(markers.bottomRight.x), Math.round(markers.bottomRight.y),
+    'Template:', templateType);
+
+  // 3. Use found markers (even if geometry check failed, the positions are better than raw margins)
+  // Only fall back to image-edge margins if NO markers were found at all (all scores = 0)
+  const fallbackMargin = templateType === 100 ? 0.04 : 0.02;
+  const noMarkersAtAll = markers.topLeft.x === 0 && markers.topLeft.y === 0;
+  const effectiveMarkers: CornerMarkers = noMarkersAtAll
+    ? {
+        topLeft: { x: width * fallbackMargin, y: height * fallbackMargin },
+        topRight: { x: width * (1 - fallbackMargin), y: height * fallbackMargin },
+        bottomLeft: { x: width * fallbackMargin, y: height * (1 - fallbackMargin) },
+        bottomRight: { x: width * (1 - fallbackMargin), y: height * (1 - fallbackMargin) },
+      }
+    : {
+        topLeft: markers.topLeft,
+        topRight: markers.topRight,
+        bottomLeft: markers.bottomLeft,
+        bottomRight: markers.bottomRight,
+      };
+
+  // 4. Bubble positions of the printed sheet
+  const layout = toTemplateLayout(template);
+
+  // 5. Detect student ID and answers using GRAYSCALE for bubble sampling
+  const idResult = detectStudentIdFromImage(grayscale, width, height, effectiveMarkers, layout);
+  const answerResult = detectAnswersFromImage(
+    grayscale, width, height, effectiveMarkers, layout, numQuestions, choicesPerQuestion
+  );
+  const setResult = detectExamSetFromImage(grayscale, width, height, effectiveMarkers, layout, examSets);
+
+  return {
+    studentId: idResult.studentId,
+    rawIdDigits: idResult.rawIdDigits,
+    idDoubleShadeColumns: idResult.doubleShadeColumns,
+    idBubbleDarkness: idResult.darkness,
+    examSet: setResult.examSet,
+    examSetDoubleShade: setResult.doubleShade,
+    examSetDarkness: setResult.darkness,
+    answers: answerResult.answers,
+    multipleAnswers: answerResult.multipleAnswers,
+    bubbleDarkness: answerResult.darkness,
+    answerConfidence: answerResult.confidence,
+    bubbleHits: answerResult.bubbleHits,
+    markers: effectiveMarkers,
+    markersFound: markers.found,
+    confidence: noMarkersAtAll ? 0 : markers.confidence,
+    layout,
+  };
+};
+
+// Full pipeline: skew correction → brightness enhancement → bubble detection
+export const readAnswerSheet = (image: PixelBuffer, options: OMRReadOptions): OMRReadResult => {
+  let processed = image;
+  let skewAngle = 0;
+
+  if (options.preprocess !== false) {
+    // Step 1: Apply skew correction (handles rotated sheets up to ±30°)
+    const deskewed = correctSkew(image);
+    skewAngle = deskewed.angle;
+
+    // Step 2: Apply adaptive brightness enhancement (handles shadows / uneven lighting)
+    processed = enhanceImage(deskewed.image);
+  }
+
+  console.log(`[OMR] Processing image: ${processed.width}x${processed.height}`);
+
+  const detection = detectBubbles(processed, options.numQuestions, options.choicesPerQuestion, options.examSets, options.template);
+
+  // Pre-filled sheets carry the student in a QR code, which beats the shaded ID grid.
+  // Read from the original image: enhancement can break up the code's modules.
+  const sheetCode = options.examId ? readSheetCode(image) : null;
+  const fromCode = sheetCode && sheetCode.examId === options.examId ? sheetCode : null;
+  if (sheetCode) {
+    console.log(`[OMR] Sheet code: exam=${sheetCode.examId} student=${sheetCode.studentId} set=${sheetCode.examSet || '-'}${fromCode ? '' : ' (other exam, ignored)'}`);
+  }
+
+  return {
+    ...detection,
+    ...(options.idPolicy && {
+      studentId: fromGridDigits(detection.studentId, options.idPolicy),
+    }),
+    ...(fromCode && {
+      studentId: fromCode.studentId,
+      idDoubleShadeColumns: [],
+    }),
+    ...(fromCode?.examSet && {
+      examSet: fromCode.examSet,
+      examSetDoubleShade: false,
+    }),
+    sheetCode,
+    idSource: fromCode ? 'code' : 'bubbles',
+    skewAngle,
+    image: processed,
+  };
+};
+
+// ─── RECTIFICATION ───
+// Resamples the marker frame (plus a small margin) into an upright, axis-aligned image
+// so stored evidence can be overlaid with plain normalised coordinates. Uses the same
+// bilinear frame mapping as bubble sampling, so a bubble at (nx, ny) lands exactly where
+// the reader looked for it.
+export const rectifySheet = (
+  image: PixelBuffer,
+  markers: CornerMarkers,
+  outputWidth: number = 900,
+  margin: number = 0.06
+): { image: PixelBuffer; markers: CornerMarkers } => {
+  const { width: w, height: h, data: src } = image;
+
+  const frameW = ((markers.topRight.x - markers.topLeft.x) + (markers.bottomRight.x - markers.bottomLeft.x)) / 2;
+  const frameH = ((markers.bottomLeft.y - markers.topLeft.y) + (markers.bottomRight.y - markers.topRight.y)) / 2;
+  const aspect = frameW > 0 && frameH > 0 ? frameH / frameW : 1;
+
+  const outFrameW = outputWidth / (1 + 2 * margin);
+  const outFrameH = outFrameW * aspect;
+  const outW = Math.round(outputWidth);
+  const outH = Math.round(outFrameH * (1 + 2 * margin));
+  const offsetX = outFrameW * margin;
+  const offsetY = outFrameH * margin;
+
+  const out = createPixelBuffer(outW, outH);
+  const dst = out.data;
+
+  for (let oy = 0; oy < outH; oy++) {
+    for (let ox = 0; ox < outW; ox++) {
+      const { px, py } = mapToPixel(markers, (ox - offsetX) / outFrameW, (oy - offsetY) / outFrameH);
+      const o = (oy * outW + ox) * 4;
+
+      if (px < 0 || py < 0 || px > w - 1 || py > h - 1) {
+        dst[o] = dst[o + 1] = dst[o + 2] = dst[o + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.floor(px), y0 = Math.floor(py);
+      const x1 = Math.min(w - 1, x0 + 1), y1 = Math.min(h - 1, y0 + 1);
+      const fx = px - x0, fy = py - y0;
+      const i00 = (y0 * w + x0) * 4, i10 = (y0 * w + x1) * 4;
+      const i01 = (y1 * w + x0) * 4, i11 = (y1 * w + x1) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        dst[o + ch] = Math.round(
+          src[i00 + ch] * (1 - fx) * (1 - fy) + src[i10 + ch] * fx * (1 - fy)
+          + src[i01 + ch] * (1 - fx) * fy + src[i11 + ch] * fx * fy
+        );
+      }
+    }
+  }
+
+  return {
+    image: out,
+    markers: {
+      topLeft: { x: offsetX, y: offsetY },
+      topRight: { x: offsetX + outFrameW, y: offsetY },
+      bottomLeft: { x: offsetX, y: offsetY + outFrameH },
+      bottomRight: { x: offsetX + outFrameW, y: offsetY + outFrameH },
+    },
+  };
+};
+
+/** True when the marker frame is missing or too unreliable to trust the bubble positions */
+export const hasAlignmentIssue = (result: Pick<OMRReadResult, 'markersFound' | 'confidence'>): boolean => {
+  return !result.markersFound || result.confidence < MIN_MARKER_CONFIDENCE;
+};
@@ -0,0 +1,76 @@
+/**
+ * Owner Scope
+ * Reads the documents created by a set of users, for lists scoped by role
+ * (see getVisibleOwnerIds in src/lib/roles.ts). Filtering by owner in the query,
+ * not afterwards, is what lets firestore.rules allow the read.
+ */
+
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+
+const IN_QUERY_LIMIT = 30; // Firestore's limit for `in` filters
+
+/**
+ * Documents of `collectionName` whose `ownerField` is one of `owners`.
+ * `owners` undefined means every owner.
+ */
+export async function getDocsByOwners(
+  collectionName: string,
+  owners: string | string[] | undefined,
+  constraints: QueryConstraint[] = [],
+  ownerField: string = 'createdBy'
+): Promise<QueryDocumentSnapshot<DocumentData>[]> {
+  const ref = collection(getDb(), collectionName);
+  if (owners === undefined) {
+    return (await getDocs(query(ref, ...constraints))).docs;
+  }
+
+  const ids = Array.from(new Set(Array.isArray(owners) ? owners : [owners])).filter(Boolean);
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += IN_QUERY_LIMIT) {
+    chunks.push(ids.slice(i, i + IN_QUERY_LIMIT));
+  }
+
+  const snapshots = await Promise.all(
+    chunks.map(chunk =>
+      getDocs(
+        query(ref, chunk.length === 1 ? where(ownerField, '==', chunk[0]) : where(ownerField, 'in', chunk), ...constraints)
+      )
+    )
+  );
+  return snapshots.flatMap(snapshot => snapshot.docs);
+}
+
+/**
+ * getDocsByOwners, plus the documents shared with `collaboratorId` (see src/lib/sharing.ts).
+ * When `owners` is undefined every document is already included.
+ */
+export async function getDocsByOwnersOrShared(
+  collectionName: string,
+  owners: string | string[] | undefined,
+  collaboratorId: string | undefined,
+  constraints: QueryConstraint[] = []
+): Promise<QueryDocumentSnapshot<DocumentData>[]> {
+  if (owners === undefined || !collaboratorId) {
+    return getDocsByOwners(collectionName, owners, constraints);
+  }
+
+  const [owned, shared] = await Promise.all([
+    getDocsByOwners(collectionName, owners, constraints),
+    getDocs(
+      query(collection(getDb(), collectionName), where('collaboratorIds', 'array-contains', collaboratorId), ...constraints)
+    ),
+  ]);
+
+  const byId = new Map(owned.map(docSnap => [docSnap.id, docSnap]));
+  shared.docs.forEach(docSnap => byId.set(docSnap.id, docSnap));
+  return Array.from(byId.values());
+}
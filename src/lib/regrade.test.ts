@@ -0,0 +1,95 @@
+/**
+ * Regrade Tests
+ * Tests: changed and unchanged scores, the maxScore fallback for older results,
+ * stale key versions, which entries a regrade writes
+ */
+
+import { buildRegradeEntries, getRegradeWrites, isStaleEntry } from '@/lib/regrade';
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+
+const answerKey = { id: 'key-1', examId: 'exam-1', answers: ['A', 'B', 'C', 'D'], version: 2 } as AnswerKey;
+
+const makeResult = (overrides: Partial<ScannedResult>): ScannedResult => ({
+  id: 'r1',
+  examId: 'exam-1',
+  studentId: '2026-0001',
+  answers: ['A', 'B', 'C', 'D'],
+  score: 4,
+  maxScore: 4,
+  totalQuestions: 4,
+  keyVersion: 2,
+  scannedAt: '2026-01-01T00:00:00.000Z',
+  scannedBy: 'teacher',
+  ...overrides,
+});
+
+describe('Regrade', () => {
+  test('should mark a result changed when the new key gives another score', () => {
+    const [entry] = buildRegradeEntries([makeResult({ answers: ['A', 'B', 'C', 'A'] })], answerKey);
+
+    expect(entry.previousScore).toBe(4);
+    expect(entry.newScore).toBe(3);
+    expect(entry.changed).toBe(true);
+  });
+
+  test('should mark a result changed when only the maximum differs', () => {
+    const [entry] = buildRegradeEntries([makeResult({ score: 4, maxScore: 5 })], answerKey);
+
+    expect(entry.newScore).toBe(4);
+    expect(entry.newMaxScore).toBe(4);
+    expect(entry.changed).toBe(true);
+  });
+
+  test('should leave a result with the same score and maximum unchanged', () => {
+    const [entry] = buildRegradeEntries([makeResult({})], answerKey);
+
+    expect(entry.changed).toBe(false);
+    expect(entry.previousKeyVersion).toBe(2);
+  });
+
+  test('should fall back to totalQuestions for results saved before maxScore', () => {
+    const [entry] = buildRegradeEntries([makeResult({ maxScore: undefined, totalQuestions: 4 })], answerKey);
+
+    expect(entry.previousMaxScore).toBe(4);
+    expect(entry.changed).toBe(false);
+  });
+
+  test('should treat a missing score as zero and keep the null ID flag', () => {
+    const [entry] = buildRegradeEntries(
+      [makeResult({ studentId: 'NULL_1', isNullId: true, score: undefined })],
+      answerKey
+    );
+
+    expect(entry.previousScore).toBe(0);
+    expect(entry.isNullId).toBe(true);
+    expect(entry.changed).toBe(true);
+  });
+
+  test('should call results graded against another key version stale', () => {
+    const [current, older, unversioned] = buildRegradeEntries(
+      [
+        makeResult({ id: 'r1' }),
+        makeResult({ id: 'r2', keyVersion: 1 }),
+        makeResult({ id: 'r3', keyVersion: undefined }),
+      ],
+      answerKey
+    );
+
+    expect(isStaleEntry(current, 2)).toBe(false);
+    expect(isStaleEntry(older, 2)).toBe(true);
+    expect(isStaleEntry(unversioned, 2)).toBe(true);
+  });
+
+  test('should write changed and stale results and skip current unchanged ones', () => {
+    const entries = buildRegradeEntries(
+      [
+        makeResult({ id: 'unchanged' }),
+        makeResult({ id: 'changed', answers: ['B', 'B', 'C', 'D'] }),
+        makeResult({ id: 'stale', keyVersion: 1 }),
+      ],
+      answerKey
+    );
+
+    expect(getRegradeWrites(entries, 2).map(entry => entry.resultId)).toEqual(['changed', 'stale']);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Regrade
+ * The before/after diff of a regrade: each saved result's stored score next to the
+ * score the current answer key gives it. RegradeService loads and writes the results.
+ */
+
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+import { scoreAnswers } from '@/lib/scoring';
+
+export interface RegradeEntry {
+  resultId: string;
+  studentId: string;
+  examSet?: string;
+  isNullId: boolean;
+  previousScore: number;
+  newScore: number;
+  previousMaxScore: number;
+  newMaxScore: number;
+  previousKeyVersion?: number;
+  changed: boolean; // score or maximum differs
+}
+
+/**
+ * Compare each result's stored score with the score the given key produces
+ */
+export const buildRegradeEntries = (
+  results: ScannedResult[],
+  answerKey: AnswerKey,
+  choicePoints?: { [choice: string]: number }
+): RegradeEntry[] =>
+  results.map(result => {
+    const { score, maxScore } = scoreAnswers(result.answers || [], answerKey, result.examSet, choicePoints);
+    const previousMaxScore = result.maxScore ?? result.totalQuestions ?? 0;
+    const previousScore = result.score || 0;
+
+    return {
+      resultId: result.id,
+      studentId: result.studentId,
+      examSet: result.examSet,
+      isNullId: !!result.isNullId,
+      previousScore,
+      newScore: score,
+      previousMaxScore,
+      newMaxScore: maxScore,
+      previousKeyVersion: result.keyVersion,
+      changed: score !== previousScore || maxScore !== previousMaxScore,
+    };
+  });
+
+/** Graded against another key version, even if the score comes out the same */
+export const isStaleEntry = (entry: RegradeEntry, keyVersion: number): boolean =>
+  entry.previousKeyVersion !== keyVersion;
+
+/**
+ * Entries a regrade writes: a changed score, or a result to stamp with the key version.
+ * Results already graded against this version with the same score are skipped.
+ */
+export const getRegradeWrites = (entries: RegradeEntry[], keyVersion: number): RegradeEntry[] =>
+  entries.filter(entry => entry.changed || isStaleEntry(entry, keyVersion));
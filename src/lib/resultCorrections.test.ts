@@ -0,0 +1,37 @@
+/**
+ * Result Corrections Tests
+ * Tests: one entry per changed answer, Student ID changes, unchanged results
+ */
+
+import { diffCorrections, getCorrectionReasonLabel } from '@/lib/resultCorrections';
+
+describe('Result Corrections', () => {
+  const result = { studentId: '2021001', answers: ['A', '', 'C', 'D'] };
+  const at = '2026-03-02T08:00:00.000Z';
+
+  test('should record each changed answer with its question and reason', () => {
+    const corrections = diffCorrections(result, { answers: ['A', 'B', 'C', ''] }, 'erasure', 'user1', undefined, at);
+    expect(corrections).toEqual([
+      { field: 'answer', questionIndex: 1, from: '', to: 'B', reason: 'erasure', correctedBy: 'user1', correctedAt: at },
+      { field: 'answer', questionIndex: 3, from: 'D', to: '', reason: 'erasure', correctedBy: 'user1', correctedAt: at },
+    ]);
+  });
+
+  test('should record a Student ID change with the note', () => {
+    const corrections = diffCorrections(result, { studentId: '2021007' }, 'student_appeal', 'user1', 'Checked roster', at);
+    expect(corrections).toEqual([{
+      field: 'studentId',
+      from: '2021001',
+      to: '2021007',
+      reason: 'student_appeal',
+      note: 'Checked roster',
+      correctedBy: 'user1',
+      correctedAt: at,
+    }]);
+  });
+
+  test('should return nothing when the values are unchanged', () => {
+    expect(diffCorrections(result, { answers: ['A', '', 'C', 'D'], studentId: '2021001' }, 'misread', 'user1')).toEqual([]);
+    expect(getCorrectionReasonLabel('misread')).toBe('Misread bubble');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Result Corrections
+ * Hand corrections of saved results: what changed, and why
+ */
+
+import { AnswerChoice, CorrectionReason, ResultCorrection, ScannedResult } from '@/types/scanning';
+
+export const CORRECTION_REASONS: { value: CorrectionReason; label: string }[] = [
+  { value: 'misread', label: 'Misread bubble' },
+  { value: 'erasure', label: 'Erasure' },
+  { value: 'student_appeal', label: 'Student appeal' },
+];
+
+export const getCorrectionReasonLabel = (reason: CorrectionReason): string =>
+  CORRECTION_REASONS.find(option => option.value === reason)?.label || reason;
+
+/**
+ * One correction entry per changed answer, plus one for a changed Student ID.
+ * Answers are compared in the printed order of the sheet; blanks are ''.
+ */
+export const diffCorrections = (
+  result: Pick<ScannedResult, 'answers' | 'studentId'>,
+  changes: { answers?: AnswerChoice[]; studentId?: string },
+  reason: CorrectionReason,
+  correctedBy: string,
+  note?: string,
+  correctedAt: string = new Date().toISOString()
+): ResultCorrection[] => {
+  const base = { reason, correctedBy, correctedAt, ...(note && { note }) };
+  const corrections: ResultCorrection[] = [];
+
+  if (changes.studentId !== undefined && changes.studentId !== result.studentId) {
+    corrections.push({ ...base, field: 'studentId', from: result.studentId, to: changes.studentId });
+  }
+
+  if (changes.answers) {
+    const length = Math.max(result.answers.length, changes.answers.length);
+    for (let i = 0; i < length; i++) {
+      const from = result.answers[i] || '';
+      const to = changes.answers[i] || '';
+      if (from !== to) {
+        corrections.push({ ...base, field: 'answer', questionIndex: i, from, to });
+      }
+    }
+  }
+
+  return corrections;
+};
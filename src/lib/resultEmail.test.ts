@@ -0,0 +1,72 @@
+/**
+ * Result Email Tests
+ * Tests: template filling, dropped empty lines, rendered subject/body/HTML, email validation
+ */
+
+import { fillTemplate, isValidEmail, renderResultEmail, ResultEmailValues } from '@/lib/resultEmail';
+
+const values: ResultEmailValues = {
+  studentName: 'Ana Cruz',
+  studentId: '2024-0001',
+  examTitle: 'Midterm <Exam>',
+  subject: 'Biology',
+  score: 42,
+  maxScore: 50,
+  percentage: 84,
+  grade: 'B',
+  passed: true,
+};
+
+describe('fillTemplate', () => {
+  it('replaces placeholders, tolerating spaces inside the braces', () => {
+    expect(fillTemplate('{{ a }} and {{b}}', { a: '1', b: '2' })).toBe('1 and 2');
+  });
+
+  it('drops lines whose placeholders are all empty and collapses blank lines', () => {
+    const template = 'Hello\n\n{{note}}\n\nScore: {{score}} {{extra}}\nLink: {{link}}';
+    expect(fillTemplate(template, { note: '', score: '10', extra: '', link: '' })).toBe('Hello\n\nScore: 10');
+  });
+
+  it('keeps lines without placeholders', () => {
+    expect(fillTemplate('Static line\n{{missing}}', {})).toBe('Static line');
+  });
+});
+
+describe('renderResultEmail', () => {
+  it('renders the default subject and body', () => {
+    const email = renderResultEmail(values);
+
+    expect(email.subject).toBe('Your result for Midterm <Exam>');
+    expect(email.text).toContain('Hi Ana Cruz,');
+    expect(email.text).toContain('Score: 42 / 50 (84%)');
+    expect(email.text).toContain('Grade: B (Passed)');
+    expect(email.text).toContain('Course: Biology');
+    expect(email.text).not.toContain('Class:');
+    expect(email.text).not.toContain('See your full result');
+  });
+
+  it('adds the note and a clickable link, escaping HTML', () => {
+    const email = renderResultEmail({ ...values, note: 'See me after class.', resultLink: 'https://sia.test/r/abc' });
+
+    expect(email.text).toContain('See me after class.');
+    expect(email.text).toContain('See your full result: https://sia.test/r/abc');
+    expect(email.html).toContain('<a href="https://sia.test/r/abc">https://sia.test/r/abc</a>');
+    expect(email.html).toContain('Midterm &lt;Exam&gt;');
+  });
+
+  it('uses custom templates', () => {
+    const email = renderResultEmail(values, { subject: '{{examTitle}}: {{grade}}', body: '{{studentId}} {{status}}' });
+    expect(email.subject).toBe('Midterm <Exam>: B');
+    expect(email.text).toBe('2024-0001 Passed');
+  });
+});
+
+describe('isValidEmail', () => {
+  it('accepts plausible addresses and rejects the rest', () => {
+    expect(isValidEmail('ana.cruz@school.edu.ph')).toBe(true);
+    expect(isValidEmail(' ana@school.edu ')).toBe(true);
+    expect(isValidEmail('2024-0001')).toBe(false);
+    expect(isValidEmail('ana@school')).toBe(false);
+    expect(isValidEmail('')).toBe(false);
+  });
+});
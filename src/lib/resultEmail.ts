@@ -0,0 +1,123 @@
+/**
+ * Result Email
+ * The per-student result email. Subject and body are templates with {{placeholders}};
+ * a line whose placeholders are all empty is dropped, so optional parts (the
+ * instructor's note, the result link) leave no gaps.
+ */
+
+export interface ResultEmailValues {
+  studentName: string;
+  studentId: string;
+  examTitle: string;
+  subject?: string; // course subject
+  className?: string;
+  score: number;
+  maxScore: number;
+  percentage: number;
+  grade: string;
+  passed: boolean;
+  note?: string;
+  resultLink?: string;
+  instructorName?: string;
+}
+
+export const DEFAULT_RESULT_EMAIL_SUBJECT = 'Your result for {{examTitle}}';
+
+export const DEFAULT_RESULT_EMAIL_BODY = [
+  'Hi {{studentName}},',
+  '',
+  'Your result for {{examTitle}} is ready.',
+  'Course: {{subject}}',
+  'Class: {{className}}',
+  '',
+  'Score: {{score}} / {{maxScore}} ({{percentage}}%)',
+  'Grade: {{grade}} ({{status}})',
+  '',
+  '{{note}}',
+  '',
+  'See your full result: {{resultLink}}',
+  '',
+  '{{instructorName}}',
+].join('\n');
+
+export const RESULT_EMAIL_PLACEHOLDERS = [
+  'studentName',
+  'studentId',
+  'examTitle',
+  'subject',
+  'className',
+  'score',
+  'maxScore',
+  'percentage',
+  'grade',
+  'status',
+  'note',
+  'resultLink',
+  'instructorName',
+];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const toTemplateValues = (values: ResultEmailValues): Record<string, string> => ({
+  studentName: values.studentName,
+  studentId: values.studentId,
+  examTitle: values.examTitle,
+  subject: values.subject || '',
+  className: values.className || '',
+  score: String(values.score),
+  maxScore: String(values.maxScore),
+  percentage: String(values.percentage),
+  grade: values.grade,
+  status: values.passed ? 'Passed' : 'Failed',
+  note: values.note?.trim() || '',
+  resultLink: values.resultLink || '',
+  instructorName: values.instructorName || '',
+});
+
+/**
+ * Fill in a template. Lines whose placeholders are all empty are removed,
+ * and runs of blank lines are collapsed.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template
+    .split('\n')
+    .filter(line => {
+      const keys = Array.from(line.matchAll(PLACEHOLDER), match => match[1]);
+      return keys.length === 0 || keys.some(key => (values[key] || '').trim() !== '');
+    })
+    .map(line => line.replace(PLACEHOLDER, (_, key: string) => values[key] ?? ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The email for one student: a plain-text body and an HTML version of the same text
+ */
+export const renderResultEmail = (
+  values: ResultEmailValues,
+  templates: { subject?: string; body?: string } = {}
+): { subject: string; text: string; html: string } => {
+  const templateValues = toTemplateValues(values);
+  const subject = fillTemplate(templates.subject || DEFAULT_RESULT_EMAIL_SUBJECT, templateValues).replace(/\s+/g, ' ');
+  const text = fillTemplate(templates.body || DEFAULT_RESULT_EMAIL_BODY, templateValues);
+
+  // Same text, with the result link made clickable
+  const html = text
+    .split(/\n{2,}/)
+    .map(paragraph => {
+      const escaped = escapeHtml(paragraph).replace(/\n/g, '<br>');
+      const link = values.resultLink ? escapeHtml(values.resultLink) : '';
+      return `<p>${link ? escaped.split(link).join(`<a href="${link}">${link}</a>`) : escaped}</p>`;
+    })
+    .join('\n');
+
+  return { subject, text, html: `<div style="font-family: sans-serif; font-size: 14px;">\n${html}\n</div>` };
+};
+
+/**
+ * A plausible email address, for checking recipients before sending
+ */
+export const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
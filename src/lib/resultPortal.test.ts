@@ -0,0 +1,76 @@
+/**
+ * Result Portal Tests
+ * Tests: student snapshot, hidden item breakdown, set-order items, link status, tokens
+ */
+
+import { buildPortalResult, generateLinkToken, getLinkStatus } from '@/lib/resultPortal';
+import { COLLEGE_SCALE } from '@/lib/gradingScales';
+import { QuestionTag } from '@/types/tags';
+
+const tag = (id: string, questions: number[]): QuestionTag => ({
+  id,
+  examId: 'exam1',
+  name: id,
+  color: 'bg-blue-500',
+  questions,
+  createdBy: 'u1',
+  createdAt: '',
+  updatedAt: '',
+});
+
+const answerKey = {
+  answers: ['A', 'B', 'C', 'D'],
+  sets: [
+    { label: 'A', questionOrder: [1, 2, 3, 4] },
+    { label: 'B', questionOrder: [3, 4, 1, 2] },
+  ],
+};
+
+const exam = { title: 'Midterm', subject: 'Math' };
+const tags = [tag('algebra', [1, 2]), tag('geometry', [3, 4]), tag('unused', [])];
+
+describe('Result Portal', () => {
+  test('should build the score, grade and tag scores on the exam scale', () => {
+    const result = { studentId: '2021001', answers: ['A', 'B', 'C', 'X'], examSet: 'A', scannedAt: '2026-03-02' };
+    const portal = buildPortalResult(result, answerKey, tags, exam, COLLEGE_SCALE, { showItems: false, studentName: 'Cruz, Ana' });
+
+    expect(portal.score).toBe(3);
+    expect(portal.maxScore).toBe(4);
+    expect(portal.percentage).toBe(75);
+    expect(portal.grade).toBe('3.00');
+    expect(portal.passed).toBe(true);
+    expect(portal.studentName).toBe('Cruz, Ana');
+    expect(portal.tags.map(t => [t.name, t.percent])).toEqual([['algebra', 100], ['geometry', 50]]);
+    expect(portal.items).toBeUndefined();
+    expect('className' in portal).toBe(false);
+  });
+
+  test('should list items in master order for shuffled sets', () => {
+    // Set B prints master Q3, Q4 first
+    const result = { studentId: '2021002', answers: ['C', '', 'A', 'X'], examSet: 'B', scannedAt: '' };
+    const portal = buildPortalResult(result, answerKey, tags, exam, COLLEGE_SCALE, { showItems: true });
+
+    expect(portal.items?.map(item => [item.question, item.answer, item.correctAnswer, item.outcome])).toEqual([
+      [1, 'A', 'A', 'correct'],
+      [2, 'X', 'B', 'wrong'],
+      [3, 'C', 'C', 'correct'],
+      [4, '', 'D', 'blank'],
+    ]);
+  });
+
+  test('should report revoked, expired and active links', () => {
+    const now = new Date('2026-03-10T00:00:00Z');
+    expect(getLinkStatus({ revokedAt: '2026-03-01T00:00:00Z', expiresAt: '2026-04-01T00:00:00Z' }, now)).toBe('revoked');
+    expect(getLinkStatus({ expiresAt: '2026-03-09T00:00:00Z' }, now)).toBe('expired');
+    expect(getLinkStatus({ expiresAt: '2026-03-11T00:00:00Z' }, now)).toBe('active');
+    expect(getLinkStatus({}, now)).toBe('active');
+  });
+
+  test('should generate distinct tokens of the requested length', () => {
+    const a = generateLinkToken();
+    const b = generateLinkToken();
+    expect(a).toHaveLength(20);
+    expect(a).toMatch(/^[a-zA-Z2-9]+$/);
+    expect(a).not.toBe(b);
+  });
+});
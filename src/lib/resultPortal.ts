@@ -0,0 +1,105 @@
+/**
+ * Result Portal
+ * Builds the read-only result a student sees through a shared link: their score,
+ * grade, per-tag performance and (when the instructor allows it) every item.
+ * The snapshot is stored on the link, so a student can't reach other results.
+ */
+
+import { AnswerKey, PortalItem, PortalResult, ScannedResult, ShareableLink, ShareableLinkStatus } from '@/types/scanning';
+import { QuestionTag } from '@/types/tags';
+import { GradeScale } from '@/types/gradebook';
+import { getItemRules, scoreAnswers } from '@/lib/scoring';
+import { computeStudentTagScores } from '@/lib/tagReport';
+import { getLetterGrade, isPassing } from '@/lib/gradingScales';
+
+type ScoringKey = Pick<AnswerKey, 'answers'> & Partial<Pick<AnswerKey, 'sets' | 'questionSettings' | 'scoring'>>;
+
+export interface PortalExamInfo {
+  title: string;
+  subject?: string;
+  className?: string;
+  choicePoints?: { [choice: string]: number };
+}
+
+// Unambiguous characters only, so a token read aloud or retyped still works
+const TOKEN_ALPHABET = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * A random, unguessable link token
+ */
+export const generateLinkToken = (length = 20): string => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]).join('');
+};
+
+/**
+ * Whether a link can still be opened
+ */
+export const getLinkStatus = (
+  link: Pick<ShareableLink, 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): ShareableLinkStatus => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+};
+
+/**
+ * The student's view of one result. Items are listed in master question order,
+ * whichever exam set the student took.
+ */
+export const buildPortalResult = (
+  result: Pick<ScannedResult, 'studentId' | 'answers' | 'examSet' | 'scannedAt'>,
+  answerKey: ScoringKey,
+  tags: QuestionTag[],
+  exam: PortalExamInfo,
+  scale: GradeScale,
+  options: { showItems: boolean; studentName?: string }
+): PortalResult => {
+  const { score, maxScore, items } = scoreAnswers(result.answers || [], answerKey, result.examSet, exam.choicePoints);
+  const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+  const tagScores = computeStudentTagScores(result, tags, answerKey, exam.choicePoints);
+
+  // Firestore rejects undefined, so optional fields are only set when present
+  const portal: PortalResult = {
+    examTitle: exam.title,
+    studentId: result.studentId,
+    score,
+    maxScore,
+    percentage,
+    grade: getLetterGrade(percentage, scale),
+    passed: isPassing(percentage, scale),
+    gradingScale: scale.name,
+    scannedAt: result.scannedAt,
+    tags: tags
+      .filter(tag => tagScores[tag.id].possible > 0)
+      .map(tag => ({
+        name: tag.name,
+        color: tag.color,
+        earned: tagScores[tag.id].earned,
+        possible: tagScores[tag.id].possible,
+        percent: tagScores[tag.id].percent,
+      })),
+  };
+  if (exam.subject) portal.subject = exam.subject;
+  if (exam.className) portal.className = exam.className;
+  if (options.studentName) portal.studentName = options.studentName;
+
+  if (options.showItems) {
+    const rules = getItemRules(answerKey, result.examSet, exam.choicePoints);
+    portal.items = rules
+      .map((rule, i): PortalItem => ({
+        question: rule.masterQuestion,
+        answer: (result.answers?.[i] || '').trim().toUpperCase(),
+        correctAnswer: rule.dropped ? 'Any' : rule.acceptedAnswers.join('/'),
+        outcome: items[i].outcome,
+        points: items[i].points,
+        ...(rule.bonus && { bonus: true }),
+      }))
+      .sort((a, b) => a.question - b.question);
+  }
+
+  return portal;
+};
@@ -0,0 +1,77 @@
+/**
+ * Roles Tests
+ * Tests: role permissions, route matching, visible owners, fallback for unknown roles
+ */
+
+import { canAccessPath, getRoutePermission, getVisibleOwnerIds, hasPermission, toAppRole } from '@/lib/roles';
+
+describe('hasPermission', () => {
+  it('gives admins every permission', () => {
+    expect(hasPermission('admin', 'manage_users')).toBe(true);
+    expect(hasPermission('admin', 'edit_answer_keys')).toBe(true);
+  });
+
+  it('lets department heads view but not edit', () => {
+    expect(hasPermission('department_head', 'view_all_instructors')).toBe(true);
+    expect(hasPermission('department_head', 'manage_exams')).toBe(false);
+  });
+
+  it('lets proctors scan but not edit answer keys', () => {
+    expect(hasPermission('proctor', 'scan_papers')).toBe(true);
+    expect(hasPermission('proctor', 'edit_answer_keys')).toBe(false);
+  });
+
+  it('denies everything without a role', () => {
+    expect(hasPermission(null, 'view_classes')).toBe(false);
+  });
+});
+
+describe('route permissions', () => {
+  it('matches a page and the pages below it', () => {
+    expect(getRoutePermission('/admin/users')).toBe('manage_users');
+    expect(getRoutePermission('/classes/abc')).toBe('view_classes');
+  });
+
+  it('matches one segment for *', () => {
+    expect(getRoutePermission('/exams/abc/edit-key')).toBe('edit_answer_keys');
+    expect(getRoutePermission('/exams/abc/scan-papers')).toBe('scan_papers');
+  });
+
+  it('leaves unlisted pages open', () => {
+    expect(getRoutePermission('/dashboard')).toBeNull();
+    expect(getRoutePermission('/exams/abc')).toBeNull();
+    expect(canAccessPath('proctor', '/dashboard')).toBe(true);
+  });
+
+  it('keeps each role to its pages', () => {
+    expect(canAccessPath('instructor', '/admin/users')).toBe(false);
+    expect(canAccessPath('proctor', '/exams/abc/edit-key')).toBe(false);
+    expect(canAccessPath('proctor', '/exams/abc/review-papers')).toBe(true);
+    expect(canAccessPath('department_head', '/exams/new')).toBe(false);
+    expect(canAccessPath('department_head', '/audit-logs')).toBe(true);
+  });
+});
+
+describe('getVisibleOwnerIds', () => {
+  it('shows instructors only their own records', () => {
+    expect(getVisibleOwnerIds({ id: 'u1', role: 'instructor' })).toEqual(['u1']);
+  });
+
+  it('shows proctors their assigned instructors', () => {
+    expect(getVisibleOwnerIds({ id: 'p1', role: 'proctor', proctorFor: ['u1', 'u2'] })).toEqual(['u1', 'u2']);
+    expect(getVisibleOwnerIds({ id: 'p1', role: 'proctor' })).toEqual([]);
+  });
+
+  it('shows admins and department heads everyone', () => {
+    expect(getVisibleOwnerIds({ id: 'a1', role: 'admin' })).toBeUndefined();
+    expect(getVisibleOwnerIds({ id: 'd1', role: 'department_head' })).toBeUndefined();
+  });
+});
+
+describe('toAppRole', () => {
+  it('keeps known roles and falls back to instructor', () => {
+    expect(toAppRole('proctor')).toBe('proctor');
+    expect(toAppRole(undefined)).toBe('instructor');
+    expect(toAppRole('superuser')).toBe('instructor');
+  });
+});
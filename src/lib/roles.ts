@@ -0,0 +1,111 @@
+/**
+ * Roles
+ * What each role may do, and which pages it may open. firestore.rules enforces the
+ * same rules on the data; keep the two in step.
+ *
+ *   admin            everything, including users and migrations
+ *   department_head  views every instructor's exams, classes and results; edits nothing
+ *   instructor       owns their exams, classes and answer keys
+ *   proctor          scans papers for the instructors they are assigned to; cannot edit keys
+ */
+
+import { AppRole, Permission, UserAccount } from '@/types/roles';
+
+export const APP_ROLES: AppRole[] = ['admin', 'department_head', 'instructor', 'proctor'];
+
+export const DEFAULT_ROLE: AppRole = 'instructor';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'Admin',
+  department_head: 'Department Head',
+  instructor: 'Instructor',
+  proctor: 'Proctor',
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  admin: 'Manages users, roles and migrations, and can do everything else',
+  department_head: "Views every instructor's exams, classes and results",
+  instructor: 'Creates exams and classes, edits answer keys and grades their own classes',
+  proctor: 'Scans answer sheets for assigned instructors; cannot edit answer keys',
+};
+
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    'manage_users',
+    'manage_system',
+    'view_audit_logs',
+    'view_all_instructors',
+    'manage_exams',
+    'edit_answer_keys',
+    'scan_papers',
+    'view_classes',
+    'view_results',
+  ],
+  department_head: ['view_audit_logs', 'view_all_instructors', 'view_classes', 'view_results'],
+  instructor: ['manage_exams', 'edit_answer_keys', 'scan_papers', 'view_classes', 'view_results'],
+  proctor: ['scan_papers'],
+};
+
+/**
+ * Pages that need a permission, most specific first. `*` matches one path segment.
+ * Pages not listed here are open to every signed-in user.
+ */
+const ROUTE_PERMISSIONS: { pattern: string; permission: Permission }[] = [
+  { pattern: '/admin', permission: 'manage_users' },
+  { pattern: '/migration', permission: 'manage_system' },
+  { pattern: '/diagnostics', permission: 'manage_system' },
+  { pattern: '/debug-user', permission: 'manage_system' },
+  { pattern: '/audit-logs', permission: 'view_audit_logs' },
+  { pattern: '/upload-report', permission: 'view_results' },
+  { pattern: '/exams/new', permission: 'manage_exams' },
+  { pattern: '/exams/*/edit-key', permission: 'edit_answer_keys' },
+  { pattern: '/exams/*/scan-papers', permission: 'scan_papers' },
+  { pattern: '/exams/*/scanning', permission: 'scan_papers' },
+  { pattern: '/exams/*/review-papers', permission: 'scan_papers' },
+  { pattern: '/exams/*/item-analysis', permission: 'view_results' },
+  { pattern: '/exams/*/tag-reports', permission: 'view_results' },
+  { pattern: '/classes', permission: 'view_classes' },
+  { pattern: '/students', permission: 'view_classes' },
+  { pattern: '/results', permission: 'view_results' },
+  { pattern: '/reports', permission: 'view_results' },
+  { pattern: '/templates', permission: 'manage_exams' },
+  { pattern: '/archive', permission: 'manage_exams' },
+];
+
+/** A stored role, falling back to instructor for accounts created before roles existed */
+export const toAppRole = (value: unknown): AppRole =>
+  APP_ROLES.includes(value as AppRole) ? (value as AppRole) : DEFAULT_ROLE;
+
+export const hasPermission = (role: AppRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// The pattern matches the path itself or anything below it
+const matchesPattern = (pathname: string, pattern: string): boolean => {
+  const pathParts = pathname.split('/').filter(Boolean);
+  const patternParts = pattern.split('/').filter(Boolean);
+  if (pathParts.length < patternParts.length) return false;
+  return patternParts.every((part, i) => part === '*' || part === pathParts[i]);
+};
+
+/**
+ * The permission a page needs, or null when any signed-in user may open it
+ */
+export const getRoutePermission = (pathname: string): Permission | null =>
+  ROUTE_PERMISSIONS.find(route => matchesPattern(pathname, route.pattern))?.permission ?? null;
+
+export const canAccessPath = (role: AppRole | null | undefined, pathname: string): boolean => {
+  const permission = getRoutePermission(pathname);
+  return permission === null || hasPermission(role, permission);
+};
+
+/**
+ * Whose exams and classes the user may see: their own, their assigned instructors'
+ * for a proctor, or everyone's (undefined) for admins and department heads
+ */
+export const getVisibleOwnerIds = (
+  user: Pick<UserAccount, 'id' | 'role' | 'proctorFor'>
+): string[] | undefined => {
+  if (hasPermission(user.role, 'view_all_instructors')) return undefined;
+  if (user.role === 'proctor') return user.proctorFor || [];
+  return [user.id];
+};
@@ -0,0 +1,38 @@
+/**
+ * Scan Evidence
+ * Packages what the OMR engine saw — a compressed, rectified copy of the sheet,
+ * the marker corners and every bubble's darkness — so it can be stored with the
+ * ScannedResult and replayed when a student disputes a grade. Browser-only (JPEG
+ * encoding goes through a canvas).
+ */
+
+import { OMRReadResult, rectifySheet } from '@/lib/omrEngine';
+import { pixelBufferToCanvas } from '@/lib/sheetImageLoader';
+import { ScanEvidenceInput } from '@/types/scanning';
+import { SheetTemplateDefinition } from '@/types/templates';
+
+// ~900px across keeps bubbles legible while the JPEG stays around 60–120 KB
+const EVIDENCE_IMAGE_WIDTH = 900;
+const EVIDENCE_JPEG_QUALITY = 0.6;
+
+export function createScanEvidence(
+  omr: OMRReadResult,
+  numQuestions: number,
+  template?: SheetTemplateDefinition
+): ScanEvidenceInput {
+  const rectified = rectifySheet(omr.image, omr.markers, EVIDENCE_IMAGE_WIDTH);
+  const canvas = pixelBufferToCanvas(rectified.image);
+
+  return {
+    imageDataUrl: canvas.toDataURL('image/jpeg', EVIDENCE_JPEG_QUALITY),
+    imageWidth: rectified.image.width,
+    imageHeight: rectified.image.height,
+    markers: rectified.markers,
+    markerConfidence: omr.confidence,
+    numQuestions,
+    bubbleDarkness: omr.bubbleDarkness,
+    idBubbleDarkness: omr.idBubbleDarkness,
+    ...(template && { template }),
+    ...(omr.idSource === 'code' && { idFromCode: true }),
+  };
+}
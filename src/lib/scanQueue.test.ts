@@ -0,0 +1,77 @@
+/**
+ * Offline Scan Queue Tests
+ * Tests: retry backoff, due scans, conflicts between devices
+ */
+
+import { findSyncConflicts, getNextAttemptAt, getRetryDelay, isSyncDue, RETRY_MAX_MS } from '@/lib/scanQueue';
+import { QueuedScan, ScannedResult } from '@/types/scanning';
+
+const queued = (overrides: Partial<QueuedScan> = {}): QueuedScan => ({
+  id: 'q1',
+  resultId: 'result_exam1_2021001_1000',
+  examId: 'exam1',
+  studentId: '2021001',
+  answers: ['A', 'B'],
+  isNullId: false,
+  capturedAt: '2026-03-02T08:00:00.000Z',
+  scannedBy: 'user1',
+  deviceId: 'device-a',
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: 0,
+  ...overrides,
+});
+
+const saved = (overrides: Partial<ScannedResult> = {}): ScannedResult => ({
+  id: 'result_other',
+  examId: 'exam1',
+  studentId: '2021001',
+  answers: ['A', 'C'],
+  score: 1,
+  totalQuestions: 2,
+  scannedAt: '2026-03-02T08:30:00.000Z',
+  scannedBy: 'user2',
+  deviceId: 'device-b',
+  ...overrides,
+});
+
+describe('Offline Scan Queue', () => {
+  test('should back off exponentially up to the cap', () => {
+    expect(getRetryDelay(1)).toBe(5000);
+    expect(getRetryDelay(2)).toBe(10000);
+    expect(getRetryDelay(4)).toBe(40000);
+    expect(getRetryDelay(20)).toBe(RETRY_MAX_MS);
+  });
+
+  test('should only attempt pending scans whose retry time has passed', () => {
+    expect(isSyncDue(queued({ nextAttemptAt: 1000 }), 2000)).toBe(true);
+    expect(isSyncDue(queued({ nextAttemptAt: 3000 }), 2000)).toBe(false);
+    expect(isSyncDue(queued({ status: 'conflict' }), 2000)).toBe(false);
+    expect(getNextAttemptAt([
+      queued({ nextAttemptAt: 3000 }),
+      queued({ nextAttemptAt: 1000 }),
+      queued({ status: 'synced', nextAttemptAt: 0 }),
+    ])).toBe(1000);
+    expect(getNextAttemptAt([queued({ status: 'synced' })])).toBeNull();
+  });
+
+  test('should flag a result another device saved after the scan', () => {
+    const conflicts = findSyncConflicts(queued(), [saved()]);
+    expect(conflicts.map(r => r.id)).toEqual(['result_other']);
+  });
+
+  test('should not flag earlier results, same-device rescans, other students or its own write', () => {
+    const scan = queued();
+    expect(findSyncConflicts(scan, [
+      saved({ scannedAt: '2026-03-01T10:00:00.000Z' }),
+      saved({ deviceId: 'device-a' }),
+      saved({ studentId: '2021002' }),
+      saved({ id: scan.resultId }),
+    ])).toEqual([]);
+  });
+
+  test('should treat results saved without a device as another device', () => {
+    expect(findSyncConflicts(queued(), [saved({ deviceId: undefined })])).toHaveLength(1);
+    expect(findSyncConflicts(queued({ isNullId: true }), [saved()])).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Offline Scan Queue
+ * Retry schedule and conflict rules for scans waiting on the device to be synced
+ */
+
+import { QueuedScan, ScannedResult } from '@/types/scanning';
+
+export const RETRY_BASE_MS = 5000;
+export const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 5s, 10s, 20s … capped at 5 minutes
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+
+export const isSyncDue = (scan: QueuedScan, now: number): boolean =>
+  scan.status === 'pending' && scan.nextAttemptAt <= now;
+
+/**
+ * Results for the same student that another device saved after this sheet was scanned,
+ * i.e. the same paper (or student) was scanned on two devices while offline.
+ * Rescans on the same device and results that were already saved when this sheet
+ * was scanned are not conflicts.
+ */
+export const findSyncConflicts = (scan: QueuedScan, existing: ScannedResult[]): ScannedResult[] => {
+  if (scan.isNullId) return [];
+  const capturedAt = new Date(scan.capturedAt).getTime();
+  return existing.filter(result =>
+    result.studentId === scan.studentId &&
+    result.id !== scan.resultId &&
+    result.deviceId !== scan.deviceId &&
+    new Date(result.scannedAt).getTime() > capturedAt
+  );
+};
+
+export const getNextAttemptAt = (scans: QueuedScan[]): number | null => {
+  const pending = scans.filter(scan => scan.status === 'pending');
+  return pending.length > 0 ? Math.min(...pending.map(scan => scan.nextAttemptAt)) : null;
+};
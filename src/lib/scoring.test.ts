@@ -0,0 +1,82 @@
+/**
+ * Scoring Tests
+ * Tests: weights, accepted answers, partial credit, dropped and bonus items,
+ * negative marking, blank handling, exam sets
+ */
+
+import { scoreAnswers, getItemRules, isCreditedAnswer } from '@/lib/scoring';
+
+const answers = ['A', 'B', 'C', 'D'];
+
+describe('Scoring', () => {
+  test('should award one point per correct answer by default', () => {
+    const result = scoreAnswers(['A', 'B', 'D', ''], { answers });
+
+    expect(result.score).toBe(2);
+    expect(result.maxScore).toBe(4);
+    expect(result.correctCount).toBe(2);
+    expect(result.items.map(i => i.outcome)).toEqual(['correct', 'correct', 'wrong', 'blank']);
+  });
+
+  test('should apply weights, accepted answers and partial credit', () => {
+    const key = {
+      answers,
+      questionSettings: [
+        { questionNumber: 1, correctAnswer: 'A', points: 3 },
+        { questionNumber: 2, correctAnswer: 'B', points: 1, acceptedAnswers: ['C'] },
+        { questionNumber: 3, correctAnswer: 'C', points: 2, partialCredit: { D: 0.5 } },
+      ],
+    };
+
+    const result = scoreAnswers(['a', 'C', 'D', 'D'], key);
+    expect(result.score).toBe(3 + 1 + 1 + 1);
+    expect(result.maxScore).toBe(7);
+    expect(result.items[2].outcome).toBe('partial');
+  });
+
+  test('should accept any answer on dropped items and keep bonus items out of the maximum', () => {
+    const key = {
+      answers,
+      questionSettings: [
+        { questionNumber: 1, correctAnswer: 'A', points: 1, dropped: true },
+        { questionNumber: 4, correctAnswer: 'D', points: 2, bonus: true },
+      ],
+    };
+
+    const result = scoreAnswers(['C', 'B', 'C', 'D'], key);
+    expect(result.score).toBe(5);
+    expect(result.maxScore).toBe(3);
+
+    const rules = getItemRules(key);
+    expect(isCreditedAnswer('E', rules[0])).toBe(true);
+    expect(isCreditedAnswer('', rules[0])).toBe(false);
+  });
+
+  test('should deduct wrong and blank penalties and floor the total at zero', () => {
+    const scoring = { wrongPenalty: 0.25, blankPenalty: 0.5, allowNegativeTotal: false };
+
+    expect(scoreAnswers(['A', 'C', '', 'D'], { answers, scoring }).score).toBe(1.25);
+    expect(scoreAnswers(['B', 'C', 'D', ''], { answers, scoring }).score).toBe(0);
+    expect(scoreAnswers(['B', 'C', 'D', ''], { answers, scoring: { ...scoring, allowNegativeTotal: true } }).score)
+      .toBe(-1.25);
+  });
+
+  test('should resolve rules in the printed order of an exam set', () => {
+    const key = {
+      answers,
+      sets: [
+        { label: 'A', questionOrder: [1, 2, 3, 4] },
+        { label: 'B', questionOrder: [4, 3, 2, 1] },
+      ],
+      questionSettings: [{ questionNumber: 4, correctAnswer: 'D', points: 5 }],
+    };
+
+    const result = scoreAnswers(['D', 'C', 'B', 'A'], key, 'B');
+    expect(result.score).toBe(8);
+    expect(result.items[0].points).toBe(5);
+  });
+
+  test('should fall back to the exam-level choice points for unweighted items', () => {
+    expect(scoreAnswers(['A', 'B', 'C', 'D'], { answers }, undefined, { A: 2 }).score).toBe(5);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Scoring
+ * Applies an answer key's scoring rules to a sheet. Every place that shows or
+ * stores a score goes through scoreAnswers so the scanner, batch import, review
+ * and analysis pages always agree.
+ *
+ * Per-item rules live in AnswerKey.questionSettings (master question order):
+ *   • points          – item weight
+ *   • acceptedAnswers – further answers that earn full points
+ *   • partialCredit   – choice → fraction of the item's points
+ *   • dropped         – "all choices correct": any shaded answer earns full points
+ *   • bonus           – points count toward the score but not the maximum
+ * Exam-wide rules (AnswerKey.scoring) add negative marking and blank handling.
+ */
+
+import { AnswerChoice, AnswerKey, QuestionAnswer, ScoringPolicy } from '@/types/scanning';
+import { getExamSet } from '@/lib/examSets';
+
+export type ItemOutcome = 'correct' | 'partial' | 'wrong' | 'blank';
+
+/** A question's effective rule, resolved against the master key */
+export interface ItemRule {
+  masterQuestion: number;
+  correctAnswer: AnswerChoice;
+  points: number;
+  acceptedAnswers: AnswerChoice[]; // always includes correctAnswer
+  partialCredit: Record<string, number>;
+  dropped: boolean;
+  bonus: boolean;
+}
+
+export interface ItemScore {
+  outcome: ItemOutcome;
+  points: number; // may be negative under negative marking
+}
+
+export interface SheetScore {
+  score: number;
+  maxScore: number;
+  correctCount: number;
+  items: ItemScore[];
+}
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  wrongPenalty: 0,
+  blankPenalty: 0,
+  allowNegativeTotal: false,
+};
+
+type ScoringKey = Pick<AnswerKey, 'answers'> & Partial<Pick<AnswerKey, 'sets' | 'questionSettings' | 'scoring'>>;
+
+const roundPoints = (value: number) => Math.round(value * 100) / 100;
+
+const normalise = (answer?: string) => (answer || '').trim().toUpperCase();
+
+/**
+ * Resolve every item's rule in the printed order of the given exam set.
+ * `choicePoints` is the older exam-level weight keyed by the correct letter,
+ * used only when an item has no weight of its own.
+ */
+export const getItemRules = (
+  answerKey: ScoringKey | null | undefined,
+  examSet?: string,
+  choicePoints?: { [choice: string]: number }
+): ItemRule[] => {
+  if (!answerKey) return [];
+
+  const settingsByQuestion = new Map<number, QuestionAnswer>();
+  (answerKey.questionSettings || []).forEach(setting => settingsByQuestion.set(setting.questionNumber, setting));
+
+  const set = getExamSet(answerKey, examSet);
+  const order = set ? set.questionOrder : answerKey.answers.map((_, i) => i + 1);
+
+  return order.map(masterQuestion => {
+    const correctAnswer = normalise(answerKey.answers[masterQuestion - 1]);
+    const setting = settingsByQuestion.get(masterQuestion);
+    const points = setting?.points ?? choicePoints?.[correctAnswer] ?? 1;
+
+    return {
+      masterQuestion,
+      correctAnswer,
+      points,
+      acceptedAnswers: Array.from(new Set([correctAnswer, ...(setting?.acceptedAnswers || []).map(normalise)]))
+        .filter(Boolean),
+      partialCredit: setting?.partialCredit || {},
+      dropped: !!setting?.dropped,
+      bonus: !!setting?.bonus,
+    };
+  });
+};
+
+/** True when the answer earns the item's full points */
+export const isCreditedAnswer = (answer: string | undefined, rule: ItemRule | undefined): boolean => {
+  const value = normalise(answer);
+  if (!value || !rule) return false;
+  return rule.dropped || rule.acceptedAnswers.includes(value);
+};
+
+export const scoreItem = (
+  answer: string | undefined,
+  rule: ItemRule,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): ItemScore => {
+  const value = normalise(answer);
+
+  if (!value) {
+    return { outcome: 'blank', points: -policy.blankPenalty };
+  }
+  if (isCreditedAnswer(value, rule)) {
+    return { outcome: 'correct', points: rule.points };
+  }
+
+  const fraction = rule.partialCredit[value] || 0;
+  if (fraction > 0) {
+    return { outcome: 'partial', points: roundPoints(rule.points * Math.min(1, fraction)) };
+  }
+
+  return { outcome: 'wrong', points: -policy.wrongPenalty };
+};
+
+/**
+ * Score a sheet's answers (in the printed order of its exam set) against the key.
+ */
+export const scoreAnswers = (
+  answers: string[],
+  answerKey: ScoringKey | null | undefined,
+  examSet?: string,
+  choicePoints?: { [choice: string]: number }
+): SheetScore => {
+  const rules = getItemRules(answerKey, examSet, choicePoints);
+  const policy = { ...DEFAULT_SCORING_POLICY, ...(answerKey?.scoring || {}) };
+
+  const items = rules.map((rule, i) => scoreItem(answers[i], rule, policy));
+  const total = items.reduce((sum, item) => sum + item.points, 0);
+  const maxScore = rules.reduce((sum, rule) => sum + (rule.bonus ? 0 : rule.points), 0);
+
+  return {
+    score: roundPoints(policy.allowNegativeTotal ? total : Math.max(0, total)),
+    maxScore: roundPoints(maxScore),
+    correctCount: items.filter(item => item.outcome === 'correct').length,
+    items,
+  };
+};
+
+/** True when the item uses anything beyond "one answer, one point" */
+export const hasCustomRule = (setting: QuestionAnswer): boolean =>
+  setting.points !== 1 ||
+  (setting.acceptedAnswers?.length ?? 0) > 0 ||
+  Object.keys(setting.partialCredit || {}).length > 0 ||
+  !!setting.dropped ||
+  !!setting.bonus;
@@ -0,0 +1,115 @@
+/**
+ * Sharing Tests
+ * Tests: item access by ownership, share, role and proctor assignment; per-permission checks,
+ * owner scope for one owner's items, invitation identifiers
+ */
+
+import { Shareable } from '@/types/sharing';
+import {
+  accessIncludes,
+  canOnItem,
+  getItemAccess,
+  getOwnerScope,
+  isSharedWith,
+  listCollaborators,
+  parseInviteIdentifier,
+} from '@/lib/sharing';
+
+const collaborator = (userId: string, access: 'viewer' | 'scanner' | 'editor', fullName?: string) => ({
+  userId,
+  email: `${userId}@school.edu`,
+  ...(fullName && { fullName }),
+  access,
+  addedBy: 'owner',
+  addedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const exam: Shareable = {
+  createdBy: 'owner',
+  collaborators: {
+    viewer: collaborator('viewer', 'viewer', 'Vic Viewer'),
+    editor: collaborator('editor', 'editor', 'Ed Editor'),
+    proctor: collaborator('proctor', 'editor'),
+  },
+  collaboratorIds: ['viewer', 'editor', 'proctor'],
+};
+
+describe('getItemAccess', () => {
+  it('gives the owner full access', () => {
+    expect(getItemAccess(exam, { id: 'owner', role: 'instructor' })).toBe('owner');
+  });
+
+  it('uses the shared access of a collaborator', () => {
+    expect(getItemAccess(exam, { id: 'viewer', role: 'instructor' })).toBe('viewer');
+    expect(getItemAccess(exam, { id: 'editor', role: 'instructor' })).toBe('editor');
+  });
+
+  it('lets proctors scan for their instructors and heads view everything', () => {
+    expect(getItemAccess(exam, { id: 'p2', role: 'proctor', proctorFor: ['owner'] })).toBe('scanner');
+    expect(getItemAccess(exam, { id: 'head', role: 'department_head' })).toBe('viewer');
+  });
+
+  it('keeps the higher of a share and a role', () => {
+    expect(getItemAccess(exam, { id: 'editor', role: 'admin' })).toBe('editor');
+  });
+
+  it('denies everyone else', () => {
+    expect(getItemAccess(exam, { id: 'stranger', role: 'instructor' })).toBeNull();
+    expect(getItemAccess(null, { id: 'owner', role: 'instructor' })).toBeNull();
+  });
+});
+
+describe('canOnItem', () => {
+  it('maps permissions to the access they need', () => {
+    expect(canOnItem('viewer', 'view_results')).toBe(true);
+    expect(canOnItem('viewer', 'scan_papers')).toBe(false);
+    expect(canOnItem('scanner', 'scan_papers')).toBe(true);
+    expect(canOnItem('scanner', 'edit_answer_keys')).toBe(false);
+    expect(canOnItem('editor', 'edit_answer_keys')).toBe(true);
+    expect(canOnItem(null, 'view_results')).toBe(false);
+  });
+
+  it('keeps unmapped permissions to the owner', () => {
+    expect(canOnItem('editor', 'manage_users')).toBe(false);
+    expect(canOnItem('owner', 'manage_users')).toBe(true);
+  });
+
+  it('orders access levels', () => {
+    expect(accessIncludes('owner', 'editor')).toBe(true);
+    expect(accessIncludes('scanner', 'viewer')).toBe(true);
+    expect(accessIncludes('viewer', 'scanner')).toBe(false);
+  });
+});
+
+describe('getOwnerScope', () => {
+  it('queries the owner only when the user may list their items', () => {
+    expect(getOwnerScope({ id: 'owner', role: 'instructor' }, 'owner')).toEqual(['owner']);
+    expect(getOwnerScope({ id: 'head', role: 'department_head' }, 'owner')).toEqual(['owner']);
+    expect(getOwnerScope({ id: 'p1', role: 'proctor', proctorFor: ['owner'] }, 'owner')).toEqual(['owner']);
+    expect(getOwnerScope({ id: 'editor', role: 'instructor' }, 'owner')).toEqual([]);
+  });
+});
+
+describe('collaborator lists', () => {
+  it('marks items shared with, not owned by, the user', () => {
+    expect(isSharedWith(exam, 'viewer')).toBe(true);
+    expect(isSharedWith(exam, 'owner')).toBe(false);
+    expect(isSharedWith(exam, undefined)).toBe(false);
+  });
+
+  it('sorts collaborators by name, then email', () => {
+    expect(listCollaborators(exam).map(c => c.userId)).toEqual(['editor', 'proctor', 'viewer']);
+  });
+});
+
+describe('parseInviteIdentifier', () => {
+  it('reads instructor IDs and emails', () => {
+    expect(parseInviteIdentifier(' instructor-007 ')).toEqual({ field: 'instructorId', value: 'INSTRUCTOR-007' });
+    expect(parseInviteIdentifier('Ana.Cruz@School.edu')).toEqual({ field: 'email', value: 'ana.cruz@school.edu' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseInviteIdentifier('Ana Cruz')).toBeNull();
+    expect(parseInviteIdentifier('')).toBeNull();
+  });
+});
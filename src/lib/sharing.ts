@@ -0,0 +1,108 @@
+/**
+ * Sharing
+ * What a collaborator may do with a shared class or exam. A user's access to an item
+ * is the lower of their role (src/lib/roles.ts) and their share: a proctor shared as
+ * an editor still cannot edit answer keys. firestore.rules applies the same levels.
+ *
+ * Only the owner (createdBy) manages collaborators, archives or deletes the item.
+ */
+
+import { Permission, UserAccount } from '@/types/roles';
+import { Collaborator, Shareable, ShareAccess } from '@/types/sharing';
+import { getVisibleOwnerIds, hasPermission } from '@/lib/roles';
+
+export type ItemAccess = 'owner' | ShareAccess;
+
+export const SHARE_ACCESS_LEVELS: ShareAccess[] = ['viewer', 'scanner', 'editor'];
+
+export const SHARE_ACCESS_LABELS: Record<ShareAccess, string> = {
+  viewer: 'Viewer',
+  scanner: 'Scanner',
+  editor: 'Editor',
+};
+
+export const SHARE_ACCESS_DESCRIPTIONS: Record<ShareAccess, string> = {
+  viewer: 'Sees the item and its results',
+  scanner: 'Also scans and reviews answer sheets',
+  editor: 'Also edits details, the roster and the answer key',
+};
+
+const ACCESS_RANK: Record<ItemAccess, number> = { viewer: 1, scanner: 2, editor: 3, owner: 4 };
+
+// The share level each page permission needs on the item itself
+const PERMISSION_ACCESS: Partial<Record<Permission, ShareAccess>> = {
+  view_classes: 'viewer',
+  view_results: 'viewer',
+  scan_papers: 'scanner',
+  edit_answer_keys: 'editor',
+  manage_exams: 'editor',
+};
+
+/**
+ * The user's access to a class or exam, or null when it is not theirs or shared with them.
+ * Admins and department heads view every item; proctors scan their instructors' items.
+ */
+export const getItemAccess = (
+  item: Shareable | null | undefined,
+  user: Pick<UserAccount, 'id' | 'role' | 'proctorFor'> | null | undefined
+): ItemAccess | null => {
+  if (!item || !user) return null;
+  if (item.createdBy === user.id) return 'owner';
+
+  const levels: ShareAccess[] = [];
+  const shared = item.collaborators?.[user.id]?.access;
+  if (shared) levels.push(shared);
+  if (user.role === 'proctor' && item.createdBy && user.proctorFor?.includes(item.createdBy)) levels.push('scanner');
+  if (hasPermission(user.role, 'view_all_instructors')) levels.push('viewer');
+
+  if (levels.length === 0) return null;
+  return levels.reduce((best, level) => (ACCESS_RANK[level] > ACCESS_RANK[best] ? level : best));
+};
+
+export const accessIncludes = (access: ItemAccess | null, needed: ItemAccess): boolean =>
+  !!access && ACCESS_RANK[access] >= ACCESS_RANK[needed];
+
+/**
+ * Whether the item's access allows an action needing `permission`; the role check is separate
+ */
+export const canOnItem = (access: ItemAccess | null, permission: Permission): boolean => {
+  const needed = PERMISSION_ACCESS[permission];
+  return needed ? accessIncludes(access, needed) : access === 'owner';
+};
+
+/**
+ * The owners to query for one owner's items: that owner when the user may list all of
+ * their items, otherwise none, leaving only the items shared with the user
+ */
+export const getOwnerScope = (
+  user: Pick<UserAccount, 'id' | 'role' | 'proctorFor'>,
+  ownerId: string | undefined
+): string[] => {
+  const visible = getVisibleOwnerIds(user);
+  return ownerId && (visible === undefined || visible.includes(ownerId)) ? [ownerId] : [];
+};
+
+export const isSharedWith = (item: Shareable, userId: string | undefined): boolean =>
+  !!userId && item.createdBy !== userId && !!item.collaborators?.[userId];
+
+/** Collaborators of an item, by name */
+export const listCollaborators = (item: Shareable): Collaborator[] =>
+  Object.values(item.collaborators || {}).sort((a, b) =>
+    (a.fullName || a.email).localeCompare(b.fullName || b.email)
+  );
+
+export type InviteIdentifier = { field: 'email' | 'instructorId'; value: string };
+
+/**
+ * Read an invitation target: an instructor email, or an ID like INSTRUCTOR-007
+ */
+export const parseInviteIdentifier = (input: string): InviteIdentifier | null => {
+  const value = input.trim();
+  if (/^instructor-\d+$/i.test(value)) {
+    return { field: 'instructorId', value: value.toUpperCase() };
+  }
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+    return { field: 'email', value: value.toLowerCase() };
+  }
+  return null;
+};
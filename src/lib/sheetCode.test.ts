@@ -0,0 +1,63 @@
+/**
+ * Sheet Code Tests
+ * Tests: payload round trip, rejecting foreign codes, reading a rendered QR code,
+ * code placement on the built-in sheets
+ */
+
+import QRCode from 'qrcode';
+import { PixelBuffer } from '@/lib/omrEngine';
+import { encodeSheetCode, parseSheetCode, readSheetCode } from '@/lib/sheetCode';
+import { getBuiltInTemplate, getCodeBox, getIdBox, isCompactSheet } from '@/lib/sheetTemplates';
+
+// Paint a QR code onto white paper, `scale` pixels per module with a 4-module quiet zone
+const renderCode = (text: string, scale: number = 4): PixelBuffer => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const side = (modules.size + 8) * scale;
+  const data = new Uint8ClampedArray(side * side * 4).fill(255);
+  for (let y = 0; y < side; y++) {
+    for (let x = 0; x < side; x++) {
+      const row = Math.floor(y / scale) - 4;
+      const col = Math.floor(x / scale) - 4;
+      if (row >= 0 && col >= 0 && row < modules.size && col < modules.size && modules.get(row, col)) {
+        const i = (y * side + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 20;
+      }
+    }
+  }
+  return { width: side, height: side, data };
+};
+
+describe('Sheet Code', () => {
+  const code = { examId: 'exam123', studentId: '202100451', examSet: 'B' };
+
+  test('should round-trip the exam, set and student', () => {
+    expect(parseSheetCode(encodeSheetCode(code))).toEqual(code);
+    expect(parseSheetCode(encodeSheetCode({ ...code, examSet: '' }))).toEqual({ ...code, examSet: '' });
+  });
+
+  test('should ignore codes that were not printed by the app', () => {
+    expect(parseSheetCode('https://example.com')).toBeNull();
+    expect(parseSheetCode('GCOMR1||B|202100451')).toBeNull();
+  });
+
+  test('should read a printed code from pixels', () => {
+    expect(readSheetCode(renderCode(encodeSheetCode(code)))).toEqual(code);
+  });
+
+  test('should return null when there is no code', () => {
+    const blank: PixelBuffer = { width: 200, height: 200, data: new Uint8ClampedArray(200 * 200 * 4).fill(255) };
+    expect(readSheetCode(blank)).toBeNull();
+  });
+
+  test('should place the code on the sheet, above the Student ID box', () => {
+    for (const numQuestions of [20, 50, 100]) {
+      const definition = getBuiltInTemplate(numQuestions);
+      const box = getCodeBox(definition);
+      const idBox = getIdBox(definition.studentId, isCompactSheet(definition));
+
+      expect(box.y).toBeGreaterThan(0);
+      expect(box.x + box.size).toBeLessThan(definition.markers.right);
+      expect(box.y + box.size).toBeLessThan(idBox.top);
+    }
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Sheet Code - QR code printed on pre-filled answer sheets
+ * Carries the exam, set and student so a scan does not depend on the shaded ID grid
+ */
+
+import jsQR from 'jsqr';
+import type { PixelBuffer } from '@/lib/omrEngine';
+
+export interface SheetCode {
+  examId: string;
+  studentId: string;
+  examSet: string; // '' when the student shades their own set
+}
+
+const CODE_PREFIX = 'GCOMR1';
+
+// Phone photos are searched at this size; the printed code stays well above jsQR's minimum
+const MAX_SEARCH_SIDE = 1600;
+
+export const encodeSheetCode = (code: SheetCode): string =>
+  [CODE_PREFIX, code.examId, code.examSet, code.studentId].join('|');
+
+/**
+ * Parse a scanned QR payload; null for codes that were not printed by this app
+ */
+export const parseSheetCode = (text: string): SheetCode | null => {
+  const parts = text.split('|');
+  if (parts.length !== 4 || parts[0] !== CODE_PREFIX || !parts[1] || !parts[3]) {
+    return null;
+  }
+  return { examId: parts[1], examSet: parts[2], studentId: parts[3] };
+};
+
+const toRgba = (image: PixelBuffer, maxSide: number): { data: Uint8ClampedArray; width: number; height: number } => {
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  if (scale === 1) {
+    const data = image.data instanceof Uint8ClampedArray
+      ? image.data
+      : new Uint8ClampedArray(image.data.buffer, image.data.byteOffset, image.data.length);
+    return { data, width: image.width, height: image.height };
+  }
+
+  // Nearest-neighbour downscale
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor(x / scale));
+      const src = (sy * image.width + sx) * 4;
+      const dst = (y * width + x) * 4;
+      data[dst] = image.data[src];
+      data[dst + 1] = image.data[src + 1];
+      data[dst + 2] = image.data[src + 2];
+      data[dst + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+/**
+ * Find and decode the sheet code in a photo or scanned page (RGBA pixels)
+ */
+export const readSheetCode = (image: PixelBuffer): SheetCode | null => {
+  const { data, width, height } = toRgba(image, MAX_SEARCH_SIDE);
+  const found = jsQR(data, width, height, { inversionAttempts: 'dontInvert' });
+  return found ? parseSheetCode(found.data) : null;
+};
@@ -0,0 +1,155 @@
+/**
+ * Sheet Image Loader
+ * Turns uploaded answer-sheet files (multi-page PDFs, zip archives, JPEG/PNG images)
+ * into pixel buffers the OMR engine can read. Browser-only: relies on canvas and
+ * createImageBitmap for decoding.
+ */
+
+import type { PixelBuffer } from '@/lib/omrEngine';
+
+export interface SheetPage {
+  id: string;
+  source: string; // e.g. "scans.pdf — page 3" or "batch.zip / IMG_0042.jpg"
+  image: PixelBuffer;
+  thumbnail: string; // JPEG data URL
+}
+
+// Copier scans come in at 200–300 dpi; the reader doesn't need more than ~1600px across
+const MAX_SHEET_WIDTH = 1600;
+const THUMBNAIL_WIDTH = 240;
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+
+const hasExtension = (name: string, extensions: string[]) =>
+  extensions.some(ext => name.toLowerCase().endsWith(ext));
+
+export const isPdfFile = (name: string) => hasExtension(name, ['.pdf']);
+export const isZipFile = (name: string) => hasExtension(name, ['.zip']);
+export const isImageFile = (name: string) => hasExtension(name, IMAGE_EXTENSIONS);
+
+export const isSupportedSheetFile = (file: File) =>
+  isPdfFile(file.name) || isZipFile(file.name) || isImageFile(file.name);
+
+let pageCounter = 0;
+
+// Paint an OMR engine pixel buffer onto a fresh canvas for display, overlays or encoding
+export function pixelBufferToCanvas(image: PixelBuffer): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const imageData = ctx.createImageData(image.width, image.height);
+    imageData.data.set(image.data);
+    ctx.putImageData(imageData, 0, 0);
+  }
+  return canvas;
+}
+
+function canvasToPage(canvas: HTMLCanvasElement, source: string): SheetPage {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const thumbCanvas = document.createElement('canvas');
+  const thumbScale = THUMBNAIL_WIDTH / canvas.width;
+  thumbCanvas.width = THUMBNAIL_WIDTH;
+  thumbCanvas.height = Math.round(canvas.height * thumbScale);
+  thumbCanvas.getContext('2d')?.drawImage(canvas, 0, 0, thumbCanvas.width, thumbCanvas.height);
+
+  pageCounter += 1;
+  return {
+    id: `page_${Date.now()}_${pageCounter}`,
+    source,
+    image: { width: imageData.width, height: imageData.height, data: imageData.data },
+    thumbnail: thumbCanvas.toDataURL('image/jpeg', 0.7),
+  };
+}
+
+async function imageBlobToPage(blob: Blob, source: string): Promise<SheetPage> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, MAX_SHEET_WIDTH / bitmap.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvasToPage(canvas, source);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function* renderPdfPages(data: ArrayBuffer, sourceName: string): AsyncGenerator<SheetPage> {
+  // Loaded lazily so pdf.js only ships to users who actually import PDFs
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    'pdfjs-dist/build/pdf.worker.min.mjs',
+    import.meta.url
+  ).toString();
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: MAX_SHEET_WIDTH / baseViewport.width });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas context not available');
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+
+      yield canvasToPage(canvas, `${sourceName} — page ${pageNumber}`);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function* readZipEntries(file: File): AsyncGenerator<SheetPage> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(file);
+
+  // Sort by path so copier-numbered files (scan_001.jpg, scan_002.jpg …) stay in order
+  const entries = Object.values(zip.files)
+    .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'))
+    .filter(entry => isImageFile(entry.name) || isPdfFile(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  for (const entry of entries) {
+    const source = `${file.name} / ${entry.name}`;
+    if (isPdfFile(entry.name)) {
+      yield* renderPdfPages(await entry.async('arraybuffer'), source);
+    } else {
+      yield await imageBlobToPage(await entry.async('blob'), source);
+    }
+  }
+}
+
+/**
+ * Load every answer-sheet page from the given files, one page at a time.
+ * Pages are yielded as soon as they're decoded so the caller can read and
+ * display them progressively instead of holding hundreds of pages in memory.
+ */
+export async function* loadSheetPages(files: File[]): AsyncGenerator<SheetPage> {
+  for (const file of files) {
+    if (isPdfFile(file.name)) {
+      yield* renderPdfPages(await file.arrayBuffer(), file.name);
+    } else if (isZipFile(file.name)) {
+      yield* readZipEntries(file);
+    } else if (isImageFile(file.name)) {
+      yield await imageBlobToPage(file, file.name);
+    } else {
+      console.warn(`[SheetLoader] Skipping unsupported file: ${file.name}`);
+    }
+  }
+}
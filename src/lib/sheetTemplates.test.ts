@@ -0,0 +1,96 @@
+/**
+ * Sheet Template Tests
+ * Tests: built-in sheets match the original layouts, generated sheets fit and validate,
+ * conversion to the OMR reader layout
+ */
+
+import {
+  createSheetTemplate,
+  getBuiltInTemplate,
+  getSheetType,
+  toTemplateLayout,
+  validateSheetTemplate,
+} from '@/lib/sheetTemplates';
+
+const questionsOf = (blocks: Array<{ startQ: number; endQ: number }>) =>
+  blocks
+    .flatMap(b => Array.from({ length: b.endQ - b.startQ + 1 }, (_, i) => b.startQ + i))
+    .sort((a, b) => a - b);
+
+describe('Sheet Templates', () => {
+  describe('Built-in sheets', () => {
+    test('should reproduce the original 20-item reader layout', () => {
+      const fw = 91;
+      const fh = 107;
+      const layout = toTemplateLayout(getBuiltInTemplate(20));
+
+      expect(layout.id.digits).toBe(9);
+      expect(layout.id.firstColNX).toBeCloseTo(11 / fw);
+      expect(layout.id.firstRowNY).toBeCloseTo(15 / fh);
+      expect(layout.answerBlocks[0].firstBubbleNX).toBeCloseTo(13 / fw);
+      expect(layout.answerBlocks[0].firstBubbleNY).toBeCloseTo(58 / fh);
+      expect(layout.answerBlocks[1].firstBubbleNX).toBeCloseTo(55.5 / fw);
+      expect(layout.examSet.firstNX).toBeCloseTo(67 / fw);
+      expect(layout.bubbleDiameterNX).toBeCloseTo(3.2 / fw);
+    });
+
+    test('should keep the original sheet type for each question count', () => {
+      expect(getSheetType(getBuiltInTemplate(20))).toBe(20);
+      expect(getSheetType(getBuiltInTemplate(50))).toBe(50);
+      expect(getSheetType(getBuiltInTemplate(100))).toBe(100);
+    });
+
+    test('should validate cleanly and drop blocks past the question count', () => {
+      for (const numQuestions of [20, 50, 100]) {
+        expect(validateSheetTemplate(getBuiltInTemplate(numQuestions), 3)).toEqual([]);
+      }
+
+      const partial = getBuiltInTemplate(35);
+      expect(questionsOf(partial.answers.blocks)).toEqual(Array.from({ length: 35 }, (_, i) => i + 1));
+    });
+  });
+
+  describe('Generated sheets', () => {
+    test.each([
+      ['quad', 20, 6],
+      ['double', 30, 4],
+      ['double', 60, 5],
+      ['single', 80, 6],
+      ['single', 100, 5],
+    ] as const)('should fit a %s sheet with %i items and %i choices', (layout, numQuestions, choices) => {
+      const definition = createSheetTemplate({ layout, numQuestions, choices, idDigits: 10 });
+
+      expect(validateSheetTemplate(definition, 3)).toEqual([]);
+      expect(questionsOf(definition.answers.blocks)).toEqual(
+        Array.from({ length: numQuestions }, (_, i) => i + 1)
+      );
+      expect(toTemplateLayout(definition).id.digits).toBe(10);
+    });
+
+    test('should keep every bubble inside the marker frame', () => {
+      const layout = toTemplateLayout(createSheetTemplate({ layout: 'double', numQuestions: 60, choices: 5, idDigits: 9 }));
+
+      layout.answerBlocks.forEach(block => {
+        const lastNX = block.firstBubbleNX + 4 * block.bubbleSpacingNX;
+        const lastNY = block.firstBubbleNY + (block.endQ - block.startQ) * block.rowSpacingNY;
+        expect(block.firstBubbleNX).toBeGreaterThan(0);
+        expect(block.firstBubbleNY).toBeGreaterThan(0);
+        expect(lastNX).toBeLessThan(1);
+        expect(lastNY).toBeLessThan(1);
+      });
+    });
+
+    test('should report questions that do not fit', () => {
+      const definition = createSheetTemplate({ layout: 'quad', numQuestions: 150, choices: 5, idDigits: 9 });
+      const errors = validateSheetTemplate(definition);
+
+      expect(errors.some(e => e.includes('of 150 questions fit'))).toBe(true);
+    });
+
+    test('should reject unsupported choice and ID digit counts', () => {
+      const definition = createSheetTemplate({ layout: 'single', numQuestions: 20, choices: 4, idDigits: 2 });
+
+      expect(validateSheetTemplate(definition)).toContain('Student ID length must be between 4 and 12 digits');
+    });
+  });
+});
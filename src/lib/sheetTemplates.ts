@@ -0,0 +1,384 @@
+/**
+ * Sheet Templates
+ * Builds, checks and converts SheetTemplateDefinitions — the single description of
+ * an answer sheet that the PDF generator prints, the OMR engine reads and the
+ * template designer previews. The built-in 20/50/100 sheets reproduce the layouts
+ * printed before templates existed, so sheets already in circulation still scan.
+ */
+
+import type { TemplateLayout, TemplateType } from '@/lib/omrEngine';
+import { SheetAnswerBlock, SheetLayout, SheetTemplateDefinition } from '@/types/templates';
+
+export const SHEET_CHOICE_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+export const MAX_SHEET_CHOICES = SHEET_CHOICE_LABELS.length;
+export const MIN_ID_DIGITS = 4;
+export const MAX_ID_DIGITS = 12;
+
+const A4 = { width: 210, height: 297 };
+
+export const SHEET_LAYOUT_SIZES: Record<SheetLayout, { width: number; height: number }> = {
+  single: { width: A4.width, height: A4.height },
+  double: { width: A4.width / 2, height: A4.height },
+  quad: { width: A4.width / 2, height: A4.height / 2 },
+};
+
+export const SHEET_LAYOUT_LABELS: Record<SheetLayout, string> = {
+  single: 'Full page (1 per A4)',
+  double: 'Half page (2 per A4)',
+  quad: 'Quarter page (4 per A4)',
+};
+
+/** Half and quarter sheets use smaller text, markers and bubbles */
+export const isCompactSheet = (definition: SheetTemplateDefinition): boolean =>
+  definition.page.width < 150;
+
+/**
+ * Closest of the three original sheet types; the marker finder's position heuristics
+ * and the camera guide are tuned per type.
+ */
+export const getSheetType = (definition: SheetTemplateDefinition): TemplateType => {
+  if (!isCompactSheet(definition)) return 100;
+  return definition.page.height >= 200 ? 50 : 20;
+};
+
+export const getSheetsPerPage = (definition: SheetTemplateDefinition): { cols: number; rows: number } => ({
+  cols: Math.max(1, Math.floor((A4.width + 0.01) / definition.page.width)),
+  rows: Math.max(1, Math.floor((A4.height + 0.01) / definition.page.height)),
+});
+
+// ─── BUILT-IN SHEETS ───
+
+const block = (startQ: number, endQ: number, x: number, y: number): SheetAnswerBlock => ({ startQ, endQ, x, y });
+
+// Mini sheets: 105 mm wide, marker centres at x = 7 and 98, top marker row at y = 19
+const compactBase = (height: number, bottom: number) => ({
+  page: { width: 105, height },
+  markers: { size: 4, left: 7, right: 98, top: 19, bottom },
+  studentId: { digits: 9, x: 18, y: 34, colSpacing: 4.5, rowSpacing: 3.5, bubbleSize: 3.2 },
+  examSet: { x: 74, y: 30, spacing: 4.5 },
+});
+
+const BUILT_IN_BLOCKS: Record<TemplateType, SheetAnswerBlock[]> = {
+  20: [block(1, 10, 20, 77), block(11, 20, 62.5, 77)],
+  50: [
+    block(1, 10, 20, 77),
+    block(11, 20, 20, 129),
+    block(21, 30, 20, 181),
+    block(31, 40, 62.5, 77),
+    block(41, 50, 62.5, 129),
+  ],
+  100: [
+    // Beside the ID box
+    block(41, 50, 95.85, 57.5),
+    block(71, 80, 161.35, 57.5),
+    // 4 × 2 grid below it
+    block(1, 10, 31.36, 111.5),
+    block(21, 30, 76.52, 111.5),
+    block(51, 60, 121.68, 111.5),
+    block(81, 90, 166.84, 111.5),
+    block(11, 20, 31.36, 167.5),
+    block(31, 40, 76.52, 167.5),
+    block(61, 70, 121.68, 167.5),
+    block(91, 100, 166.84, 167.5),
+  ],
+};
+
+/**
+ * The original sheet for a question count: a 20-item quarter page, 50-item half page
+ * or 100-item full page. Blocks past numQuestions are dropped.
+ */
+export const getBuiltInTemplate = (numQuestions: number, choices: number = 5): SheetTemplateDefinition => {
+  const type: TemplateType = numQuestions <= 20 ? 20 : numQuestions <= 50 ? 50 : 100;
+  const count = Math.min(numQuestions, type);
+  const blocks = BUILT_IN_BLOCKS[type]
+    .filter(b => b.startQ <= count)
+    .map(b => ({ ...b, endQ: Math.min(b.endQ, count) }));
+
+  if (type === 100) {
+    return {
+      page: { width: 210, height: 297 },
+      markers: { size: 7, left: 6.5, right: 203.5, top: 6.5, bottom: 222 },
+      studentId: { digits: 9, x: 21, y: 53, colSpacing: 4.5, rowSpacing: 4.8, bubbleSize: 3.5 },
+      examSet: { x: 81, y: 45, spacing: 5.0 },
+      answers: { numQuestions: count, choices, bubbleSize: 3.8, bubbleSpacing: 5.0, rowSpacing: 4.8, blocks },
+    };
+  }
+
+  return {
+    ...(type === 20 ? compactBase(148.5, 126) : compactBase(297, 230)),
+    answers: { numQuestions: count, choices, bubbleSize: 3.2, bubbleSpacing: 4.8, rowSpacing: 4.5, blocks },
+  };
+};
+
+// ─── GENERATED SHEETS ───
+
+export interface SheetTemplateOptions {
+  layout: SheetLayout;
+  numQuestions: number;
+  choices: number;
+  idDigits: number;
+  rowsPerBlock?: number; // questions per answer block (default 10)
+  bubbleSize?: number;
+  bubbleSpacing?: number;
+  rowSpacing?: number;
+}
+
+/**
+ * Lay out a sheet for any question count: answer blocks fill a grid below the ID box
+ * column by column, then any room beside the ID box. Questions that do not fit are
+ * left off; validateSheetTemplate() reports them.
+ */
+export const createSheetTemplate = (options: SheetTemplateOptions): SheetTemplateDefinition => {
+  const { width, height } = SHEET_LAYOUT_SIZES[options.layout];
+  const compact = width < 150;
+  const rowsPerBlock = Math.max(1, options.rowsPerBlock || 10);
+  const choices = Math.min(MAX_SHEET_CHOICES, Math.max(2, options.choices));
+  const digits = Math.min(MAX_ID_DIGITS, Math.max(1, options.idDigits));
+
+  const markers = compact
+    ? { size: 4, left: 7, right: width - 7, top: 19, bottom: 0 }
+    : { size: 7, left: 6.5, right: width - 6.5, top: 6.5, bottom: 0 };
+  const studentId = compact
+    ? { digits, x: 18, y: markers.top + 15, colSpacing: 4.5, rowSpacing: 3.5, bubbleSize: 3.2 }
+    : { digits, x: 21, y: markers.top + 46.5, colSpacing: 4.5, rowSpacing: 4.8, bubbleSize: 3.5 };
+
+  const bubbleSize = options.bubbleSize || (compact ? 3.2 : 3.8);
+  const bubbleSpacing = options.bubbleSpacing || (compact ? 4.8 : 5.0);
+  const rowSpacing = options.rowSpacing || (compact ? 4.5 : 4.8);
+
+  const metrics = getSheetMetrics(compact);
+  const contentLeft = markers.left + metrics.contentInset;
+  const contentRight = markers.right - metrics.contentInset;
+  const idBox = getIdBox(studentId, compact);
+
+  const examSet = {
+    x: idBox.right + metrics.setLabelWidth + 5,
+    y: studentId.y - (compact ? 4 : 8),
+    spacing: compact ? 4.5 : 5.0,
+  };
+
+  // Block footprint: question numbers, then the bubbles
+  const blockWidth = metrics.numberWidth + (choices - 1) * bubbleSpacing + bubbleSize / 2;
+  const blockGap = 4;
+  const blockHeight = metrics.headerGap + rowsPerBlock * rowSpacing + (compact ? 3 : 3.5);
+
+  // Bottom markers sit just below the last row and must stay on the sheet
+  const bottomMarkerOffset = rowSpacing + (compact ? 2 : 3) + markers.size / 2;
+  const maxBottomMarker = height - (compact ? 4 : 30);
+  const maxLastRowY = maxBottomMarker - bottomMarkerOffset;
+
+  const blocks: SheetAnswerBlock[] = [];
+  let nextQ = 1;
+  const place = (x: number, y: number) => {
+    if (nextQ > options.numQuestions) return;
+    const endQ = Math.min(options.numQuestions, nextQ + rowsPerBlock - 1);
+    blocks.push({ startQ: nextQ, endQ, x: round(x), y: round(y) });
+    nextQ = endQ + 1;
+  };
+
+  // Grid below the ID box, filled column by column
+  const gridTop = idBox.bottom + metrics.headerGap + (compact ? 4 : 7);
+  const gridWidth = contentRight - contentLeft;
+  const gridCols = Math.max(1, Math.floor((gridWidth + blockGap) / (blockWidth + blockGap)));
+  const maxGridRows = Math.max(0, Math.floor((maxLastRowY - gridTop - (rowsPerBlock - 1) * rowSpacing) / blockHeight) + 1);
+  const blocksNeeded = Math.ceil(options.numQuestions / rowsPerBlock);
+  const gridRows = Math.min(maxGridRows, Math.ceil(blocksNeeded / gridCols));
+  const colWidth = gridWidth / gridCols;
+
+  for (let col = 0; col < gridCols; col++) {
+    for (let row = 0; row < gridRows; row++) {
+      place(
+        contentLeft + col * colWidth + (colWidth - blockWidth) / 2 + metrics.numberWidth,
+        gridTop + row * blockHeight
+      );
+    }
+  }
+
+  // Room beside the ID box, below the set row
+  const sideTop = studentId.y + metrics.headerGap;
+  const sideLeft = idBox.right + blockGap;
+  const sideFits = sideTop + (rowsPerBlock - 1) * rowSpacing + bubbleSize / 2 < gridTop - metrics.headerGap - 1;
+  if (sideFits) {
+    const sideCols = Math.floor((contentRight - sideLeft + blockGap) / (blockWidth + blockGap));
+    const sideColWidth = sideCols > 0 ? (contentRight - sideLeft) / sideCols : 0;
+    for (let col = 0; col < sideCols; col++) {
+      place(sideLeft + col * sideColWidth + (sideColWidth - blockWidth) / 2 + metrics.numberWidth, sideTop);
+    }
+  }
+
+  const lastRowY = blocks.reduce((max, b) => Math.max(max, b.y + (b.endQ - b.startQ) * rowSpacing), idBox.bottom);
+
+  return {
+    page: { width, height },
+    markers: { ...markers, bottom: round(lastRowY + bottomMarkerOffset) },
+    studentId,
+    examSet: { ...examSet, x: round(examSet.x) },
+    answers: {
+      numQuestions: options.numQuestions,
+      choices,
+      bubbleSize,
+      bubbleSpacing,
+      rowSpacing,
+      blocks,
+    },
+  };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Spacing the PDF generator and the designer preview share, so the generator leaves
+ * room for everything they print around the bubbles.
+ */
+export const getSheetMetrics = (compact: boolean) => ({
+  contentInset: compact ? 3 : 3.5, // from the marker centre lines to the content edges
+  numberWidth: compact ? 10 : 12, // question-number column before the first bubble
+  headerGap: compact ? 4 : 4.5, // choice-letter header row above the first question
+  idLabelWidth: compact ? 6 : 8,
+  idPadding: compact ? 2 : 3,
+  setLabelWidth: compact ? 8 : 9,
+  fontSize: compact ? 6.5 : 7,
+});
+
+/** Bounding box of the printed Student ID section (label, write-in boxes, bubbles) */
+export const getIdBox = (
+  studentId: SheetTemplateDefinition['studentId'],
+  compact: boolean
+): { left: number; right: number; top: number; bottom: number; writeInTop: number; writeInHeight: number } => {
+  const { idLabelWidth, idPadding } = getSheetMetrics(compact);
+  const half = studentId.bubbleSize / 2;
+  const writeInHeight = studentId.bubbleSize + 1.3;
+  const writeInTop = studentId.y - half - 2 - writeInHeight;
+  return {
+    left: studentId.x - idLabelWidth - idPadding,
+    right: studentId.x + (studentId.digits - 1) * studentId.colSpacing + half + idPadding,
+    top: writeInTop - 5,
+    bottom: studentId.y + 9 * studentId.rowSpacing + half + 2,
+    writeInTop,
+    writeInHeight,
+  };
+};
+
+/** Square the QR code of a pre-filled sheet is printed in: the header's right end, above the Name line */
+export const getCodeBox = (definition: SheetTemplateDefinition): { x: number; y: number; size: number } => {
+  const compact = isCompactSheet(definition);
+  const { markers, studentId } = definition;
+  const size = compact ? 13 : 20;
+  const nameY = getIdBox(studentId, compact).top - 2;
+  return {
+    x: markers.right - markers.size / 2 - 3 - size,
+    y: nameY - (compact ? 3.5 : 5) - size,
+    size,
+  };
+};
+
+// ─── VALIDATION ───
+
+/**
+ * Problems that would make a sheet unprintable or unreadable; empty when it is fine
+ */
+export const validateSheetTemplate = (definition: SheetTemplateDefinition, examSets: number = 0): string[] => {
+  const errors: string[] = [];
+  const { page, markers, studentId, answers } = definition;
+
+  if (answers.choices < 2 || answers.choices > MAX_SHEET_CHOICES) {
+    errors.push(`Choices per item must be between 2 and ${MAX_SHEET_CHOICES}`);
+  }
+  if (studentId.digits < MIN_ID_DIGITS || studentId.digits > MAX_ID_DIGITS) {
+    errors.push(`Student ID length must be between ${MIN_ID_DIGITS} and ${MAX_ID_DIGITS} digits`);
+  }
+  if (answers.numQuestions < 1) {
+    errors.push('The sheet needs at least one question');
+  }
+
+  // Every question placed exactly once
+  const placed = new Map<number, number>();
+  answers.blocks.forEach(b => {
+    for (let q = b.startQ; q <= b.endQ; q++) placed.set(q, (placed.get(q) || 0) + 1);
+  });
+  const missing: number[] = [];
+  const repeated: number[] = [];
+  for (let q = 1; q <= answers.numQuestions; q++) {
+    const count = placed.get(q) || 0;
+    if (count === 0) missing.push(q);
+    if (count > 1) repeated.push(q);
+  }
+  if (missing.length > 0) {
+    errors.push(
+      `Only ${answers.numQuestions - missing.length} of ${answers.numQuestions} questions fit on this sheet`
+    );
+  }
+  if (repeated.length > 0) {
+    errors.push(`Questions ${repeated.join(', ')} are printed more than once`);
+  }
+
+  // Bubbles are read relative to the marker frame, so they must lie inside it
+  const inFrame = (x: number, y: number) =>
+    x > markers.left && x < markers.right && y > markers.top && y < markers.bottom;
+  const outside = answers.blocks.some(b => {
+    const lastX = b.x + (answers.choices - 1) * answers.bubbleSpacing;
+    const lastY = b.y + (b.endQ - b.startQ) * answers.rowSpacing;
+    return !inFrame(b.x, b.y) || !inFrame(lastX, lastY);
+  });
+  if (outside) {
+    errors.push('Some answer bubbles fall outside the corner markers');
+  }
+  const idLastX = studentId.x + (studentId.digits - 1) * studentId.colSpacing;
+  const idLastY = studentId.y + 9 * studentId.rowSpacing;
+  if (!inFrame(studentId.x, studentId.y) || !inFrame(idLastX, idLastY)) {
+    errors.push('The Student ID bubbles fall outside the corner markers');
+  }
+  if (examSets > 1) {
+    const setLastX = definition.examSet.x + (examSets - 1) * definition.examSet.spacing;
+    if (!inFrame(definition.examSet.x, definition.examSet.y) || !inFrame(setLastX, definition.examSet.y)) {
+      errors.push('The exam set row does not fit next to the Student ID');
+    }
+  }
+
+  if (markers.bottom + markers.size / 2 > page.height || markers.right + markers.size / 2 > page.width) {
+    errors.push('The corner markers run off the sheet');
+  }
+
+  return errors;
+};
+
+// ─── READER LAYOUT ───
+
+/**
+ * Convert the millimetre definition into the marker-relative coordinates the OMR
+ * engine samples at (0,0 = top-left marker centre, 1,1 = bottom-right).
+ */
+export const toTemplateLayout = (definition: SheetTemplateDefinition): TemplateLayout => {
+  const { markers, studentId, examSet, answers } = definition;
+  const fw = markers.right - markers.left;
+  const fh = markers.bottom - markers.top;
+  const nx = (x: number) => (x - markers.left) / fw;
+  const ny = (y: number) => (y - markers.top) / fh;
+
+  return {
+    id: {
+      digits: studentId.digits,
+      firstColNX: nx(studentId.x),
+      firstRowNY: ny(studentId.y),
+      colSpacingNX: studentId.colSpacing / fw,
+      rowSpacingNY: studentId.rowSpacing / fh,
+      bubbleDiameterNX: studentId.bubbleSize / fw,
+      bubbleDiameterNY: studentId.bubbleSize / fh,
+    },
+    answerBlocks: answers.blocks.map(b => ({
+      startQ: b.startQ,
+      endQ: b.endQ,
+      firstBubbleNX: nx(b.x),
+      firstBubbleNY: ny(b.y),
+      bubbleSpacingNX: answers.bubbleSpacing / fw,
+      rowSpacingNY: answers.rowSpacing / fh,
+    })),
+    examSet: {
+      firstNX: nx(examSet.x),
+      firstNY: ny(examSet.y),
+      spacingNX: examSet.spacing / fw,
+    },
+    bubbleDiameterNX: answers.bubbleSize / fw,
+    bubbleDiameterNY: answers.bubbleSize / fh,
+  };
+};
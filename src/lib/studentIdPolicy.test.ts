@@ -0,0 +1,107 @@
+/**
+ * Student ID Policy Tests
+ * Tests: policy validation, Luhn check digits, ID checks, generation and sequence numbers,
+ * mapping IDs to and from the answer sheet's ID grid, blank IDs
+ */
+
+import {
+  DEFAULT_STUDENT_ID_POLICY,
+  checkStudentId,
+  computeCheckDigit,
+  countIdDigits,
+  fromGridDigits,
+  generateStudentId,
+  getIdSequence,
+  getMaxSequence,
+  isNullStudentId,
+  toGridDigits,
+  validateIdPolicy,
+} from '@/lib/studentIdPolicy';
+import { StudentIdPolicy } from '@/types/studentId';
+
+const NINE_DIGITS: StudentIdPolicy = { mask: 'YYYY#####', checkDigit: 'none' };
+const WITH_CHECK: StudentIdPolicy = { mask: 'YYYY####', checkDigit: 'luhn' };
+
+describe('validateIdPolicy', () => {
+  it('accepts the default and a 9-digit mask', () => {
+    expect(validateIdPolicy(DEFAULT_STUDENT_ID_POLICY)).toEqual([]);
+    expect(validateIdPolicy(NINE_DIGITS)).toEqual([]);
+  });
+
+  it('rejects masks without a sequence, with unknown characters or too many digits', () => {
+    expect(validateIdPolicy({ mask: '', checkDigit: 'none' })).toHaveLength(1);
+    expect(validateIdPolicy({ mask: 'YYYY', checkDigit: 'none' })).toHaveLength(1);
+    expect(validateIdPolicy({ mask: '#', checkDigit: 'luhn' })).toHaveLength(1);
+    expect(validateIdPolicy({ mask: '####_####', checkDigit: 'none' })).toHaveLength(1);
+    expect(validateIdPolicy({ mask: '#############', checkDigit: 'none' })).toHaveLength(1);
+  });
+});
+
+describe('computeCheckDigit', () => {
+  it('computes the Luhn check digit', () => {
+    expect(computeCheckDigit('7992739871', 'luhn')).toBe(3);
+    expect(computeCheckDigit('7992739871', 'none')).toBeNull();
+  });
+});
+
+describe('checkStudentId', () => {
+  it('keeps the YYYY-#### rules by default', () => {
+    expect(checkStudentId('2026-0001', DEFAULT_STUDENT_ID_POLICY)).toBeNull();
+    expect(checkStudentId('2026-0000', DEFAULT_STUDENT_ID_POLICY)).toMatch(/all zeros/);
+    expect(checkStudentId('20260001', DEFAULT_STUDENT_ID_POLICY)).toMatch(/YYYY-####/);
+  });
+
+  it('checks a 9-digit ID with no dash', () => {
+    expect(checkStudentId('202600017', NINE_DIGITS)).toBeNull();
+    expect(checkStudentId('2026-00017', NINE_DIGITS)).not.toBeNull();
+    expect(checkStudentId('20260001', NINE_DIGITS)).not.toBeNull();
+  });
+
+  it('rejects a mistyped check digit', () => {
+    const id = generateStudentId(WITH_CHECK, 12, 2026);
+    expect(checkStudentId(id, WITH_CHECK)).toBeNull();
+    const mistyped = id.slice(0, -1) + String((Number(id.slice(-1)) + 1) % 10);
+    expect(checkStudentId(mistyped, WITH_CHECK)).toMatch(/check digit/);
+  });
+});
+
+describe('generateStudentId', () => {
+  it('fills the year, the sequence and the check digit', () => {
+    expect(generateStudentId(DEFAULT_STUDENT_ID_POLICY, 1, 2026)).toBe('2026-0001');
+    expect(generateStudentId(NINE_DIGITS, 17, 2026)).toBe('202600017');
+    expect(generateStudentId({ mask: 'S-YY-###', checkDigit: 'none' }, 5, 2026)).toBe('S-26-005');
+    expect(generateStudentId(WITH_CHECK, 12, 2026)).toMatch(/^2026012\d$/);
+  });
+
+  it('reads back the sequence of IDs issued this year only', () => {
+    expect(getIdSequence('2026-0042', DEFAULT_STUDENT_ID_POLICY, 2026)).toBe(42);
+    expect(getIdSequence('2025-0042', DEFAULT_STUDENT_ID_POLICY, 2026)).toBe(0);
+    expect(getIdSequence(generateStudentId(WITH_CHECK, 12, 2026), WITH_CHECK, 2026)).toBe(12);
+    expect(getMaxSequence(DEFAULT_STUDENT_ID_POLICY)).toBe(9999);
+    expect(getMaxSequence(WITH_CHECK)).toBe(999);
+  });
+});
+
+describe('ID grid mapping', () => {
+  it('bubbles only the digit positions', () => {
+    expect(countIdDigits(DEFAULT_STUDENT_ID_POLICY)).toBe(8);
+    expect(toGridDigits('2026-0001', DEFAULT_STUDENT_ID_POLICY)).toBe('20260001');
+    expect(toGridDigits('not-an-id', DEFAULT_STUDENT_ID_POLICY)).toBeNull();
+  });
+
+  it('rebuilds the ID from shaded digits that fill the mask', () => {
+    expect(fromGridDigits('20260001', DEFAULT_STUDENT_ID_POLICY)).toBe('2026-0001');
+    expect(fromGridDigits('202600017', NINE_DIGITS)).toBe('202600017');
+    expect(fromGridDigits('2026001', DEFAULT_STUDENT_ID_POLICY)).toBe('2026001');
+  });
+});
+
+describe('isNullStudentId', () => {
+  it('treats blank and all-zero IDs as missing', () => {
+    expect(isNullStudentId('')).toBe(true);
+    expect(isNullStudentId(undefined)).toBe(true);
+    expect(isNullStudentId('0000000000')).toBe(true);
+    expect(isNullStudentId('0000-0000')).toBe(true);
+    expect(isNullStudentId('2026-0001')).toBe(false);
+  });
+});
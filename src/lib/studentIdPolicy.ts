@@ -0,0 +1,223 @@
+/**
+ * Student ID Policy
+ * The institution's Student ID format, shared by validation, auto-assignment, answer
+ * sheet templates and scanning. The mask spells out the ID one character at a time:
+ *   #  a digit
+ *   Y  a digit of the year the ID was issued; auto-assignment fills in the current year
+ *   anything else (letters, digits, "-", ".", "/") is part of every ID as written
+ * The # digits hold the sequence number; with a check digit the last # holds it instead.
+ *
+ * On the answer sheet's ID grid each # or Y position takes one bubble column, in order,
+ * and the other characters are not bubbled: "2026-0001" is shaded as 20260001. A grid
+ * with more columns than the ID has digits is shaded from the left.
+ */
+
+import { CheckDigitScheme, StudentIdPolicy } from '@/types/studentId';
+import { MAX_ID_DIGITS } from '@/lib/sheetTemplates';
+
+const DIGIT = '#';
+const YEAR_DIGIT = 'Y';
+const LITERAL_PATTERN = /^[A-XZ0-9\-./]$/;
+
+// The format Student IDs had before the policy could be changed
+export const DEFAULT_STUDENT_ID_POLICY: StudentIdPolicy = { mask: 'YYYY-####', checkDigit: 'none' };
+
+export const CHECK_DIGIT_LABELS: Record<CheckDigitScheme, string> = {
+  none: 'None',
+  luhn: 'Luhn (mod 10)',
+};
+
+const normalizeMask = (mask: string) => (mask || '').trim().toUpperCase();
+const normalizeId = (studentId: string) => (studentId || '').trim().toUpperCase();
+
+const isDigitPosition = (char: string) => char === DIGIT || char === YEAR_DIGIT;
+
+const positionsOf = (policy: StudentIdPolicy, predicate: (char: string) => boolean): number[] =>
+  normalizeMask(policy.mask)
+    .split('')
+    .flatMap((char, index) => (predicate(char) ? [index] : []));
+
+const checkDigitPosition = (policy: StudentIdPolicy): number | null => {
+  const digits = positionsOf(policy, char => char === DIGIT);
+  return policy.checkDigit !== 'none' && digits.length > 0 ? digits[digits.length - 1] : null;
+};
+
+const sequencePositions = (policy: StudentIdPolicy): number[] => {
+  const check = checkDigitPosition(policy);
+  return positionsOf(policy, char => char === DIGIT).filter(index => index !== check);
+};
+
+/** Bubble columns the ID takes on the answer sheet's ID grid */
+export const countIdDigits = (policy: StudentIdPolicy): number => positionsOf(policy, isDigitPosition).length;
+
+/** Largest sequence number the mask has room for */
+export const getMaxSequence = (policy: StudentIdPolicy): number => 10 ** sequencePositions(policy).length - 1;
+
+/**
+ * Problems that keep a policy from being saved; empty when it is usable
+ */
+export const validateIdPolicy = (policy: StudentIdPolicy): string[] => {
+  const mask = normalizeMask(policy.mask);
+  if (!mask) return ['Enter an ID mask, e.g. YYYY-#### or #########'];
+
+  const errors: string[] = [];
+  const invalid = mask.split('').find(char => !isDigitPosition(char) && !LITERAL_PATTERN.test(char));
+  if (invalid) {
+    errors.push(`The mask may only contain #, Y, letters, digits, "-", "." and "/" (found "${invalid}")`);
+  }
+
+  const digits = countIdDigits(policy);
+  if (digits > MAX_ID_DIGITS) {
+    errors.push(`The mask has ${digits} digits; answer sheet ID grids hold at most ${MAX_ID_DIGITS}`);
+  }
+  if (sequencePositions(policy).length === 0) {
+    errors.push(
+      policy.checkDigit === 'none'
+        ? 'The mask needs at least one # digit for the sequence number'
+        : 'With a check digit the mask needs at least two # digits: the sequence number and the check digit'
+    );
+  }
+  return errors;
+};
+
+/**
+ * The check digit for the given digits, or null when the scheme has none
+ */
+export const computeCheckDigit = (digits: string, scheme: CheckDigitScheme): number | null => {
+  if (scheme !== 'luhn') return null;
+
+  // Double every second digit from the right, counting the check digit's place as the first
+  let sum = 0;
+  digits
+    .split('')
+    .reverse()
+    .forEach((char, index) => {
+      let value = Number(char);
+      if (index % 2 === 0) {
+        value *= 2;
+        if (value > 9) value -= 9;
+      }
+      sum += value;
+    });
+  return (10 - (sum % 10)) % 10;
+};
+
+// The ID's digits other than the check digit, in order
+const checkedDigits = (id: string, policy: StudentIdPolicy): string => {
+  const check = checkDigitPosition(policy);
+  return positionsOf(policy, isDigitPosition)
+    .filter(index => index !== check)
+    .map(index => id[index])
+    .join('');
+};
+
+const fitsMask = (id: string, policy: StudentIdPolicy): boolean => {
+  const mask = normalizeMask(policy.mask);
+  return (
+    id.length === mask.length &&
+    mask.split('').every((char, index) => (isDigitPosition(char) ? /\d/.test(id[index]) : id[index] === char))
+  );
+};
+
+// The last digits of the year, one per Y in the mask
+const yearDigitsFor = (policy: StudentIdPolicy, year: number): string => {
+  const count = positionsOf(policy, char => char === YEAR_DIGIT).length;
+  return count > 0 ? String(year).padStart(count, '0').slice(-count) : '';
+};
+
+/**
+ * The ID with the given sequence number. Y digits take the last digits of `year`.
+ */
+export const generateStudentId = (
+  policy: StudentIdPolicy,
+  sequence: number,
+  year: number = new Date().getFullYear()
+): string => {
+  const mask = normalizeMask(policy.mask);
+  const yearPositions = positionsOf(policy, char => char === YEAR_DIGIT);
+  const sequenceSlots = sequencePositions(policy);
+  const yearDigits = yearDigitsFor(policy, year);
+  const sequenceDigits = String(sequence).padStart(sequenceSlots.length, '0').slice(-sequenceSlots.length);
+
+  const chars = mask.split('');
+  yearPositions.forEach((position, index) => (chars[position] = yearDigits[index]));
+  sequenceSlots.forEach((position, index) => (chars[position] = sequenceDigits[index]));
+
+  const check = checkDigitPosition(policy);
+  if (check !== null) {
+    chars[check] = '0';
+    chars[check] = String(computeCheckDigit(checkedDigits(chars.join(''), policy), policy.checkDigit));
+  }
+  return chars.join('');
+};
+
+/** An ID in the format, for hints and placeholders */
+export const getIdExample = (policy: StudentIdPolicy, year?: number): string => generateStudentId(policy, 1, year);
+
+/** e.g. "YYYY-#### (e.g., 2026-0001)" */
+export const describeIdFormat = (policy: StudentIdPolicy): string =>
+  `${normalizeMask(policy.mask)} (e.g., ${getIdExample(policy)})` +
+  (policy.checkDigit !== 'none' ? `, last digit is a ${CHECK_DIGIT_LABELS[policy.checkDigit]} check digit` : '');
+
+/**
+ * Why the ID does not follow the policy, or null when it does
+ */
+export const checkStudentId = (studentId: string, policy: StudentIdPolicy): string | null => {
+  const id = normalizeId(studentId);
+  if (!fitsMask(id, policy)) {
+    return `Student ID must follow ${describeIdFormat(policy)}`;
+  }
+  if (sequencePositions(policy).every(index => id[index] === '0')) {
+    return 'Student ID sequence number cannot be all zeros';
+  }
+
+  const check = checkDigitPosition(policy);
+  if (check !== null && Number(id[check]) !== computeCheckDigit(checkedDigits(id, policy), policy.checkDigit)) {
+    return `Student ID "${id}" fails its check digit; a digit may be mistyped`;
+  }
+  return null;
+};
+
+/**
+ * The sequence number of an ID issued in `year` (any year when the mask has no Y),
+ * or 0 for IDs in another format or year
+ */
+export const getIdSequence = (
+  studentId: string,
+  policy: StudentIdPolicy,
+  year: number = new Date().getFullYear()
+): number => {
+  const id = normalizeId(studentId);
+  if (!fitsMask(id, policy)) return 0;
+
+  const yearDigits = yearDigitsFor(policy, year);
+  if (positionsOf(policy, char => char === YEAR_DIGIT).some((position, index) => id[position] !== yearDigits[index])) {
+    return 0;
+  }
+  return Number(sequencePositions(policy).map(index => id[index]).join('')) || 0;
+};
+
+/**
+ * The digits an ID is shaded as on the ID grid, or null if it does not follow the policy
+ */
+export const toGridDigits = (studentId: string, policy: StudentIdPolicy): string | null => {
+  const id = normalizeId(studentId);
+  return fitsMask(id, policy) ? positionsOf(policy, isDigitPosition).map(index => id[index]).join('') : null;
+};
+
+/**
+ * The ID read from the grid's shaded digits. Digits that do not fill the mask are
+ * returned as read, so the misread shows up and fails the roster lookup.
+ */
+export const fromGridDigits = (digits: string, policy: StudentIdPolicy): string => {
+  const positions = positionsOf(policy, isDigitPosition);
+  if (!/^\d+$/.test(digits) || digits.length !== positions.length) return digits;
+
+  const chars = normalizeMask(policy.mask).split('');
+  positions.forEach((position, index) => (chars[position] = digits[index]));
+  return chars.join('');
+};
+
+/** No ID on the sheet: the grid was left blank or shaded all zeros */
+export const isNullStudentId = (studentId: string | null | undefined): boolean =>
+  !/[1-9A-Za-z]/.test(studentId || '');
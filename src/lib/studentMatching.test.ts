@@ -0,0 +1,139 @@
+/**
+ * Student Matching Tests
+ * Tests: name normalization (abbreviations, accents, punctuation), edit distance, ID transposition
+ * and typo detection, match scores and reasons, candidate pairs within a list and against existing records
+ */
+
+import {
+  MATCH_THRESHOLD,
+  compareIds,
+  findMatchCandidates,
+  findMatchesAgainst,
+  levenshtein,
+  normalizeName,
+  scoreStudentMatch,
+} from '@/lib/studentMatching';
+
+const student = (student_id: string, first_name: string, last_name: string, email?: string) => ({
+  student_id,
+  first_name,
+  last_name,
+  ...(email && { email }),
+});
+
+describe('normalizeName', () => {
+  it('writes out abbreviations and drops accents, punctuation and extra spaces', () => {
+    expect(normalizeName('Ma. Cristina  Peña')).toBe('maria cristina pena');
+    expect(normalizeName(' Sto. Niño-Cruz ')).toBe('santo nino cruz');
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshtein('cristina', 'christina')).toBe(1);
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('same', 'same')).toBe(0);
+  });
+});
+
+describe('compareIds', () => {
+  it('detects two adjacent digits swapped', () => {
+    expect(compareIds('2024000123', '2024000132')).toBe('transposition');
+  });
+
+  it('detects one digit mistyped', () => {
+    expect(compareIds('2024000123', '2024000128')).toBe('typo');
+  });
+
+  it('ignores identical, unrelated, very short and different-length IDs', () => {
+    expect(compareIds('2024000123', '2024000123')).toBeNull();
+    expect(compareIds('2024000123', '2024009876')).toBeNull();
+    expect(compareIds('2024000123', '202400012')).toBeNull();
+    expect(compareIds('2024000123', '2024000321')).toBeNull();
+    expect(compareIds('A1', 'A2')).toBeNull();
+  });
+});
+
+describe('scoreStudentMatch', () => {
+  it('treats an abbreviated first name as the same name', () => {
+    const match = scoreStudentMatch(
+      student('2024000001', 'Ma. Cristina', 'Reyes'),
+      student('2024000777', 'Maria Cristina', 'Reyes')
+    );
+    expect(match.reasons).toEqual(['same_name']);
+    expect(match.score).toBe(0.85);
+  });
+
+  it('recognizes first and last name swapped', () => {
+    const match = scoreStudentMatch(student('a', 'Cristina', 'Reyes'), student('b', 'Reyes', 'Cristina'));
+    expect(match.reasons).toEqual(['swapped_name']);
+  });
+
+  it('scores a similar name with a transposed ID above either alone', () => {
+    const nameOnly = scoreStudentMatch(student('2024000123', 'Cristina', 'Reyes'), student('2024000999', 'Christina', 'Reyes'));
+    const both = scoreStudentMatch(student('2024000123', 'Cristina', 'Reyes'), student('2024000132', 'Christina', 'Reyes'));
+
+    expect(nameOnly.reasons).toEqual(['similar_name']);
+    expect(both.reasons).toEqual(['similar_name', 'id_transposition']);
+    expect(both.score).toBeGreaterThan(nameOnly.score);
+    expect(both.score).toBeLessThan(1);
+  });
+
+  it('matches on a shared email regardless of case', () => {
+    const match = scoreStudentMatch(
+      student('a', 'Ana', 'Reyes', 'Ana.Reyes@gmail.com'),
+      student('b', 'Benjamin', 'Santos', 'ana.reyes@gmail.com ')
+    );
+    expect(match).toEqual({ score: 0.8, reasons: ['same_email'] });
+  });
+
+  it('ignores a near-miss ID when the names are unrelated', () => {
+    const match = scoreStudentMatch(student('2024000123', 'Ana', 'Reyes'), student('2024000132', 'Benjamin', 'Santos'));
+    expect(match.reasons).toEqual([]);
+    expect(match.score).toBe(0);
+  });
+
+  it('leaves out records with the same Student ID', () => {
+    expect(scoreStudentMatch(student('A1', 'Ana', 'Reyes'), student('a1', 'Ana', 'Reyes')).reasons).toEqual([]);
+  });
+});
+
+describe('findMatchCandidates', () => {
+  it('returns likely duplicates best first and leaves out different people', () => {
+    const records = [
+      student('2024000123', 'Cristina', 'Reyes'),
+      student('2024000500', 'Juan', 'Dela Cruz'),
+      student('2024000132', 'Christina', 'Reyes'),
+      student('2024000900', 'Ma. Cristina', 'Reyes'),
+      student('2024000600', 'Pedro', 'Santos'),
+    ];
+    const matches = findMatchCandidates(records);
+
+    expect(matches.every(match => match.score >= MATCH_THRESHOLD)).toBe(true);
+    expect(matches[0].first.student_id).toBe('2024000123');
+    expect(matches[0].second.student_id).toBe('2024000132');
+    const ids = matches.flatMap(match => [match.first.student_id, match.second.student_id]);
+    expect(ids).not.toContain('2024000500');
+    expect(ids).not.toContain('2024000600');
+  });
+
+  it('reports each pair once', () => {
+    const matches = findMatchCandidates([student('a', 'Ana', 'Reyes', 'ana@gmail.com'), student('b', 'Ana', 'Reyes', 'ana@gmail.com')]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].reasons).toEqual(['same_name', 'same_email']);
+  });
+});
+
+describe('findMatchesAgainst', () => {
+  it('pairs each incoming record with matching existing records', () => {
+    const matches = findMatchesAgainst(
+      [student('2024000132', 'Christina', 'Reyes'), student('2024000777', 'Pedro', 'Santos')],
+      [student('2024000123', 'Cristina', 'Reyes'), student('2024000500', 'Juan', 'Dela Cruz')]
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].first.student_id).toBe('2024000132');
+    expect(matches[0].second.student_id).toBe('2024000123');
+  });
+});
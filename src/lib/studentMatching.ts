@@ -0,0 +1,276 @@
+/**
+ * Student Matching
+ * Finds pairs of student records that are probably the same person under two
+ * Student IDs: "Ma. Cristina Reyes" and "Maria Cristina Reyes", first and last
+ * name swapped, a typo in a name or two digits of the ID swapped. Each pair gets a
+ * score from 0 to 1 and the reasons behind it, so a person can decide whether to
+ * merge the records (src/services/studentMergeService.ts).
+ *
+ * Pairs with the same Student ID are left out: they are one record, or an exact
+ * duplicate that the import checks already report.
+ */
+
+export interface MatchableStudent {
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
+}
+
+export type MatchReason =
+  | 'same_name' // identical once abbreviations, accents and punctuation are ignored
+  | 'similar_name' // a few letters apart
+  | 'swapped_name' // first and last name swapped
+  | 'same_email'
+  | 'id_transposition' // two adjacent characters of the ID swapped
+  | 'id_typo'; // one character of the ID different
+
+export const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  swapped_name: 'First and last name swapped',
+  same_email: 'Same email',
+  id_transposition: 'Student ID digits swapped',
+  id_typo: 'Student ID differs by one digit',
+};
+
+export interface StudentMatch<T extends MatchableStudent = MatchableStudent, U extends MatchableStudent = T> {
+  first: T;
+  second: U;
+  score: number; // 0..1, rounded to two decimals
+  reasons: MatchReason[];
+}
+
+// Pairs scoring below this are not worth a person's time
+export const MATCH_THRESHOLD = 0.6;
+
+// Names closer than this count as evidence; below it most pairs are different people
+const NAME_MATCH_MIN = 0.75;
+// A near-miss ID only counts when the names have something in common
+const ID_NAME_MIN = 0.5;
+// One character of a very short ID says nothing about a typo
+const ID_MIN_LENGTH = 4;
+
+const NAME_WEIGHT = 0.85;
+const EMAIL_WEIGHT = 0.8;
+const ID_TRANSPOSITION_WEIGHT = 0.6;
+const ID_TYPO_WEIGHT = 0.45;
+
+// Abbreviations common on Philippine rosters, written out so both spellings compare equal
+const NAME_ABBREVIATIONS: Record<string, string> = {
+  ma: 'maria',
+  sto: 'santo',
+  sta: 'santa',
+  fco: 'francisco',
+  jr: 'junior',
+};
+
+/**
+ * Lowercase, without accents or punctuation, single-spaced and with abbreviations
+ * written out: "Ma. Cristina  Peña" → "maria cristina pena"
+ */
+export const normalizeName = (name: string): string =>
+  (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => NAME_ABBREVIATIONS[token] || token)
+    .join(' ');
+
+/**
+ * Number of single-character insertions, deletions and substitutions between two strings
+ */
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * 1 for identical strings down to 0 for nothing in common
+ */
+export const stringSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+const fullName = (student: MatchableStudent) =>
+  normalizeName(`${student.first_name || ''} ${student.last_name || ''}`);
+
+const swappedName = (student: MatchableStudent) =>
+  normalizeName(`${student.last_name || ''} ${student.first_name || ''}`);
+
+/**
+ * How alike two students' names are, reading the second one either way round
+ */
+export const compareNames = (
+  a: MatchableStudent,
+  b: MatchableStudent
+): { similarity: number; swapped: boolean } => {
+  const nameA = fullName(a);
+  if (!nameA || !fullName(b)) return { similarity: 0, swapped: false };
+
+  const direct = stringSimilarity(nameA, fullName(b));
+  const swapped = stringSimilarity(nameA, swappedName(b));
+  return swapped > direct ? { similarity: swapped, swapped: true } : { similarity: direct, swapped: false };
+};
+
+const normalizeId = (id: string) => (id || '').trim().toUpperCase();
+
+/**
+ * Whether two different Student IDs look like one mistyped as the other
+ */
+export const compareIds = (a: string, b: string): 'transposition' | 'typo' | null => {
+  const idA = normalizeId(a);
+  const idB = normalizeId(b);
+  if (idA.length < ID_MIN_LENGTH || idA === idB || idA.length !== idB.length) return null;
+
+  const differences: number[] = [];
+  for (let i = 0; i < idA.length; i++) {
+    if (idA[i] !== idB[i]) differences.push(i);
+    if (differences.length > 2) return null;
+  }
+
+  if (differences.length === 1) return 'typo';
+  const [first, second] = differences;
+  return second === first + 1 && idA[first] === idB[second] && idA[second] === idB[first]
+    ? 'transposition'
+    : null;
+};
+
+const normalizeEmail = (email?: string) => (email || '').trim().toLowerCase();
+
+/**
+ * Score two student records. Each kind of evidence (name, email, ID) is treated as an
+ * independent chance that the records are the same person, so agreeing evidence
+ * raises the score without ever reaching 1.
+ */
+export const scoreStudentMatch = (
+  a: MatchableStudent,
+  b: MatchableStudent
+): { score: number; reasons: MatchReason[] } => {
+  if (normalizeId(a.student_id) === normalizeId(b.student_id)) return { score: 0, reasons: [] };
+
+  const reasons: MatchReason[] = [];
+  let unlikely = 1; // chance that none of the evidence means anything
+
+  const name = compareNames(a, b);
+  if (name.similarity >= NAME_MATCH_MIN) {
+    unlikely *= 1 - NAME_WEIGHT * name.similarity;
+    if (name.swapped) reasons.push('swapped_name');
+    else reasons.push(name.similarity === 1 ? 'same_name' : 'similar_name');
+  }
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    unlikely *= 1 - EMAIL_WEIGHT;
+    reasons.push('same_email');
+  }
+
+  const id = compareIds(a.student_id, b.student_id);
+  if (id && name.similarity >= ID_NAME_MIN) {
+    unlikely *= 1 - (id === 'transposition' ? ID_TRANSPOSITION_WEIGHT : ID_TYPO_WEIGHT);
+    reasons.push(id === 'transposition' ? 'id_transposition' : 'id_typo');
+  }
+
+  return { score: Math.round((1 - unlikely) * 100) / 100, reasons };
+};
+
+/**
+ * Keys that a matching pair is very likely to share. Only records sharing a key are
+ * compared, so large rosters are not compared every record against every other.
+ */
+const blockingKeys = (student: MatchableStudent): string[] => {
+  const keys = new Set<string>();
+  fullName(student)
+    .split(' ')
+    .filter(token => token.length > 1)
+    .forEach(token => keys.add(`name:${token.slice(0, 3)}`));
+
+  const email = normalizeEmail(student.email);
+  if (email) keys.add(`email:${email}`);
+
+  // A transposition keeps the same characters
+  const id = normalizeId(student.student_id);
+  if (id) keys.add(`id:${id.split('').sort().join('')}`);
+  return Array.from(keys);
+};
+
+const toMatches = <T extends MatchableStudent, U extends MatchableStudent>(
+  pairs: Array<[T, U]>,
+  minScore: number
+): StudentMatch<T, U>[] =>
+  pairs
+    .map(([first, second]) => ({ first, second, ...scoreStudentMatch(first, second) }))
+    .filter(match => match.reasons.length > 0 && match.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.first.student_id.localeCompare(b.first.student_id));
+
+/**
+ * Likely duplicates within one list of records, best match first
+ */
+export const findMatchCandidates = <T extends MatchableStudent>(
+  records: T[],
+  minScore: number = MATCH_THRESHOLD
+): StudentMatch<T>[] => {
+  const blocks = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    blockingKeys(record).forEach(key => blocks.set(key, [...(blocks.get(key) || []), index]));
+  });
+
+  const seen = new Set<string>();
+  const pairs: Array<[T, T]> = [];
+  blocks.forEach(indices => {
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        const key = `${indices[i]}|${indices[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pairs.push([records[indices[i]], records[indices[j]]]);
+      }
+    }
+  });
+
+  return toMatches(pairs, minScore);
+};
+
+/**
+ * Likely duplicates of each incoming record among existing ones, best match first.
+ * `first` is the incoming record and `second` the existing one.
+ */
+export const findMatchesAgainst = <T extends MatchableStudent, U extends MatchableStudent>(
+  incoming: T[],
+  existing: U[],
+  minScore: number = MATCH_THRESHOLD
+): StudentMatch<T, U>[] => {
+  const blocks = new Map<string, number[]>();
+  existing.forEach((record, index) => {
+    blockingKeys(record).forEach(key => blocks.set(key, [...(blocks.get(key) || []), index]));
+  });
+
+  const pairs: Array<[T, U]> = [];
+  incoming.forEach(record => {
+    const candidates = new Set<number>();
+    blockingKeys(record).forEach(key => blocks.get(key)?.forEach(index => candidates.add(index)));
+    candidates.forEach(index => pairs.push([record, existing[index]]));
+  });
+
+  return toMatches(pairs, minScore);
+};
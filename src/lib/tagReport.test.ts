@@ -0,0 +1,80 @@
+/**
+ * Tag Report Tests
+ * Tests: per-tag student and class scores, set-order mapping, question range parsing
+ */
+
+import {
+  computeStudentTagScores,
+  computeTagReport,
+  parseQuestionRanges,
+  formatQuestionRanges,
+} from '@/lib/tagReport';
+import { QuestionTag } from '@/types/tags';
+import { ScannedResult } from '@/types/scanning';
+
+const tag = (id: string, questions: number[]): QuestionTag => ({
+  id,
+  examId: 'exam1',
+  name: id,
+  color: 'bg-blue-500',
+  questions,
+  createdBy: 'u1',
+  createdAt: '',
+  updatedAt: '',
+});
+
+const result = (id: string, answers: string[], examSet?: string): ScannedResult => ({
+  id,
+  examId: 'exam1',
+  studentId: id,
+  answers,
+  examSet,
+  score: 0,
+  totalQuestions: answers.length,
+  scannedAt: '',
+  scannedBy: 'u1',
+});
+
+const answerKey = {
+  answers: ['A', 'B', 'C', 'D'],
+  sets: [
+    { label: 'A', questionOrder: [1, 2, 3, 4] },
+    { label: 'B', questionOrder: [3, 4, 1, 2] },
+  ],
+};
+
+describe('Tag Report', () => {
+  const tags = [tag('algebra', [1, 2]), tag('geometry', [3, 4])];
+
+  test('should score each tag from the student answers', () => {
+    const scores = computeStudentTagScores(result('s1', ['A', 'B', 'A', 'A'], 'A'), tags, answerKey);
+    expect(scores.algebra.percent).toBe(100);
+    expect(scores.geometry.percent).toBe(0);
+  });
+
+  test('should map shuffled set answers back to master questions', () => {
+    // Set B prints master Q3, Q4 first
+    const scores = computeStudentTagScores(result('s2', ['C', 'D', 'X', 'X'], 'B'), tags, answerKey);
+    expect(scores.algebra.percent).toBe(0);
+    expect(scores.geometry.percent).toBe(100);
+  });
+
+  test('should compute the class score from total points', () => {
+    const report = computeTagReport(
+      [result('s1', ['A', 'B', 'C', 'X'], 'A'), result('s2', ['X', 'X', 'A', 'X'], 'B')],
+      tags,
+      answerKey
+    );
+    expect(report.students).toHaveLength(2);
+    expect(report.classScores.algebra).toMatchObject({ earned: 3, possible: 4, percent: 75 });
+    expect(report.classScores.geometry).toMatchObject({ earned: 1, possible: 4, percent: 25 });
+  });
+
+  test('should parse and format question ranges', () => {
+    expect(parseQuestionRanges('1-3, 5, 3', 10)).toEqual([1, 2, 3, 5]);
+    expect(parseQuestionRanges('', 10)).toEqual([]);
+    expect(parseQuestionRanges('9-12', 10)).toBeNull();
+    expect(parseQuestionRanges('a', 10)).toBeNull();
+    expect(formatQuestionRanges([5, 1, 2, 3, 8, 9])).toBe('1-3, 5, 8-9');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tag Report
+ * Per-tag competency scores computed from saved results: how much of each tag's
+ * points every student (and the class as a whole) earned. Items are matched to
+ * tags by master question number, so results from shuffled exam sets line up.
+ * Bonus items are left out; penalties from negative marking don't reduce a tag below zero.
+ */
+
+import { AnswerKey, ScannedResult } from '@/types/scanning';
+import { QuestionTag, StudentTagReport, TagCompetencyReport, TagScore } from '@/types/tags';
+import { getItemRules, scoreAnswers } from '@/lib/scoring';
+
+type ScoringKey = Pick<AnswerKey, 'answers'> & Partial<Pick<AnswerKey, 'sets' | 'questionSettings' | 'scoring'>>;
+
+const toTagScore = (tagId: string, earned: number, possible: number): TagScore => ({
+  tagId,
+  earned: Math.round(earned * 100) / 100,
+  possible: Math.round(possible * 100) / 100,
+  percent: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+});
+
+/**
+ * Tag scores for a single result
+ */
+export const computeStudentTagScores = (
+  result: Pick<ScannedResult, 'answers' | 'examSet'>,
+  tags: QuestionTag[],
+  answerKey: ScoringKey,
+  choicePoints?: { [choice: string]: number }
+): Record<string, TagScore> => {
+  const rules = getItemRules(answerKey, result.examSet, choicePoints);
+  const { items } = scoreAnswers(result.answers || [], answerKey, result.examSet, choicePoints);
+
+  // Points earned and available per master question
+  const earnedByQuestion = new Map<number, { earned: number; possible: number }>();
+  rules.forEach((rule, i) => {
+    if (rule.bonus) return;
+    earnedByQuestion.set(rule.masterQuestion, {
+      earned: Math.max(0, items[i]?.points || 0),
+      possible: rule.points,
+    });
+  });
+
+  const scores: Record<string, TagScore> = {};
+  tags.forEach(tag => {
+    let earned = 0;
+    let possible = 0;
+    tag.questions.forEach(q => {
+      const item = earnedByQuestion.get(q);
+      if (!item) return;
+      earned += item.earned;
+      possible += item.possible;
+    });
+    scores[tag.id] = toTagScore(tag.id, earned, possible);
+  });
+  return scores;
+};
+
+/**
+ * Tag scores for every result and for the class (total earned over total possible)
+ */
+export const computeTagReport = (
+  results: ScannedResult[],
+  tags: QuestionTag[],
+  answerKey: ScoringKey,
+  choicePoints?: { [choice: string]: number }
+): TagCompetencyReport => {
+  const students: StudentTagReport[] = results.map(result => ({
+    resultId: result.id,
+    studentId: result.studentId,
+    tags: computeStudentTagScores(result, tags, answerKey, choicePoints),
+  }));
+
+  const classScores: Record<string, TagScore> = {};
+  tags.forEach(tag => {
+    const earned = students.reduce((sum, s) => sum + s.tags[tag.id].earned, 0);
+    const possible = students.reduce((sum, s) => sum + s.tags[tag.id].possible, 0);
+    classScores[tag.id] = toTagScore(tag.id, earned, possible);
+  });
+
+  return { classScores, students };
+};
+
+/**
+ * Parse a question list such as "1-5, 8, 10-12" into sorted, unique question numbers.
+ * Returns null when any part is not a valid question between 1 and numQuestions.
+ */
+export const parseQuestionRanges = (text: string, numQuestions: number): number[] | null => {
+  const questions = new Set<number>();
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+
+  for (const part of parts) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end > numQuestions || start > end) return null;
+    for (let q = start; q <= end; q++) questions.add(q);
+  }
+
+  return Array.from(questions).sort((a, b) => a - b);
+};
+
+/** The inverse of parseQuestionRanges: [1, 2, 3, 5] → "1-3, 5" */
+export const formatQuestionRanges = (questions: number[]): string => {
+  const sorted = Array.from(new Set(questions)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    ranges.push(i === j ? `${sorted[i]}` : `${sorted[i]}-${sorted[j]}`);
+    i = j + 1;
+  }
+  return ranges.join(', ');
+};
@@ -1,4 +1,25 @@
 import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import {
+  SHEET_CHOICE_LABELS,
+  getBuiltInTemplate,
+  getCodeBox,
+  getIdBox,
+  getSheetMetrics,
+  getSheetsPerPage,
+  isCompactSheet,
+} from '@/lib/sheetTemplates';
+import { encodeSheetCode } from '@/lib/sheetCode';
+import { toGridDigits } from '@/lib/studentIdPolicy';
+import { SheetTemplateDefinition } from '@/types/templates';
+import { StudentIdPolicy } from '@/types/studentId';
+
+// One student's sheet in a pre-filled class set
+export interface PrefilledStudent {
+  studentId: string;
+  name: string;
+  examSet?: string; // pre-shaded set; omit to let the student shade it
+}
 
 interface TemplateData {
   name: string;
@@ -8,6 +29,17 @@ interface TemplateData {
   examName?: string;
   className?: string;
   examCode?: string;
+  examSets?: string[]; // Set labels to print as a bubble row (multi-set exams only)
+  definition?: SheetTemplateDefinition; // Designed sheet; defaults to the built-in sheet for numQuestions
+  examId?: string; // Encoded in the QR code of pre-filled sheets
+  students?: PrefilledStudent[]; // Print one pre-filled sheet per student instead of blank sheets
+  idPolicy?: StudentIdPolicy; // Institution's Student ID format, for shading pre-filled IDs
+}
+
+// The digits a pre-filled sheet shades for the ID, as the scanner reads them back
+// (2026-0001 → 20260001), or null when it can't be bubbled
+export function getPrefilledIdDigits(studentId: string, idPolicy?: StudentIdPolicy): string | null {
+  return (idPolicy && toGridDigits(studentId, idPolicy)) || (/^\d+$/.test(studentId) ? studentId : null);
 }
 
 // Load GC logo
@@ -37,12 +69,51 @@ async function loadGCLogo(): Promise<string> {
   }
 }
 
+// Set row: "Set" label followed by one lettered bubble per exam set.
+function drawSetRow(
+  doc: jsPDF,
+  labelX: number,
+  firstBubbleX: number,
+  y: number,
+  spacing: number,
+  bubbleSize: number,
+  fontSize: number,
+  labels: string[],
+  shaded?: string
+) {
+  doc.setFontSize(fontSize);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Set', labelX, y + fontSize * 0.15);
+  labels.forEach((label, i) => {
+    const x = firstBubbleX + i * spacing;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, x, y - bubbleSize * 0.75, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    drawBubble(doc, x, y, bubbleSize, label === shaded);
+  });
+}
+
+// QR code drawn as vector squares so it stays sharp at any print resolution
+function drawSheetCode(doc: jsPDF, x: number, y: number, size: number, text: string) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize, moduleSize, 'F');
+      }
+    }
+  }
+}
+
 // Helper function to draw a circle (for answer bubbles)
-function drawBubble(doc: jsPDF, x: number, y: number, size: number) {
-  // Draw white circle for shading (no square border)
+function drawBubble(doc: jsPDF, x: number, y: number, size: number, filled: boolean = false) {
+  // Draw white circle for shading (no square border); pre-filled sheets print it solid
   // Make circle bigger - use full size instead of 35%
   doc.setDrawColor(0, 0, 0);
-  doc.setFillColor(255, 255, 255);
+  const fill = filled ? 0 : 255;
+  doc.setFillColor(fill, fill, fill);
   doc.circle(x, y, size * 0.5, 'FD'); // Circle is now 100% of size (diameter = size)
 }
 
@@ -56,487 +127,230 @@ export async function generateTemplatePDF(template: TemplateData) {
   // Load logo
   const logoData = await loadGCLogo();
 
-  // Choose layout based on number of questions
-  if (template.numQuestions === 20) {
-    generateTemplate20(doc, template, logoData);
-  } else if (template.numQuestions === 50) {
-    generateTemplate50(doc, template, logoData);
-  } else if (template.numQuestions === 100) {
-    generateTemplate100(doc, template, logoData);
-  }
+  const definition = template.definition || getBuiltInTemplate(template.numQuestions, template.choicesPerQuestion);
+
+  // Tile as many sheets onto the A4 page as fit
+  const { cols, rows } = getSheetsPerPage(definition);
+  const perPage = cols * rows;
+  const sheets: Array<PrefilledStudent | undefined> = template.students?.length
+    ? template.students
+    : Array.from({ length: perPage }, () => undefined);
+
+  sheets.forEach((student, i) => {
+    const slot = i % perPage;
+    if (i > 0 && slot === 0) doc.addPage();
+    drawSheet(
+      doc,
+      (slot % cols) * definition.page.width,
+      Math.floor(slot / cols) * definition.page.height,
+      definition,
+      template,
+      logoData,
+      perPage > 1,
+      student
+    );
+  });
 
   // Generate filename
-  const filename = `${template.name.replace(/[^a-z0-9]/gi, '_')}_Answer_Sheet.pdf`;
+  const suffix = template.students?.length ? 'Class_Set' : 'Answer_Sheet';
+  const filename = `${template.name.replace(/[^a-z0-9]/gi, '_')}_${suffix}.pdf`;
   
   // Download the PDF
   doc.save(filename);
 }
 
-// 20 Questions - 4 mini sheets per page (2x2 grid)
-function generateTemplate20(doc: jsPDF, template: TemplateData, logoData: string) {
-  const pageWidth = 210;
-  const pageHeight = 297;
-  
-  // Create 4 mini sheets in a 2x2 grid
-  const sheetWidth = pageWidth / 2;
-  const sheetHeight = pageHeight / 2;
-  
-  const positions = [
-    { x: 0, y: 0 }, // Top left
-    { x: sheetWidth, y: 0 }, // Top right
-    { x: 0, y: sheetHeight }, // Bottom left
-    { x: sheetWidth, y: sheetHeight }, // Bottom right
-  ];
-  
-  positions.forEach((pos) => {
-    drawMiniSheet(doc, pos.x, pos.y, sheetWidth, sheetHeight, template, 20, logoData);
-  });
-}
-
-// 50 Questions - 2 sheets per page (side by side)
-function generateTemplate50(doc: jsPDF, template: TemplateData, logoData: string) {
-  const pageWidth = 210;
-  const pageHeight = 297;
-  
-  const sheetWidth = pageWidth / 2;
-  const sheetHeight = pageHeight;
-  
-  // Left sheet
-  drawMiniSheet(doc, 0, 0, sheetWidth, sheetHeight, template, 50, logoData);
-  
-  // Right sheet
-  drawMiniSheet(doc, sheetWidth, 0, sheetWidth, sheetHeight, template, 50, logoData);
-}
-
-// 100 Questions - Full page single sheet
-function generateTemplate100(doc: jsPDF, template: TemplateData, logoData: string) {
-  const pageWidth = 210;
-  const pageHeight = 297;
-  
-  drawFullSheet(doc, 0, 0, pageWidth, pageHeight, template, logoData);
-}
-
-// Draw a mini sheet (for 20 and 50 questions)
-function drawMiniSheet(
-  doc: jsPDF,
-  startX: number,
-  startY: number,
-  width: number,
-  height: number,
-  template: TemplateData,
-  questionsPerSheet: number,
-  logoData: string
-) {
-  const margin = 10; // 10mm margin
-  const bubbleSize = 3.2; // Bubble size
-  const markerSize = 4;
-  
-  let currentY = startY + margin + 5; // Top margin
-  
-  // Header with logo and text on same line - centered
-  if (logoData) {
-    const logoSize = 6;
-    const textWidth = 25; // Approximate width of "Gordon College" text
-    const totalWidth = logoSize + 2 + textWidth; // logo + gap + text
-    const headerStartX = startX + (width - totalWidth) / 2;
-    
-    // Add logo
-    doc.addImage(logoData, 'PNG', headerStartX, currentY - 1, logoSize, logoSize);
-    
-    // Add text next to logo
-    doc.setFontSize(8);
-    doc.setFont('helvetica', 'bold');
-    const textX = headerStartX + logoSize + 2;
-    const textY = currentY + 3; // Vertically center with logo
-    doc.text('Gordon College', textX, textY);
-    
-    currentY += logoSize + 3;
-  } else {
-    // Header without logo - centered
-    doc.setFontSize(8);
-    doc.setFont('helvetica', 'bold');
-    const centerX = startX + width / 2;
-    doc.text('Gordon College', centerX, currentY, { align: 'center' });
-    currentY += 4;
-  }
-  
-  // Exam Code (if provided)
-  if (template.examCode) {
-    doc.setFontSize(6);
-    doc.setFont('helvetica', 'normal');
-    const centerX = startX + width / 2;
-    doc.text(`Exam Code: ${template.examCode}`, centerX, currentY, { align: 'center' });
-    currentY += 3.5;
-  }
-  
-  // Save the Y position for top black squares (aligned with Name/Date)
-  const topBlackSquareY = currentY - 2;
-  
-  // Name and Date fields side by side
-  doc.setFontSize(6);
-  doc.setFont('helvetica', 'normal');
-  
-  const fieldStartX = startX + margin + 1;
-  const fieldMidX = startX + width / 2;
-  const fieldEndX = startX + width - margin - 1;
-  
-  // Name field (left side)
-  doc.text('Name:', fieldStartX, currentY);
-  doc.line(fieldStartX + 8, currentY, fieldMidX - 1, currentY);
-  
-  // Date field (right side)
-  doc.text('Date:', fieldMidX + 1, currentY);
-  doc.line(fieldMidX + 7, currentY, fieldEndX, currentY);
-  
-  currentY += 4;
-  
-  // Student ZipGrade ID section with border
-  const idTopY = currentY - 1;
-  const idPadMini = 2;
-  const idLabelWMini = 6;
-  const idColSpacing = 4.5;
-  const idContentWMini = idLabelWMini + 10 * idColSpacing;
-  const idBorderWMini = idContentWMini + idPadMini * 2;
-  const idBorderXMini = startX + margin;
-  const idContentXMini = idBorderXMini + idPadMini;
-  const idStartX = idContentXMini + idLabelWMini;
-  
-  doc.setFontSize(6);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Student ZipGrade ID', idContentXMini + 1, currentY + 2);
-  currentY += 5;
-  
-  // Draw input boxes for writing Student ID
-  const idBoxWidth = 4;
-  const idBoxHeight = 4;
-  
-  doc.setFont('helvetica', 'normal');
-  for (let i = 0; i < 10; i++) {
-    const idBoxX = idStartX + i * idColSpacing - idBoxWidth / 2;
-    doc.rect(idBoxX, currentY, idBoxWidth, idBoxHeight);
-  }
-  
-  currentY += idBoxHeight + 2;
-  
-  const idRowSpacing = 3.5;
-  const rowLabels = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
-  
-  doc.setFontSize(6);
-  
-  // Draw 10 columns for ID
-  for (let col = 0; col < 10; col++) {
-    const x = idStartX + col * idColSpacing;
-    
-    for (let row = 0; row < 10; row++) {
-      const y = currentY + row * idRowSpacing;
-      
-      if (col === 0) {
-        doc.setFont('helvetica', 'bold');
-        doc.text(rowLabels[row], idContentXMini + 1, y + 1);
-      }
-      
-      drawBubble(doc, x, y, bubbleSize);
-    }
-  }
-  
-  const idBottomYMini = currentY + 10 * idRowSpacing + 1;
-  
-  // Draw border around ID section
-  doc.setLineWidth(0.4);
-  doc.rect(idBorderXMini, idTopY, idBorderWMini, idBottomYMini - idTopY + 1);
-  doc.setLineWidth(0.2);
-  
-  currentY = idBottomYMini + 3;
-  
-  // Answer section
-  const choices = ['A', 'B', 'C', 'D', 'E'].slice(0, template.choicesPerQuestion);
-  const bubbleSpacing = 4.8;
-  const ansRowH = 4.5;
-  const numW = 10; // space for question numbers before bubbles
-  
-  let maxQY = currentY; // Track the maximum Y position for black squares
-  
-  // Helper: draw a question block for mini sheets
-  function drawMiniQBlock(bx: number, by: number, startQ: number, endQ: number) {
-    let qY = by;
-    
-    // Header row: ■ A B C D (E)
-    doc.setFontSize(6.5);
-    doc.setFont('helvetica', 'bold');
-    doc.setFillColor(0, 0, 0);
-    doc.rect(bx + 1.5, qY, 2, 2, 'F');
-    for (let i = 0; i < choices.length; i++) {
-      doc.text(choices[i], bx + numW + i * bubbleSpacing, qY + 1.5, { align: 'center' });
-    }
-    qY += 4;
-    
-    // Question rows
-    for (let q = startQ; q <= endQ; q++) {
-      doc.setFontSize(6.5);
-      doc.setFont('helvetica', 'bold');
-      doc.text(q.toString(), bx + numW - 3, qY + 1, { align: 'right' });
-      doc.setFont('helvetica', 'normal');
-      for (let i = 0; i < choices.length; i++) {
-        drawBubble(doc, bx + numW + i * bubbleSpacing, qY, bubbleSize);
-      }
-      qY += ansRowH;
-    }
-    return qY;
-  }
-  
-  if (questionsPerSheet === 50) {
-    // For 50 questions: 2 cols
-    // Col 0: Q1-10, Q11-20, Q21-30
-    // Col 1: Q31-40, Q41-50
-    const blocks = [
-      { startQ: 1, endQ: 10, col: 0, row: 0 },
-      { startQ: 11, endQ: 20, col: 0, row: 1 },
-      { startQ: 21, endQ: 30, col: 0, row: 2 },
-      { startQ: 31, endQ: 40, col: 1, row: 0 },
-      { startQ: 41, endQ: 50, col: 1, row: 1 },
-    ];
-    
-    const colWidth = (width - 2 * margin) / 2;
-    const blockVGap = 10 * ansRowH + 7;
-    
-    blocks.forEach(block => {
-      const bx = startX + margin + block.col * colWidth;
-      const by = currentY + block.row * blockVGap;
-      const endY = drawMiniQBlock(bx, by, block.startQ, block.endQ);
-      if (endY > maxQY) maxQY = endY;
-    });
-  } else {
-    // For 20 questions: 2 columns of 10 each
-    const colWidth = (width - 2 * margin) / 2;
-    
-    for (let col = 0; col < 2; col++) {
-      const startQ = col * 10 + 1;
-      const endQ = Math.min((col + 1) * 10, questionsPerSheet);
-      const bx = startX + margin + col * colWidth;
-      const endY = drawMiniQBlock(bx, currentY, startQ, endQ);
-      if (endY > maxQY) maxQY = endY;
-    }
-  }
-  
-  // Draw alignment markers - BLACK SQUARES - aligned with content
-  doc.setFillColor(0, 0, 0);
-  const inset = 5; // Distance from edge
-  const bottomBlackSquareY = maxQY + 2; // Aligned with bottom of content
-  
-  // Top-left corner (aligned with Name/Date line)
-  doc.rect(startX + inset, topBlackSquareY, markerSize, markerSize, 'F');
-  // Top-right corner (aligned with Name/Date line)
-  doc.rect(startX + width - markerSize - inset, topBlackSquareY, markerSize, markerSize, 'F');
-  // Bottom-left corner (aligned with bottom numbers)
-  doc.rect(startX + inset, bottomBlackSquareY, markerSize, markerSize, 'F');
-  // Bottom-right corner (aligned with bottom numbers)
-  doc.rect(startX + width - markerSize - inset, bottomBlackSquareY, markerSize, markerSize, 'F');
-  
-  // Border around sheet
-  doc.rect(startX, startY, width, height);
-}
-
-// Draw full page sheet (for 100 questions) - ZipGrade style
-function drawFullSheet(
+// Draw one sheet with its top-left corner at (startX, startY). Every bubble and marker
+// position comes from the definition, the same numbers the OMR engine reads with.
+function drawSheet(
   doc: jsPDF,
   startX: number,
   startY: number,
-  width: number,
-  height: number,
+  definition: SheetTemplateDefinition,
   template: TemplateData,
-  logoData: string
+  logoData: string,
+  withBorder: boolean,
+  student?: PrefilledStudent
 ) {
-  // A4 = 210 x 297mm, usable ~190 x 277mm
-  const margin = 10;
-  const markerSize = 7;
-  const inset = 3;
-  const numChoices = template.choicesPerQuestion;
-  const choices = ['A', 'B', 'C', 'D', 'E'].slice(0, numChoices);
-
-  // Answer bubble settings
-  const bubbleSize = 3.8;
-  const bubbleGap = 5.0;   // center-to-center between A, B, C, D, E
-  const rowH = 4.8;        // vertical row spacing
-
-  // ID bubble settings (smaller/tighter)
-  const idBubbleSize = 3.5;
-  const idColGap = 4.5;    // center-to-center between ID columns
-  const idRowH = 4.8;
-
-  let currentY = startY + margin + 2;
-  const lx = startX + margin;
-  const rx = startX + width - margin;
-  const usableW = rx - lx; // ~190mm
-
-  // ── Helper: draw a question block. Returns Y after last row ──
-  function drawQBlock(bx: number, by: number, startQ: number, endQ: number) {
-    const numW = 12; // space for number text (enough for 3 digits + gap)
-    let qY = by;
-
-    // Header row: ■ A B C D (E)
-    doc.setFontSize(7);
-    doc.setFont('helvetica', 'bold');
-    doc.setFillColor(0, 0, 0);
-    doc.rect(bx + 2, qY, 2.5, 2.5, 'F');
-    for (let i = 0; i < choices.length; i++) {
-      doc.text(choices[i], bx + numW + i * bubbleGap, qY + 2, { align: 'center' });
-    }
-    qY += 4.5;
-
-    // Question rows
-    for (let q = startQ; q <= endQ; q++) {
-      doc.setFontSize(7);
-      doc.setFont('helvetica', 'bold');
-      doc.text(q.toString(), bx + numW - 4, qY + 1.2, { align: 'right' });
-      doc.setFont('helvetica', 'normal');
-      for (let i = 0; i < choices.length; i++) {
-        drawBubble(doc, bx + numW + i * bubbleGap, qY, bubbleSize);
-      }
-      qY += rowH;
-    }
-    return qY;
-  }
+  const { page, markers, studentId, answers } = definition;
+  const compact = isCompactSheet(definition);
+  const metrics = getSheetMetrics(compact);
+  const idBox = getIdBox(studentId, compact);
+  const at = (x: number, y: number) => ({ x: startX + x, y: startY + y });
 
-  // Block width = numW(12) + bubbles span
-  const qBlockW = 12 + (numChoices - 1) * bubbleGap + bubbleSize;
-
-  // ── CORNER MARKERS (top) ──
+  // ── CORNER MARKERS ──
   doc.setFillColor(0, 0, 0);
-  doc.rect(startX + inset, startY + inset, markerSize, markerSize, 'F');
-  doc.rect(startX + width - markerSize - inset, startY + inset, markerSize, markerSize, 'F');
+  for (const [mx, my] of [
+    [markers.left, markers.top],
+    [markers.right, markers.top],
+    [markers.left, markers.bottom],
+    [markers.right, markers.bottom],
+  ]) {
+    const p = at(mx - markers.size / 2, my - markers.size / 2);
+    doc.rect(p.x, p.y, markers.size, markers.size, 'F');
+  }
 
-  // ── HEADER ──
+  // ── HEADER: logo + title, exam code, Name / Date, stacked up from the ID box ──
+  const contentLeft = idBox.left;
+  const contentRight = markers.right - markers.size / 2 - 2; // clear of the top-right marker
+  const nameY = idBox.top - 2;
+  const codeY = nameY - (compact ? 4 : 6);
+  const titleY = (template.examCode ? codeY : nameY) - (compact ? 4.5 : 9);
+  const centerX = startX + page.width / 2;
+
+  const titleSize = compact ? 8 : 14;
+  const logoSize = compact ? 6 : 12;
+  doc.setFontSize(titleSize);
+  doc.setFont('helvetica', 'bold');
   if (logoData) {
-    const logoSize = 12;
-    const hx = startX + (width - 63) / 2;
-    doc.addImage(logoData, 'PNG', hx, currentY - 2, logoSize, logoSize);
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Gordon College', hx + logoSize + 3, currentY + 6);
-    currentY += logoSize + 4;
+    const textWidth = doc.getTextWidth('Gordon College');
+    const headerX = centerX - (logoSize + 2 + textWidth) / 2;
+    doc.addImage(logoData, 'PNG', headerX, startY + titleY - logoSize * 0.75, logoSize, logoSize);
+    doc.text('Gordon College', headerX + logoSize + 2, startY + titleY);
   } else {
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Gordon College', startX + width / 2, currentY + 4, { align: 'center' });
-    currentY += 10;
+    doc.text('Gordon College', centerX, startY + titleY, { align: 'center' });
   }
 
-  // Exam Code (if provided)
   if (template.examCode) {
-    doc.setFontSize(8);
+    doc.setFontSize(compact ? 6 : 8);
     doc.setFont('helvetica', 'normal');
-    doc.text(`Exam Code: ${template.examCode}`, startX + width / 2, currentY, { align: 'center' });
-    currentY += 5;
+    doc.text(`Exam Code: ${template.examCode}`, centerX, startY + codeY, { align: 'center' });
   }
 
-  // ── FIELDS: Name ___ Date ___ ──
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'bold');
-  const nameEnd = lx + usableW * 0.62;
-  doc.text('Name:', lx, currentY);
-  doc.line(lx + 13, currentY, nameEnd, currentY);
-  doc.text('Date:', nameEnd + 4, currentY);
-  doc.line(nameEnd + 16, currentY, rx, currentY);
-  currentY += 5;
-
-  // ════════════════════════════════════════════
-  // TOP SECTION: [ID box] [Q41-50] [Q71-80]
-  // ════════════════════════════════════════════
-
-  // ID grid: 8mm labels + 10 cols × 4.2mm = 50mm content + 4mm padding = 54mm border
-  const idLabelW = 8;
-  const idPad = 3;
-  const idContentW = idLabelW + 10 * idColGap;
-  const idBorderW = idContentW + idPad * 2;
-
-  // Layout: ID box starts at lx, Q blocks fill remaining space evenly
-  const idBorderX = lx;
-  const idContentX = idBorderX + idPad;
-  const idStartX = idContentX + idLabelW;
-
-  // Position Q41-50 and Q71-80 in remaining space
-  const afterIdX = idBorderX + idBorderW;
-  const remainW = rx - afterIdX;
-  const topGap = (remainW - 2 * qBlockW) / 2; // center the 2 blocks in remaining space
-  const b41x = afterIdX + topGap / 2;
-  const b71x = b41x + qBlockW + topGap;
+  const fieldSize = compact ? 6 : 9;
+  doc.setFontSize(fieldSize);
+  doc.setFont('helvetica', compact ? 'normal' : 'bold');
+  const nameEnd = contentLeft + (contentRight - contentLeft) * (compact ? 0.5 : 0.62);
+  const labelGap = compact ? 8 : 13;
+  doc.text('Name:', startX + contentLeft + 1, startY + nameY);
+  doc.line(startX + contentLeft + 1 + labelGap, startY + nameY, startX + nameEnd - 1, startY + nameY);
+  doc.text('Date:', startX + nameEnd + 1, startY + nameY);
+  doc.line(startX + nameEnd + labelGap - 1, startY + nameY, startX + contentRight, startY + nameY);
+
+  // Shaded digits of a pre-filled sheet; IDs that do not fit the grid are only in the QR code
+  const gridDigits = student ? getPrefilledIdDigits(student.studentId, template.idPolicy) : null;
+  const idDigits = gridDigits && gridDigits.length <= studentId.digits
+    ? gridDigits.split('').map(Number)
+    : [];
+
+  if (student) {
+    const nameX = startX + contentLeft + 1 + labelGap + 1;
+    const nameWidth = nameEnd - 2 - (contentLeft + 1 + labelGap + 1);
+    doc.setFont('helvetica', 'normal');
+    let nameSize = fieldSize;
+    doc.setFontSize(nameSize);
+    while (nameSize > 4 && doc.getTextWidth(student.name) > nameWidth) {
+      nameSize -= 0.5;
+      doc.setFontSize(nameSize);
+    }
+    doc.text(student.name, nameX, startY + nameY - 0.8);
+
+    if (template.examId) {
+      const code = getCodeBox(definition);
+      drawSheetCode(
+        doc,
+        startX + code.x,
+        startY + code.y,
+        code.size,
+        encodeSheetCode({ examId: template.examId, studentId: student.studentId, examSet: student.examSet || '' })
+      );
+    }
+  }
 
   // ── STUDENT ZIPGRADE ID ──
-  const idTopY = currentY;
-  doc.setFontSize(8);
+  doc.setFontSize(compact ? 6 : 8);
   doc.setFont('helvetica', 'bold');
-  doc.text('Student ZipGrade ID', idContentX + 1, currentY + 3.5);
-  currentY += 7;
+  doc.text('Student ZipGrade ID', startX + idBox.left + metrics.idPadding + 1, startY + idBox.writeInTop - 1.5);
 
-  // ID input boxes
-  const idBoxW = 4.5;
-  const idBoxH = 5;
+  // Write-in boxes above the bubble columns
   doc.setFont('helvetica', 'normal');
-  for (let i = 0; i < 10; i++) {
-    doc.rect(idStartX + i * idColGap - idBoxW / 2, currentY, idBoxW, idBoxH);
+  const boxW = studentId.bubbleSize + 1;
+  for (let col = 0; col < studentId.digits; col++) {
+    const x = studentId.x + col * studentId.colSpacing - boxW / 2;
+    doc.rect(startX + x, startY + idBox.writeInTop, boxW, idBox.writeInHeight);
+    if (col < idDigits.length) {
+      doc.setFontSize(compact ? 6 : 8);
+      doc.text(
+        String(idDigits[col]),
+        startX + x + boxW / 2,
+        startY + idBox.writeInTop + idBox.writeInHeight - 1,
+        { align: 'center' }
+      );
+    }
   }
-  currentY += idBoxH + 3;
-
-  // ID bubble grid
-  const idBubbleY = currentY;
-  const rowLabels = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
-  doc.setFontSize(7);
-  for (let row = 0; row < 10; row++) {
-    const y = currentY + row * idRowH;
+
+  doc.setFontSize(compact ? 6 : 7);
+  for (let digit = 0; digit < 10; digit++) {
+    const y = studentId.y + digit * studentId.rowSpacing;
     doc.setFont('helvetica', 'bold');
-    doc.text(rowLabels[row], idContentX + 2, y + 1.2);
+    doc.text(String(digit), startX + idBox.left + metrics.idPadding + 1, startY + y + 1.2);
     doc.setFont('helvetica', 'normal');
-    for (let col = 0; col < 10; col++) {
-      drawBubble(doc, idStartX + col * idColGap, y, idBubbleSize);
+    for (let col = 0; col < studentId.digits; col++) {
+      drawBubble(
+        doc,
+        startX + studentId.x + col * studentId.colSpacing,
+        startY + y,
+        studentId.bubbleSize,
+        idDigits[col] === digit
+      );
     }
   }
 
-  // ID border
-  const idBottomY = currentY + 10 * idRowH + 2;
   doc.setLineWidth(0.4);
-  doc.rect(idBorderX, idTopY - 1, idBorderW, idBottomY - idTopY + 2);
+  doc.rect(startX + idBox.left, startY + idBox.top, idBox.right - idBox.left, idBox.bottom - idBox.top);
   doc.setLineWidth(0.2);
 
-  // ── Q41-50 and Q71-80 aligned to ID bubble rows ──
-  drawQBlock(b41x, idBubbleY, 41, 50);
-  drawQBlock(b71x, idBubbleY, 71, 80);
-
-  currentY = idBottomY + 4;
-
-  // ════════════════════════════════════════════
-  // BOTTOM: 4 cols × 2 rows
-  // ════════════════════════════════════════════
-  const totalGridW = 4 * qBlockW;
-  const colGap = (usableW - totalGridW) / 5;
-  const blockVGap = 10 * rowH + 8;
-
-  const gridBlocks = [
-    { startQ: 1, endQ: 10, col: 0, row: 0 },
-    { startQ: 21, endQ: 30, col: 1, row: 0 },
-    { startQ: 51, endQ: 60, col: 2, row: 0 },
-    { startQ: 81, endQ: 90, col: 3, row: 0 },
-    { startQ: 11, endQ: 20, col: 0, row: 1 },
-    { startQ: 31, endQ: 40, col: 1, row: 1 },
-    { startQ: 61, endQ: 70, col: 2, row: 1 },
-    { startQ: 91, endQ: 100, col: 3, row: 1 },
-  ];
-
-  let maxQY = currentY;
-  gridBlocks.forEach(block => {
-    const bx = lx + colGap + block.col * (qBlockW + colGap);
-    const by = currentY + block.row * blockVGap;
-    const endY = drawQBlock(bx, by, block.startQ, block.endQ);
-    if (endY > maxQY) maxQY = endY;
-  });
+  // ── SET ROW ──
+  if (template.examSets && template.examSets.length > 1) {
+    const { examSet } = definition;
+    drawSetRow(
+      doc,
+      startX + examSet.x - metrics.setLabelWidth,
+      startX + examSet.x,
+      startY + examSet.y,
+      examSet.spacing,
+      studentId.bubbleSize,
+      compact ? 6 : 7,
+      template.examSets,
+      student?.examSet
+    );
+  }
 
-  // ── CORNER MARKERS (bottom) ──
-  doc.setFillColor(0, 0, 0);
-  const bmY = maxQY + 3;
-  doc.rect(startX + inset, bmY, markerSize, markerSize, 'F');
-  doc.rect(startX + width - markerSize - inset, bmY, markerSize, markerSize, 'F');
+  // ── ANSWER BLOCKS ──
+  const lastQ = Math.min(answers.numQuestions, template.numQuestions);
+  const choices = SHEET_CHOICE_LABELS.slice(0, answers.choices);
+  const squareSize = compact ? 2 : 2.5;
+  answers.blocks.forEach(block => {
+    if (block.startQ > lastQ) return;
+    const bx = startX + block.x;
+    const headerY = startY + block.y - metrics.headerGap;
+
+    // Header row: ■ A B C D (E F)
+    doc.setFontSize(metrics.fontSize);
+    doc.setFont('helvetica', 'bold');
+    doc.setFillColor(0, 0, 0);
+    doc.rect(bx - metrics.numberWidth + 1.5, headerY - squareSize / 2, squareSize, squareSize, 'F');
+    choices.forEach((label, i) => {
+      doc.text(label, bx + i * answers.bubbleSpacing, headerY + 1, { align: 'center' });
+    });
+
+    for (let q = block.startQ; q <= Math.min(block.endQ, lastQ); q++) {
+      const y = startY + block.y + (q - block.startQ) * answers.rowSpacing;
+      doc.setFont('helvetica', 'bold');
+      doc.text(q.toString(), bx - (compact ? 3 : 4), y + 1.2, { align: 'right' });
+      doc.setFont('helvetica', 'normal');
+      choices.forEach((_, i) => drawBubble(doc, bx + i * answers.bubbleSpacing, y, answers.bubbleSize));
+    }
+  });
 
   // Footer
-  doc.setFontSize(6);
-  doc.setFont('helvetica', 'italic');
-  doc.text('Do not fold, staple, or tear this answer sheet.', startX + width / 2, startY + height - 5, { align: 'center' });
+  if (!compact) {
+    doc.setFontSize(6);
+    doc.setFont('helvetica', 'italic');
+    doc.text('Do not fold, staple, or tear this answer sheet.', centerX, startY + page.height - 5, { align: 'center' });
+  }
+
+  // Cut lines between sheets that share a page
+  if (withBorder) {
+    doc.rect(startX, startY, page.width, page.height);
+  }
 }
@@ -59,7 +59,8 @@ export async function validateCreateStudentInput(
 
 
 //Middleware validator for student update.
-//Keeps student IDs permanent while validating provided IDs for format correctness.
+//Keeps student IDs permanent. The format is not re-checked: IDs issued before the
+//institution's Student ID policy changed stay valid.
  
 export function validateUpdateStudentInput(input: UpdateStudentValidationInput): string {
   const normalizedStudentId = (input.currentStudentId || '').trim();
@@ -69,11 +70,6 @@ export function validateUpdateStudentInput(input: UpdateStudentValidationInput):
 
   if (input.requestedStudentId !== undefined) {
     const requestedId = input.requestedStudentId.trim();
-    const formatValidation = StudentIDValidationService.validateStudentIdFormat(requestedId);
-    if (!formatValidation.isValid) {
-      throw new Error(formatValidation.error || 'Invalid student ID format');
-    }
-
     if (requestedId !== normalizedStudentId) {
       throw new Error('Student ID cannot be changed after creation');
     }
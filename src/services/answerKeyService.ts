@@ -2,26 +2,77 @@ import {
   collection,
   doc,
   getDoc,
-  setDoc,
   updateDoc,
   query,
   where,
   getDocs,
   serverTimestamp,
+  deleteField,
+  orderBy,
+  writeBatch,
   Timestamp,
 } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { AnswerKey, AnswerChoice } from "@/types/scanning";
+import { getDb } from "@/lib/firebase";
+import {
+  AnswerKey,
+  AnswerKeyVersion,
+  AnswerChoice,
+  ExamSet,
+  QuestionAnswer,
+  ScoringPolicy,
+} from "@/types/scanning";
+import { changedQuestionNumbers } from "@/lib/answerKeyHistory";
+import { DEFAULT_SCORING_POLICY } from "@/lib/scoring";
 
 const ANSWER_KEYS_COLLECTION = "answerKeys";
+const VERSIONS_SUBCOLLECTION = "versions";
+
+type KeyContent = Pick<AnswerKey, "answers" | "sets" | "questionSettings" | "scoring">;
+
+const versionRef = (answerKeyId: string, version: number) =>
+  doc(getDb(), ANSWER_KEYS_COLLECTION, answerKeyId, VERSIONS_SUBCOLLECTION, `v${version}`);
+
+// Snapshot document for one saved version; Firestore rejects undefined fields.
+// `changedBy` is the user writing the snapshot, which firestore.rules checks.
+const versionSnapshot = (
+  answerKeyId: string,
+  examId: string,
+  version: number,
+  content: KeyContent,
+  savedBy: string,
+  changedQuestions: number[],
+  changedBy: string,
+  extra: { savedByEmail?: string; restoredFrom?: number; savedAt?: unknown } = {},
+) =>
+  Object.fromEntries(
+    Object.entries({
+      version,
+      answerKeyId,
+      examId,
+      answers: content.answers,
+      sets: content.sets && content.sets.length > 1 ? content.sets : undefined,
+      questionSettings: content.questionSettings && content.questionSettings.length > 0
+        ? content.questionSettings
+        : undefined,
+      scoring: content.scoring,
+      savedBy,
+      changedQuestions,
+      changedBy,
+      savedByEmail: extra.savedByEmail,
+      restoredFrom: extra.restoredFrom,
+      savedAt: extra.savedAt ?? serverTimestamp(),
+    }).filter(([, v]) => v !== undefined && v !== null)
+  );
 
 export class AnswerKeyService {
   static async createAnswerKey(
     examId: string,
     answers: AnswerChoice[],
     userId: string,
-    questionSettings?: any[],
+    questionSettings?: QuestionAnswer[],
     instructorId?: string, // Add instructorId parameter
+    sets?: ExamSet[],
+    scoring?: ScoringPolicy,
   ): Promise<{ success: boolean; data?: AnswerKey; error?: string }> {
     try {
       console.log('🔑 Creating answer key...');
@@ -40,7 +91,9 @@ export class AnswerKeyService {
         id: answerKeyId,
         examId,
         answers,
-        questionSettings,
+        ...(sets && sets.length > 1 && { sets }),
+        ...(questionSettings && questionSettings.length > 0 && { questionSettings }),
+        ...(scoring && { scoring }),
         createdBy: userId,
         ...(instructorId && { instructorId: instructorId }), // Only include if not undefined
         createdAt: now,
@@ -59,7 +112,13 @@ export class AnswerKeyService {
       );
 
       console.log('📤 Sending answer key to Firestore:', cleanedData);
-      await setDoc(doc(db, ANSWER_KEYS_COLLECTION, answerKeyId), cleanedData);
+      const batch = writeBatch(getDb());
+      batch.set(doc(getDb(), ANSWER_KEYS_COLLECTION, answerKeyId), cleanedData);
+      batch.set(
+        versionRef(answerKeyId, 1),
+        versionSnapshot(answerKeyId, examId, 1, answerKeyData, userId, [], userId),
+      );
+      await batch.commit();
       console.log('✅ Answer key created successfully');
 
       return { success: true, data: answerKeyData };
@@ -74,7 +133,7 @@ export class AnswerKeyService {
   ): Promise<{ success: boolean; data?: AnswerKey; error?: string }> {
     try {
       const q = query(
-        collection(db, ANSWER_KEYS_COLLECTION),
+        collection(getDb(), ANSWER_KEYS_COLLECTION),
         where("examId", "==", examId),
       );
 
@@ -106,10 +165,13 @@ export class AnswerKeyService {
     answerKeyId: string,
     answers: AnswerChoice[],
     userId: string,
-    questionSettings?: any[],
-  ): Promise<{ success: boolean; error?: string }> {
+    questionSettings?: QuestionAnswer[],
+    sets?: ExamSet[],
+    scoring?: ScoringPolicy,
+    options?: { userEmail?: string; restoredFrom?: number },
+  ): Promise<{ success: boolean; version?: number; error?: string }> {
     try {
-      const answerKeyRef = doc(db, ANSWER_KEYS_COLLECTION, answerKeyId);
+      const answerKeyRef = doc(getDb(), ANSWER_KEYS_COLLECTION, answerKeyId);
       const answerKeyDoc = await getDoc(answerKeyRef);
 
       if (!answerKeyDoc.exists()) {
@@ -125,32 +187,153 @@ export class AnswerKeyService {
         };
       }
 
+      const previousVersion = currentData.version || 1;
+      const nextVersion = previousVersion + 1;
+
       // Only include defined fields in update
       const updateData: Record<string, any> = {
         answers,
         updatedAt: serverTimestamp(),
         updatedBy: userId,
-        version: (currentData.version || 1) + 1,
+        version: nextVersion,
       };
 
       if (questionSettings !== undefined) {
-        updateData.questionSettings = questionSettings;
+        updateData.questionSettings = questionSettings.length > 0 ? questionSettings : deleteField();
       }
 
-      await updateDoc(answerKeyRef, updateData);
+      if (scoring !== undefined) {
+        updateData.scoring = scoring;
+      }
 
-      return { success: true };
+      // A single set is stored as no sets, so sheets aren't expected to carry a Set bubble
+      if (sets !== undefined) {
+        updateData.sets = sets.length > 1 ? sets : deleteField();
+      }
+
+      const previousContent: KeyContent = {
+        answers: currentData.answers || [],
+        sets: currentData.sets,
+        questionSettings: currentData.questionSettings,
+        scoring: currentData.scoring,
+      };
+      const nextContent: KeyContent = {
+        answers,
+        sets: sets !== undefined ? sets : previousContent.sets,
+        questionSettings: questionSettings !== undefined ? questionSettings : previousContent.questionSettings,
+        scoring: scoring !== undefined ? scoring : previousContent.scoring,
+      };
+
+      const batch = writeBatch(getDb());
+      batch.update(answerKeyRef, updateData);
+
+      // Keys saved before history existed get their current state kept as the previous version
+      const previousSnapshot = await getDoc(versionRef(answerKeyId, previousVersion));
+      if (!previousSnapshot.exists()) {
+        batch.set(
+          versionRef(answerKeyId, previousVersion),
+          versionSnapshot(
+            answerKeyId,
+            currentData.examId,
+            previousVersion,
+            previousContent,
+            currentData.updatedBy || currentData.createdBy,
+            [],
+            userId,
+            { savedAt: currentData.updatedAt || currentData.createdAt || serverTimestamp() },
+          ),
+        );
+      }
+
+      batch.set(
+        versionRef(answerKeyId, nextVersion),
+        versionSnapshot(
+          answerKeyId,
+          currentData.examId,
+          nextVersion,
+          nextContent,
+          userId,
+          changedQuestionNumbers(previousContent, nextContent),
+          userId,
+          { savedByEmail: options?.userEmail, restoredFrom: options?.restoredFrom },
+        ),
+      );
+
+      await batch.commit();
+
+      return { success: true, version: nextVersion };
     } catch (error) {
       console.error("Error updating answer key:", error);
       return { success: false, error: (error as Error).message };
     }
   }
 
+  /**
+   * Every saved version of an answer key, newest first
+   */
+  static async getVersionHistory(
+    answerKeyId: string,
+  ): Promise<{ success: boolean; data?: AnswerKeyVersion[]; error?: string }> {
+    try {
+      const q = query(
+        collection(getDb(), ANSWER_KEYS_COLLECTION, answerKeyId, VERSIONS_SUBCOLLECTION),
+        orderBy("version", "desc"),
+      );
+      const snapshot = await getDocs(q);
+
+      const versions = snapshot.docs.map((docSnapshot) => {
+        const data = docSnapshot.data();
+        return {
+          ...data,
+          changedQuestions: data.changedQuestions || [],
+          savedAt: (data.savedAt as Timestamp)?.toDate?.().toISOString() || data.savedAt || "",
+        } as AnswerKeyVersion;
+      });
+
+      return { success: true, data: versions };
+    } catch (error) {
+      console.error("Error fetching answer key history:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Restore an older version by saving its content as a new version,
+   * so the history itself is never rewritten
+   */
+  static async restoreVersion(
+    answerKeyId: string,
+    version: number,
+    userId: string,
+    userEmail?: string,
+  ): Promise<{ success: boolean; version?: number; error?: string }> {
+    try {
+      const snapshot = await getDoc(versionRef(answerKeyId, version));
+      if (!snapshot.exists()) {
+        return { success: false, error: `Version ${version} not found` };
+      }
+
+      const data = snapshot.data() as AnswerKeyVersion;
+      return this.updateAnswerKey(
+        answerKeyId,
+        data.answers,
+        userId,
+        data.questionSettings || [],
+        data.sets || [],
+        data.scoring || DEFAULT_SCORING_POLICY,
+        { userEmail, restoredFrom: version },
+      );
+    } catch (error) {
+      console.error("Error restoring answer key version:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
   static async lockAnswerKey(
     answerKeyId: string,
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const answerKeyRef = doc(db, ANSWER_KEYS_COLLECTION, answerKeyId);
+      const answerKeyRef = doc(getDb(), ANSWER_KEYS_COLLECTION, answerKeyId);
 
       await updateDoc(answerKeyRef, {
         locked: true,
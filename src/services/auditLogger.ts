@@ -14,7 +14,7 @@ import {
   serverTimestamp,
   QueryConstraint,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { getDb } from '@/lib/firebase';
 import { AuditLog, AuditLogQuery, ActivityType } from '@/types/audit';
 
 const AUDIT_LOGS_COLLECTION = 'auditLogs';
@@ -71,7 +71,7 @@ export class AuditLogger {
         expiresAt: Timestamp.fromDate(expiresAt),
       };
 
-      const docRef = await addDoc(collection(db, AUDIT_LOGS_COLLECTION), logData);
+      const docRef = await addDoc(collection(getDb(), AUDIT_LOGS_COLLECTION), logData);
 
       return {
         id: docRef.id,
@@ -275,7 +275,7 @@ export class AuditLogger {
       // Always order by timestamp descending
       constraints.push(orderBy('timestamp', 'desc'));
 
-      const q = query(collection(db, AUDIT_LOGS_COLLECTION), ...constraints);
+      const q = query(collection(getDb(), AUDIT_LOGS_COLLECTION), ...constraints);
       const snapshot = await getDocs(q);
 
       return snapshot.docs.map((doc) => ({
@@ -342,7 +342,7 @@ export class AuditLogger {
         orderBy('timestamp', 'desc'),
       ];
 
-      const q = query(collection(db, AUDIT_LOGS_COLLECTION), ...constraints);
+      const q = query(collection(getDb(), AUDIT_LOGS_COLLECTION), ...constraints);
       const snapshot = await getDocs(q);
 
       return snapshot.docs.map((doc) => ({
@@ -6,12 +6,17 @@ import {
   getDocs, 
   updateDoc, 
   deleteDoc,
+  deleteField,
   query,
   where,
-  orderBy,
   serverTimestamp,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { getDb } from '@/lib/firebase';
+import { getDocsByOwnersOrShared } from '@/lib/ownerScope';
+import { rosterFromEmbedded } from '@/lib/enrollment';
+import { getClassRosters, setEnrollmentStatus, syncClassRoster } from './enrollmentService';
+import { EnrollmentStatus, RosterEntry } from '@/types/enrollment';
+import { Shareable } from '@/types/sharing';
 
 export interface Student {
   student_id: string;
@@ -20,22 +25,58 @@ export interface Student {
   email?: string;
 }
 
-export interface Class {
+export interface Class extends Shareable {
   id: string;
   class_name: string;
   course_subject: string;
   section_block: string;
   room: string;
-  students: Student[];
+  students: Student[]; // active students; saving this list updates the enrollments (see src/lib/enrollment.ts)
+  roster?: RosterEntry[]; // every enrollment with its status; read-only
   created_at: string;
   createdBy?: string;
   instructorId?: string; // Instructor ID for the class creator
   updatedAt?: string;
   isArchived?: boolean;
+  gradingScaleId?: string; // grading scale for the class's exams, see GradingScaleService
 }
 
 const CLASSES_COLLECTION = 'classes';
 
+// The active students of a roster, without their enrollment details
+const activeStudents = (roster: RosterEntry[]): Student[] =>
+  roster
+    .filter(entry => entry.status === 'active')
+    .map(({ status: _status, enrolled_date: _enrolled, ...student }) => student);
+
+/**
+ * Map a class document, with its roster from enrollments unless the class
+ * still embeds one from before enrollments existed
+ */
+function toClass(id: string, data: any, rosters: Map<string, RosterEntry[]>): Class {
+  const created_at = data.created_at || (data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString());
+  const roster = Array.isArray(data.students)
+    ? rosterFromEmbedded(data.students, created_at)
+    : rosters.get(id) || [];
+
+  return {
+    id,
+    class_name: data.class_name,
+    course_subject: data.course_subject,
+    section_block: data.section_block,
+    room: data.room,
+    students: activeStudents(roster),
+    roster,
+    created_at,
+    createdBy: data.createdBy,
+    updatedAt: data.updatedAt?.toDate?.()?.toISOString(),
+    isArchived: data.isArchived || false,
+    gradingScaleId: data.gradingScaleId || undefined,
+    collaborators: data.collaborators || undefined,
+    collaboratorIds: data.collaboratorIds || undefined,
+  };
+}
+
 /**
  * Create a new class in Firestore
  */
@@ -54,8 +95,10 @@ export async function createClass(
       console.warn('⚠️ WARNING: instructorId is undefined or null!');
     }
     
+    // The roster is stored as enrollments, not on the class
+    const { students = [], roster: _roster, ...details } = classData;
     const newClassData = {
-      ...classData,
+      ...details,
       createdBy: userId, // Keep userId for backward compatibility
       ...(instructorId && { instructorId: instructorId }), // Only include if not undefined
       createdAt: serverTimestamp(),
@@ -63,13 +106,19 @@ export async function createClass(
     };
 
     console.log('📤 Sending to Firestore:', newClassData);
-    const docRef = await addDoc(collection(db, CLASSES_COLLECTION), newClassData);
+    const docRef = await addDoc(collection(getDb(), CLASSES_COLLECTION), newClassData);
     console.log('✅ Class created successfully with ID:', docRef.id);
+
+    if (students.length > 0) {
+      await syncClassRoster(docRef.id, students, userId);
+    }
     
     // Return the class with the generated ID (include instructorId)
     const newClass: Class = {
       id: docRef.id,
-      ...classData,
+      ...details,
+      students,
+      roster: rosterFromEmbedded(students, new Date().toISOString()),
       createdBy: userId,
       ...(instructorId && { instructorId: instructorId }), // Include instructorId in return value
       updatedAt: new Date().toISOString(),
@@ -85,25 +134,32 @@ export async function createClass(
 }
 
 /**
- * Get total student count for a user (lightweight - for dashboard)
- * Uses client-side filtering to avoid composite index requirement
+ * Get total student count for a user (lightweight - for dashboard):
+ * distinct students actively enrolled in their classes
  */
 export async function getTotalStudentCount(userId: string): Promise<number> {
   try {
-    // Fetch all classes without filters to avoid composite index
-    const q = query(collection(db, CLASSES_COLLECTION));
+    // Filter by owner only (no orderBy) to avoid a composite index
+    const q = query(collection(getDb(), CLASSES_COLLECTION), where('createdBy', '==', userId));
     const querySnapshot = await getDocs(q);
-    let totalStudents = 0;
+    const studentIds = new Set<string>();
+    const enrolledClassIds: string[] = [];
 
     querySnapshot.forEach((doc) => {
       const data = doc.data() as any;
-      // Filter by userId on client-side
-      if (data.createdBy === userId) {
-        totalStudents += (data.students?.length || 0);
+      if (Array.isArray(data.students)) {
+        rosterFromEmbedded(data.students, '').forEach(entry => studentIds.add(entry.student_id));
+      } else {
+        enrolledClassIds.push(doc.id);
       }
     });
 
-    return totalStudents;
+    const rosters = await getClassRosters(enrolledClassIds);
+    rosters.forEach(roster =>
+      roster.filter(entry => entry.status === 'active').forEach(entry => studentIds.add(entry.student_id))
+    );
+
+    return studentIds.size;
   } catch (error: any) {
     console.error('Error fetching student count:', error);
     return 0;
@@ -111,49 +167,26 @@ export async function getTotalStudentCount(userId: string): Promise<number> {
 }
 
 /**
- * Get all classes for a user
+ * Get all classes created by a user, or by any of several users
+ * (see getVisibleOwnerIds); with no owner, every class.
+ * With a collaborator, also the classes shared with them.
  */
-export async function getClasses(userId?: string): Promise<Class[]> {
+export async function getClasses(owners?: string | string[], collaboratorId?: string): Promise<Class[]> {
   try {
-    let q;
-    
-    if (userId) {
-      // Query only by createdBy (no orderBy to avoid index requirement)
-      q = query(
-        collection(db, CLASSES_COLLECTION),
-        where('createdBy', '==', userId)
-      );
-    } else {
-      q = query(collection(db, CLASSES_COLLECTION), orderBy('createdAt', 'desc'));
-    }
-
-    const querySnapshot = await getDocs(q);
-    const classes: Class[] = [];
+    // Query only by createdBy (no orderBy to avoid index requirement)
+    const docs = await getDocsByOwnersOrShared(CLASSES_COLLECTION, owners, collaboratorId);
+    const rosters = await getClassRosters(
+      docs.filter(doc => !Array.isArray(doc.data().students)).map(doc => doc.id)
+    );
+    const classes: Class[] = docs.map(doc => toClass(doc.id, doc.data(), rosters));
 
-    querySnapshot.forEach((doc) => {
-      const data = doc.data() as any;
-      classes.push({
-        id: doc.id,
-        class_name: data.class_name,
-        course_subject: data.course_subject,
-        section_block: data.section_block,
-        room: data.room,
-        students: data.students || [],
-        created_at: data.created_at || (data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString()),
-        createdBy: data.createdBy,
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString(),
-      });
+    // Sort in JavaScript (newest first)
+    classes.sort((a, b) => {
+      const dateA = new Date(a.created_at).getTime();
+      const dateB = new Date(b.created_at).getTime();
+      return dateB - dateA;
     });
 
-    // Sort in JavaScript if filtering by user
-    if (userId) {
-      classes.sort((a, b) => {
-        const dateA = new Date(a.created_at).getTime();
-        const dateB = new Date(b.created_at).getTime();
-        return dateB - dateA; // descending order (newest first)
-      });
-    }
-
     return classes;
   } catch (error) {
     console.error('Error fetching classes:', error);
@@ -166,22 +199,13 @@ export async function getClasses(userId?: string): Promise<Class[]> {
  */
 export async function getClassById(classId: string): Promise<Class | null> {
   try {
-    const docRef = doc(db, CLASSES_COLLECTION, classId);
+    const docRef = doc(getDb(), CLASSES_COLLECTION, classId);
     const docSnap = await getDoc(docRef);
 
     if (docSnap.exists()) {
       const data = docSnap.data() as any;
-      return {
-        id: docSnap.id,
-        class_name: data.class_name,
-        course_subject: data.course_subject,
-        section_block: data.section_block,
-        room: data.room,
-        students: data.students || [],
-        created_at: data.created_at || (data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString()),
-        createdBy: data.createdBy,
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString(),
-      };
+      const rosters = Array.isArray(data.students) ? new Map() : await getClassRosters([docSnap.id]);
+      return toClass(docSnap.id, data, rosters);
     }
 
     return null;
@@ -192,19 +216,32 @@ export async function getClassById(classId: string): Promise<Class | null> {
 }
 
 /**
- * Update a class
+ * Update a class. Passing `students` replaces its active roster, which needs the
+ * ID of the user making the change.
  */
-export async function updateClass(classId: string, classData: Partial<Omit<Class, 'id'>>): Promise<void> {
+export async function updateClass(
+  classId: string,
+  classData: Partial<Omit<Class, 'id'>>,
+  userId?: string
+): Promise<void> {
   try {
-    const classRef = doc(db, CLASSES_COLLECTION, classId);
+    const classRef = doc(getDb(), CLASSES_COLLECTION, classId);
+    const { students, roster: _roster, ...details } = classData;
+
+    if (students) {
+      if (!userId) {
+        throw new Error('A user ID is required to change the roster of a class');
+      }
+      await syncClassRoster(classId, students, userId);
+    }
     
     // Remove undefined and null values from the update data
     const cleanData: Record<string, any> = {};
     
-    Object.entries(classData).forEach(([key, value]) => {
+    Object.entries(details).forEach(([key, value]) => {
       // Skip undefined and null values
       if (value !== undefined && value !== null) {
-        // Handle arrays (like students)
+        // Handle arrays
         if (Array.isArray(value)) {
           // Clean each object in the array
           cleanData[key] = value.map((item: any) => {
@@ -236,6 +273,11 @@ export async function updateClass(classId: string, classData: Partial<Omit<Class
       }
     });
     
+    // Any roster embedded before enrollments existed is replaced by them
+    if (students) {
+      cleanData.students = deleteField();
+    }
+
     // Add timestamp
     cleanData.updatedAt = serverTimestamp();
     
@@ -254,7 +296,7 @@ export async function updateClass(classId: string, classData: Partial<Omit<Class
  */
 export async function deleteClass(classId: string): Promise<void> {
   try {
-    const classRef = doc(db, CLASSES_COLLECTION, classId);
+    const classRef = doc(getDb(), CLASSES_COLLECTION, classId);
     await deleteDoc(classRef);
   } catch (error) {
     console.error('Error deleting class:', error);
@@ -263,46 +305,25 @@ export async function deleteClass(classId: string): Promise<void> {
 }
 
 /**
- * Add a student to a class
+ * Set one student's enrollment status in a class. A class still embedding its
+ * roster is moved to enrollments first, so the change shows when it is read.
  */
-export async function addStudentToClass(classId: string, student: Student): Promise<void> {
+export async function setStudentEnrollmentStatus(
+  classId: string,
+  studentId: string,
+  status: EnrollmentStatus,
+  userId: string
+): Promise<void> {
   try {
-    const classRef = doc(db, CLASSES_COLLECTION, classId);
-    const classDoc = await getDoc(classRef);
-    
-    if (classDoc.exists()) {
-      const data = classDoc.data() as any;
-      const currentStudents = data.students || [];
-      await updateDoc(classRef, {
-        students: [...currentStudents, student],
-        updatedAt: serverTimestamp(),
-      });
+    const classDoc = await getDoc(doc(getDb(), CLASSES_COLLECTION, classId));
+    const data = classDoc.data() as any;
+    if (Array.isArray(data?.students)) {
+      await updateClass(classId, { students: activeStudents(rosterFromEmbedded(data.students, '')) }, userId);
     }
-  } catch (error) {
-    console.error('Error adding student to class:', error);
-    throw error;
-  }
-}
 
-/**
- * Remove a student from a class
- */
-export async function removeStudentFromClass(classId: string, studentId: string): Promise<void> {
-  try {
-    const classRef = doc(db, CLASSES_COLLECTION, classId);
-    const classDoc = await getDoc(classRef);
-    
-    if (classDoc.exists()) {
-      const data = classDoc.data() as any;
-      const currentStudents = data.students || [];
-      const updatedStudents = currentStudents.filter((s: Student) => s.student_id !== studentId);
-      await updateDoc(classRef, {
-        students: updatedStudents,
-        updatedAt: serverTimestamp(),
-      });
-    }
+    await setEnrollmentStatus(classId, studentId, status, userId);
   } catch (error) {
-    console.error('Error removing student from class:', error);
+    console.error('Error setting enrollment status:', error);
     throw error;
   }
 }
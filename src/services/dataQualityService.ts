@@ -6,6 +6,7 @@
  */
 
 import { ValidationActionLogger } from './validationActionLogger';
+import { findMatchCandidates, MATCH_REASON_LABELS } from '@/lib/studentMatching';
 
 // Reference lists for valid values
 export const VALID_GRADES = ['1', '2', '3', '4', '5', '6', 'A', 'B', 'C', 'D', 'E', 'F'];
@@ -15,7 +16,7 @@ export const VALID_BLOCKS = ['STEM', 'HUMSS', 'ABM', 'GA', 'TVL', 'SPORTS', 'ART
   'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
 
 export interface DuplicateEntry {
-  type: 'student_id' | 'name_combination' | 'email';
+  type: 'student_id' | 'name_combination' | 'email' | 'similar_record';
   value: string;
   rowIndices: number[];
   records: any[];
@@ -126,7 +127,7 @@ export class DataQualityService {
 
     // Check for inconsistencies
     records.forEach((record, index) => {
-      const recordInconsistencies = this.checkRecordInconsistencies(record, index, records);
+      const recordInconsistencies = this.checkRecordInconsistencies(record, index);
       inconsistencies.push(...recordInconsistencies);
     });
 
@@ -250,6 +251,34 @@ export class DataQualityService {
       }
     });
 
+    // Process similar records: probably one student under two IDs (see src/lib/studentMatching.ts)
+    const reportedTogether = (first: number, second: number) =>
+      duplicates.some(duplicate => duplicate.rowIndices.includes(first) && duplicate.rowIndices.includes(second));
+    const candidates = records
+      .map((record, index) => ({
+        student_id: record.student_id?.trim() || '',
+        first_name: record.first_name || '',
+        last_name: record.last_name || '',
+        email: record.email,
+        index,
+      }))
+      .filter(candidate => candidate.student_id);
+
+    findMatchCandidates(candidates).forEach(match => {
+      const indices = [match.first.index, match.second.index].sort((a, b) => a - b);
+      if (reportedTogether(indices[0], indices[1])) return;
+
+      const reasons = match.reasons.map(reason => MATCH_REASON_LABELS[reason].toLowerCase()).join(', ');
+      duplicates.push({
+        type: 'similar_record',
+        value: `${match.first.student_id} / ${match.second.student_id}`,
+        rowIndices: indices,
+        records: indices.map(idx => records[idx]),
+        severity: match.score >= 0.85 ? 'medium' : 'low',
+        message: `Rows ${indices[0] + 1} and ${indices[1] + 1} may be the same student (${Math.round(match.score * 100)}% match: ${reasons})`,
+      });
+    });
+
     return duplicates;
   }
 
@@ -258,8 +287,7 @@ export class DataQualityService {
    */
   private static checkRecordInconsistencies(
     record: StudentRecord,
-    rowIndex: number,
-    allRecords: StudentRecord[]
+    rowIndex: number
   ): InconsistencyEntry[] {
     const inconsistencies: InconsistencyEntry[] = [];
 
@@ -334,80 +362,9 @@ export class DataQualityService {
       }
     }
 
-    // Check for suspiciously similar names (potential typos)
-    const similarNames = this.findSimilarNames(record, allRecords, rowIndex);
-    if (similarNames.length > 0) {
-      inconsistencies.push({
-        rowIndex,
-        field: 'name',
-        value: `${record.first_name} ${record.last_name}`,
-        severity: 'low',
-        issue: `Name is similar to: ${similarNames.join(', ')}. Possible typo or duplicate?`,
-      });
-    }
-
     return inconsistencies;
   }
 
-  /**
-   * Find similar names (potential typos or duplicates)
-   */
-  private static findSimilarNames(
-    record: StudentRecord,
-    allRecords: StudentRecord[],
-    currentIndex: number
-  ): string[] {
-    if (!record.first_name || !record.last_name) return [];
-
-    const similar: string[] = [];
-    const currentName = `${record.first_name.toLowerCase()} ${record.last_name.toLowerCase()}`;
-
-    allRecords.forEach((other, idx) => {
-      if (idx === currentIndex || !other.first_name || !other.last_name) return;
-
-      const otherName = `${other.first_name.toLowerCase()} ${other.last_name.toLowerCase()}`;
-      const distance = this.levenshteinDistance(currentName, otherName);
-
-      // If distance is 1-2, likely similar
-      if (distance > 0 && distance <= 2) {
-        similar.push(`${other.first_name} ${other.last_name} (row ${idx + 1})`);
-      }
-    });
-
-    return similar;
-  }
-
-  /**
-   * Calculate Levenshtein distance (edit distance between strings)
-   */
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
-
   /**
    * Suggest a valid grade based on input
    */
@@ -8,9 +8,16 @@ import {
   getDoc,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import {
+  findMatchCandidates,
+  findMatchesAgainst,
+  MatchableStudent,
+  MatchReason,
+  StudentMatch,
+} from '@/lib/studentMatching';
 
 export interface DuplicateMatch {
-  matchType: 'student_id' | 'email' | 'name_combination';
+  matchType: 'student_id' | 'email' | 'name_combination' | 'similar_record';
   existingStudent: {
     student_id: string;
     first_name: string;
@@ -24,8 +31,13 @@ export interface DuplicateMatch {
     last_name: string;
     email?: string;
   };
-  severity: 'high' | 'medium' | 'low'; // high=student_id, medium=email, low=name
+  severity: 'high' | 'medium' | 'low'; // high=student_id, medium=email, low=name or similar record
   confidence: number; // 0-1 confidence score
+  reasons?: MatchReason[]; // why a similar record matched (see src/lib/studentMatching.ts)
+}
+
+export interface ExistingStudent extends MatchableStudent {
+  created_at: string;
 }
 
 export interface DuplicateDetectionResult {
@@ -123,50 +135,34 @@ export class DuplicateDetectionService {
   }
 
   /**
-   * Calculate name similarity using Levenshtein distance
-   * Returns a score between 0-1 where 1 is exact match
+   * Every student record that is not archived, for fuzzy matching
    */
-  private static calculateNameSimilarity(name1: string, name2: string): number {
-    const n1 = name1.toLowerCase().trim();
-    const n2 = name2.toLowerCase().trim();
-
-    if (n1 === n2) return 1;
-    if (n1 === '' || n2 === '') return 0;
-
-    const maxLen = Math.max(n1.length, n2.length);
-    const distance = this.levenshteinDistance(n1, n2);
-    return 1 - distance / maxLen;
+  private static async getExistingStudents(): Promise<ExistingStudent[]> {
+    const snapshot = await getDocs(collection(db, this.STUDENTS_COLLECTION));
+    return snapshot.docs
+      .filter(studentDoc => !studentDoc.data().archived)
+      .map(studentDoc => {
+        const data = studentDoc.data();
+        return {
+          student_id: data.student_id || studentDoc.id,
+          first_name: data.first_name || '',
+          last_name: data.last_name || '',
+          ...(data.email && { email: data.email }),
+          created_at: data.created_at?.toDate?.()?.toISOString?.() || data.created_at || '',
+        };
+      });
   }
 
   /**
-   * Calculate Levenshtein distance between two strings
+   * Pairs of existing student records that are probably the same person, best match first
    */
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
+  static async findSimilarStudents(): Promise<StudentMatch<ExistingStudent>[]> {
+    try {
+      return findMatchCandidates(await this.getExistingStudents());
+    } catch (error) {
+      console.error('[DuplicateDetection] Error finding similar students:', error);
+      return [];
     }
-
-    return matrix[str2.length][str1.length];
   }
 
   /**
@@ -184,6 +180,14 @@ export class DuplicateDetectionService {
     const cleanRecords = [];
     const processedIds = new Set<string>();
 
+    // Similar records are looked up for the whole upload at once
+    let similarMatches: StudentMatch<(typeof uploadRecords)[number], ExistingStudent>[] = [];
+    try {
+      similarMatches = findMatchesAgainst(uploadRecords, await this.getExistingStudents());
+    } catch (error) {
+      console.error('[DuplicateDetection] Error loading students for similarity check:', error);
+    }
+
     for (const record of uploadRecords) {
       const recordKey = `${record.student_id}`;
 
@@ -248,37 +252,18 @@ export class DuplicateDetectionService {
         }
       }
 
-      // 3. Check name combination duplicates (low severity - fuzzy match)
+      // 3. Check similar records (low severity - fuzzy match on name, Student ID and email)
       if (!isDuplicate) {
-        const nameMatches = await this.findStudentsByName(
-          record.first_name,
-          record.last_name
-        );
-        if (nameMatches.length > 0) {
-          for (const existing of nameMatches) {
-            const similarity = this.calculateNameSimilarity(
-              `${record.first_name} ${record.last_name}`,
-              `${existing.first_name} ${existing.last_name}`
-            );
-
-            // Only flag if similarity is high enough (>0.85)
-            if (similarity > 0.85) {
-              duplicateMatches.push({
-                matchType: 'name_combination',
-                existingStudent: {
-                  student_id: existing.student_id,
-                  first_name: existing.first_name,
-                  last_name: existing.last_name,
-                  email: existing.email,
-                  created_at: existing.created_at,
-                },
-                uploadRecord: record,
-                severity: 'low',
-                confidence: similarity,
-              });
-              isDuplicate = true;
-            }
-          }
+        for (const match of similarMatches.filter(similar => similar.first === record)) {
+          duplicateMatches.push({
+            matchType: 'similar_record',
+            existingStudent: match.second,
+            uploadRecord: record,
+            severity: 'low',
+            confidence: match.score,
+            reasons: match.reasons,
+          });
+          isDuplicate = true;
         }
       }
 
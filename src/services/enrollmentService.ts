@@ -0,0 +1,242 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  writeBatch,
+  WriteBatch,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { getDocsByOwners } from '@/lib/ownerScope';
+import { buildRoster, findIdentityConflicts, getEnrollmentId, planRosterSync } from '@/lib/enrollment';
+import { Enrollment, EnrollmentStatus, RosterEntry } from '@/types/enrollment';
+
+export interface EnrolledStudent {
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
+}
+
+const STUDENTS_COLLECTION = 'students';
+const ENROLLMENTS_COLLECTION = 'studentEnrollments';
+const BATCH_LIMIT = 400; // below Firestore's 500 writes per batch
+
+const toIsoString = (value: any): string =>
+  value?.toDate?.()?.toISOString?.() || (typeof value === 'string' ? value : new Date().toISOString());
+
+const toEnrollment = (data: any): Enrollment => ({
+  student_id: data.student_id,
+  class_id: data.class_id,
+  status: data.status || 'active',
+  enrolled_date: toIsoString(data.enrolled_date),
+  ...(data.updated_at && { updated_at: toIsoString(data.updated_at) }),
+  ...(data.updated_by && { updated_by: data.updated_by }),
+});
+
+/**
+ * Enrollments (every status) of the given classes
+ */
+export async function getEnrollmentsForClasses(classIds: string[]): Promise<Enrollment[]> {
+  try {
+    // One query per class: the rules read each class to allow its enrollments
+    const docs = await Promise.all(
+      Array.from(new Set(classIds)).map(classId => getDocsByOwners(ENROLLMENTS_COLLECTION, classId, [], 'class_id'))
+    );
+    return docs.flat().map(docSnap => toEnrollment(docSnap.data()));
+  } catch (error) {
+    console.error('Error fetching enrollments:', error);
+    throw error;
+  }
+}
+
+/**
+ * Enrollments (every status) of the given students
+ */
+export async function getEnrollmentsForStudents(studentIds: string[]): Promise<Enrollment[]> {
+  try {
+    if (studentIds.length === 0) return [];
+    const docs = await getDocsByOwners(ENROLLMENTS_COLLECTION, studentIds, [], 'student_id');
+    return docs.map(docSnap => toEnrollment(docSnap.data()));
+  } catch (error) {
+    console.error('Error fetching student enrollments:', error);
+    throw error;
+  }
+}
+
+/**
+ * Student records by Student ID; IDs without a record are left out.
+ * Each record is read by its ID: staff may look up any Student ID, but listing the
+ * students collection is limited to the records a user can read (see firestore.rules).
+ */
+export async function getStudentRecords(studentIds: string[]): Promise<Map<string, EnrolledStudent>> {
+  try {
+    const records = new Map<string, EnrolledStudent>();
+    const ids = Array.from(new Set(studentIds)).filter(Boolean);
+    if (ids.length === 0) return records;
+
+    const snapshots = await Promise.all(ids.map(studentId => getDoc(doc(getDb(), STUDENTS_COLLECTION, studentId))));
+    snapshots.forEach(docSnap => {
+      if (!docSnap.exists()) return;
+      const data = docSnap.data() as any;
+      records.set(data.student_id || docSnap.id, {
+        student_id: data.student_id || docSnap.id,
+        first_name: data.first_name || '',
+        last_name: data.last_name || '',
+        ...(data.email && { email: data.email }),
+      });
+    });
+    return records;
+  } catch (error) {
+    console.error('Error fetching student records:', error);
+    throw error;
+  }
+}
+
+/**
+ * Students whose ID is already on record for someone else (see findIdentityConflicts)
+ */
+export async function findStudentIdConflicts<T extends EnrolledStudent>(
+  students: T[]
+): Promise<Array<{ student: T; existing: EnrolledStudent }>> {
+  if (students.length === 0) return [];
+  return findIdentityConflicts(students, await getStudentRecords(students.map(student => student.student_id)));
+}
+
+/**
+ * Full rosters (every status) of the given classes, keyed by class ID
+ */
+export async function getClassRosters(classIds: string[]): Promise<Map<string, RosterEntry[]>> {
+  const enrollments = await getEnrollmentsForClasses(classIds);
+  const records = await getStudentRecords(Array.from(new Set(enrollments.map(e => e.student_id))));
+
+  const rosters = new Map<string, RosterEntry[]>();
+  classIds.forEach(classId => {
+    rosters.set(classId, buildRoster(enrollments.filter(e => e.class_id === classId), records));
+  });
+  return rosters;
+}
+
+/**
+ * Make `students` the class's active roster (see planRosterSync). Students without
+ * a record get one; existing records take the names given here.
+ * With `additive`, students are only added: those without an enrollment are enrolled
+ * and those without a record get one, but no enrollment is dropped or reactivated and
+ * no record is renamed. The roster migration uses this so a re-run never undoes later edits.
+ */
+export async function syncClassRoster(
+  classId: string,
+  students: EnrolledStudent[],
+  userId: string,
+  options: { additive?: boolean } = {}
+): Promise<void> {
+  try {
+    const roster = students.filter(student => student.student_id?.trim());
+    const [enrollments, records] = await Promise.all([
+      getEnrollmentsForClasses([classId]),
+      getStudentRecords(roster.map(student => student.student_id)),
+    ]);
+    const plan = planRosterSync(enrollments, roster.map(student => student.student_id));
+    const now = new Date().toISOString();
+
+    const writes: Array<(batch: WriteBatch) => void> = [];
+
+    roster.forEach(student => {
+      const existing = records.get(student.student_id);
+      const details = {
+        first_name: student.first_name,
+        last_name: student.last_name,
+        ...(student.email && { email: student.email }),
+      };
+      const ref = doc(getDb(), STUDENTS_COLLECTION, student.student_id);
+
+      if (!existing) {
+        writes.push(batch =>
+          batch.set(ref, {
+            student_id: student.student_id,
+            ...details,
+            created_by: userId,
+            created_at: now,
+            updated_at: now,
+          })
+        );
+      } else if (
+        !options.additive &&
+        (existing.first_name !== student.first_name ||
+          existing.last_name !== student.last_name ||
+          (student.email && existing.email !== student.email))
+      ) {
+        writes.push(batch => batch.set(ref, { ...details, updated_at: now }, { merge: true }));
+      }
+    });
+
+    plan.enroll.forEach(studentId => {
+      writes.push(batch =>
+        batch.set(doc(getDb(), ENROLLMENTS_COLLECTION, getEnrollmentId(studentId, classId)), {
+          student_id: studentId,
+          class_id: classId,
+          status: 'active',
+          enrolled_date: now,
+          updated_at: now,
+          updated_by: userId,
+        })
+      );
+    });
+
+    const statusChanges: Array<[string, EnrollmentStatus]> = options.additive
+      ? []
+      : [
+          ...plan.reactivate.map(id => [id, 'active'] as [string, EnrollmentStatus]),
+          ...plan.drop.map(id => [id, 'dropped'] as [string, EnrollmentStatus]),
+        ];
+    statusChanges.forEach(([studentId, status]) => {
+      writes.push(batch =>
+        batch.update(doc(getDb(), ENROLLMENTS_COLLECTION, getEnrollmentId(studentId, classId)), {
+          status,
+          updated_at: now,
+          updated_by: userId,
+        })
+      );
+    });
+
+    for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+      const batch = writeBatch(getDb());
+      writes.slice(start, start + BATCH_LIMIT).forEach(write => write(batch));
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error(`Error syncing roster of class ${classId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Set one student's enrollment status in a class
+ */
+export async function setEnrollmentStatus(
+  classId: string,
+  studentId: string,
+  status: EnrollmentStatus,
+  userId: string
+): Promise<void> {
+  try {
+    const ref = doc(getDb(), ENROLLMENTS_COLLECTION, getEnrollmentId(studentId, classId));
+    const existing = await getDoc(ref);
+    const now = new Date().toISOString();
+
+    await setDoc(
+      ref,
+      {
+        student_id: studentId,
+        class_id: classId,
+        status,
+        ...(!existing.exists() && { enrolled_date: now }),
+        updated_at: now,
+        updated_by: userId,
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error(`Error setting enrollment of ${studentId} in class ${classId}:`, error);
+    throw error;
+  }
+}
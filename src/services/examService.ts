@@ -10,9 +10,11 @@ import {
   where,
   serverTimestamp,
 } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { getDb } from "@/lib/firebase";
+import { getDocsByOwnersOrShared } from "@/lib/ownerScope";
+import { Shareable } from "@/types/sharing";
 
-export interface Exam {
+export interface Exam extends Shareable {
   id: string;
   title: string;
   subject: string;
@@ -26,8 +28,10 @@ export interface Exam {
   instructorId?: string; // Instructor ID for the exam creator
   updatedAt?: string;
   className?: string;
+  classId?: string;
   examType?: 'board' | 'diagnostic';
   choicePoints?: { [choice: string]: number };
+  gradingScaleId?: string; // overrides the class's grading scale
   isArchived?: boolean;
   archivedAt?: string;
 }
@@ -85,7 +89,7 @@ export async function createExam(
       examType: formData.examType || 'board',
       choicePoints: formData.choicePoints || {},
     };
-    const docRef = await addDoc(collection(db, "exams"), examData);
+    const docRef = await addDoc(collection(getDb(), "exams"), examData);
 
     // Return the exam with the generated ID (include instructorId)
     const newExam: Exam = {
@@ -118,8 +122,8 @@ export async function createExam(
  */
 export async function getRecentExams(userId: string, limit: number = 5): Promise<Exam[]> {
   try {
-    // Fetch all exams without filters to avoid composite index
-    const q = query(collection(db, "exams"));
+    // Filter by owner only (no orderBy) to avoid a composite index
+    const q = query(collection(getDb(), "exams"), where("createdBy", "==", userId));
     const querySnapshot = await getDocs(q);
     const exams: Exam[] = [];
 
@@ -143,6 +147,12 @@ export async function getRecentExams(userId: string, limit: number = 5): Promise
           updatedAt:
             data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
           className: data.className || undefined,
+          classId: data.classId || undefined,
+          examType: data.examType || undefined,
+          choicePoints: data.choicePoints || undefined,
+          gradingScaleId: data.gradingScaleId || undefined,
+          collaborators: data.collaborators || undefined,
+          collaboratorIds: data.collaboratorIds || undefined,
           isArchived: data.isArchived,
         });
       }
@@ -165,8 +175,8 @@ export async function getRecentExams(userId: string, limit: number = 5): Promise
 
 export async function getExamCount(userId: string): Promise<number> {
   try {
-    // Fetch all exams without filters to avoid composite index
-    const q = query(collection(db, "exams"));
+    // Filter by owner only (no orderBy) to avoid a composite index
+    const q = query(collection(getDb(), "exams"), where("createdBy", "==", userId));
     const querySnapshot = await getDocs(q);
     let count = 0;
 
@@ -186,23 +196,20 @@ export async function getExamCount(userId: string): Promise<number> {
 }
 
 /**
- * Get all exams for a user
+ * Get all exams created by a user, or by any of several users
+ * (see getVisibleOwnerIds); with no owner, every exam.
+ * With a collaborator, also the exams shared with them.
  */
-export async function getExams(userId?: string): Promise<Exam[]> {
+export async function getExams(owners?: string | string[], collaboratorId?: string): Promise<Exam[]> {
   try {
-    // If userId is provided, query with filter to avoid permission issues
-    const q = userId
-      ? query(collection(db, "exams"), where("createdBy", "==", userId))
-      : query(collection(db, "exams"));
-    
-    const querySnapshot = await getDocs(q);
+    // Filter by owner in the query to avoid permission issues
+    const docs = await getDocsByOwnersOrShared("exams", owners, collaboratorId);
     const exams: Exam[] = [];
 
-    querySnapshot.forEach((doc) => {
+    docs.forEach((doc) => {
       const data = doc.data();
-      // Filter by userId if provided (additional client-side check)
-      // Also filter out archived exams
-      if ((!userId || data.createdBy === userId) && !data.isArchived) {
+      // Filter out archived exams
+      if (!data.isArchived) {
         exams.push({
           id: doc.id,
           title: data.title,
@@ -219,6 +226,12 @@ export async function getExams(userId?: string): Promise<Exam[]> {
           updatedAt:
             data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
           className: data.className || undefined,
+          classId: data.classId || undefined,
+          examType: data.examType || undefined,
+          choicePoints: data.choicePoints || undefined,
+          gradingScaleId: data.gradingScaleId || undefined,
+          collaborators: data.collaborators || undefined,
+          collaboratorIds: data.collaboratorIds || undefined,
           isArchived: data.isArchived,
         });
       }
@@ -238,12 +251,62 @@ export async function getExams(userId?: string): Promise<Exam[]> {
   }
 }
 
+/**
+ * Get the active exams given to a class, oldest first.
+ * Pass the class owner so the query only touches exams the caller may read,
+ * and a collaborator to include the class's exams shared with them.
+ */
+export async function getExamsByClassId(
+  classId: string,
+  owners?: string | string[],
+  collaboratorId?: string
+): Promise<Exam[]> {
+  try {
+    const docs = await getDocsByOwnersOrShared("exams", owners, collaboratorId, [where("classId", "==", classId)]);
+    const exams: Exam[] = [];
+
+    docs.forEach((doc) => {
+      const data = doc.data();
+      if (data.isArchived) return;
+      exams.push({
+        id: doc.id,
+        title: data.title,
+        subject: data.subject,
+        num_items: data.num_items,
+        choices_per_item: data.choices_per_item,
+        created_at:
+          data.created_at ||
+          data.createdAt?.toDate?.().toISOString() ||
+          new Date().toISOString(),
+        answer_keys: data.answer_keys || [],
+        generated_sheets: data.generated_sheets || [],
+        createdBy: data.createdBy,
+        updatedAt:
+          data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        className: data.className || undefined,
+        classId: data.classId || undefined,
+        examType: data.examType || undefined,
+        choicePoints: data.choicePoints || undefined,
+        gradingScaleId: data.gradingScaleId || undefined,
+        collaborators: data.collaborators || undefined,
+        collaboratorIds: data.collaboratorIds || undefined,
+      });
+    });
+
+    exams.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    return exams;
+  } catch (error: any) {
+    console.error("Error fetching class exams:", error);
+    throw new Error("Failed to fetch class exams");
+  }
+}
+
 /**
  * Get a single exam by ID
  */
 export async function getExamById(examId: string): Promise<Exam | null> {
   try {
-    const docRef = doc(db, "exams", examId);
+    const docRef = doc(getDb(), "exams", examId);
     const docSnap = await getDoc(docRef);
 
     if (!docSnap.exists()) {
@@ -267,6 +330,12 @@ export async function getExamById(examId: string): Promise<Exam | null> {
       updatedAt:
         data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
       className: data.className || undefined,
+      classId: data.classId || undefined,
+      examType: data.examType || undefined,
+      choicePoints: data.choicePoints || undefined,
+      gradingScaleId: data.gradingScaleId || undefined,
+      collaborators: data.collaborators || undefined,
+      collaboratorIds: data.collaboratorIds || undefined,
     };
   } catch (error: any) {
     // Silently handle offline errors - don't throw
@@ -287,7 +356,7 @@ export async function updateExam(
   updates: Partial<Exam>,
 ): Promise<void> {
   try {
-    const docRef = doc(db, "exams", examId);
+    const docRef = doc(getDb(), "exams", examId);
     await updateDoc(docRef, {
       ...updates,
       updatedAt: serverTimestamp(),
@@ -304,7 +373,7 @@ export async function updateExam(
 export async function archiveExam(examId: string): Promise<void> {
   try {
     // Archive the exam
-    const docRef = doc(db, "exams", examId);
+    const docRef = doc(getDb(), "exams", examId);
     await updateDoc(docRef, {
       isArchived: true,
       archivedAt: serverTimestamp(),
@@ -313,7 +382,7 @@ export async function archiveExam(examId: string): Promise<void> {
 
     // Delete any templates linked to this exam
     const templateQuery = query(
-      collection(db, "templates"),
+      collection(getDb(), "templates"),
       where("examId", "==", examId)
     );
     const templateSnap = await getDocs(templateQuery);
@@ -326,18 +395,13 @@ export async function archiveExam(examId: string): Promise<void> {
 }
 
 
-export async function getArchivedExams(userId: string): Promise<Exam[]> {
+export async function getArchivedExams(owners?: string | string[], collaboratorId?: string): Promise<Exam[]> {
   try {
-    // Use where clause to filter by userId and isArchived to minimize data read
-    const q = query(
-      collection(db, "exams"),
-      where("createdBy", "==", userId),
-      where("isArchived", "==", true)
-    );
-    const querySnapshot = await getDocs(q);
+    // Use where clause to filter by owner and isArchived to minimize data read
+    const docs = await getDocsByOwnersOrShared("exams", owners, collaboratorId, [where("isArchived", "==", true)]);
     const exams: Exam[] = [];
 
-    querySnapshot.forEach((doc) => {
+    docs.forEach((doc) => {
       const data = doc.data();
       exams.push({
         id: doc.id,
@@ -355,6 +419,12 @@ export async function getArchivedExams(userId: string): Promise<Exam[]> {
         updatedAt:
           data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
         className: data.className || undefined,
+        classId: data.classId || undefined,
+        examType: data.examType || undefined,
+        choicePoints: data.choicePoints || undefined,
+        gradingScaleId: data.gradingScaleId || undefined,
+        collaborators: data.collaborators || undefined,
+        collaboratorIds: data.collaboratorIds || undefined,
         isArchived: data.isArchived,
         archivedAt:
           data.archivedAt?.toDate?.().toISOString() || new Date().toISOString(),
@@ -380,7 +450,7 @@ export async function getArchivedExams(userId: string): Promise<Exam[]> {
  */
 export async function deleteExam(examId: string): Promise<void> {
   try {
-    const docRef = doc(db, "exams", examId);
+    const docRef = doc(getDb(), "exams", examId);
     // Instead of deleting the document, set isArchived to false and mark as deleted
     await updateDoc(docRef, {
       isArchived: false,
@@ -401,7 +471,7 @@ export async function addAnswerKeyToExam(
   answerKeyId: string,
 ): Promise<void> {
   try {
-    const docRef = doc(db, "exams", examId);
+    const docRef = doc(getDb(), "exams", examId);
     const docSnap = await getDoc(docRef);
 
     if (!docSnap.exists()) {
@@ -428,7 +498,7 @@ export async function addGeneratedSheetToExam(
   sheet: GeneratedSheet,
 ): Promise<void> {
   try {
-    const docRef = doc(db, "exams", examId);
+    const docRef = doc(getDb(), "exams", examId);
     const docSnap = await getDoc(docRef);
 
     if (!docSnap.exists()) {
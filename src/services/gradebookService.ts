@@ -0,0 +1,98 @@
+/**
+ * Gradebook Service
+ * Stores each class's grading rules (categories, weights, drop-lowest, transmutation
+ * table and grade scale) in Firestore, one document per class
+ */
+
+import { doc, getDoc, setDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { GradebookConfig } from '@/types/gradebook';
+import { validateGradebookConfig } from '@/lib/gradebook';
+import { AuditLogger } from './auditLogger';
+
+const GRADEBOOKS_COLLECTION = 'gradebooks';
+
+export class GradebookService {
+  /**
+   * Get a class's gradebook rules; data is null when none have been saved yet
+   */
+  static async getGradebook(
+    classId: string
+  ): Promise<{ success: boolean; data?: GradebookConfig | null; error?: string }> {
+    try {
+      const snapshot = await getDoc(doc(db, GRADEBOOKS_COLLECTION, classId));
+      if (!snapshot.exists()) {
+        return { success: true, data: null };
+      }
+
+      const data = snapshot.data();
+      return {
+        success: true,
+        data: {
+          classId,
+          categories: data.categories || [],
+          transmutation: data.transmutation || null,
+          scale: data.scale,
+          updatedAt: (data.updatedAt as Timestamp)?.toDate?.().toISOString(),
+          updatedBy: data.updatedBy,
+        },
+      };
+    } catch (error) {
+      console.error('Error fetching gradebook:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Save a class's gradebook rules. Term grades are always computed from these,
+   * so changes are recorded in the audit log.
+   */
+  static async saveGradebook(
+    config: GradebookConfig,
+    user: { id: string; email: string },
+    className?: string
+  ): Promise<{ success: boolean; data?: GradebookConfig; error?: string }> {
+    try {
+      const errors = validateGradebookConfig(config);
+      if (errors.length > 0) {
+        return { success: false, error: errors[0] };
+      }
+
+      const saved: GradebookConfig = {
+        classId: config.classId,
+        categories: config.categories.map(category => ({ ...category, name: category.name.trim() })),
+        transmutation: config.transmutation,
+        scale: { ...(config.scale.id && { id: config.scale.id }), name: config.scale.name, bands: config.scale.bands },
+        updatedAt: new Date().toISOString(),
+        updatedBy: user.id,
+      };
+
+      await setDoc(doc(db, GRADEBOOKS_COLLECTION, config.classId), {
+        ...saved,
+        updatedAt: serverTimestamp(),
+      });
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'settings_changed',
+        `Updated gradebook rules` + (className ? ` for class: ${className}` : ''),
+        {
+          entityId: config.classId,
+          entityType: 'gradebook',
+          entityName: className,
+          metadata: {
+            categories: saved.categories.map(c => `${c.name} ${c.weight}%` + (c.dropLowest ? ` (drop ${c.dropLowest})` : '')),
+            transmutation: saved.transmutation?.name || 'None',
+            scale: saved.scale.name,
+          },
+        }
+      );
+
+      return { success: true, data: saved };
+    } catch (error) {
+      console.error('Error saving gradebook:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
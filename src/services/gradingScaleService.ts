@@ -0,0 +1,177 @@
+/**
+ * Grading Scale Service
+ * Stores named grading scales in Firestore alongside the built-in ones, and looks up
+ * the scale that applies to a class or exam
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { GradingScale } from '@/types/gradebook';
+import { BUILT_IN_GRADING_SCALES, DEFAULT_GRADING_SCALE, validateGradeScale } from '@/lib/gradingScales';
+import { getClassById } from './classService';
+import { getExamById } from './examService';
+import { AuditLogger } from './auditLogger';
+
+const GRADING_SCALES_COLLECTION = 'gradingScales';
+
+const toIso = (value: unknown): string | undefined =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : undefined);
+
+const scaleFromFirestore = (id: string, data: Record<string, unknown>): GradingScale => ({
+  id,
+  name: (data.name as string) || 'Untitled scale',
+  bands: (data.bands as GradingScale['bands']) || [],
+  createdBy: data.createdBy as string | undefined,
+  createdAt: toIso(data.createdAt),
+  updatedAt: toIso(data.updatedAt),
+});
+
+export class GradingScaleService {
+  /**
+   * Built-in scales followed by the user's saved scales, by name
+   */
+  static async getGradingScales(
+    userId?: string
+  ): Promise<{ success: boolean; data?: GradingScale[]; error?: string }> {
+    try {
+      const q = userId
+        ? query(collection(getDb(), GRADING_SCALES_COLLECTION), where('createdBy', '==', userId))
+        : query(collection(getDb(), GRADING_SCALES_COLLECTION));
+      const snapshot = await getDocs(q);
+      const saved = snapshot.docs
+        .map(docSnap => scaleFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return { success: true, data: [...BUILT_IN_GRADING_SCALES, ...saved] };
+    } catch (error) {
+      console.error('Error fetching grading scales:', error);
+      return { success: false, data: BUILT_IN_GRADING_SCALES, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Create or update a saved scale; built-in scales can't be changed
+   */
+  static async saveGradingScale(
+    scale: Omit<GradingScale, 'id'> & { id?: string },
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: GradingScale; error?: string }> {
+    try {
+      if (scale.id && BUILT_IN_GRADING_SCALES.some(builtIn => builtIn.id === scale.id)) {
+        return { success: false, error: 'Built-in scales cannot be changed. Save a copy instead.' };
+      }
+      const errors = validateGradeScale(scale);
+      if (errors.length > 0) {
+        return { success: false, error: errors[0] };
+      }
+
+      const scaleId = scale.id || `scale_${user.id}_${Date.now()}`;
+      const now = new Date().toISOString();
+      const saved: GradingScale = {
+        id: scaleId,
+        name: scale.name.trim(),
+        bands: [...scale.bands]
+          .map(band => ({ ...band, label: band.label.trim() }))
+          .sort((a, b) => b.min - a.min),
+        createdBy: scale.createdBy || user.id,
+        createdAt: scale.createdAt || now,
+        updatedAt: now,
+      };
+
+      await setDoc(doc(getDb(), GRADING_SCALES_COLLECTION, scaleId), {
+        name: saved.name,
+        bands: saved.bands,
+        createdBy: saved.createdBy,
+        createdAt: scale.createdAt || serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'settings_changed',
+        `${scale.id ? 'Updated' : 'Created'} grading scale: ${saved.name}`,
+        {
+          entityId: scaleId,
+          entityType: 'gradingScale',
+          entityName: saved.name,
+          metadata: { bands: saved.bands.map(b => `${b.label} ≥ ${b.min}${b.passed ? '' : ' (failing)'}`) },
+        }
+      );
+
+      return { success: true, data: saved };
+    } catch (error) {
+      console.error('Error saving grading scale:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Delete a saved scale. Classes and exams still pointing at it fall back to the default scale.
+   */
+  static async deleteGradingScale(scaleId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (BUILT_IN_GRADING_SCALES.some(builtIn => builtIn.id === scaleId)) {
+        return { success: false, error: 'Built-in scales cannot be deleted.' };
+      }
+      await deleteDoc(doc(getDb(), GRADING_SCALES_COLLECTION, scaleId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting grading scale:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * A built-in or saved scale by id, or null when it no longer exists
+   */
+  static async getGradingScaleById(scaleId: string): Promise<GradingScale | null> {
+    const builtIn = BUILT_IN_GRADING_SCALES.find(scale => scale.id === scaleId);
+    if (builtIn) return builtIn;
+    const snapshot = await getDoc(doc(getDb(), GRADING_SCALES_COLLECTION, scaleId));
+    return snapshot.exists() ? scaleFromFirestore(snapshot.id, snapshot.data()) : null;
+  }
+
+  /**
+   * The scale that applies to a class. Never fails: lookups that go wrong fall back to the default.
+   */
+  static async getScaleForClass(classId?: string): Promise<GradingScale> {
+    try {
+      const cls = classId ? await getClassById(classId) : null;
+      const scale = cls?.gradingScaleId ? await this.getGradingScaleById(cls.gradingScaleId) : null;
+      return scale || DEFAULT_GRADING_SCALE;
+    } catch (error) {
+      console.error('Error resolving class grading scale:', error);
+      return DEFAULT_GRADING_SCALE;
+    }
+  }
+
+  /**
+   * The scale that applies to an exam: its own, then its class's, then the default.
+   * Accepts the exam itself when the caller already has it. Never fails.
+   */
+  static async getScaleForExam(
+    exam: string | { gradingScaleId?: string; classId?: string }
+  ): Promise<GradingScale> {
+    try {
+      const examData = typeof exam === 'string' ? await getExamById(exam) : exam;
+      if (!examData) return DEFAULT_GRADING_SCALE;
+      const own = examData.gradingScaleId ? await this.getGradingScaleById(examData.gradingScaleId) : null;
+      return own || (await this.getScaleForClass(examData.classId));
+    } catch (error) {
+      console.error('Error resolving exam grading scale:', error);
+      return DEFAULT_GRADING_SCALE;
+    }
+  }
+}
@@ -20,6 +20,9 @@ import {
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { RecordValidationGuardService, ValidationError } from './recordValidationGuardService';
+import { getLetterGrade, getGradeDistribution, isPassing } from '@/lib/gradingScales';
+import { GradingScaleService } from './gradingScaleService';
+import { GradeBandCount } from '@/types/gradebook';
 
 
 export interface StudentGrade {
@@ -51,7 +54,7 @@ export interface StudentGradeStatistics {
   average_score: number;
   highest_score: number;
   lowest_score: number;
-  passing_count: number;
+  passing_count: number; // passing on each exam's own grading scale
   failing_count: number;
   grades: StudentGrade[];
 }
@@ -66,13 +69,9 @@ export interface ClassGradeStatistics {
   average_score: number;
   highest_score: number;
   lowest_score: number;
-  grade_distribution: {
-    excellent: number; // 90-100
-    good: number; // 80-89
-    satisfactory: number; // 70-79
-    passing: number; // 60-69
-    failing: number; // < 60
-  };
+  grade_scale: string; // name of the class's grading scale
+  pass_rate: number; // percentage of grades that pass on their exam's scale
+  grade_distribution: GradeBandCount[]; // class scale bands, highest first
   std_deviation: number;
 }
 
@@ -106,6 +105,8 @@ export class GradingService {
     validation_errors?: ValidationError[];
   }> {
     try {
+      const scale = await GradingScaleService.getScaleForExam(gradeData.exam_id);
+
       // Validate the grade record using validation guard
       const validationResult = await RecordValidationGuardService.validateGradeRecord({
         student_id: gradeData.student_id,
@@ -114,7 +115,7 @@ export class GradingService {
         score: gradeData.score,
         grade_letter: gradeData.letter_grade,
         recorded_by: gradeData.graded_by,
-      });
+      }, scale);
 
       // If validation fails, block the save and return errors
       if (!validationResult.isValid) {
@@ -137,7 +138,7 @@ export class GradingService {
         score: gradeData.score,
         max_score: gradeData.max_score,
         percentage,
-        letter_grade: gradeData.letter_grade || this.calculateLetterGrade(percentage),
+        letter_grade: gradeData.letter_grade || getLetterGrade(percentage, scale),
         status: gradeData.is_final ? 'approved' : 'draft',
         graded_at: now,
         graded_by: gradeData.graded_by,
@@ -300,7 +301,7 @@ export class GradingService {
       }
 
       const percentages = grades.map((g) => g.percentage);
-      const passingCount = percentages.filter((p) => p >= 60).length;
+      const passingCount = await this.countPassing(grades);
 
       return {
         success: true,
@@ -338,6 +339,7 @@ export class GradingService {
       }
 
       const grades = gradesResult.data;
+      const scale = await GradingScaleService.getScaleForClass(classId);
 
       if (grades.length === 0) {
         return {
@@ -348,13 +350,9 @@ export class GradingService {
             average_score: 0,
             highest_score: 0,
             lowest_score: 0,
-            grade_distribution: {
-              excellent: 0,
-              good: 0,
-              satisfactory: 0,
-              passing: 0,
-              failing: 0,
-            },
+            grade_scale: scale.name,
+            pass_rate: 0,
+            grade_distribution: getGradeDistribution([], scale),
             std_deviation: 0,
           },
         };
@@ -367,14 +365,9 @@ export class GradingService {
       const variance = percentages.reduce((sum, val) => sum + Math.pow(val - average, 2), 0) / percentages.length;
       const stdDeviation = Math.sqrt(variance);
 
-      // Count grade distribution
-      const distribution = {
-        excellent: percentages.filter((p) => p >= 90).length,
-        good: percentages.filter((p) => p >= 80 && p < 90).length,
-        satisfactory: percentages.filter((p) => p >= 70 && p < 80).length,
-        passing: percentages.filter((p) => p >= 60 && p < 70).length,
-        failing: percentages.filter((p) => p < 60).length,
-      };
+      // Count grade distribution on the class's scale
+      const distribution = getGradeDistribution(percentages, scale);
+      const passingCount = await this.countPassing(grades);
 
       // Get unique students count
       const uniqueStudents = new Set(grades.map((g) => g.student_id)).size;
@@ -387,6 +380,8 @@ export class GradingService {
           average_score: Math.round(average),
           highest_score: Math.max(...percentages),
           lowest_score: Math.min(...percentages),
+          grade_scale: scale.name,
+          pass_rate: Math.round((passingCount / grades.length) * 100),
           grade_distribution: distribution,
           std_deviation: Math.round(stdDeviation * 100) / 100,
         },
@@ -419,6 +414,8 @@ export class GradingService {
 
       const existingData = gradeDoc.data() as StudentGrade;
 
+      const scale = await GradingScaleService.getScaleForExam(updates.exam_id || existingData.exam_id);
+
       // Validate the updated grade record using validation guard
       const validationResult = await RecordValidationGuardService.validateGradeRecord({
         student_id: updates.student_id || existingData.student_id,
@@ -427,7 +424,7 @@ export class GradingService {
         score: updates.score ?? existingData.score,
         grade_letter: updates.letter_grade || existingData.letter_grade,
         recorded_by: updates.updated_by,
-      });
+      }, scale);
 
       // If validation fails, block the update and return errors
       if (!validationResult.isValid) {
@@ -447,7 +444,7 @@ export class GradingService {
         updateData.score = updates.score;
         updateData.max_score = updates.max_score;
         updateData.percentage = Math.round((updates.score / updates.max_score) * 100);
-        updateData.letter_grade = this.calculateLetterGrade(updateData.percentage);
+        updateData.letter_grade = getLetterGrade(updateData.percentage, scale);
       }
 
       if (updates.comments !== undefined) {
@@ -498,17 +495,6 @@ export class GradingService {
     }
   }
 
-  /**
-   * Calculate letter grade from percentage
-   */
-  private static calculateLetterGrade(percentage: number): string {
-    if (percentage >= 90) return 'A';
-    if (percentage >= 80) return 'B';
-    if (percentage >= 70) return 'C';
-    if (percentage >= 60) return 'D';
-    return 'F';
-  }
-
   /**
    * Get all students with their latest grade in a class
    * Demonstrates join-like query using student_id foreign key
@@ -547,4 +533,17 @@ export class GradingService {
       return { success: false, error: (error as Error).message };
     }
   }
+
+  /**
+   * Count passing grades, judging each against its own exam's grading scale
+   */
+  private static async countPassing(grades: StudentGrade[]): Promise<number> {
+    const examIds = Array.from(new Set(grades.map((g) => g.exam_id)));
+    const scales = new Map(
+      await Promise.all(
+        examIds.map(async (examId) => [examId, await GradingScaleService.getScaleForExam(examId)] as const)
+      )
+    );
+    return grades.filter((g) => isPassing(g.percentage, scales.get(g.exam_id))).length;
+  }
 }
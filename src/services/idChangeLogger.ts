@@ -203,6 +203,46 @@ export class IDChangeLogger {
     return this.logSingleIDChange(adminId, adminEmail, record);
   }
 
+  /**
+   * Log a duplicate student record merged into the record that survives it
+   */
+  static async logIDMerge(
+    adminId: string,
+    adminEmail: string,
+    studentName: string,
+    duplicateId: string,
+    survivorId: string,
+    moved: Record<string, number>
+  ): Promise<boolean> {
+    try {
+      await AuditLogger.logActivity(
+        adminId,
+        adminEmail,
+        'admin_action',
+        `Student record ${duplicateId} merged into ${survivorId} for ${studentName}`,
+        {
+          entityId: survivorId,
+          entityType: 'student',
+          entityName: studentName,
+          status: 'success',
+          metadata: {
+            changeType: 'merge',
+            oldId: duplicateId,
+            newId: survivorId,
+            studentName,
+            moved,
+          },
+        }
+      );
+
+      console.log(`[IDChangeLogger] Logged student merge: ${duplicateId} → ${survivorId}`);
+      return true;
+    } catch (error) {
+      console.error('[IDChangeLogger] Error logging student merge:', error);
+      return false;
+    }
+  }
+
   /**
    * Get ID change history for a student
    */
@@ -9,7 +9,7 @@ import {
   orderBy,
   limit,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { getDb } from '@/lib/firebase';
 
 export interface InstructorProfile {
   instructorId: string;
@@ -33,7 +33,7 @@ async function generateInstructorId(): Promise<string> {
     console.log('🔄 Generating instructor ID...');
     
     // Get the current counter from metadata collection
-    const counterRef = doc(db, METADATA_COLLECTION, INSTRUCTOR_COUNTER_DOC);
+    const counterRef = doc(getDb(), METADATA_COLLECTION, INSTRUCTOR_COUNTER_DOC);
     const counterDoc = await getDoc(counterRef);
     
     let nextNumber = 1;
@@ -67,7 +67,7 @@ async function generateInstructorId(): Promise<string> {
 async function generateInstructorIdFallback(): Promise<string> {
   try {
     const q = query(
-      collection(db, INSTRUCTORS_COLLECTION),
+      collection(getDb(), INSTRUCTORS_COLLECTION),
       orderBy('instructorId', 'desc'),
       limit(1)
     );
@@ -127,7 +127,7 @@ export async function createInstructorProfile(
     };
     
     // Save to Firestore using instructorId as document ID for easy lookup
-    await setDoc(doc(db, INSTRUCTORS_COLLECTION, instructorId), instructorProfile);
+    await setDoc(doc(getDb(), INSTRUCTORS_COLLECTION, instructorId), instructorProfile);
     
     console.log('✅ Instructor profile created successfully:', instructorId);
     return instructorProfile;
@@ -145,7 +145,7 @@ export async function getInstructorProfileByUserId(
 ): Promise<InstructorProfile | null> {
   try {
     const q = query(
-      collection(db, INSTRUCTORS_COLLECTION),
+      collection(getDb(), INSTRUCTORS_COLLECTION),
       where('userId', '==', userId),
       limit(1)
     );
@@ -171,7 +171,7 @@ export async function getInstructorProfile(
   instructorId: string
 ): Promise<InstructorProfile | null> {
   try {
-    const docRef = doc(db, INSTRUCTORS_COLLECTION, instructorId);
+    const docRef = doc(getDb(), INSTRUCTORS_COLLECTION, instructorId);
     const docSnap = await getDoc(docRef);
     
     if (docSnap.exists()) {
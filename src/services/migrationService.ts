@@ -10,9 +10,11 @@
  * 3. This will assign instructor IDs to all users without one
  */
 
-import { collection, getDocs, doc, setDoc, query, where } from 'firebase/firestore';
+import { collection, getDocs, doc, setDoc, updateDoc, deleteField, query, where } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { rosterFromEmbedded } from '@/lib/enrollment';
 import { createInstructorProfile, getInstructorProfileByUserId } from './instructorService';
+import { syncClassRoster } from './enrollmentService';
 
 interface MigrationResult {
   success: boolean;
@@ -274,6 +276,70 @@ export async function migrateClassesToInstructorId(): Promise<MigrationResult> {
   }
 }
 
+/**
+ * Move rosters embedded in class documents (classes/{id}.students) into student
+ * records and enrollments, then remove the embedded array. Students on the embedded
+ * list who are not enrolled yet are enrolled as active; existing enrollments and
+ * student records are left as they are (see syncClassRoster's `additive`).
+ */
+export async function migrateEmbeddedRosters(): Promise<MigrationResult> {
+  const result: MigrationResult = {
+    success: true,
+    migratedCount: 0,
+    skippedCount: 0,
+    errors: [],
+  };
+
+  try {
+    console.log('Starting roster migration...');
+    
+    const classesSnapshot = await getDocs(collection(db, 'classes'));
+    
+    console.log(`Found ${classesSnapshot.docs.length} classes to process`);
+    
+    for (const classDoc of classesSnapshot.docs) {
+      const classData = classDoc.data();
+      const classId = classDoc.id;
+      
+      try {
+        // Skip classes already on enrollments
+        if (!Array.isArray(classData.students)) {
+          result.skippedCount++;
+          continue;
+        }
+        
+        const roster = rosterFromEmbedded(classData.students, '');
+        await syncClassRoster(classId, roster, classData.createdBy || 'migration', { additive: true });
+        await updateDoc(doc(db, 'classes', classId), {
+          students: deleteField(),
+        });
+        
+        result.migratedCount++;
+        console.log(`✓ Migrated roster of class ${classId} (${roster.length} students)`);
+        
+      } catch (error: any) {
+        console.error(`Error migrating roster of class ${classId}:`, error);
+        result.errors.push({
+          userId: classId,
+          error: error.message || 'Unknown error',
+        });
+      }
+    }
+    
+    console.log('\n=== Roster Migration Complete ===');
+    console.log(`Migrated: ${result.migratedCount}`);
+    console.log(`Skipped: ${result.skippedCount}`);
+    console.log(`Errors: ${result.errors.length}`);
+    
+    return result;
+    
+  } catch (error: any) {
+    console.error('Fatal error during roster migration:', error);
+    result.success = false;
+    return result;
+  }
+}
+
 /**
  * Run all migrations
  */
@@ -289,8 +355,12 @@ export async function runAllMigrations(): Promise<void> {
   // 3. Migrate classes
   const classResult = await migrateClassesToInstructorId();
   
+  // 4. Move embedded class rosters to enrollments
+  const rosterResult = await migrateEmbeddedRosters();
+  
   console.log('\n=== All Migrations Complete ===');
   console.log(`Users - Migrated: ${userResult.migratedCount}, Skipped: ${userResult.skippedCount}, Errors: ${userResult.errors.length}`);
   console.log(`Exams - Migrated: ${examResult.migratedCount}, Skipped: ${examResult.skippedCount}, Errors: ${examResult.errors.length}`);
   console.log(`Classes - Migrated: ${classResult.migratedCount}, Skipped: ${classResult.skippedCount}, Errors: ${classResult.errors.length}`);
+  console.log(`Rosters - Migrated: ${rosterResult.migratedCount}, Skipped: ${rosterResult.skippedCount}, Errors: ${rosterResult.errors.length}`);
 }
@@ -0,0 +1,337 @@
+/**
+ * Notification Service
+ * Server-only (it reaches the mail transport); called from the /api/exams/:id/notifications routes.
+ * Emails each student their own result, records a delivery status per recipient in an
+ * email batch, and retries the recipients that failed.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { EmailBatch, EmailDelivery, MailMessage } from '@/types/notifications';
+import { ShareableLink, ScannedResult } from '@/types/scanning';
+import { getCountedResults } from '@/lib/duplicateResults';
+import { getLetterGrade, isPassing } from '@/lib/gradingScales';
+import { getLinkStatus } from '@/lib/resultPortal';
+import { isValidEmail, renderResultEmail } from '@/lib/resultEmail';
+import { getMailFrom, getMailTransport, MailTransport } from '@/lib/mailTransport';
+import { Exam } from './examService';
+import { getClassById } from './classService';
+import { ScanningService } from './scanningService';
+import { GradingScaleService } from './gradingScaleService';
+import { ShareableLinkService } from './shareableLinkService';
+import { AuditLogger } from './auditLogger';
+
+const EMAIL_BATCHES_COLLECTION = 'emailBatches';
+const MAX_ATTEMPTS = 2; // per send or retry request
+
+export interface ResultEmailRecipient {
+  studentId: string;
+  email: string;
+}
+
+export interface SendResultEmailsOptions {
+  subject?: string; // template; defaults to DEFAULT_RESULT_EMAIL_SUBJECT
+  note?: string;
+  includeLink: boolean;
+  origin: string; // base URL for result links, e.g. https://sia.example.edu
+}
+
+const toIso = (value: unknown): string | undefined =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : undefined);
+
+const batchFromFirestore = (id: string, data: Record<string, any>): EmailBatch => ({
+  ...(data as EmailBatch),
+  id,
+  createdAt: toIso(data.createdAt) || '',
+  updatedAt: toIso(data.updatedAt),
+});
+
+const countStatus = (deliveries: EmailDelivery[], status: EmailDelivery['status']) =>
+  deliveries.filter(delivery => delivery.status === status).length;
+
+// Firestore rejects undefined fields
+const toFirestoreDelivery = (delivery: EmailDelivery): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(delivery).filter(([, value]) => value !== undefined));
+
+export class NotificationService {
+  /**
+   * Email batches the user sent for an exam, newest first
+   */
+  static async getBatchesByExamId(
+    examId: string,
+    userId: string
+  ): Promise<{ success: boolean; data?: EmailBatch[]; error?: string }> {
+    try {
+      const q = query(
+        collection(getDb(), EMAIL_BATCHES_COLLECTION),
+        where('examId', '==', examId),
+        where('createdBy', '==', userId)
+      );
+      const snapshot = await getDocs(q);
+      const batches = snapshot.docs
+        .map(docSnap => batchFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return { success: true, data: batches };
+    } catch (error) {
+      console.error('Error fetching email batches:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Email each recipient their result for the exam. Recipients with an invalid address
+   * or no counted result are skipped; the rest are sent, and failures retried once.
+   */
+  static async sendResultEmails(
+    exam: Exam,
+    recipients: ResultEmailRecipient[],
+    options: SendResultEmailsOptions,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: EmailBatch; error?: string }> {
+    try {
+      const transport = getMailTransport();
+
+      const deliveries: EmailDelivery[] = recipients.map(recipient => ({
+        studentId: recipient.studentId,
+        email: recipient.email.trim(),
+        status: isValidEmail(recipient.email) ? 'pending' : 'skipped',
+        attempts: 0,
+        ...(!isValidEmail(recipient.email) && { error: 'Invalid email address' }),
+      }));
+
+      const batch: Omit<EmailBatch, 'id' | 'createdAt'> = {
+        examId: exam.id,
+        examTitle: exam.title,
+        transport: transport.name,
+        subject: options.subject?.trim() || '',
+        ...(options.note?.trim() && { note: options.note.trim() }),
+        includeLink: options.includeLink,
+        deliveries,
+        sentCount: 0,
+        failedCount: 0,
+        createdBy: user.id,
+      };
+
+      await this.deliver(transport, exam, batch, options.origin);
+
+      const now = new Date().toISOString();
+      const ref = await addDoc(collection(getDb(), EMAIL_BATCHES_COLLECTION), {
+        ...batch,
+        deliveries: batch.deliveries.map(toFirestoreDelivery),
+        createdAt: serverTimestamp(),
+      });
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'results_emailed',
+        `Emailed results to ${batch.sentCount} student(s) for exam: ${exam.title}`,
+        {
+          entityId: exam.id,
+          entityType: 'exam',
+          entityName: exam.title,
+          metadata: {
+            batchId: ref.id,
+            transport: transport.name,
+            sent: batch.sentCount,
+            failed: batch.failedCount,
+            skipped: countStatus(batch.deliveries, 'skipped'),
+            includeLink: options.includeLink,
+          },
+        }
+      );
+
+      return { success: true, data: { ...batch, id: ref.id, createdAt: now } };
+    } catch (error) {
+      console.error('Error sending result emails:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Send the failed recipients of a batch again, with the latest results
+   */
+  static async retryFailed(
+    exam: Exam,
+    batchId: string,
+    origin: string,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: EmailBatch; error?: string }> {
+    try {
+      const ref = doc(getDb(), EMAIL_BATCHES_COLLECTION, batchId);
+      const snapshot = await getDoc(ref);
+      if (!snapshot.exists() || snapshot.data().examId !== exam.id) {
+        return { success: false, error: 'Email batch not found' };
+      }
+      const batch = batchFromFirestore(snapshot.id, snapshot.data());
+
+      const failed = batch.deliveries.filter(delivery => delivery.status === 'failed');
+      if (failed.length === 0) {
+        return { success: false, error: 'There are no failed emails to retry' };
+      }
+      failed.forEach(delivery => {
+        delivery.status = 'pending';
+      });
+
+      const transport = getMailTransport();
+      await this.deliver(transport, exam, batch, origin);
+
+      await updateDoc(ref, {
+        deliveries: batch.deliveries.map(toFirestoreDelivery),
+        sentCount: batch.sentCount,
+        failedCount: batch.failedCount,
+        transport: transport.name,
+        updatedAt: serverTimestamp(),
+      });
+
+      const resent = failed.filter(delivery => delivery.status === 'sent').length;
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'results_emailed',
+        `Retried ${failed.length} failed result email(s) for exam: ${exam.title}`,
+        {
+          entityId: exam.id,
+          entityType: 'exam',
+          entityName: exam.title,
+          metadata: {
+            batchId,
+            transport: transport.name,
+            retried: failed.length,
+            sent: resent,
+            failed: failed.length - resent,
+          },
+        }
+      );
+
+      return { success: true, data: { ...batch, updatedAt: new Date().toISOString() } };
+    } catch (error) {
+      console.error('Error retrying result emails:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Compose and send every pending delivery of the batch, updating statuses and counts in place
+   */
+  private static async deliver(
+    transport: MailTransport,
+    exam: Exam,
+    batch: Omit<EmailBatch, 'id' | 'createdAt'>,
+    origin: string
+  ): Promise<void> {
+    const pending = batch.deliveries.filter(delivery => delivery.status === 'pending');
+
+    if (pending.length > 0) {
+      const messages = await this.composeMessages(exam, batch, pending, origin);
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const outgoing = pending.filter(delivery => delivery.status === 'pending' && messages.has(delivery));
+        if (outgoing.length === 0) break;
+
+        const outcomes = await transport.sendBatch(outgoing.map(delivery => messages.get(delivery)!));
+        outcomes.forEach((outcome, i) => {
+          const delivery = outgoing[i];
+          delivery.attempts += 1;
+          if (outcome.status === 'fulfilled') {
+            delivery.status = 'sent';
+            delivery.sentAt = new Date().toISOString();
+            delete delivery.error;
+          } else {
+            delivery.error = (outcome.reason as Error)?.message || String(outcome.reason);
+            if (attempt === MAX_ATTEMPTS) delivery.status = 'failed';
+          }
+        });
+      }
+    }
+
+    batch.sentCount = countStatus(batch.deliveries, 'sent');
+    batch.failedCount = countStatus(batch.deliveries, 'failed');
+  }
+
+  /**
+   * One message per pending delivery, from the student's latest counted result.
+   * Deliveries without a result are marked skipped and get no message.
+   */
+  private static async composeMessages(
+    exam: Exam,
+    batch: Omit<EmailBatch, 'id' | 'createdAt'>,
+    pending: EmailDelivery[],
+    origin: string
+  ): Promise<Map<EmailDelivery, MailMessage>> {
+    const resultsResponse = await ScanningService.getScannedResultsByExamId(exam.id);
+    if (!resultsResponse.success) {
+      throw new Error(resultsResponse.error || 'Failed to load results');
+    }
+    const resultsByStudent = new Map<string, ScannedResult>();
+    getCountedResults(resultsResponse.data || [])
+      .filter(result => !result.isNullId)
+      .forEach(result => resultsByStudent.set(result.studentId, result));
+
+    const [scale, cls, linksResult] = await Promise.all([
+      GradingScaleService.getScaleForExam(exam),
+      exam.classId ? getClassById(exam.classId) : Promise.resolve(null),
+      batch.includeLink ? ShareableLinkService.getLinksByExamId(exam.id, batch.createdBy) : Promise.resolve(null),
+    ]);
+
+    // Newest active link per student
+    const linkByStudent = new Map<string, ShareableLink>();
+    (linksResult?.data || []).forEach(link => {
+      if (getLinkStatus(link) === 'active' && !linkByStudent.has(link.studentId)) {
+        linkByStudent.set(link.studentId, link);
+      }
+    });
+
+    const from = getMailFrom();
+    const messages = new Map<EmailDelivery, MailMessage>();
+
+    pending.forEach(delivery => {
+      const result = resultsByStudent.get(delivery.studentId);
+      if (!result) {
+        delivery.status = 'skipped';
+        delivery.error = 'No result for this student';
+        return;
+      }
+
+      const student = cls?.roster?.find(s => s.student_id === delivery.studentId);
+      const studentName = student ? `${student.first_name} ${student.last_name}` : delivery.studentId;
+      const maxScore = result.maxScore ?? result.totalQuestions;
+      const percentage = maxScore > 0 ? Math.round((result.score / maxScore) * 100) : 0;
+      const link = linkByStudent.get(delivery.studentId);
+
+      delivery.studentName = studentName;
+      const email = renderResultEmail(
+        {
+          studentName,
+          studentId: delivery.studentId,
+          examTitle: exam.title,
+          subject: exam.subject,
+          className: exam.className,
+          score: result.score,
+          maxScore,
+          percentage,
+          grade: getLetterGrade(percentage, scale),
+          passed: isPassing(percentage, scale),
+          note: batch.note,
+          resultLink: link ? `${origin.replace(/\/$/, '')}/r/${link.token}` : undefined,
+        },
+        { subject: batch.subject || undefined }
+      );
+
+      messages.set(delivery, { from, to: delivery.email, ...email });
+    });
+
+    return messages;
+  }
+}
@@ -6,6 +6,8 @@
  */
 
 import { StudentService } from './studentService';
+import { DEFAULT_GRADING_SCALE } from '@/lib/gradingScales';
+import { GradeScale } from '@/types/gradebook';
 
 export interface ValidationError {
   field: string;
@@ -56,7 +58,8 @@ export class RecordValidationGuardService {
    * Checks: required fields, FK references, score range, data types
    */
   static async validateGradeRecord(
-    record: GradeRecord
+    record: GradeRecord,
+    scale: GradeScale = DEFAULT_GRADING_SCALE
   ): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
@@ -172,8 +175,9 @@ export class RecordValidationGuardService {
 
     // Validate grade letter if provided
     if (record.grade_letter) {
-      const validGrades = ['A', 'B', 'C', 'D', 'F'];
-      if (!validGrades.includes(record.grade_letter.toUpperCase())) {
+      const validGrades = scale.bands.map(band => band.label);
+      const gradeLetter = record.grade_letter.toUpperCase();
+      if (!validGrades.some(grade => grade.toUpperCase() === gradeLetter)) {
         errors.push({
           field: 'grade_letter',
           message: `Invalid grade letter "${record.grade_letter}". Valid grades are: ${validGrades.join(', ')}`,
@@ -0,0 +1,138 @@
+/**
+ * Regrade Service
+ * Recomputes every saved result of an exam against the current answer key version.
+ * A regrade is two steps: previewRegrade builds a before/after diff for the
+ * instructor to review, and applyRegrade writes it once they confirm.
+ */
+
+import { doc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { buildRegradeEntries, getRegradeWrites, isStaleEntry, RegradeEntry } from '@/lib/regrade';
+import { AnswerKeyService } from './answerKeyService';
+import { ScanningService } from './scanningService';
+import { AuditLogger } from './auditLogger';
+
+const SCANNED_RESULTS_COLLECTION = 'scannedResults';
+const BATCH_LIMIT = 500; // Firestore's maximum writes per batch
+const AUDIT_CHANGE_LIMIT = 50; // Keep the audit entry well under the document size limit
+
+export interface RegradePreview {
+  examId: string;
+  answerKeyId: string;
+  keyVersion: number;
+  entries: RegradeEntry[];
+  changedCount: number;
+  staleCount: number; // results graded against another key version
+}
+
+export class RegradeService {
+  /**
+   * Build the before/after diff for every saved result of an exam
+   */
+  static async previewRegrade(
+    examId: string,
+    choicePoints?: { [choice: string]: number }
+  ): Promise<{ success: boolean; data?: RegradePreview; error?: string }> {
+    try {
+      const keyResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
+      if (!keyResult.success || !keyResult.data) {
+        return { success: false, error: keyResult.error || 'Answer key not found' };
+      }
+
+      const resultsResult = await ScanningService.getScannedResultsByExamId(examId);
+      if (!resultsResult.success) {
+        return { success: false, error: resultsResult.error || 'Failed to load scanned results' };
+      }
+
+      const answerKey = keyResult.data;
+      const keyVersion = answerKey.version || 1;
+      const entries = buildRegradeEntries(resultsResult.data || [], answerKey, choicePoints);
+
+      return {
+        success: true,
+        data: {
+          examId,
+          answerKeyId: answerKey.id,
+          keyVersion,
+          entries,
+          changedCount: entries.filter(entry => entry.changed).length,
+          staleCount: entries.filter(entry => isStaleEntry(entry, keyVersion)).length,
+        },
+      };
+    } catch (error) {
+      console.error('Error building regrade preview:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Write a confirmed preview and record it in the audit log.
+   * Refuses to run if the key was edited again after the preview was built.
+   */
+  static async applyRegrade(
+    preview: RegradePreview,
+    user: { id: string; email: string },
+    examTitle?: string
+  ): Promise<{ success: boolean; updated: number; error?: string }> {
+    try {
+      const keyResult = await AnswerKeyService.getAnswerKeyByExamId(preview.examId);
+      if (!keyResult.success || !keyResult.data) {
+        return { success: false, updated: 0, error: keyResult.error || 'Answer key not found' };
+      }
+      if ((keyResult.data.version || 1) !== preview.keyVersion) {
+        return {
+          success: false,
+          updated: 0,
+          error: 'The answer key was changed after this preview was made. Review the new differences and try again.',
+        };
+      }
+
+      const toWrite = getRegradeWrites(preview.entries, preview.keyVersion);
+
+      for (let start = 0; start < toWrite.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        toWrite.slice(start, start + BATCH_LIMIT).forEach(entry => {
+          batch.update(doc(db, SCANNED_RESULTS_COLLECTION, entry.resultId), {
+            score: entry.newScore,
+            maxScore: entry.newMaxScore,
+            keyVersion: preview.keyVersion,
+            regradedAt: serverTimestamp(),
+            regradedBy: user.id,
+          });
+        });
+        await batch.commit();
+      }
+
+      const changed = preview.entries.filter(entry => entry.changed);
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'results_regraded',
+        `Regraded ${toWrite.length} result(s) against answer key version ${preview.keyVersion}` +
+          (examTitle ? ` for exam: ${examTitle}` : ''),
+        {
+          entityId: preview.examId,
+          entityType: 'exam',
+          entityName: examTitle,
+          metadata: {
+            answerKeyId: preview.answerKeyId,
+            keyVersion: preview.keyVersion,
+            resultsUpdated: toWrite.length,
+            scoresChanged: changed.length,
+            changes: changed.slice(0, AUDIT_CHANGE_LIMIT).map(entry => ({
+              resultId: entry.resultId,
+              studentId: entry.studentId,
+              from: entry.previousScore,
+              to: entry.newScore,
+            })),
+          },
+        }
+      );
+
+      return { success: true, updated: toWrite.length };
+    } catch (error) {
+      console.error('Error applying regrade:', error);
+      return { success: false, updated: 0, error: (error as Error).message };
+    }
+  }
+}
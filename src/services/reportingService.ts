@@ -15,6 +15,12 @@ import { StudentGrade, GradingService } from './gradingService';
 import { StudentAttendance } from './attendanceService';
 import { StudentRecord } from './studentService';
 import { RecordValidationGuardService, ValidationError } from './recordValidationGuardService';
+import { ScanningService } from './scanningService';
+import { Exam, getArchivedExams, getExams } from './examService';
+import { GradingScaleService } from './gradingScaleService';
+import { getGradeDistribution, getPassRate } from '@/lib/gradingScales';
+import { buildDashboardReport, DashboardReport, getResultPercentages } from '@/lib/dashboardReport';
+import { GradeBandCount } from '@/types/gradebook';
 
 /**
  * Comprehensive Student Report
@@ -46,13 +52,8 @@ export interface ClassComprehensiveReport {
     average_score: number;
     highest_score: number;
     lowest_score: number;
-    grade_distribution: {
-      excellent: number; // 90-100
-      good: number; // 80-89
-      satisfactory: number; // 70-79
-      passing: number; // 60-69
-      failing: number; // < 60
-    };
+    grade_scale: string; // name of the class's grading scale
+    grade_distribution: GradeBandCount[]; // bands of the class's scale, highest first
     standard_deviation: number;
   };
   attendance_summary: {
@@ -87,7 +88,7 @@ export interface ExamComprehensiveReport {
     lowest_score: number;
     median_score: number;
     standard_deviation: number;
-    pass_rate: number; // Percentage of students who passed (>=60%)
+    pass_rate: number; // Percentage of students who passed on the exam's grading scale
   };
   item_analysis?: {
     question_number: number;
@@ -95,13 +96,8 @@ export interface ExamComprehensiveReport {
     incorrect_count: number;
     difficulty_level: 'easy' | 'medium' | 'hard';
   }[];
-  grade_distribution: {
-    excellent: number;
-    good: number;
-    satisfactory: number;
-    passing: number;
-    failing: number;
-  };
+  grade_scale: string; // name of the exam's grading scale
+  grade_distribution: GradeBandCount[];
   top_performers: Array<{
     student_id: string;
     score: number;
@@ -135,6 +131,18 @@ export interface PeriodComprehensiveReport {
   };
 }
 
+/**
+ * Dashboard Filters
+ * Narrow the analytics dashboard to a class, subject, exam type or exam date range
+ */
+export interface DashboardFilters {
+  classId?: string;
+  subject?: string;
+  examType?: 'board' | 'diagnostic';
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
 const STUDENTS_COLLECTION = 'students';
 const GRADES_COLLECTION = 'studentGrades';
 const ATTENDANCE_COLLECTION = 'studentAttendance';
@@ -270,11 +278,13 @@ export class ReportingService {
 
       // Calculate grades summary
       const gradePercentages = grades.map((g) => g.percentage);
+      const scale = await GradingScaleService.getScaleForClass(classId);
       const gradesSummary = {
         average_score: this.calculateAverage(gradePercentages),
         highest_score: Math.max(...gradePercentages, 0),
         lowest_score: Math.min(...gradePercentages, 100),
-        grade_distribution: this.calculateGradeDistribution(gradePercentages),
+        grade_scale: scale.name,
+        grade_distribution: getGradeDistribution(gradePercentages, scale),
         standard_deviation: this.calculateStandardDeviation(gradePercentages),
       };
 
@@ -337,7 +347,8 @@ export class ReportingService {
       const averageScore = this.calculateAverage(percentages);
       const median = this.calculateMedian(percentages);
       const stdDeviation = this.calculateStandardDeviation(percentages);
-      const passRate = Math.round((percentages.filter((p) => p >= 60).length / percentages.length) * 100);
+      const scale = await GradingScaleService.getScaleForExam(examId);
+      const passRate = getPassRate(percentages, scale);
 
       const report: ExamComprehensiveReport = {
         exam_id: examId,
@@ -350,7 +361,8 @@ export class ReportingService {
           standard_deviation: stdDeviation,
           pass_rate: passRate,
         },
-        grade_distribution: this.calculateGradeDistribution(percentages),
+        grade_scale: scale.name,
+        grade_distribution: getGradeDistribution(percentages, scale),
         top_performers: grades
           .sort((a, b) => b.percentage - a.percentage)
           .slice(0, 5)
@@ -455,12 +467,10 @@ export class ReportingService {
     lines.push(`Standard Deviation: ${report.grades_summary.standard_deviation}`);
     lines.push('');
 
-    lines.push('Grade Distribution');
-    lines.push(`Excellent (90-100): ${report.grades_summary.grade_distribution.excellent}`);
-    lines.push(`Good (80-89): ${report.grades_summary.grade_distribution.good}`);
-    lines.push(`Satisfactory (70-79): ${report.grades_summary.grade_distribution.satisfactory}`);
-    lines.push(`Passing (60-69): ${report.grades_summary.grade_distribution.passing}`);
-    lines.push(`Failing (<60): ${report.grades_summary.grade_distribution.failing}`);
+    lines.push(`Grade Distribution (${report.grades_summary.grade_scale})`);
+    report.grades_summary.grade_distribution.forEach((band) => {
+      lines.push(`${band.label} (${band.min}+${band.passed ? '' : ', failing'}): ${band.count}`);
+    });
     lines.push('');
 
     lines.push('Attendance Summary');
@@ -486,6 +496,56 @@ export class ReportingService {
     return lines.join('\n');
   }
 
+  /**
+   * Generate the analytics dashboard for an instructor, or for every instructor
+   * the viewer may see (owners from getVisibleOwnerIds; undefined for all),
+   * plus the exams shared with `collaboratorId`
+   * Covers active and archived exams; unreadable-ID results are left out
+   */
+  static async generateDashboardReport(
+    owners: string | string[] | undefined,
+    filters: DashboardFilters = {},
+    collaboratorId?: string
+  ): Promise<{
+    success: boolean;
+    data?: DashboardReport;
+    error?: string;
+  }> {
+    try {
+      const [active, archived] = await Promise.all([
+        getExams(owners, collaboratorId),
+        getArchivedExams(owners, collaboratorId),
+      ]);
+      const exams = [...active, ...archived].filter((exam) => this.matchesDashboardFilters(exam, filters));
+
+      const examScores = await Promise.all(
+        exams.map(async (exam) => {
+          const result = await ScanningService.getScannedResultsByExamId(exam.id);
+          const scale = await GradingScaleService.getScaleForExam(exam);
+          return { exam, percentages: getResultPercentages(result.data || []), scale };
+        })
+      );
+      return { success: true, data: buildDashboardReport(examScores) };
+    } catch (error) {
+      console.error('Error generating dashboard report:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Helper: Check an exam against the dashboard filters
+   */
+  private static matchesDashboardFilters(exam: Exam, filters: DashboardFilters): boolean {
+    if (filters.classId && exam.classId !== filters.classId) return false;
+    if (filters.subject && exam.subject !== filters.subject) return false;
+    // Exams created before exam types existed are board exams
+    if (filters.examType && (exam.examType || 'board') !== filters.examType) return false;
+    const date = (exam.created_at || '').slice(0, 10);
+    if (filters.startDate && date < filters.startDate) return false;
+    if (filters.endDate && date > filters.endDate) return false;
+    return true;
+  }
+
   /**
    * Helper: Calculate average
    */
@@ -514,25 +574,6 @@ export class ReportingService {
     return Math.round(Math.sqrt(variance) * 100) / 100;
   }
 
-  /**
-   * Helper: Calculate grade distribution
-   */
-  private static calculateGradeDistribution(percentages: number[]): {
-    excellent: number;
-    good: number;
-    satisfactory: number;
-    passing: number;
-    failing: number;
-  } {
-    return {
-      excellent: percentages.filter((p) => p >= 90).length,
-      good: percentages.filter((p) => p >= 80 && p < 90).length,
-      satisfactory: percentages.filter((p) => p >= 70 && p < 80).length,
-      passing: percentages.filter((p) => p >= 60 && p < 70).length,
-      failing: percentages.filter((p) => p < 60).length,
-    };
-  }
-
   /**
    * Helper: Calculate average attendance percentage
    */
@@ -0,0 +1,321 @@
+/**
+ * Scan Queue Service
+ * Keeps every scan in an IndexedDB queue on the device before it is written to
+ * Firestore, so papers scanned without Wi-Fi survive reloads and sync when the
+ * connection returns. Failed writes are retried with backoff; a scan of a student
+ * who already has a result is held as a conflict until the instructor decides.
+ */
+
+import { AnswerKey, QueuedScan, ScanEvidenceInput, AnswerChoice, DuplicateResolution } from '@/types/scanning';
+import { findSyncConflicts, getRetryDelay, isSyncDue } from '@/lib/scanQueue';
+import { getExamById } from './examService';
+import { AnswerKeyService } from './answerKeyService';
+import { ScanningService } from './scanningService';
+
+const DB_NAME = 'omr-scan-queue';
+const DB_VERSION = 1;
+const STORE = 'scans';
+const DEVICE_ID_KEY = 'omrDeviceId';
+const SYNC_TIMEOUT_MS = 30000; // offline Firestore writes never settle on their own
+const SYNCED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface QueueScanInput {
+  examId: string;
+  studentId: string;
+  studentName?: string;
+  answers: AnswerChoice[];
+  examSet?: string;
+  isNullId: boolean;
+  evidence?: ScanEvidenceInput;
+  scannedBy: string;
+  duplicateResolution?: DuplicateResolution; // chosen up front when the scanner already saw a result
+  itemConfidence?: number[];
+}
+
+export interface SyncSummary {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let activeSync: Promise<SyncSummary> | null = null;
+const listeners = new Set<() => void>();
+
+const openQueueDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('examId', 'examId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const tx = database.transaction(STORE, mode);
+    const request = makeRequest(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const putScan = (scan: QueuedScan) => runRequest('readwrite', store => store.put(scan));
+
+const notify = () => listeners.forEach(listener => listener());
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error('Timed out waiting for the server')), ms)),
+  ]);
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+export class ScanQueueService {
+  /**
+   * Stable id of this browser, stored with synced results to tell devices apart
+   */
+  static getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `device_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  /**
+   * Re-render hook for queue views; returns the unsubscribe function
+   */
+  static subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Write a scan to the device queue. Once this resolves the scan survives reloads.
+   */
+  static async enqueue(input: QueueScanInput): Promise<{ success: boolean; data?: QueuedScan; error?: string }> {
+    try {
+      const capturedAt = new Date();
+      const scan: QueuedScan = {
+        ...input,
+        id: `scan_${capturedAt.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+        resultId: `result_${input.examId}_${input.studentId}_${capturedAt.getTime()}`,
+        capturedAt: capturedAt.toISOString(),
+        deviceId: this.getDeviceId(),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: 0,
+      };
+      await putScan(scan);
+      notify();
+      return { success: true, data: scan };
+    } catch (error) {
+      console.error('Error queueing scan:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Queued scans, oldest first; synced scans older than a day are cleared on the way
+   */
+  static async getQueue(examId?: string): Promise<{ success: boolean; data?: QueuedScan[]; error?: string }> {
+    try {
+      const all = await runRequest<QueuedScan[]>('readonly', store =>
+        examId ? store.index('examId').getAll(examId) : store.getAll()
+      );
+      const cutoff = Date.now() - SYNCED_RETENTION_MS;
+      const expired = all.filter(scan => scan.status === 'synced' && new Date(scan.syncedAt || 0).getTime() < cutoff);
+      await Promise.all(expired.map(scan => runRequest('readwrite', store => store.delete(scan.id))));
+
+      const scans = all
+        .filter(scan => !expired.includes(scan))
+        .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+      return { success: true, data: scans };
+    } catch (error) {
+      console.error('Error reading scan queue:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Write due scans to Firestore. Concurrent calls share one run.
+   */
+  static async syncPending(): Promise<SyncSummary> {
+    if (!activeSync) {
+      activeSync = this.runSync().finally(() => {
+        activeSync = null;
+      });
+    }
+    return activeSync;
+  }
+
+  /**
+   * Sync now and return one scan as it stands afterwards, e.g. to report on the scan
+   * just queued. A run already under way may have read the queue before the scan was
+   * added, so it is waited out and the scan synced in a run of its own.
+   */
+  static async syncScan(scanId: string): Promise<QueuedScan | null> {
+    try {
+      if (activeSync) await activeSync.catch(() => undefined);
+      await this.syncPending();
+      return (await runRequest<QueuedScan | undefined>('readonly', store => store.get(scanId))) || null;
+    } catch (error) {
+      console.error('Error syncing scan:', error);
+      return null;
+    }
+  }
+
+  private static async runSync(): Promise<SyncSummary> {
+    const summary: SyncSummary = { synced: 0, conflicts: 0, failed: 0 };
+    if (!isOnline()) return summary;
+
+    const queue = await this.getQueue();
+    const now = Date.now();
+    const due = (queue.data || []).filter(scan => isSyncDue(scan, now));
+    if (due.length === 0) return summary;
+
+    // Load each exam's answer key and choice points once per run
+    const examContext = new Map<string, Promise<{
+      answerKey: AnswerKey;
+      choicePoints?: { [choice: string]: number };
+    }>>();
+    const loadContext = (examId: string) => {
+      if (!examContext.has(examId)) {
+        examContext.set(examId, (async () => {
+          const [keyResult, exam] = await Promise.all([
+            AnswerKeyService.getAnswerKeyByExamId(examId),
+            getExamById(examId),
+          ]);
+          if (!keyResult.success || !keyResult.data) {
+            throw new Error(keyResult.error || 'Answer key not available');
+          }
+          return { answerKey: keyResult.data, choicePoints: exam?.choicePoints };
+        })());
+      }
+      return examContext.get(examId)!;
+    };
+
+    for (const scan of due) {
+      try {
+        const { answerKey, choicePoints } = await withTimeout(loadContext(scan.examId), SYNC_TIMEOUT_MS);
+
+        if (!scan.duplicateResolution) {
+          const existing = await withTimeout(ScanningService.getScannedResultsByExamId(scan.examId), SYNC_TIMEOUT_MS);
+          if (!existing.success) throw new Error(existing.error || 'Could not check existing results');
+          const conflicts = findSyncConflicts(scan, existing.data || []);
+          if (conflicts.length > 0) {
+            await putScan({ ...scan, status: 'conflict', conflictResultIds: conflicts.map(r => r.id) });
+            summary.conflicts++;
+            continue;
+          }
+        }
+
+        const result = await withTimeout(
+          ScanningService.saveScannedResult(
+            scan.examId,
+            scan.studentId,
+            scan.answers,
+            answerKey,
+            scan.scannedBy,
+            scan.isNullId,
+            choicePoints,
+            scan.evidence,
+            scan.examSet,
+            {
+              resultId: scan.resultId,
+              capturedAt: scan.capturedAt,
+              deviceId: scan.deviceId,
+              onDuplicate: scan.duplicateResolution,
+              itemConfidence: scan.itemConfidence,
+            }
+          ),
+          SYNC_TIMEOUT_MS
+        );
+        if (result.duplicates) {
+          await putScan({ ...scan, status: 'conflict', conflictResultIds: result.duplicates.map(r => r.id) });
+          summary.conflicts++;
+          continue;
+        }
+        if (!result.success) throw new Error(result.error || 'Failed to save scan');
+
+        // The evidence image now lives in Storage
+        const { evidence: _evidence, ...rest } = scan;
+        await putScan({ ...rest, status: 'synced', syncedAt: new Date().toISOString(), lastError: undefined });
+        summary.synced++;
+      } catch (error) {
+        const attempts = scan.attempts + 1;
+        await putScan({
+          ...scan,
+          attempts,
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          lastError: (error as Error).message,
+        });
+        summary.failed++;
+        // Lost the connection mid-run: leave the rest for the next attempt
+        if (!isOnline()) break;
+      }
+    }
+
+    notify();
+    return summary;
+  }
+
+  /**
+   * Retry pending scans now instead of waiting for their backoff
+   */
+  static async retryNow(): Promise<SyncSummary> {
+    const queue = await this.getQueue();
+    await Promise.all(
+      (queue.data || [])
+        .filter(scan => scan.status === 'pending')
+        .map(scan => putScan({ ...scan, nextAttemptAt: 0 }))
+    );
+    return this.syncPending();
+  }
+
+  /**
+   * Settle a conflict: replace the existing result, keep both as attempts, or drop this device's scan
+   */
+  static async resolveConflict(
+    scanId: string,
+    resolution: DuplicateResolution
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const scan = await runRequest<QueuedScan | undefined>('readonly', store => store.get(scanId));
+      if (!scan) return { success: false, error: 'Scan not found in the queue' };
+
+      if (resolution === 'discard') {
+        await runRequest('readwrite', store => store.delete(scanId));
+      } else {
+        await putScan({ ...scan, status: 'pending', duplicateResolution: resolution, nextAttemptAt: 0 });
+      }
+      notify();
+      if (resolution !== 'discard') void this.syncPending();
+      return { success: true };
+    } catch (error) {
+      console.error('Error resolving scan conflict:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
@@ -12,18 +12,62 @@ import {
   Timestamp,
   updateDoc,
   getDocs,
+  writeBatch,
+  deleteField,
+  arrayUnion,
   Unsubscribe,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { ref, uploadString, getDownloadURL } from 'firebase/storage';
+import { getDb, storage } from '@/lib/firebase';
 import {
   ScannedResult,
   NullIdAlert,
   ExamStatistics,
   AnswerChoice,
+  AnswerKey,
+  ScanEvidence,
+  ScanEvidenceInput,
+  DuplicateResolution,
+  CorrectionReason,
 } from '@/types/scanning';
+import { scoreAnswers } from '@/lib/scoring';
+import { getCountedResults, numberAttempts } from '@/lib/duplicateResults';
+import { diffCorrections } from '@/lib/resultCorrections';
+import { getLowConfidenceItems } from '@/lib/answerConfidence';
+import { isNullStudentId } from '@/lib/studentIdPolicy';
+import { AuditLogger } from './auditLogger';
+import { GradingScaleService } from './gradingScaleService';
+import { getPassRate } from '@/lib/gradingScales';
 
 const SCANNED_RESULTS_COLLECTION = 'scannedResults';
 const NULL_ID_ALERTS_COLLECTION = 'nullIdAlerts';
+const SCAN_IMAGES_PATH = 'scans';
+const BATCH_LIMIT = 500; // Firestore's maximum writes per batch
+const AUDIT_CHANGE_LIMIT = 50; // Keep audit entries well under the document size limit
+
+// Firestore can't store arrays of arrays, so darkness grids are kept as { "0": [...], "1": [...] }
+const gridToMap = (grid: number[][]): Record<string, number[]> =>
+  Object.fromEntries(grid.map((row, i) => [String(i), row]));
+
+const mapToGrid = (map: Record<string, number[]> | undefined): number[][] =>
+  Object.entries(map || {})
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, row]) => row);
+
+const evidenceFromFirestore = (data: any): ScanEvidence | undefined => {
+  if (!data) return undefined;
+  return {
+    ...data,
+    bubbleDarkness: mapToGrid(data.bubbleDarkness),
+    idBubbleDarkness: mapToGrid(data.idBubbleDarkness),
+  } as ScanEvidence;
+};
+
+const resultFromFirestore = (data: any): ScannedResult => ({
+  ...data,
+  scannedAt: (data.scannedAt as Timestamp)?.toDate?.()?.toISOString() || data.scannedAt || '',
+  evidence: evidenceFromFirestore(data.evidence),
+} as ScannedResult);
 
 export class ScanningService {
   /**
@@ -33,34 +77,102 @@ export class ScanningService {
     examId: string,
     studentId: string,
     answers: AnswerChoice[],
-    answerKey: AnswerChoice[],
+    answerKey: Pick<AnswerKey, 'answers' | 'sets' | 'questionSettings' | 'scoring' | 'version'>,
     userId: string,
     isNullId: boolean = false,
-    choicePoints?: { [choice: string]: number }
-  ): Promise<{ success: boolean; data?: ScannedResult; error?: string }> {
+    choicePoints?: { [choice: string]: number },
+    evidence?: ScanEvidenceInput,
+    examSet?: string,
+    // Offline queue: a fixed id keeps retries idempotent; capture time and device are kept.
+    // onDuplicate says what to do when the student already has a result for this exam;
+    // without it the save is refused and the existing results are returned.
+    options: {
+      resultId?: string;
+      capturedAt?: string;
+      deviceId?: string;
+      onDuplicate?: DuplicateResolution;
+      itemConfidence?: number[]; // per-question reading confidence; low ones are queued for review
+    } = {}
+  ): Promise<{ success: boolean; data?: ScannedResult; duplicates?: ScannedResult[]; error?: string }> {
     try {
-      const score = this.calculateScore(answers, answerKey, choicePoints);
-      const resultId = `result_${examId}_${studentId}_${Date.now()}`;
+      const { score, maxScore } = scoreAnswers(answers, answerKey, examSet, choicePoints);
+      const resultId = options.resultId || `result_${examId}_${studentId}_${Date.now()}`;
       const now = new Date().toISOString();
 
+      let duplicates: ScannedResult[] = [];
+      if (!isNullId) {
+        const existing = await this.findStudentResults(examId, studentId);
+        if (!existing.success) return { success: false, error: existing.error };
+        // A retried write of this same scan is not a duplicate of itself
+        duplicates = (existing.data || []).filter(result => result.id !== resultId);
+      }
+      if (duplicates.length > 0 && !options.onDuplicate) {
+        return {
+          success: false,
+          duplicates,
+          error: `Student ${studentId} already has a result for this exam`,
+        };
+      }
+      if (duplicates.length > 0 && options.onDuplicate === 'discard') {
+        return { success: true };
+      }
+      const attempts = duplicates.length > 0 && options.onDuplicate === 'keep-both'
+        ? numberAttempts(duplicates)
+        : null;
+
       const resultData: ScannedResult = {
         id: resultId,
         examId,
         studentId,
         answers,
+        ...(examSet && { examSet }),
         score,
-        totalQuestions: answerKey.length,
+        maxScore,
+        totalQuestions: answerKey.answers.length,
+        keyVersion: answerKey.version || 1,
         scannedAt: now,
         scannedBy: userId,
         isNullId,
         resolved: false,
+        ...(options.capturedAt && { capturedAt: options.capturedAt }),
+        ...(options.deviceId && { deviceId: options.deviceId }),
+        ...(attempts && { attempt: attempts.nextAttempt }),
       };
+      if (options.itemConfidence) {
+        resultData.itemConfidence = options.itemConfidence;
+        const reviewItems = getLowConfidenceItems(options.itemConfidence);
+        if (reviewItems.length > 0) resultData.reviewItems = reviewItems;
+      }
+
+      if (evidence) {
+        resultData.evidence = await this.storeScanEvidence(examId, resultId, evidence);
+      }
 
-      await setDoc(doc(db, SCANNED_RESULTS_COLLECTION, resultId), {
+      await setDoc(doc(getDb(), SCANNED_RESULTS_COLLECTION, resultId), {
         ...resultData,
+        ...(resultData.evidence && {
+          evidence: {
+            ...resultData.evidence,
+            bubbleDarkness: gridToMap(resultData.evidence.bubbleDarkness),
+            idBubbleDarkness: gridToMap(resultData.evidence.idBubbleDarkness),
+          },
+        }),
         scannedAt: serverTimestamp(),
       });
 
+      // The new result is written first, so nothing is lost if this step fails
+      if (duplicates.length > 0) {
+        const batch = writeBatch(getDb());
+        if (options.onDuplicate === 'replace') {
+          duplicates.forEach(result => batch.delete(doc(getDb(), SCANNED_RESULTS_COLLECTION, result.id)));
+        } else {
+          attempts?.renumbered.forEach(({ id, attempt }) =>
+            batch.update(doc(getDb(), SCANNED_RESULTS_COLLECTION, id), { attempt })
+          );
+        }
+        await batch.commit();
+      }
+
       // Create null ID alert if needed
       if (isNullId) {
         await this.createNullIdAlert(examId, resultId, studentId);
@@ -74,28 +186,42 @@ export class ScanningService {
   }
 
   /**
-   * Calculate score based on answer key and points per choice
+   * Upload the rectified sheet image and return the evidence to persist.
+   * A failed upload still keeps the bubble darkness, so the result is never lost over an image.
+   */
+  static async storeScanEvidence(
+    examId: string,
+    resultId: string,
+    evidence: ScanEvidenceInput
+  ): Promise<ScanEvidence> {
+    const { imageDataUrl, ...rest } = evidence;
+    const stored: ScanEvidence = { ...rest };
+    if (!imageDataUrl) return stored;
+
+    try {
+      const imagePath = `${SCAN_IMAGES_PATH}/${examId}/${resultId}.jpg`;
+      const imageRef = ref(storage, imagePath);
+      await uploadString(imageRef, imageDataUrl, 'data_url');
+      stored.imagePath = imagePath;
+      stored.imageUrl = await getDownloadURL(imageRef);
+    } catch (error) {
+      console.error('Error uploading scan image:', error);
+    }
+
+    return stored;
+  }
+
+  /**
+   * Calculate score using the answer key's scoring rules (weights, accepted answers,
+   * partial credit, dropped/bonus items, negative marking)
    */
   static calculateScore(
     studentAnswers: AnswerChoice[],
-    answerKey: AnswerChoice[],
+    answerKey: Pick<AnswerKey, 'answers' | 'sets' | 'questionSettings' | 'scoring'>,
+    examSet?: string,
     choicePoints?: { [choice: string]: number }
   ): number {
-    let totalScore = 0;
-    const length = Math.min(studentAnswers.length, answerKey.length);
-
-    for (let i = 0; i < length; i++) {
-      if (studentAnswers[i] === answerKey[i]) {
-        // If choicePoints is provided, use it; otherwise default to 1 point per correct answer
-        if (choicePoints && answerKey[i]) {
-          totalScore += choicePoints[answerKey[i]] || 1;
-        } else {
-          totalScore += 1;
-        }
-      }
-    }
-
-    return totalScore;
+    return scoreAnswers(studentAnswers, answerKey, examSet, choicePoints).score;
   }
 
   /**
@@ -106,20 +232,13 @@ export class ScanningService {
   ): Promise<{ success: boolean; data?: ScannedResult[]; error?: string }> {
     try {
       const q = query(
-        collection(db, SCANNED_RESULTS_COLLECTION),
+        collection(getDb(), SCANNED_RESULTS_COLLECTION),
         where('examId', '==', examId),
         orderBy('scannedAt', 'desc')
       );
 
       const querySnapshot = await getDocs(q);
-      const results: ScannedResult[] = querySnapshot.docs.map((docSnap) => {
-        const data = docSnap.data();
-        return {
-          ...data,
-          scannedAt:
-            (data.scannedAt as Timestamp)?.toDate?.()?.toISOString() || data.scannedAt || '',
-        } as ScannedResult;
-      });
+      const results = querySnapshot.docs.map((docSnap) => resultFromFirestore(docSnap.data()));
 
       return { success: true, data: results };
     } catch (error) {
@@ -128,6 +247,222 @@ export class ScanningService {
     }
   }
 
+  /**
+   * Get every result saved for one student on an exam
+   */
+  static async findStudentResults(
+    examId: string,
+    studentId: string
+  ): Promise<{ success: boolean; data?: ScannedResult[]; error?: string }> {
+    try {
+      const q = query(
+        collection(getDb(), SCANNED_RESULTS_COLLECTION),
+        where('examId', '==', examId),
+        where('studentId', '==', studentId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      return { success: true, data: querySnapshot.docs.map((docSnap) => resultFromFirestore(docSnap.data())) };
+    } catch (error) {
+      console.error('Error fetching student results:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Correct answers or the Student ID of a saved result by hand and recompute the score.
+   * The first correction keeps the machine-read values; every change is logged with its reason.
+   * A new Student ID that already has a result on the exam is refused, so no student counts
+   * twice; the existing results are returned. Giving an unreadable sheet a Student ID ties it
+   * to that student and resolves its alert.
+   */
+  static async correctResult(
+    result: ScannedResult,
+    changes: { answers?: AnswerChoice[]; studentId?: string },
+    reason: CorrectionReason,
+    answerKey: Pick<AnswerKey, 'answers' | 'sets' | 'questionSettings' | 'scoring' | 'version'>,
+    user: { id: string; email: string },
+    options: { note?: string; choicePoints?: { [choice: string]: number }; examTitle?: string } = {}
+  ): Promise<{ success: boolean; data?: ScannedResult; duplicates?: ScannedResult[]; error?: string }> {
+    try {
+      const corrections = diffCorrections(result, changes, reason, user.id, options.note?.trim() || undefined);
+      if (corrections.length === 0) {
+        return { success: false, error: 'Nothing was changed' };
+      }
+
+      const answers = changes.answers ?? result.answers;
+      const studentId = changes.studentId ?? result.studentId;
+      const answersChanged = corrections.some(correction => correction.field === 'answer');
+      const idChanged = corrections.some(correction => correction.field === 'studentId');
+      const assignsStudent = idChanged && !!result.isNullId && !isNullStudentId(studentId);
+      const { score, maxScore } = scoreAnswers(answers, answerKey, result.examSet, options.choicePoints);
+
+      if (idChanged) {
+        const existing = await this.findStudentResults(result.examId, studentId);
+        if (!existing.success) return { success: false, error: existing.error };
+        const duplicates = (existing.data || []).filter(other => other.id !== result.id && !other.isNullId);
+        if (duplicates.length > 0) {
+          return {
+            success: false,
+            duplicates,
+            error: `Student ${studentId} already has a result for this exam. Remove or merge it before moving this result to them.`,
+          };
+        }
+      }
+
+      const updates = {
+        answers,
+        studentId,
+        score,
+        maxScore,
+        keyVersion: answerKey.version || 1,
+        ...(answersChanged && !result.originalAnswers && { originalAnswers: result.answers }),
+        ...(idChanged && !result.originalStudentId && { originalStudentId: result.studentId }),
+        ...(assignsStudent && { isNullId: false, resolved: true }),
+        // A corrected answer has been looked at by a person
+        ...(answersChanged && result.reviewItems && {
+          reviewItems: result.reviewItems.filter(index =>
+            !corrections.some(correction => correction.questionIndex === index)
+          ),
+        }),
+      };
+      await updateDoc(doc(getDb(), SCANNED_RESULTS_COLLECTION, result.id), {
+        ...updates,
+        corrections: arrayUnion(...corrections),
+      });
+
+      if (assignsStudent) {
+        const alerts = await this.getAllAlerts(result.examId, 'new');
+        await Promise.all(
+          (alerts.data || [])
+            .filter(alert => alert.scannedResultId === result.id)
+            .map(alert => this.resolveNullIdAlert(alert.id, user.id, 'Student ID corrected by hand', studentId))
+        );
+      }
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'result_corrected',
+        `Corrected ${corrections.length} value(s) on the result of student ${studentId}` +
+          (options.examTitle ? ` for exam: ${options.examTitle}` : ''),
+        {
+          entityId: result.id,
+          entityType: 'scannedResult',
+          entityName: options.examTitle,
+          metadata: {
+            examId: result.examId,
+            reason,
+            ...(options.note?.trim() && { note: options.note.trim() }),
+            scoreFrom: result.score,
+            scoreTo: score,
+            changes: corrections.slice(0, AUDIT_CHANGE_LIMIT).map(correction => ({
+              field: correction.field,
+              ...(correction.questionIndex !== undefined && { question: correction.questionIndex + 1 }),
+              from: correction.from,
+              to: correction.to,
+            })),
+          },
+        }
+      );
+
+      return {
+        success: true,
+        data: { ...result, ...updates, corrections: [...(result.corrections || []), ...corrections] },
+      };
+    } catch (error) {
+      console.error('Error correcting scanned result:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Mark low-confidence readings as checked by a person without changing them
+   */
+  static async confirmReviewItems(
+    result: ScannedResult,
+    questionIndexes: number[],
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: ScannedResult; error?: string }> {
+    try {
+      const reviewItems = (result.reviewItems || []).filter(index => !questionIndexes.includes(index));
+      await updateDoc(doc(getDb(), SCANNED_RESULTS_COLLECTION, result.id), {
+        reviewItems,
+        reviewedAt: serverTimestamp(),
+        reviewedBy: user.id,
+      });
+      return { success: true, data: { ...result, reviewItems } };
+    } catch (error) {
+      console.error('Error confirming review items:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Collapse duplicate results into the one the instructor keeps, and record
+   * the removed results in the audit log
+   */
+  static async mergeDuplicateResults(
+    examId: string,
+    merges: { studentId: string; keep: ScannedResult; remove: ScannedResult[] }[],
+    user: { id: string; email: string },
+    examTitle?: string
+  ): Promise<{ success: boolean; removed: number; error?: string }> {
+    try {
+      const writes = merges.flatMap(merge => [
+        { type: 'update' as const, id: merge.keep.id },
+        ...merge.remove.map(result => ({ type: 'delete' as const, id: result.id })),
+      ]);
+
+      for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(getDb());
+        writes.slice(start, start + BATCH_LIMIT).forEach(write => {
+          const resultRef = doc(getDb(), SCANNED_RESULTS_COLLECTION, write.id);
+          if (write.type === 'delete') {
+            batch.delete(resultRef);
+          } else {
+            // The kept result is the student's only one again
+            batch.update(resultRef, { attempt: deleteField() });
+          }
+        });
+        await batch.commit();
+      }
+
+      const removed = merges.reduce((sum, merge) => sum + merge.remove.length, 0);
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'results_merged',
+        `Merged duplicate results for ${merges.length} student(s), removing ${removed} result(s)` +
+          (examTitle ? ` for exam: ${examTitle}` : ''),
+        {
+          entityId: examId,
+          entityType: 'exam',
+          entityName: examTitle,
+          metadata: {
+            studentsMerged: merges.length,
+            resultsRemoved: removed,
+            merges: merges.slice(0, AUDIT_CHANGE_LIMIT).map(merge => ({
+              studentId: merge.studentId,
+              keptResultId: merge.keep.id,
+              keptScore: merge.keep.score,
+              removed: merge.remove.map(result => ({
+                resultId: result.id,
+                score: result.score,
+                scannedAt: result.scannedAt,
+              })),
+            })),
+          },
+        }
+      );
+
+      return { success: true, removed };
+    } catch (error) {
+      console.error('Error merging duplicate results:', error);
+      return { success: false, removed: 0, error: (error as Error).message };
+    }
+  }
+
   /**
    * Subscribe to real-time score updates for an exam
    */
@@ -136,7 +471,7 @@ export class ScanningService {
     callback: (scores: ScannedResult[]) => void
   ): Unsubscribe {
     const q = query(
-      collection(db, SCANNED_RESULTS_COLLECTION),
+      collection(getDb(), SCANNED_RESULTS_COLLECTION),
       where('examId', '==', examId),
       orderBy('scannedAt', 'desc')
     );
@@ -148,6 +483,7 @@ export class ScanningService {
           ...data,
           scannedAt:
             (data.scannedAt as Timestamp)?.toDate().toISOString() || '',
+          evidence: evidenceFromFirestore(data.evidence),
         } as ScannedResult;
       });
 
@@ -176,7 +512,7 @@ export class ScanningService {
         status: 'new',
       };
 
-      await setDoc(doc(db, NULL_ID_ALERTS_COLLECTION, alertId), {
+      await setDoc(doc(getDb(), NULL_ID_ALERTS_COLLECTION, alertId), {
         ...alertData,
         timestamp: serverTimestamp(),
       });
@@ -196,7 +532,7 @@ export class ScanningService {
     callback: (alerts: NullIdAlert[]) => void
   ): Unsubscribe {
     const q = query(
-      collection(db, NULL_ID_ALERTS_COLLECTION),
+      collection(getDb(), NULL_ID_ALERTS_COLLECTION),
       where('examId', '==', examId),
       where('status', '==', 'new'),
       orderBy('timestamp', 'desc')
@@ -229,7 +565,7 @@ export class ScanningService {
     assignedStudentId?: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const alertRef = doc(db, NULL_ID_ALERTS_COLLECTION, alertId);
+      const alertRef = doc(getDb(), NULL_ID_ALERTS_COLLECTION, alertId);
 
       await updateDoc(alertRef, {
         status: 'resolved',
@@ -254,7 +590,7 @@ export class ScanningService {
   ): Promise<{ success: boolean; data?: ExamStatistics; error?: string }> {
     try {
       const q = query(
-        collection(db, SCANNED_RESULTS_COLLECTION),
+        collection(getDb(), SCANNED_RESULTS_COLLECTION),
         where('examId', '==', examId),
         where('isNullId', '==', false)
       );
@@ -273,13 +609,22 @@ export class ScanningService {
         };
       }
 
-      const scores = querySnapshot.docs.map((doc) => doc.data().score as number);
+      // One result per student, so rescans are not counted twice
+      const counted = getCountedResults(querySnapshot.docs.map((doc) => resultFromFirestore(doc.data())));
+      const scores = counted.map(result => result.score);
       const totalScanned = scores.length;
       const sum = scores.reduce((a, b) => a + b, 0);
       const averageScore = sum / totalScanned;
       const highestScore = Math.max(...scores);
       const lowestScore = Math.min(...scores);
 
+      // Passing is judged on the exam's grading scale
+      const scale = await GradingScaleService.getScaleForExam(examId);
+      const percentages = counted.map(result => {
+        const maxScore = result.maxScore ?? result.totalQuestions;
+        return maxScore > 0 ? (result.score / maxScore) * 100 : 0;
+      });
+
       return {
         success: true,
         data: {
@@ -287,6 +632,7 @@ export class ScanningService {
           averageScore: Math.round(averageScore * 100) / 100,
           highestScore,
           lowestScore,
+          passingRate: getPassRate(percentages, scale),
         },
       };
     } catch (error) {
@@ -304,7 +650,7 @@ export class ScanningService {
   ): Promise<{ success: boolean; data?: NullIdAlert[]; error?: string }> {
     try {
       let q = query(
-        collection(db, NULL_ID_ALERTS_COLLECTION),
+        collection(getDb(), NULL_ID_ALERTS_COLLECTION),
         where('examId', '==', examId)
       );
 
@@ -0,0 +1,280 @@
+/**
+ * Shareable Link Service
+ * Per-student result links that open a read-only portal at /r/{token} without signing in.
+ * Each link stores a snapshot of that student's result; generating links again refreshes
+ * the snapshots of active links and keeps their tokens, so links already handed out still work.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  updateDoc,
+  increment,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { ShareableLink, ShareableLinkStatus } from '@/types/scanning';
+import { buildPortalResult, generateLinkToken, getLinkStatus } from '@/lib/resultPortal';
+import { getCountedResults } from '@/lib/duplicateResults';
+import { getExamById } from './examService';
+import { getClassById } from './classService';
+import { AnswerKeyService } from './answerKeyService';
+import { ScanningService } from './scanningService';
+import { TagService } from './tagService';
+import { GradingScaleService } from './gradingScaleService';
+import { AuditLogger } from './auditLogger';
+
+const SHAREABLE_LINKS_COLLECTION = 'shareableLinks';
+const BATCH_LIMIT = 400; // Firestore allows 500 writes per batch
+
+const toIso = (value: unknown): string | undefined =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : undefined);
+
+const linkFromFirestore = (id: string, data: Record<string, any>): ShareableLink => ({
+  ...(data as ShareableLink),
+  id,
+  token: id,
+  createdAt: toIso(data.createdAt) || '',
+  updatedAt: toIso(data.updatedAt),
+  expiresAt: toIso(data.expiresAt),
+  revokedAt: toIso(data.revokedAt),
+  lastViewedAt: toIso(data.lastViewedAt),
+  viewCount: data.viewCount || 0,
+});
+
+export interface ShareLinkOptions {
+  showItems: boolean;
+  expiresInDays: number | null; // null keeps links open until revoked
+}
+
+export class ShareableLinkService {
+  /**
+   * The links a user made for an exam, by Student ID
+   */
+  static async getLinksByExamId(
+    examId: string,
+    userId: string
+  ): Promise<{ success: boolean; data?: ShareableLink[]; error?: string }> {
+    try {
+      const q = query(
+        collection(getDb(), SHAREABLE_LINKS_COLLECTION),
+        where('examId', '==', examId),
+        where('createdBy', '==', userId)
+      );
+      const snapshot = await getDocs(q);
+      const links = snapshot.docs
+        .map(docSnap => linkFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.studentId.localeCompare(b.studentId) || b.createdAt.localeCompare(a.createdAt));
+      return { success: true, data: links };
+    } catch (error) {
+      console.error('Error fetching shareable links:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Create a link for every student with a counted result on the exam.
+   * Students who already have an active link keep its token; its snapshot and options are refreshed.
+   */
+  static async generateLinksForExam(
+    examId: string,
+    options: ShareLinkOptions,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: ShareableLink[]; created?: number; refreshed?: number; error?: string }> {
+    try {
+      const exam = await getExamById(examId);
+      if (!exam) {
+        return { success: false, error: 'Exam not found' };
+      }
+
+      const keyResult = await AnswerKeyService.getAnswerKeyByExamId(examId);
+      if (!keyResult.success || !keyResult.data) {
+        return { success: false, error: 'This exam has no answer key yet' };
+      }
+      const answerKey = keyResult.data;
+
+      const resultsResponse = await ScanningService.getScannedResultsByExamId(examId);
+      if (!resultsResponse.success) {
+        return { success: false, error: resultsResponse.error || 'Failed to load results' };
+      }
+      const results = getCountedResults(resultsResponse.data || []).filter(r => !r.isNullId);
+      if (results.length === 0) {
+        return { success: false, error: 'There are no student results to share yet' };
+      }
+
+      const [tagsResult, scale, cls, existingResult] = await Promise.all([
+        TagService.getTagsByExamId(examId),
+        GradingScaleService.getScaleForExam(exam),
+        exam.classId ? getClassById(exam.classId) : Promise.resolve(null),
+        this.getLinksByExamId(examId, user.id),
+      ]);
+      const tags = (tagsResult.data || []).filter(tag => tag.questions.length > 0);
+
+      // Newest active link per student
+      const activeByStudent = new Map<string, ShareableLink>();
+      (existingResult.data || []).forEach(link => {
+        if (getLinkStatus(link) === 'active' && !activeByStudent.has(link.studentId)) {
+          activeByStudent.set(link.studentId, link);
+        }
+      });
+
+      const expiresAt = options.expiresInDays
+        ? Timestamp.fromDate(new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000))
+        : null;
+
+      const writes = results.map(result => {
+        const student = cls?.roster?.find(s => s.student_id === result.studentId);
+        const portal = buildPortalResult(
+          result,
+          answerKey,
+          tags,
+          {
+            title: exam.title,
+            subject: exam.subject,
+            className: exam.className,
+            choicePoints: exam.choicePoints,
+          },
+          scale,
+          {
+            showItems: options.showItems,
+            studentName: student ? `${student.first_name} ${student.last_name}` : undefined,
+          }
+        );
+        const existing = activeByStudent.get(result.studentId);
+        return { token: existing?.token || generateLinkToken(), existing, result, portal };
+      });
+
+      for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(getDb());
+        writes.slice(start, start + BATCH_LIMIT).forEach(({ token, existing, result, portal }) => {
+          const ref = doc(getDb(), SHAREABLE_LINKS_COLLECTION, token);
+          const snapshot = {
+            resultId: result.id,
+            showItems: options.showItems,
+            expiresAt,
+            result: portal,
+            updatedAt: serverTimestamp(),
+          };
+          if (existing) {
+            batch.update(ref, snapshot);
+          } else {
+            batch.set(ref, {
+              ...snapshot,
+              examId,
+              studentId: result.studentId,
+              createdBy: user.id,
+              createdAt: serverTimestamp(),
+              viewCount: 0,
+            });
+          }
+        });
+        await batch.commit();
+      }
+
+      const refreshed = writes.filter(write => write.existing).length;
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'results_shared',
+        `Shared result links with ${writes.length} student(s) for exam: ${exam.title}`,
+        {
+          entityId: examId,
+          entityType: 'exam',
+          entityName: exam.title,
+          metadata: {
+            created: writes.length - refreshed,
+            refreshed,
+            showItems: options.showItems,
+            expiresInDays: options.expiresInDays,
+          },
+        }
+      );
+
+      const updated = await this.getLinksByExamId(examId, user.id);
+      return { success: true, data: updated.data, created: writes.length - refreshed, refreshed };
+    } catch (error) {
+      console.error('Error generating shareable links:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Stop a link from opening. Revoked links stay listed so their views remain visible.
+   */
+  static async revokeLink(
+    link: ShareableLink,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await updateDoc(doc(getDb(), SHAREABLE_LINKS_COLLECTION, link.token), {
+        revokedAt: serverTimestamp(),
+        revokedBy: user.id,
+      });
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'results_shared',
+        `Revoked the result link of student ${link.studentId} for exam: ${link.result.examTitle}`,
+        {
+          entityId: link.examId,
+          entityType: 'exam',
+          entityName: link.result.examTitle,
+          metadata: { studentId: link.studentId, viewCount: link.viewCount },
+        }
+      );
+      return { success: true };
+    } catch (error) {
+      console.error('Error revoking shareable link:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Open a link from the student portal and count the view.
+   * Expired and revoked links return their status without the result.
+   */
+  static async openLink(
+    token: string
+  ): Promise<{
+    success: boolean;
+    data?: ShareableLink;
+    status?: ShareableLinkStatus | 'not_found' | 'unavailable';
+    error?: string;
+  }> {
+    try {
+      const snapshot = await getDoc(doc(getDb(), SHAREABLE_LINKS_COLLECTION, token));
+      if (!snapshot.exists()) {
+        return { success: false, status: 'not_found', error: 'This link does not exist' };
+      }
+
+      const link = linkFromFirestore(snapshot.id, snapshot.data());
+      const status = getLinkStatus(link);
+      if (status !== 'active') {
+        return { success: false, status, error: `This link has been ${status}` };
+      }
+
+      // Counting a view must not keep the student from their result
+      try {
+        await updateDoc(snapshot.ref, { viewCount: increment(1), lastViewedAt: serverTimestamp() });
+      } catch (error) {
+        console.error('Error counting link view:', error);
+      }
+
+      return { success: true, status, data: { ...link, viewCount: link.viewCount + 1 } };
+    } catch (error) {
+      // Security rules refuse reads of expired or revoked links
+      if ((error as { code?: string }).code === 'permission-denied') {
+        return { success: false, status: 'unavailable', error: 'This link has expired or been revoked' };
+      }
+      console.error('Error opening shareable link:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
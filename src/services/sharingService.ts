@@ -0,0 +1,221 @@
+/**
+ * Sharing Service
+ * Shares classes and exams with other instructors (co-teaching). The owner invites a
+ * collaborator by email or instructor ID; the collaborator then finds the item in their
+ * own lists. Access levels are described in src/lib/sharing.ts.
+ */
+
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  where,
+  limit,
+  updateDoc,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Collaborator, Shareable, SharedItemType, ShareAccess } from '@/types/sharing';
+import { accessIncludes, parseInviteIdentifier, SHARE_ACCESS_LABELS } from '@/lib/sharing';
+import { getInstructorProfile } from './instructorService';
+import { getClassById } from './classService';
+import { AuditLogger } from './auditLogger';
+
+const USERS_COLLECTION = 'users';
+
+const ITEM_COLLECTIONS: Record<SharedItemType, string> = {
+  class: 'classes',
+  exam: 'exams',
+};
+
+export interface SharedItem extends Shareable {
+  id: string;
+  name: string; // shown in audit entries
+  classId?: string; // exams only: the class whose roster scanning needs
+}
+
+type Instructor = Pick<Collaborator, 'userId' | 'email' | 'fullName' | 'instructorId'>;
+
+export class SharingService {
+  /**
+   * Find an account by email or instructor ID (INSTRUCTOR-###)
+   */
+  static async findInstructor(
+    identifier: string
+  ): Promise<{ success: boolean; data?: Instructor; error?: string }> {
+    try {
+      const parsed = parseInviteIdentifier(identifier);
+      if (!parsed) {
+        return { success: false, error: 'Enter an email address or an instructor ID like INSTRUCTOR-001' };
+      }
+
+      if (parsed.field === 'instructorId') {
+        const profile = await getInstructorProfile(parsed.value);
+        if (profile) {
+          return {
+            success: true,
+            data: {
+              userId: profile.userId,
+              email: profile.email,
+              fullName: profile.fullName,
+              instructorId: profile.instructorId,
+            },
+          };
+        }
+      }
+
+      // Emails are matched as typed and in lower case, since older accounts kept their casing
+      const candidates = Array.from(new Set([parsed.value, identifier.trim()]));
+      for (const value of candidates) {
+        const q = query(collection(db, USERS_COLLECTION), where(parsed.field, '==', value), limit(1));
+        const snapshot = await getDocs(q);
+        if (!snapshot.empty) {
+          const data = snapshot.docs[0].data();
+          return {
+            success: true,
+            data: {
+              userId: snapshot.docs[0].id,
+              email: data.email || '',
+              ...(data.fullName && { fullName: data.fullName }),
+              ...(data.instructorId && { instructorId: data.instructorId }),
+            },
+          };
+        }
+      }
+
+      return { success: false, error: `No account found for ${identifier.trim()}` };
+    } catch (error) {
+      console.error('Error finding instructor:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Invite a collaborator, or change the access of an existing one.
+   * Sharing an exam also lets the collaborator view its class, whose roster scanning needs.
+   */
+  static async shareItem(
+    itemType: SharedItemType,
+    item: SharedItem,
+    identifier: string,
+    access: ShareAccess,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: Collaborator; error?: string }> {
+    try {
+      if (item.createdBy !== user.id) {
+        return { success: false, error: `Only the owner can share this ${itemType}` };
+      }
+
+      const found = await this.findInstructor(identifier);
+      if (!found.success || !found.data) {
+        return { success: false, error: found.error };
+      }
+      if (found.data.userId === user.id) {
+        return { success: false, error: `You already own this ${itemType}` };
+      }
+
+      const previous = item.collaborators?.[found.data.userId];
+      const collaborator: Collaborator = {
+        ...found.data,
+        access,
+        addedBy: previous?.addedBy || user.id,
+        addedAt: previous?.addedAt || new Date().toISOString(),
+      };
+
+      await this.writeCollaborator(ITEM_COLLECTIONS[itemType], item.id, collaborator);
+
+      if (itemType === 'exam' && item.classId) {
+        await this.shareClassForExam(item.classId, collaborator, user.id);
+      }
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'sharing_changed',
+        previous
+          ? `Changed ${collaborator.email}'s access to ${itemType} ${item.name} to ${SHARE_ACCESS_LABELS[access]}`
+          : `Shared ${itemType} ${item.name} with ${collaborator.email} as ${SHARE_ACCESS_LABELS[access]}`,
+        {
+          entityId: item.id,
+          entityType: itemType,
+          entityName: item.name,
+          metadata: {
+            collaboratorId: collaborator.userId,
+            access,
+            ...(previous && { previousAccess: previous.access }),
+          },
+        }
+      );
+
+      return { success: true, data: collaborator };
+    } catch (error) {
+      console.error('Error sharing item:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Stop sharing an item with a collaborator
+   */
+  static async removeCollaborator(
+    itemType: SharedItemType,
+    item: SharedItem,
+    collaboratorId: string,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (item.createdBy !== user.id) {
+        return { success: false, error: `Only the owner can change who this ${itemType} is shared with` };
+      }
+
+      const collaborator = item.collaborators?.[collaboratorId];
+      await updateDoc(doc(db, ITEM_COLLECTIONS[itemType], item.id), {
+        [`collaborators.${collaboratorId}`]: deleteField(),
+        collaboratorIds: arrayRemove(collaboratorId),
+        updatedAt: serverTimestamp(),
+      });
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'sharing_changed',
+        `Stopped sharing ${itemType} ${item.name} with ${collaborator?.email || collaboratorId}`,
+        {
+          entityId: item.id,
+          entityType: itemType,
+          entityName: item.name,
+          metadata: { collaboratorId, removed: true },
+        }
+      );
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing collaborator:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private static async writeCollaborator(collectionName: string, itemId: string, collaborator: Collaborator) {
+    await updateDoc(doc(db, collectionName, itemId), {
+      [`collaborators.${collaborator.userId}`]: collaborator,
+      collaboratorIds: arrayUnion(collaborator.userId),
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Give an exam's collaborator view access to the exam's class, when the owner owns
+   * that class too. Existing class access is never lowered.
+   */
+  private static async shareClassForExam(classId: string, collaborator: Collaborator, ownerId: string) {
+    const cls = await getClassById(classId);
+    if (!cls || cls.createdBy !== ownerId) return;
+    if (accessIncludes(cls.collaborators?.[collaborator.userId]?.access || null, 'viewer')) return;
+
+    await this.writeCollaborator(ITEM_COLLECTIONS.class, classId, { ...collaborator, access: 'viewer' });
+  }
+}
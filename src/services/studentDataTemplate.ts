@@ -30,10 +30,10 @@ export const STUDENT_DATA_TEMPLATE_INFO = {
       name: 'student_id',
       required: false,
       description: 'Unique student identifier',
-      format: 'YYYY-XXXX (e.g., 2026-0001)',
+      format: "The institution's Student ID format, set in Settings (default YYYY-####, e.g., 2026-0001)",
       example: '2026-0001',
       autoGenerate: true,
-      note: 'Leave empty to auto-generate IDs in YYYY-XXXX format',
+      note: "Leave empty to auto-generate IDs in the institution's format",
     },
     first_name: {
       name: 'first_name',
@@ -98,7 +98,7 @@ export const STUDENT_DATA_TEMPLATE_INFO = {
   validationRules: {
     required: ['first_name', 'last_name', 'year', 'section'],
     format: {
-      student_id: 'YYYY-XXXX',
+      student_id: "Institution's Student ID format (see Settings)",
       first_name: 'Letters only, 2-50 characters',
       last_name: 'Letters only, 2-50 characters',
       email: 'Valid email format',
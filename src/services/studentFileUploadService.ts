@@ -5,6 +5,8 @@
  */
 
 import * as XLSX from 'xlsx';
+import { getIdExample } from '@/lib/studentIdPolicy';
+import { StudentIdPolicyService } from './studentIdPolicyService';
 
 export interface ParsedStudent {
   rowIndex: number;
@@ -256,7 +258,7 @@ export class StudentFileUploadService {
         section: 'A',
       },
       {
-        student_id: '2026-0001',
+        student_id: getIdExample(StudentIdPolicyService.getCachedPolicy()),
         first_name: 'Maria',
         last_name: 'Santos',
         email: 'maria.santos@example.com',
@@ -1,16 +1,18 @@
 /**
  * Student ID Generation and Management Service
- * Handles auto-assignment of temporary IDs and conflict resolution
+ * Handles auto-assignment of temporary IDs and conflict resolution.
+ * IDs follow the institution's Student ID policy (see studentIdPolicyService).
  */
 
-import { collection, getDocs, query, where, updateDoc, doc } from 'firebase/firestore';
+import { collection, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { StudentIdPolicy } from '@/types/studentId';
+import { describeIdFormat, generateStudentId, getIdSequence, getMaxSequence } from '@/lib/studentIdPolicy';
+import { StudentIdPolicyService } from './studentIdPolicyService';
 
 export interface StudentIDConfig {
-  format: 'NUMERIC' | 'ALPHANUMERIC' | 'YEARLY_SEQUENCE'; // 2026-0001
-  prefix?: string; // e.g., 'STU', 'SID'
-  length: number; // Total length of ID
-  startFrom?: number; // Starting number (default: 1)
+  policy?: StudentIdPolicy; // Defaults to the institution's policy
+  startFrom?: number; // Starting sequence number (default: 1)
 }
 
 export interface StudentIDResult {
@@ -23,40 +25,14 @@ export interface StudentIDResult {
 export class StudentIDService {
   /**
    * Generate temporary IDs for students
-   * Format: 2026-0001, 2026-0002, etc.
+   * e.g. 2026-0001, 2026-0002 under the default YYYY-#### policy
    */
-  static generateTemporaryIDs(
-    count: number,
-    config: StudentIDConfig = {
-      format: 'YEARLY_SEQUENCE',
-      length: 4,
-      startFrom: 1,
-    }
-  ): string[] {
-    const ids: string[] = [];
+  static generateTemporaryIDs(count: number, config: StudentIDConfig = {}): string[] {
+    const policy = config.policy || StudentIdPolicyService.getCachedPolicy();
     const start = config.startFrom || 1;
     const currentYear = new Date().getFullYear();
 
-    for (let i = 0; i < count; i++) {
-      const num = start + i;
-      let id: string;
-
-      if (config.format === 'YEARLY_SEQUENCE') {
-        const numStr = String(num).padStart(4, '0');
-        id = `${currentYear}-${numStr}`;
-      } else if (config.format === 'ALPHANUMERIC' && config.prefix) {
-        // Format: STU00001, STU00002, etc.
-        const numStr = String(num).padStart(config.length - config.prefix.length, '0');
-        id = `${config.prefix}${numStr}`;
-      } else {
-        // Format: 00001, 00002, etc. (numeric only)
-        id = String(num).padStart(config.length, '0');
-      }
-
-      ids.push(id);
-    }
-
-    return ids;
+    return Array.from({ length: count }, (_, i) => generateStudentId(policy, start + i, currentYear));
   }
 
   /**
@@ -125,19 +101,17 @@ export class StudentIDService {
       }
 
       // Get the next available ID number
-      const nextNum = await this.getNextAvailableIDNumber();
-      const defaultConfig: StudentIDConfig = {
-        format: 'YEARLY_SEQUENCE',
-        length: 4,
-        startFrom: nextNum,
-      };
+      const policy = config?.policy || (await StudentIdPolicyService.getPolicy());
+      const nextNum = await this.getNextAvailableIDNumber(policy);
+      const mergedConfig: StudentIDConfig = { startFrom: nextNum, ...config, policy };
 
-      const mergedConfig = { ...defaultConfig, ...config };
       const maxPossible = (mergedConfig.startFrom || 1) + studentsNeedingIds.length - 1;
-      if (mergedConfig.format === 'YEARLY_SEQUENCE' && maxPossible > 9999) {
+      if (maxPossible > getMaxSequence(policy)) {
         return {
           success: false,
-          error: 'Yearly ID limit reached (maximum is YYYY-9999).',
+          error: `ID limit reached: ${describeIdFormat(policy)} has room for ${getMaxSequence(policy)} IDs${
+            /Y/i.test(policy.mask) ? ' per year' : ''
+          }.`,
         };
       }
 
@@ -173,7 +147,7 @@ export class StudentIDService {
   /**
    * Get the next available ID number by scanning existing records
    */
-  private static async getNextAvailableIDNumber(): Promise<number> {
+  private static async getNextAvailableIDNumber(policy: StudentIdPolicy): Promise<number> {
     try {
       let maxNum = 0;
       const currentYear = new Date().getFullYear();
@@ -181,7 +155,7 @@ export class StudentIDService {
       // Check students collection (source of truth)
       const studentsSnapshot = await getDocs(collection(db, 'students'));
       studentsSnapshot.forEach((studentDoc) => {
-        const num = this.extractNumberFromID(studentDoc.id, currentYear);
+        const num = getIdSequence(studentDoc.id, policy, currentYear);
         if (num > maxNum) maxNum = num;
       });
 
@@ -191,7 +165,7 @@ export class StudentIDService {
         const classData = classDoc.data();
         if (classData.students && Array.isArray(classData.students)) {
           classData.students.forEach((student: any) => {
-            const num = this.extractNumberFromID(student.student_id, currentYear);
+            const num = getIdSequence(student.student_id || '', policy, currentYear);
             if (num > maxNum) maxNum = num;
           });
         }
@@ -203,7 +177,7 @@ export class StudentIDService {
         const rosterData = rosterDoc.data();
         if (rosterData.studentIds && Array.isArray(rosterData.studentIds)) {
           rosterData.studentIds.forEach((studentId: string) => {
-            const num = this.extractNumberFromID(studentId, currentYear);
+            const num = getIdSequence(studentId, policy, currentYear);
             if (num > maxNum) maxNum = num;
           });
         }
@@ -216,60 +190,6 @@ export class StudentIDService {
     }
   }
 
-  /**
-   * Extract numeric part from student ID
-   * e.g., "2026-0042" -> 42
-   */
-  private static extractNumberFromID(studentId: string, year?: number): number {
-    if (year) {
-      const yearlyMatch = studentId.match(new RegExp(`^${year}-(\\d{4})$`));
-      if (yearlyMatch) {
-        return parseInt(yearlyMatch[1], 10);
-      }
-      return 0;
-    }
-
-    const numMatch = studentId.match(/\d+$/);
-    if (numMatch) {
-      return parseInt(numMatch[0], 10);
-    }
-    return 0;
-  }
-
-  /**
-   * Update existing student records with auto-assigned IDs
-   */
-  static async updateStudentsWithIDs(
-    classId: string,
-    students: Array<{ index: number; student_id: string }>
-  ): Promise<{ success: boolean; error?: string }> {
-    try {
-      const classRef = doc(db, 'classes', classId);
-      const classDoc = await getDocs(query(collection(db, 'classes'), where('id', '==', classId)));
-
-      if (classDoc.empty) {
-        return { success: false, error: 'Class not found' };
-      }
-
-      const classData = classDoc.docs[0].data();
-      const updatedStudents = [...(classData.students || [])];
-
-      // Update each student with their assigned ID
-      students.forEach(({ index, student_id }) => {
-        if (updatedStudents[index]) {
-          updatedStudents[index].student_id = student_id;
-        }
-      });
-
-      await updateDoc(classRef, { students: updatedStudents });
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error updating students with IDs:', error);
-      return { success: false, error: (error as Error).message };
-    }
-  }
-
   /**
    * Bulk import students and auto-assign IDs if needed
    */
@@ -5,6 +5,9 @@
  */
 
 import { StudentService } from './studentService';
+import { StudentIdPolicyService } from './studentIdPolicyService';
+import { StudentIdPolicy } from '@/types/studentId';
+import { checkStudentId } from '@/lib/studentIdPolicy';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -38,7 +41,6 @@ export interface ImportValidationResult {
 export class StudentIDValidationService {
   private static readonly MIN_ID_LENGTH = 1;
   private static readonly MAX_ID_LENGTH = 50;
-  private static readonly STUDENT_ID_PATTERN = /^\d{4}-\d{4}$/;
   private static readonly VALIDATION_LOG: Array<{
     timestamp: string;
     action: string;
@@ -48,9 +50,13 @@ export class StudentIDValidationService {
   }> = [];
 
   /**
-   * Validate student ID format only (without duplicate checks)
+   * Validate student ID format only (without duplicate checks) against the institution's
+   * Student ID policy; the last loaded policy is used unless one is passed
    */
-  static validateStudentIdFormat(student_id: string | null | undefined): StudentIDValidation {
+  static validateStudentIdFormat(
+    student_id: string | null | undefined,
+    policy: StudentIdPolicy = StudentIdPolicyService.getCachedPolicy()
+  ): StudentIDValidation {
     const result: StudentIDValidation = {
       student_id: student_id || '',
       isValid: false,
@@ -87,16 +93,10 @@ export class StudentIDValidationService {
       return result;
     }
 
-    // Enforce strict format: YYYY-XXXX (e.g., 2026-0001)
-    if (!this.STUDENT_ID_PATTERN.test(trimmedId)) {
-      result.error = 'Student ID must follow YYYY-XXXX format (e.g., 2026-0001)';
-      this.logValidation('validate_format', student_id, 'FAILED', result.error);
-      return result;
-    }
-
-    const sequenceNumber = Number(trimmedId.split('-')[1]);
-    if (sequenceNumber < 1) {
-      result.error = 'Student ID sequence must be between 0001 and 9999';
+    // Enforce the institution's format (YYYY-#### unless an admin has changed it)
+    const formatError = checkStudentId(trimmedId, policy);
+    if (formatError) {
+      result.error = formatError;
       this.logValidation('validate_format', student_id, 'FAILED', result.error);
       return result;
     }
@@ -111,7 +111,7 @@ export class StudentIDValidationService {
    * Validate a single student ID (format + uniqueness)
    */
   static async validateStudentId(student_id: string | null | undefined): Promise<StudentIDValidation> {
-    const result = this.validateStudentIdFormat(student_id);
+    const result = this.validateStudentIdFormat(student_id, await StudentIdPolicyService.getPolicy());
     if (!result.isValid) {
       return result;
     }
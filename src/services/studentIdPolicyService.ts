@@ -0,0 +1,108 @@
+/**
+ * Student ID Policy Service
+ * Loads and saves the institution's Student ID format (settings/studentIdPolicy).
+ * Until an admin saves one, the default YYYY-#### format applies.
+ */
+
+import { doc, getDoc, setDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { StudentIdPolicy } from '@/types/studentId';
+import { DEFAULT_STUDENT_ID_POLICY, describeIdFormat, validateIdPolicy } from '@/lib/studentIdPolicy';
+import { AuditLogger } from './auditLogger';
+
+const SETTINGS_COLLECTION = 'settings';
+const POLICY_DOC = 'studentIdPolicy';
+
+// The last policy loaded, for callers that can't wait for Firestore
+let cachedPolicy: StudentIdPolicy | null = null;
+
+const toIso = (value: unknown): string | undefined =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : undefined);
+
+export class StudentIdPolicyService {
+  /**
+   * The policy as last loaded, or the default before the first load
+   */
+  static getCachedPolicy(): StudentIdPolicy {
+    return cachedPolicy || DEFAULT_STUDENT_ID_POLICY;
+  }
+
+  /**
+   * The institution's policy; falls back to the default if it can't be read
+   */
+  static async getPolicy(): Promise<StudentIdPolicy> {
+    try {
+      const snapshot = await getDoc(doc(db, SETTINGS_COLLECTION, POLICY_DOC));
+      if (!snapshot.exists()) {
+        cachedPolicy = DEFAULT_STUDENT_ID_POLICY;
+        return cachedPolicy;
+      }
+
+      const data = snapshot.data();
+      cachedPolicy = {
+        mask: (data.mask as string) || DEFAULT_STUDENT_ID_POLICY.mask,
+        checkDigit: data.checkDigit === 'luhn' ? 'luhn' : 'none',
+        updatedAt: toIso(data.updatedAt),
+        updatedBy: data.updatedBy as string | undefined,
+      };
+      return cachedPolicy;
+    } catch (error) {
+      console.error('Error loading Student ID policy:', error);
+      return this.getCachedPolicy();
+    }
+  }
+
+  /**
+   * Save the institution's policy. Existing Student IDs are not changed.
+   */
+  static async savePolicy(
+    policy: StudentIdPolicy,
+    user: { id: string; email: string }
+  ): Promise<{ success: boolean; data?: StudentIdPolicy; error?: string }> {
+    try {
+      const errors = validateIdPolicy(policy);
+      if (errors.length > 0) {
+        return { success: false, error: errors[0] };
+      }
+
+      const previous = await this.getPolicy();
+      const saved: StudentIdPolicy = {
+        mask: policy.mask.trim().toUpperCase(),
+        checkDigit: policy.checkDigit,
+        updatedAt: new Date().toISOString(),
+        updatedBy: user.id,
+      };
+
+      await setDoc(doc(db, SETTINGS_COLLECTION, POLICY_DOC), {
+        mask: saved.mask,
+        checkDigit: saved.checkDigit,
+        updatedAt: serverTimestamp(),
+        updatedBy: user.id,
+      });
+      cachedPolicy = saved;
+
+      await AuditLogger.logActivity(
+        user.id,
+        user.email,
+        'settings_changed',
+        `Changed Student ID format to ${describeIdFormat(saved)}`,
+        {
+          entityId: POLICY_DOC,
+          entityType: 'settings',
+          entityName: 'Student ID format',
+          metadata: {
+            previousMask: previous.mask,
+            previousCheckDigit: previous.checkDigit,
+            mask: saved.mask,
+            checkDigit: saved.checkDigit,
+          },
+        }
+      );
+
+      return { success: true, data: saved };
+    } catch (error) {
+      console.error('Error saving Student ID policy:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Student Merge Service
+ * Folds a duplicate student record into the record that survives it: grades,
+ * attendance, scanned results, exam results and enrollments are repointed to the
+ * surviving Student ID, and the duplicate is archived with a pointer to it.
+ * Candidate pairs come from DuplicateDetectionService.findSimilarStudents.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  WriteBatch,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getEnrollmentId, mergeEnrollments } from '@/lib/enrollment';
+import { getEnrollmentsForStudents } from './enrollmentService';
+import { IDChangeLogger } from './idChangeLogger';
+
+const STUDENTS_COLLECTION = 'students';
+const GRADES_COLLECTION = 'studentGrades';
+const ATTENDANCE_COLLECTION = 'studentAttendance';
+const SCANNED_RESULTS_COLLECTION = 'scannedResults';
+const EXAM_RESULTS_COLLECTION = 'studentExamResults';
+const ENROLLMENTS_COLLECTION = 'studentEnrollments';
+const BATCH_LIMIT = 400; // below Firestore's 500 writes per batch
+
+// Details the survivor takes from the duplicate when its own are blank
+const FILLABLE_FIELDS = ['email', 'grade', 'section', 'phone'];
+
+export interface MergeCounts {
+  grades: number;
+  attendance: number;
+  scannedResults: number;
+  examResults: number;
+  enrollments: number;
+}
+
+interface MergeReferences {
+  grades: QueryDocumentSnapshot<DocumentData>[];
+  attendance: QueryDocumentSnapshot<DocumentData>[];
+  scannedResults: QueryDocumentSnapshot<DocumentData>[];
+  examResults: QueryDocumentSnapshot<DocumentData>[];
+}
+
+export class StudentMergeService {
+  /**
+   * Everything that still points at the duplicate Student ID
+   */
+  private static async findReferences(duplicateId: string): Promise<MergeReferences> {
+    const byStudent = (collectionName: string, field: string) =>
+      getDocs(query(collection(db, collectionName), where(field, '==', duplicateId))).then(snapshot => snapshot.docs);
+
+    const [grades, attendance, scannedResults, examResults] = await Promise.all([
+      byStudent(GRADES_COLLECTION, 'student_id'),
+      byStudent(ATTENDANCE_COLLECTION, 'student_id'),
+      byStudent(SCANNED_RESULTS_COLLECTION, 'studentId'),
+      byStudent(EXAM_RESULTS_COLLECTION, 'student_id'),
+    ]);
+    return { grades, attendance, scannedResults, examResults };
+  }
+
+  /**
+   * How many records a merge would move from the duplicate to the survivor
+   */
+  static async previewMerge(duplicateId: string): Promise<{
+    success: boolean;
+    data?: MergeCounts;
+    error?: string;
+  }> {
+    try {
+      const [references, enrollments] = await Promise.all([
+        this.findReferences(duplicateId),
+        getEnrollmentsForStudents([duplicateId]),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          grades: references.grades.length,
+          attendance: references.attendance.length,
+          scannedResults: references.scannedResults.length,
+          examResults: references.examResults.length,
+          enrollments: enrollments.length,
+        },
+      };
+    } catch (error) {
+      console.error(`Error previewing merge of student ${duplicateId}:`, error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Merge the duplicate student record into the survivor and log it as an ID change.
+   * Rosters still embedded in class documents are not changed; migrate them first.
+   */
+  static async mergeStudents(
+    survivorId: string,
+    duplicateId: string,
+    user: { id: string; email: string }
+  ): Promise<{
+    success: boolean;
+    data?: MergeCounts;
+    error?: string;
+  }> {
+    try {
+      if (survivorId === duplicateId) {
+        return { success: false, error: 'Choose two different student records to merge' };
+      }
+
+      const [survivorSnap, duplicateSnap] = await Promise.all([
+        getDoc(doc(db, STUDENTS_COLLECTION, survivorId)),
+        getDoc(doc(db, STUDENTS_COLLECTION, duplicateId)),
+      ]);
+      if (!survivorSnap.exists() || !duplicateSnap.exists()) {
+        return { success: false, error: 'Student record not found' };
+      }
+      const survivor = survivorSnap.data();
+      const duplicate = duplicateSnap.data();
+      if (survivor.archived || duplicate.archived) {
+        return { success: false, error: 'Archived student records cannot be merged' };
+      }
+
+      const [references, survivorEnrollments, duplicateEnrollments] = await Promise.all([
+        this.findReferences(duplicateId),
+        getEnrollmentsForStudents([survivorId]),
+        getEnrollmentsForStudents([duplicateId]),
+      ]);
+      const now = new Date().toISOString();
+      const writes: Array<(batch: WriteBatch) => void> = [];
+
+      const repoint = (snapshots: QueryDocumentSnapshot<DocumentData>[], field: string) =>
+        snapshots.forEach(snapshot => writes.push(batch => batch.update(snapshot.ref, { [field]: survivorId })));
+      repoint(references.grades, 'student_id');
+      repoint(references.attendance, 'student_id');
+      repoint(references.examResults, 'student_id');
+
+      // Scanned results keep the ID read from the sheet, as a correction would
+      references.scannedResults.forEach(snapshot => {
+        writes.push(batch =>
+          batch.update(snapshot.ref, {
+            studentId: survivorId,
+            ...(!snapshot.data().originalStudentId && { originalStudentId: duplicateId }),
+          })
+        );
+      });
+
+      mergeEnrollments(survivorId, survivorEnrollments, duplicateEnrollments).forEach(enrollment => {
+        writes.push(batch =>
+          batch.set(doc(db, ENROLLMENTS_COLLECTION, getEnrollmentId(survivorId, enrollment.class_id)), {
+            ...enrollment,
+            updated_at: now,
+            updated_by: user.id,
+          })
+        );
+      });
+      duplicateEnrollments.forEach(enrollment => {
+        writes.push(batch =>
+          batch.delete(doc(db, ENROLLMENTS_COLLECTION, getEnrollmentId(duplicateId, enrollment.class_id)))
+        );
+      });
+
+      const filled = Object.fromEntries(
+        FILLABLE_FIELDS.filter(field => !survivor[field] && duplicate[field]).map(field => [field, duplicate[field]])
+      );
+      writes.push(batch =>
+        batch.update(doc(db, STUDENTS_COLLECTION, survivorId), { ...filled, updated_at: now })
+      );
+      writes.push(batch =>
+        batch.update(doc(db, STUDENTS_COLLECTION, duplicateId), {
+          archived: true,
+          merged_into: survivorId,
+          deleted_at: now,
+          deleted_by: user.id,
+          updated_at: now,
+        })
+      );
+
+      for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        writes.slice(start, start + BATCH_LIMIT).forEach(write => write(batch));
+        await batch.commit();
+      }
+
+      const counts: MergeCounts = {
+        grades: references.grades.length,
+        attendance: references.attendance.length,
+        scannedResults: references.scannedResults.length,
+        examResults: references.examResults.length,
+        enrollments: duplicateEnrollments.length,
+      };
+      await IDChangeLogger.logIDMerge(
+        user.id,
+        user.email,
+        `${survivor.first_name || ''} ${survivor.last_name || ''}`.trim() || survivorId,
+        duplicateId,
+        survivorId,
+        { ...counts }
+      );
+
+      return { success: true, data: counts };
+    } catch (error) {
+      console.error(`Error merging student ${duplicateId} into ${survivorId}:`, error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
@@ -10,7 +10,11 @@ import {
   serverTimestamp,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getEnrollmentId } from '@/lib/enrollment';
+import { Enrollment } from '@/types/enrollment';
+import { getClassRosters, setEnrollmentStatus } from './enrollmentService';
 import { StudentIDValidationService } from './studentIDValidationService';
+import { StudentIdPolicyService } from './studentIdPolicyService';
 import {
   validateCreateStudentInput,
   validateUpdateStudentInput,
@@ -27,7 +31,7 @@ export interface StudentRecord {
   archived?: boolean;
   deleted_at?: string;
   deleted_by?: string;
-  enrolled_classes: string[]; // Array of class IDs
+  merged_into?: string; // set when this record was merged into another as a duplicate
   created_at: string;
   updated_at: string;
   created_by: string;
@@ -36,12 +40,8 @@ export interface StudentRecord {
   validated_by?: string; // Admin/user who validated the record
 }
 
-export interface StudentEnrollment {
-  student_id: string; // PRIMARY KEY
-  class_id: string;
-  enrolled_date: string;
-  status: 'active' | 'inactive' | 'dropped';
-}
+// Classes a student belongs to are their enrollments (see src/lib/enrollment.ts)
+export type StudentEnrollment = Enrollment;
 
 export interface StudentExamResult {
   result_id: string;
@@ -83,7 +83,6 @@ export class StudentService {
           email: data.email || undefined,
           section: data.section || data.block || undefined,
           phone: data.phone || undefined,
-          enrolled_classes: data.enrolled_classes || [],
           created_at:
             data.created_at?.toDate?.()?.toISOString?.() ||
             data.created_at ||
@@ -161,7 +160,6 @@ export class StudentService {
       grade: normalizedGrade,
       email,
       section: normalizedSection,
-      enrolled_classes: [],
       created_at: now,
       updated_at: now,
       created_by,
@@ -258,11 +256,12 @@ export class StudentService {
   }
 
   /**
-   * Enroll student in a class
+   * Enroll student in a class, or re-enroll them after they dropped or went inactive
    */
   static async enrollStudentInClass(
     student_id: string,
-    class_id: string
+    class_id: string,
+    enrolled_by: string
   ): Promise<StudentEnrollment> {
     try {
       // Verify student exists
@@ -277,33 +276,14 @@ export class StudentService {
         throw new Error(`Student ${student_id} is already enrolled in class ${class_id}`);
       }
 
-      const now = new Date().toISOString();
-      const enrollment_id = `${student_id}_${class_id}`;
+      await setEnrollmentStatus(class_id, student_id, 'active', enrolled_by);
 
-      const enrollmentData: StudentEnrollment = {
+      return {
         student_id,
         class_id,
-        enrolled_date: now,
+        enrolled_date: existingEnrollment?.enrolled_date || new Date().toISOString(),
         status: 'active',
       };
-
-      // Create enrollment record
-      await setDoc(doc(db, ENROLLMENTS_COLLECTION, enrollment_id), {
-        ...enrollmentData,
-        enrolled_date: serverTimestamp(),
-      });
-
-      // Update student's enrolled_classes array
-      await updateDoc(doc(db, STUDENTS_COLLECTION, student_id), {
-        enrolled_classes: enrollment => {
-          if (!enrollment) return [class_id];
-          if (enrollment.includes(class_id)) return enrollment;
-          return [...enrollment, class_id];
-        },
-        updated_at: serverTimestamp(),
-      });
-
-      return enrollmentData;
     } catch (error) {
       console.error(`Error enrolling student ${student_id} in class ${class_id}:`, error);
       throw new Error(`Failed to enroll student: ${(error as Error).message}`);
@@ -318,8 +298,7 @@ export class StudentService {
     class_id: string
   ): Promise<StudentEnrollment | null> {
     try {
-      const enrollment_id = `${student_id}_${class_id}`;
-      const docSnap = await getDoc(doc(db, ENROLLMENTS_COLLECTION, enrollment_id));
+      const docSnap = await getDoc(doc(db, ENROLLMENTS_COLLECTION, getEnrollmentId(student_id, class_id)));
       return docSnap.exists() ? (docSnap.data() as StudentEnrollment) : null;
     } catch (error) {
       console.error(`Error fetching enrollment ${student_id}:${class_id}:`, error);
@@ -328,24 +307,15 @@ export class StudentService {
   }
 
   /**
-   * Get all students enrolled in a class
+   * Get all students actively enrolled in a class
    */
   static async getClassStudents(class_id: string): Promise<StudentRecord[]> {
     try {
-      const enrollmentsQuery = query(
-        collection(db, ENROLLMENTS_COLLECTION),
-        where('class_id', '==', class_id),
-        where('status', '==', 'active')
-      );
-
-      const enrollmentDocs = await getDocs(enrollmentsQuery);
-      const studentIds = enrollmentDocs.docs.map(
-        (doc) => (doc.data() as StudentEnrollment).student_id
-      );
+      const roster = (await getClassRosters([class_id])).get(class_id) || [];
 
       const students: StudentRecord[] = [];
-      for (const student_id of studentIds) {
-        const student = await this.getStudentById(student_id);
+      for (const entry of roster.filter((student) => student.status === 'active')) {
+        const student = await this.getStudentById(entry.student_id);
         if (student) students.push(student);
       }
 
@@ -357,12 +327,19 @@ export class StudentService {
   }
 
   /**
-   * Get all classes for a student
+   * Get the IDs of the classes a student is actively enrolled in
    */
   static async getStudentClasses(student_id: string): Promise<string[]> {
     try {
-      const student = await this.getStudentById(student_id);
-      return student?.enrolled_classes || [];
+      const enrollmentsQuery = query(
+        collection(db, ENROLLMENTS_COLLECTION),
+        where('student_id', '==', student_id)
+      );
+      const enrollmentDocs = await getDocs(enrollmentsQuery);
+      return enrollmentDocs.docs
+        .map((enrollmentDoc) => enrollmentDoc.data() as StudentEnrollment)
+        .filter((enrollment) => enrollment.status === 'active')
+        .map((enrollment) => enrollment.class_id);
     } catch (error) {
       console.error(`Error fetching classes for student ${student_id}:`, error);
       return [];
@@ -439,7 +416,10 @@ export class StudentService {
     isValid: boolean;
     message?: string;
   }> {
-    const formatValidation = StudentIDValidationService.validateStudentIdFormat(student_id);
+    const formatValidation = StudentIDValidationService.validateStudentIdFormat(
+      student_id,
+      await StudentIdPolicyService.getPolicy()
+    );
     if (!formatValidation.isValid) {
       return { isValid: false, message: formatValidation.error || 'Invalid student ID format' };
     }
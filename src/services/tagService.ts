@@ -0,0 +1,120 @@
+/**
+ * Tag Service
+ * Stores question tags (competencies, learning outcomes, topics) per exam in Firestore
+ */
+
+import {
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  getDocs,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { QuestionTag } from '@/types/tags';
+
+const QUESTION_TAGS_COLLECTION = 'questionTags';
+
+const toIso = (value: unknown): string =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : '');
+
+export class TagService {
+  /**
+   * Get all tags of an exam, oldest first
+   */
+  static async getTagsByExamId(
+    examId: string
+  ): Promise<{ success: boolean; data?: QuestionTag[]; error?: string }> {
+    try {
+      const q = query(collection(db, QUESTION_TAGS_COLLECTION), where('examId', '==', examId));
+      const snapshot = await getDocs(q);
+
+      const tags = snapshot.docs
+        .map(docSnap => {
+          const data = docSnap.data();
+          return {
+            ...data,
+            id: docSnap.id,
+            questions: data.questions || [],
+            createdAt: toIso(data.createdAt),
+            updatedAt: toIso(data.updatedAt),
+          } as QuestionTag;
+        })
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      return { success: true, data: tags };
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  static async createTag(
+    examId: string,
+    name: string,
+    color: string,
+    userId: string,
+    questions: number[] = []
+  ): Promise<{ success: boolean; data?: QuestionTag; error?: string }> {
+    try {
+      const tagId = `tag_${examId}_${Date.now()}`;
+      const now = new Date().toISOString();
+      const tag: QuestionTag = {
+        id: tagId,
+        examId,
+        name: name.trim(),
+        color,
+        questions,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await setDoc(doc(db, QUESTION_TAGS_COLLECTION, tagId), {
+        ...tag,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      return { success: true, data: tag };
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Replace the set of questions a tag is attached to
+   */
+  static async updateTagQuestions(
+    tagId: string,
+    questions: number[]
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const unique = Array.from(new Set(questions)).sort((a, b) => a - b);
+      await updateDoc(doc(db, QUESTION_TAGS_COLLECTION, tagId), {
+        questions: unique,
+        updatedAt: serverTimestamp(),
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating tag questions:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  static async deleteTag(tagId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await deleteDoc(doc(db, QUESTION_TAGS_COLLECTION, tagId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Template Service
+ * Stores answer sheet templates (with their sheet definition) in Firestore and
+ * resolves which printed sheet an exam's scans should be read with
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  getDocs,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getBuiltInTemplate } from '@/lib/sheetTemplates';
+import { AnswerSheetTemplate, SheetTemplateDefinition } from '@/types/templates';
+
+const TEMPLATES_COLLECTION = 'templates';
+
+export type TemplateInput = Omit<AnswerSheetTemplate, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>;
+
+const toIso = (value: unknown): string =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : '');
+
+const fromFirestore = (id: string, data: Record<string, any>): AnswerSheetTemplate => ({
+  ...data,
+  id,
+  layout: data.layout || 'single',
+  studentIdLength: data.studentIdLength || 9,
+  createdAt: toIso(data.createdAt),
+  updatedAt: data.updatedAt ? toIso(data.updatedAt) : undefined,
+} as AnswerSheetTemplate);
+
+// Firestore rejects undefined values
+const withoutUndefined = <T extends object>(data: T): Partial<T> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+/**
+ * Sheet definition of a template; templates saved before the designer use the built-in sheet
+ */
+export const resolveTemplateDefinition = (
+  template: Pick<AnswerSheetTemplate, 'definition' | 'numQuestions' | 'choicesPerQuestion'>
+): SheetTemplateDefinition =>
+  template.definition || getBuiltInTemplate(template.numQuestions, template.choicesPerQuestion);
+
+export class TemplateService {
+  /**
+   * Get an instructor's templates, newest first
+   */
+  static async getTemplates(
+    instructorId: string
+  ): Promise<{ success: boolean; data?: AnswerSheetTemplate[]; error?: string }> {
+    try {
+      const q = query(collection(db, TEMPLATES_COLLECTION), where('instructorId', '==', instructorId));
+      const snapshot = await getDocs(q);
+      const templates = snapshot.docs
+        .map(docSnap => fromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return { success: true, data: templates };
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * The template linked to an exam (the most recently created if several are)
+   */
+  static async getTemplateForExam(
+    examId: string
+  ): Promise<{ success: boolean; data?: AnswerSheetTemplate | null; error?: string }> {
+    try {
+      const q = query(collection(db, TEMPLATES_COLLECTION), where('examId', '==', examId));
+      const snapshot = await getDocs(q);
+      const templates = snapshot.docs
+        .map(docSnap => fromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return { success: true, data: templates[0] || null };
+    } catch (error) {
+      console.error('Error fetching exam template:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  static async createTemplate(
+    template: TemplateInput,
+    userId: string
+  ): Promise<{ success: boolean; data?: AnswerSheetTemplate; error?: string }> {
+    try {
+      const docRef = await addDoc(collection(db, TEMPLATES_COLLECTION), {
+        ...withoutUndefined(template),
+        createdBy: userId,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      const now = new Date().toISOString();
+      return {
+        success: true,
+        data: { ...template, id: docRef.id, createdBy: userId, createdAt: now, updatedAt: now },
+      };
+    } catch (error) {
+      console.error('Error creating template:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  static async updateTemplate(
+    templateId: string,
+    template: TemplateInput
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Unlinking a class or exam clears the stored link
+      const fields = Object.fromEntries(
+        Object.entries(template).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+      );
+      await updateDoc(doc(db, TEMPLATES_COLLECTION, templateId), {
+        ...fields,
+        updatedAt: serverTimestamp(),
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating template:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  static async deleteTemplate(templateId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await deleteDoc(doc(db, TEMPLATES_COLLECTION, templateId));
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * User Role Service
+ * Lists user accounts and assigns their roles (admin only; firestore.rules rejects
+ * role changes from anyone else). A proctor's role also lists the instructors they scan for.
+ */
+
+import { collection, doc, getDoc, getDocs, updateDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { AppRole, UserAccount } from '@/types/roles';
+import { ROLE_LABELS, toAppRole } from '@/lib/roles';
+import { AuditLogger } from './auditLogger';
+
+const USERS_COLLECTION = 'users';
+
+const toIso = (value: unknown): string | undefined =>
+  (value as Timestamp)?.toDate?.().toISOString() || (typeof value === 'string' ? value : undefined);
+
+const accountFromFirestore = (id: string, data: Record<string, any>): UserAccount => ({
+  id,
+  email: data.email || '',
+  fullName: data.fullName || '',
+  role: toAppRole(data.role),
+  ...(data.instructorId && { instructorId: data.instructorId }),
+  proctorFor: data.proctorFor || [],
+  createdAt: toIso(data.createdAt),
+  updatedAt: toIso(data.updatedAt),
+  ...(data.roleUpdatedBy && { roleUpdatedBy: data.roleUpdatedBy }),
+});
+
+export class UserRoleService {
+  /**
+   * Every user account, by name
+   */
+  static async getUsers(): Promise<{ success: boolean; data?: UserAccount[]; error?: string }> {
+    try {
+      const snapshot = await getDocs(collection(getDb(), USERS_COLLECTION));
+      const users = snapshot.docs
+        .map(docSnap => accountFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => (a.fullName || a.email).localeCompare(b.fullName || b.email));
+      return { success: true, data: users };
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * One user's account; accounts without a users document get the default role
+   */
+  static async getUser(
+    userId: string,
+    email: string = ''
+  ): Promise<{ success: boolean; data?: UserAccount; error?: string }> {
+    try {
+      const snapshot = await getDoc(doc(getDb(), USERS_COLLECTION, userId));
+      return { success: true, data: accountFromFirestore(userId, snapshot.exists() ? snapshot.data() : { email }) };
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Change a user's role. Proctor assignments are kept only for proctors.
+   * Admins cannot change their own role, so the last admin cannot lock everyone out.
+   */
+  static async updateUserRole(
+    account: UserAccount,
+    role: AppRole,
+    proctorFor: string[],
+    admin: { id: string; email: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (account.id === admin.id) {
+        return { success: false, error: 'You cannot change your own role' };
+      }
+
+      const assigned = role === 'proctor' ? Array.from(new Set(proctorFor)).filter(id => id !== account.id) : [];
+      await updateDoc(doc(getDb(), USERS_COLLECTION, account.id), {
+        role,
+        proctorFor: assigned,
+        roleUpdatedBy: admin.id,
+        updatedAt: serverTimestamp(),
+      });
+
+      await AuditLogger.logActivity(
+        admin.id,
+        admin.email,
+        'role_changed',
+        account.role === role
+          ? `Updated proctor assignments of ${account.email}`
+          : `Changed the role of ${account.email} from ${ROLE_LABELS[account.role]} to ${ROLE_LABELS[role]}`,
+        {
+          entityId: account.id,
+          entityType: 'user',
+          entityName: account.email,
+          metadata: {
+            previousRole: account.role,
+            role,
+            proctorFor: assigned,
+          },
+        }
+      );
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
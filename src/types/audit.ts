@@ -8,6 +8,13 @@ export type ActivityType =
   | 'file_download'
   | 'student_import'
   | 'answer_key_upload'
+  | 'results_regraded'
+  | 'results_merged'
+  | 'result_corrected'
+  | 'results_shared'
+  | 'results_emailed'
+  | 'role_changed'
+  | 'sharing_changed'
   | 'exam_created'
   | 'exam_deleted'
   | 'admin_action'
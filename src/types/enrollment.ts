@@ -0,0 +1,30 @@
+/**
+ * Enrollment Types - The canonical link between a student record and a class
+ */
+
+export type EnrollmentStatus =
+  | 'active' // on the roster; sheets are scanned and graded
+  | 'inactive' // on leave; kept on record but not expected to sit exams
+  | 'dropped'; // left the class; past results are kept
+
+// One document per student per class in studentEnrollments, with the id
+// `${student_id}_${class_id}`. The student's name and email live only on
+// their students/{student_id} record.
+export interface Enrollment {
+  student_id: string;
+  class_id: string;
+  status: EnrollmentStatus;
+  enrolled_date: string;
+  updated_at?: string;
+  updated_by?: string;
+}
+
+// A student record joined with their enrollment in one class
+export interface RosterEntry {
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
+  status: EnrollmentStatus;
+  enrolled_date: string;
+}
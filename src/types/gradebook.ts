@@ -0,0 +1,83 @@
+/**
+ * Gradebook Types - Grading scales, and weighted categories and term grade rules per class
+ */
+
+// A group of exams that counts for a share of the term grade, e.g. "Quizzes" at 30%
+export interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number; // percent of the term grade; a class's weights add up to 100
+  dropLowest: number; // lowest exam scores in the category left out of the average
+  examIds: string[];
+}
+
+// Initial grades at or above `min` transmute to `grade`
+export interface TransmutationRow {
+  min: number;
+  grade: number;
+}
+
+export interface TransmutationTable {
+  name: string;
+  rows: TransmutationRow[];
+}
+
+// Grades (exam percentages or term grades) at or above `min` are reported as `label`, e.g. "A" or "1.75"
+export interface GradeScaleBand {
+  min: number;
+  label: string;
+  passed: boolean;
+}
+
+export interface GradeScale {
+  id?: string; // the saved or built-in grading scale this was taken from
+  name: string;
+  bands: GradeScaleBand[];
+}
+
+// A named scale assigned to classes and exams; an exam's own scale wins over its class's
+export interface GradingScale extends GradeScale {
+  id: string;
+  builtIn?: boolean;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// How many scores fell in one band of a scale
+export interface GradeBandCount {
+  label: string;
+  min: number;
+  passed: boolean;
+  count: number;
+}
+
+export interface GradebookConfig {
+  classId: string;
+  categories: GradeCategory[];
+  transmutation: TransmutationTable | null; // null reports the initial grade as is
+  scale: GradeScale;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// A student's score on one exam
+export interface ExamScore {
+  score: number;
+  maxScore: number;
+}
+
+export interface CategoryGrade {
+  percent: number; // 0-100, average of the counted exams
+  counted: string[]; // exam ids
+  dropped: string[]; // exam ids
+}
+
+export interface TermGrade {
+  categories: Record<string, CategoryGrade | null>; // keyed by category id; null when nothing is recorded yet
+  initialGrade: number | null; // weighted average before transmutation
+  termGrade: number | null; // after transmutation
+  label: string; // from the grade scale, '' when there is no grade yet
+  passed: boolean | null;
+  missingExamIds: string[]; // recorded exams this student has no result for (counted as 0)
+}
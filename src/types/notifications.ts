@@ -0,0 +1,41 @@
+/**
+ * Notification Types - Result emails sent to students, with delivery status per recipient
+ */
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface EmailDelivery {
+  studentId: string;
+  email: string;
+  studentName?: string;
+  status: DeliveryStatus;
+  attempts: number;
+  error?: string; // last failure, or why the recipient was skipped
+  sentAt?: string;
+}
+
+export interface EmailBatch {
+  id: string;
+  examId: string;
+  examTitle: string;
+  transport: string; // 'smtp', 'file' or 'console'
+  subject: string; // template, before per-student values are filled in
+  note?: string; // instructor's message added to every email
+  includeLink: boolean; // add the student's result link when one is active
+  deliveries: EmailDelivery[];
+  sentCount: number;
+  failedCount: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// One outgoing message, as handed to a mail transport
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+}
@@ -0,0 +1,29 @@
+/**
+ * Role Types - Who a signed-in user is, and what they are allowed to do
+ */
+
+export type AppRole = 'admin' | 'department_head' | 'instructor' | 'proctor';
+
+export type Permission =
+  | 'manage_users' // assign roles and proctor assignments
+  | 'manage_system' // migrations, diagnostics, merging duplicate student records
+  | 'view_audit_logs'
+  | 'view_all_instructors' // see every instructor's exams, classes and results
+  | 'manage_exams' // create and edit exams, classes, templates and grading settings
+  | 'edit_answer_keys'
+  | 'scan_papers' // scan, import and review answer sheets
+  | 'view_classes'
+  | 'view_results'; // results, reports and analysis
+
+// A user account as stored in the users collection
+export interface UserAccount {
+  id: string; // Firebase Auth UID
+  email: string;
+  fullName: string;
+  role: AppRole;
+  instructorId?: string;
+  proctorFor?: string[]; // UIDs of the instructors a proctor scans for
+  createdAt?: string;
+  updatedAt?: string;
+  roleUpdatedBy?: string;
+}
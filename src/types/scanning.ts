@@ -1,17 +1,39 @@
+import { SheetTemplateDefinition } from './templates';
+
 export type AnswerChoice = string;
 
+// Per-item scoring rule, keyed by master question number (see lib/scoring.ts)
 export interface QuestionAnswer {
   questionNumber: number;
   correctAnswer: AnswerChoice;
-  points: number;
+  points: number; // item weight
+  acceptedAnswers?: AnswerChoice[]; // further answers that earn full points
+  partialCredit?: Record<string, number>; // choice → fraction of the item's points
+  dropped?: boolean; // "all choices correct": any shaded answer earns full points
+  bonus?: boolean; // counts toward the score but not the maximum
   choiceLabels?: Record<string, string>;
 }
 
+// Exam-wide scoring rules
+export interface ScoringPolicy {
+  wrongPenalty: number; // points deducted per wrong answer (negative marking)
+  blankPenalty: number; // points deducted per unanswered item
+  allowNegativeTotal: boolean; // otherwise the total never drops below zero
+}
+
+// One printed set of a shuffled exam (Set A, B, C …)
+export interface ExamSet {
+  label: string; // shaded on the sheet's Set row
+  questionOrder: number[]; // questionOrder[i] = master question number printed as item i + 1
+}
+
 export interface AnswerKey {
   id: string;
   examId: string;
-  answers: AnswerChoice[];
-  questionSettings?: QuestionAnswer[];
+  answers: AnswerChoice[]; // master key, in master question order
+  sets?: ExamSet[]; // omitted for single-set exams
+  questionSettings?: QuestionAnswer[]; // only items with a non-default rule
+  scoring?: ScoringPolicy;
   createdBy: string;
   instructorId?: string; // Instructor ID for the answer key creator
   createdAt: string;
@@ -20,6 +42,23 @@ export interface AnswerKey {
   version?: number;
 }
 
+// Immutable snapshot of an answer key as saved, kept so past scores can be justified
+export interface AnswerKeyVersion {
+  version: number;
+  answerKeyId: string;
+  examId: string;
+  answers: AnswerChoice[];
+  sets?: ExamSet[];
+  questionSettings?: QuestionAnswer[];
+  scoring?: ScoringPolicy;
+  savedBy: string;
+  savedByEmail?: string;
+  savedAt: string;
+  changedQuestions: number[]; // master question numbers whose answer or rule differs from the previous version
+  changedBy?: string; // who wrote the snapshot; differs from savedBy for versions kept from before history existed
+  restoredFrom?: number; // set when this version re-applied an older one
+}
+
 export interface StudentRoster {
   id: string;
   examId: string;
@@ -29,17 +68,108 @@ export interface StudentRoster {
   updatedAt: string;
 }
 
+export interface SheetPoint {
+  x: number;
+  y: number;
+}
+
+export interface SheetMarkers {
+  topLeft: SheetPoint;
+  topRight: SheetPoint;
+  bottomLeft: SheetPoint;
+  bottomRight: SheetPoint;
+}
+
+// What the machine actually saw when it read a sheet, kept for grade disputes
+export interface ScanEvidence {
+  imageUrl?: string; // compressed, rectified sheet image in Storage
+  imagePath?: string; // Storage path of the image
+  imageWidth: number;
+  imageHeight: number;
+  markers: SheetMarkers; // corner marker centres, in stored-image pixels
+  markerConfidence: number;
+  numQuestions: number; // question count the sheet layout was read with
+  template?: SheetTemplateDefinition; // designed sheet it was read with; absent for built-in sheets
+  idFromCode?: boolean; // Student ID taken from a pre-filled sheet's QR code
+  bubbleDarkness: number[][]; // [question][choice] → 0 (blank) .. 1 (solid)
+  idBubbleDarkness: number[][]; // [column][digit] → 0 (blank) .. 1 (solid)
+}
+
+// Evidence as captured on the client, before the image is uploaded
+export interface ScanEvidenceInput extends Omit<ScanEvidence, 'imageUrl' | 'imagePath'> {
+  imageDataUrl?: string;
+}
+
 export interface ScannedResult {
   id: string;
   examId: string;
   studentId: string;
-  answers: AnswerChoice[];
+  answers: AnswerChoice[]; // in the printed order of the sheet's exam set
+  examSet?: string; // set label read from the sheet, for multi-set exams
   score: number;
+  maxScore?: number; // weighted maximum; older results only have totalQuestions
   totalQuestions: number;
+  keyVersion?: number; // answer key version the score was computed against
   scannedAt: string;
   scannedBy: string;
+  regradedAt?: string;
+  regradedBy?: string;
   isNullId?: boolean;
   resolved?: boolean;
+  evidence?: ScanEvidence;
+  capturedAt?: string; // when the sheet was scanned, for results synced later from the offline queue
+  deviceId?: string; // scanning device, for results synced from the offline queue
+  attempt?: number; // set when a rescan was kept alongside earlier results; the latest attempt counts
+  originalAnswers?: AnswerChoice[]; // machine-read answers, kept once a correction is made
+  originalStudentId?: string; // machine-read Student ID, kept once the ID is corrected
+  corrections?: ResultCorrection[];
+  itemConfidence?: number[]; // [question] → 0 (coin toss) .. 1 (clear-cut) as read by the scanner
+  reviewItems?: number[]; // 0-based questions read with low confidence, until a person confirms or fixes them
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
+// Why a saved result was corrected by hand
+export type CorrectionReason = 'misread' | 'erasure' | 'student_appeal';
+
+export interface ResultCorrection {
+  field: 'answer' | 'studentId';
+  questionIndex?: number; // 0-based, in the printed order of the sheet, for answer corrections
+  from: string;
+  to: string;
+  reason: CorrectionReason;
+  note?: string;
+  correctedAt: string;
+  correctedBy: string;
+}
+
+// What to do when a student already has a result for the exam being saved
+export type DuplicateResolution = 'replace' | 'keep-both' | 'discard';
+
+// Scan kept on the device until it is written to Firestore (see services/scanQueueService.ts)
+export type QueuedScanStatus = 'pending' | 'synced' | 'conflict';
+
+export interface QueuedScan {
+  id: string;
+  resultId: string; // Firestore id the result is written under, stable across retries
+  examId: string;
+  studentId: string;
+  studentName?: string;
+  answers: AnswerChoice[];
+  examSet?: string;
+  isNullId: boolean;
+  evidence?: ScanEvidenceInput; // dropped once synced
+  capturedAt: string;
+  scannedBy: string;
+  deviceId: string;
+  status: QueuedScanStatus;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms of the next sync attempt
+  lastError?: string;
+  conflictResultIds?: string[]; // existing results for the same student that held up the sync
+  duplicateResolution?: DuplicateResolution; // instructor's choice for an existing result
+  itemConfidence?: number[];
+  syncedAt?: string;
 }
 
 export interface NullIdAlert {
@@ -63,12 +193,58 @@ export interface ExamStatistics {
   passingRate?: number;
 }
 
+// A student's read-only result link, opened at /r/{token}
 export interface ShareableLink {
-  id: string;
+  id: string; // same as the token; links are stored by token
   examId: string;
   token: string;
+  studentId: string;
+  resultId: string; // the counted result the snapshot was taken from
+  showItems: boolean; // instructor allows the item-by-item breakdown
   createdBy: string;
   createdAt: string;
+  updatedAt?: string; // when the snapshot was last refreshed
   expiresAt?: string;
+  revokedAt?: string;
+  revokedBy?: string;
   viewCount: number;
+  lastViewedAt?: string;
+  result: PortalResult;
+}
+
+export type ShareableLinkStatus = 'active' | 'expired' | 'revoked';
+
+// What the student sees. A snapshot, so the portal never reads the exam's other results.
+export interface PortalResult {
+  examTitle: string;
+  subject?: string;
+  className?: string;
+  studentId: string;
+  studentName?: string;
+  score: number;
+  maxScore: number;
+  percentage: number;
+  grade: string;
+  passed: boolean;
+  gradingScale: string;
+  scannedAt: string;
+  items?: PortalItem[]; // master question order; only when the instructor allows it
+  tags: PortalTagScore[];
+}
+
+export interface PortalItem {
+  question: number; // master question number
+  answer: string;
+  correctAnswer: string;
+  outcome: 'correct' | 'partial' | 'wrong' | 'blank';
+  points: number;
+  bonus?: boolean;
+}
+
+export interface PortalTagScore {
+  name: string;
+  color: string;
+  earned: number;
+  possible: number;
+  percent: number;
 }
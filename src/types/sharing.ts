@@ -0,0 +1,28 @@
+/**
+ * Sharing Types - Collaborators on a class or exam (co-teaching)
+ */
+
+export type ShareAccess =
+  | 'viewer' // sees the item and its results
+  | 'scanner' // viewer, plus scans and reviews answer sheets
+  | 'editor'; // scanner, plus edits the item, its roster and answer key
+
+export type SharedItemType = 'class' | 'exam';
+
+export interface Collaborator {
+  userId: string; // Firebase Auth UID
+  email: string;
+  fullName?: string;
+  instructorId?: string;
+  access: ShareAccess;
+  addedBy: string;
+  addedAt: string;
+}
+
+// The sharing fields stored on a class or exam document. collaboratorIds mirrors
+// the keys of collaborators so lists can query it with array-contains.
+export interface Shareable {
+  createdBy?: string;
+  collaborators?: Record<string, Collaborator>;
+  collaboratorIds?: string[];
+}
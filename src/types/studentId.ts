@@ -0,0 +1,17 @@
+/**
+ * Student ID Types - The institution's Student ID format (see src/lib/studentIdPolicy.ts)
+ */
+
+export type CheckDigitScheme =
+  | 'none'
+  | 'luhn'; // the last digit makes the Luhn (mod 10) sum of the ID's digits a multiple of 10
+
+// One policy per institution, stored in settings/studentIdPolicy
+export interface StudentIdPolicy {
+  // One character per ID character: # a digit, Y a digit of the year the ID was
+  // issued, anything else printed as-is. "YYYY-####" → 2026-0001, "YYYY#####" → 202600017
+  mask: string;
+  checkDigit: CheckDigitScheme;
+  updatedAt?: string;
+  updatedBy?: string;
+}
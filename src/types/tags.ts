@@ -0,0 +1,33 @@
+/**
+ * Question Tag Types - Competencies / learning outcomes attached to exam questions
+ */
+
+export interface QuestionTag {
+  id: string;
+  examId: string;
+  name: string;
+  color: string; // Tailwind background class, e.g. "bg-blue-500"
+  questions: number[]; // master question numbers
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Share of a tag's points a student (or the class) earned
+export interface TagScore {
+  tagId: string;
+  earned: number;
+  possible: number;
+  percent: number; // 0-100, rounded
+}
+
+export interface StudentTagReport {
+  resultId: string;
+  studentId: string;
+  tags: Record<string, TagScore>; // keyed by tag id
+}
+
+export interface TagCompetencyReport {
+  classScores: Record<string, TagScore>; // keyed by tag id
+  students: StudentTagReport[];
+}
@@ -0,0 +1,76 @@
+/**
+ * Answer Sheet Template Types - One declarative sheet definition shared by the
+ * PDF generator, the bubble reader and the template designer preview
+ */
+
+// How many sheets share one A4 page: 1, 2 (side by side) or 4 (2 × 2)
+export type SheetLayout = 'single' | 'double' | 'quad';
+
+export interface SheetAnswerBlock {
+  startQ: number;
+  endQ: number;
+  x: number; // centre of the first bubble (choice A of startQ)
+  y: number;
+}
+
+/**
+ * All coordinates are millimetres from the sheet's top-left corner and point at
+ * bubble / marker centres. Spacings are centre-to-centre.
+ */
+export interface SheetTemplateDefinition {
+  page: {
+    width: number;
+    height: number;
+  };
+  // Four square corner markers on the left/right and top/bottom centre lines
+  markers: {
+    size: number;
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+  };
+  studentId: {
+    digits: number; // columns printed and read
+    x: number; // first column, digit 0
+    y: number;
+    colSpacing: number;
+    rowSpacing: number;
+    bubbleSize: number;
+  };
+  // Horizontal "Set" row (A, B, C …), printed only for multi-set exams
+  examSet: {
+    x: number;
+    y: number;
+    spacing: number;
+  };
+  answers: {
+    numQuestions: number;
+    choices: number; // 2-6
+    bubbleSize: number;
+    bubbleSpacing: number; // between choices
+    rowSpacing: number; // between questions
+    blocks: SheetAnswerBlock[];
+  };
+}
+
+export interface AnswerSheetTemplate {
+  id: string;
+  name: string;
+  description: string;
+  numQuestions: number;
+  choicesPerQuestion: number;
+  layout: SheetLayout;
+  studentIdLength: number;
+  rowsPerBlock?: number;
+  // Missing on templates saved before the designer; those use the built-in sheet
+  definition?: SheetTemplateDefinition;
+  createdBy: string;
+  instructorId?: string;
+  classId?: string;
+  className?: string;
+  examId?: string;
+  examName?: string;
+  createdAt: string;
+  updatedAt?: string;
+}